@@ -0,0 +1,28 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+
+import { SucceededAstrometryResult } from "./shared/ProcessorTypes";
+import { getCenterDistance } from "./Astrometry";
+
+// One arcsec per pixel, centered on ra=150, dec=20
+const result: SucceededAstrometryResult = {
+    found: true,
+    raCenter: 150,
+    decCenter: 20,
+    refPixX: 500,
+    refPixY: 500,
+    cd1_1: -1 / 3600,
+    cd1_2: 0,
+    cd2_1: 0,
+    cd2_2: 1 / 3600,
+    width: 1001,
+    height: 1001,
+};
+
+describe("Astrometry", () => {
+    it("Center distance", () => {
+        expect(getCenterDistance(result, [150, 20])).to.be.closeTo(0, 0.01);
+        expect(getCenterDistance(result, [150, 20.1])).to.be.closeTo(6, 0.01);
+        expect(getCenterDistance(result, [150, 19])).to.be.closeTo(60, 0.01);
+    });
+});
@@ -3,8 +3,8 @@ import * as BackOfficeAPI from './shared/BackOfficeAPI';
 import * as RequestHandler from './RequestHandler';
 import ConfigStore from './ConfigStore';
 import { ExpressApplication, AppContext } from "./ModuleBase";
-import { AstrometryStatus, BackofficeStatus, AstrometryWizard, AstrometrySettings } from './shared/BackOfficeStatus';
-import { AstrometryResult, ProcessorAstrometryRequest } from './shared/ProcessorTypes';
+import { AstrometryStatus, BackofficeStatus, AstrometryWizard, AstrometrySettings, AstrometryCenterStep } from './shared/BackOfficeStatus';
+import { AstrometryResult, ProcessorAstrometryRequest, SucceededAstrometryResult } from './shared/ProcessorTypes';
 import JsonProxy from './JsonProxy';
 import { DriverInterface, IndiConnection } from './Indi';
 import SkyProjection from './SkyAlgorithms/SkyProjection';
@@ -26,9 +26,28 @@ const defaultSettings = ():AstrometrySettings=> ({
         angle: 60,
         minAltitude: 10,
     },
+    center: {
+        tolerance: 1,
+        maxRetry: 3,
+        exposure: 10,
+    },
     preferedScope: null,
 });
 
+// J2000 position (degrees) of the center of a solved image
+export function getImageCenter(result: SucceededAstrometryResult): number[] {
+    const skyProjection = SkyProjection.fromAstrometry(result);
+    return skyProjection.pixToRaDec([(result.width - 1) / 2, (result.height - 1) / 2]);
+}
+
+// Distance (arcmin) between the center of a solved image and a J2000 target
+export function getCenterDistance(result: SucceededAstrometryResult, target: number[]): number {
+    const center3d = SkyProjection.convertRaDecToEQ3D(getImageCenter(result));
+    const target3d = SkyProjection.convertRaDecToEQ3D(target);
+    const chord = Math.sqrt(center3d.reduce((acc, v, i)=>acc + (v - target3d[i]) * (v - target3d[i]), 0));
+    return 2 * Math.asin(Math.min(chord / 2, 1)) * 180 / Math.PI * 60;
+}
+
 // Astrometry requires: a camera, a mount
 // It uses the first camera and the first mount (as Focuser)
 export default class Astrometry implements RequestHandler.APIAppProvider<BackOfficeAPI.AstrometryAPI>{
@@ -61,6 +80,7 @@ export default class Astrometry implements RequestHandler.APIAppProvider<BackOff
             narrowedField: null,
             useNarrowedSearchRadius: false,
             runningWizard: null,
+            center: null,
         };
 
         this.appStateManager.getTarget().astrometry = initialStatus;
@@ -145,6 +165,7 @@ export default class Astrometry implements RequestHandler.APIAppProvider<BackOff
             setScope: this.setScope,
             goto: this.wizardProtectedApi(this.goto),
             sync: this.wizardProtectedApi(this.sync),
+            center: this.wizardProtectedApi(this.center),
             startPolarAlignmentWizard: this.startPolarAlignmentWizard,
             wizardNext: this.wizardNext,
             wizardInterrupt: this.wizardInterrupt,
@@ -383,12 +404,8 @@ export default class Astrometry implements RequestHandler.APIAppProvider<BackOff
                 this.currentStatus.lastOperationError = null;
                 this.currentStatus.target = null;
 
-                const skyProjection = SkyProjection.fromAstrometry(this.currentStatus.result);
-
-                // take the center of the image
-                const center = [(this.currentStatus.result.width - 1) / 2, (this.currentStatus.result.height - 1) / 2];
-                // Project to J2000
-                const [ra2000, dec2000] = skyProjection.pixToRaDec(center);
+                // take the center of the image, in J2000
+                const [ra2000, dec2000] = getImageCenter(this.currentStatus.result);
                 // compute JNOW center for last image.
                 const [ranow, decnow] = SkyProjection.raDecEpochFromJ2000([ra2000, dec2000], Date.now());
 
@@ -426,6 +443,97 @@ export default class Astrometry implements RequestHandler.APIAppProvider<BackOff
         });
     }
 
+    // J2000 position (degrees) of the selected mount
+    getMountJ2000Position(): number[] {
+        const targetScope = this.currentStatus.selectedScope;
+        if (!targetScope) {
+            throw new Error("No scope selected for astrometry");
+        }
+        const vector = this.context.indiManager.getValidConnection().getDevice(targetScope).getVector('EQUATORIAL_EOD_COORD');
+        const ra = parseFloat(vector.getPropertyValue("RA"));
+        const dec = parseFloat(vector.getPropertyValue("DEC"));
+        if (isNaN(ra) || isNaN(dec)) {
+            throw new Error("Invalid mount position");
+        }
+        return SkyProjection.J2000RaDecFromEpoch([ra * 360 / 24, dec], Date.now());
+    }
+
+    // Goto the target, then shoot, solve and sync until the image center is within tolerance
+    center = async (ct: CancellationToken, message: BackOfficeAPI.AstrometryCenterRequest)=>{
+        if (this.currentStatus.center !== null && this.currentStatus.center.status === "running") {
+            throw new Error("Centering already in progress");
+        }
+        const cameraId = message.camera || this.camera.currentStatus.selectedDevice;
+        if (!cameraId) {
+            throw new Error("No camera selected");
+        }
+        const settings = this.currentStatus.settings.center;
+        const target = [message.ra, message.dec];
+
+        this.currentStatus.center = {
+            status: "running",
+            target: {ra: message.ra, dec: message.dec},
+            tolerance: settings.tolerance,
+            steps: [],
+            error: null,
+        };
+        const centerStatus = this.currentStatus.center;
+
+        let lastDistance: number|null = null;
+        try {
+            for(let attempt = 0; attempt <= settings.maxRetry; ++attempt) {
+                centerStatus.steps.push({
+                    time: Date.now(),
+                    phase: "goto",
+                    distance: null,
+                    error: null,
+                });
+                const step: AstrometryCenterStep = centerStatus.steps[centerStatus.steps.length - 1];
+
+                try {
+                    const [ranow, decnow] = SkyProjection.raDecEpochFromJ2000(target, Date.now());
+                    await this.goto(ct, {ra: ranow, dec: decnow});
+
+                    step.phase = "shoot";
+                    const shootResult = await this.camera.doShoot(ct, cameraId, (s)=>({
+                        ...s,
+                        type: 'FRAME_LIGHT',
+                        exposure: settings.exposure,
+                        prefix: 'center_ISO8601',
+                    }));
+
+                    step.phase = "solve";
+                    const result = await this.compute(ct, {image: shootResult.path});
+                    if (!result.found) {
+                        throw new Error("Plate solve failed");
+                    }
+                    lastDistance = getCenterDistance(result, target);
+                    step.distance = lastDistance;
+                    console.log('Astrometry: center distance is ' + lastDistance + ' arcmin');
+                    if (lastDistance <= settings.tolerance) {
+                        step.phase = "done";
+                        centerStatus.status = "done";
+                        return lastDistance;
+                    }
+
+                    step.phase = "sync";
+                    await this.sync(ct, {});
+                } catch(e) {
+                    if (e instanceof CancellationToken.CancellationError) {
+                        throw e;
+                    }
+                    step.error = "" + (e.message || e);
+                }
+            }
+            throw new Error("Target not centered after " + (settings.maxRetry + 1) + " attempts"
+                + (lastDistance !== null ? " (" + lastDistance.toFixed(1) + " arcmin)" : ""));
+        } catch(e) {
+            centerStatus.status = "error";
+            centerStatus.error = e instanceof CancellationToken.CancellationError ? "Canceled" : "" + (e.message || e);
+            throw e;
+        }
+    }
+
     setWizard = (id: string, wizardBuilder:()=>Wizard) => {
         if (this.currentProcess !== null) {
             throw new Error("Astrometry is Busy");
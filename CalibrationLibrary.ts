@@ -0,0 +1,140 @@
+import {v4 as uuidv4} from 'node-uuid';
+import CancellationToken from 'cancellationtoken';
+import fs from 'fs';
+import { ExpressApplication, AppContext } from "./ModuleBase";
+import { BackofficeStatus, CalibrationLibraryStatus, CalibrationFrameParameters, CalibrationFrameType, CalibrationLightParameters, CalibrationMissing } from './shared/BackOfficeStatus';
+import JsonProxy from './JsonProxy';
+import { hasKey } from './Obj';
+import ConfigStore from './ConfigStore';
+import * as RequestHandler from "./RequestHandler";
+import * as BackOfficeAPI from "./shared/BackOfficeAPI";
+import { sequenceFromTemplate } from './SequenceTemplates';
+import { calibrationSequenceRoot, checkCalibrationLibrarySettings, computeMissing, defaultCalibrationLibrarySettings, findBestMaster, needsForLight, plannedLights } from './CalibrationMatch';
+
+const calibrationFrameTypes: CalibrationFrameType[] = ["FRAME_DARK", "FRAME_BIAS", "FRAME_FLAT"];
+
+export function isCalibrationFrameType(type: string|undefined): type is CalibrationFrameType {
+    return calibrationFrameTypes.indexOf(type as CalibrationFrameType) !== -1;
+}
+
+// Index of the dark, bias and flat frames taken by sequences, and of masters registered by the user
+export default class CalibrationLibrary
+        implements RequestHandler.APIAppProvider<BackOfficeAPI.CalibrationLibraryAPI>
+{
+    appStateManager: JsonProxy<BackofficeStatus>;
+    currentStatus: CalibrationLibraryStatus;
+    context: AppContext;
+
+    constructor(app:ExpressApplication, appStateManager:JsonProxy<BackofficeStatus>, context:AppContext) {
+        this.appStateManager = appStateManager;
+        this.appStateManager.getTarget().calibrationLibrary = {
+            entries: {},
+            settings: {...defaultCalibrationLibrarySettings},
+        };
+        this.currentStatus = this.appStateManager.getTarget().calibrationLibrary;
+        this.context = context;
+
+        new ConfigStore<CalibrationLibraryStatus["entries"]>(appStateManager, 'calibrationLibrary', ['calibrationLibrary', 'entries'], {}, {});
+
+        new ConfigStore<CalibrationLibraryStatus["settings"]>(appStateManager, 'calibrationLibrarySettings', ['calibrationLibrary', 'settings'],
+            {...defaultCalibrationLibrarySettings},
+            {...defaultCalibrationLibrarySettings});
+    }
+
+    // Called for each calibration frame counted by a sequence
+    public addFrame(parameters: CalibrationFrameParameters, path: string) {
+        this.currentStatus.entries[uuidv4()] = {
+            ...parameters,
+            path,
+            date: Date.now(),
+            master: false,
+        };
+    }
+
+    private getMissing(sequenceUid: string): CalibrationMissing[] {
+        const sequence = this.context.sequenceManager.findSequenceFromRequest(sequenceUid);
+        const needs = plannedLights(sequence, uuidv4).map(needsForLight).flat();
+        return computeMissing(needs, this.currentStatus.entries, this.currentStatus.settings, Date.now());
+    }
+
+    getMissingCalibration=async (ct: CancellationToken, payload: {sequenceUid: string}):Promise<CalibrationMissing[]>=>{
+        return this.getMissing(payload.sequenceUid);
+    }
+
+    createCalibrationSequence=async (ct: CancellationToken, payload: {sequenceUid: string}):Promise<string>=>{
+        const sequence = this.context.sequenceManager.findSequenceFromRequest(payload.sequenceUid);
+        const missing = this.getMissing(payload.sequenceUid);
+        if (!missing.length) {
+            throw new Error("No calibration frame missing for " + sequence.title);
+        }
+        return this.context.sequenceManager.addSequence(sequenceFromTemplate({
+            title: "Calibration for " + sequence.title,
+            camera: sequence.camera,
+            warmUpAtEnd: missing.some(m=>m.temperature !== null),
+            root: calibrationSequenceRoot(missing, uuidv4),
+        }));
+    }
+
+    findMasters=async (ct: CancellationToken, payload: {light: CalibrationLightParameters}):Promise<BackOfficeAPI.CalibrationMasters>=>{
+        const now = Date.now();
+        const [dark, bias, flat] = needsForLight(payload.light).map(need=>findBestMaster(this.currentStatus.entries, need, this.currentStatus.settings, now));
+        return {dark, bias, flat};
+    }
+
+    registerMaster=async (ct: CancellationToken, payload: {path: string, parameters: CalibrationFrameParameters}):Promise<string>=>{
+        if (!isCalibrationFrameType(payload.parameters.type)) {
+            throw new Error("Invalid frame type: " + payload.parameters.type);
+        }
+        if (!fs.existsSync(payload.path)) {
+            throw new Error("File not found: " + payload.path);
+        }
+        const id = uuidv4();
+        this.currentStatus.entries[id] = {
+            ...payload.parameters,
+            path: payload.path,
+            date: Date.now(),
+            master: true,
+        };
+        return id;
+    }
+
+    removeEntry=async (ct: CancellationToken, payload: {id: string})=>{
+        if (!hasKey(this.currentStatus.entries, payload.id)) {
+            throw new Error("Entry not found");
+        }
+        delete this.currentStatus.entries[payload.id];
+    }
+
+    // Drop the entries whose file was removed. Returns the number of entries dropped
+    purgeMissingFiles=async (ct: CancellationToken, payload: {}):Promise<number>=>{
+        let count = 0;
+        for(const id of Object.keys(this.currentStatus.entries)) {
+            if (!fs.existsSync(this.currentStatus.entries[id].path)) {
+                delete this.currentStatus.entries[id];
+                count++;
+            }
+        }
+        return count;
+    }
+
+    updateCurrentSettings=async (ct: CancellationToken, payload: {diff: any})=>{
+        const newSettings = JsonProxy.applyDiff(this.currentStatus.settings, payload.diff);
+        const error = checkCalibrationLibrarySettings(newSettings);
+        if (error !== null) {
+            throw new Error(error);
+        }
+        this.currentStatus.settings = newSettings;
+    }
+
+    getAPI() {
+        return {
+            getMissingCalibration: this.getMissingCalibration,
+            createCalibrationSequence: this.createCalibrationSequence,
+            findMasters: this.findMasters,
+            registerMaster: this.registerMaster,
+            removeEntry: this.removeEntry,
+            purgeMissingFiles: this.purgeMissingFiles,
+            updateCurrentSettings: this.updateCurrentSettings,
+        }
+    }
+}
@@ -0,0 +1,137 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+
+import { CalibrationEntry, CalibrationLightParameters, Sequence } from "./shared/BackOfficeStatus";
+import { calibrationSequenceRoot, checkCalibrationLibrarySettings, computeMissing, defaultCalibrationLibrarySettings, findBestMaster, needsForLight, plannedLights } from "./CalibrationMatch";
+
+function uuidMock() {
+    let v = 0;
+
+    return ()=>{
+        return (v++).toString(16).padStart(8, '0');
+    }
+}
+
+const day = 86400000;
+const now = 100 * day;
+
+const light: CalibrationLightParameters = {
+    camera: "cam",
+    exposure: 300,
+    bin: 1,
+    gain: 100,
+    offset: 10,
+    iso: null,
+    temperature: -10,
+    filter: "Ha",
+};
+
+function entry(e: Partial<CalibrationEntry>): CalibrationEntry {
+    return {
+        camera: "cam",
+        type: "FRAME_DARK",
+        exposure: 300,
+        bin: 1,
+        gain: 100,
+        offset: 10,
+        iso: null,
+        temperature: -10,
+        filter: null,
+        path: "/tmp/x.fits",
+        date: now - day,
+        master: true,
+        ...e,
+    };
+}
+
+describe("CalibrationMatch", () => {
+    it("Finds the closest master", () => {
+        const [dark, bias, flat] = needsForLight(light);
+        const entries = {
+            "warm": entry({temperature: -7}),
+            "close": entry({temperature: -9}),
+            "closeOld": entry({temperature: -9, date: now - 2 * day}),
+            "exact": entry({temperature: -10, gain: 0}),
+            "raw": entry({temperature: -10, master: false}),
+            "unknown": entry({temperature: null}),
+            "bias": entry({type: "FRAME_BIAS", exposure: 0.001, temperature: -11}),
+            "flatOld": entry({type: "FRAME_FLAT", exposure: 2, temperature: null, filter: "Ha", date: now - 40 * day}),
+            "flatOtherFilter": entry({type: "FRAME_FLAT", exposure: 2, temperature: null, filter: "OIII"}),
+        };
+        const settings = defaultCalibrationLibrarySettings;
+        assert.equal(findBestMaster(entries, dark, settings, now), "close");
+        assert.equal(findBestMaster(entries, bias, settings, now), "bias");
+        assert.isNull(findBestMaster(entries, flat, settings, now));
+        assert.equal(findBestMaster(entries, flat, {...settings, flatMaxAge: null}, now), "flatOld");
+        assert.isNull(findBestMaster(entries, dark, {...settings, temperatureTolerance: 0.5}, now));
+    });
+
+    it("Counts the missing frames", () => {
+        const settings = {...defaultCalibrationLibrarySettings, darkCount: 2, biasCount: 3, flatCount: 2};
+        const entries = {
+            "dark1": entry({master: false}),
+            "dark2": entry({master: false, temperature: -9}),
+            "bias": entry({master: false, type: "FRAME_BIAS", exposure: 0.001}),
+            "flat": entry({type: "FRAME_FLAT", exposure: 2, temperature: null, filter: "Ha"}),
+        };
+        // Needs are counted once
+        const needs = [...needsForLight(light), ...needsForLight(light)];
+        const missing = computeMissing(needs, entries, settings, now);
+        assert.deepEqual(missing.map(m=>[m.type, m.available, m.missing]), [["FRAME_BIAS", 1, 2]]);
+    });
+
+    it("Plans the lights of a sequence", () => {
+        const sequence: Sequence = {
+            status: "idle",
+            progress: null,
+            title: "Test sequence",
+            camera: "cam",
+            errorMessage: null,
+            stepStatus: {},
+            root: {
+                gain: 100,
+                childs: {
+                    list: ["cool", "lights", "darks"],
+                    byuuid: {
+                        "cool": {cooling: {temperature: -10}},
+                        "lights": {exposure: 60, filter: "L", repeat: 2},
+                        "darks": {type: "FRAME_DARK", exposure: 60, repeat: 2},
+                    },
+                },
+            },
+            images: [],
+            imageStats: {},
+        };
+        const lights = plannedLights(sequence, uuidMock());
+        assert.equal(lights.length, 2);
+        assert.deepEqual(lights[0], {camera: "cam", exposure: 60, bin: 1, gain: 100, offset: null, iso: null, temperature: -10, filter: "L"});
+        // The sequence itself is untouched
+        assert.deepEqual(sequence.stepStatus, {});
+
+        expect(()=>plannedLights({...sequence, camera: null}, uuidMock())).to.throw("Sequence has no camera");
+    });
+
+    it("Builds a calibration sequence", () => {
+        const missing = computeMissing([
+            ...needsForLight({...light, temperature: -5}),
+            ...needsForLight(light),
+        ], {}, defaultCalibrationLibrarySettings, now);
+        const root = calibrationSequenceRoot(missing, uuidMock());
+        const steps = root.childs!.list.map(id=>root.childs!.byuuid[id]);
+        assert.deepEqual(steps.map(s=>s.cooling ? "cool " + s.cooling.temperature : s.type), [
+            "FRAME_FLAT", "cool -10", "FRAME_BIAS", "FRAME_DARK", "cool -5", "FRAME_BIAS", "FRAME_DARK",
+        ]);
+        assert.equal(steps[0].filter, "Ha");
+        assert.isDefined(steps[0].autoFlat);
+        assert.equal(steps[2].exposure, 0.001);
+        assert.equal(steps[2].repeat, defaultCalibrationLibrarySettings.biasCount);
+        assert.equal(steps[3].exposure, 300);
+        assert.equal(steps[3].gain, 100);
+    });
+
+    it("Checks the settings", () => {
+        assert.isNull(checkCalibrationLibrarySettings(defaultCalibrationLibrarySettings));
+        assert.equal(checkCalibrationLibrarySettings({...defaultCalibrationLibrarySettings, darkCount: 0}), "darkCount must be a positive integer");
+        assert.equal(checkCalibrationLibrarySettings({...defaultCalibrationLibrarySettings, flatMaxAge: 0}), "Flat max age must be positive");
+    });
+});
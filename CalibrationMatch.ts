@@ -0,0 +1,226 @@
+import { CalibrationEntry, CalibrationFrameType, CalibrationLibrarySettings, CalibrationLightParameters, CalibrationMissing, CalibrationNeed, Sequence, SequenceStep } from './shared/BackOfficeStatus';
+import { SequenceLogic } from './SequenceLogic';
+import { defaultAutoFlat } from './FlatLogic';
+import { deepCopy } from './Obj';
+
+export const defaultCalibrationLibrarySettings: CalibrationLibrarySettings = {
+    temperatureTolerance: 2,
+    flatMaxAge: 30,
+    darkCount: 20,
+    biasCount: 50,
+    flatCount: 20,
+};
+
+// Drivers use their shortest exposure
+const biasExposure = 0.001;
+
+// Don't loop forever on a broken sequence
+const maxPlannedFrames = 100000;
+
+// The calibration frames required by a light
+export function needsForLight(light: CalibrationLightParameters): CalibrationNeed[] {
+    const {camera, bin, gain, offset, iso} = light;
+    return [
+        {camera, bin, gain, offset, iso, type: "FRAME_DARK", exposure: light.exposure, temperature: light.temperature, filter: null},
+        {camera, bin, gain, offset, iso, type: "FRAME_BIAS", exposure: null, temperature: light.temperature, filter: null},
+        {camera, bin, gain, offset, iso, type: "FRAME_FLAT", exposure: null, temperature: null, filter: light.filter},
+    ];
+}
+
+export function entryMatches(entry: CalibrationEntry, need: CalibrationNeed, settings: CalibrationLibrarySettings, now: number): boolean {
+    if (entry.type !== need.type
+        || entry.camera !== need.camera
+        || entry.bin !== need.bin
+        || entry.gain !== need.gain
+        || entry.offset !== need.offset
+        || entry.iso !== need.iso)
+    {
+        return false;
+    }
+    if (need.exposure !== null && Math.abs(entry.exposure - need.exposure) > 0.001) {
+        return false;
+    }
+    // A known temperature can't be guaranteed by a frame taken at an unknown one
+    if (need.temperature !== null
+        && (entry.temperature === null || Math.abs(entry.temperature - need.temperature) > settings.temperatureTolerance))
+    {
+        return false;
+    }
+    if (need.type === "FRAME_FLAT") {
+        if (entry.filter !== need.filter) {
+            return false;
+        }
+        if (settings.flatMaxAge !== null && now - entry.date > settings.flatMaxAge * 86400000) {
+            return false;
+        }
+    }
+    return true;
+}
+
+// Closest temperature first, then the most recent
+function compareEntries(need: CalibrationNeed, a: CalibrationEntry, b: CalibrationEntry) {
+    if (need.temperature !== null) {
+        const delta = Math.abs(a.temperature! - need.temperature) - Math.abs(b.temperature! - need.temperature);
+        if (delta !== 0) {
+            return delta;
+        }
+    }
+    return b.date - a.date;
+}
+
+export function findBestMaster(entries: {[id: string]: CalibrationEntry}, need: CalibrationNeed, settings: CalibrationLibrarySettings, now: number): string|null {
+    const candidates = Object.keys(entries).filter(id=>entries[id].master && entryMatches(entries[id], need, settings, now));
+    if (!candidates.length) {
+        return null;
+    }
+    candidates.sort((a, b)=>compareEntries(need, entries[a], entries[b]));
+    return candidates[0];
+}
+
+export function requiredCount(type: CalibrationFrameType, settings: CalibrationLibrarySettings) {
+    switch(type) {
+        case "FRAME_DARK":
+            return settings.darkCount;
+        case "FRAME_BIAS":
+            return settings.biasCount;
+        case "FRAME_FLAT":
+            return settings.flatCount;
+    }
+}
+
+// Needs that have neither a master nor enough single frames
+export function computeMissing(needs: CalibrationNeed[], entries: {[id: string]: CalibrationEntry}, settings: CalibrationLibrarySettings, now: number): CalibrationMissing[] {
+    const done = new Set<string>();
+    const ret: CalibrationMissing[] = [];
+    for(const need of needs) {
+        const key = JSON.stringify(need);
+        if (done.has(key)) {
+            continue;
+        }
+        done.add(key);
+        if (findBestMaster(entries, need, settings, now) !== null) {
+            continue;
+        }
+        const available = Object.values(entries).filter(e=>!e.master && entryMatches(e, need, settings, now)).length;
+        const required = requiredCount(need.type, settings);
+        if (available < required) {
+            ret.push({...need, available, missing: required - available});
+        }
+    }
+    return ret;
+}
+
+// Parameters of every light frame of a sequence, from its start. The temperature is the one of the last cooling step
+export function plannedLights(sequence: Sequence, uuid: ()=>string): CalibrationLightParameters[] {
+    const camera = sequence.camera;
+    if (camera === null) {
+        throw new Error("Sequence has no camera");
+    }
+    const copy = deepCopy(sequence);
+    copy.stepStatus = {};
+
+    const ret: CalibrationLightParameters[] = [];
+    let temperature: number|null = null;
+    for(let i = 0; i < maxPlannedFrames; ++i) {
+        const logic = new SequenceLogic(copy, uuid);
+        const nextStep = logic.getNextStep();
+        if (nextStep === undefined) {
+            return ret;
+        }
+        const current = nextStep[nextStep.length - 1];
+        if (current.step.cooling) {
+            temperature = current.step.cooling.temperature;
+        } else if (!current.step.wait && !current.step.center) {
+            const param = logic.getParameters(nextStep);
+            if ((param.type === undefined || param.type === 'FRAME_LIGHT') && param.exposure) {
+                ret.push({
+                    camera,
+                    exposure: param.exposure,
+                    bin: param.bin || 1,
+                    gain: param.gain !== undefined ? param.gain : null,
+                    offset: param.offset !== undefined ? param.offset : null,
+                    iso: param.iso !== undefined ? param.iso : null,
+                    temperature,
+                    filter: param.filter || null,
+                });
+            }
+        }
+        logic.finish(current);
+    }
+    throw new Error("Too many frames in sequence");
+}
+
+const typeOrder: CalibrationFrameType[] = ["FRAME_FLAT", "FRAME_BIAS", "FRAME_DARK"];
+
+// Root step of a sequence taking the missing frames: flats first (with auto exposure), then bias and darks grouped by temperature
+export function calibrationSequenceRoot(missing: CalibrationMissing[], uuid: ()=>string): SequenceStep {
+    const sorted = [...missing].sort((a, b)=> {
+        const aFlat = a.type === "FRAME_FLAT" ? 0 : 1;
+        const bFlat = b.type === "FRAME_FLAT" ? 0 : 1;
+        if (aFlat !== bFlat) {
+            return aFlat - bFlat;
+        }
+        const aTemp = a.temperature === null ? Infinity : a.temperature;
+        const bTemp = b.temperature === null ? Infinity : b.temperature;
+        if (aTemp !== bTemp) {
+            return aTemp - bTemp;
+        }
+        return typeOrder.indexOf(a.type) - typeOrder.indexOf(b.type);
+    });
+
+    const root: SequenceStep = {childs: {list: [], byuuid: {}}};
+    const add = (step: SequenceStep)=> {
+        const id = uuid();
+        root.childs!.list.push(id);
+        root.childs!.byuuid[id] = step;
+    }
+
+    let temperature: number|null = null;
+    for(const m of sorted) {
+        if (m.temperature !== null && m.temperature !== temperature) {
+            add({cooling: {temperature: m.temperature}});
+            temperature = m.temperature;
+        }
+        const step: SequenceStep = {
+            type: m.type,
+            bin: m.bin,
+            repeat: m.missing,
+        };
+        if (m.type === "FRAME_FLAT") {
+            step.autoFlat = {...defaultAutoFlat};
+            if (m.filter !== null) {
+                step.filter = m.filter;
+            }
+        } else {
+            step.exposure = m.exposure !== null ? m.exposure : biasExposure;
+        }
+        if (m.gain !== null) {
+            step.gain = m.gain;
+        }
+        if (m.offset !== null) {
+            step.offset = m.offset;
+        }
+        if (m.iso !== null) {
+            step.iso = m.iso;
+        }
+        add(step);
+    }
+    return root;
+}
+
+// Returns an error for invalid settings
+export function checkCalibrationLibrarySettings(settings: CalibrationLibrarySettings): string|null {
+    if (typeof settings.temperatureTolerance !== "number" || !(settings.temperatureTolerance >= 0)) {
+        return "Temperature tolerance must not be negative";
+    }
+    if (settings.flatMaxAge !== null && (typeof settings.flatMaxAge !== "number" || !(settings.flatMaxAge > 0))) {
+        return "Flat max age must be positive";
+    }
+    for(const field of ["darkCount", "biasCount", "flatCount"] as const) {
+        const v = settings[field];
+        if (typeof v !== "number" || !(v >= 1) || Math.floor(v) !== v) {
+            return field + " must be a positive integer";
+        }
+    }
+    return null;
+}
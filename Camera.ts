@@ -1,7 +1,9 @@
 import CancellationToken from 'cancellationtoken';
 import MemoryStreams from 'memory-streams';
+import fs from 'fs';
+import path from 'path';
 import { ExpressApplication, AppContext } from "./ModuleBase";
-import {CameraStatus, CameraDeviceSettings, BackofficeStatus, Sequence, ImageStatus} from './shared/BackOfficeStatus';
+import {CameraStatus, CameraDeviceSettings, BackofficeStatus, Sequence, ImageStatus, CameraCoolingSettings, CameraCoolingStatus, CameraRoi, FileNamingTemplate, CameraDiskSpace} from './shared/BackOfficeStatus';
 import JsonProxy from './JsonProxy';
 import { DriverInterface, Vector } from './Indi';
 import {Task, createTask} from "./Task.js";
@@ -12,6 +14,39 @@ import * as RequestHandler from "./RequestHandler";
 import * as BackOfficeAPI from "./shared/BackOfficeAPI";
 import ConfigStore from './ConfigStore';
 import { Pipe } from './SystemPromise';
+import Sleep from './Sleep';
+import { defaultCoolingSettings, rampSetPoint, updateStableSince, isStable, checkCoolingSettings } from './CoolerLogic';
+import { checkFileNamingTemplate, defaultFileNaming, renderFileNaming } from './FileNaming';
+import { FitsHeaderEntry, updateImageHeader } from './FitsHeader';
+import { getImageCenter } from './Astrometry';
+import SkyProjection from './SkyAlgorithms/SkyProjection';
+import { estimateFrameSize, framesLeft, getFreeSpace } from './DiskSpace';
+import { clampRoi, fullFrame, SensorSize } from './Roi';
+import * as Metrics from "./Metrics";
+
+const defaultMinFreeSpace = 500;
+const diskSpaceRefreshInterval = 60000;
+
+// What the camera can't know about a frame
+export type ImageNaming = {
+    // Replace the template of the camera
+    template?: FileNamingTemplate|null;
+    sequence?: string|null;
+    target?: string|null;
+    // The current filter when not set
+    filter?: string;
+};
+
+// Written in the header of the images, with what the camera knows
+export type ImageHeaderInfo = {
+    object?: string|null;
+    sequence?: string;
+    step?: string;
+};
+
+// Delay between two updates of the set-point during a ramp
+const coolingStepInterval = 10000;
+const coolingPollInterval = 1000;
 
 
 type ScopeState = "light"|"dark"|"flat";
@@ -32,6 +67,7 @@ export default class Camera
     appStateManager: JsonProxy<BackofficeStatus>;
     shootPromises: {[camId: string]:Task<BackOfficeAPI.ShootResult>};
     streamPromises: {[camId: string]:Task<void>};
+    coolingTasks: {[camId: string]:Task<void>} = {};
     currentStatus: CameraStatus;
     context: AppContext;
     get indiManager() { return this.context.indiManager };
@@ -41,6 +77,9 @@ export default class Camera
     previousImages: any;
     
     fakeImageId: number = 0;
+    // Size of the last image, by device and binning
+    lastFrameSizes: {[key: string]: number} = {};
+
     constructor(app:ExpressApplication, appStateManager:JsonProxy<BackofficeStatus>, context:AppContext) {
         this.appStateManager = appStateManager;
         this.appStateManager.getTarget().camera = {
@@ -71,6 +110,8 @@ export default class Camera
             lastByDevices: {},
 
             dynStateByDevices: {},
+            cooling: {},
+            diskSpace: {},
             configuration: {
                 preferedDevice: null,
                 deviceSettings: {},
@@ -178,6 +219,24 @@ export default class Camera
             ], this.updateDoneImages.bind(this), true
         );
         this.updateDoneImages();
+
+        this.appStateManager.addSynchronizer(
+            [
+                [
+                    [
+                        'indiManager', 'deviceTree', null,
+                        [
+                            ['CCD_TEMPERATURE', 'childs', 'CCD_TEMPERATURE_VALUE', '$_'],
+                            ['CCD_COOLER_POWER', 'childs', 'CCD_COOLER_VALUE', '$_'],
+                        ]
+                    ],
+                    [
+                        'camera', 'availableDevices'
+                    ]
+                ]
+            ], this.updateCoolingStatus, true);
+
+        setInterval(this.refreshDiskSpace, diskSpaceRefreshInterval);
     }
 
     getImageByUuid(uuid:string): ImageStatus|undefined {
@@ -359,28 +418,436 @@ export default class Camera
             console.log("Internal error - device has no settings");
             throw new Error("Device has no settings");
         }
+        if (key === 'fileNaming' && payload.value !== null && payload.value !== undefined) {
+            const error = checkFileNamingTemplate(payload.value);
+            if (error !== null) {
+                throw new Error(error);
+            }
+        }
         const deviceSettings = allSettings[deviceId];
         deviceSettings[key] = payload.value;
     }
 
-    getCropAdjustment(device:any)
+    previewImageNaming=async (ct: CancellationToken, payload: {camera?: string, template: FileNamingTemplate|null, sequenceUid?: string})=>{
+        const deviceId = payload.camera !== undefined ? payload.camera : this.currentStatus.selectedDevice;
+        if (deviceId === null || !Obj.hasKey(this.currentStatus.configuration.deviceSettings, deviceId)) {
+            throw new Error("no device selected");
+        }
+        if (payload.template !== null) {
+            const error = checkFileNamingTemplate(payload.template);
+            if (error !== null) {
+                throw new Error(error);
+            }
+        }
+        const naming: ImageNaming = {template: payload.template};
+        if (payload.sequenceUid !== undefined) {
+            const sequence = this.context.sequenceManager.findSequenceFromRequest(payload.sequenceUid);
+            naming.sequence = sequence.title;
+            naming.target = sequence.target ? sequence.target.name : null;
+        }
+        const result = this.getImageNaming(deviceId, this.currentStatus.configuration.deviceSettings[deviceId], naming);
+        return path.join(result.path, result.prefix.replace('XXX', '001') + '.fits');
+    }
+
+    private getFrameTypeLabel(device: string, type: string|undefined): string {
+        const connection = this.indiManager.connection;
+        const label = (type && connection !== undefined)
+                ? connection.getDevice(device).getVector('CCD_FRAME_TYPE').getPropertyLabelIfExists(type)
+                : undefined;
+        return label || 'image';
+    }
+
+    // Directory and indi prefix of a frame, from the template of the sequence, else the one of the camera
+    public getImageNaming(device: string, settings: CameraDeviceSettings, naming: ImageNaming): {path: string, prefix: string} {
+        const template = naming.template
+                || Obj.getOwnProp(this.currentStatus.configuration.deviceSettings, device)?.fileNaming
+                || defaultFileNaming;
+        const basePath = this.getBaseImagePath(settings);
+        const result = renderFileNaming(template, {
+            date: new Date(),
+            camera: device,
+            sequence: naming.sequence || null,
+            target: naming.target || null,
+            type: this.getFrameTypeLabel(device, settings.type),
+            filter: naming.filter !== undefined ? naming.filter : this.context.filterWheel.getCameraFilter(device),
+            exposure: settings.exposure,
+            gain: settings.gain !== undefined ? settings.gain : null,
+            bin: settings.bin !== undefined ? settings.bin : null,
+            temperature: this.getSensorTemperature(device),
+        });
+        return {
+            path: result.directory.length ? path.join(basePath, result.directory) : basePath,
+            prefix: result.prefix,
+        };
+    }
+
+    private getBaseImagePath(settings: CameraDeviceSettings): string {
+        return settings.path || this.currentStatus.configuration.defaultImagePath || process.env.HOME || '/';
+    }
+
+    private getFrameSize(device: string, bin: number|undefined): number|null {
+        const binning = bin || 1;
+        const key = device + "/" + binning;
+        if (Obj.hasKey(this.lastFrameSizes, key)) {
+            return this.lastFrameSizes[key];
+        }
+        const connection = this.indiManager.connection;
+        if (connection === undefined) {
+            return null;
+        }
+        const ccdInfo = connection.getDevice(device).getVector('CCD_INFO');
+        if (!ccdInfo.exists()) {
+            return null;
+        }
+        const width = parseFloat(ccdInfo.getPropertyValue('CCD_MAX_X'));
+        const height = parseFloat(ccdInfo.getPropertyValue('CCD_MAX_Y'));
+        const bits = parseFloat(ccdInfo.getPropertyValue('CCD_BITSPERPIXEL'));
+        if (!(width > 0 && height > 0 && bits > 0)) {
+            return null;
+        }
+        return estimateFrameSize(width, height, bits, binning);
+    }
+
+    private async updateLastFrameSize(device: string, bin: number|undefined, imagePath: string) {
+        try {
+            const stat = await fs.promises.stat(imagePath);
+            this.lastFrameSizes[device + "/" + (bin || 1)] = stat.size;
+        } catch(e) {
+            console.log('Unable to get the size of ' + imagePath, e);
+        }
+    }
+
+    // MB
+    public getMinFreeSpace(): number {
+        const minFreeSpace = this.currentStatus.configuration.minFreeSpace;
+        return minFreeSpace !== undefined ? minFreeSpace : defaultMinFreeSpace;
+    }
+
+    // Free space where the images of the device go. Errors are reported in the status
+    public async checkDiskSpace(ct: CancellationToken, device: string, imagePath: string, bin: number|undefined): Promise<CameraDiskSpace> {
+        const reserve = this.getMinFreeSpace() * 1024 * 1024;
+        const result: CameraDiskSpace = {
+            path: imagePath,
+            free: null,
+            frameSize: this.getFrameSize(device, bin),
+            framesLeft: null,
+            lowSpace: false,
+            error: null,
+            time: Date.now(),
+        };
+        try {
+            result.free = await getFreeSpace(ct, imagePath);
+        } catch(e) {
+            if (e instanceof CancellationToken.CancellationError) {
+                throw e;
+            }
+            result.error = e.message || ("" + e);
+        }
+        if (result.free !== null) {
+            const frameSize = result.frameSize !== null ? result.frameSize : 0;
+            result.lowSpace = result.free - frameSize < reserve;
+            if (result.frameSize !== null) {
+                result.framesLeft = framesLeft(result.free, result.frameSize, reserve);
+            }
+        }
+        this.currentStatus.diskSpace[device] = result;
+        return result;
+    }
+
+    private refreshDiskSpace = async ()=>{
+        for(const device of this.currentStatus.availableDevices) {
+            const settings = Obj.getOwnProp(this.currentStatus.configuration.deviceSettings, device);
+            // Shoots do their own check
+            if (settings === undefined || Obj.hasKey(this.currentStatus.currentShoots, device)) {
+                continue;
+            }
+            try {
+                await this.checkDiskSpace(CancellationToken.CONTINUE, device, this.getBaseImagePath(settings), settings.bin);
+            } catch(e) {
+                console.log('Unable to check disk space for ' + device, e);
+            }
+        }
+    }
+
+    public async metrics():Promise<Array<Metrics.Definition>> {
+        const ret : Array<Metrics.Definition> = [];
+        for(const device of Object.keys(this.currentStatus.diskSpace).sort()) {
+            const diskSpace = this.currentStatus.diskSpace[device];
+            const labels = {
+                camera: device,
+            };
+            if (diskSpace.free !== null) {
+                ret.push({
+                    name: 'camera_disk_free_bytes',
+                    help: 'free space where the images of the camera are stored',
+                    type: 'gauge',
+                    labels,
+                    value: diskSpace.free,
+                });
+            }
+            if (diskSpace.framesLeft !== null) {
+                ret.push({
+                    name: 'camera_disk_frames_left',
+                    help: 'estimated number of frames before reaching the minimum free space',
+                    type: 'gauge',
+                    labels,
+                    value: diskSpace.framesLeft,
+                });
+            }
+        }
+        return ret;
+    }
+
+    private getCoolingSettings(deviceId: string): CameraCoolingSettings {
+        return {
+            ...defaultCoolingSettings,
+            ...Obj.getOwnProp(this.currentStatus.configuration.coolingSettings, deviceId),
+        };
+    }
+
+    private getCoolingStatus(deviceId: string): CameraCoolingStatus {
+        if (!Obj.hasKey(this.currentStatus.cooling, deviceId)) {
+            this.currentStatus.cooling[deviceId] = {
+                status: "off",
+                temperature: null,
+                target: null,
+                setPoint: null,
+                coolerPower: null,
+                stableSince: null,
+                error: null,
+            };
+            // Make the defaults visible
+            if (!this.currentStatus.configuration.coolingSettings) {
+                this.currentStatus.configuration.coolingSettings = {};
+            }
+            if (!Obj.hasKey(this.currentStatus.configuration.coolingSettings, deviceId)) {
+                this.currentStatus.configuration.coolingSettings[deviceId] = {...defaultCoolingSettings};
+            }
+        }
+        return this.currentStatus.cooling[deviceId];
+    }
+
+    // Last known sensor temperature, null when unknown
+    public getSensorTemperature(deviceId: string): number|null {
+        if (!Obj.hasKey(this.currentStatus.cooling, deviceId)) {
+            return null;
+        }
+        return this.currentStatus.cooling[deviceId].temperature;
+    }
+
+    private updateCoolingStatus = ()=>{
+        const deviceTree = this.appStateManager.getTarget().indiManager.deviceTree;
+        const readValue = (deviceId: string, vector: string, prop: string)=>{
+            try {
+                const v = parseFloat(deviceTree[deviceId][vector].childs[prop].$_);
+                return isNaN(v) ? null : v;
+            } catch(e) {
+                return null;
+            }
+        };
+
+        const now = Date.now();
+        for(const deviceId of this.currentStatus.availableDevices) {
+            const temperature = readValue(deviceId, 'CCD_TEMPERATURE', 'CCD_TEMPERATURE_VALUE');
+            if (temperature === null && !Obj.hasKey(this.currentStatus.cooling, deviceId)) {
+                continue;
+            }
+            const status = this.getCoolingStatus(deviceId);
+            status.temperature = temperature;
+            status.coolerPower = readValue(deviceId, 'CCD_COOLER_POWER', 'CCD_COOLER_VALUE');
+            if (status.setPoint !== null && (status.status === "settling" || status.status === "stable")) {
+                const settings = this.getCoolingSettings(deviceId);
+                status.stableSince = updateStableSince(status.stableSince, temperature, status.setPoint, settings, now);
+                status.status = isStable(status.stableSince, settings, now) ? "stable" : "settling";
+            }
+        }
+    }
+
+    private checkCoolingDevice(deviceId: string) {
+        const device = this.indiManager.checkDeviceConnected(deviceId);
+        if (!device.getVector('CCD_TEMPERATURE').exists()) {
+            throw new Error("Camera " + deviceId + " has no temperature control");
+        }
+        return device;
+    }
+
+    private async setCoolerOn(ct: CancellationToken, deviceId: string, on: boolean) {
+        if (this.checkCoolingDevice(deviceId).getVector('CCD_COOLER').exists()) {
+            await this.indiManager.setParam(ct, deviceId, 'CCD_COOLER', on ? {COOLER_ON: 'On'} : {COOLER_OFF: 'On'});
+        }
+    }
+
+    // Move the set-point toward the target, by steps. A warm-up turns the cooler off once the target is reached
+    private async runCoolingRamp(ct: CancellationToken, deviceId: string, target: number, warmUp: boolean) {
+        const settings = this.getCoolingSettings(deviceId);
+        if (!warmUp) {
+            await this.setCoolerOn(ct, deviceId, true);
+        }
+        const initial = this.getCoolingStatus(deviceId);
+        const start = initial.temperature !== null
+                ? initial.temperature
+                : initial.setPoint !== null ? initial.setPoint : target;
+        const startTime = Date.now();
+        while(true) {
+            const setPoint = rampSetPoint(start, target, settings.rampRate, Date.now() - startTime);
+            const status = this.getCoolingStatus(deviceId);
+            if (setPoint !== status.setPoint) {
+                // No wait here: the vector stays busy until the temperature is reached
+                this.checkCoolingDevice(deviceId).getVector('CCD_TEMPERATURE').setValues([{name: 'CCD_TEMPERATURE_VALUE', value: '' + setPoint}]);
+                status.setPoint = setPoint;
+            }
+            if (setPoint === target) {
+                break;
+            }
+            await Sleep(ct, coolingStepInterval);
+        }
+
+        if (warmUp) {
+            while(true) {
+                const temperature = this.getCoolingStatus(deviceId).temperature;
+                if (temperature === null || temperature >= target - settings.tolerance) {
+                    break;
+                }
+                await Sleep(ct, coolingPollInterval);
+            }
+            await this.setCoolerOn(ct, deviceId, false);
+            const status = this.getCoolingStatus(deviceId);
+            status.status = "off";
+            status.target = null;
+            status.setPoint = null;
+        } else {
+            this.getCoolingStatus(deviceId).status = "settling";
+            this.updateCoolingStatus();
+        }
+    }
+
+    private stopCoolingRamp(deviceId: string) {
+        if (Obj.hasKey(this.coolingTasks, deviceId)) {
+            this.coolingTasks[deviceId].cancel();
+            delete this.coolingTasks[deviceId];
+        }
+    }
+
+    // Starts the ramp in background. Progress and errors are reported in the cooling status
+    private startCoolingRamp(deviceId: string, target: number, warmUp: boolean) {
+        this.checkCoolingDevice(deviceId);
+        this.stopCoolingRamp(deviceId);
+
+        const status = this.getCoolingStatus(deviceId);
+        status.status = warmUp ? "warming" : "ramping";
+        status.target = target;
+        status.stableSince = null;
+        status.error = null;
+
+        const task = createTask<void>(undefined, async (task)=> {
+            try {
+                await this.runCoolingRamp(task.cancellation, deviceId, target, warmUp);
+            } catch(e) {
+                if (e instanceof CancellationToken.CancellationError) {
+                    return;
+                }
+                console.log('Cooling failed for ' + deviceId, e);
+                const status = this.getCoolingStatus(deviceId);
+                status.status = "error";
+                status.error = (e instanceof Error) ? e.message : "" + e;
+            } finally {
+                if (this.coolingTasks[deviceId] === task) {
+                    delete this.coolingTasks[deviceId];
+                }
+            }
+        });
+        this.coolingTasks[deviceId] = task;
+    }
+
+    public startWarmUp(deviceId: string) {
+        this.startCoolingRamp(deviceId, this.getCoolingSettings(deviceId).warmUpTemperature, true);
+    }
+
+    // Ramp to the temperature if not already done, and wait until it is stable
+    public async waitCoolingStable(ct: CancellationToken, deviceId: string, temperature: number) {
+        const current = this.getCoolingStatus(deviceId);
+        if (current.target !== temperature || current.status === "off" || current.status === "warming" || current.status === "error") {
+            this.startCoolingRamp(deviceId, temperature, false);
+        }
+        while(true) {
+            this.updateCoolingStatus();
+            const status = this.getCoolingStatus(deviceId);
+            if (status.status === "error") {
+                throw new Error("Cooling failed: " + status.error);
+            }
+            if (status.status === "stable") {
+                return;
+            }
+            if (status.target !== temperature || status.status === "off" || status.status === "warming") {
+                throw new Error("Cooling of " + deviceId + " was changed");
+            }
+            await Sleep(ct, coolingPollInterval);
+        }
+    }
+
+    private getRequestDevice(camera: string|undefined) {
+        const deviceId = camera !== undefined ? camera : this.currentStatus.selectedDevice;
+        if (deviceId === null || this.currentStatus.availableDevices.indexOf(deviceId) === -1) {
+            throw new Error("no device selected");
+        }
+        return deviceId;
+    }
+
+    setCoolingTarget = async (ct: CancellationToken, payload: {camera?: string, temperature: number})=>{
+        if (typeof payload.temperature !== "number" || !isFinite(payload.temperature)) {
+            throw new Error("Invalid temperature");
+        }
+        this.startCoolingRamp(this.getRequestDevice(payload.camera), payload.temperature, false);
+    }
+
+    warmUp = async (ct: CancellationToken, payload: {camera?: string})=>{
+        this.startWarmUp(this.getRequestDevice(payload.camera));
+    }
+
+    coolerOff = async (ct: CancellationToken, payload: {camera?: string})=>{
+        const deviceId = this.getRequestDevice(payload.camera);
+        this.stopCoolingRamp(deviceId);
+        await this.setCoolerOn(ct, deviceId, false);
+        const status = this.getCoolingStatus(deviceId);
+        status.status = "off";
+        status.target = null;
+        status.setPoint = null;
+        status.stableSince = null;
+        status.error = null;
+    }
+
+    updateCoolingSettings = async (ct: CancellationToken, payload: {camera?: string, diff: any})=>{
+        const deviceId = this.getRequestDevice(payload.camera);
+        const newSettings = JsonProxy.applyDiff(this.getCoolingSettings(deviceId), payload.diff);
+        const error = checkCoolingSettings(newSettings);
+        if (error !== null) {
+            throw new Error(error);
+        }
+        if (!this.currentStatus.configuration.coolingSettings) {
+            this.currentStatus.configuration.coolingSettings = {};
+        }
+        this.currentStatus.configuration.coolingSettings[deviceId] = newSettings;
+    }
+
+    // Current CCD_FRAME, sensor size and binning. null when the camera has no CCD_FRAME or CCD_INFO
+    getFrameGeometry(device:any): {frame: CameraRoi, sensor: SensorSize, bin: {x: number, y: number}}|null
     {
         const frameVec = device.getVector('CCD_FRAME');
         if (!frameVec.exists()) {
-            return {};
+            return null;
         }
 
         const ccdVec = device.getVector('CCD_INFO');
         if (!ccdVec.exists()) {
-            return {};
+            return null;
         }
-        const crop = {
+        const frame = {
             x: parseFloat(frameVec.getPropertyValue('X')),
             y: parseFloat(frameVec.getPropertyValue('Y')),
             w: parseFloat(frameVec.getPropertyValue('WIDTH')),
             h: parseFloat(frameVec.getPropertyValue('HEIGHT'))
         }
-        const max = {
+        const sensor = {
             w: parseFloat(ccdVec.getPropertyValue('CCD_MAX_X')),
             h: parseFloat(ccdVec.getPropertyValue('CCD_MAX_Y')),
         }
@@ -392,28 +859,165 @@ export default class Camera
                 y:parseFloat(binningVec.getPropertyValue('VER_BIN'))
             }
             : {x: 1, y: 1};
+        return {frame, sensor, bin};
+    }
+
+    // CCD_FRAME values required to get the wanted roi (full frame when not set). Empty when the current frame is right
+    getCropAdjustment(device:any, roi?: CameraRoi|null)
+    {
+        const geometry = this.getFrameGeometry(device);
+        if (geometry === null) {
+            return {};
+        }
+        const crop = geometry.frame;
         console.log('Crop status is '+ JSON.stringify(crop, null, 2));
-        console.log('Frame status is '+ JSON.stringify(max, null, 2));
-        console.log('Bin status is '+ JSON.stringify(bin, null, 2));
-        if (crop.x || crop.y || crop.w != max.w || crop.h  != max.h) {
+        console.log('Frame status is '+ JSON.stringify(geometry.sensor, null, 2));
+        console.log('Bin status is '+ JSON.stringify(geometry.bin, null, 2));
+
+        const wanted = roi ? clampRoi(roi, geometry.sensor) : fullFrame(geometry.sensor);
+
+        if (crop.x != wanted.x || crop.y != wanted.y || crop.w != wanted.w || crop.h != wanted.h) {
             return {
-                X: "0",
-                Y: "0",
-                WIDTH: "" + Math.floor(max.w),
-                HEIGHT: "" + Math.floor(max.h)
+                X: "" + wanted.x,
+                Y: "" + wanted.y,
+                WIDTH: "" + wanted.w,
+                HEIGHT: "" + wanted.h
             };
         }
 
         return {};
     }
 
+    // Locate the number holding a camera control: the dedicated vector (CCD_GAIN/CCD_OFFSET) or a CCD_CONTROLS entry
+    getControlProperty(device:any, control: "gain"|"offset"): {vector: string, property: string}|null
+    {
+        const dedicated = control === "gain" ? {vector: 'CCD_GAIN', property: 'GAIN'} : {vector: 'CCD_OFFSET', property: 'OFFSET'};
+        const dedicatedVec = device.getVector(dedicated.vector);
+        if (dedicatedVec.exists() && dedicatedVec.getExistingVectorInTree().childNames.indexOf(dedicated.property) !== -1) {
+            return dedicated;
+        }
+
+        const controlsVec = device.getVector('CCD_CONTROLS');
+        if (controlsVec.exists()) {
+            const vec = controlsVec.getExistingVectorInTree();
+            for(const id of vec.childNames) {
+                if (id.toLowerCase() === control || (vec.childs[id].$label || "").toLowerCase() === control) {
+                    return {vector: 'CCD_CONTROLS', property: id};
+                }
+            }
+        }
+        return null;
+    }
+
+    private async applyControl(ct: CancellationToken, device: string, control: "gain"|"offset", value: number)
+    {
+        const prop = this.getControlProperty(this.indiManager.getValidConnection().getDevice(device), control);
+        if (prop === null) {
+            throw new Error("Camera " + device + " does not support " + control);
+        }
+        ct.throwIfCancelled();
+        await this.indiManager.setParam(ct, device, prop.vector,
+            (vec:Vector)=> {
+                if (parseFloat(vec.getPropertyValue(prop.property)) === value) {
+                    return {};
+                }
+                return {[prop.property]: '' + value};
+            });
+    }
+
+    private readMountHeader(): FitsHeaderEntry[] {
+        const ret: FitsHeaderEntry[] = [];
+        const astrometry = this.context.astrometry.currentStatus;
+        const connection = this.indiManager.connection;
+        const mount = (astrometry.selectedScope !== null && connection !== undefined)
+                ? connection.getDevice(astrometry.selectedScope)
+                : null;
+        const readNumber = (vector: string, property: string)=>{
+            if (mount === null) {
+                return null;
+            }
+            const v = parseFloat(mount.getVector(vector).getPropertyValueIfExists(property) || "");
+            return isNaN(v) ? null : v;
+        };
+
+        let raDec: number[]|null = null;
+        if (astrometry.result !== null && astrometry.result.found && !astrometry.scopeMovedSinceImage) {
+            raDec = getImageCenter(astrometry.result);
+        } else {
+            const ra = readNumber('EQUATORIAL_EOD_COORD', 'RA');
+            const dec = readNumber('EQUATORIAL_EOD_COORD', 'DEC');
+            if (ra !== null && dec !== null) {
+                raDec = SkyProjection.J2000RaDecFromEpoch([ra * 360 / 24, dec], Date.now());
+            }
+        }
+        if (raDec !== null) {
+            ret.push({key: 'RA', value: raDec[0], comment: 'J2000 right ascension (degrees)'});
+            ret.push({key: 'DEC', value: raDec[1], comment: 'J2000 declination (degrees)'});
+            ret.push({key: 'EQUINOX', value: 2000});
+        }
+
+        const lat = readNumber('GEOGRAPHIC_COORD', 'LAT');
+        const long = readNumber('GEOGRAPHIC_COORD', 'LONG');
+        const elev = readNumber('GEOGRAPHIC_COORD', 'ELEV');
+        if (lat !== null && long !== null) {
+            ret.push({key: 'SITELAT', value: lat, comment: 'Site latitude (degrees)'});
+            ret.push({key: 'SITELONG', value: long, comment: 'Site longitude (degrees east)'});
+        }
+        if (elev !== null) {
+            ret.push({key: 'SITEELEV', value: elev, comment: 'Site elevation (meters)'});
+        }
+        return ret;
+    }
+
+    private collectImageHeader(device: string, info: ImageHeaderInfo): FitsHeaderEntry[] {
+        const ret: FitsHeaderEntry[] = [];
+        if (info.object) {
+            ret.push({key: 'OBJECT', value: info.object});
+        }
+        const filter = this.context.filterWheel.getCameraFilter(device);
+        if (filter !== null) {
+            ret.push({key: 'FILTER', value: filter});
+        }
+        const focusPos = this.context.focuser.getFocuserPosition(device);
+        if (focusPos !== null) {
+            ret.push({key: 'FOCUSPOS', value: focusPos, comment: 'Focuser position (steps)'});
+        }
+        const focusTemp = this.context.focuser.getFocuserTemperature(device);
+        if (focusTemp !== null) {
+            ret.push({key: 'FOCTEMP', value: focusTemp, comment: 'Focuser temperature (C)'});
+        }
+        ret.push(...this.readMountHeader());
+        if (info.sequence !== undefined) {
+            ret.push({key: 'SEQUENCE', value: info.sequence, comment: 'Sequence id'});
+        }
+        if (info.step !== undefined) {
+            ret.push({key: 'SEQSTEP', value: info.step, comment: 'Sequence step id'});
+        }
+        return ret;
+    }
+
+    // Add values to the header of an image (or to its sidecar json for other formats). Failures are not fatal
+    public async addImageHeader(imagePath: string, entries: FitsHeaderEntry[]) {
+        if (this.currentStatus.configuration.fakeImages != null || !entries.length) {
+            return;
+        }
+        try {
+            await updateImageHeader(imagePath, entries);
+        } catch(e) {
+            console.log('Unable to update the header of ' + imagePath, e);
+        }
+    }
+
     // Return a promise to shoot at the given camera (where)
-    async doShoot(cancellation: CancellationToken, device:string, settingsProvider?:(s:CameraDeviceSettings)=>CameraDeviceSettings):Promise<BackOfficeAPI.ShootResult>
+    async doShoot(cancellation: CancellationToken, device:string, settingsProvider?:(s:CameraDeviceSettings)=>CameraDeviceSettings, headerInfo?: ImageHeaderInfo):Promise<BackOfficeAPI.ShootResult>
     {
         // On veut un objet de controle qui comporte à la fois la promesse et la possibilité de faire cancel
         var ccdFilePathInitRevId:any;
         let shootResult:BackOfficeAPI.ShootResult;
 
+        // Checks below and the shoot registration must not be separated by any await
+        await this.context.focuser.waitFocuserMoves(device);
+
         if (Object.prototype.hasOwnProperty.call(this.currentStatus.currentShoots, device)) {
             throw new Error("Shoot already started for " + device);
         }
@@ -430,6 +1034,10 @@ export default class Camera
         if (settingsProvider !== undefined) {
             settings = settingsProvider(settings);
         }
+        // Callers that set a prefix have their own naming
+        if (settings.prefix === undefined && settings.fileNaming) {
+            settings = {...settings, ...this.getImageNaming(device, settings, {template: settings.fileNaming})};
+        }
         console.log('Shoot settings:' + JSON.stringify(settings, null, 2));
         this.currentStatus.currentShoots[device] = Object.assign({
                     status: 'init' as "init",
@@ -450,7 +1058,12 @@ export default class Camera
                     exposure = 0.1;
                 }
                 currentShootSettings.exposure = exposure;
-                    
+
+                const diskSpace = await this.checkDiskSpace(task.cancellation, device, currentShootSettings.path!, currentShootSettings.bin);
+                if (diskSpace.free !== null && diskSpace.frameSize !== null && diskSpace.free < diskSpace.frameSize) {
+                    throw new Error("Not enough disk space in " + diskSpace.path);
+                }
+
                     // Set the binning - if prop is present only
                 if (currentShootSettings.bin !== null
                     && currentShootSettings.bin !== undefined
@@ -462,9 +1075,18 @@ export default class Camera
                                 VER_BIN: '' + currentShootSettings.bin!
                             });
                 }
-                // Reset the frame size - if prop is present only
-                if (Object.keys(this.getCropAdjustment(this.indiManager.getValidConnection().getDevice(device))).length != 0) {
-                    await this.indiManager.setParam(task.cancellation, device, 'CCD_FRAME', this.getCropAdjustment(this.indiManager.getValidConnection().getDevice(device)), true);
+                // Set the frame size (roi or full frame) - if prop is present only
+                const cropAdjustment = this.getCropAdjustment(this.indiManager.getValidConnection().getDevice(device), currentShootSettings.roi);
+                if (Object.keys(cropAdjustment).length != 0) {
+                    await this.indiManager.setParam(task.cancellation, device, 'CCD_FRAME', cropAdjustment, true);
+                }
+
+                // Set gain & offset
+                if (currentShootSettings.gain !== null && currentShootSettings.gain !== undefined) {
+                    await this.applyControl(task.cancellation, device, "gain", currentShootSettings.gain);
+                }
+                if (currentShootSettings.offset !== null && currentShootSettings.offset !== undefined) {
+                    await this.applyControl(task.cancellation, device, "offset", currentShootSettings.offset);
                 }
 
                 // Set the iso
@@ -588,6 +1210,15 @@ export default class Camera
                         value = this.currentStatus.configuration.fakeImagePath + value;
                     }
                     console.log('Using fake image : ' + value);
+                } else {
+                    let header: FitsHeaderEntry[] = [];
+                    try {
+                        header = this.collectImageHeader(device, headerInfo || {});
+                    } catch(e) {
+                        console.log('Unable to collect the header of ' + value, e);
+                    }
+                    await this.addImageHeader(value, header);
+                    await this.updateLastFrameSize(device, currentShootSettings.bin, value);
                 }
                 this.currentStatus.lastByDevices[device] = value;
 
@@ -772,6 +1403,11 @@ export default class Camera
             abort: this.abort,
             setCamera: this.setCamera,
             setShootParam: this.setShootParam,
+            previewImageNaming: this.previewImageNaming,
+            setCoolingTarget: this.setCoolingTarget,
+            warmUp: this.warmUp,
+            coolerOff: this.coolerOff,
+            updateCoolingSettings: this.updateCoolingSettings,
         }
     }
 }
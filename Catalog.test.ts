@@ -0,0 +1,46 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+
+import { lookup, search, normalizeIdentifier } from "./Catalog";
+
+describe("Catalog", () => {
+    it("Normalize identifiers", () => {
+        assert.equal(normalizeIdentifier("M 31"), "m31");
+        assert.equal(normalizeIdentifier("NGC 0224"), "ngc224");
+        assert.equal(normalizeIdentifier("ic1396"), "ic1396");
+    });
+
+    it("Lookup by any identifier", () => {
+        const m31 = lookup("M31")!;
+        assert.isNotNull(m31);
+        assert.equal(m31.commonName, "Andromeda Galaxy");
+        expect(m31.ra).to.be.closeTo(10.675, 0.01);
+        expect(m31.dec).to.be.closeTo(41.267, 0.01);
+        assert.strictEqual(lookup("ngc 224"), m31);
+        assert.isNull(lookup("M111"));
+    });
+
+    it("Negative declinations", () => {
+        expect(lookup("M42")!.dec).to.be.closeTo(-5.45, 0.01);
+        expect(lookup("M2")!.dec).to.be.closeTo(-0.817, 0.01);
+    });
+
+    it("Lookup in the NGC/IC extract", () => {
+        const ngc1 = lookup("NGC 1")!;
+        assert.isNotNull(ngc1);
+        assert.equal(ngc1.type, "Gx");
+        expect(ngc1.ra).to.be.closeTo(1.82, 0.01);
+        expect(ngc1.dec).to.be.closeTo(27.7, 0.01);
+        expect(lookup("IC 2104")!.dec).to.be.closeTo(-15.8, 0.01);
+        // Hand written entries come first, with their common name
+        assert.equal(lookup("NGC7000")!.commonName, "North America Nebula");
+        assert.equal(search("ngc 7000", 5)[0].name, "NGC7000");
+    });
+
+    it("Search", () => {
+        // Exact match comes first
+        assert.deepEqual(search("m1", 3).map(e=>e.name), ["M1", "M10", "M11"]);
+        assert.deepEqual(search("veil", 10).map(e=>e.name), ["NGC6960", "NGC6992"]);
+        assert.deepEqual(search("  ", 10), []);
+    });
+});
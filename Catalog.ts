@@ -0,0 +1,101 @@
+import CancellationToken from 'cancellationtoken';
+import * as RequestHandler from "./RequestHandler";
+import * as BackOfficeAPI from "./shared/BackOfficeAPI";
+import { CatalogObject } from './shared/BackOfficeAPI';
+import { catalogRows } from './CatalogData';
+import { ngcIcRows } from './CatalogNgcIcData';
+
+// "M 31" => "m31", "NGC 0224" => "ngc224"
+export function normalizeIdentifier(id: string): string {
+    return id.toLowerCase().replace(/\s+/g, '').replace(/^([a-z]+)0+([1-9])/, '$1$2');
+}
+
+function parseSexagesimal(str: string): number {
+    const neg = str.trim().startsWith('-');
+    const [deg, min] = str.trim().replace(/^[-+]/, '').split(/\s+/).map(parseFloat);
+    const ret = deg + min / 60;
+    return neg ? -ret : ret;
+}
+
+type IndexedObject = {
+    object: CatalogObject;
+    // Normalized identifiers
+    ids: string[];
+};
+
+let objects: IndexedObject[]|null = null;
+
+// The hand written table first: it has the common names and the Messier numbers
+function getObjects(): IndexedObject[] {
+    if (objects === null) {
+        objects = [...catalogRows, ...ngcIcRows].map(([ids, commonName, type, ra, dec])=>{
+            const names = ids.split(' ');
+            return {
+                object: {
+                    name: names[0],
+                    aliases: names.slice(1),
+                    commonName: commonName || null,
+                    type,
+                    ra: parseSexagesimal(ra) * 15,
+                    dec: parseSexagesimal(dec),
+                },
+                ids: names.map(normalizeIdentifier),
+            };
+        });
+    }
+    return objects;
+}
+
+export function lookup(name: string): CatalogObject|null {
+    const wanted = normalizeIdentifier(name);
+    for(const o of getObjects()) {
+        if (o.ids.indexOf(wanted) !== -1) {
+            return o.object;
+        }
+    }
+    return null;
+}
+
+// Exact identifiers first, then identifiers starting with the query, then common names
+export function search(query: string, limit: number): CatalogObject[] {
+    const wanted = normalizeIdentifier(query);
+    if (wanted === "") {
+        return [];
+    }
+    const lowerQuery = query.trim().toLowerCase();
+
+    const scored: Array<{score: number, object: CatalogObject}> = [];
+    for(const {object, ids} of getObjects()) {
+        let score: number;
+        if (ids.indexOf(wanted) !== -1) {
+            score = 0;
+        } else if (ids.some(id=>id.startsWith(wanted))) {
+            score = 1;
+        } else if (object.commonName !== null && object.commonName.toLowerCase().indexOf(lowerQuery) !== -1) {
+            score = 2;
+        } else {
+            continue;
+        }
+        scored.push({score, object});
+    }
+    // Stable sort keeps the catalog order within a score
+    scored.sort((a, b)=>a.score - b.score);
+    return scored.slice(0, limit).map(e=>e.object);
+}
+
+export default class Catalog implements RequestHandler.APIAppProvider<BackOfficeAPI.CatalogAPI> {
+    getAPI(): RequestHandler.APIAppImplementor<BackOfficeAPI.CatalogAPI> {
+        return {
+            search: this.search,
+            lookup: this.lookup,
+        }
+    }
+
+    search = async (ct: CancellationToken, payload: {query: string, limit?: number})=> {
+        return search(payload.query, payload.limit !== undefined ? payload.limit : 20);
+    }
+
+    lookup = async (ct: CancellationToken, payload: {name: string})=> {
+        return lookup(payload.name);
+    }
+}
@@ -0,0 +1,204 @@
+// Messier objects and a selection of bright NGC/IC objects, with their common names.
+// The other NGC/IC objects are in CatalogNgcIcData.ts
+// Columns: identifiers (space separated, first is the main one), common name, type, RA J2000 (h m), Dec J2000 (° ')
+// Types: Gx galaxy, OC open cluster, GC globular cluster, PN planetary nebula, EN emission nebula,
+//        RN reflection nebula, DN dark nebula, SNR supernova remnant, MW star cloud, DS double star, AS asterism,
+//        GxCl galaxy cluster, Neb other nebula
+export type CatalogRow = [string, string, string, string, string];
+
+export const catalogRows: CatalogRow[] = [
+    ["M1 NGC1952", "Crab Nebula", "SNR", "05 34.5", "+22 01"],
+    ["M2 NGC7089", "", "GC", "21 33.5", "-00 49"],
+    ["M3 NGC5272", "", "GC", "13 42.2", "+28 23"],
+    ["M4 NGC6121", "", "GC", "16 23.6", "-26 32"],
+    ["M5 NGC5904", "", "GC", "15 18.6", "+02 05"],
+    ["M6 NGC6405", "Butterfly Cluster", "OC", "17 40.1", "-32 13"],
+    ["M7 NGC6475", "Ptolemy Cluster", "OC", "17 53.9", "-34 49"],
+    ["M8 NGC6523", "Lagoon Nebula", "EN", "18 03.8", "-24 23"],
+    ["M9 NGC6333", "", "GC", "17 19.2", "-18 31"],
+    ["M10 NGC6254", "", "GC", "16 57.1", "-04 06"],
+    ["M11 NGC6705", "Wild Duck Cluster", "OC", "18 51.1", "-06 16"],
+    ["M12 NGC6218", "", "GC", "16 47.2", "-01 57"],
+    ["M13 NGC6205", "Hercules Cluster", "GC", "16 41.7", "+36 28"],
+    ["M14 NGC6402", "", "GC", "17 37.6", "-03 15"],
+    ["M15 NGC7078", "", "GC", "21 30.0", "+12 10"],
+    ["M16 NGC6611", "Eagle Nebula", "EN", "18 18.8", "-13 47"],
+    ["M17 NGC6618", "Omega Nebula", "EN", "18 20.8", "-16 11"],
+    ["M18 NGC6613", "", "OC", "18 19.9", "-17 08"],
+    ["M19 NGC6273", "", "GC", "17 02.6", "-26 16"],
+    ["M20 NGC6514", "Trifid Nebula", "EN", "18 02.6", "-23 02"],
+    ["M21 NGC6531", "", "OC", "18 04.6", "-22 30"],
+    ["M22 NGC6656", "", "GC", "18 36.4", "-23 54"],
+    ["M23 NGC6494", "", "OC", "17 56.8", "-19 01"],
+    ["M24 IC4715", "Sagittarius Star Cloud", "MW", "18 16.9", "-18 29"],
+    ["M25 IC4725", "", "OC", "18 31.6", "-19 15"],
+    ["M26 NGC6694", "", "OC", "18 45.2", "-09 24"],
+    ["M27 NGC6853", "Dumbbell Nebula", "PN", "19 59.6", "+22 43"],
+    ["M28 NGC6626", "", "GC", "18 24.5", "-24 52"],
+    ["M29 NGC6913", "", "OC", "20 23.9", "+38 32"],
+    ["M30 NGC7099", "", "GC", "21 40.4", "-23 11"],
+    ["M31 NGC224", "Andromeda Galaxy", "Gx", "00 42.7", "+41 16"],
+    ["M32 NGC221", "", "Gx", "00 42.7", "+40 52"],
+    ["M33 NGC598", "Triangulum Galaxy", "Gx", "01 33.9", "+30 39"],
+    ["M34 NGC1039", "", "OC", "02 42.0", "+42 47"],
+    ["M35 NGC2168", "", "OC", "06 08.9", "+24 20"],
+    ["M36 NGC1960", "", "OC", "05 36.1", "+34 08"],
+    ["M37 NGC2099", "", "OC", "05 52.4", "+32 33"],
+    ["M38 NGC1912", "", "OC", "05 28.7", "+35 50"],
+    ["M39 NGC7092", "", "OC", "21 32.2", "+48 26"],
+    ["M40", "Winnecke 4", "DS", "12 22.4", "+58 05"],
+    ["M41 NGC2287", "", "OC", "06 46.0", "-20 44"],
+    ["M42 NGC1976", "Orion Nebula", "EN", "05 35.4", "-05 27"],
+    ["M43 NGC1982", "De Mairan's Nebula", "EN", "05 35.6", "-05 16"],
+    ["M44 NGC2632", "Beehive Cluster", "OC", "08 40.1", "+19 59"],
+    ["M45", "Pleiades", "OC", "03 47.0", "+24 07"],
+    ["M46 NGC2437", "", "OC", "07 41.8", "-14 49"],
+    ["M47 NGC2422", "", "OC", "07 36.6", "-14 30"],
+    ["M48 NGC2548", "", "OC", "08 13.8", "-05 48"],
+    ["M49 NGC4472", "", "Gx", "12 29.8", "+08 00"],
+    ["M50 NGC2323", "", "OC", "07 03.2", "-08 20"],
+    ["M51 NGC5194", "Whirlpool Galaxy", "Gx", "13 29.9", "+47 12"],
+    ["M52 NGC7654", "", "OC", "23 24.2", "+61 35"],
+    ["M53 NGC5024", "", "GC", "13 12.9", "+18 10"],
+    ["M54 NGC6715", "", "GC", "18 55.1", "-30 29"],
+    ["M55 NGC6809", "", "GC", "19 40.0", "-30 58"],
+    ["M56 NGC6779", "", "GC", "19 16.6", "+30 11"],
+    ["M57 NGC6720", "Ring Nebula", "PN", "18 53.6", "+33 02"],
+    ["M58 NGC4579", "", "Gx", "12 37.7", "+11 49"],
+    ["M59 NGC4621", "", "Gx", "12 42.0", "+11 39"],
+    ["M60 NGC4649", "", "Gx", "12 43.7", "+11 33"],
+    ["M61 NGC4303", "", "Gx", "12 21.9", "+04 28"],
+    ["M62 NGC6266", "", "GC", "17 01.2", "-30 07"],
+    ["M63 NGC5055", "Sunflower Galaxy", "Gx", "13 15.8", "+42 02"],
+    ["M64 NGC4826", "Black Eye Galaxy", "Gx", "12 56.7", "+21 41"],
+    ["M65 NGC3623", "", "Gx", "11 18.9", "+13 05"],
+    ["M66 NGC3627", "", "Gx", "11 20.2", "+12 59"],
+    ["M67 NGC2682", "", "OC", "08 51.4", "+11 48"],
+    ["M68 NGC4590", "", "GC", "12 39.5", "-26 45"],
+    ["M69 NGC6637", "", "GC", "18 31.4", "-32 21"],
+    ["M70 NGC6681", "", "GC", "18 43.2", "-32 18"],
+    ["M71 NGC6838", "", "GC", "19 53.8", "+18 47"],
+    ["M72 NGC6981", "", "GC", "20 53.5", "-12 32"],
+    ["M73 NGC6994", "", "AS", "20 58.9", "-12 38"],
+    ["M74 NGC628", "Phantom Galaxy", "Gx", "01 36.7", "+15 47"],
+    ["M75 NGC6864", "", "GC", "20 06.1", "-21 55"],
+    ["M76 NGC650", "Little Dumbbell Nebula", "PN", "01 42.4", "+51 34"],
+    ["M77 NGC1068", "", "Gx", "02 42.7", "-00 01"],
+    ["M78 NGC2068", "", "RN", "05 46.7", "+00 03"],
+    ["M79 NGC1904", "", "GC", "05 24.5", "-24 33"],
+    ["M80 NGC6093", "", "GC", "16 17.0", "-22 59"],
+    ["M81 NGC3031", "Bode's Galaxy", "Gx", "09 55.6", "+69 04"],
+    ["M82 NGC3034", "Cigar Galaxy", "Gx", "09 55.8", "+69 41"],
+    ["M83 NGC5236", "Southern Pinwheel Galaxy", "Gx", "13 37.0", "-29 52"],
+    ["M84 NGC4374", "", "Gx", "12 25.1", "+12 53"],
+    ["M85 NGC4382", "", "Gx", "12 25.4", "+18 11"],
+    ["M86 NGC4406", "", "Gx", "12 26.2", "+12 57"],
+    ["M87 NGC4486", "Virgo A", "Gx", "12 30.8", "+12 23"],
+    ["M88 NGC4501", "", "Gx", "12 32.0", "+14 25"],
+    ["M89 NGC4552", "", "Gx", "12 35.7", "+12 33"],
+    ["M90 NGC4569", "", "Gx", "12 36.8", "+13 10"],
+    ["M91 NGC4548", "", "Gx", "12 35.4", "+14 30"],
+    ["M92 NGC6341", "", "GC", "17 17.1", "+43 08"],
+    ["M93 NGC2447", "", "OC", "07 44.6", "-23 52"],
+    ["M94 NGC4736", "", "Gx", "12 50.9", "+41 07"],
+    ["M95 NGC3351", "", "Gx", "10 44.0", "+11 42"],
+    ["M96 NGC3368", "", "Gx", "10 46.8", "+11 49"],
+    ["M97 NGC3587", "Owl Nebula", "PN", "11 14.8", "+55 01"],
+    ["M98 NGC4192", "", "Gx", "12 13.8", "+14 54"],
+    ["M99 NGC4254", "", "Gx", "12 18.8", "+14 25"],
+    ["M100 NGC4321", "", "Gx", "12 22.9", "+15 49"],
+    ["M101 NGC5457", "Pinwheel Galaxy", "Gx", "14 03.2", "+54 21"],
+    ["M102 NGC5866", "Spindle Galaxy", "Gx", "15 06.5", "+55 46"],
+    ["M103 NGC581", "", "OC", "01 33.2", "+60 42"],
+    ["M104 NGC4594", "Sombrero Galaxy", "Gx", "12 40.0", "-11 37"],
+    ["M105 NGC3379", "", "Gx", "10 47.8", "+12 35"],
+    ["M106 NGC4258", "", "Gx", "12 19.0", "+47 18"],
+    ["M107 NGC6171", "", "GC", "16 32.5", "-13 03"],
+    ["M108 NGC3556", "", "Gx", "11 11.5", "+55 40"],
+    ["M109 NGC3992", "", "Gx", "11 57.6", "+53 23"],
+    ["M110 NGC205", "", "Gx", "00 40.4", "+41 41"],
+
+    ["NGC40", "Bow-Tie Nebula", "PN", "00 13.0", "+72 32"],
+    ["NGC55", "", "Gx", "00 14.9", "-39 11"],
+    ["NGC104", "47 Tucanae", "GC", "00 24.1", "-72 05"],
+    ["NGC147", "", "Gx", "00 33.2", "+48 30"],
+    ["NGC185", "", "Gx", "00 39.0", "+48 20"],
+    ["NGC246", "Skull Nebula", "PN", "00 47.0", "-11 53"],
+    ["NGC253", "Sculptor Galaxy", "Gx", "00 47.6", "-25 17"],
+    ["NGC281", "Pacman Nebula", "EN", "00 52.8", "+56 37"],
+    ["NGC300", "", "Gx", "00 54.9", "-37 41"],
+    ["NGC457", "Owl Cluster", "OC", "01 19.1", "+58 20"],
+    ["NGC752", "", "OC", "01 57.8", "+37 41"],
+    ["NGC869", "Double Cluster (h Persei)", "OC", "02 19.0", "+57 09"],
+    ["NGC884", "Double Cluster (Chi Persei)", "OC", "02 22.4", "+57 07"],
+    ["NGC891", "", "Gx", "02 22.6", "+42 21"],
+    ["NGC1300", "", "Gx", "03 19.7", "-19 25"],
+    ["NGC1333", "", "RN", "03 29.3", "+31 25"],
+    ["NGC1365", "Great Barred Spiral Galaxy", "Gx", "03 33.6", "-36 08"],
+    ["NGC1499", "California Nebula", "EN", "04 03.4", "+36 25"],
+    ["NGC1535", "", "PN", "04 14.3", "-12 44"],
+    ["NGC1555", "Hind's Variable Nebula", "RN", "04 21.8", "+19 32"],
+    ["NGC1977", "Running Man Nebula", "RN", "05 35.5", "-04 52"],
+    ["NGC2024", "Flame Nebula", "EN", "05 41.9", "-01 51"],
+    ["NGC2070", "Tarantula Nebula", "EN", "05 38.7", "-69 06"],
+    ["NGC2158", "", "OC", "06 07.5", "+24 06"],
+    ["NGC2237", "Rosette Nebula", "EN", "06 32.3", "+05 03"],
+    ["NGC2244", "", "OC", "06 32.4", "+04 52"],
+    ["NGC2261", "Hubble's Variable Nebula", "RN", "06 39.2", "+08 44"],
+    ["NGC2264", "Christmas Tree Cluster", "OC", "06 41.1", "+09 53"],
+    ["NGC2359", "Thor's Helmet", "EN", "07 18.5", "-13 13"],
+    ["NGC2392", "Eskimo Nebula", "PN", "07 29.2", "+20 55"],
+    ["NGC2403", "", "Gx", "07 36.9", "+65 36"],
+    ["NGC2841", "", "Gx", "09 22.0", "+50 58"],
+    ["NGC2903", "", "Gx", "09 32.2", "+21 30"],
+    ["NGC3115", "Spindle Galaxy", "Gx", "10 05.2", "-07 43"],
+    ["NGC3132", "Eight-Burst Nebula", "PN", "10 07.7", "-40 26"],
+    ["NGC3184", "", "Gx", "10 18.3", "+41 25"],
+    ["NGC3242", "Ghost of Jupiter", "PN", "10 24.8", "-18 38"],
+    ["NGC3372", "Carina Nebula", "EN", "10 45.1", "-59 52"],
+    ["NGC3628", "Hamburger Galaxy", "Gx", "11 20.3", "+13 35"],
+    ["NGC4038", "Antennae Galaxies", "Gx", "12 01.9", "-18 52"],
+    ["NGC4244", "", "Gx", "12 17.5", "+37 48"],
+    ["NGC4449", "", "Gx", "12 28.2", "+44 06"],
+    ["NGC4490", "Cocoon Galaxy", "Gx", "12 30.6", "+41 39"],
+    ["NGC4559", "", "Gx", "12 36.0", "+27 58"],
+    ["NGC4565", "Needle Galaxy", "Gx", "12 36.3", "+25 59"],
+    ["NGC4631", "Whale Galaxy", "Gx", "12 42.1", "+32 32"],
+    ["NGC5005", "", "Gx", "13 10.9", "+37 03"],
+    ["NGC5128", "Centaurus A", "Gx", "13 25.5", "-43 01"],
+    ["NGC5139", "Omega Centauri", "GC", "13 26.8", "-47 29"],
+    ["NGC5907", "Splinter Galaxy", "Gx", "15 15.9", "+56 20"],
+    ["NGC6231", "", "OC", "16 54.0", "-41 48"],
+    ["NGC6302", "Bug Nebula", "PN", "17 13.7", "-37 06"],
+    ["NGC6543", "Cat's Eye Nebula", "PN", "17 58.6", "+66 38"],
+    ["NGC6633", "", "OC", "18 27.7", "+06 34"],
+    ["NGC6822", "Barnard's Galaxy", "Gx", "19 44.9", "-14 48"],
+    ["NGC6826", "Blinking Planetary", "PN", "19 44.8", "+50 31"],
+    ["NGC6888", "Crescent Nebula", "EN", "20 12.0", "+38 21"],
+    ["NGC6939", "", "OC", "20 31.4", "+60 38"],
+    ["NGC6946", "Fireworks Galaxy", "Gx", "20 34.9", "+60 09"],
+    ["NGC6960", "Western Veil Nebula", "SNR", "20 45.7", "+30 43"],
+    ["NGC6992", "Eastern Veil Nebula", "SNR", "20 56.4", "+31 43"],
+    ["NGC7000", "North America Nebula", "EN", "20 59.3", "+44 31"],
+    ["NGC7009", "Saturn Nebula", "PN", "21 04.2", "-11 22"],
+    ["NGC7023", "Iris Nebula", "RN", "21 01.8", "+68 12"],
+    ["NGC7293", "Helix Nebula", "PN", "22 29.6", "-20 50"],
+    ["NGC7331", "", "Gx", "22 37.1", "+34 25"],
+    ["NGC7380", "Wizard Nebula", "EN", "22 47.0", "+58 06"],
+    ["NGC7635", "Bubble Nebula", "EN", "23 20.7", "+61 12"],
+    ["NGC7662", "Blue Snowball", "PN", "23 25.9", "+42 33"],
+    ["NGC7789", "Caroline's Rose", "OC", "23 57.0", "+56 43"],
+
+    ["IC342", "", "Gx", "03 46.8", "+68 06"],
+    ["IC405", "Flaming Star Nebula", "EN", "05 16.2", "+34 16"],
+    ["IC410", "", "EN", "05 22.6", "+33 31"],
+    ["IC434", "Horsehead Nebula", "DN", "05 40.9", "-02 28"],
+    ["IC443", "Jellyfish Nebula", "SNR", "06 16.9", "+22 31"],
+    ["IC1396", "", "EN", "21 39.1", "+57 30"],
+    ["IC1805", "Heart Nebula", "EN", "02 33.4", "+61 26"],
+    ["IC1848", "Soul Nebula", "EN", "02 51.2", "+60 26"],
+    ["IC2602", "Southern Pleiades", "OC", "10 43.2", "-64 24"],
+    ["IC4665", "", "OC", "17 46.3", "+05 43"],
+    ["IC5070", "Pelican Nebula", "EN", "20 50.8", "+44 21"],
+    ["IC5146", "Cocoon Nebula", "EN", "21 53.5", "+47 16"],
+];
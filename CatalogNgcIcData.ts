@@ -0,0 +1,10283 @@
+// Generated extract of the NGC and IC objects of the Saguaro Astronomy Club database 8.1,
+// as distributed in data/dsos.20.json and data/dsonames.json of d3-celestial 0.7.35 (see licenses/d3-celestial.txt).
+// Objects of the hand written table (CatalogData.ts) are not repeated. Same columns and types as CatalogData.ts
+import { CatalogRow } from './CatalogData';
+
+export const ngcIcRows: CatalogRow[] = [
+    ["NGC1", "", "Gx", "00 07.3", "+27 42"],
+    ["NGC2", "", "Gx", "00 07.3", "+27 41"],
+    ["NGC3", "", "Gx", "00 07.3", "+08 18"],
+    ["NGC4", "", "Gx", "00 08.3", "+08 07"],
+    ["NGC5", "", "Gx", "00 07.8", "+35 22"],
+    ["NGC7", "", "Gx", "00 08.3", "-29 55"],
+    ["NGC8", "", "Gx", "00 08.8", "+23 50"],
+    ["NGC9", "", "Gx", "00 08.9", "+23 49"],
+    ["NGC10", "", "Gx", "00 08.6", "-33 51"],
+    ["NGC11", "", "Gx", "00 08.7", "+37 27"],
+    ["NGC12", "", "Gx", "00 08.7", "+04 37"],
+    ["NGC13", "", "Gx", "00 08.8", "+33 26"],
+    ["NGC14", "", "Gx", "00 08.8", "+15 49"],
+    ["NGC15", "", "Gx", "00 09.0", "+21 37"],
+    ["NGC16", "", "Gx", "00 09.1", "+27 44"],
+    ["NGC19", "", "Gx", "00 10.7", "+32 59"],
+    ["NGC20", "", "Gx", "00 09.5", "+33 19"],
+    ["NGC22", "", "Gx", "00 09.8", "+27 50"],
+    ["NGC23", "", "Gx", "00 09.9", "+25 55"],
+    ["NGC24", "", "Gx", "00 09.9", "-24 58"],
+    ["NGC25", "", "Gx", "00 10.0", "-57 01"],
+    ["NGC26", "", "Gx", "00 10.4", "+25 50"],
+    ["NGC27", "", "Gx", "00 10.5", "+29 00"],
+    ["NGC28", "", "Gx", "00 10.4", "-56 59"],
+    ["NGC29", "", "Gx", "00 10.8", "+33 21"],
+    ["NGC31", "", "Gx", "00 10.6", "-56 59"],
+    ["NGC34", "", "Gx", "00 11.1", "-12 06"],
+    ["NGC35", "", "Gx", "00 11.2", "-12 01"],
+    ["NGC36", "", "Gx", "00 11.4", "+06 23"],
+    ["NGC37", "", "Gx", "00 11.4", "-56 57"],
+    ["NGC38", "", "Gx", "00 11.8", "-05 35"],
+    ["NGC39", "", "Gx", "00 12.3", "+31 04"],
+    ["NGC41", "", "Gx", "00 12.8", "+22 01"],
+    ["NGC42", "", "Gx", "00 12.9", "+22 06"],
+    ["NGC43", "", "Gx", "00 13.0", "+30 55"],
+    ["NGC45", "", "Gx", "00 14.1", "-23 11"],
+    ["NGC47", "", "Gx", "00 14.5", "-07 10"],
+    ["NGC48", "", "Gx", "00 14.0", "+48 14"],
+    ["NGC49", "", "Gx", "00 14.4", "+48 15"],
+    ["NGC50", "", "Gx", "00 14.7", "-07 21"],
+    ["NGC51", "", "Gx", "00 14.6", "+48 15"],
+    ["NGC52", "", "Gx", "00 14.7", "+18 35"],
+    ["NGC53", "", "Gx", "00 14.7", "-60 20"],
+    ["NGC54", "", "Gx", "00 15.1", "-07 06"],
+    ["NGC57", "", "Gx", "00 15.5", "+17 20"],
+    ["NGC59", "", "Gx", "00 15.4", "-21 27"],
+    ["NGC60", "", "Gx", "00 16.0", "-00 18"],
+    ["NGC61", "", "Gx", "00 16.4", "-06 19"],
+    ["NGC62", "", "Gx", "00 17.1", "-13 29"],
+    ["NGC63", "", "Gx", "00 17.8", "+11 27"],
+    ["NGC64", "", "Gx", "00 17.5", "-06 49"],
+    ["NGC65", "", "Gx", "00 19.0", "-22 53"],
+    ["NGC66", "", "Gx", "00 19.1", "-22 56"],
+    ["NGC67", "", "Gx", "00 18.2", "+30 04"],
+    ["NGC68", "", "Gx", "00 18.3", "+30 04"],
+    ["NGC69", "", "Gx", "00 18.3", "+30 02"],
+    ["NGC70", "", "Gx", "00 18.4", "+30 05"],
+    ["NGC71", "", "Gx", "00 18.4", "+30 04"],
+    ["NGC72", "", "Gx", "00 18.5", "+30 02"],
+    ["NGC73", "", "Gx", "00 18.6", "-15 19"],
+    ["NGC74", "", "Gx", "00 18.8", "+30 04"],
+    ["NGC75", "", "Gx", "00 19.4", "+06 27"],
+    ["NGC76", "", "Gx", "00 19.6", "+29 56"],
+    ["NGC77", "", "Gx", "00 20.0", "-22 32"],
+    ["NGC78", "", "Gx", "00 20.4", "+00 50"],
+    ["NGC79", "", "Gx", "00 21.0", "+22 34"],
+    ["NGC80", "", "Gx", "00 21.2", "+22 21"],
+    ["NGC81", "", "Gx", "00 21.2", "+22 23"],
+    ["NGC83", "", "Gx", "00 21.4", "+22 26"],
+    ["NGC84", "", "Gx", "00 21.6", "+22 36"],
+    ["NGC85", "", "Gx", "00 21.4", "+22 31"],
+    ["NGC86", "", "Gx", "00 21.5", "+22 33"],
+    ["NGC87", "Robert's Quartet", "Gx", "00 21.2", "-48 38"],
+    ["NGC88", "Robert's Quartet", "Gx", "00 21.4", "-48 38"],
+    ["NGC89", "Robert's Quartet", "Gx", "00 21.4", "-48 40"],
+    ["NGC90", "", "Gx", "00 21.9", "+22 24"],
+    ["NGC92", "Robert's Quartet", "Gx", "00 21.5", "-48 37"],
+    ["NGC93", "", "Gx", "00 22.1", "+22 24"],
+    ["NGC94", "", "Gx", "00 22.2", "+22 29"],
+    ["NGC95", "", "Gx", "00 22.2", "+10 29"],
+    ["NGC96", "", "Gx", "00 22.3", "+22 33"],
+    ["NGC97", "", "Gx", "00 22.5", "+29 45"],
+    ["NGC98", "", "Gx", "00 22.8", "-45 16"],
+    ["NGC99", "", "Gx", "00 24.0", "+15 46"],
+    ["NGC100", "", "Gx", "00 24.0", "+16 29"],
+    ["NGC101", "", "Gx", "00 23.9", "-32 32"],
+    ["NGC102", "", "Gx", "00 24.6", "-13 57"],
+    ["NGC103", "", "OC", "00 25.1", "+61 20"],
+    ["NGC105", "", "Gx", "00 25.3", "+12 53"],
+    ["NGC106", "", "Gx", "00 24.7", "-05 09"],
+    ["NGC107", "", "Gx", "00 25.7", "-08 17"],
+    ["NGC108", "", "Gx", "00 26.0", "+29 13"],
+    ["NGC109", "", "Gx", "00 26.2", "+21 48"],
+    ["NGC112", "", "Gx", "00 26.8", "+31 42"],
+    ["NGC113", "", "Gx", "00 26.9", "-02 30"],
+    ["NGC114", "", "Gx", "00 27.0", "-01 47"],
+    ["NGC115", "", "Gx", "00 26.8", "-33 41"],
+    ["NGC116", "", "Gx", "00 27.1", "-07 40"],
+    ["NGC117", "", "Gx", "00 27.2", "+01 20"],
+    ["NGC118", "", "Gx", "00 27.3", "-01 47"],
+    ["NGC119", "", "Gx", "00 27.0", "-56 59"],
+    ["NGC120", "", "Gx", "00 27.5", "-01 31"],
+    ["NGC121", "", "GC", "00 26.8", "-71 32"],
+    ["NGC124", "", "Gx", "00 27.9", "-01 49"],
+    ["NGC125", "", "Gx", "00 28.8", "+02 50"],
+    ["NGC126", "", "Gx", "00 29.1", "+02 49"],
+    ["NGC127", "", "Gx", "00 29.2", "+02 52"],
+    ["NGC128", "NGC 128 group", "Gx", "00 29.3", "+02 52"],
+    ["NGC129", "", "OC", "00 30.0", "+60 13"],
+    ["NGC130", "", "Gx", "00 29.3", "+02 52"],
+    ["NGC131", "", "Gx", "00 29.6", "-33 16"],
+    ["NGC132", "", "Gx", "00 30.2", "+02 06"],
+    ["NGC133", "", "OC", "00 31.2", "+63 22"],
+    ["NGC134", "Giant Squid Galaxy", "Gx", "00 30.4", "-33 15"],
+    ["NGC135", "", "Gx", "00 31.8", "-13 20"],
+    ["NGC136", "", "OC", "00 31.6", "+61 31"],
+    ["NGC137", "", "Gx", "00 31.0", "+10 13"],
+    ["NGC138", "", "Gx", "00 31.0", "+05 10"],
+    ["NGC139", "", "Gx", "00 31.1", "+05 05"],
+    ["NGC140", "", "Gx", "00 31.3", "+30 48"],
+    ["NGC141", "", "Gx", "00 31.3", "+05 11"],
+    ["NGC142", "", "Gx", "00 31.1", "-22 37"],
+    ["NGC143", "", "Gx", "00 31.3", "-22 34"],
+    ["NGC144", "", "Gx", "00 31.3", "-22 39"],
+    ["NGC145", "", "Gx", "00 31.8", "-05 09"],
+    ["NGC146", "", "OC", "00 33.1", "+63 18"],
+    ["NGC148", "", "Gx", "00 34.3", "-31 47"],
+    ["NGC149", "", "Gx", "00 33.8", "+30 43"],
+    ["NGC150", "", "Gx", "00 34.3", "-27 48"],
+    ["NGC151", "", "Gx", "00 34.0", "-09 42"],
+    ["NGC152", "", "OC", "00 32.9", "-73 07"],
+    ["NGC154", "", "Gx", "00 34.3", "-12 39"],
+    ["NGC155", "", "Gx", "00 34.7", "-10 46"],
+    ["NGC157", "", "Gx", "00 34.8", "-08 24"],
+    ["NGC159", "", "Gx", "00 34.6", "-55 47"],
+    ["NGC160", "", "Gx", "00 36.1", "+23 57"],
+    ["NGC161", "", "Gx", "00 35.6", "-02 51"],
+    ["NGC162", "", "Gx", "00 36.0", "+24 02"],
+    ["NGC163", "", "Gx", "00 36.0", "-10 07"],
+    ["NGC164", "", "Gx", "00 36.5", "+02 45"],
+    ["NGC165", "", "Gx", "00 36.5", "-10 06"],
+    ["NGC166", "", "Gx", "00 35.8", "-13 37"],
+    ["NGC167", "", "Gx", "00 35.4", "-23 23"],
+    ["NGC168", "", "Gx", "00 36.6", "-22 36"],
+    ["NGC169", "", "Gx", "00 36.9", "+23 59"],
+    ["NGC170", "", "Gx", "00 36.8", "+01 53"],
+    ["NGC172", "", "Gx", "00 37.2", "-22 35"],
+    ["NGC173", "", "Gx", "00 37.2", "+01 57"],
+    ["NGC174", "", "Gx", "00 37.0", "-29 29"],
+    ["NGC175", "", "Gx", "00 37.4", "-19 56"],
+    ["NGC176", "", "OC", "00 36.0", "-73 10"],
+    ["NGC177", "", "Gx", "00 37.6", "-22 33"],
+    ["NGC178", "", "Gx", "00 39.1", "-14 10"],
+    ["NGC179", "", "Gx", "00 37.8", "-17 51"],
+    ["NGC180", "", "Gx", "00 38.0", "+08 38"],
+    ["NGC181", "", "Gx", "00 38.4", "+29 28"],
+    ["NGC182", "", "Gx", "00 38.2", "+02 44"],
+    ["NGC183", "", "Gx", "00 38.5", "+29 31"],
+    ["NGC184", "", "Gx", "00 38.6", "+29 27"],
+    ["NGC186", "", "Gx", "00 38.4", "+03 10"],
+    ["NGC187", "", "Gx", "00 39.5", "-14 39"],
+    ["NGC188", "Polarissima Cluster", "OC", "00 48.4", "+85 15"],
+    ["NGC189", "", "OC", "00 39.5", "+61 07"],
+    ["NGC190", "", "Gx", "00 38.9", "+07 04"],
+    ["NGC191", "", "Gx", "00 39.0", "-09 00"],
+    ["NGC192", "", "Gx", "00 39.2", "+00 52"],
+    ["NGC193", "", "Gx", "00 39.3", "+03 20"],
+    ["NGC194", "", "Gx", "00 39.3", "+03 02"],
+    ["NGC195", "", "Gx", "00 39.6", "-09 12"],
+    ["NGC196", "", "Gx", "00 39.3", "+00 55"],
+    ["NGC197", "", "Gx", "00 39.3", "+00 54"],
+    ["NGC198", "", "Gx", "00 39.4", "+02 48"],
+    ["NGC199", "", "Gx", "00 39.6", "+03 08"],
+    ["NGC200", "", "Gx", "00 39.6", "+02 53"],
+    ["NGC201", "", "Gx", "00 39.6", "+00 52"],
+    ["NGC202", "", "Gx", "00 39.7", "+03 32"],
+    ["NGC203", "", "Gx", "00 39.7", "+03 27"],
+    ["NGC204", "", "Gx", "00 39.7", "+03 18"],
+    ["NGC207", "", "Gx", "00 39.7", "-14 14"],
+    ["NGC208", "", "Gx", "00 40.3", "+02 45"],
+    ["NGC209", "", "Gx", "00 39.1", "-18 36"],
+    ["NGC210", "", "Gx", "00 40.6", "-13 52"],
+    ["NGC212", "", "Gx", "00 40.2", "-56 09"],
+    ["NGC213", "", "Gx", "00 41.2", "+16 28"],
+    ["NGC214", "", "Gx", "00 41.5", "+25 30"],
+    ["NGC215", "", "Gx", "00 40.8", "-56 13"],
+    ["NGC216", "", "Gx", "00 41.4", "-21 03"],
+    ["NGC217", "", "Gx", "00 41.6", "-10 01"],
+    ["NGC218", "", "Gx", "00 41.7", "+36 22"],
+    ["NGC219", "", "Gx", "00 42.2", "+00 54"],
+    ["NGC220", "", "OC", "00 40.9", "-73 24"],
+    ["NGC222", "", "OC", "00 40.7", "-73 23"],
+    ["NGC223", "", "Gx", "00 42.3", "+00 51"],
+    ["NGC225", "Sailboat Cluster", "OC", "00 43.7", "+61 46"],
+    ["NGC226", "", "Gx", "00 42.9", "+32 35"],
+    ["NGC227", "", "Gx", "00 42.6", "-01 32"],
+    ["NGC228", "", "Gx", "00 42.9", "+23 30"],
+    ["NGC229", "", "Gx", "00 43.1", "+23 31"],
+    ["NGC230", "", "Gx", "00 42.5", "-23 38"],
+    ["NGC231", "", "OC", "00 41.1", "-73 21"],
+    ["NGC232", "", "Gx", "00 42.8", "-23 34"],
+    ["NGC233", "", "Gx", "00 43.6", "+30 35"],
+    ["NGC234", "", "Gx", "00 43.5", "+14 21"],
+    ["NGC235", "", "Gx", "00 42.9", "-23 32"],
+    ["NGC236", "", "Gx", "00 43.5", "+02 57"],
+    ["NGC237", "", "Gx", "00 43.5", "-00 07"],
+    ["NGC238", "", "Gx", "00 43.4", "-50 11"],
+    ["NGC239", "", "Gx", "00 44.6", "-03 46"],
+    ["NGC240", "", "Gx", "00 45.0", "+06 07"],
+    ["NGC241", "", "OC", "00 43.5", "-73 26"],
+    ["NGC242", "", "OC", "00 43.6", "-73 27"],
+    ["NGC243", "", "Gx", "00 46.0", "+29 58"],
+    ["NGC244", "", "Gx", "00 45.8", "-15 36"],
+    ["NGC245", "", "Gx", "00 46.1", "-01 43"],
+    ["NGC247", "Burbidge Chain", "Gx", "00 47.1", "-20 46"],
+    ["NGC249", "", "Neb", "00 45.5", "-73 05"],
+    ["NGC250", "", "Gx", "00 47.3", "+07 55"],
+    ["NGC251", "", "Gx", "00 47.9", "+19 36"],
+    ["NGC252", "", "Gx", "00 48.0", "+27 37"],
+    ["NGC254", "", "Gx", "00 47.5", "-31 25"],
+    ["NGC255", "", "Gx", "00 47.8", "-11 28"],
+    ["NGC256", "", "OC", "00 45.9", "-73 30"],
+    ["NGC257", "", "Gx", "00 48.0", "+08 18"],
+    ["NGC258", "", "Gx", "00 48.2", "+27 39"],
+    ["NGC259", "", "Gx", "00 48.1", "-02 47"],
+    ["NGC260", "", "Gx", "00 48.6", "+27 42"],
+    ["NGC261", "", "Neb", "00 46.5", "-73 06"],
+    ["NGC262", "Markarian 348", "Gx", "00 48.8", "+31 57"],
+    ["NGC263", "", "Gx", "00 48.8", "-13 06"],
+    ["NGC264", "", "Gx", "00 48.3", "-38 14"],
+    ["NGC265", "", "OC", "00 47.2", "-73 29"],
+    ["NGC266", "", "Gx", "00 49.8", "+32 17"],
+    ["NGC267", "", "Neb", "00 48.0", "-73 17"],
+    ["NGC268", "", "Gx", "00 50.2", "-05 12"],
+    ["NGC269", "", "OC", "00 48.4", "-73 32"],
+    ["NGC270", "", "Gx", "00 50.5", "-08 39"],
+    ["NGC271", "", "Gx", "00 50.7", "-01 55"],
+    ["NGC273", "", "Gx", "00 50.8", "-06 53"],
+    ["NGC274", "", "Gx", "00 51.0", "-07 03"],
+    ["NGC275", "", "Gx", "00 51.1", "-07 04"],
+    ["NGC276", "", "Gx", "00 52.1", "-22 41"],
+    ["NGC277", "", "Gx", "00 51.3", "-08 36"],
+    ["NGC278", "", "Gx", "00 52.1", "+47 33"],
+    ["NGC279", "", "Gx", "00 52.1", "-02 13"],
+    ["NGC280", "", "Gx", "00 52.5", "+24 21"],
+    ["NGC282", "", "Gx", "00 52.7", "+30 38"],
+    ["NGC283", "", "Gx", "00 53.2", "-13 10"],
+    ["NGC284", "", "Gx", "00 53.5", "-13 09"],
+    ["NGC285", "", "Gx", "00 53.5", "-13 10"],
+    ["NGC286", "", "Gx", "00 53.5", "-13 07"],
+    ["NGC287", "", "Gx", "00 53.5", "+32 29"],
+    ["NGC288", "", "GC", "00 52.8", "-26 35"],
+    ["NGC289", "", "Gx", "00 52.7", "-31 12"],
+    ["NGC290", "", "OC", "00 51.2", "-73 10"],
+    ["NGC291", "", "Gx", "00 53.5", "-08 46"],
+    ["NGC292", "Small Magellanic Cloud", "Gx", "00 52.6", "-72 48"],
+    ["NGC293", "", "Gx", "00 54.3", "-07 14"],
+    ["NGC294", "", "OC", "00 53.1", "-73 21"],
+    ["NGC295", "", "Gx", "00 55.1", "+31 33"],
+    ["NGC296", "", "Gx", "00 55.4", "+31 41"],
+    ["NGC298", "", "Gx", "00 55.0", "-07 20"],
+    ["NGC299", "", "OC", "00 53.4", "-72 12"],
+    ["NGC301", "", "Gx", "00 56.3", "-10 40"],
+    ["NGC303", "", "Gx", "00 54.9", "-16 39"],
+    ["NGC304", "", "Gx", "00 56.1", "+24 08"],
+    ["NGC305", "", "Gx", "00 56.0", "+12 07"],
+    ["NGC306", "", "OC", "00 54.2", "-72 14"],
+    ["NGC307", "", "Gx", "00 56.5", "-01 46"],
+    ["NGC309", "", "Gx", "00 56.7", "-09 55"],
+    ["NGC311", "", "Gx", "00 57.5", "+30 17"],
+    ["NGC312", "", "Gx", "00 56.3", "-52 47"],
+    ["NGC314", "", "Gx", "00 56.9", "-31 58"],
+    ["NGC315", "", "Gx", "00 57.8", "+30 21"],
+    ["NGC317", "", "Gx", "00 57.7", "+43 48"],
+    ["NGC318", "", "Gx", "00 58.1", "+30 26"],
+    ["NGC319", "", "Gx", "00 57.0", "-43 50"],
+    ["NGC320", "", "Gx", "00 58.8", "-20 50"],
+    ["NGC321", "", "Gx", "00 57.7", "-05 05"],
+    ["NGC322", "", "Gx", "00 57.2", "-43 44"],
+    ["NGC323", "", "Gx", "00 56.7", "-52 59"],
+    ["NGC324", "", "Gx", "00 57.2", "-40 58"],
+    ["NGC325", "", "Gx", "00 57.8", "-05 07"],
+    ["NGC326", "", "Gx", "00 58.4", "+26 52"],
+    ["NGC327", "", "Gx", "00 57.9", "-05 08"],
+    ["NGC328", "", "Gx", "00 57.0", "-52 55"],
+    ["NGC329", "", "Gx", "00 58.0", "-05 04"],
+    ["NGC330", "", "OC", "00 56.3", "-72 27"],
+    ["NGC331", "", "Gx", "00 57.1", "-02 45"],
+    ["NGC332", "", "Gx", "00 58.8", "+07 07"],
+    ["NGC333", "", "Gx", "00 58.9", "-16 28"],
+    ["NGC334", "", "Gx", "00 58.8", "-35 07"],
+    ["NGC335", "", "Gx", "00 59.3", "-18 14"],
+    ["NGC336", "", "Gx", "00 59.0", "-18 45"],
+    ["NGC337", "", "Gx", "00 59.8", "-07 35"],
+    ["NGC338", "", "Gx", "01 00.6", "+30 40"],
+    ["NGC339", "", "OC", "00 57.8", "-74 28"],
+    ["NGC340", "", "Gx", "01 00.6", "-06 52"],
+    ["NGC341", "", "Gx", "01 00.8", "-09 11"],
+    ["NGC342", "", "Gx", "01 00.8", "-06 46"],
+    ["NGC344", "", "Gx", "01 01.6", "-23 16"],
+    ["NGC345", "", "Gx", "01 01.4", "-06 53"],
+    ["NGC347", "", "Gx", "01 01.6", "-06 44"],
+    ["NGC348", "", "Gx", "01 00.9", "-53 15"],
+    ["NGC349", "", "Gx", "01 01.8", "-06 48"],
+    ["NGC350", "", "Gx", "01 01.9", "-06 48"],
+    ["NGC351", "", "Gx", "01 02.0", "-01 56"],
+    ["NGC352", "", "Gx", "01 02.2", "-04 15"],
+    ["NGC353", "", "Gx", "01 02.4", "-01 58"],
+    ["NGC354", "", "Gx", "01 03.3", "+22 21"],
+    ["NGC355", "", "Gx", "01 03.1", "-06 19"],
+    ["NGC356", "", "Gx", "01 03.1", "-06 59"],
+    ["NGC357", "", "Gx", "01 03.4", "-06 20"],
+    ["NGC359", "", "Gx", "01 04.3", "-00 46"],
+    ["NGC360", "", "Gx", "01 02.9", "-65 37"],
+    ["NGC361", "", "OC", "01 02.2", "-71 36"],
+    ["NGC362", "", "GC", "01 03.2", "-70 51"],
+    ["NGC363", "", "Gx", "01 06.3", "-16 33"],
+    ["NGC364", "", "Gx", "01 04.7", "-00 48"],
+    ["NGC365", "", "Gx", "01 04.3", "-35 07"],
+    ["NGC366", "", "OC", "01 06.5", "+62 13"],
+    ["NGC367", "", "Gx", "01 05.8", "-12 08"],
+    ["NGC368", "", "Gx", "01 04.4", "-43 17"],
+    ["NGC369", "", "Gx", "01 05.1", "-17 46"],
+    ["NGC371", "", "OC", "01 03.4", "-72 04"],
+    ["NGC373", "", "Gx", "01 07.0", "+32 19"],
+    ["NGC374", "", "Gx", "01 07.1", "+32 48"],
+    ["NGC375", "Pisces Cloud", "Gx", "01 07.1", "+32 21"],
+    ["NGC376", "", "OC", "01 03.8", "-72 50"],
+    ["NGC378", "", "Gx", "01 06.2", "-30 11"],
+    ["NGC379", "", "Gx", "01 07.3", "+32 31"],
+    ["NGC380", "", "Gx", "01 07.3", "+32 29"],
+    ["NGC381", "", "OC", "01 08.3", "+61 35"],
+    ["NGC382", "", "Gx", "01 07.4", "+32 24"],
+    ["NGC383", "NGC 383 group", "Gx", "01 07.4", "+32 25"],
+    ["NGC384", "", "Gx", "01 07.4", "+32 18"],
+    ["NGC385", "", "Gx", "01 07.5", "+32 19"],
+    ["NGC386", "", "Gx", "01 07.5", "+32 22"],
+    ["NGC388", "", "Gx", "01 07.8", "+32 19"],
+    ["NGC389", "", "Gx", "01 08.5", "+39 42"],
+    ["NGC390", "", "Gx", "01 08.2", "+32 27"],
+    ["NGC391", "", "Gx", "01 07.4", "+00 56"],
+    ["NGC392", "", "Gx", "01 08.4", "+33 08"],
+    ["NGC393", "", "Gx", "01 08.6", "+39 39"],
+    ["NGC394", "", "Gx", "01 08.4", "+33 09"],
+    ["NGC395", "", "OC", "01 05.1", "-72 00"],
+    ["NGC396", "", "Gx", "01 08.1", "+04 32"],
+    ["NGC397", "", "Gx", "01 08.5", "+33 07"],
+    ["NGC398", "", "Gx", "01 08.9", "+32 31"],
+    ["NGC399", "", "Gx", "01 09.0", "+32 38"],
+    ["NGC403", "", "Gx", "01 09.2", "+32 45"],
+    ["NGC404", "Mirach's Ghost", "Gx", "01 09.5", "+35 43"],
+    ["NGC406", "", "Gx", "01 07.4", "-69 53"],
+    ["NGC407", "", "Gx", "01 10.6", "+33 08"],
+    ["NGC408", "", "Gx", "01 10.8", "+33 07"],
+    ["NGC409", "", "Gx", "01 09.6", "-35 48"],
+    ["NGC410", "", "Gx", "01 11.0", "+33 09"],
+    ["NGC411", "", "OC", "01 07.9", "-71 46"],
+    ["NGC412", "", "Gx", "01 06.6", "-20 20"],
+    ["NGC413", "", "Gx", "01 12.5", "-02 48"],
+    ["NGC414", "", "Gx", "01 11.3", "+33 07"],
+    ["NGC415", "", "Gx", "01 10.1", "-35 29"],
+    ["NGC416", "", "OC", "01 07.9", "-72 21"],
+    ["NGC417", "", "Gx", "01 11.1", "-18 09"],
+    ["NGC418", "", "Gx", "01 10.6", "-30 13"],
+    ["NGC419", "", "OC", "01 08.3", "-72 53"],
+    ["NGC420", "", "Gx", "01 12.2", "+32 07"],
+    ["NGC422", "", "OC", "01 09.4", "-71 46"],
+    ["NGC423", "", "Gx", "01 11.4", "-29 14"],
+    ["NGC424", "", "Gx", "01 11.5", "-38 05"],
+    ["NGC425", "", "Gx", "01 13.0", "+38 46"],
+    ["NGC426", "", "Gx", "01 12.8", "-00 17"],
+    ["NGC427", "", "Gx", "01 12.3", "-32 04"],
+    ["NGC428", "", "Gx", "01 12.9", "+00 59"],
+    ["NGC429", "", "Gx", "01 13.0", "-00 21"],
+    ["NGC430", "", "Gx", "01 13.0", "-00 15"],
+    ["NGC431", "", "Gx", "01 14.1", "+33 42"],
+    ["NGC432", "", "Gx", "01 11.8", "-61 32"],
+    ["NGC434", "", "Gx", "01 12.2", "-58 15"],
+    ["NGC435", "", "Gx", "01 14.0", "+02 04"],
+    ["NGC436", "", "OC", "01 16.0", "+58 49"],
+    ["NGC437", "", "Gx", "01 14.4", "+05 56"],
+    ["NGC438", "", "Gx", "01 13.6", "-37 54"],
+    ["NGC439", "", "Gx", "01 13.8", "-31 45"],
+    ["NGC440", "", "Gx", "01 12.8", "-58 17"],
+    ["NGC441", "", "Gx", "01 13.9", "-31 47"],
+    ["NGC442", "", "Gx", "01 14.6", "-01 01"],
+    ["NGC443", "", "Gx", "01 15.1", "+33 23"],
+    ["NGC444", "", "Gx", "01 15.8", "+31 05"],
+    ["NGC445", "", "Gx", "01 14.9", "+01 55"],
+    ["NGC446", "", "Gx", "01 16.1", "+04 18"],
+    ["NGC447", "", "Gx", "01 15.6", "+33 04"],
+    ["NGC448", "", "Gx", "01 15.3", "-01 38"],
+    ["NGC449", "", "Gx", "01 16.1", "+33 05"],
+    ["NGC450", "", "Gx", "01 15.5", "-00 52"],
+    ["NGC451", "", "Gx", "01 16.2", "+33 04"],
+    ["NGC452", "", "Gx", "01 16.2", "+31 02"],
+    ["NGC454", "", "Gx", "01 14.4", "-55 24"],
+    ["NGC455", "", "Gx", "01 16.0", "+05 11"],
+    ["NGC456", "", "Neb", "01 13.7", "-73 17"],
+    ["NGC458", "", "OC", "01 14.9", "-71 33"],
+    ["NGC459", "", "Gx", "01 18.1", "+17 34"],
+    ["NGC461", "", "Gx", "01 17.3", "-33 50"],
+    ["NGC462", "", "Gx", "01 18.2", "+04 14"],
+    ["NGC463", "", "Gx", "01 19.0", "+16 20"],
+    ["NGC464", "", "Gx", "01 19.1", "+34 57"],
+    ["NGC465", "", "OC", "01 15.7", "-73 20"],
+    ["NGC466", "", "Gx", "01 17.2", "-58 55"],
+    ["NGC467", "", "Gx", "01 19.2", "+03 18"],
+    ["NGC468", "", "Gx", "01 19.8", "+32 46"],
+    ["NGC469", "", "Gx", "01 19.6", "+14 52"],
+    ["NGC470", "", "Gx", "01 19.7", "+03 25"],
+    ["NGC471", "", "Gx", "01 20.0", "+14 47"],
+    ["NGC472", "", "Gx", "01 20.5", "+32 43"],
+    ["NGC473", "", "Gx", "01 19.9", "+16 33"],
+    ["NGC474", "", "Gx", "01 20.1", "+03 25"],
+    ["NGC475", "", "Gx", "01 20.0", "+14 52"],
+    ["NGC476", "", "Gx", "01 20.3", "+16 01"],
+    ["NGC477", "", "Gx", "01 21.3", "+40 29"],
+    ["NGC478", "", "Gx", "01 20.1", "-22 23"],
+    ["NGC479", "", "Gx", "01 21.3", "+03 52"],
+    ["NGC480", "", "Gx", "01 20.6", "-09 53"],
+    ["NGC481", "", "Gx", "01 21.2", "-09 13"],
+    ["NGC482", "", "Gx", "01 20.3", "-40 58"],
+    ["NGC483", "", "Gx", "01 21.9", "+33 31"],
+    ["NGC484", "", "Gx", "01 19.6", "-58 31"],
+    ["NGC485", "", "Gx", "01 21.5", "+07 01"],
+    ["NGC486", "", "Gx", "01 22.2", "+05 25"],
+    ["NGC487", "", "Gx", "01 21.9", "-16 22"],
+    ["NGC488", "Whirligig Galaxy", "Gx", "01 21.8", "+05 15"],
+    ["NGC489", "", "Gx", "01 21.9", "+09 12"],
+    ["NGC490", "", "Gx", "01 22.0", "+05 22"],
+    ["NGC491", "", "Gx", "01 21.3", "-34 04"],
+    ["NGC492", "", "Gx", "01 22.2", "+05 25"],
+    ["NGC493", "", "Gx", "01 22.1", "+00 57"],
+    ["NGC494", "", "Gx", "01 22.9", "+33 10"],
+    ["NGC495", "", "Gx", "01 22.9", "+33 28"],
+    ["NGC496", "", "Gx", "01 23.2", "+33 32"],
+    ["NGC497", "", "Gx", "01 22.4", "-00 53"],
+    ["NGC498", "", "Gx", "01 23.2", "+33 29"],
+    ["NGC499", "", "Gx", "01 23.2", "+33 28"],
+    ["NGC500", "", "Gx", "01 22.7", "+05 23"],
+    ["NGC501", "", "Gx", "01 23.4", "+33 26"],
+    ["NGC502", "", "Gx", "01 22.9", "+09 03"],
+    ["NGC503", "", "Gx", "01 23.5", "+33 20"],
+    ["NGC504", "", "Gx", "01 23.5", "+33 12"],
+    ["NGC505", "", "Gx", "01 23.0", "+09 28"],
+    ["NGC507", "NGC 507 group", "Gx", "01 23.7", "+33 15"],
+    ["NGC508", "", "Gx", "01 23.7", "+33 17"],
+    ["NGC509", "", "Gx", "01 23.4", "+09 26"],
+    ["NGC511", "", "Gx", "01 23.5", "+11 17"],
+    ["NGC512", "", "Gx", "01 24.0", "+33 54"],
+    ["NGC513", "", "Gx", "01 24.4", "+33 48"],
+    ["NGC514", "", "Gx", "01 24.1", "+12 55"],
+    ["NGC515", "", "Gx", "01 24.6", "+33 28"],
+    ["NGC516", "", "Gx", "01 24.1", "+09 33"],
+    ["NGC517", "", "Gx", "01 24.7", "+33 26"],
+    ["NGC518", "", "Gx", "01 24.3", "+09 20"],
+    ["NGC519", "", "Gx", "01 24.5", "-01 38"],
+    ["NGC520", "", "Gx", "01 24.6", "+03 48"],
+    ["NGC521", "", "Gx", "01 24.6", "+01 44"],
+    ["NGC522", "", "Gx", "01 24.8", "+10 00"],
+    ["NGC523", "", "Gx", "01 25.3", "+34 02"],
+    ["NGC524", "", "Gx", "01 24.8", "+09 32"],
+    ["NGC525", "", "Gx", "01 24.9", "+09 42"],
+    ["NGC526", "", "Gx", "01 23.9", "-35 04"],
+    ["NGC527", "", "Gx", "01 24.0", "-35 07"],
+    ["NGC528", "", "Gx", "01 25.6", "+33 40"],
+    ["NGC529", "", "Gx", "01 25.7", "+34 43"],
+    ["NGC530", "", "Gx", "01 24.7", "-01 35"],
+    ["NGC531", "", "Gx", "01 26.3", "+34 45"],
+    ["NGC532", "", "Gx", "01 25.3", "+09 16"],
+    ["NGC533", "", "Gx", "01 25.5", "+01 46"],
+    ["NGC534", "", "Gx", "01 24.7", "-38 08"],
+    ["NGC535", "", "Gx", "01 25.5", "-01 24"],
+    ["NGC536", "", "Gx", "01 26.4", "+34 42"],
+    ["NGC538", "", "Gx", "01 25.4", "-01 33"],
+    ["NGC539", "", "Gx", "01 25.4", "-18 10"],
+    ["NGC540", "", "Gx", "01 27.1", "-20 02"],
+    ["NGC541", "", "Gx", "01 25.7", "-01 23"],
+    ["NGC542", "", "Gx", "01 26.5", "+34 41"],
+    ["NGC543", "", "Gx", "01 25.8", "-01 18"],
+    ["NGC544", "", "Gx", "01 25.2", "-38 06"],
+    ["NGC545", "", "Gx", "01 26.0", "-01 20"],
+    ["NGC546", "", "Gx", "01 25.2", "-38 04"],
+    ["NGC547", "", "Gx", "01 26.0", "-01 21"],
+    ["NGC548", "", "Gx", "01 26.0", "-01 14"],
+    ["NGC549", "", "Gx", "01 25.5", "-38 16"],
+    ["NGC550", "", "Gx", "01 26.7", "+02 01"],
+    ["NGC551", "", "Gx", "01 27.7", "+37 11"],
+    ["NGC554", "", "Gx", "01 27.2", "-22 44"],
+    ["NGC555", "", "Gx", "01 27.2", "-22 46"],
+    ["NGC556", "", "Gx", "01 27.2", "-22 42"],
+    ["NGC557", "", "Gx", "01 26.4", "-01 38"],
+    ["NGC558", "", "Gx", "01 27.3", "-01 58"],
+    ["NGC559", "", "OC", "01 29.5", "+63 18"],
+    ["NGC560", "", "Gx", "01 27.4", "-01 55"],
+    ["NGC561", "", "Gx", "01 28.3", "+34 19"],
+    ["NGC562", "", "Gx", "01 28.5", "+48 23"],
+    ["NGC563", "", "Gx", "01 27.2", "-18 39"],
+    ["NGC564", "", "Gx", "01 27.8", "-01 53"],
+    ["NGC565", "", "Gx", "01 28.2", "-01 18"],
+    ["NGC566", "", "Gx", "01 29.0", "+32 20"],
+    ["NGC567", "", "Gx", "01 27.0", "-10 16"],
+    ["NGC568", "", "Gx", "01 28.0", "-35 43"],
+    ["NGC569", "", "Gx", "01 29.1", "+11 08"],
+    ["NGC570", "", "Gx", "01 29.0", "-00 57"],
+    ["NGC571", "", "Gx", "01 29.9", "+32 30"],
+    ["NGC572", "", "Gx", "01 28.6", "-39 18"],
+    ["NGC573", "", "Gx", "01 30.8", "+41 15"],
+    ["NGC574", "", "Gx", "01 29.1", "-35 36"],
+    ["NGC575", "", "Gx", "01 30.8", "+21 26"],
+    ["NGC576", "", "Gx", "01 29.0", "-51 36"],
+    ["NGC577", "", "Gx", "01 30.7", "-02 00"],
+    ["NGC578", "", "Gx", "01 30.5", "-22 40"],
+    ["NGC579", "", "Gx", "01 31.8", "+33 37"],
+    ["NGC582", "", "Gx", "01 32.0", "+33 29"],
+    ["NGC583", "", "Gx", "01 29.7", "-18 20"],
+    ["NGC584", "Little Spindle Galaxy", "Gx", "01 31.3", "-06 52"],
+    ["NGC585", "", "Gx", "01 31.7", "-00 56"],
+    ["NGC586", "", "Gx", "01 31.6", "-06 54"],
+    ["NGC587", "", "Gx", "01 32.6", "+35 22"],
+    ["NGC588", "", "Neb", "01 32.8", "+30 39"],
+    ["NGC589", "", "Gx", "01 32.7", "-12 03"],
+    ["NGC590", "", "Gx", "01 33.7", "+44 56"],
+    ["NGC591", "", "Gx", "01 33.5", "+35 40"],
+    ["NGC593", "", "Gx", "01 32.3", "-12 21"],
+    ["NGC594", "", "Gx", "01 32.9", "-16 32"],
+    ["NGC596", "", "Gx", "01 32.9", "-07 02"],
+    ["NGC597", "", "Gx", "01 32.2", "-33 30"],
+    ["NGC599", "", "Gx", "01 32.9", "-12 11"],
+    ["NGC600", "", "Gx", "01 33.1", "-07 19"],
+    ["NGC602", "", "OC", "01 29.5", "-73 34"],
+    ["NGC605", "", "Gx", "01 35.0", "+41 15"],
+    ["NGC606", "", "Gx", "01 34.8", "+21 25"],
+    ["NGC608", "", "Gx", "01 35.5", "+33 39"],
+    ["NGC609", "", "OC", "01 36.4", "+64 32"],
+    ["NGC612", "", "Gx", "01 34.0", "-36 30"],
+    ["NGC613", "", "Gx", "01 34.3", "-29 25"],
+    ["NGC614", "", "Gx", "01 35.9", "+33 41"],
+    ["NGC615", "", "Gx", "01 35.1", "-07 20"],
+    ["NGC617", "", "Gx", "01 34.0", "-09 46"],
+    ["NGC619", "", "Gx", "01 34.9", "-36 29"],
+    ["NGC620", "", "Gx", "01 37.0", "+42 19"],
+    ["NGC621", "", "Gx", "01 36.8", "+35 31"],
+    ["NGC622", "", "Gx", "01 36.0", "+00 40"],
+    ["NGC623", "", "Gx", "01 35.1", "-36 29"],
+    ["NGC624", "", "Gx", "01 35.9", "-10 00"],
+    ["NGC625", "", "Gx", "01 35.1", "-41 26"],
+    ["NGC626", "", "Gx", "01 35.2", "-39 09"],
+    ["NGC630", "", "Gx", "01 35.6", "-39 21"],
+    ["NGC631", "", "Gx", "01 36.8", "+05 50"],
+    ["NGC632", "", "Gx", "01 37.3", "+05 53"],
+    ["NGC633", "", "Gx", "01 36.4", "-37 19"],
+    ["NGC634", "", "Gx", "01 38.3", "+35 22"],
+    ["NGC636", "", "Gx", "01 39.1", "-07 31"],
+    ["NGC637", "", "OC", "01 43.1", "+64 02"],
+    ["NGC638", "", "Gx", "01 39.6", "+07 14"],
+    ["NGC639", "", "Gx", "01 39.0", "-29 55"],
+    ["NGC640", "", "Gx", "01 39.4", "-09 24"],
+    ["NGC641", "", "Gx", "01 38.7", "-42 32"],
+    ["NGC642", "", "Gx", "01 39.1", "-29 55"],
+    ["NGC643", "", "OC", "01 35.0", "-75 33"],
+    ["NGC644", "", "Gx", "01 38.9", "-42 35"],
+    ["NGC645", "", "Gx", "01 40.1", "+05 44"],
+    ["NGC646", "", "Gx", "01 37.4", "-64 54"],
+    ["NGC647", "", "Gx", "01 39.9", "-09 15"],
+    ["NGC648", "", "Gx", "01 38.7", "-17 50"],
+    ["NGC649", "", "Gx", "01 40.1", "-09 16"],
+    ["NGC651", "Little Dumbbell Nebula", "PN", "01 42.3", "+51 35"],
+    ["NGC652", "", "Gx", "01 40.7", "+07 59"],
+    ["NGC653", "", "Gx", "01 42.4", "+35 38"],
+    ["NGC654", "Fuzzy Butterfly Cluster", "OC", "01 44.0", "+61 53"],
+    ["NGC655", "", "Gx", "01 41.9", "-13 05"],
+    ["NGC656", "", "Gx", "01 42.5", "+26 09"],
+    ["NGC658", "", "Gx", "01 42.2", "+12 36"],
+    ["NGC659", "Yin-Yang Cluster", "OC", "01 44.4", "+60 40"],
+    ["NGC660", "", "Gx", "01 43.0", "+13 39"],
+    ["NGC661", "", "Gx", "01 44.2", "+28 42"],
+    ["NGC662", "", "Gx", "01 44.6", "+37 42"],
+    ["NGC663", "Lawnmower Cluster", "OC", "01 46.1", "+61 14"],
+    ["NGC664", "", "Gx", "01 43.8", "+04 13"],
+    ["NGC665", "", "Gx", "01 44.9", "+10 25"],
+    ["NGC666", "", "Gx", "01 46.1", "+34 22"],
+    ["NGC667", "", "Gx", "01 44.9", "-22 55"],
+    ["NGC668", "", "Gx", "01 46.4", "+36 28"],
+    ["NGC669", "", "Gx", "01 47.3", "+35 34"],
+    ["NGC670", "", "Gx", "01 47.4", "+27 53"],
+    ["NGC671", "", "Gx", "01 47.0", "+13 08"],
+    ["NGC672", "", "Gx", "01 47.9", "+27 26"],
+    ["NGC673", "", "Gx", "01 48.4", "+11 31"],
+    ["NGC675", "", "Gx", "01 49.1", "+13 04"],
+    ["NGC676", "", "Gx", "01 49.0", "+05 54"],
+    ["NGC677", "", "Gx", "01 49.2", "+13 03"],
+    ["NGC678", "", "Gx", "01 49.4", "+22 00"],
+    ["NGC679", "", "Gx", "01 49.7", "+35 47"],
+    ["NGC680", "", "Gx", "01 49.8", "+21 58"],
+    ["NGC681", "", "Gx", "01 49.2", "-10 26"],
+    ["NGC682", "", "Gx", "01 49.1", "-14 58"],
+    ["NGC683", "", "Gx", "01 49.8", "+11 42"],
+    ["NGC684", "", "Gx", "01 50.2", "+27 39"],
+    ["NGC685", "", "Gx", "01 47.7", "-52 46"],
+    ["NGC686", "", "Gx", "01 48.9", "-23 48"],
+    ["NGC687", "", "Gx", "01 50.6", "+36 22"],
+    ["NGC688", "", "Gx", "01 50.7", "+35 17"],
+    ["NGC689", "", "Gx", "01 49.9", "-27 28"],
+    ["NGC690", "", "Gx", "01 47.8", "-16 43"],
+    ["NGC691", "", "Gx", "01 50.7", "+21 46"],
+    ["NGC692", "", "Gx", "01 48.7", "-48 39"],
+    ["NGC693", "", "Gx", "01 50.5", "+06 09"],
+    ["NGC694", "", "Gx", "01 51.0", "+22 00"],
+    ["NGC695", "", "Gx", "01 51.2", "+22 35"],
+    ["NGC696", "", "Gx", "01 49.5", "-34 54"],
+    ["NGC697", "", "Gx", "01 51.3", "+22 21"],
+    ["NGC698", "", "Gx", "01 49.7", "-34 50"],
+    ["NGC699", "", "Gx", "01 50.7", "-12 02"],
+    ["NGC700", "", "Gx", "01 52.2", "+36 06"],
+    ["NGC701", "", "Gx", "01 51.1", "-09 42"],
+    ["NGC702", "", "Gx", "01 51.3", "-04 03"],
+    ["NGC703", "", "Gx", "01 52.7", "+36 10"],
+    ["NGC704", "", "Gx", "01 52.6", "+36 08"],
+    ["NGC705", "", "Gx", "01 52.7", "+36 09"],
+    ["NGC706", "", "Gx", "01 51.8", "+06 18"],
+    ["NGC707", "", "Gx", "01 51.5", "-08 30"],
+    ["NGC708", "", "Gx", "01 52.8", "+36 09"],
+    ["NGC709", "", "Gx", "01 52.8", "+36 13"],
+    ["NGC710", "", "Gx", "01 52.9", "+36 03"],
+    ["NGC711", "", "Gx", "01 52.5", "+17 31"],
+    ["NGC712", "", "Gx", "01 53.1", "+36 49"],
+    ["NGC713", "", "Gx", "01 55.4", "-09 05"],
+    ["NGC714", "", "Gx", "01 53.5", "+36 13"],
+    ["NGC715", "", "Gx", "01 53.2", "-12 52"],
+    ["NGC716", "", "Gx", "01 53.0", "+12 43"],
+    ["NGC717", "", "Gx", "01 53.9", "+36 14"],
+    ["NGC718", "", "Gx", "01 53.2", "+04 12"],
+    ["NGC719", "", "Gx", "01 53.6", "+19 50"],
+    ["NGC720", "", "Gx", "01 53.0", "-13 44"],
+    ["NGC721", "", "Gx", "01 54.8", "+39 23"],
+    ["NGC722", "", "Gx", "01 54.8", "+20 42"],
+    ["NGC723", "", "Gx", "01 53.8", "-23 45"],
+    ["NGC725", "", "Gx", "01 52.6", "-16 31"],
+    ["NGC726", "", "Gx", "01 55.5", "-10 48"],
+    ["NGC727", "", "Gx", "01 53.8", "-35 51"],
+    ["NGC731", "", "Gx", "01 54.9", "-09 01"],
+    ["NGC732", "", "Gx", "01 56.5", "+36 48"],
+    ["NGC733", "", "Gx", "01 56.4", "+33 04"],
+    ["NGC734", "", "Gx", "01 54.5", "-16 42"],
+    ["NGC735", "", "Gx", "01 56.6", "+34 11"],
+    ["NGC736", "", "Gx", "01 56.7", "+33 03"],
+    ["NGC738", "", "Gx", "01 56.8", "+33 03"],
+    ["NGC739", "", "Gx", "01 56.9", "+33 16"],
+    ["NGC740", "", "Gx", "01 56.9", "+33 01"],
+    ["NGC741", "", "Gx", "01 56.3", "+05 38"],
+    ["NGC742", "", "Gx", "01 56.4", "+05 38"],
+    ["NGC744", "", "OC", "01 58.6", "+55 28"],
+    ["NGC745", "", "Gx", "01 54.1", "-56 41"],
+    ["NGC746", "", "Gx", "01 57.8", "+44 55"],
+    ["NGC747", "", "Gx", "01 57.5", "-09 28"],
+    ["NGC748", "", "Gx", "01 56.4", "-04 28"],
+    ["NGC749", "", "Gx", "01 55.7", "-29 55"],
+    ["NGC750", "", "Gx", "01 57.5", "+33 13"],
+    ["NGC751", "", "Gx", "01 57.5", "+33 12"],
+    ["NGC753", "", "Gx", "01 57.7", "+35 55"],
+    ["NGC754", "", "Gx", "01 54.3", "-56 46"],
+    ["NGC755", "", "Gx", "01 56.4", "-09 04"],
+    ["NGC758", "", "Gx", "01 55.7", "-03 04"],
+    ["NGC759", "", "Gx", "01 57.8", "+36 21"],
+    ["NGC760", "", "Gx", "01 57.8", "+33 21"],
+    ["NGC761", "", "Gx", "01 57.8", "+33 23"],
+    ["NGC762", "", "Gx", "01 57.0", "-05 24"],
+    ["NGC765", "", "Gx", "01 58.8", "+24 54"],
+    ["NGC766", "", "Gx", "01 58.7", "+08 21"],
+    ["NGC767", "", "Gx", "01 58.8", "-09 35"],
+    ["NGC768", "", "Gx", "01 58.7", "+00 32"],
+    ["NGC769", "", "Gx", "01 59.6", "+30 55"],
+    ["NGC770", "", "Gx", "01 59.2", "+18 57"],
+    ["NGC772", "Fiddlehead Galaxy", "Gx", "01 59.3", "+19 00"],
+    ["NGC773", "", "Gx", "01 58.9", "-11 31"],
+    ["NGC774", "", "Gx", "01 59.6", "+14 00"],
+    ["NGC775", "", "Gx", "01 58.5", "-26 18"],
+    ["NGC777", "", "Gx", "02 00.2", "+31 26"],
+    ["NGC778", "", "Gx", "02 00.3", "+31 19"],
+    ["NGC779", "", "Gx", "01 59.7", "-05 58"],
+    ["NGC780", "", "Gx", "02 00.6", "+28 14"],
+    ["NGC781", "", "Gx", "02 00.2", "+12 39"],
+    ["NGC782", "", "Gx", "01 57.7", "-57 47"],
+    ["NGC783", "", "Gx", "02 01.1", "+31 53"],
+    ["NGC784", "", "Gx", "02 01.3", "+28 50"],
+    ["NGC785", "", "Gx", "02 01.7", "+31 50"],
+    ["NGC786", "", "Gx", "02 01.4", "+15 39"],
+    ["NGC787", "", "Gx", "02 00.8", "-09 00"],
+    ["NGC788", "", "Gx", "02 01.1", "-06 49"],
+    ["NGC789", "", "Gx", "02 02.4", "+32 04"],
+    ["NGC790", "", "Gx", "02 01.4", "-05 22"],
+    ["NGC791", "", "Gx", "02 01.7", "+08 30"],
+    ["NGC792", "", "Gx", "02 02.3", "+15 43"],
+    ["NGC794", "", "Gx", "02 02.5", "+18 22"],
+    ["NGC795", "", "Gx", "01 59.8", "-55 49"],
+    ["NGC796", "", "OC", "01 56.7", "-74 13"],
+    ["NGC797", "", "Gx", "02 03.5", "+38 07"],
+    ["NGC798", "", "Gx", "02 03.3", "+32 05"],
+    ["NGC799", "", "Gx", "02 02.2", "-00 06"],
+    ["NGC800", "", "Gx", "02 02.2", "-00 08"],
+    ["NGC801", "", "Gx", "02 03.7", "+38 16"],
+    ["NGC802", "", "Gx", "01 59.1", "-67 52"],
+    ["NGC803", "", "Gx", "02 03.7", "+16 02"],
+    ["NGC804", "", "Gx", "02 04.0", "+30 50"],
+    ["NGC805", "", "Gx", "02 04.5", "+28 49"],
+    ["NGC806", "", "Gx", "02 03.5", "-09 56"],
+    ["NGC807", "", "Gx", "02 04.9", "+28 59"],
+    ["NGC808", "", "Gx", "02 03.9", "-23 19"],
+    ["NGC809", "", "Gx", "02 04.3", "-08 44"],
+    ["NGC810", "", "Gx", "02 05.5", "+13 15"],
+    ["NGC811", "", "Gx", "02 04.6", "-10 07"],
+    ["NGC812", "", "Gx", "02 06.9", "+44 34"],
+    ["NGC813", "", "Gx", "02 01.6", "-68 26"],
+    ["NGC814", "", "Gx", "02 10.6", "-15 46"],
+    ["NGC815", "", "Gx", "02 02.9", "-14 40"],
+    ["NGC816", "", "Gx", "02 08.1", "+29 15"],
+    ["NGC817", "", "Gx", "02 07.6", "+17 12"],
+    ["NGC818", "", "Gx", "02 08.7", "+38 47"],
+    ["NGC819", "", "Gx", "02 08.6", "+29 14"],
+    ["NGC820", "", "Gx", "02 08.4", "+14 21"],
+    ["NGC821", "", "Gx", "02 08.4", "+11 00"],
+    ["NGC822", "", "Gx", "02 06.7", "-41 09"],
+    ["NGC823", "", "Gx", "02 07.3", "-25 27"],
+    ["NGC824", "", "Gx", "02 06.9", "-36 27"],
+    ["NGC825", "", "Gx", "02 08.5", "+06 19"],
+    ["NGC826", "", "Gx", "02 09.4", "+30 44"],
+    ["NGC827", "", "Gx", "02 08.9", "+07 58"],
+    ["NGC828", "", "Gx", "02 10.2", "+39 11"],
+    ["NGC829", "", "Gx", "02 08.7", "-07 47"],
+    ["NGC830", "", "Gx", "02 09.0", "-07 46"],
+    ["NGC831", "", "Gx", "02 09.6", "+06 06"],
+    ["NGC833", "", "Gx", "02 09.3", "-10 08"],
+    ["NGC834", "", "Gx", "02 11.0", "+37 40"],
+    ["NGC835", "", "Gx", "02 09.4", "-10 08"],
+    ["NGC836", "", "Gx", "02 10.4", "-22 03"],
+    ["NGC837", "", "Gx", "02 10.3", "-22 26"],
+    ["NGC838", "", "Gx", "02 09.6", "-10 09"],
+    ["NGC839", "", "Gx", "02 09.7", "-10 11"],
+    ["NGC840", "", "Gx", "02 10.3", "+07 51"],
+    ["NGC841", "", "Gx", "02 11.3", "+37 30"],
+    ["NGC842", "", "Gx", "02 09.8", "-07 46"],
+    ["NGC844", "", "Gx", "02 10.2", "+06 03"],
+    ["NGC845", "", "Gx", "02 12.3", "+37 29"],
+    ["NGC846", "", "Gx", "02 12.2", "+44 34"],
+    ["NGC848", "", "Gx", "02 10.3", "-10 19"],
+    ["NGC849", "", "Gx", "02 10.2", "-22 19"],
+    ["NGC850", "", "Gx", "02 11.2", "-01 29"],
+    ["NGC851", "", "Gx", "02 11.2", "+03 47"],
+    ["NGC852", "", "Gx", "02 08.9", "-56 44"],
+    ["NGC853", "", "Gx", "02 11.7", "-09 18"],
+    ["NGC854", "", "Gx", "02 11.5", "-35 50"],
+    ["NGC855", "", "Gx", "02 14.1", "+27 53"],
+    ["NGC856", "", "Gx", "02 13.6", "-00 43"],
+    ["NGC857", "", "Gx", "02 12.6", "-31 57"],
+    ["NGC858", "", "Gx", "02 12.5", "-22 28"],
+    ["NGC860", "", "Gx", "02 15.0", "+30 47"],
+    ["NGC861", "", "Gx", "02 15.9", "+35 55"],
+    ["NGC862", "", "Gx", "02 13.0", "-42 02"],
+    ["NGC863", "", "Gx", "02 14.6", "-00 46"],
+    ["NGC864", "", "Gx", "02 15.5", "+06 00"],
+    ["NGC865", "", "Gx", "02 16.3", "+28 36"],
+    ["NGC868", "", "Gx", "02 16.0", "-00 43"],
+    ["NGC870", "", "Gx", "02 17.2", "+14 31"],
+    ["NGC871", "", "Gx", "02 17.2", "+14 33"],
+    ["NGC872", "", "Gx", "02 15.4", "-17 47"],
+    ["NGC873", "", "Gx", "02 16.5", "-11 21"],
+    ["NGC874", "", "Gx", "02 16.0", "-23 18"],
+    ["NGC875", "", "Gx", "02 17.1", "+01 15"],
+    ["NGC876", "", "Gx", "02 17.9", "+14 31"],
+    ["NGC877", "", "Gx", "02 18.0", "+14 33"],
+    ["NGC878", "", "Gx", "02 17.9", "-23 23"],
+    ["NGC879", "", "Gx", "02 16.9", "-08 58"],
+    ["NGC880", "", "Gx", "02 18.5", "-04 12"],
+    ["NGC881", "", "Gx", "02 18.8", "-06 38"],
+    ["NGC882", "", "Gx", "02 19.7", "+15 49"],
+    ["NGC883", "", "Gx", "02 19.1", "-06 47"],
+    ["NGC887", "", "Gx", "02 19.5", "-16 04"],
+    ["NGC888", "", "Gx", "02 17.5", "-59 52"],
+    ["NGC889", "", "Gx", "02 19.1", "-41 45"],
+    ["NGC890", "", "Gx", "02 22.0", "+33 16"],
+    ["NGC892", "", "Gx", "02 20.9", "-23 07"],
+    ["NGC893", "", "Gx", "02 20.0", "-41 24"],
+    ["NGC894", "", "Gx", "02 21.6", "-05 31"],
+    ["NGC897", "", "Gx", "02 21.1", "-33 43"],
+    ["NGC898", "", "Gx", "02 23.3", "+41 57"],
+    ["NGC899", "", "Gx", "02 21.9", "-20 49"],
+    ["NGC900", "", "Gx", "02 23.5", "+26 31"],
+    ["NGC902", "", "Gx", "02 22.4", "-16 41"],
+    ["NGC903", "", "Gx", "02 24.0", "+27 21"],
+    ["NGC904", "", "Gx", "02 24.1", "+27 21"],
+    ["NGC905", "", "Gx", "02 22.7", "-08 43"],
+    ["NGC906", "", "Gx", "02 25.3", "+42 05"],
+    ["NGC907", "", "Gx", "02 23.0", "-20 43"],
+    ["NGC908", "", "Gx", "02 23.1", "-21 14"],
+    ["NGC909", "", "Gx", "02 25.4", "+42 02"],
+    ["NGC910", "", "Gx", "02 25.4", "+41 49"],
+    ["NGC911", "", "Gx", "02 25.7", "+41 57"],
+    ["NGC912", "", "Gx", "02 25.7", "+41 47"],
+    ["NGC913", "", "Gx", "02 25.7", "+41 48"],
+    ["NGC914", "", "Gx", "02 26.1", "+42 09"],
+    ["NGC915", "", "Gx", "02 25.8", "+27 13"],
+    ["NGC916", "", "Gx", "02 25.8", "+27 15"],
+    ["NGC917", "", "Gx", "02 26.1", "+31 55"],
+    ["NGC918", "", "Gx", "02 25.8", "+18 30"],
+    ["NGC919", "", "Gx", "02 26.3", "+27 13"],
+    ["NGC920", "", "Gx", "02 27.9", "+45 57"],
+    ["NGC921", "", "Gx", "02 26.6", "-15 51"],
+    ["NGC922", "", "Gx", "02 25.1", "-24 47"],
+    ["NGC923", "", "Gx", "02 27.6", "+41 59"],
+    ["NGC924", "", "Gx", "02 26.8", "+20 30"],
+    ["NGC925", "", "Gx", "02 27.3", "+33 35"],
+    ["NGC926", "", "Gx", "02 26.1", "-00 20"],
+    ["NGC927", "", "Gx", "02 26.6", "+12 09"],
+    ["NGC928", "", "Gx", "02 27.7", "+27 13"],
+    ["NGC929", "", "Gx", "02 27.3", "-12 05"],
+    ["NGC930", "", "Gx", "02 27.9", "+20 20"],
+    ["NGC931", "", "Gx", "02 28.2", "+31 19"],
+    ["NGC933", "", "Gx", "02 29.3", "+45 55"],
+    ["NGC934", "", "Gx", "02 27.5", "-00 15"],
+    ["NGC935", "", "Gx", "02 28.2", "+19 36"],
+    ["NGC936", "Darth Vader's Starfighter", "Gx", "02 27.6", "-01 09"],
+    ["NGC937", "", "Gx", "02 29.5", "+42 15"],
+    ["NGC938", "", "Gx", "02 28.6", "+20 17"],
+    ["NGC939", "", "Gx", "02 26.4", "-44 27"],
+    ["NGC940", "", "Gx", "02 29.5", "+31 38"],
+    ["NGC941", "", "Gx", "02 28.5", "-01 09"],
+    ["NGC942", "", "Gx", "02 29.2", "-10 50"],
+    ["NGC943", "", "Gx", "02 29.2", "-10 50"],
+    ["NGC944", "", "Gx", "02 26.7", "-14 31"],
+    ["NGC945", "", "Gx", "02 28.6", "-10 32"],
+    ["NGC946", "", "Gx", "02 30.6", "+42 14"],
+    ["NGC947", "", "Gx", "02 28.6", "-19 03"],
+    ["NGC948", "", "Gx", "02 28.8", "-10 31"],
+    ["NGC949", "", "Gx", "02 30.8", "+37 08"],
+    ["NGC950", "", "Gx", "02 29.2", "-11 01"],
+    ["NGC951", "", "Gx", "02 28.9", "-22 21"],
+    ["NGC953", "", "Gx", "02 31.2", "+29 35"],
+    ["NGC954", "", "Gx", "02 28.9", "-41 24"],
+    ["NGC955", "", "Gx", "02 30.6", "-01 07"],
+    ["NGC956", "", "OC", "02 32.3", "+44 34"],
+    ["NGC957", "", "OC", "02 33.4", "+57 34"],
+    ["NGC958", "", "Gx", "02 30.7", "-02 56"],
+    ["NGC959", "", "Gx", "02 32.4", "+35 30"],
+    ["NGC960", "", "Gx", "02 31.7", "-09 18"],
+    ["NGC962", "", "Gx", "02 32.7", "+28 04"],
+    ["NGC963", "", "Gx", "02 30.5", "-04 13"],
+    ["NGC964", "", "Gx", "02 31.1", "-36 02"],
+    ["NGC965", "", "Gx", "02 32.4", "-18 38"],
+    ["NGC966", "", "Gx", "02 31.8", "-19 53"],
+    ["NGC967", "", "Gx", "02 32.2", "-17 13"],
+    ["NGC968", "", "Gx", "02 34.1", "+34 29"],
+    ["NGC969", "", "Gx", "02 34.1", "+32 57"],
+    ["NGC970", "", "Gx", "02 34.2", "+32 59"],
+    ["NGC971", "", "Gx", "02 34.2", "+32 59"],
+    ["NGC972", "", "Gx", "02 34.2", "+29 19"],
+    ["NGC973", "", "Gx", "02 34.3", "+32 30"],
+    ["NGC974", "", "Gx", "02 34.4", "+32 57"],
+    ["NGC975", "", "Gx", "02 33.4", "+09 36"],
+    ["NGC976", "", "Gx", "02 34.0", "+20 59"],
+    ["NGC977", "", "Gx", "02 33.1", "-10 46"],
+    ["NGC978", "", "Gx", "02 34.8", "+32 51"],
+    ["NGC979", "", "Gx", "02 31.6", "-44 31"],
+    ["NGC980", "", "Gx", "02 35.3", "+40 56"],
+    ["NGC981", "", "Gx", "02 33.0", "-10 58"],
+    ["NGC982", "", "Gx", "02 35.4", "+40 52"],
+    ["NGC984", "", "Gx", "02 34.7", "+23 25"],
+    ["NGC985", "", "Gx", "02 34.6", "-08 47"],
+    ["NGC986", "", "Gx", "02 33.6", "-39 03"],
+    ["NGC987", "", "Gx", "02 36.8", "+33 20"],
+    ["NGC988", "", "Gx", "02 35.5", "-09 21"],
+    ["NGC989", "", "Gx", "02 33.8", "-16 31"],
+    ["NGC990", "", "Gx", "02 36.3", "+11 39"],
+    ["NGC991", "", "Gx", "02 35.5", "-07 09"],
+    ["NGC992", "", "Gx", "02 37.4", "+21 06"],
+    ["NGC993", "", "Gx", "02 36.8", "+02 03"],
+    ["NGC995", "", "Gx", "02 38.5", "+41 32"],
+    ["NGC996", "", "Gx", "02 38.7", "+41 39"],
+    ["NGC997", "", "Gx", "02 37.2", "+07 18"],
+    ["NGC998", "", "Gx", "02 37.3", "+07 20"],
+    ["NGC999", "", "Gx", "02 38.8", "+41 40"],
+    ["NGC1000", "", "Gx", "02 38.8", "+41 28"],
+    ["NGC1001", "", "Gx", "02 39.2", "+41 40"],
+    ["NGC1002", "", "Gx", "02 38.9", "+34 37"],
+    ["NGC1003", "", "Gx", "02 39.3", "+40 52"],
+    ["NGC1004", "", "Gx", "02 37.7", "+01 59"],
+    ["NGC1005", "", "Gx", "02 39.5", "+41 30"],
+    ["NGC1006", "", "Gx", "02 37.6", "-11 02"],
+    ["NGC1007", "", "Gx", "02 37.8", "+02 09"],
+    ["NGC1008", "", "Gx", "02 37.9", "+02 05"],
+    ["NGC1009", "", "Gx", "02 38.3", "+02 19"],
+    ["NGC1010", "", "Gx", "02 37.5", "-11 01"],
+    ["NGC1011", "", "Gx", "02 37.6", "-11 00"],
+    ["NGC1012", "", "Gx", "02 39.2", "+30 09"],
+    ["NGC1013", "", "Gx", "02 37.8", "-11 30"],
+    ["NGC1015", "", "Gx", "02 38.2", "-01 19"],
+    ["NGC1016", "", "Gx", "02 38.3", "+02 07"],
+    ["NGC1017", "", "Gx", "02 37.9", "-11 00"],
+    ["NGC1018", "", "Gx", "02 38.2", "-09 33"],
+    ["NGC1019", "", "Gx", "02 38.5", "+01 54"],
+    ["NGC1020", "", "Gx", "02 38.7", "+02 14"],
+    ["NGC1021", "", "Gx", "02 38.8", "+02 13"],
+    ["NGC1022", "", "Gx", "02 38.5", "-06 41"],
+    ["NGC1023", "Perseus Lenticular Galaxy", "Gx", "02 40.4", "+39 04"],
+    ["NGC1024", "", "Gx", "02 39.2", "+10 51"],
+    ["NGC1025", "", "Gx", "02 36.3", "-54 52"],
+    ["NGC1026", "", "Gx", "02 39.3", "+06 33"],
+    ["NGC1027", "", "OC", "02 42.7", "+61 38"],
+    ["NGC1028", "", "Gx", "02 39.6", "+10 51"],
+    ["NGC1029", "", "Gx", "02 39.6", "+10 48"],
+    ["NGC1030", "", "Gx", "02 39.8", "+18 01"],
+    ["NGC1031", "", "Gx", "02 36.6", "-54 52"],
+    ["NGC1032", "", "Gx", "02 39.4", "+01 06"],
+    ["NGC1033", "", "Gx", "02 40.3", "-08 47"],
+    ["NGC1034", "", "Gx", "02 38.2", "-15 49"],
+    ["NGC1035", "", "Gx", "02 39.5", "-08 08"],
+    ["NGC1036", "", "Gx", "02 40.5", "+19 18"],
+    ["NGC1037", "", "Gx", "02 38.0", "-01 51"],
+    ["NGC1038", "", "Gx", "02 40.1", "+01 31"],
+    ["NGC1041", "", "Gx", "02 40.4", "-05 26"],
+    ["NGC1042", "", "Gx", "02 40.4", "-08 26"],
+    ["NGC1043", "", "Gx", "02 40.8", "+01 21"],
+    ["NGC1044", "", "Gx", "02 41.1", "+08 44"],
+    ["NGC1045", "", "Gx", "02 40.5", "-11 17"],
+    ["NGC1046", "", "Gx", "02 41.2", "+08 43"],
+    ["NGC1047", "", "Gx", "02 40.5", "-08 09"],
+    ["NGC1048", "", "Gx", "02 40.6", "-08 32"],
+    ["NGC1049", "Fornax Dwarf Cluster 3", "GC", "02 39.8", "-34 15"],
+    ["NGC1050", "", "Gx", "02 42.6", "+34 46"],
+    ["NGC1051", "", "Gx", "02 41.0", "-06 56"],
+    ["NGC1052", "", "Gx", "02 41.1", "-08 15"],
+    ["NGC1053", "", "Gx", "02 43.2", "+41 30"],
+    ["NGC1054", "", "Gx", "02 42.3", "+18 13"],
+    ["NGC1055", "", "Gx", "02 41.8", "+00 27"],
+    ["NGC1056", "", "Gx", "02 42.8", "+28 34"],
+    ["NGC1057", "", "Gx", "02 43.0", "+32 29"],
+    ["NGC1058", "", "Gx", "02 43.5", "+37 20"],
+    ["NGC1060", "", "Gx", "02 43.3", "+32 26"],
+    ["NGC1061", "", "Gx", "02 43.3", "+32 28"],
+    ["NGC1062", "", "Gx", "02 43.7", "+32 30"],
+    ["NGC1063", "", "Gx", "02 42.2", "-05 34"],
+    ["NGC1064", "", "Gx", "02 42.4", "-09 22"],
+    ["NGC1065", "", "Gx", "02 42.1", "-15 05"],
+    ["NGC1066", "", "Gx", "02 43.8", "+32 28"],
+    ["NGC1067", "", "Gx", "02 43.8", "+32 31"],
+    ["NGC1069", "", "Gx", "02 43.0", "-08 17"],
+    ["NGC1070", "", "Gx", "02 43.4", "+04 58"],
+    ["NGC1071", "", "Gx", "02 43.1", "-08 46"],
+    ["NGC1072", "", "Gx", "02 43.5", "+00 18"],
+    ["NGC1073", "", "Gx", "02 43.7", "+01 23"],
+    ["NGC1074", "", "Gx", "02 43.6", "-16 18"],
+    ["NGC1075", "", "Gx", "02 43.6", "-16 12"],
+    ["NGC1076", "", "Gx", "02 43.5", "-14 45"],
+    ["NGC1077", "", "Gx", "02 46.0", "+40 05"],
+    ["NGC1078", "", "Gx", "02 44.1", "-09 27"],
+    ["NGC1079", "", "Gx", "02 43.7", "-29 00"],
+    ["NGC1080", "", "Gx", "02 45.2", "-04 43"],
+    ["NGC1081", "", "Gx", "02 45.1", "-15 35"],
+    ["NGC1082", "", "Gx", "02 45.7", "-08 11"],
+    ["NGC1083", "", "Gx", "02 45.7", "-15 21"],
+    ["NGC1084", "", "Gx", "02 46.0", "-07 35"],
+    ["NGC1085", "", "Gx", "02 46.4", "+03 36"],
+    ["NGC1086", "", "Gx", "02 47.9", "+41 15"],
+    ["NGC1087", "", "Gx", "02 46.4", "-00 30"],
+    ["NGC1088", "", "Gx", "02 47.1", "+16 12"],
+    ["NGC1089", "", "Gx", "02 46.2", "-15 04"],
+    ["NGC1090", "", "Gx", "02 46.6", "-00 15"],
+    ["NGC1091", "", "Gx", "02 45.4", "-17 32"],
+    ["NGC1092", "", "Gx", "02 45.5", "-17 33"],
+    ["NGC1093", "", "Gx", "02 48.3", "+34 25"],
+    ["NGC1094", "", "Gx", "02 47.5", "-00 17"],
+    ["NGC1095", "", "Gx", "02 47.6", "+04 38"],
+    ["NGC1096", "", "Gx", "02 43.8", "-59 55"],
+    ["NGC1097", "", "Gx", "02 46.3", "-30 16"],
+    ["NGC1098", "", "Gx", "02 44.9", "-17 40"],
+    ["NGC1099", "", "Gx", "02 45.3", "-17 43"],
+    ["NGC1100", "", "Gx", "02 45.6", "-17 41"],
+    ["NGC1101", "", "Gx", "02 48.2", "+04 35"],
+    ["NGC1102", "", "Gx", "02 47.2", "-22 13"],
+    ["NGC1103", "", "Gx", "02 48.1", "-13 57"],
+    ["NGC1104", "", "Gx", "02 48.6", "-00 16"],
+    ["NGC1105", "", "Gx", "02 52.3", "-15 43"],
+    ["NGC1106", "", "Gx", "02 50.7", "+41 40"],
+    ["NGC1107", "", "Gx", "02 49.3", "+08 06"],
+    ["NGC1108", "", "Gx", "02 48.6", "-07 57"],
+    ["NGC1109", "", "Gx", "02 47.7", "+13 15"],
+    ["NGC1111", "", "Gx", "02 49.8", "+13 09"],
+    ["NGC1112", "", "Gx", "02 49.0", "+13 13"],
+    ["NGC1114", "", "Gx", "02 49.1", "-17 00"],
+    ["NGC1115", "", "Gx", "02 50.4", "+13 16"],
+    ["NGC1116", "", "Gx", "02 50.6", "+13 20"],
+    ["NGC1117", "", "Gx", "02 51.2", "+13 11"],
+    ["NGC1118", "", "Gx", "02 50.0", "-12 10"],
+    ["NGC1119", "", "Gx", "02 48.3", "-17 59"],
+    ["NGC1120", "", "Gx", "02 49.6", "-14 28"],
+    ["NGC1121", "", "Gx", "02 50.7", "-01 44"],
+    ["NGC1122", "", "Gx", "02 52.9", "+42 12"],
+    ["NGC1124", "", "Gx", "02 51.6", "-25 42"],
+    ["NGC1125", "", "Gx", "02 51.7", "-16 39"],
+    ["NGC1126", "", "Gx", "02 52.3", "-01 18"],
+    ["NGC1127", "", "Gx", "02 52.9", "+13 15"],
+    ["NGC1128", "", "Gx", "02 57.7", "+06 01"],
+    ["NGC1129", "", "Gx", "02 54.5", "+41 35"],
+    ["NGC1130", "", "Gx", "02 54.4", "+41 36"],
+    ["NGC1131", "", "Gx", "02 54.7", "+41 32"],
+    ["NGC1132", "", "Gx", "02 52.9", "-01 16"],
+    ["NGC1133", "", "Gx", "02 52.7", "-08 48"],
+    ["NGC1134", "", "Gx", "02 53.7", "+13 01"],
+    ["NGC1135", "", "Gx", "02 50.8", "-54 56"],
+    ["NGC1136", "", "Gx", "02 50.9", "-54 59"],
+    ["NGC1137", "", "Gx", "02 54.0", "+02 58"],
+    ["NGC1138", "", "Gx", "02 56.6", "+43 03"],
+    ["NGC1139", "", "Gx", "02 52.8", "-14 32"],
+    ["NGC1140", "", "Gx", "02 54.6", "-10 02"],
+    ["NGC1142", "", "Gx", "02 55.2", "-00 11"],
+    ["NGC1143", "", "Gx", "02 55.2", "-00 11"],
+    ["NGC1145", "", "Gx", "02 54.6", "-18 38"],
+    ["NGC1148", "", "Gx", "02 57.1", "-07 41"],
+    ["NGC1149", "", "Gx", "02 57.4", "-00 19"],
+    ["NGC1150", "", "Gx", "02 57.0", "-15 03"],
+    ["NGC1151", "", "Gx", "02 57.1", "-15 01"],
+    ["NGC1152", "", "Gx", "02 57.6", "-07 46"],
+    ["NGC1153", "", "Gx", "02 58.2", "+03 22"],
+    ["NGC1154", "", "Gx", "02 58.1", "-10 22"],
+    ["NGC1155", "", "Gx", "02 58.2", "-10 21"],
+    ["NGC1156", "", "Gx", "02 59.7", "+25 14"],
+    ["NGC1157", "", "Gx", "02 58.1", "-15 07"],
+    ["NGC1158", "", "Gx", "02 57.2", "-14 24"],
+    ["NGC1159", "", "Gx", "03 00.8", "+43 10"],
+    ["NGC1160", "", "Gx", "03 01.2", "+44 57"],
+    ["NGC1161", "", "Gx", "03 01.2", "+44 54"],
+    ["NGC1162", "", "Gx", "02 58.9", "-12 24"],
+    ["NGC1163", "", "Gx", "03 00.4", "-17 09"],
+    ["NGC1164", "", "Gx", "03 02.0", "+42 35"],
+    ["NGC1165", "", "Gx", "02 58.8", "-32 06"],
+    ["NGC1166", "", "Gx", "03 00.6", "+11 51"],
+    ["NGC1167", "", "Gx", "03 01.7", "+35 12"],
+    ["NGC1168", "", "Gx", "03 00.8", "+11 46"],
+    ["NGC1169", "", "Gx", "03 03.6", "+46 23"],
+    ["NGC1171", "", "Gx", "03 04.0", "+43 24"],
+    ["NGC1172", "", "Gx", "03 01.6", "-14 50"],
+    ["NGC1175", "", "Gx", "03 04.5", "+42 20"],
+    ["NGC1177", "", "Gx", "03 04.6", "+42 22"],
+    ["NGC1179", "", "Gx", "03 02.6", "-18 54"],
+    ["NGC1180", "", "Gx", "03 01.9", "-15 02"],
+    ["NGC1181", "", "Gx", "03 01.7", "-15 03"],
+    ["NGC1182", "", "Gx", "03 03.5", "-09 40"],
+    ["NGC1184", "", "Gx", "03 16.7", "+80 48"],
+    ["NGC1185", "", "Gx", "03 03.0", "-09 08"],
+    ["NGC1186", "", "Gx", "03 05.5", "+42 50"],
+    ["NGC1187", "", "Gx", "03 02.6", "-22 52"],
+    ["NGC1188", "", "Gx", "03 03.7", "-15 29"],
+    ["NGC1189", "", "Gx", "03 03.4", "-15 37"],
+    ["NGC1190", "", "Gx", "03 03.4", "-15 40"],
+    ["NGC1191", "", "Gx", "03 03.5", "-15 41"],
+    ["NGC1192", "", "Gx", "03 03.6", "-15 41"],
+    ["NGC1193", "", "OC", "03 05.9", "+44 23"],
+    ["NGC1194", "", "Gx", "03 03.8", "-01 06"],
+    ["NGC1195", "", "Gx", "03 03.5", "-12 02"],
+    ["NGC1196", "", "Gx", "03 03.6", "-12 05"],
+    ["NGC1198", "", "Gx", "03 06.2", "+41 51"],
+    ["NGC1199", "", "Gx", "03 03.6", "-15 37"],
+    ["NGC1200", "", "Gx", "03 03.9", "-12 00"],
+    ["NGC1201", "", "Gx", "03 04.1", "-26 04"],
+    ["NGC1202", "", "Gx", "03 05.0", "-06 29"],
+    ["NGC1204", "", "Gx", "03 04.7", "-12 20"],
+    ["NGC1206", "", "Gx", "03 06.2", "-08 50"],
+    ["NGC1207", "", "Gx", "03 08.3", "+38 23"],
+    ["NGC1208", "", "Gx", "03 06.2", "-09 32"],
+    ["NGC1209", "", "Gx", "03 06.1", "-15 37"],
+    ["NGC1210", "", "Gx", "03 06.8", "-25 43"],
+    ["NGC1211", "", "Gx", "03 06.9", "-00 48"],
+    ["NGC1212", "", "Gx", "03 08.7", "+40 52"],
+    ["NGC1213", "", "Gx", "03 09.3", "+38 39"],
+    ["NGC1214", "", "Gx", "03 06.9", "-09 33"],
+    ["NGC1215", "", "Gx", "03 07.2", "-09 36"],
+    ["NGC1216", "", "Gx", "03 07.3", "-09 37"],
+    ["NGC1217", "", "Gx", "03 06.1", "-39 02"],
+    ["NGC1218", "", "Gx", "03 08.4", "+04 07"],
+    ["NGC1219", "", "Gx", "03 08.5", "+02 07"],
+    ["NGC1220", "", "OC", "03 11.7", "+53 21"],
+    ["NGC1221", "", "Gx", "03 08.3", "-04 16"],
+    ["NGC1222", "", "Gx", "03 08.9", "-02 57"],
+    ["NGC1223", "", "Gx", "03 08.3", "-04 08"],
+    ["NGC1224", "", "Gx", "03 11.2", "+41 22"],
+    ["NGC1225", "", "Gx", "03 08.8", "-04 06"],
+    ["NGC1226", "", "Gx", "03 11.1", "+35 23"],
+    ["NGC1227", "", "Gx", "03 11.1", "+35 19"],
+    ["NGC1228", "", "Gx", "03 08.2", "-22 55"],
+    ["NGC1229", "", "Gx", "03 08.2", "-22 58"],
+    ["NGC1230", "", "Gx", "03 08.3", "-22 59"],
+    ["NGC1231", "", "Gx", "03 06.5", "-15 34"],
+    ["NGC1232", "Eye of God Galaxy", "Gx", "03 09.8", "-20 35"],
+    ["NGC1233", "", "Gx", "03 12.6", "+39 19"],
+    ["NGC1234", "", "Gx", "03 09.7", "-07 51"],
+    ["NGC1236", "", "Gx", "03 11.5", "+10 48"],
+    ["NGC1238", "", "Gx", "03 10.9", "-10 45"],
+    ["NGC1239", "", "Gx", "03 10.9", "-02 33"],
+    ["NGC1241", "", "Gx", "03 11.2", "-08 55"],
+    ["NGC1242", "", "Gx", "03 11.3", "-08 54"],
+    ["NGC1244", "", "Gx", "03 06.5", "-66 47"],
+    ["NGC1245", "Patrick Starfish Cluster", "OC", "03 14.8", "+47 15"],
+    ["NGC1246", "", "Gx", "03 07.0", "-66 56"],
+    ["NGC1247", "", "Gx", "03 12.2", "-10 29"],
+    ["NGC1248", "", "Gx", "03 12.8", "-05 13"],
+    ["NGC1249", "", "Gx", "03 10.0", "-53 20"],
+    ["NGC1250", "", "Gx", "03 15.4", "+41 21"],
+    ["NGC1253", "", "Gx", "03 14.2", "-02 49"],
+    ["NGC1254", "", "Gx", "03 14.4", "+02 41"],
+    ["NGC1255", "", "Gx", "03 13.5", "-25 44"],
+    ["NGC1256", "", "Gx", "03 14.0", "-21 59"],
+    ["NGC1258", "", "Gx", "03 14.1", "-21 46"],
+    ["NGC1259", "", "Gx", "03 17.3", "+41 23"],
+    ["NGC1260", "", "Gx", "03 17.5", "+41 24"],
+    ["NGC1261", "", "GC", "03 12.3", "-55 13"],
+    ["NGC1262", "", "Gx", "03 15.6", "-15 53"],
+    ["NGC1263", "", "Gx", "03 15.7", "-15 06"],
+    ["NGC1264", "", "Gx", "03 18.0", "+41 31"],
+    ["NGC1265", "", "Gx", "03 18.3", "+41 51"],
+    ["NGC1266", "", "Gx", "03 16.0", "-02 26"],
+    ["NGC1267", "", "Gx", "03 18.7", "+41 28"],
+    ["NGC1268", "", "Gx", "03 18.8", "+41 29"],
+    ["NGC1269", "Snow Collar Galaxy", "Gx", "03 17.3", "-41 06"],
+    ["NGC1270", "", "Gx", "03 19.0", "+41 28"],
+    ["NGC1271", "", "Gx", "03 19.2", "+41 21"],
+    ["NGC1272", "", "Gx", "03 19.4", "+41 29"],
+    ["NGC1273", "", "Gx", "03 19.4", "+41 32"],
+    ["NGC1274", "", "Gx", "03 19.7", "+41 33"],
+    ["NGC1275", "Perseus A", "Gx", "03 19.8", "+41 31"],
+    ["NGC1277", "", "Gx", "03 19.9", "+41 34"],
+    ["NGC1278", "", "Gx", "03 19.9", "+41 34"],
+    ["NGC1279", "", "Gx", "03 20.0", "+41 29"],
+    ["NGC1280", "", "Gx", "03 18.0", "-00 10"],
+    ["NGC1281", "", "Gx", "03 20.1", "+41 38"],
+    ["NGC1282", "", "Gx", "03 20.2", "+41 22"],
+    ["NGC1283", "", "Gx", "03 20.3", "+41 24"],
+    ["NGC1284", "", "Gx", "03 17.8", "-10 17"],
+    ["NGC1285", "", "Gx", "03 17.9", "-07 18"],
+    ["NGC1286", "", "Gx", "03 17.8", "-07 37"],
+    ["NGC1287", "", "Gx", "03 18.6", "-02 44"],
+    ["NGC1288", "", "Gx", "03 17.2", "-32 35"],
+    ["NGC1289", "", "Gx", "03 18.8", "-01 58"],
+    ["NGC1290", "", "Gx", "03 20.1", "-14 00"],
+    ["NGC1292", "", "Gx", "03 18.2", "-27 37"],
+    ["NGC1293", "", "Gx", "03 21.6", "+41 24"],
+    ["NGC1294", "", "Gx", "03 21.7", "+41 22"],
+    ["NGC1296", "", "Gx", "03 18.8", "-13 04"],
+    ["NGC1297", "", "Gx", "03 19.2", "-19 06"],
+    ["NGC1298", "", "Gx", "03 20.2", "-02 07"],
+    ["NGC1299", "", "Gx", "03 20.2", "-06 16"],
+    ["NGC1301", "", "Gx", "03 20.6", "-18 43"],
+    ["NGC1302", "", "Gx", "03 19.9", "-26 04"],
+    ["NGC1303", "", "Gx", "03 20.7", "-07 24"],
+    ["NGC1304", "", "Gx", "03 21.2", "-04 35"],
+    ["NGC1305", "", "Gx", "03 21.4", "-02 19"],
+    ["NGC1306", "", "Gx", "03 21.0", "-25 31"],
+    ["NGC1308", "", "Gx", "03 22.5", "-02 45"],
+    ["NGC1309", "", "Gx", "03 22.1", "-15 24"],
+    ["NGC1310", "", "Gx", "03 21.1", "-37 06"],
+    ["NGC1311", "", "Gx", "03 20.1", "-52 11"],
+    ["NGC1312", "", "Gx", "03 23.5", "+01 19"],
+    ["NGC1313", "", "Gx", "03 18.3", "-66 30"],
+    ["NGC1314", "", "Gx", "03 22.7", "-04 11"],
+    ["NGC1315", "", "Gx", "03 23.1", "-21 23"],
+    ["NGC1316", "Fornax A", "Gx", "03 22.7", "-37 12"],
+    ["NGC1317", "Fornax B", "Gx", "03 22.7", "-37 06"],
+    ["NGC1319", "", "Gx", "03 23.9", "-21 32"],
+    ["NGC1320", "", "Gx", "03 24.8", "-03 03"],
+    ["NGC1321", "", "Gx", "03 24.8", "-03 01"],
+    ["NGC1322", "", "Gx", "03 24.9", "-02 55"],
+    ["NGC1323", "", "Gx", "03 24.9", "-02 49"],
+    ["NGC1324", "", "Gx", "03 25.0", "-05 45"],
+    ["NGC1325", "", "Gx", "03 24.4", "-21 33"],
+    ["NGC1326", "", "Gx", "03 23.9", "-36 28"],
+    ["NGC1327", "", "Gx", "03 25.4", "-25 41"],
+    ["NGC1328", "", "Gx", "03 25.7", "-04 07"],
+    ["NGC1329", "", "Gx", "03 26.0", "-17 35"],
+    ["NGC1330", "", "Gx", "03 29.2", "+41 23"],
+    ["NGC1331", "", "Gx", "03 26.5", "-21 21"],
+    ["NGC1332", "", "Gx", "03 26.3", "-21 20"],
+    ["NGC1334", "", "Gx", "03 30.0", "+41 50"],
+    ["NGC1335", "", "Gx", "03 30.3", "+41 34"],
+    ["NGC1336", "", "Gx", "03 26.5", "-35 43"],
+    ["NGC1337", "", "Gx", "03 28.1", "-08 23"],
+    ["NGC1338", "", "Gx", "03 28.9", "-12 09"],
+    ["NGC1339", "", "Gx", "03 28.1", "-32 17"],
+    ["NGC1340", "", "Gx", "03 28.3", "-31 04"],
+    ["NGC1341", "", "Gx", "03 28.0", "-37 09"],
+    ["NGC1342", "Little Scorpion Cluster", "OC", "03 31.6", "+37 23"],
+    ["NGC1343", "", "Gx", "03 37.8", "+72 34"],
+    ["NGC1345", "", "Gx", "03 29.5", "-17 47"],
+    ["NGC1346", "", "Gx", "03 30.2", "-05 33"],
+    ["NGC1347", "", "Gx", "03 29.7", "-22 17"],
+    ["NGC1349", "", "Gx", "03 31.5", "+04 23"],
+    ["NGC1350", "The Colossal Cosmic Eye", "Gx", "03 31.1", "-33 38"],
+    ["NGC1351", "", "Gx", "03 30.6", "-34 51"],
+    ["NGC1352", "", "Gx", "03 31.5", "-19 17"],
+    ["NGC1353", "", "Gx", "03 32.1", "-20 49"],
+    ["NGC1354", "", "Gx", "03 32.5", "-15 13"],
+    ["NGC1355", "", "Gx", "03 33.4", "-05 00"],
+    ["NGC1356", "", "Gx", "03 30.7", "-50 19"],
+    ["NGC1357", "", "Gx", "03 33.3", "-13 40"],
+    ["NGC1358", "", "Gx", "03 33.7", "-05 05"],
+    ["NGC1359", "", "Gx", "03 33.8", "-19 30"],
+    ["NGC1360", "Robin's Egg Nebula", "PN", "03 33.2", "-25 52"],
+    ["NGC1361", "", "Gx", "03 34.3", "-06 16"],
+    ["NGC1362", "", "Gx", "03 33.9", "-20 17"],
+    ["NGC1363", "", "Gx", "03 34.8", "-09 51"],
+    ["NGC1364", "", "Gx", "03 35.0", "-09 50"],
+    ["NGC1366", "", "Gx", "03 33.9", "-31 12"],
+    ["NGC1367", "", "Gx", "03 35.0", "-24 56"],
+    ["NGC1368", "", "Gx", "03 35.0", "-15 39"],
+    ["NGC1369", "", "Gx", "03 36.8", "-36 15"],
+    ["NGC1370", "", "Gx", "03 35.2", "-20 22"],
+    ["NGC1372", "", "Gx", "03 37.0", "-15 53"],
+    ["NGC1373", "", "Gx", "03 35.0", "-35 10"],
+    ["NGC1374", "", "Gx", "03 35.3", "-35 14"],
+    ["NGC1375", "", "Gx", "03 35.3", "-35 16"],
+    ["NGC1376", "", "Gx", "03 37.1", "-05 03"],
+    ["NGC1377", "", "Gx", "03 36.7", "-20 54"],
+    ["NGC1379", "", "Gx", "03 36.1", "-35 26"],
+    ["NGC1380", "", "Gx", "03 36.5", "-34 59"],
+    ["NGC1381", "", "Gx", "03 36.5", "-35 18"],
+    ["NGC1382", "", "Gx", "03 37.1", "-35 12"],
+    ["NGC1383", "", "Gx", "03 37.7", "-18 20"],
+    ["NGC1384", "", "Gx", "03 39.2", "+15 49"],
+    ["NGC1385", "", "Gx", "03 37.5", "-24 30"],
+    ["NGC1386", "", "Gx", "03 36.8", "-36 00"],
+    ["NGC1387", "", "Gx", "03 37.0", "-35 30"],
+    ["NGC1388", "", "Gx", "03 38.2", "-15 54"],
+    ["NGC1389", "", "Gx", "03 37.2", "-35 45"],
+    ["NGC1390", "", "Gx", "03 37.9", "-19 01"],
+    ["NGC1391", "", "Gx", "03 38.9", "-18 21"],
+    ["NGC1392", "", "Gx", "03 37.8", "-36 09"],
+    ["NGC1393", "", "Gx", "03 38.6", "-18 26"],
+    ["NGC1394", "", "Gx", "03 39.1", "-18 18"],
+    ["NGC1395", "", "Gx", "03 38.5", "-23 02"],
+    ["NGC1396", "", "Gx", "03 38.1", "-35 26"],
+    ["NGC1397", "", "Gx", "03 39.8", "-04 40"],
+    ["NGC1398", "", "Gx", "03 38.9", "-26 20"],
+    ["NGC1399", "", "Gx", "03 38.5", "-35 27"],
+    ["NGC1400", "", "Gx", "03 39.5", "-18 41"],
+    ["NGC1401", "", "Gx", "03 39.4", "-22 43"],
+    ["NGC1402", "", "Gx", "03 39.5", "-18 32"],
+    ["NGC1403", "", "Gx", "03 39.2", "-22 23"],
+    ["NGC1404", "", "Gx", "03 38.9", "-35 36"],
+    ["NGC1405", "", "Gx", "03 40.3", "-15 32"],
+    ["NGC1406", "", "Gx", "03 39.4", "-31 19"],
+    ["NGC1407", "Eridanus A Group", "Gx", "03 40.2", "-18 35"],
+    ["NGC1409", "", "Gx", "03 41.2", "-01 18"],
+    ["NGC1410", "", "Gx", "03 41.2", "-01 18"],
+    ["NGC1411", "", "Gx", "03 38.7", "-44 06"],
+    ["NGC1412", "", "Gx", "03 40.5", "-26 52"],
+    ["NGC1413", "", "Gx", "03 40.2", "-15 37"],
+    ["NGC1414", "", "Gx", "03 41.0", "-21 43"],
+    ["NGC1415", "", "Gx", "03 40.9", "-22 34"],
+    ["NGC1416", "", "Gx", "03 41.0", "-22 43"],
+    ["NGC1417", "", "Gx", "03 42.0", "-04 42"],
+    ["NGC1418", "", "Gx", "03 42.3", "-04 44"],
+    ["NGC1419", "", "Gx", "03 40.7", "-37 31"],
+    ["NGC1421", "", "Gx", "03 42.5", "-13 29"],
+    ["NGC1422", "", "Gx", "03 41.5", "-21 41"],
+    ["NGC1423", "", "Gx", "03 42.7", "-06 23"],
+    ["NGC1424", "", "Gx", "03 43.2", "-04 44"],
+    ["NGC1425", "", "Gx", "03 42.2", "-29 54"],
+    ["NGC1426", "", "Gx", "03 42.8", "-22 07"],
+    ["NGC1427", "", "Gx", "03 42.3", "-35 24"],
+    ["NGC1428", "", "Gx", "03 42.4", "-35 09"],
+    ["NGC1431", "", "Gx", "03 44.7", "+02 50"],
+    ["NGC1432", "Maia Nebula", "Neb", "03 46.0", "+24 12"],
+    ["NGC1433", "", "Gx", "03 42.0", "-47 13"],
+    ["NGC1434", "", "Gx", "03 46.2", "-09 41"],
+    ["NGC1435", "Merope Nebula", "RN", "03 46.0", "+23 54"],
+    ["NGC1436", "", "Gx", "03 43.6", "-35 51"],
+    ["NGC1438", "", "Gx", "03 45.3", "-23 00"],
+    ["NGC1439", "", "Gx", "03 44.8", "-21 55"],
+    ["NGC1440", "", "Gx", "03 45.0", "-18 16"],
+    ["NGC1441", "", "Gx", "03 45.7", "-04 05"],
+    ["NGC1444", "", "OC", "03 49.4", "+52 38"],
+    ["NGC1445", "", "Gx", "03 44.9", "-09 51"],
+    ["NGC1447", "", "Gx", "03 45.8", "-09 01"],
+    ["NGC1448", "", "Gx", "03 44.5", "-44 39"],
+    ["NGC1449", "", "Gx", "03 46.1", "-04 08"],
+    ["NGC1450", "", "Gx", "03 45.6", "-09 14"],
+    ["NGC1451", "", "Gx", "03 46.1", "-04 04"],
+    ["NGC1452", "", "Gx", "03 45.4", "-18 38"],
+    ["NGC1453", "", "Gx", "03 46.5", "-03 58"],
+    ["NGC1455", "", "Gx", "03 45.9", "-18 41"],
+    ["NGC1459", "", "Gx", "03 47.0", "-25 31"],
+    ["NGC1460", "", "Gx", "03 46.2", "-36 42"],
+    ["NGC1461", "", "Gx", "03 48.5", "-16 24"],
+    ["NGC1462", "", "Gx", "03 50.4", "+06 58"],
+    ["NGC1463", "", "Gx", "03 46.3", "-59 49"],
+    ["NGC1465", "", "Gx", "03 53.5", "+32 30"],
+    ["NGC1466", "", "GC", "03 44.6", "-71 40"],
+    ["NGC1467", "", "Gx", "03 51.9", "-08 50"],
+    ["NGC1468", "", "Gx", "03 52.2", "-06 21"],
+    ["NGC1469", "", "Gx", "04 00.5", "+68 35"],
+    ["NGC1470", "", "Gx", "03 52.2", "-09 00"],
+    ["NGC1471", "", "Gx", "03 51.4", "-15 24"],
+    ["NGC1472", "", "Gx", "03 53.8", "-08 34"],
+    ["NGC1473", "", "Gx", "03 47.4", "-68 13"],
+    ["NGC1474", "", "Gx", "03 54.5", "+10 42"],
+    ["NGC1476", "", "Gx", "03 52.1", "-44 32"],
+    ["NGC1477", "", "Gx", "03 54.0", "-08 35"],
+    ["NGC1478", "", "Gx", "03 54.1", "-08 33"],
+    ["NGC1481", "", "Gx", "03 54.5", "-20 26"],
+    ["NGC1482", "", "Gx", "03 54.6", "-20 30"],
+    ["NGC1483", "", "Gx", "03 52.8", "-47 29"],
+    ["NGC1484", "", "Gx", "03 54.3", "-36 58"],
+    ["NGC1485", "", "Gx", "04 05.1", "+71 00"],
+    ["NGC1486", "", "Gx", "03 56.3", "-21 49"],
+    ["NGC1487", "", "Gx", "03 55.8", "-42 22"],
+    ["NGC1488", "", "Gx", "03 58.2", "+18 35"],
+    ["NGC1489", "", "Gx", "03 57.6", "-19 13"],
+    ["NGC1490", "", "Gx", "03 53.6", "-66 01"],
+    ["NGC1491", "Fossil Footprint Nebula", "Neb", "04 03.3", "+51 19"],
+    ["NGC1492", "", "Gx", "03 58.2", "-35 27"],
+    ["NGC1493", "", "Gx", "03 57.5", "-46 13"],
+    ["NGC1494", "", "Gx", "03 57.7", "-48 54"],
+    ["NGC1495", "", "Gx", "03 58.4", "-44 28"],
+    ["NGC1496", "", "OC", "04 04.5", "+52 40"],
+    ["NGC1497", "", "Gx", "04 02.1", "+23 08"],
+    ["NGC1500", "", "Gx", "03 58.2", "-52 20"],
+    ["NGC1501", "Camel's Eye Nebula", "PN", "04 07.0", "+60 55"],
+    ["NGC1502", "Jolly Roger Cluster", "OC", "04 07.8", "+62 20"],
+    ["NGC1503", "", "Gx", "03 56.6", "-66 02"],
+    ["NGC1504", "", "Gx", "04 02.5", "-09 20"],
+    ["NGC1505", "", "Gx", "04 02.6", "-09 19"],
+    ["NGC1506", "", "Gx", "04 00.4", "-52 34"],
+    ["NGC1507", "", "Gx", "04 04.5", "-02 11"],
+    ["NGC1508", "", "Gx", "04 05.8", "+25 25"],
+    ["NGC1509", "", "Gx", "04 03.9", "-11 11"],
+    ["NGC1510", "", "Gx", "04 03.5", "-43 24"],
+    ["NGC1511", "", "Gx", "03 59.6", "-67 38"],
+    ["NGC1512", "", "Gx", "04 03.9", "-43 21"],
+    ["NGC1513", "", "OC", "04 10.6", "+49 31"],
+    ["NGC1514", "Crystal Ball Nebula", "PN", "04 09.3", "+30 47"],
+    ["NGC1515", "", "Gx", "04 04.0", "-54 06"],
+    ["NGC1516", "", "Gx", "04 08.1", "-08 50"],
+    ["NGC1517", "", "Gx", "04 09.2", "+08 39"],
+    ["NGC1518", "", "Gx", "04 06.8", "-21 10"],
+    ["NGC1519", "", "Gx", "04 08.1", "-17 12"],
+    ["NGC1521", "", "Gx", "04 08.3", "-21 03"],
+    ["NGC1522", "", "Gx", "04 06.1", "-52 40"],
+    ["NGC1526", "", "Gx", "04 05.2", "-65 50"],
+    ["NGC1527", "", "Gx", "04 08.4", "-47 54"],
+    ["NGC1528", "m & m Double Cluster", "OC", "04 15.4", "+51 13"],
+    ["NGC1529", "", "Gx", "04 07.3", "-62 54"],
+    ["NGC1530", "", "Gx", "04 23.5", "+75 18"],
+    ["NGC1531", "", "Gx", "04 12.0", "-32 51"],
+    ["NGC1532", "", "Gx", "04 12.1", "-32 52"],
+    ["NGC1533", "", "Gx", "04 09.9", "-56 07"],
+    ["NGC1534", "", "Gx", "04 08.8", "-62 48"],
+    ["NGC1536", "", "Gx", "04 11.0", "-56 29"],
+    ["NGC1537", "", "Gx", "04 13.7", "-31 39"],
+    ["NGC1538", "", "Gx", "04 14.6", "-13 13"],
+    ["NGC1539", "", "Gx", "04 19.0", "+26 50"],
+    ["NGC1540", "", "Gx", "04 15.2", "-28 29"],
+    ["NGC1541", "", "Gx", "04 17.0", "+00 50"],
+    ["NGC1542", "", "Gx", "04 17.2", "+04 47"],
+    ["NGC1543", "", "Gx", "04 12.7", "-57 44"],
+    ["NGC1544", "", "Gx", "05 02.6", "+86 13"],
+    ["NGC1545", "m & m Double Cluster", "OC", "04 20.9", "+50 15"],
+    ["NGC1546", "", "Gx", "04 14.6", "-56 04"],
+    ["NGC1547", "", "Gx", "04 17.2", "-17 51"],
+    ["NGC1549", "", "Gx", "04 15.8", "-55 36"],
+    ["NGC1550", "", "Gx", "04 19.6", "+02 25"],
+    ["NGC1552", "", "Gx", "04 20.3", "-00 42"],
+    ["NGC1553", "", "Gx", "04 16.2", "-55 47"],
+    ["NGC1554", "Struve's Lost Nebula", "RN", "04 22.0", "+19 36"],
+    ["NGC1556", "", "Gx", "04 17.7", "-50 10"],
+    ["NGC1558", "", "Gx", "04 20.3", "-45 02"],
+    ["NGC1559", "", "Gx", "04 17.6", "-62 47"],
+    ["NGC1560", "", "Gx", "04 32.8", "+71 53"],
+    ["NGC1561", "", "Gx", "04 23.0", "-15 51"],
+    ["NGC1562", "", "Gx", "04 21.8", "-15 45"],
+    ["NGC1563", "", "Gx", "04 22.9", "-15 44"],
+    ["NGC1564", "", "Gx", "04 23.0", "-15 44"],
+    ["NGC1565", "", "Gx", "04 23.4", "-15 45"],
+    ["NGC1566", "", "Gx", "04 20.0", "-54 56"],
+    ["NGC1567", "", "Gx", "04 21.1", "-48 15"],
+    ["NGC1568", "", "Gx", "04 24.3", "-00 44"],
+    ["NGC1569", "", "Gx", "04 30.8", "+64 51"],
+    ["NGC1570", "", "Gx", "04 22.1", "-43 38"],
+    ["NGC1572", "", "Gx", "04 22.7", "-40 36"],
+    ["NGC1573", "", "Gx", "04 48.4", "+73 28"],
+    ["NGC1574", "", "Gx", "04 22.0", "-56 58"],
+    ["NGC1575", "", "Gx", "04 26.3", "-10 06"],
+    ["NGC1576", "", "Gx", "04 26.3", "-03 37"],
+    ["NGC1577", "", "Gx", "04 26.3", "-10 06"],
+    ["NGC1578", "", "Gx", "04 23.8", "-51 36"],
+    ["NGC1579", "Northern Trifid Nebula", "Neb", "04 30.2", "+35 17"],
+    ["NGC1580", "", "Gx", "04 28.3", "-05 11"],
+    ["NGC1581", "", "Gx", "04 24.7", "-54 57"],
+    ["NGC1582", "", "OC", "04 32.3", "+43 51"],
+    ["NGC1583", "", "Gx", "04 28.3", "-17 36"],
+    ["NGC1584", "", "Gx", "04 28.2", "-17 31"],
+    ["NGC1585", "", "Gx", "04 27.5", "-42 10"],
+    ["NGC1586", "", "Gx", "04 30.6", "-00 18"],
+    ["NGC1587", "", "Gx", "04 30.7", "+00 40"],
+    ["NGC1588", "", "Gx", "04 30.7", "+00 40"],
+    ["NGC1589", "", "Gx", "04 30.8", "+00 52"],
+    ["NGC1590", "", "Gx", "04 31.2", "+07 38"],
+    ["NGC1591", "", "Gx", "04 29.5", "-26 43"],
+    ["NGC1592", "", "Gx", "04 29.7", "-27 25"],
+    ["NGC1594", "", "Gx", "04 30.9", "-05 48"],
+    ["NGC1595", "Carafe Group", "Gx", "04 28.4", "-47 49"],
+    ["NGC1596", "", "Gx", "04 27.6", "-55 02"],
+    ["NGC1597", "", "Gx", "04 31.2", "-11 17"],
+    ["NGC1598", "Carafe Group", "Gx", "04 28.6", "-47 47"],
+    ["NGC1599", "", "Gx", "04 31.6", "-04 35"],
+    ["NGC1600", "", "Gx", "04 31.7", "-05 05"],
+    ["NGC1601", "", "Gx", "04 31.7", "-05 04"],
+    ["NGC1602", "", "Gx", "04 27.9", "-55 03"],
+    ["NGC1603", "", "Gx", "04 31.8", "-05 06"],
+    ["NGC1604", "", "Gx", "04 32.0", "-05 22"],
+    ["NGC1605", "", "OC", "04 34.9", "+45 16"],
+    ["NGC1606", "", "Gx", "04 32.1", "-05 02"],
+    ["NGC1607", "", "Gx", "04 32.1", "-04 28"],
+    ["NGC1608", "", "Gx", "04 32.1", "+00 34"],
+    ["NGC1609", "", "Gx", "04 32.8", "-04 22"],
+    ["NGC1610", "", "Gx", "04 34.2", "-04 42"],
+    ["NGC1611", "", "Gx", "04 33.1", "-04 18"],
+    ["NGC1612", "", "Gx", "04 33.2", "-04 10"],
+    ["NGC1613", "", "Gx", "04 33.4", "-04 16"],
+    ["NGC1614", "", "Gx", "04 34.0", "-08 35"],
+    ["NGC1615", "", "Gx", "04 36.0", "+19 57"],
+    ["NGC1616", "", "Gx", "04 32.7", "-43 43"],
+    ["NGC1617", "", "Gx", "04 31.7", "-54 36"],
+    ["NGC1618", "", "Gx", "04 36.1", "-03 09"],
+    ["NGC1620", "", "Gx", "04 36.6", "-00 09"],
+    ["NGC1621", "", "Gx", "04 36.4", "-04 59"],
+    ["NGC1622", "", "Gx", "04 36.6", "-03 11"],
+    ["NGC1623", "", "Gx", "04 35.5", "-13 33"],
+    ["NGC1624", "", "EN", "04 40.6", "+50 28"],
+    ["NGC1625", "", "Gx", "04 37.1", "-03 18"],
+    ["NGC1627", "", "Gx", "04 37.6", "-04 53"],
+    ["NGC1628", "", "Gx", "04 37.6", "-04 43"],
+    ["NGC1629", "", "GC", "04 29.6", "-71 50"],
+    ["NGC1630", "", "Gx", "04 37.3", "-18 54"],
+    ["NGC1631", "", "Gx", "04 38.4", "-20 39"],
+    ["NGC1632", "", "Gx", "04 40.0", "-09 27"],
+    ["NGC1633", "", "Gx", "04 40.2", "+07 21"],
+    ["NGC1634", "", "Gx", "04 40.2", "+07 20"],
+    ["NGC1635", "", "Gx", "04 40.1", "-00 33"],
+    ["NGC1636", "", "Gx", "04 40.7", "-08 36"],
+    ["NGC1637", "", "Gx", "04 41.5", "-02 51"],
+    ["NGC1638", "", "Gx", "04 41.6", "-01 49"],
+    ["NGC1640", "", "Gx", "04 42.2", "-20 26"],
+    ["NGC1642", "", "Gx", "04 42.9", "+00 37"],
+    ["NGC1643", "", "Gx", "04 43.7", "-05 19"],
+    ["NGC1644", "", "GC", "04 37.7", "-66 12"],
+    ["NGC1645", "", "Gx", "04 44.1", "-05 28"],
+    ["NGC1646", "", "Gx", "04 44.4", "-08 32"],
+    ["NGC1647", "Pirate Moon Cluster", "OC", "04 45.9", "+19 07"],
+    ["NGC1648", "", "Gx", "04 44.6", "-08 29"],
+    ["NGC1649", "", "OC", "04 38.1", "-68 47"],
+    ["NGC1650", "", "Gx", "04 45.2", "-15 52"],
+    ["NGC1651", "", "GC", "04 37.5", "-70 35"],
+    ["NGC1652", "", "GC", "04 38.4", "-68 40"],
+    ["NGC1653", "", "Gx", "04 45.8", "-02 24"],
+    ["NGC1654", "", "Gx", "04 45.8", "-02 05"],
+    ["NGC1656", "", "Gx", "04 45.9", "-05 08"],
+    ["NGC1657", "", "Gx", "04 46.1", "-02 05"],
+    ["NGC1658", "", "Gx", "04 44.0", "-41 28"],
+    ["NGC1659", "", "Gx", "04 46.5", "-04 47"],
+    ["NGC1660", "", "Gx", "04 44.2", "-41 30"],
+    ["NGC1661", "", "Gx", "04 47.1", "-02 03"],
+    ["NGC1662", "", "OC", "04 48.4", "+10 56"],
+    ["NGC1663", "", "OC", "04 49.4", "+13 08"],
+    ["NGC1664", "4-H cluster", "OC", "04 51.1", "+43 40"],
+    ["NGC1665", "", "Gx", "04 48.3", "-05 26"],
+    ["NGC1666", "", "Gx", "04 48.5", "-06 34"],
+    ["NGC1667", "", "Gx", "04 48.6", "-06 19"],
+    ["NGC1668", "", "Gx", "04 46.1", "-44 44"],
+    ["NGC1669", "", "Gx", "04 43.0", "-65 49"],
+    ["NGC1670", "", "Gx", "04 49.7", "-02 46"],
+    ["NGC1672", "", "Gx", "04 45.7", "-59 15"],
+    ["NGC1673", "", "OC", "04 42.6", "-69 49"],
+    ["NGC1676", "", "OC", "04 43.9", "-68 50"],
+    ["NGC1677", "", "Gx", "04 50.9", "-04 54"],
+    ["NGC1678", "", "Gx", "04 51.6", "-02 37"],
+    ["NGC1679", "", "Gx", "04 49.9", "-31 58"],
+    ["NGC1680", "", "Gx", "04 48.6", "-47 49"],
+    ["NGC1681", "", "Gx", "04 51.8", "-05 48"],
+    ["NGC1682", "", "Gx", "04 52.3", "-03 06"],
+    ["NGC1683", "", "Gx", "04 52.3", "-03 01"],
+    ["NGC1684", "", "Gx", "04 52.5", "-03 06"],
+    ["NGC1685", "", "Gx", "04 52.6", "-02 57"],
+    ["NGC1686", "", "Gx", "04 52.9", "-15 21"],
+    ["NGC1687", "", "Gx", "04 51.4", "-33 56"],
+    ["NGC1688", "", "Gx", "04 48.4", "-59 48"],
+    ["NGC1690", "", "Gx", "04 54.3", "+01 38"],
+    ["NGC1691", "", "Gx", "04 54.6", "+03 16"],
+    ["NGC1692", "", "Gx", "04 55.4", "-20 34"],
+    ["NGC1693", "", "OC", "04 47.6", "-69 21"],
+    ["NGC1694", "", "Gx", "04 55.3", "-04 39"],
+    ["NGC1695", "", "OC", "04 47.7", "-69 23"],
+    ["NGC1696", "", "GC", "04 48.5", "-68 15"],
+    ["NGC1697", "", "OC", "04 48.6", "-68 34"],
+    ["NGC1698", "", "OC", "04 49.1", "-69 07"],
+    ["NGC1699", "", "Gx", "04 57.0", "-04 45"],
+    ["NGC1700", "", "Gx", "04 56.9", "-04 52"],
+    ["NGC1701", "", "Gx", "04 55.9", "-29 53"],
+    ["NGC1702", "", "OC", "04 49.4", "-69 51"],
+    ["NGC1703", "", "Gx", "04 52.9", "-59 45"],
+    ["NGC1704", "", "OC", "04 49.9", "-69 45"],
+    ["NGC1705", "", "Gx", "04 54.2", "-53 22"],
+    ["NGC1706", "", "Gx", "04 52.5", "-62 59"],
+    ["NGC1709", "", "Gx", "04 58.7", "-00 29"],
+    ["NGC1710", "", "Gx", "04 57.3", "-15 17"],
+    ["NGC1711", "", "OC", "04 50.6", "-69 59"],
+    ["NGC1712", "", "OC", "04 51.0", "-69 24"],
+    ["NGC1713", "", "Gx", "04 58.9", "-00 29"],
+    ["NGC1714", "", "EN", "04 52.1", "-66 55"],
+    ["NGC1715", "", "EN", "04 52.2", "-66 54"],
+    ["NGC1716", "", "Gx", "04 58.2", "-20 22"],
+    ["NGC1718", "", "OC", "04 52.4", "-67 03"],
+    ["NGC1719", "", "Gx", "04 59.6", "-00 16"],
+    ["NGC1720", "", "Gx", "04 59.3", "-07 52"],
+    ["NGC1721", "", "Gx", "04 59.3", "-11 07"],
+    ["NGC1722", "", "Neb", "04 51.9", "-69 24"],
+    ["NGC1723", "", "Gx", "04 59.4", "-10 59"],
+    ["NGC1725", "", "Gx", "04 59.4", "-11 08"],
+    ["NGC1726", "", "Gx", "04 59.7", "-07 45"],
+    ["NGC1727", "", "Neb", "04 52.2", "-69 20"],
+    ["NGC1728", "", "Gx", "04 59.5", "-11 07"],
+    ["NGC1729", "", "Gx", "05 00.3", "-03 21"],
+    ["NGC1730", "", "Gx", "04 59.5", "-15 49"],
+    ["NGC1732", "", "OC", "04 53.2", "-68 39"],
+    ["NGC1733", "", "OC", "04 54.1", "-66 41"],
+    ["NGC1734", "", "OC", "04 53.6", "-68 46"],
+    ["NGC1735", "", "OC", "04 54.3", "-67 06"],
+    ["NGC1736", "", "EN", "04 53.1", "-68 03"],
+    ["NGC1737", "", "Neb", "04 54.1", "-69 11"],
+    ["NGC1738", "", "Gx", "05 01.8", "-18 09"],
+    ["NGC1739", "", "Gx", "05 01.8", "-18 10"],
+    ["NGC1740", "", "Gx", "05 01.9", "-03 18"],
+    ["NGC1741", "", "Gx", "05 01.6", "-04 15"],
+    ["NGC1743", "", "OC", "04 54.1", "-69 12"],
+    ["NGC1744", "", "Gx", "05 00.0", "-26 01"],
+    ["NGC1745", "", "OC", "04 54.3", "-69 09"],
+    ["NGC1746", "", "OC", "05 03.8", "+23 46"],
+    ["NGC1747", "", "OC", "04 55.2", "-67 11"],
+    ["NGC1748", "", "OC", "04 54.4", "-69 11"],
+    ["NGC1749", "", "OC", "04 54.9", "-68 11"],
+    ["NGC1751", "", "OC", "04 54.2", "-69 48"],
+    ["NGC1752", "", "Gx", "05 02.2", "-08 14"],
+    ["NGC1753", "", "Gx", "05 02.5", "-03 21"],
+    ["NGC1754", "", "OC", "04 54.3", "-70 27"],
+    ["NGC1755", "", "OC", "04 55.2", "-68 12"],
+    ["NGC1756", "", "GC", "04 54.8", "-69 14"],
+    ["NGC1759", "", "Gx", "05 00.8", "-38 40"],
+    ["NGC1761", "", "OC", "04 56.7", "-66 29"],
+    ["NGC1762", "", "Gx", "05 03.6", "+01 34"],
+    ["NGC1763", "", "OC", "04 56.9", "-66 24"],
+    ["NGC1764", "", "OC", "04 56.5", "-67 42"],
+    ["NGC1765", "", "Gx", "04 58.4", "-62 02"],
+    ["NGC1766", "", "OC", "04 56.0", "-70 13"],
+    ["NGC1767", "", "OC", "04 56.5", "-69 24"],
+    ["NGC1768", "", "OC", "04 57.0", "-68 15"],
+    ["NGC1770", "", "Neb", "04 58.5", "-68 27"],
+    ["NGC1771", "", "Gx", "04 58.9", "-63 18"],
+    ["NGC1772", "", "OC", "04 56.9", "-69 33"],
+    ["NGC1773", "", "OC", "04 58.2", "-66 22"],
+    ["NGC1774", "", "OC", "04 58.1", "-67 14"],
+    ["NGC1775", "", "OC", "04 56.9", "-70 26"],
+    ["NGC1776", "", "OC", "04 58.7", "-66 26"],
+    ["NGC1777", "", "OC", "04 55.8", "-74 17"],
+    ["NGC1778", "", "OC", "05 08.1", "+37 01"],
+    ["NGC1779", "", "Gx", "05 05.3", "-09 09"],
+    ["NGC1780", "", "Gx", "05 06.3", "-19 28"],
+    ["NGC1781", "", "Gx", "05 07.9", "-18 11"],
+    ["NGC1782", "", "OC", "04 57.9", "-69 24"],
+    ["NGC1783", "", "GC", "04 59.1", "-65 59"],
+    ["NGC1784", "", "Gx", "05 05.5", "-11 52"],
+    ["NGC1786", "", "OC", "04 59.1", "-67 45"],
+    ["NGC1787", "", "OC", "05 01.8", "-65 49"],
+    ["NGC1788", "Cosmic Bat Nebula", "RN", "05 06.9", "-03 21"],
+    ["NGC1789", "", "OC", "04 57.9", "-71 54"],
+    ["NGC1791", "", "OC", "04 59.1", "-70 10"],
+    ["NGC1792", "", "Gx", "05 05.2", "-37 59"],
+    ["NGC1793", "", "OC", "04 59.6", "-69 33"],
+    ["NGC1795", "", "OC", "04 59.8", "-69 48"],
+    ["NGC1796", "", "Gx", "05 02.7", "-61 08"],
+    ["NGC1797", "", "Gx", "05 07.7", "-08 01"],
+    ["NGC1799", "", "Gx", "05 07.7", "-07 58"],
+    ["NGC1800", "", "Gx", "05 06.4", "-31 57"],
+    ["NGC1801", "", "OC", "05 00.6", "-69 37"],
+    ["NGC1803", "", "Gx", "05 05.4", "-49 34"],
+    ["NGC1804", "", "OC", "05 01.1", "-69 05"],
+    ["NGC1805", "", "GC", "05 02.4", "-66 07"],
+    ["NGC1806", "", "GC", "05 02.2", "-67 59"],
+    ["NGC1807", "Poor Man's Double Cluster", "OC", "05 10.8", "+16 31"],
+    ["NGC1808", "", "Gx", "05 07.7", "-37 31"],
+    ["NGC1809", "", "Gx", "05 02.1", "-69 34"],
+    ["NGC1810", "", "OC", "05 03.4", "-66 23"],
+    ["NGC1811", "", "Gx", "05 08.7", "-29 17"],
+    ["NGC1812", "", "Gx", "05 08.9", "-29 15"],
+    ["NGC1813", "", "OC", "05 02.7", "-70 19"],
+    ["NGC1814", "", "OC", "05 03.8", "-67 18"],
+    ["NGC1815", "", "OC", "05 02.4", "-70 37"],
+    ["NGC1816", "", "OC", "05 03.9", "-67 16"],
+    ["NGC1817", "Poor Man's Double Cluster", "OC", "05 12.3", "+16 41"],
+    ["NGC1818", "", "GC", "05 04.2", "-66 26"],
+    ["NGC1819", "", "Gx", "05 11.8", "+05 12"],
+    ["NGC1820", "", "OC", "05 04.1", "-67 17"],
+    ["NGC1821", "", "Gx", "05 11.8", "-15 08"],
+    ["NGC1822", "", "OC", "05 05.1", "-66 13"],
+    ["NGC1823", "", "OC", "05 03.4", "-70 20"],
+    ["NGC1824", "", "Gx", "05 06.9", "-59 43"],
+    ["NGC1825", "", "OC", "05 04.3", "-68 56"],
+    ["NGC1826", "", "OC", "05 05.6", "-66 14"],
+    ["NGC1827", "", "Gx", "05 10.1", "-36 58"],
+    ["NGC1828", "", "OC", "05 04.4", "-69 23"],
+    ["NGC1830", "", "OC", "05 04.7", "-69 21"],
+    ["NGC1831", "", "GC", "05 06.3", "-64 55"],
+    ["NGC1832", "", "Gx", "05 12.1", "-15 41"],
+    ["NGC1833", "", "EN", "05 04.4", "-70 44"],
+    ["NGC1834", "", "OC", "05 05.2", "-69 12"],
+    ["NGC1835", "", "OC", "05 05.1", "-69 24"],
+    ["NGC1836", "", "OC", "05 05.6", "-68 38"],
+    ["NGC1838", "", "OC", "05 06.1", "-68 27"],
+    ["NGC1839", "", "OC", "05 06.1", "-68 38"],
+    ["NGC1841", "", "GC", "04 45.4", "-84 00"],
+    ["NGC1842", "", "OC", "05 07.3", "-67 16"],
+    ["NGC1843", "", "Gx", "05 14.1", "-10 38"],
+    ["NGC1844", "", "OC", "05 07.5", "-67 19"],
+    ["NGC1845", "", "OC", "05 06.3", "-70 29"],
+    ["NGC1846", "", "OC", "05 07.6", "-67 28"],
+    ["NGC1847", "", "OC", "05 07.1", "-68 58"],
+    ["NGC1848", "", "OC", "05 08.2", "-71 10"],
+    ["NGC1849", "", "OC", "05 09.6", "-66 19"],
+    ["NGC1850", "", "OC", "05 08.8", "-68 46"],
+    ["NGC1851", "", "GC", "05 14.1", "-40 03"],
+    ["NGC1852", "", "OC", "05 09.4", "-67 47"],
+    ["NGC1853", "", "Gx", "05 12.3", "-57 24"],
+    ["NGC1855", "", "OC", "05 09.3", "-68 51"],
+    ["NGC1856", "", "OC", "05 09.5", "-69 08"],
+    ["NGC1857", "", "OC", "05 20.1", "+39 17"],
+    ["NGC1858", "", "OC", "05 09.9", "-68 54"],
+    ["NGC1859", "", "OC", "05 11.5", "-65 15"],
+    ["NGC1860", "", "OC", "05 10.7", "-68 45"],
+    ["NGC1861", "", "OC", "05 10.4", "-70 47"],
+    ["NGC1862", "", "OC", "05 12.6", "-66 09"],
+    ["NGC1863", "", "OC", "05 11.7", "-68 44"],
+    ["NGC1864", "", "OC", "05 12.7", "-67 37"],
+    ["NGC1865", "", "OC", "05 12.4", "-68 46"],
+    ["NGC1866", "", "GC", "05 13.6", "-65 28"],
+    ["NGC1867", "", "OC", "05 13.7", "-66 18"],
+    ["NGC1868", "", "GC", "05 14.6", "-63 57"],
+    ["NGC1870", "", "OC", "05 13.2", "-69 07"],
+    ["NGC1871", "", "OC", "05 13.9", "-67 27"],
+    ["NGC1872", "", "OC", "05 13.2", "-69 19"],
+    ["NGC1873", "", "OC", "05 13.9", "-67 20"],
+    ["NGC1874", "", "OC", "05 13.2", "-69 23"],
+    ["NGC1875", "", "Gx", "05 21.8", "+06 41"],
+    ["NGC1876", "", "OC", "05 13.3", "-69 22"],
+    ["NGC1877", "", "OC", "05 13.4", "-69 23"],
+    ["NGC1878", "", "OC", "05 12.8", "-70 28"],
+    ["NGC1879", "", "Gx", "05 19.8", "-32 09"],
+    ["NGC1880", "", "OC", "05 13.6", "-69 23"],
+    ["NGC1881", "", "OC", "05 13.6", "-69 18"],
+    ["NGC1882", "", "OC", "05 15.6", "-66 08"],
+    ["NGC1883", "", "OC", "05 25.9", "+46 29"],
+    ["NGC1885", "", "OC", "05 15.1", "-68 59"],
+    ["NGC1886", "", "Gx", "05 21.8", "-23 49"],
+    ["NGC1887", "", "OC", "05 16.1", "-66 19"],
+    ["NGC1888", "", "Gx", "05 22.6", "-11 30"],
+    ["NGC1889", "", "Gx", "05 22.6", "-11 30"],
+    ["NGC1890", "", "OC", "05 13.8", "-72 05"],
+    ["NGC1892", "", "Gx", "05 17.2", "-64 58"],
+    ["NGC1893", "Letter Y Cluster", "OC", "05 22.7", "+33 25"],
+    ["NGC1894", "", "OC", "05 15.9", "-69 28"],
+    ["NGC1895", "", "OC", "05 16.9", "-67 20"],
+    ["NGC1897", "", "OC", "05 17.5", "-67 27"],
+    ["NGC1898", "", "OC", "05 16.7", "-69 39"],
+    ["NGC1899", "", "Neb", "05 17.8", "-67 54"],
+    ["NGC1900", "", "OC", "05 19.2", "-63 01"],
+    ["NGC1902", "", "OC", "05 18.3", "-66 38"],
+    ["NGC1903", "", "OC", "05 17.4", "-69 20"],
+    ["NGC1905", "", "OC", "05 18.4", "-67 17"],
+    ["NGC1906", "", "Gx", "05 24.8", "-15 57"],
+    ["NGC1907", "", "OC", "05 28.1", "+35 20"],
+    ["NGC1909", "", "RN", "05 02.0", "-07 54"],
+    ["NGC1910", "S Dor Cluster", "OC", "05 18.7", "-69 14"],
+    ["NGC1911", "", "OC", "05 19.4", "-66 41"],
+    ["NGC1913", "", "OC", "05 18.3", "-69 32"],
+    ["NGC1914", "", "OC", "05 17.6", "-71 15"],
+    ["NGC1915", "", "OC", "05 19.5", "-66 44"],
+    ["NGC1916", "", "OC", "05 18.6", "-69 24"],
+    ["NGC1917", "", "OC", "05 19.1", "-69 00"],
+    ["NGC1918", "", "SNR", "05 19.1", "-69 39"],
+    ["NGC1920", "", "OC", "05 20.5", "-66 47"],
+    ["NGC1922", "Starfish Cluster", "OC", "05 19.8", "-69 30"],
+    ["NGC1923", "", "OC", "05 21.5", "-65 29"],
+    ["NGC1924", "", "Gx", "05 28.0", "-05 19"],
+    ["NGC1926", "", "OC", "05 20.6", "-69 32"],
+    ["NGC1928", "", "OC", "05 20.9", "-69 29"],
+    ["NGC1929", "", "OC", "05 21.8", "-67 54"],
+    ["NGC1930", "", "Gx", "05 25.9", "-46 44"],
+    ["NGC1931", "The Fly Nebula", "Neb", "05 31.4", "+34 14"],
+    ["NGC1932", "", "OC", "05 22.5", "-66 09"],
+    ["NGC1934", "", "Neb", "05 21.8", "-67 54"],
+    ["NGC1936", "", "EN", "05 22.2", "-67 59"],
+    ["NGC1938", "", "OC", "05 21.4", "-69 57"],
+    ["NGC1939", "", "OC", "05 21.4", "-69 57"],
+    ["NGC1940", "", "OC", "05 22.7", "-67 11"],
+    ["NGC1941", "", "OC", "05 23.1", "-66 23"],
+    ["NGC1942", "", "OC", "05 24.7", "-63 56"],
+    ["NGC1943", "", "OC", "05 22.5", "-70 09"],
+    ["NGC1944", "", "OC", "05 22.0", "-72 30"],
+    ["NGC1946", "", "OC", "05 25.3", "-66 24"],
+    ["NGC1947", "", "Gx", "05 26.8", "-63 46"],
+    ["NGC1948", "", "OC", "05 24.3", "-66 24"],
+    ["NGC1949", "", "OC", "05 25.0", "-68 29"],
+    ["NGC1950", "", "OC", "05 24.6", "-69 54"],
+    ["NGC1951", "", "OC", "05 26.1", "-66 36"],
+    ["NGC1953", "", "OC", "05 25.5", "-68 50"],
+    ["NGC1954", "", "Gx", "05 32.8", "-14 04"],
+    ["NGC1955", "", "OC", "05 26.2", "-67 30"],
+    ["NGC1956", "", "Gx", "05 19.6", "-77 44"],
+    ["NGC1957", "", "Gx", "05 32.9", "-14 08"],
+    ["NGC1958", "", "OC", "05 25.5", "-69 50"],
+    ["NGC1959", "", "OC", "05 25.6", "-69 56"],
+    ["NGC1961", "", "Gx", "05 42.1", "+69 23"],
+    ["NGC1962", "", "Neb", "05 27.0", "-68 51"],
+    ["NGC1964", "", "Gx", "05 33.4", "-21 57"],
+    ["NGC1965", "", "Neb", "05 26.5", "-68 48"],
+    ["NGC1966", "", "OC", "05 26.5", "-68 49"],
+    ["NGC1967", "", "OC", "05 26.7", "-69 06"],
+    ["NGC1968", "", "OC", "05 27.4", "-67 28"],
+    ["NGC1969", "", "OC", "05 26.6", "-69 50"],
+    ["NGC1970", "", "Neb", "05 26.8", "-68 50"],
+    ["NGC1971", "", "OC", "05 26.8", "-69 51"],
+    ["NGC1972", "", "OC", "05 26.8", "-69 50"],
+    ["NGC1974", "", "OC", "05 28.0", "-67 25"],
+    ["NGC1978", "", "GC", "05 28.8", "-66 14"],
+    ["NGC1979", "", "Gx", "05 34.0", "-23 19"],
+    ["NGC1980", "The Lost Jewel of Orion", "OC", "05 35.4", "-05 55"],
+    ["NGC1981", "Coal Car Cluster", "OC", "05 35.1", "-04 26"],
+    ["NGC1983", "", "OC", "05 27.7", "-68 59"],
+    ["NGC1984", "", "OC", "05 27.7", "-69 08"],
+    ["NGC1985", "", "RN", "05 37.8", "+31 59"],
+    ["NGC1986", "", "OC", "05 27.6", "-69 58"],
+    ["NGC1987", "", "GC", "05 27.3", "-70 44"],
+    ["NGC1989", "", "Gx", "05 34.4", "-30 48"],
+    ["NGC1990", "ε Ori Nebula", "Neb", "05 34.8", "-01 42"],
+    ["NGC1992", "", "Gx", "05 34.5", "-30 54"],
+    ["NGC1993", "", "Gx", "05 35.4", "-17 49"],
+    ["NGC1994", "", "OC", "05 28.4", "-69 09"],
+    ["NGC1995", "", "Gx", "05 33.3", "-48 42"],
+    ["NGC1997", "", "OC", "05 30.6", "-63 12"],
+    ["NGC1999", "13th Pearl Nebula", "RN", "05 36.4", "-06 43"],
+    ["NGC2000", "", "OC", "05 27.5", "-71 53"],
+    ["NGC2002", "", "OC", "05 30.3", "-66 53"],
+    ["NGC2003", "", "OC", "05 30.9", "-66 28"],
+    ["NGC2004", "", "OC", "05 30.7", "-67 17"],
+    ["NGC2005", "", "OC", "05 30.1", "-69 45"],
+    ["NGC2006", "", "OC", "05 31.3", "-66 58"],
+    ["NGC2007", "", "Gx", "05 35.0", "-50 55"],
+    ["NGC2008", "", "Gx", "05 35.1", "-50 58"],
+    ["NGC2009", "", "OC", "05 31.0", "-69 11"],
+    ["NGC2010", "", "OC", "05 30.6", "-70 49"],
+    ["NGC2011", "", "OC", "05 32.3", "-67 31"],
+    ["NGC2012", "", "Gx", "05 22.6", "-79 51"],
+    ["NGC2014", "", "OC", "05 32.4", "-67 41"],
+    ["NGC2015", "", "OC", "05 32.1", "-69 15"],
+    ["NGC2016", "", "OC", "05 31.6", "-69 57"],
+    ["NGC2018", "", "OC", "05 31.4", "-71 04"],
+    ["NGC2019", "", "OC", "05 31.9", "-70 10"],
+    ["NGC2020", "", "EN", "05 33.2", "-67 43"],
+    ["NGC2021", "", "OC", "05 33.5", "-67 27"],
+    ["NGC2022", "Kissing Crescents Nebula", "PN", "05 42.1", "+09 05"],
+    ["NGC2023", "", "RN", "05 41.6", "-02 16"],
+    ["NGC2025", "", "OC", "05 32.6", "-71 43"],
+    ["NGC2027", "", "OC", "05 35.0", "-66 55"],
+    ["NGC2028", "", "OC", "05 33.8", "-69 57"],
+    ["NGC2029", "", "SNR", "05 35.3", "-67 34"],
+    ["NGC2030", "", "Neb", "05 35.6", "-66 02"],
+    ["NGC2031", "", "GC", "05 33.7", "-70 59"],
+    ["NGC2033", "", "OC", "05 34.7", "-69 44"],
+    ["NGC2035", "", "Neb", "05 35.5", "-67 35"],
+    ["NGC2036", "", "OC", "05 34.6", "-70 04"],
+    ["NGC2037", "", "Neb", "05 35.0", "-69 44"],
+    ["NGC2038", "", "OC", "05 34.7", "-70 34"],
+    ["NGC2040", "", "OC", "05 36.0", "-67 35"],
+    ["NGC2041", "", "OC", "05 36.5", "-66 59"],
+    ["NGC2042", "", "OC", "05 36.2", "-68 55"],
+    ["NGC2043", "", "OC", "05 35.9", "-70 04"],
+    ["NGC2044", "", "OC", "05 36.2", "-69 12"],
+    ["NGC2046", "", "OC", "05 35.6", "-70 14"],
+    ["NGC2047", "", "OC", "05 35.9", "-70 11"],
+    ["NGC2048", "", "EN", "05 35.9", "-69 39"],
+    ["NGC2049", "", "Gx", "05 43.3", "-30 05"],
+    ["NGC2050", "", "OC", "05 36.6", "-69 24"],
+    ["NGC2051", "", "OC", "05 36.1", "-71 01"],
+    ["NGC2053", "", "OC", "05 37.7", "-67 25"],
+    ["NGC2055", "", "OC", "05 36.7", "-69 30"],
+    ["NGC2056", "", "OC", "05 36.6", "-70 40"],
+    ["NGC2057", "", "OC", "05 36.9", "-70 16"],
+    ["NGC2058", "", "OC", "05 36.9", "-70 10"],
+    ["NGC2059", "", "OC", "05 37.0", "-70 08"],
+    ["NGC2060", "30 Dor B", "SNR", "05 37.9", "-69 10"],
+    ["NGC2062", "", "OC", "05 40.0", "-66 53"],
+    ["NGC2064", "", "RN", "05 46.6", "+00 03"],
+    ["NGC2065", "", "OC", "05 37.6", "-70 14"],
+    ["NGC2066", "", "OC", "05 37.7", "-70 10"],
+    ["NGC2067", "", "RN", "05 46.6", "+00 07"],
+    ["NGC2069", "", "Neb", "05 38.7", "-69 00"],
+    ["NGC2071", "", "RN", "05 47.2", "+00 18"],
+    ["NGC2072", "", "OC", "05 38.4", "-70 14"],
+    ["NGC2073", "", "Gx", "05 45.9", "-22 00"],
+    ["NGC2075", "", "OC", "05 38.4", "-70 41"],
+    ["NGC2076", "", "Gx", "05 46.8", "-16 47"],
+    ["NGC2077", "", "OC", "05 39.6", "-69 39"],
+    ["NGC2078", "", "EN", "05 39.9", "-69 45"],
+    ["NGC2079", "", "OC", "04 28.5", "-53 44"],
+    ["NGC2080", "Ghost Head Nebula", "OC", "05 39.7", "-69 39"],
+    ["NGC2082", "", "Gx", "05 41.9", "-64 18"],
+    ["NGC2083", "", "OC", "05 40.0", "-69 44"],
+    ["NGC2085", "", "OC", "05 40.1", "-69 40"],
+    ["NGC2086", "", "OC", "05 40.4", "-69 40"],
+    ["NGC2087", "", "Gx", "05 44.3", "-55 32"],
+    ["NGC2088", "", "OC", "05 41.0", "-68 28"],
+    ["NGC2089", "", "Gx", "05 47.9", "-17 36"],
+    ["NGC2090", "", "Gx", "05 47.0", "-34 15"],
+    ["NGC2091", "", "OC", "05 41.0", "-69 26"],
+    ["NGC2092", "", "OC", "05 41.4", "-69 14"],
+    ["NGC2093", "", "OC", "05 41.8", "-68 55"],
+    ["NGC2095", "", "OC", "05 42.9", "-67 19"],
+    ["NGC2096", "", "OC", "05 42.3", "-68 28"],
+    ["NGC2097", "", "OC", "05 44.3", "-62 47"],
+    ["NGC2098", "", "OC", "05 42.5", "-68 16"],
+    ["NGC2100", "", "OC", "05 42.1", "-69 13"],
+    ["NGC2101", "", "Gx", "05 46.4", "-52 05"],
+    ["NGC2102", "", "OC", "05 42.3", "-69 29"],
+    ["NGC2103", "", "OC", "05 41.6", "-71 20"],
+    ["NGC2104", "", "Gx", "05 47.1", "-51 33"],
+    ["NGC2105", "", "OC", "05 44.3", "-66 55"],
+    ["NGC2106", "", "Gx", "05 50.8", "-21 34"],
+    ["NGC2107", "", "OC", "05 43.2", "-70 38"],
+    ["NGC2108", "", "GC", "05 43.9", "-69 11"],
+    ["NGC2109", "", "OC", "05 44.4", "-68 33"],
+    ["NGC2110", "", "Gx", "05 52.2", "-07 27"],
+    ["NGC2111", "", "OC", "05 44.6", "-71 00"],
+    ["NGC2112", "", "OC", "05 53.8", "+00 25"],
+    ["NGC2113", "", "OC", "05 45.4", "-69 46"],
+    ["NGC2114", "", "OC", "05 46.2", "-68 03"],
+    ["NGC2115", "", "Gx", "05 51.3", "-50 35"],
+    ["NGC2116", "", "OC", "05 47.3", "-68 30"],
+    ["NGC2117", "", "OC", "05 47.8", "-67 27"],
+    ["NGC2118", "", "OC", "05 47.7", "-69 08"],
+    ["NGC2119", "", "Gx", "05 57.4", "+11 57"],
+    ["NGC2120", "", "OC", "05 50.6", "-63 40"],
+    ["NGC2121", "", "OC", "05 48.2", "-71 29"],
+    ["NGC2122", "", "OC", "05 48.9", "-70 04"],
+    ["NGC2123", "", "OC", "05 51.7", "-65 19"],
+    ["NGC2124", "", "Gx", "05 57.9", "-20 05"],
+    ["NGC2125", "", "OC", "05 50.9", "-69 29"],
+    ["NGC2126", "", "OC", "06 02.6", "+49 52"],
+    ["NGC2127", "", "OC", "05 51.4", "-69 22"],
+    ["NGC2128", "", "Gx", "06 04.6", "+57 38"],
+    ["NGC2129", "", "OC", "06 01.1", "+23 19"],
+    ["NGC2130", "", "OC", "05 52.4", "-67 20"],
+    ["NGC2131", "", "Gx", "05 58.8", "-26 39"],
+    ["NGC2133", "", "OC", "05 51.5", "-71 10"],
+    ["NGC2134", "", "OC", "05 51.9", "-71 06"],
+    ["NGC2135", "", "OC", "05 53.6", "-67 26"],
+    ["NGC2136", "", "OC", "05 53.0", "-69 30"],
+    ["NGC2137", "", "OC", "05 53.2", "-69 29"],
+    ["NGC2138", "", "OC", "05 54.8", "-65 50"],
+    ["NGC2139", "", "Gx", "06 01.1", "-23 40"],
+    ["NGC2140", "", "OC", "05 54.3", "-68 36"],
+    ["NGC2141", "", "OC", "06 02.9", "+10 27"],
+    ["NGC2144", "", "Gx", "05 41.0", "-82 07"],
+    ["NGC2145", "", "OC", "05 54.4", "-70 54"],
+    ["NGC2146", "Dusty Hand Galaxy", "Gx", "06 23.9", "+78 32"],
+    ["NGC2147", "", "OC", "05 55.8", "-68 12"],
+    ["NGC2148", "", "Gx", "05 58.8", "-59 08"],
+    ["NGC2149", "", "RN", "06 03.5", "-09 44"],
+    ["NGC2150", "", "Gx", "05 55.8", "-69 34"],
+    ["NGC2151", "", "OC", "05 56.3", "-69 01"],
+    ["NGC2152", "", "Gx", "06 00.9", "-50 44"],
+    ["NGC2153", "", "OC", "05 57.9", "-66 24"],
+    ["NGC2154", "", "OC", "05 57.6", "-67 16"],
+    ["NGC2155", "", "OC", "05 58.5", "-65 29"],
+    ["NGC2156", "", "GC", "05 57.8", "-68 28"],
+    ["NGC2157", "", "OC", "05 57.6", "-69 12"],
+    ["NGC2159", "", "GC", "05 57.9", "-68 37"],
+    ["NGC2160", "", "OC", "05 58.2", "-68 17"],
+    ["NGC2161", "", "OC", "05 55.7", "-74 21"],
+    ["NGC2162", "", "GC", "06 00.5", "-63 43"],
+    ["NGC2163", "", "RN", "06 07.8", "+18 39"],
+    ["NGC2164", "", "OC", "05 58.9", "-68 31"],
+    ["NGC2166", "", "OC", "05 59.6", "-67 57"],
+    ["NGC2169", "The 37 Cluster", "OC", "06 08.4", "+13 59"],
+    ["NGC2170", "Mon R2 IRS3", "RN", "06 07.8", "-06 23"],
+    ["NGC2171", "", "OC", "05 58.4", "-70 39"],
+    ["NGC2172", "", "OC", "06 00.1", "-68 38"],
+    ["NGC2173", "", "GC", "05 58.0", "-72 59"],
+    ["NGC2175", "", "OC", "06 09.7", "+20 29"],
+    ["NGC2176", "", "OC", "06 01.3", "-66 51"],
+    ["NGC2177", "", "OC", "06 01.3", "-67 44"],
+    ["NGC2178", "", "Gx", "06 02.8", "-63 46"],
+    ["NGC2179", "", "Gx", "06 08.0", "-21 45"],
+    ["NGC2180", "", "OC", "06 09.8", "+04 48"],
+    ["NGC2181", "", "OC", "06 02.7", "-65 16"],
+    ["NGC2182", "", "RN", "06 09.5", "-06 20"],
+    ["NGC2183", "", "Neb", "06 10.8", "-06 12"],
+    ["NGC2185", "", "RN", "06 10.0", "-06 12"],
+    ["NGC2186", "", "OC", "06 12.1", "+05 27"],
+    ["NGC2187", "", "Gx", "06 03.8", "-69 35"],
+    ["NGC2188", "", "Gx", "06 10.2", "-34 07"],
+    ["NGC2190", "", "GC", "06 01.0", "-74 44"],
+    ["NGC2191", "", "Gx", "06 08.4", "-52 31"],
+    ["NGC2192", "", "OC", "06 15.3", "+39 52"],
+    ["NGC2193", "", "OC", "06 06.3", "-65 06"],
+    ["NGC2194", "Intergalactic Wanderer", "OC", "06 13.8", "+12 49"],
+    ["NGC2196", "", "Gx", "06 12.2", "-21 48"],
+    ["NGC2197", "", "OC", "06 06.1", "-67 06"],
+    ["NGC2199", "", "Gx", "06 04.7", "-73 24"],
+    ["NGC2200", "", "Gx", "06 13.3", "-43 40"],
+    ["NGC2201", "", "Gx", "06 13.5", "-43 42"],
+    ["NGC2203", "", "OC", "06 04.7", "-75 26"],
+    ["NGC2204", "", "OC", "06 15.5", "-18 40"],
+    ["NGC2205", "", "Gx", "06 10.5", "-62 32"],
+    ["NGC2206", "", "Gx", "06 16.0", "-26 46"],
+    ["NGC2207", "", "Gx", "06 16.4", "-21 22"],
+    ["NGC2208", "", "Gx", "06 22.6", "+51 55"],
+    ["NGC2209", "", "GC", "06 08.6", "-73 51"],
+    ["NGC2210", "", "OC", "06 11.5", "-69 07"],
+    ["NGC2211", "", "Gx", "06 18.5", "-18 32"],
+    ["NGC2212", "", "Gx", "06 18.6", "-18 31"],
+    ["NGC2213", "", "OC", "06 10.7", "-71 32"],
+    ["NGC2214", "", "OC", "06 12.9", "-68 16"],
+    ["NGC2215", "", "OC", "06 20.8", "-07 17"],
+    ["NGC2216", "", "Gx", "06 21.5", "-22 05"],
+    ["NGC2217", "", "Gx", "06 21.7", "-27 14"],
+    ["NGC2221", "", "Gx", "06 20.3", "-57 35"],
+    ["NGC2222", "", "Gx", "06 20.3", "-57 32"],
+    ["NGC2223", "", "Gx", "06 24.6", "-22 50"],
+    ["NGC2227", "", "Gx", "06 26.0", "-22 00"],
+    ["NGC2228", "", "Gx", "06 21.3", "-64 28"],
+    ["NGC2229", "", "Gx", "06 21.4", "-64 57"],
+    ["NGC2230", "", "Gx", "06 21.5", "-65 00"],
+    ["NGC2231", "", "GC", "06 20.7", "-67 31"],
+    ["NGC2232", "Double Wedge Cluster", "OC", "06 27.3", "-04 45"],
+    ["NGC2233", "", "Gx", "06 21.7", "-65 02"],
+    ["NGC2235", "", "Gx", "06 22.4", "-64 56"],
+    ["NGC2236", "", "OC", "06 29.7", "+06 49"],
+    ["NGC2238", "Rosette Nebula", "Neb", "06 30.5", "+05 03"],
+    ["NGC2241", "", "OC", "06 22.9", "-68 55"],
+    ["NGC2242", "", "PN", "06 34.1", "+44 47"],
+    ["NGC2243", "", "OC", "06 29.6", "-31 17"],
+    ["NGC2245", "", "RN", "06 32.7", "+10 10"],
+    ["NGC2246", "Rosette Nebula", "Neb", "06 30.7", "+04 59"],
+    ["NGC2247", "", "RN", "06 33.1", "+10 19"],
+    ["NGC2249", "", "GC", "06 25.8", "-68 55"],
+    ["NGC2250", "", "OC", "06 33.7", "-05 05"],
+    ["NGC2251", "", "OC", "06 34.6", "+08 22"],
+    ["NGC2252", "", "OC", "06 35.0", "+05 25"],
+    ["NGC2253", "", "Gx", "06 43.2", "+65 41"],
+    ["NGC2254", "", "OC", "06 35.8", "+07 40"],
+    ["NGC2255", "", "Gx", "06 34.0", "-34 49"],
+    ["NGC2256", "", "Gx", "06 47.2", "+74 14"],
+    ["NGC2257", "", "OC", "06 30.2", "-64 20"],
+    ["NGC2258", "", "Gx", "06 47.8", "+74 29"],
+    ["NGC2259", "", "OC", "06 38.6", "+10 53"],
+    ["NGC2262", "", "OC", "06 39.7", "+01 08"],
+    ["NGC2263", "", "Gx", "06 38.5", "-24 51"],
+    ["NGC2266", "", "OC", "06 43.3", "+26 59"],
+    ["NGC2267", "", "Gx", "06 40.9", "-32 29"],
+    ["NGC2268", "", "Gx", "07 14.3", "+84 23"],
+    ["NGC2269", "", "OC", "06 43.2", "+04 37"],
+    ["NGC2271", "", "Gx", "06 42.9", "-23 29"],
+    ["NGC2272", "", "Gx", "06 42.7", "-27 28"],
+    ["NGC2273", "", "Gx", "06 46.5", "+60 20"],
+    ["NGC2274", "", "Gx", "06 47.3", "+33 34"],
+    ["NGC2275", "", "Gx", "06 47.3", "+33 36"],
+    ["NGC2276", "", "Gx", "07 27.2", "+85 45"],
+    ["NGC2280", "", "Gx", "06 44.8", "-27 38"],
+    ["NGC2281", "Broken Heart Cluster", "OC", "06 48.3", "+41 05"],
+    ["NGC2282", "", "RN", "06 46.9", "+01 19"],
+    ["NGC2283", "", "Gx", "06 45.9", "-18 13"],
+    ["NGC2286", "", "OC", "06 47.7", "-03 09"],
+    ["NGC2288", "", "Gx", "06 50.9", "+33 28"],
+    ["NGC2289", "", "Gx", "06 50.9", "+33 29"],
+    ["NGC2290", "", "Gx", "06 50.9", "+33 26"],
+    ["NGC2291", "", "Gx", "06 51.0", "+33 32"],
+    ["NGC2292", "", "Gx", "06 47.7", "-26 45"],
+    ["NGC2293", "", "Gx", "06 47.7", "-26 45"],
+    ["NGC2294", "", "Gx", "06 51.2", "+33 32"],
+    ["NGC2295", "", "Gx", "06 47.4", "-26 44"],
+    ["NGC2296", "", "RN", "06 48.7", "-16 54"],
+    ["NGC2297", "", "Gx", "06 44.4", "-63 43"],
+    ["NGC2298", "", "GC", "06 49.0", "-36 00"],
+    ["NGC2300", "", "Gx", "07 32.3", "+85 43"],
+    ["NGC2301", "Hagrid's Dragon Cluster", "OC", "06 51.8", "+00 28"],
+    ["NGC2302", "", "OC", "06 51.9", "-07 05"],
+    ["NGC2303", "", "Gx", "06 56.3", "+45 30"],
+    ["NGC2304", "", "OC", "06 55.0", "+18 01"],
+    ["NGC2305", "", "Gx", "06 48.6", "-64 16"],
+    ["NGC2307", "", "Gx", "06 48.8", "-64 20"],
+    ["NGC2308", "", "Gx", "06 58.6", "+45 13"],
+    ["NGC2309", "", "OC", "06 56.1", "-07 10"],
+    ["NGC2310", "", "Gx", "06 53.9", "-40 52"],
+    ["NGC2311", "", "OC", "06 57.8", "-04 37"],
+    ["NGC2314", "", "Gx", "07 10.5", "+75 20"],
+    ["NGC2315", "", "Gx", "07 02.6", "+50 35"],
+    ["NGC2320", "", "Gx", "07 05.7", "+50 35"],
+    ["NGC2321", "", "Gx", "07 06.0", "+50 45"],
+    ["NGC2322", "", "Gx", "07 06.0", "+50 31"],
+    ["NGC2324", "", "OC", "07 04.1", "+01 03"],
+    ["NGC2325", "", "Gx", "07 02.7", "-28 42"],
+    ["NGC2326", "", "Gx", "07 08.6", "+50 38"],
+    ["NGC2327", "", "RN", "07 04.1", "-11 19"],
+    ["NGC2328", "", "Gx", "07 02.6", "-42 04"],
+    ["NGC2329", "", "Gx", "07 09.1", "+48 37"],
+    ["NGC2330", "", "Gx", "07 09.5", "+50 09"],
+    ["NGC2331", "", "OC", "07 06.7", "+27 15"],
+    ["NGC2332", "", "Gx", "07 09.6", "+50 11"],
+    ["NGC2333", "", "Gx", "07 08.4", "+35 10"],
+    ["NGC2335", "", "OC", "07 06.8", "-10 02"],
+    ["NGC2336", "", "Gx", "07 27.1", "+80 11"],
+    ["NGC2337", "", "Gx", "07 10.2", "+44 27"],
+    ["NGC2339", "", "Gx", "07 08.3", "+18 47"],
+    ["NGC2340", "", "Gx", "07 11.2", "+50 10"],
+    ["NGC2341", "", "Gx", "07 09.2", "+20 36"],
+    ["NGC2342", "", "Gx", "07 09.3", "+20 38"],
+    ["NGC2343", "Doublemint Cluster", "OC", "07 08.1", "-10 37"],
+    ["NGC2344", "", "Gx", "07 12.5", "+47 10"],
+    ["NGC2345", "", "OC", "07 08.3", "-13 12"],
+    ["NGC2346", "Butterfly Nebula", "PN", "07 09.4", "-00 48"],
+    ["NGC2347", "", "Gx", "07 16.1", "+64 43"],
+    ["NGC2350", "", "Gx", "07 13.2", "+12 16"],
+    ["NGC2353", "Avery's Island", "OC", "07 14.5", "-10 16"],
+    ["NGC2354", "", "OC", "07 14.2", "-25 41"],
+    ["NGC2355", "", "OC", "07 17.0", "+13 45"],
+    ["NGC2357", "", "Gx", "07 17.7", "+23 21"],
+    ["NGC2360", "Caroline's Cluster", "OC", "07 17.7", "-15 39"],
+    ["NGC2362", "τ CMa Cluster", "OC", "07 18.7", "-24 57"],
+    ["NGC2363", "", "Gx", "07 28.5", "+69 12"],
+    ["NGC2365", "", "Gx", "07 22.4", "+22 05"],
+    ["NGC2366", "", "Gx", "07 28.9", "+69 13"],
+    ["NGC2367", "Charlie Brown's Christmas Tree", "OC", "07 20.1", "-21 53"],
+    ["NGC2368", "", "OC", "07 21.0", "-10 23"],
+    ["NGC2369", "", "Gx", "07 16.6", "-62 21"],
+    ["NGC2370", "", "Gx", "07 25.0", "+23 47"],
+    ["NGC2371", "Gemini Nebula", "PN", "07 25.6", "+29 29"],
+    ["NGC2373", "", "Gx", "07 26.6", "+33 49"],
+    ["NGC2374", "", "OC", "07 23.9", "-13 16"],
+    ["NGC2375", "", "Gx", "07 27.2", "+33 50"],
+    ["NGC2376", "", "Gx", "07 26.6", "+23 04"],
+    ["NGC2377", "", "Gx", "07 24.9", "-09 40"],
+    ["NGC2378", "", "Gx", "07 27.4", "+33 49"],
+    ["NGC2380", "", "Gx", "07 23.9", "-27 32"],
+    ["NGC2381", "", "Gx", "07 20.0", "-63 04"],
+    ["NGC2383", "", "OC", "07 24.7", "-20 57"],
+    ["NGC2384", "", "OC", "07 25.2", "-21 01"],
+    ["NGC2385", "", "Gx", "07 28.5", "+33 50"],
+    ["NGC2387", "", "Gx", "07 29.0", "+36 53"],
+    ["NGC2388", "", "Gx", "07 28.9", "+33 49"],
+    ["NGC2389", "", "Gx", "07 29.1", "+33 52"],
+    ["NGC2393", "", "Gx", "07 30.1", "+34 02"],
+    ["NGC2395", "", "OC", "07 27.1", "+13 35"],
+    ["NGC2396", "", "OC", "07 28.0", "-11 43"],
+    ["NGC2397", "", "Gx", "07 21.3", "-69 00"],
+    ["NGC2398", "", "Gx", "07 30.3", "+24 29"],
+    ["NGC2401", "", "OC", "07 29.4", "-13 58"],
+    ["NGC2402", "", "Gx", "07 30.8", "+09 39"],
+    ["NGC2405", "", "Gx", "07 32.2", "+25 54"],
+    ["NGC2406", "", "Gx", "07 31.8", "+18 17"],
+    ["NGC2407", "", "Gx", "07 31.9", "+18 20"],
+    ["NGC2409", "Firsse 213", "EN", "07 31.6", "-17 12"],
+    ["NGC2410", "", "Gx", "07 35.0", "+32 49"],
+    ["NGC2411", "", "Gx", "07 34.6", "+18 17"],
+    ["NGC2414", "", "OC", "07 33.2", "-15 27"],
+    ["NGC2416", "", "Gx", "07 35.7", "+11 37"],
+    ["NGC2417", "", "Gx", "07 30.2", "-62 15"],
+    ["NGC2418", "", "Gx", "07 36.6", "+17 53"],
+    ["NGC2419", "Intergalactic Wanderer", "GC", "07 38.1", "+38 53"],
+    ["NGC2420", "Twinkling Comet Cluster", "OC", "07 38.4", "+21 34"],
+    ["NGC2421", "", "OC", "07 36.2", "-20 37"],
+    ["NGC2423", "", "OC", "07 37.1", "-13 52"],
+    ["NGC2424", "", "Gx", "07 40.7", "+39 14"],
+    ["NGC2426", "", "Gx", "07 43.3", "+52 19"],
+    ["NGC2427", "", "Gx", "07 36.5", "-47 38"],
+    ["NGC2429", "", "Gx", "07 43.8", "+52 21"],
+    ["NGC2431", "", "Gx", "07 45.2", "+53 05"],
+    ["NGC2432", "", "OC", "07 40.9", "-19 05"],
+    ["NGC2434", "", "Gx", "07 34.9", "-69 17"],
+    ["NGC2435", "", "Gx", "07 44.2", "+31 39"],
+    ["NGC2438", "", "PN", "07 41.8", "-14 44"],
+    ["NGC2439", "Bold Arrow Cluster", "OC", "07 40.8", "-31 42"],
+    ["NGC2440", "Albino Butterfly Nebula", "PN", "07 41.9", "-18 12"],
+    ["NGC2441", "", "Gx", "07 51.9", "+73 01"],
+    ["NGC2442", "Meathook Galaxy", "Gx", "07 36.4", "-69 32"],
+    ["NGC2444", "", "Gx", "07 46.9", "+39 02"],
+    ["NGC2445", "", "Gx", "07 46.9", "+39 01"],
+    ["NGC2446", "", "Gx", "07 48.7", "+54 37"],
+    ["NGC2449", "", "Gx", "07 47.3", "+26 56"],
+    ["NGC2450", "", "Gx", "07 47.5", "+27 01"],
+    ["NGC2451", "Stinging Scorpion Cluster", "OC", "07 45.4", "-37 58"],
+    ["NGC2452", "", "PN", "07 47.4", "-27 20"],
+    ["NGC2453", "", "OC", "07 47.6", "-27 12"],
+    ["NGC2454", "", "Gx", "07 50.6", "+16 22"],
+    ["NGC2455", "", "OC", "07 49.0", "-21 18"],
+    ["NGC2456", "", "Gx", "07 54.2", "+55 30"],
+    ["NGC2457", "", "Gx", "07 54.9", "+55 33"],
+    ["NGC2458", "", "Gx", "07 55.9", "+56 43"],
+    ["NGC2460", "", "Gx", "07 56.9", "+60 21"],
+    ["NGC2462", "", "Gx", "07 56.5", "+56 41"],
+    ["NGC2463", "", "Gx", "07 57.2", "+56 41"],
+    ["NGC2466", "", "Gx", "07 45.3", "-71 25"],
+    ["NGC2467", "Skull and Crossbones Nebula", "Neb", "07 52.3", "-26 26"],
+    ["NGC2468", "", "Gx", "07 58.0", "+56 22"],
+    ["NGC2469", "", "Gx", "07 58.1", "+56 41"],
+    ["NGC2470", "", "Gx", "07 54.3", "+04 28"],
+    ["NGC2472", "", "Gx", "07 58.7", "+56 42"],
+    ["NGC2474", "", "Gx", "07 58.0", "+52 51"],
+    ["NGC2475", "", "Gx", "07 58.0", "+52 52"],
+    ["NGC2476", "", "Gx", "07 56.8", "+39 56"],
+    ["NGC2477", "Electric Guitar Cluster", "OC", "07 52.2", "-38 32"],
+    ["NGC2479", "", "OC", "07 55.1", "-17 43"],
+    ["NGC2480", "", "Gx", "07 57.2", "+23 47"],
+    ["NGC2481", "", "Gx", "07 57.2", "+23 46"],
+    ["NGC2482", "", "OC", "07 55.2", "-24 15"],
+    ["NGC2483", "", "OC", "07 55.6", "-27 54"],
+    ["NGC2484", "", "Gx", "07 58.5", "+37 47"],
+    ["NGC2485", "", "Gx", "07 56.8", "+07 29"],
+    ["NGC2486", "", "Gx", "07 57.9", "+25 10"],
+    ["NGC2487", "", "Gx", "07 58.3", "+25 09"],
+    ["NGC2488", "", "Gx", "08 01.8", "+56 33"],
+    ["NGC2489", "", "OC", "07 56.3", "-30 04"],
+    ["NGC2490", "", "Gx", "07 59.3", "+27 05"],
+    ["NGC2491", "", "Gx", "07 58.5", "+07 59"],
+    ["NGC2492", "", "Gx", "07 59.5", "+27 02"],
+    ["NGC2493", "", "Gx", "08 00.4", "+39 50"],
+    ["NGC2494", "", "Gx", "07 59.1", "-00 38"],
+    ["NGC2495", "", "Gx", "08 00.6", "+39 50"],
+    ["NGC2496", "", "Gx", "07 58.6", "+08 02"],
+    ["NGC2497", "", "Gx", "08 02.2", "+56 57"],
+    ["NGC2498", "", "Gx", "07 59.6", "+24 59"],
+    ["NGC2499", "", "Gx", "07 58.9", "+07 30"],
+    ["NGC2500", "", "Gx", "08 01.9", "+50 44"],
+    ["NGC2501", "", "Gx", "07 58.5", "-14 21"],
+    ["NGC2502", "", "Gx", "07 55.9", "-52 18"],
+    ["NGC2503", "", "Gx", "08 00.6", "+22 24"],
+    ["NGC2504", "", "Gx", "07 59.9", "+05 37"],
+    ["NGC2505", "", "Gx", "08 04.1", "+53 33"],
+    ["NGC2506", "", "OC", "08 00.0", "-10 46"],
+    ["NGC2507", "", "Gx", "08 01.6", "+15 43"],
+    ["NGC2508", "", "Gx", "08 02.0", "+08 33"],
+    ["NGC2509", "", "OC", "08 00.7", "-19 04"],
+    ["NGC2510", "", "Gx", "08 02.2", "+09 29"],
+    ["NGC2511", "", "Gx", "08 02.2", "+09 24"],
+    ["NGC2512", "", "Gx", "08 03.1", "+23 24"],
+    ["NGC2513", "", "Gx", "08 02.4", "+09 25"],
+    ["NGC2514", "", "Gx", "08 02.8", "+15 49"],
+    ["NGC2516", "Diamond Cluster", "OC", "07 58.1", "-60 45"],
+    ["NGC2517", "", "Gx", "08 02.8", "-12 19"],
+    ["NGC2518", "", "Gx", "08 07.3", "+51 08"],
+    ["NGC2521", "", "Gx", "08 08.8", "+57 46"],
+    ["NGC2522", "", "Gx", "08 06.2", "+17 42"],
+    ["NGC2523", "", "Gx", "08 17.7", "+73 19"],
+    ["NGC2524", "", "Gx", "08 08.2", "+39 09"],
+    ["NGC2525", "", "Gx", "08 05.6", "-11 26"],
+    ["NGC2526", "", "Gx", "08 07.0", "+08 00"],
+    ["NGC2527", "", "OC", "08 05.0", "-28 09"],
+    ["NGC2528", "", "Gx", "08 07.4", "+39 12"],
+    ["NGC2529", "", "Gx", "08 07.9", "+17 49"],
+    ["NGC2532", "", "Gx", "08 10.3", "+33 57"],
+    ["NGC2533", "", "OC", "08 07.1", "-29 53"],
+    ["NGC2534", "", "Gx", "08 12.9", "+55 40"],
+    ["NGC2535", "", "Gx", "08 11.2", "+25 12"],
+    ["NGC2536", "", "Gx", "08 11.3", "+25 11"],
+    ["NGC2537", "Bear's Paw Galaxy", "Gx", "08 13.2", "+45 59"],
+    ["NGC2538", "", "Gx", "08 11.4", "+03 38"],
+    ["NGC2539", "The Dish Cluster", "OC", "08 10.6", "-12 49"],
+    ["NGC2540", "", "Gx", "08 12.8", "+26 22"],
+    ["NGC2541", "", "Gx", "08 14.7", "+49 04"],
+    ["NGC2543", "", "Gx", "08 13.0", "+36 15"],
+    ["NGC2544", "", "Gx", "08 21.7", "+73 59"],
+    ["NGC2545", "", "Gx", "08 14.2", "+21 21"],
+    ["NGC2546", "Heart and Dagger Cluster", "OC", "08 12.2", "-37 36"],
+    ["NGC2547", "Golden Earring Cluster", "OC", "08 09.9", "-49 12"],
+    ["NGC2549", "", "Gx", "08 19.0", "+57 48"],
+    ["NGC2550", "", "Gx", "08 28.7", "+73 45"],
+    ["NGC2551", "", "Gx", "08 24.8", "+73 25"],
+    ["NGC2552", "", "Gx", "08 19.3", "+50 00"],
+    ["NGC2553", "", "Gx", "08 17.6", "+20 54"],
+    ["NGC2554", "", "Gx", "08 17.9", "+23 28"],
+    ["NGC2555", "", "Gx", "08 17.9", "+00 45"],
+    ["NGC2556", "", "Gx", "08 19.0", "+20 56"],
+    ["NGC2557", "Malus Cluster", "Gx", "08 19.2", "+21 26"],
+    ["NGC2558", "", "Gx", "08 19.2", "+20 31"],
+    ["NGC2559", "", "Gx", "08 17.1", "-27 27"],
+    ["NGC2560", "", "Gx", "08 19.9", "+20 59"],
+    ["NGC2561", "", "Gx", "08 19.6", "+04 39"],
+    ["NGC2562", "", "Gx", "08 20.4", "+21 08"],
+    ["NGC2563", "", "Gx", "08 20.6", "+21 04"],
+    ["NGC2564", "", "Gx", "08 18.5", "-21 49"],
+    ["NGC2565", "", "Gx", "08 19.8", "+22 02"],
+    ["NGC2566", "", "Gx", "08 18.8", "-25 30"],
+    ["NGC2567", "", "OC", "08 18.5", "-30 38"],
+    ["NGC2569", "", "Gx", "08 21.4", "+20 52"],
+    ["NGC2570", "", "Gx", "08 21.4", "+20 55"],
+    ["NGC2571", "", "OC", "08 18.9", "-29 45"],
+    ["NGC2572", "", "Gx", "08 21.4", "+19 09"],
+    ["NGC2573", "Polarissima Australis", "Gx", "01 41.6", "-89 20"],
+    ["NGC2574", "", "Gx", "08 20.8", "-08 55"],
+    ["NGC2575", "", "Gx", "08 22.7", "+24 18"],
+    ["NGC2576", "", "Gx", "08 23.0", "+25 44"],
+    ["NGC2577", "", "Gx", "08 22.7", "+22 33"],
+    ["NGC2578", "", "Gx", "08 21.4", "-13 19"],
+    ["NGC2579", "", "Neb", "08 20.9", "-36 13"],
+    ["NGC2580", "", "OC", "08 21.5", "-30 18"],
+    ["NGC2581", "", "Gx", "08 24.5", "+18 36"],
+    ["NGC2582", "", "Gx", "08 25.2", "+20 20"],
+    ["NGC2583", "", "Gx", "08 23.1", "-05 00"],
+    ["NGC2584", "", "Gx", "08 23.3", "-04 58"],
+    ["NGC2585", "", "Gx", "08 23.4", "-04 55"],
+    ["NGC2586", "", "Gx", "08 24.5", "-04 53"],
+    ["NGC2587", "", "OC", "08 23.4", "-29 30"],
+    ["NGC2588", "", "OC", "08 23.2", "-32 58"],
+    ["NGC2590", "", "Gx", "08 25.0", "-00 35"],
+    ["NGC2591", "", "Gx", "08 37.4", "+78 02"],
+    ["NGC2592", "", "Gx", "08 27.1", "+25 58"],
+    ["NGC2593", "", "Gx", "08 26.8", "+17 22"],
+    ["NGC2594", "", "Gx", "08 27.3", "+25 53"],
+    ["NGC2595", "", "Gx", "08 27.7", "+21 29"],
+    ["NGC2596", "", "Gx", "08 27.4", "+17 17"],
+    ["NGC2597", "", "Gx", "08 30.0", "+21 29"],
+    ["NGC2599", "", "Gx", "08 32.2", "+22 34"],
+    ["NGC2600", "", "Gx", "08 34.8", "+52 43"],
+    ["NGC2601", "", "Gx", "08 25.5", "-68 07"],
+    ["NGC2602", "", "Gx", "08 35.1", "+52 50"],
+    ["NGC2603", "", "Gx", "08 35.6", "+52 47"],
+    ["NGC2604", "", "Gx", "08 33.4", "+29 32"],
+    ["NGC2606", "", "Gx", "08 35.6", "+52 47"],
+    ["NGC2607", "", "Gx", "08 33.9", "+26 58"],
+    ["NGC2608", "", "Gx", "08 35.3", "+28 28"],
+    ["NGC2610", "", "PN", "08 33.4", "-16 09"],
+    ["NGC2611", "", "Gx", "08 35.5", "+25 02"],
+    ["NGC2612", "", "Gx", "08 33.8", "-13 10"],
+    ["NGC2613", "", "Gx", "08 33.4", "-22 58"],
+    ["NGC2614", "", "Gx", "08 42.8", "+72 59"],
+    ["NGC2615", "", "Gx", "08 34.6", "-02 33"],
+    ["NGC2616", "", "Gx", "08 35.6", "-01 51"],
+    ["NGC2617", "", "Gx", "08 35.6", "-04 05"],
+    ["NGC2618", "", "Gx", "08 35.9", "+00 42"],
+    ["NGC2619", "", "Gx", "08 37.5", "+28 42"],
+    ["NGC2620", "", "Gx", "08 37.5", "+24 57"],
+    ["NGC2621", "", "Gx", "08 37.6", "+25 00"],
+    ["NGC2622", "", "Gx", "08 38.2", "+24 54"],
+    ["NGC2623", "", "Gx", "08 38.4", "+25 45"],
+    ["NGC2624", "", "Gx", "08 38.2", "+19 44"],
+    ["NGC2625", "", "Gx", "08 38.4", "+19 43"],
+    ["NGC2627", "", "OC", "08 37.2", "-29 57"],
+    ["NGC2628", "", "Gx", "08 40.4", "+23 32"],
+    ["NGC2629", "", "Gx", "08 47.3", "+72 59"],
+    ["NGC2630", "", "Gx", "08 45.6", "+73 00"],
+    ["NGC2633", "", "Gx", "08 48.1", "+74 06"],
+    ["NGC2634", "", "Gx", "08 48.6", "+73 56"],
+    ["NGC2635", "", "OC", "08 38.5", "-34 46"],
+    ["NGC2636", "", "Gx", "08 48.4", "+73 40"],
+    ["NGC2637", "", "Gx", "08 41.2", "+19 41"],
+    ["NGC2638", "", "Gx", "08 42.4", "+37 13"],
+    ["NGC2639", "", "Gx", "08 43.6", "+50 12"],
+    ["NGC2640", "", "Gx", "08 37.4", "-55 07"],
+    ["NGC2641", "", "Gx", "08 48.0", "+72 54"],
+    ["NGC2642", "", "Gx", "08 40.7", "-04 07"],
+    ["NGC2643", "", "Gx", "08 41.9", "+19 42"],
+    ["NGC2644", "", "Gx", "08 41.5", "+04 59"],
+    ["NGC2645", "", "OC", "08 39.0", "-46 14"],
+    ["NGC2646", "", "Gx", "08 50.4", "+73 28"],
+    ["NGC2647", "", "Gx", "08 42.7", "+19 39"],
+    ["NGC2648", "", "Gx", "08 42.7", "+14 17"],
+    ["NGC2649", "", "Gx", "08 44.1", "+34 43"],
+    ["NGC2650", "", "Gx", "08 50.0", "+70 18"],
+    ["NGC2651", "", "Gx", "08 43.9", "+11 46"],
+    ["NGC2654", "", "Gx", "08 49.2", "+60 13"],
+    ["NGC2655", "", "Gx", "08 55.6", "+78 13"],
+    ["NGC2656", "", "Gx", "08 47.9", "+53 53"],
+    ["NGC2657", "", "Gx", "08 45.3", "+09 39"],
+    ["NGC2658", "", "OC", "08 43.5", "-32 40"],
+    ["NGC2659", "", "OC", "08 42.6", "-44 59"],
+    ["NGC2660", "", "OC", "08 42.6", "-47 12"],
+    ["NGC2661", "", "Gx", "08 46.0", "+12 37"],
+    ["NGC2662", "", "Gx", "08 45.5", "-15 07"],
+    ["NGC2663", "", "Gx", "08 45.1", "-33 48"],
+    ["NGC2665", "", "Gx", "08 46.0", "-19 18"],
+    ["NGC2667", "", "Gx", "08 48.5", "+19 01"],
+    ["NGC2668", "", "Gx", "08 49.4", "+36 43"],
+    ["NGC2669", "", "OC", "08 46.4", "-52 57"],
+    ["NGC2670", "", "OC", "08 45.5", "-48 48"],
+    ["NGC2671", "", "OC", "08 46.2", "-41 52"],
+    ["NGC2672", "", "Gx", "08 49.4", "+19 04"],
+    ["NGC2673", "", "Gx", "08 49.4", "+19 04"],
+    ["NGC2674", "", "Gx", "08 49.2", "-14 18"],
+    ["NGC2675", "", "Gx", "08 52.1", "+53 37"],
+    ["NGC2676", "", "Gx", "08 51.6", "+47 33"],
+    ["NGC2677", "", "Gx", "08 50.0", "+19 01"],
+    ["NGC2679", "", "Gx", "08 51.5", "+30 52"],
+    ["NGC2680", "", "Gx", "08 51.6", "+30 52"],
+    ["NGC2681", "", "Gx", "08 53.5", "+51 19"],
+    ["NGC2683", "UFO Galaxy", "Gx", "08 52.7", "+33 25"],
+    ["NGC2684", "", "Gx", "08 54.9", "+49 10"],
+    ["NGC2685", "Helix Galaxy", "Gx", "08 55.6", "+58 44"],
+    ["NGC2686", "Spindle Galaxy", "Gx", "08 55.0", "+49 09"],
+    ["NGC2687", "", "Gx", "08 55.1", "+49 09"],
+    ["NGC2688", "", "Gx", "08 55.2", "+49 07"],
+    ["NGC2689", "", "Gx", "08 55.3", "+49 09"],
+    ["NGC2690", "", "Gx", "08 52.6", "-02 36"],
+    ["NGC2691", "", "Gx", "08 54.8", "+39 32"],
+    ["NGC2692", "", "Gx", "08 57.0", "+52 04"],
+    ["NGC2693", "", "Gx", "08 57.0", "+51 21"],
+    ["NGC2694", "", "Gx", "08 57.0", "+51 20"],
+    ["NGC2695", "", "Gx", "08 54.5", "-03 04"],
+    ["NGC2697", "", "Gx", "08 55.0", "-02 59"],
+    ["NGC2698", "", "Gx", "08 55.6", "-03 11"],
+    ["NGC2699", "", "Gx", "08 55.8", "-03 08"],
+    ["NGC2701", "", "Gx", "08 59.1", "+53 46"],
+    ["NGC2704", "", "Gx", "08 56.8", "+39 23"],
+    ["NGC2706", "", "Gx", "08 56.2", "-02 34"],
+    ["NGC2708", "", "Gx", "08 56.1", "-03 22"],
+    ["NGC2709", "", "Gx", "08 56.2", "-03 15"],
+    ["NGC2710", "", "Gx", "08 59.8", "+55 42"],
+    ["NGC2711", "", "Gx", "08 57.4", "+17 17"],
+    ["NGC2712", "", "Gx", "08 59.5", "+44 55"],
+    ["NGC2713", "", "Gx", "08 57.3", "+02 55"],
+    ["NGC2714", "", "Gx", "08 53.5", "-59 13"],
+    ["NGC2715", "", "Gx", "09 08.1", "+78 05"],
+    ["NGC2716", "", "Gx", "08 57.6", "+03 05"],
+    ["NGC2717", "", "Gx", "08 57.0", "-24 40"],
+    ["NGC2718", "", "Gx", "08 58.8", "+06 18"],
+    ["NGC2719", "", "Gx", "09 00.3", "+35 44"],
+    ["NGC2720", "", "Gx", "08 59.1", "+11 09"],
+    ["NGC2721", "", "Gx", "08 58.9", "-04 54"],
+    ["NGC2722", "", "Gx", "08 58.8", "-03 43"],
+    ["NGC2723", "", "Gx", "09 00.2", "+03 11"],
+    ["NGC2724", "", "Gx", "09 01.0", "+35 46"],
+    ["NGC2725", "", "Gx", "09 01.1", "+11 06"],
+    ["NGC2726", "", "Gx", "09 04.9", "+59 56"],
+    ["NGC2728", "", "Gx", "09 01.7", "+11 05"],
+    ["NGC2729", "", "Gx", "09 01.5", "+03 43"],
+    ["NGC2730", "", "Gx", "09 02.3", "+16 50"],
+    ["NGC2731", "", "Gx", "09 02.1", "+08 18"],
+    ["NGC2732", "", "Gx", "09 13.4", "+79 11"],
+    ["NGC2734", "", "Gx", "09 03.0", "+16 52"],
+    ["NGC2735", "", "Gx", "09 02.6", "+25 56"],
+    ["NGC2736", "Pencil Nebula", "Neb", "09 00.2", "-45 57"],
+    ["NGC2737", "", "Gx", "09 04.0", "+21 54"],
+    ["NGC2738", "", "Gx", "09 04.0", "+21 58"],
+    ["NGC2739", "", "Gx", "09 06.0", "+51 45"],
+    ["NGC2740", "", "Gx", "09 06.1", "+51 44"],
+    ["NGC2742", "", "Gx", "09 07.6", "+60 29"],
+    ["NGC2743", "", "Gx", "09 04.9", "+25 00"],
+    ["NGC2744", "", "Gx", "09 04.7", "+18 28"],
+    ["NGC2745", "", "Gx", "09 04.7", "+18 15"],
+    ["NGC2746", "", "Gx", "09 06.0", "+35 23"],
+    ["NGC2747", "", "Gx", "09 05.3", "+18 27"],
+    ["NGC2748", "", "Gx", "09 13.7", "+76 29"],
+    ["NGC2749", "", "Gx", "09 05.4", "+18 19"],
+    ["NGC2750", "", "Gx", "09 05.8", "+25 26"],
+    ["NGC2751", "", "Gx", "09 05.5", "+18 16"],
+    ["NGC2752", "", "Gx", "09 05.7", "+18 20"],
+    ["NGC2753", "", "Gx", "09 07.1", "+25 21"],
+    ["NGC2754", "", "Gx", "09 05.2", "-19 05"],
+    ["NGC2755", "", "Gx", "09 08.0", "+41 43"],
+    ["NGC2756", "", "Gx", "09 09.0", "+53 51"],
+    ["NGC2758", "", "Gx", "09 05.5", "-19 03"],
+    ["NGC2759", "", "Gx", "09 08.6", "+37 37"],
+    ["NGC2761", "", "Gx", "09 07.5", "+18 26"],
+    ["NGC2762", "", "Gx", "09 09.9", "+50 25"],
+    ["NGC2763", "", "Gx", "09 06.8", "-15 30"],
+    ["NGC2764", "", "Gx", "09 08.3", "+21 27"],
+    ["NGC2765", "", "Gx", "09 07.6", "+03 24"],
+    ["NGC2766", "", "Gx", "09 08.8", "+29 52"],
+    ["NGC2767", "", "Gx", "09 10.2", "+50 24"],
+    ["NGC2768", "", "Gx", "09 11.6", "+60 02"],
+    ["NGC2769", "NGC 2769 Group", "Gx", "09 10.5", "+50 26"],
+    ["NGC2770", "Supernova Factory", "Gx", "09 09.6", "+33 07"],
+    ["NGC2771", "", "Gx", "09 10.7", "+50 23"],
+    ["NGC2772", "", "Gx", "09 07.7", "-23 37"],
+    ["NGC2773", "", "Gx", "09 09.7", "+07 10"],
+    ["NGC2774", "", "Gx", "09 10.7", "+18 42"],
+    ["NGC2775", "", "Gx", "09 10.3", "+07 02"],
+    ["NGC2776", "", "Gx", "09 12.2", "+44 57"],
+    ["NGC2777", "", "Gx", "09 10.7", "+07 12"],
+    ["NGC2778", "", "Gx", "09 12.4", "+35 02"],
+    ["NGC2779", "", "Gx", "09 12.5", "+35 03"],
+    ["NGC2780", "", "Gx", "09 12.7", "+34 56"],
+    ["NGC2781", "", "Gx", "09 11.5", "-14 49"],
+    ["NGC2782", "", "Gx", "09 14.1", "+40 07"],
+    ["NGC2783", "", "Gx", "09 13.6", "+30 00"],
+    ["NGC2784", "", "Gx", "09 12.3", "-24 10"],
+    ["NGC2785", "", "Gx", "09 15.3", "+40 55"],
+    ["NGC2786", "", "Gx", "09 13.6", "+12 26"],
+    ["NGC2787", "", "Gx", "09 19.3", "+69 12"],
+    ["NGC2788", "", "Gx", "09 09.0", "-67 56"],
+    ["NGC2789", "", "Gx", "09 15.0", "+29 44"],
+    ["NGC2790", "", "Gx", "09 15.0", "+19 42"],
+    ["NGC2791", "", "Gx", "09 15.0", "+17 36"],
+    ["NGC2792", "", "PN", "09 12.4", "-42 26"],
+    ["NGC2793", "", "Gx", "09 16.8", "+34 26"],
+    ["NGC2794", "", "Gx", "09 16.0", "+17 35"],
+    ["NGC2795", "", "Gx", "09 16.1", "+17 38"],
+    ["NGC2796", "", "Gx", "09 16.7", "+30 55"],
+    ["NGC2797", "", "Gx", "09 16.4", "+17 44"],
+    ["NGC2798", "", "Gx", "09 17.4", "+42 00"],
+    ["NGC2799", "", "Gx", "09 17.5", "+42 00"],
+    ["NGC2800", "", "Gx", "09 18.6", "+52 31"],
+    ["NGC2801", "", "Gx", "09 16.7", "+19 56"],
+    ["NGC2802", "", "Gx", "09 16.7", "+18 58"],
+    ["NGC2803", "", "Gx", "09 16.7", "+18 57"],
+    ["NGC2804", "", "Gx", "09 16.8", "+20 12"],
+    ["NGC2805", "", "Gx", "09 20.3", "+64 06"],
+    ["NGC2806", "", "Gx", "09 17.0", "+20 02"],
+    ["NGC2807", "", "Gx", "09 17.0", "+20 02"],
+    ["NGC2808", "", "GC", "09 12.1", "-64 52"],
+    ["NGC2809", "", "Gx", "09 17.1", "+20 04"],
+    ["NGC2810", "", "Gx", "09 22.1", "+71 51"],
+    ["NGC2811", "", "Gx", "09 16.2", "-16 19"],
+    ["NGC2812", "", "Gx", "09 17.7", "+19 55"],
+    ["NGC2813", "", "Gx", "09 17.8", "+19 54"],
+    ["NGC2814", "", "Gx", "09 21.2", "+64 15"],
+    ["NGC2815", "", "Gx", "09 16.3", "-23 38"],
+    ["NGC2817", "", "Gx", "09 17.2", "-04 45"],
+    ["NGC2818", "", "PN", "09 16.0", "-36 38"],
+    ["NGC2819", "", "Gx", "09 18.2", "+16 12"],
+    ["NGC2820", "", "Gx", "09 21.8", "+64 15"],
+    ["NGC2821", "", "Gx", "09 16.8", "-26 49"],
+    ["NGC2822", "", "Gx", "09 13.8", "-69 39"],
+    ["NGC2823", "", "Gx", "09 19.3", "+34 00"],
+    ["NGC2824", "", "Gx", "09 19.0", "+26 16"],
+    ["NGC2825", "", "Gx", "09 19.4", "+33 45"],
+    ["NGC2826", "", "Gx", "09 19.4", "+33 37"],
+    ["NGC2827", "", "Gx", "09 19.3", "+33 53"],
+    ["NGC2828", "", "Gx", "09 19.6", "+33 53"],
+    ["NGC2829", "", "Gx", "09 19.5", "+33 39"],
+    ["NGC2830", "", "Gx", "09 19.7", "+33 44"],
+    ["NGC2831", "", "Gx", "09 19.8", "+33 45"],
+    ["NGC2832", "", "Gx", "09 19.8", "+33 45"],
+    ["NGC2833", "", "Gx", "09 20.0", "+33 56"],
+    ["NGC2834", "", "Gx", "09 20.0", "+33 43"],
+    ["NGC2835", "", "Gx", "09 17.9", "-22 21"],
+    ["NGC2836", "", "Gx", "09 13.7", "-69 20"],
+    ["NGC2838", "", "Gx", "09 20.7", "+39 19"],
+    ["NGC2839", "", "Gx", "09 20.6", "+33 39"],
+    ["NGC2840", "", "Gx", "09 20.9", "+35 22"],
+    ["NGC2842", "", "Gx", "09 15.6", "-63 04"],
+    ["NGC2843", "", "Gx", "09 20.5", "+18 56"],
+    ["NGC2844", "", "Gx", "09 21.8", "+40 09"],
+    ["NGC2845", "", "Gx", "09 18.6", "-38 01"],
+    ["NGC2848", "", "Gx", "09 20.2", "-16 32"],
+    ["NGC2849", "", "OC", "09 19.4", "-40 31"],
+    ["NGC2850", "", "Gx", "09 21.0", "-04 56"],
+    ["NGC2851", "", "Gx", "09 20.5", "-16 30"],
+    ["NGC2852", "", "Gx", "09 23.2", "+40 10"],
+    ["NGC2853", "", "Gx", "09 23.3", "+40 12"],
+    ["NGC2854", "", "Gx", "09 24.1", "+49 12"],
+    ["NGC2855", "", "Gx", "09 21.5", "-11 55"],
+    ["NGC2856", "", "Gx", "09 24.3", "+49 15"],
+    ["NGC2857", "", "Gx", "09 24.6", "+49 21"],
+    ["NGC2858", "", "Gx", "09 22.9", "+03 09"],
+    ["NGC2859", "", "Gx", "09 24.3", "+34 31"],
+    ["NGC2860", "", "Gx", "09 24.9", "+41 04"],
+    ["NGC2861", "", "Gx", "09 23.6", "+02 08"],
+    ["NGC2862", "", "Gx", "09 24.9", "+26 46"],
+    ["NGC2863", "", "Gx", "09 23.6", "-10 26"],
+    ["NGC2864", "", "Gx", "09 24.3", "+05 56"],
+    ["NGC2865", "", "Gx", "09 23.5", "-23 10"],
+    ["NGC2867", "", "PN", "09 21.4", "-58 19"],
+    ["NGC2868", "", "Gx", "09 23.5", "-10 26"],
+    ["NGC2870", "", "Gx", "09 27.9", "+57 23"],
+    ["NGC2872", "", "Gx", "09 25.7", "+11 26"],
+    ["NGC2873", "", "Gx", "09 25.8", "+11 27"],
+    ["NGC2874", "", "Gx", "09 25.8", "+11 25"],
+    ["NGC2876", "", "Gx", "09 25.2", "-06 43"],
+    ["NGC2877", "", "Gx", "09 25.8", "+02 14"],
+    ["NGC2878", "", "Gx", "09 25.8", "+02 05"],
+    ["NGC2880", "", "Gx", "09 29.6", "+62 29"],
+    ["NGC2881", "", "Gx", "09 25.9", "-12 00"],
+    ["NGC2882", "", "Gx", "09 26.6", "+07 57"],
+    ["NGC2883", "", "Gx", "09 25.3", "-34 06"],
+    ["NGC2884", "", "Gx", "09 26.4", "-11 33"],
+    ["NGC2885", "", "Gx", "09 27.3", "+23 01"],
+    ["NGC2887", "", "Gx", "09 23.4", "-63 49"],
+    ["NGC2888", "", "Gx", "09 26.3", "-28 02"],
+    ["NGC2889", "", "Gx", "09 27.2", "-11 39"],
+    ["NGC2890", "", "Gx", "09 26.5", "-14 32"],
+    ["NGC2891", "", "Gx", "09 26.9", "-24 47"],
+    ["NGC2892", "", "Gx", "09 32.9", "+67 37"],
+    ["NGC2893", "", "Gx", "09 30.3", "+29 32"],
+    ["NGC2894", "", "Gx", "09 29.5", "+07 43"],
+    ["NGC2895", "", "Gx", "09 32.4", "+57 29"],
+    ["NGC2896", "", "Gx", "09 30.3", "+23 40"],
+    ["NGC2897", "", "Gx", "09 29.8", "+02 12"],
+    ["NGC2898", "", "Gx", "09 29.8", "+02 04"],
+    ["NGC2899", "", "PN", "09 27.1", "-56 06"],
+    ["NGC2900", "", "Gx", "09 30.3", "+04 09"],
+    ["NGC2902", "", "Gx", "09 30.9", "-14 44"],
+    ["NGC2904", "", "Gx", "09 30.3", "-30 23"],
+    ["NGC2906", "", "Gx", "09 32.1", "+08 27"],
+    ["NGC2907", "", "Gx", "09 31.6", "-16 44"],
+    ["NGC2908", "", "Gx", "09 43.5", "+79 42"],
+    ["NGC2909", "", "Gx", "09 44.2", "+65 59"],
+    ["NGC2910", "", "OC", "09 30.5", "-52 55"],
+    ["NGC2911", "", "Gx", "09 33.8", "+10 09"],
+    ["NGC2912", "", "Gx", "09 33.9", "+10 10"],
+    ["NGC2913", "", "Gx", "09 34.0", "+09 29"],
+    ["NGC2914", "", "Gx", "09 34.0", "+10 07"],
+    ["NGC2915", "", "Gx", "09 26.2", "-76 38"],
+    ["NGC2916", "", "Gx", "09 35.0", "+21 42"],
+    ["NGC2917", "", "Gx", "09 34.4", "-02 30"],
+    ["NGC2918", "", "Gx", "09 35.7", "+31 42"],
+    ["NGC2919", "", "Gx", "09 34.8", "+10 17"],
+    ["NGC2920", "", "Gx", "09 34.2", "-20 52"],
+    ["NGC2921", "", "Gx", "09 34.5", "-20 55"],
+    ["NGC2922", "", "Gx", "09 36.9", "+37 42"],
+    ["NGC2923", "", "Gx", "09 36.1", "+16 46"],
+    ["NGC2924", "", "Gx", "09 35.2", "-16 24"],
+    ["NGC2925", "", "OC", "09 33.2", "-53 24"],
+    ["NGC2926", "", "Gx", "09 37.5", "+32 50"],
+    ["NGC2927", "", "Gx", "09 37.3", "+23 35"],
+    ["NGC2928", "", "Gx", "09 37.2", "+16 59"],
+    ["NGC2930", "", "Gx", "09 37.5", "+23 12"],
+    ["NGC2931", "", "Gx", "09 37.6", "+23 14"],
+    ["NGC2933", "", "Gx", "09 37.9", "+17 01"],
+    ["NGC2935", "", "Gx", "09 36.7", "-21 08"],
+    ["NGC2936", "The Penguin Galaxy", "Gx", "09 37.7", "+02 46"],
+    ["NGC2937", "The Egg Galaxy", "Gx", "09 37.8", "+02 45"],
+    ["NGC2938", "", "Gx", "09 38.4", "+76 19"],
+    ["NGC2939", "", "Gx", "09 38.1", "+09 31"],
+    ["NGC2940", "", "Gx", "09 38.1", "+09 37"],
+    ["NGC2941", "", "Gx", "09 38.4", "+17 03"],
+    ["NGC2942", "", "Gx", "09 39.1", "+34 00"],
+    ["NGC2943", "", "Gx", "09 38.5", "+17 02"],
+    ["NGC2944", "", "Gx", "09 39.3", "+32 19"],
+    ["NGC2945", "", "Gx", "09 37.7", "-22 02"],
+    ["NGC2946", "", "Gx", "09 39.0", "+17 02"],
+    ["NGC2947", "", "Gx", "09 36.1", "-12 26"],
+    ["NGC2948", "", "Gx", "09 39.0", "+06 57"],
+    ["NGC2949", "", "Gx", "09 39.9", "+16 55"],
+    ["NGC2950", "", "Gx", "09 42.6", "+58 51"],
+    ["NGC2951", "", "Gx", "09 39.7", "-00 14"],
+    ["NGC2952", "", "Gx", "09 37.6", "-10 11"],
+    ["NGC2954", "", "Gx", "09 40.4", "+14 55"],
+    ["NGC2955", "", "Gx", "09 41.3", "+35 53"],
+    ["NGC2956", "", "Gx", "09 39.3", "-19 06"],
+    ["NGC2957", "", "Gx", "09 47.3", "+72 59"],
+    ["NGC2958", "", "Gx", "09 40.7", "+11 53"],
+    ["NGC2959", "", "Gx", "09 45.2", "+68 36"],
+    ["NGC2960", "", "Gx", "09 40.6", "+03 35"],
+    ["NGC2961", "", "Gx", "09 45.4", "+68 36"],
+    ["NGC2962", "", "Gx", "09 40.9", "+05 10"],
+    ["NGC2963", "", "Gx", "09 47.8", "+72 58"],
+    ["NGC2964", "", "Gx", "09 42.9", "+31 51"],
+    ["NGC2965", "", "Gx", "09 43.3", "+36 15"],
+    ["NGC2966", "", "Gx", "09 42.2", "+04 40"],
+    ["NGC2967", "", "Gx", "09 42.1", "+00 20"],
+    ["NGC2968", "", "Gx", "09 43.2", "+31 56"],
+    ["NGC2969", "", "Gx", "09 41.9", "-08 36"],
+    ["NGC2970", "", "Gx", "09 43.5", "+31 59"],
+    ["NGC2971", "", "Gx", "09 43.8", "+36 11"],
+    ["NGC2972", "", "OC", "09 40.2", "-50 20"],
+    ["NGC2973", "", "Gx", "09 38.0", "-30 09"],
+    ["NGC2974", "", "Gx", "09 42.6", "-03 42"],
+    ["NGC2975", "", "Gx", "09 41.3", "-16 40"],
+    ["NGC2976", "", "Gx", "09 47.3", "+67 55"],
+    ["NGC2977", "", "Gx", "09 43.8", "+74 52"],
+    ["NGC2978", "", "Gx", "09 43.3", "-09 45"],
+    ["NGC2979", "", "Gx", "09 43.1", "-10 23"],
+    ["NGC2980", "", "Gx", "09 43.2", "-09 37"],
+    ["NGC2981", "", "Gx", "09 44.9", "+31 06"],
+    ["NGC2983", "", "Gx", "09 43.7", "-20 29"],
+    ["NGC2984", "", "Gx", "09 43.7", "+11 04"],
+    ["NGC2985", "", "Gx", "09 50.4", "+72 17"],
+    ["NGC2986", "", "Gx", "09 44.3", "-21 17"],
+    ["NGC2987", "", "Gx", "09 45.7", "+04 57"],
+    ["NGC2988", "", "Gx", "09 46.8", "+22 01"],
+    ["NGC2989", "", "Gx", "09 45.4", "-18 22"],
+    ["NGC2990", "", "Gx", "09 46.3", "+05 43"],
+    ["NGC2991", "", "Gx", "09 46.8", "+22 01"],
+    ["NGC2992", "", "Gx", "09 45.7", "-14 20"],
+    ["NGC2993", "", "Gx", "09 45.8", "-14 22"],
+    ["NGC2994", "", "Gx", "09 47.3", "+22 05"],
+    ["NGC2996", "", "Gx", "09 46.5", "-21 34"],
+    ["NGC2997", "", "Gx", "09 45.6", "-31 11"],
+    ["NGC2998", "", "Gx", "09 48.7", "+44 05"],
+    ["NGC3001", "", "Gx", "09 46.3", "-30 26"],
+    ["NGC3002", "", "Gx", "09 49.1", "+44 03"],
+    ["NGC3003", "", "Gx", "09 48.6", "+33 25"],
+    ["NGC3005", "", "Gx", "09 49.2", "+44 08"],
+    ["NGC3006", "", "Gx", "09 49.3", "+44 02"],
+    ["NGC3007", "", "Gx", "09 47.8", "-06 26"],
+    ["NGC3008", "", "Gx", "09 49.6", "+44 06"],
+    ["NGC3009", "", "Gx", "09 50.2", "+44 18"],
+    ["NGC3010", "", "Gx", "09 50.6", "+44 19"],
+    ["NGC3011", "", "Gx", "09 49.7", "+32 13"],
+    ["NGC3012", "", "Gx", "09 49.9", "+34 43"],
+    ["NGC3013", "", "Gx", "09 50.2", "+33 34"],
+    ["NGC3014", "", "Gx", "09 49.1", "-04 45"],
+    ["NGC3015", "", "Gx", "09 49.4", "+01 09"],
+    ["NGC3016", "", "Gx", "09 49.8", "+12 42"],
+    ["NGC3017", "", "Gx", "09 49.1", "-02 49"],
+    ["NGC3018", "", "Gx", "09 49.7", "+00 37"],
+    ["NGC3019", "", "Gx", "09 50.1", "+12 45"],
+    ["NGC3020", "", "Gx", "09 50.1", "+12 49"],
+    ["NGC3021", "", "Gx", "09 51.0", "+33 33"],
+    ["NGC3022", "", "Gx", "09 49.7", "-05 10"],
+    ["NGC3023", "", "Gx", "09 49.9", "+00 37"],
+    ["NGC3024", "", "Gx", "09 50.5", "+12 46"],
+    ["NGC3025", "", "Gx", "09 49.5", "-21 45"],
+    ["NGC3026", "", "Gx", "09 50.9", "+28 33"],
+    ["NGC3027", "", "Gx", "09 55.7", "+72 12"],
+    ["NGC3028", "", "Gx", "09 49.9", "-19 11"],
+    ["NGC3029", "", "Gx", "09 48.9", "-08 03"],
+    ["NGC3030", "", "Gx", "09 50.2", "-12 14"],
+    ["NGC3032", "", "Gx", "09 52.1", "+29 14"],
+    ["NGC3033", "", "OC", "09 48.6", "-56 25"],
+    ["NGC3035", "", "Gx", "09 51.9", "-06 49"],
+    ["NGC3037", "", "Gx", "09 51.4", "-27 01"],
+    ["NGC3038", "", "Gx", "09 51.3", "-32 45"],
+    ["NGC3039", "", "Gx", "09 52.5", "+02 09"],
+    ["NGC3040", "", "Gx", "09 53.1", "+19 26"],
+    ["NGC3041", "", "Gx", "09 53.1", "+16 41"],
+    ["NGC3042", "", "Gx", "09 53.3", "+00 42"],
+    ["NGC3043", "", "Gx", "09 56.2", "+59 18"],
+    ["NGC3044", "", "Gx", "09 53.7", "+01 35"],
+    ["NGC3045", "", "Gx", "09 53.3", "-18 39"],
+    ["NGC3047", "", "Gx", "09 54.5", "-01 17"],
+    ["NGC3048", "", "Gx", "09 54.9", "+16 27"],
+    ["NGC3049", "", "Gx", "09 54.8", "+09 16"],
+    ["NGC3051", "", "Gx", "09 54.0", "-27 17"],
+    ["NGC3052", "", "Gx", "09 54.5", "-18 38"],
+    ["NGC3053", "", "Gx", "09 55.6", "+16 26"],
+    ["NGC3054", "", "Gx", "09 54.5", "-25 42"],
+    ["NGC3055", "", "Gx", "09 55.3", "+04 16"],
+    ["NGC3056", "", "Gx", "09 54.5", "-28 18"],
+    ["NGC3057", "", "Gx", "10 05.7", "+80 17"],
+    ["NGC3058", "", "Gx", "09 53.6", "-12 29"],
+    ["NGC3059", "", "Gx", "09 50.1", "-73 55"],
+    ["NGC3060", "", "Gx", "09 56.3", "+16 50"],
+    ["NGC3061", "", "Gx", "09 56.2", "+75 52"],
+    ["NGC3062", "", "Gx", "09 56.6", "+01 26"],
+    ["NGC3064", "", "Gx", "09 55.7", "-06 22"],
+    ["NGC3065", "", "Gx", "10 01.9", "+72 10"],
+    ["NGC3066", "", "Gx", "10 02.2", "+72 08"],
+    ["NGC3067", "", "Gx", "09 58.4", "+32 22"],
+    ["NGC3068", "", "Gx", "09 58.7", "+28 53"],
+    ["NGC3069", "", "Gx", "09 57.9", "+10 26"],
+    ["NGC3070", "", "Gx", "09 58.1", "+10 22"],
+    ["NGC3071", "", "Gx", "09 58.9", "+31 37"],
+    ["NGC3072", "", "Gx", "09 57.4", "-19 21"],
+    ["NGC3073", "", "Gx", "10 00.9", "+55 37"],
+    ["NGC3074", "", "Gx", "09 59.7", "+35 24"],
+    ["NGC3075", "", "Gx", "09 58.9", "+14 25"],
+    ["NGC3076", "", "Gx", "09 57.6", "-18 11"],
+    ["NGC3077", "The Garland Galaxy", "Gx", "10 03.3", "+68 44"],
+    ["NGC3078", "", "Gx", "09 58.4", "-26 56"],
+    ["NGC3079", "The Phantom Frisbee Galaxy", "Gx", "10 02.0", "+55 41"],
+    ["NGC3080", "", "Gx", "09 59.9", "+13 03"],
+    ["NGC3081", "", "Gx", "09 59.5", "-22 50"],
+    ["NGC3082", "", "Gx", "09 58.9", "-30 21"],
+    ["NGC3083", "", "Gx", "09 59.8", "-02 53"],
+    ["NGC3084", "", "Gx", "09 59.1", "-27 08"],
+    ["NGC3085", "", "Gx", "09 59.5", "-19 30"],
+    ["NGC3086", "", "Gx", "10 00.2", "-02 59"],
+    ["NGC3087", "", "Gx", "09 59.1", "-34 14"],
+    ["NGC3088", "", "Gx", "10 01.1", "+22 24"],
+    ["NGC3089", "", "Gx", "09 59.6", "-28 20"],
+    ["NGC3090", "", "Gx", "10 00.5", "-02 58"],
+    ["NGC3091", "", "Gx", "10 00.2", "-19 38"],
+    ["NGC3092", "", "Gx", "10 00.8", "-03 01"],
+    ["NGC3093", "", "Gx", "10 00.9", "-02 58"],
+    ["NGC3094", "", "Gx", "10 01.4", "+15 46"],
+    ["NGC3095", "", "Gx", "10 00.1", "-31 33"],
+    ["NGC3096", "", "Gx", "10 00.6", "-19 40"],
+    ["NGC3098", "", "Gx", "10 02.3", "+24 43"],
+    ["NGC3099", "", "Gx", "10 02.6", "+32 42"],
+    ["NGC3100", "", "Gx", "10 00.7", "-31 40"],
+    ["NGC3101", "", "Gx", "10 01.6", "-03 00"],
+    ["NGC3102", "", "Gx", "10 04.5", "+60 06"],
+    ["NGC3104", "", "Gx", "10 04.0", "+40 45"],
+    ["NGC3105", "", "OC", "10 00.7", "-54 47"],
+    ["NGC3106", "", "Gx", "10 04.1", "+31 11"],
+    ["NGC3107", "", "Gx", "10 04.4", "+13 37"],
+    ["NGC3108", "", "Gx", "10 02.5", "-31 41"],
+    ["NGC3109", "", "Gx", "10 03.1", "-26 10"],
+    ["NGC3110", "", "Gx", "10 04.0", "-06 28"],
+    ["NGC3111", "", "Gx", "10 06.1", "+47 16"],
+    ["NGC3112", "", "Gx", "10 04.0", "-20 47"],
+    ["NGC3113", "", "Gx", "10 04.4", "-28 27"],
+    ["NGC3114", "Hand Cluster", "OC", "10 02.6", "-60 07"],
+    ["NGC3116", "", "Gx", "10 06.8", "+31 06"],
+    ["NGC3117", "", "Gx", "10 06.2", "+02 55"],
+    ["NGC3118", "", "Gx", "10 07.2", "+33 02"],
+    ["NGC3119", "", "Gx", "10 06.8", "+14 19"],
+    ["NGC3120", "", "Gx", "10 05.4", "-34 13"],
+    ["NGC3121", "", "Gx", "10 06.9", "+14 22"],
+    ["NGC3124", "", "Gx", "10 06.7", "-19 13"],
+    ["NGC3125", "", "Gx", "10 06.6", "-29 56"],
+    ["NGC3126", "", "Gx", "10 08.3", "+31 52"],
+    ["NGC3127", "", "Gx", "10 06.4", "-16 08"],
+    ["NGC3128", "", "Gx", "10 06.0", "-16 07"],
+    ["NGC3130", "", "Gx", "10 08.2", "+09 59"],
+    ["NGC3131", "", "Gx", "10 08.6", "+18 14"],
+    ["NGC3133", "", "Gx", "10 07.2", "-11 58"],
+    ["NGC3134", "", "Gx", "10 12.5", "+12 23"],
+    ["NGC3135", "", "Gx", "10 10.9", "+45 57"],
+    ["NGC3136", "", "Gx", "10 05.8", "-67 23"],
+    ["NGC3137", "", "Gx", "10 09.1", "-29 04"],
+    ["NGC3138", "", "Gx", "10 09.3", "-11 57"],
+    ["NGC3139", "", "Gx", "10 10.1", "-11 47"],
+    ["NGC3140", "", "Gx", "10 09.5", "-16 38"],
+    ["NGC3141", "", "Gx", "10 09.3", "-16 39"],
+    ["NGC3142", "", "Gx", "10 10.1", "-08 29"],
+    ["NGC3143", "", "Gx", "10 10.1", "-12 35"],
+    ["NGC3144", "", "Gx", "10 15.5", "+74 13"],
+    ["NGC3145", "", "Gx", "10 10.2", "-12 26"],
+    ["NGC3146", "", "Gx", "10 11.2", "-20 52"],
+    ["NGC3147", "", "Gx", "10 16.9", "+73 24"],
+    ["NGC3148", "", "Gx", "10 13.4", "+50 27"],
+    ["NGC3149", "", "Gx", "10 03.7", "-80 25"],
+    ["NGC3150", "", "Gx", "10 13.4", "+38 39"],
+    ["NGC3151", "", "Gx", "10 13.5", "+38 37"],
+    ["NGC3152", "", "Gx", "10 13.6", "+38 51"],
+    ["NGC3153", "", "Gx", "10 12.8", "+12 40"],
+    ["NGC3154", "", "Gx", "10 13.0", "+17 02"],
+    ["NGC3155", "", "Gx", "10 17.7", "+74 21"],
+    ["NGC3156", "", "Gx", "10 12.7", "+03 08"],
+    ["NGC3157", "", "Gx", "10 11.7", "-31 39"],
+    ["NGC3158", "", "Gx", "10 13.8", "+38 46"],
+    ["NGC3159", "", "Gx", "10 13.9", "+38 39"],
+    ["NGC3160", "", "Gx", "10 13.9", "+38 51"],
+    ["NGC3161", "", "Gx", "10 14.0", "+38 39"],
+    ["NGC3162", "", "Gx", "10 13.5", "+22 44"],
+    ["NGC3163", "", "Gx", "10 14.1", "+38 39"],
+    ["NGC3164", "", "Gx", "10 15.2", "+56 40"],
+    ["NGC3165", "", "Gx", "10 13.5", "+03 23"],
+    ["NGC3166", "", "Gx", "10 13.8", "+03 25"],
+    ["NGC3168", "", "Gx", "10 16.4", "+60 14"],
+    ["NGC3169", "", "Gx", "10 14.3", "+03 28"],
+    ["NGC3171", "", "Gx", "10 15.6", "-20 39"],
+    ["NGC3172", "Polarissima Borealis", "Gx", "11 47.2", "+89 06"],
+    ["NGC3173", "", "Gx", "10 14.6", "-27 42"],
+    ["NGC3175", "", "Gx", "10 14.7", "-28 52"],
+    ["NGC3177", "", "Gx", "10 16.6", "+21 07"],
+    ["NGC3178", "", "Gx", "10 16.2", "-15 47"],
+    ["NGC3179", "", "Gx", "10 18.0", "+41 07"],
+    ["NGC3180", "Little Pinwheel Galaxy", "Gx", "10 18.3", "+41 25"],
+    ["NGC3182", "", "Gx", "10 19.6", "+58 12"],
+    ["NGC3183", "", "Gx", "10 21.8", "+74 11"],
+    ["NGC3185", "Leo Quartet", "Gx", "10 17.6", "+21 41"],
+    ["NGC3186", "", "Gx", "10 17.6", "+06 58"],
+    ["NGC3187", "Leo Quartet", "Gx", "10 17.8", "+21 52"],
+    ["NGC3188", "", "Gx", "10 19.7", "+57 25"],
+    ["NGC3189", "NGC 3190 Group", "Gx", "10 18.1", "+21 50"],
+    ["NGC3191", "", "Gx", "10 19.1", "+46 27"],
+    ["NGC3193", "Leo Quartet", "Gx", "10 18.4", "+21 54"],
+    ["NGC3195", "", "PN", "10 09.3", "-80 52"],
+    ["NGC3196", "", "Gx", "10 18.8", "+27 40"],
+    ["NGC3197", "", "Gx", "10 14.5", "+77 49"],
+    ["NGC3198", "", "Gx", "10 19.9", "+45 33"],
+    ["NGC3199", "", "Neb", "10 16.5", "-57 56"],
+    ["NGC3200", "", "Gx", "10 18.6", "-17 59"],
+    ["NGC3201", "", "GC", "10 17.6", "-46 25"],
+    ["NGC3202", "", "Gx", "10 20.5", "+43 01"],
+    ["NGC3203", "", "Gx", "10 19.6", "-26 42"],
+    ["NGC3204", "", "Gx", "10 20.2", "+27 49"],
+    ["NGC3205", "", "Gx", "10 20.8", "+42 58"],
+    ["NGC3206", "", "Gx", "10 21.8", "+56 56"],
+    ["NGC3207", "", "Gx", "10 21.0", "+42 59"],
+    ["NGC3208", "", "Gx", "10 19.7", "-25 49"],
+    ["NGC3209", "", "Gx", "10 20.6", "+25 30"],
+    ["NGC3211", "", "PN", "10 17.8", "-62 40"],
+    ["NGC3212", "", "Gx", "10 28.3", "+79 49"],
+    ["NGC3213", "", "Gx", "10 21.3", "+19 39"],
+    ["NGC3214", "", "Gx", "10 23.1", "+57 02"],
+    ["NGC3215", "", "Gx", "10 28.7", "+79 49"],
+    ["NGC3216", "", "Gx", "10 21.7", "+23 55"],
+    ["NGC3219", "", "Gx", "10 22.6", "+38 35"],
+    ["NGC3220", "", "Gx", "10 23.7", "+57 02"],
+    ["NGC3221", "", "Gx", "10 22.3", "+21 34"],
+    ["NGC3222", "", "Gx", "10 22.6", "+19 53"],
+    ["NGC3223", "", "Gx", "10 21.6", "-34 16"],
+    ["NGC3224", "", "Gx", "10 21.7", "-34 42"],
+    ["NGC3225", "", "Gx", "10 25.2", "+58 09"],
+    ["NGC3226", "", "Gx", "10 23.5", "+19 54"],
+    ["NGC3227", "", "Gx", "10 23.5", "+19 52"],
+    ["NGC3228", "Queen's Cache Cluster", "OC", "10 21.4", "-51 44"],
+    ["NGC3229", "", "Gx", "10 21.9", "+00 18"],
+    ["NGC3230", "", "Gx", "10 23.7", "+12 34"],
+    ["NGC3232", "", "Gx", "10 24.4", "+28 02"],
+    ["NGC3233", "", "Gx", "10 22.0", "-22 16"],
+    ["NGC3235", "", "Gx", "10 25.0", "+28 01"],
+    ["NGC3236", "", "Gx", "10 26.8", "+61 16"],
+    ["NGC3237", "", "Gx", "10 25.7", "+39 39"],
+    ["NGC3238", "", "Gx", "10 26.7", "+57 14"],
+    ["NGC3239", "", "Gx", "10 25.1", "+17 10"],
+    ["NGC3240", "", "Gx", "10 24.5", "-21 47"],
+    ["NGC3241", "", "Gx", "10 24.3", "-32 29"],
+    ["NGC3243", "", "Gx", "10 26.4", "-02 37"],
+    ["NGC3244", "", "Gx", "10 25.5", "-39 50"],
+    ["NGC3245", "", "Gx", "10 27.0", "+28 38"],
+    ["NGC3246", "", "Gx", "10 26.7", "+03 52"],
+    ["NGC3247", "", "OC", "10 24.3", "-57 46"],
+    ["NGC3248", "", "Gx", "10 27.8", "+22 51"],
+    ["NGC3249", "", "Gx", "10 26.4", "-34 58"],
+    ["NGC3250", "", "Gx", "10 26.5", "-39 57"],
+    ["NGC3251", "", "Gx", "10 29.3", "+26 06"],
+    ["NGC3252", "", "Gx", "10 34.4", "+73 46"],
+    ["NGC3253", "", "Gx", "10 28.5", "+12 42"],
+    ["NGC3254", "", "Gx", "10 29.3", "+29 29"],
+    ["NGC3255", "", "OC", "10 26.7", "-60 41"],
+    ["NGC3256", "", "Gx", "10 27.9", "-43 54"],
+    ["NGC3257", "", "Gx", "10 28.8", "-35 39"],
+    ["NGC3258", "", "Gx", "10 28.9", "-35 36"],
+    ["NGC3259", "", "Gx", "10 32.6", "+65 02"],
+    ["NGC3260", "", "Gx", "10 29.1", "-35 36"],
+    ["NGC3261", "", "Gx", "10 29.0", "-44 39"],
+    ["NGC3262", "", "Gx", "10 29.1", "-44 10"],
+    ["NGC3263", "", "Gx", "10 29.2", "-44 07"],
+    ["NGC3264", "", "Gx", "10 32.3", "+56 05"],
+    ["NGC3265", "", "Gx", "10 31.1", "+28 48"],
+    ["NGC3266", "", "Gx", "10 33.3", "+64 45"],
+    ["NGC3267", "", "Gx", "10 29.8", "-35 19"],
+    ["NGC3268", "", "Gx", "10 30.0", "-35 20"],
+    ["NGC3269", "", "Gx", "10 30.0", "-35 13"],
+    ["NGC3270", "", "Gx", "10 31.5", "+24 52"],
+    ["NGC3271", "", "Gx", "10 30.4", "-35 22"],
+    ["NGC3272", "", "Gx", "10 32.2", "+28 29"],
+    ["NGC3273", "", "Gx", "10 30.5", "-35 37"],
+    ["NGC3274", "", "Gx", "10 32.3", "+27 40"],
+    ["NGC3275", "", "Gx", "10 30.9", "-36 44"],
+    ["NGC3276", "", "Gx", "10 31.2", "-39 57"],
+    ["NGC3277", "", "Gx", "10 32.9", "+28 31"],
+    ["NGC3278", "", "Gx", "10 31.6", "-39 57"],
+    ["NGC3279", "", "Gx", "10 34.7", "+11 12"],
+    ["NGC3280", "", "Gx", "10 32.8", "-12 38"],
+    ["NGC3281", "", "Gx", "10 31.9", "-34 51"],
+    ["NGC3282", "", "Gx", "10 32.4", "-22 18"],
+    ["NGC3283", "", "Gx", "10 31.2", "-46 15"],
+    ["NGC3285", "", "Gx", "10 33.6", "-27 27"],
+    ["NGC3286", "", "Gx", "10 36.4", "+58 37"],
+    ["NGC3287", "", "Gx", "10 34.8", "+21 39"],
+    ["NGC3288", "", "Gx", "10 36.4", "+58 33"],
+    ["NGC3289", "", "Gx", "10 34.1", "-35 19"],
+    ["NGC3290", "", "Gx", "10 35.3", "-17 17"],
+    ["NGC3292", "", "Gx", "10 35.6", "-06 11"],
+    ["NGC3293", "Gem Cluster", "EN", "10 35.8", "-58 14"],
+    ["NGC3294", "", "Gx", "10 36.3", "+37 19"],
+    ["NGC3296", "", "Gx", "10 32.8", "-12 43"],
+    ["NGC3297", "", "Gx", "10 33.2", "-12 40"],
+    ["NGC3298", "", "Gx", "10 37.2", "+50 07"],
+    ["NGC3299", "", "Gx", "10 36.4", "+12 42"],
+    ["NGC3300", "", "Gx", "10 36.6", "+14 10"],
+    ["NGC3301", "", "Gx", "10 36.9", "+21 53"],
+    ["NGC3302", "", "Gx", "10 35.8", "-32 22"],
+    ["NGC3303", "", "Gx", "10 37.0", "+18 08"],
+    ["NGC3304", "", "Gx", "10 37.6", "+37 27"],
+    ["NGC3305", "", "Gx", "10 36.2", "-27 10"],
+    ["NGC3306", "", "Gx", "10 37.2", "+12 39"],
+    ["NGC3307", "", "Gx", "10 36.3", "-27 32"],
+    ["NGC3308", "", "Gx", "10 36.4", "-27 26"],
+    ["NGC3309", "", "Gx", "10 36.6", "-27 31"],
+    ["NGC3310", "", "Gx", "10 38.8", "+53 30"],
+    ["NGC3311", "", "Gx", "10 36.7", "-27 32"],
+    ["NGC3312", "", "Gx", "10 37.0", "-27 34"],
+    ["NGC3313", "", "Gx", "10 37.4", "-25 19"],
+    ["NGC3314", "", "Gx", "10 37.2", "-27 41"],
+    ["NGC3315", "", "Gx", "10 37.3", "-27 12"],
+    ["NGC3316", "", "Gx", "10 37.6", "-27 36"],
+    ["NGC3318", "", "Gx", "10 37.3", "-41 38"],
+    ["NGC3319", "", "Gx", "10 39.2", "+41 41"],
+    ["NGC3320", "", "Gx", "10 39.6", "+47 24"],
+    ["NGC3321", "", "Gx", "10 38.8", "-11 39"],
+    ["NGC3323", "", "Gx", "10 39.7", "+25 19"],
+    ["NGC3324", "Keyhole Nebula", "OC", "10 37.3", "-58 39"],
+    ["NGC3325", "", "Gx", "10 39.3", "-00 12"],
+    ["NGC3326", "", "Gx", "10 39.5", "+05 06"],
+    ["NGC3327", "", "Gx", "10 40.0", "+24 05"],
+    ["NGC3329", "", "Gx", "10 44.7", "+76 49"],
+    ["NGC3330", "", "OC", "10 38.8", "-54 07"],
+    ["NGC3331", "", "Gx", "10 40.1", "-23 49"],
+    ["NGC3332", "", "Gx", "10 40.5", "+09 11"],
+    ["NGC3333", "", "Gx", "10 39.8", "-36 02"],
+    ["NGC3334", "", "Gx", "10 41.5", "+37 19"],
+    ["NGC3335", "", "Gx", "10 39.6", "-23 55"],
+    ["NGC3336", "", "Gx", "10 40.3", "-27 47"],
+    ["NGC3337", "", "Gx", "10 41.8", "+04 59"],
+    ["NGC3338", "", "Gx", "10 42.1", "+13 45"],
+    ["NGC3339", "", "Gx", "10 42.3", "-00 23"],
+    ["NGC3341", "", "Gx", "10 42.5", "+05 03"],
+    ["NGC3343", "", "Gx", "10 46.2", "+73 21"],
+    ["NGC3344", "Sliced Onion Galaxy", "Gx", "10 43.5", "+24 55"],
+    ["NGC3346", "", "Gx", "10 43.6", "+14 52"],
+    ["NGC3347", "", "Gx", "10 42.8", "-36 21"],
+    ["NGC3348", "", "Gx", "10 47.2", "+72 50"],
+    ["NGC3349", "", "Gx", "10 43.8", "+06 46"],
+    ["NGC3350", "", "Gx", "10 44.4", "+30 43"],
+    ["NGC3352", "", "Gx", "10 44.2", "+22 22"],
+    ["NGC3353", "", "Gx", "10 45.4", "+55 58"],
+    ["NGC3354", "", "Gx", "10 43.0", "-36 22"],
+    ["NGC3355", "", "Gx", "10 41.4", "-23 23"],
+    ["NGC3356", "", "Gx", "10 44.2", "+06 46"],
+    ["NGC3357", "", "Gx", "10 44.3", "+14 05"],
+    ["NGC3358", "", "Gx", "10 43.6", "-36 25"],
+    ["NGC3359", "", "Gx", "10 46.6", "+63 13"],
+    ["NGC3360", "", "Gx", "10 44.3", "-11 15"],
+    ["NGC3361", "", "Gx", "10 44.5", "-11 12"],
+    ["NGC3362", "", "Gx", "10 44.9", "+06 36"],
+    ["NGC3363", "", "Gx", "10 45.2", "+22 05"],
+    ["NGC3364", "", "Gx", "10 48.5", "+72 26"],
+    ["NGC3365", "", "Gx", "10 46.2", "+01 49"],
+    ["NGC3366", "", "Gx", "10 35.1", "-43 42"],
+    ["NGC3367", "", "Gx", "10 46.6", "+13 45"],
+    ["NGC3369", "", "Gx", "10 46.7", "-25 15"],
+    ["NGC3370", "", "Gx", "10 47.1", "+17 16"],
+    ["NGC3374", "", "Gx", "10 48.0", "+43 11"],
+    ["NGC3375", "", "Gx", "10 47.0", "-09 56"],
+    ["NGC3376", "", "Gx", "10 47.4", "+06 03"],
+    ["NGC3377", "", "Gx", "10 47.4", "+14 04"],
+    ["NGC3378", "", "Gx", "10 46.7", "-40 01"],
+    ["NGC3380", "", "Gx", "10 48.2", "+28 36"],
+    ["NGC3381", "", "Gx", "10 48.4", "+34 43"],
+    ["NGC3383", "", "Gx", "10 47.3", "-24 26"],
+    ["NGC3384", "", "Gx", "10 48.3", "+12 38"],
+    ["NGC3385", "", "Gx", "10 48.2", "+04 56"],
+    ["NGC3387", "", "Gx", "10 48.2", "+05 00"],
+    ["NGC3389", "", "Gx", "10 48.5", "+12 32"],
+    ["NGC3390", "", "Gx", "10 48.1", "-31 32"],
+    ["NGC3391", "", "Gx", "10 48.9", "+14 13"],
+    ["NGC3392", "", "Gx", "10 51.1", "+65 47"],
+    ["NGC3393", "", "Gx", "10 48.4", "-25 10"],
+    ["NGC3394", "", "Gx", "10 50.7", "+65 44"],
+    ["NGC3395", "", "Gx", "10 49.8", "+32 59"],
+    ["NGC3396", "", "Gx", "10 49.9", "+32 59"],
+    ["NGC3398", "", "Gx", "10 51.5", "+55 23"],
+    ["NGC3399", "", "Gx", "10 49.5", "+16 13"],
+    ["NGC3400", "", "Gx", "10 50.8", "+28 28"],
+    ["NGC3403", "", "Gx", "10 53.9", "+73 41"],
+    ["NGC3404", "", "Gx", "10 50.3", "-12 07"],
+    ["NGC3405", "", "Gx", "10 49.7", "+16 14"],
+    ["NGC3406", "", "Gx", "10 51.7", "+51 01"],
+    ["NGC3407", "", "Gx", "10 52.3", "+61 23"],
+    ["NGC3408", "", "Gx", "10 52.2", "+58 26"],
+    ["NGC3409", "", "Gx", "10 50.3", "-17 03"],
+    ["NGC3410", "", "Gx", "10 51.9", "+51 00"],
+    ["NGC3411", "", "Gx", "10 50.4", "-12 51"],
+    ["NGC3412", "", "Gx", "10 50.9", "+13 25"],
+    ["NGC3413", "", "Gx", "10 51.3", "+32 46"],
+    ["NGC3414", "", "Gx", "10 51.3", "+27 58"],
+    ["NGC3415", "", "Gx", "10 51.7", "+43 43"],
+    ["NGC3416", "", "Gx", "10 51.8", "+43 46"],
+    ["NGC3417", "", "Gx", "10 51.0", "+08 28"],
+    ["NGC3418", "", "Gx", "10 51.4", "+28 07"],
+    ["NGC3419", "", "Gx", "10 51.3", "+14 01"],
+    ["NGC3420", "", "Gx", "10 50.2", "-17 15"],
+    ["NGC3421", "", "Gx", "10 51.0", "-12 27"],
+    ["NGC3422", "", "Gx", "10 51.3", "-12 24"],
+    ["NGC3423", "", "Gx", "10 51.2", "+05 50"],
+    ["NGC3424", "", "Gx", "10 51.8", "+32 54"],
+    ["NGC3425", "", "Gx", "10 51.4", "+08 34"],
+    ["NGC3426", "", "Gx", "10 51.7", "+18 29"],
+    ["NGC3427", "", "Gx", "10 51.4", "+08 18"],
+    ["NGC3428", "", "Gx", "10 51.5", "+09 17"],
+    ["NGC3429", "", "Gx", "10 51.0", "+09 16"],
+    ["NGC3430", "", "Gx", "10 52.2", "+32 57"],
+    ["NGC3431", "", "Gx", "10 51.3", "-17 00"],
+    ["NGC3432", "Knitting Needle Galaxy", "Gx", "10 52.5", "+36 37"],
+    ["NGC3433", "", "Gx", "10 52.1", "+10 09"],
+    ["NGC3434", "", "Gx", "10 52.0", "+03 48"],
+    ["NGC3435", "", "Gx", "10 54.8", "+61 17"],
+    ["NGC3436", "", "Gx", "10 52.5", "+07 54"],
+    ["NGC3437", "", "Gx", "10 52.6", "+22 56"],
+    ["NGC3438", "", "Gx", "10 52.4", "+10 33"],
+    ["NGC3439", "", "Gx", "10 52.4", "+08 33"],
+    ["NGC3440", "", "Gx", "10 53.8", "+57 07"],
+    ["NGC3441", "", "Gx", "10 52.5", "+07 13"],
+    ["NGC3442", "", "Gx", "10 53.1", "+33 55"],
+    ["NGC3443", "", "Gx", "10 53.0", "+17 34"],
+    ["NGC3444", "", "Gx", "10 53.0", "+10 13"],
+    ["NGC3445", "", "Gx", "10 54.6", "+56 59"],
+    ["NGC3447", "", "Gx", "10 53.5", "+16 47"],
+    ["NGC3448", "", "Gx", "10 54.7", "+54 18"],
+    ["NGC3449", "", "Gx", "10 52.9", "-32 56"],
+    ["NGC3450", "", "Gx", "10 48.1", "-20 51"],
+    ["NGC3451", "", "Gx", "10 54.3", "+27 14"],
+    ["NGC3452", "", "Gx", "10 54.2", "-11 24"],
+    ["NGC3453", "", "Gx", "10 53.7", "-21 48"],
+    ["NGC3454", "", "Gx", "10 54.5", "+17 21"],
+    ["NGC3455", "", "Gx", "10 54.5", "+17 17"],
+    ["NGC3456", "", "Gx", "10 54.1", "-16 02"],
+    ["NGC3457", "", "Gx", "10 54.8", "+17 37"],
+    ["NGC3458", "", "Gx", "10 56.0", "+57 07"],
+    ["NGC3459", "", "Gx", "10 54.7", "-17 03"],
+    ["NGC3462", "", "Gx", "10 55.4", "+07 42"],
+    ["NGC3463", "", "Gx", "10 55.2", "-26 08"],
+    ["NGC3464", "", "Gx", "10 54.7", "-21 04"],
+    ["NGC3465", "", "Gx", "10 59.5", "+75 11"],
+    ["NGC3466", "", "Gx", "10 56.3", "+09 45"],
+    ["NGC3467", "", "Gx", "10 56.7", "+09 46"],
+    ["NGC3468", "", "Gx", "10 57.5", "+40 57"],
+    ["NGC3469", "", "Gx", "10 57.0", "-14 18"],
+    ["NGC3470", "", "Gx", "10 58.7", "+59 31"],
+    ["NGC3471", "", "Gx", "10 59.2", "+61 32"],
+    ["NGC3473", "", "Gx", "10 58.1", "+17 07"],
+    ["NGC3474", "", "Gx", "10 58.1", "+17 06"],
+    ["NGC3475", "", "Gx", "10 58.4", "+24 14"],
+    ["NGC3476", "", "Gx", "10 58.1", "+09 17"],
+    ["NGC3477", "", "Gx", "10 58.2", "+09 13"],
+    ["NGC3478", "", "Gx", "10 59.5", "+46 07"],
+    ["NGC3479", "", "Gx", "10 58.9", "-14 58"],
+    ["NGC3481", "", "Gx", "10 59.4", "-07 33"],
+    ["NGC3482", "", "Gx", "10 58.6", "-46 35"],
+    ["NGC3483", "", "Gx", "10 59.0", "-28 29"],
+    ["NGC3485", "", "Gx", "11 00.0", "+14 50"],
+    ["NGC3486", "", "Gx", "11 00.4", "+28 58"],
+    ["NGC3487", "", "Gx", "11 00.8", "+17 35"],
+    ["NGC3488", "", "Gx", "11 01.4", "+57 41"],
+    ["NGC3489", "", "Gx", "11 00.3", "+13 54"],
+    ["NGC3490", "", "Gx", "10 59.9", "+09 22"],
+    ["NGC3491", "", "Gx", "11 00.6", "+12 10"],
+    ["NGC3492", "", "Gx", "11 01.0", "+10 30"],
+    ["NGC3493", "", "Gx", "11 01.5", "+27 43"],
+    ["NGC3495", "", "Gx", "11 01.3", "+03 38"],
+    ["NGC3496", "", "OC", "10 59.6", "-60 20"],
+    ["NGC3497", "", "Gx", "11 07.3", "-19 28"],
+    ["NGC3499", "", "Gx", "11 03.2", "+56 13"],
+    ["NGC3501", "", "Gx", "11 02.8", "+17 59"],
+    ["NGC3502", "", "Gx", "11 02.3", "-14 08"],
+    ["NGC3503", "", "RN", "11 01.3", "-59 51"],
+    ["NGC3504", "", "Gx", "11 03.2", "+27 58"],
+    ["NGC3506", "", "Gx", "11 03.2", "+11 05"],
+    ["NGC3507", "", "Gx", "11 03.4", "+18 08"],
+    ["NGC3508", "", "Gx", "11 03.0", "-16 17"],
+    ["NGC3509", "", "Gx", "11 04.4", "+04 50"],
+    ["NGC3510", "", "Gx", "11 03.7", "+28 53"],
+    ["NGC3511", "", "Gx", "11 03.4", "-23 05"],
+    ["NGC3512", "", "Gx", "11 04.1", "+28 02"],
+    ["NGC3513", "", "Gx", "11 03.8", "-23 15"],
+    ["NGC3514", "", "Gx", "11 04.0", "-18 47"],
+    ["NGC3515", "", "Gx", "11 04.6", "+28 14"],
+    ["NGC3516", "", "Gx", "11 06.8", "+72 34"],
+    ["NGC3517", "", "Gx", "11 05.6", "+56 31"],
+    ["NGC3519", "", "OC", "11 04.2", "-61 22"],
+    ["NGC3520", "", "Gx", "11 06.3", "-18 16"],
+    ["NGC3521", "", "Gx", "11 05.8", "-00 02"],
+    ["NGC3522", "", "Gx", "11 06.7", "+20 05"],
+    ["NGC3523", "", "Gx", "11 03.1", "+75 07"],
+    ["NGC3524", "", "Gx", "11 06.5", "+11 23"],
+    ["NGC3527", "", "Gx", "11 07.3", "+28 32"],
+    ["NGC3529", "", "Gx", "11 07.3", "-19 33"],
+    ["NGC3530", "", "Gx", "11 08.7", "+57 14"],
+    ["NGC3531", "", "Gx", "11 06.9", "+07 10"],
+    ["NGC3532", "Wishing Well Cluster", "OC", "11 05.7", "-58 45"],
+    ["NGC3533", "", "Gx", "11 07.1", "-37 10"],
+    ["NGC3534", "", "Gx", "11 08.9", "+26 37"],
+    ["NGC3535", "", "Gx", "11 08.6", "+04 50"],
+    ["NGC3536", "", "Gx", "11 08.9", "+28 29"],
+    ["NGC3537", "", "Gx", "11 08.5", "-10 30"],
+    ["NGC3539", "", "Gx", "11 09.1", "+28 40"],
+    ["NGC3540", "", "Gx", "11 09.3", "+36 01"],
+    ["NGC3541", "", "Gx", "11 08.8", "-10 58"],
+    ["NGC3542", "", "Gx", "11 09.9", "+36 57"],
+    ["NGC3543", "", "Gx", "11 10.9", "+61 21"],
+    ["NGC3544", "", "Gx", "11 11.5", "-18 17"],
+    ["NGC3545", "", "Gx", "11 10.2", "+36 58"],
+    ["NGC3546", "", "Gx", "11 09.8", "-13 23"],
+    ["NGC3547", "", "Gx", "11 09.9", "+10 43"],
+    ["NGC3549", "", "Gx", "11 10.9", "+53 23"],
+    ["NGC3550", "", "Gx", "11 10.6", "+28 46"],
+    ["NGC3551", "", "Gx", "11 09.7", "+21 46"],
+    ["NGC3552", "", "Gx", "11 10.7", "+28 42"],
+    ["NGC3553", "", "Gx", "11 10.7", "+28 41"],
+    ["NGC3554", "", "Gx", "11 10.8", "+28 40"],
+    ["NGC3555", "", "Gx", "11 09.8", "+21 49"],
+    ["NGC3557", "", "Gx", "11 10.0", "-37 32"],
+    ["NGC3558", "", "Gx", "11 10.9", "+28 33"],
+    ["NGC3559", "", "Gx", "11 10.8", "+12 01"],
+    ["NGC3561", "Ambartsumian's Knot", "Gx", "11 11.2", "+28 42"],
+    ["NGC3562", "", "Gx", "11 13.0", "+72 53"],
+    ["NGC3564", "", "Gx", "11 10.6", "-37 33"],
+    ["NGC3565", "", "Gx", "11 07.8", "-20 01"],
+    ["NGC3567", "", "Gx", "11 11.3", "+05 50"],
+    ["NGC3568", "", "Gx", "11 10.8", "-37 27"],
+    ["NGC3569", "", "Gx", "11 12.1", "+35 27"],
+    ["NGC3570", "", "Gx", "11 12.1", "+27 35"],
+    ["NGC3572", "", "OC", "11 10.4", "-60 15"],
+    ["NGC3573", "", "Gx", "11 11.3", "-36 53"],
+    ["NGC3574", "", "Gx", "11 12.2", "+27 37"],
+    ["NGC3576", "Statue of Liberty Nebula", "Neb", "11 11.8", "-61 18"],
+    ["NGC3577", "", "Gx", "11 13.7", "+48 16"],
+    ["NGC3580", "", "Gx", "11 13.3", "+03 39"],
+    ["NGC3583", "", "Gx", "11 14.2", "+48 19"],
+    ["NGC3585", "", "Gx", "11 13.3", "-26 45"],
+    ["NGC3588", "", "Gx", "11 14.0", "+20 23"],
+    ["NGC3589", "", "Gx", "11 15.2", "+60 42"],
+    ["NGC3590", "", "OC", "11 13.0", "-60 47"],
+    ["NGC3591", "", "Gx", "11 14.1", "-14 05"],
+    ["NGC3592", "", "Gx", "11 14.5", "+17 16"],
+    ["NGC3593", "", "Gx", "11 14.6", "+12 49"],
+    ["NGC3594", "", "Gx", "11 16.2", "+55 42"],
+    ["NGC3595", "", "Gx", "11 15.4", "+47 27"],
+    ["NGC3596", "", "Gx", "11 15.1", "+14 47"],
+    ["NGC3597", "", "Gx", "11 14.7", "-23 44"],
+    ["NGC3598", "", "Gx", "11 15.2", "+17 16"],
+    ["NGC3599", "", "Gx", "11 15.4", "+18 07"],
+    ["NGC3600", "", "Gx", "11 15.9", "+41 35"],
+    ["NGC3601", "", "Gx", "11 15.6", "+05 07"],
+    ["NGC3602", "", "Gx", "11 15.8", "+17 25"],
+    ["NGC3603", "", "Neb", "11 15.4", "-61 15"],
+    ["NGC3604", "", "Gx", "11 17.5", "+04 33"],
+    ["NGC3605", "", "Gx", "11 16.8", "+18 01"],
+    ["NGC3606", "", "Gx", "11 16.3", "-33 50"],
+    ["NGC3607", "", "Gx", "11 16.9", "+18 03"],
+    ["NGC3608", "", "Gx", "11 17.0", "+18 09"],
+    ["NGC3609", "", "Gx", "11 17.8", "+26 38"],
+    ["NGC3610", "", "Gx", "11 18.4", "+58 47"],
+    ["NGC3612", "", "Gx", "11 18.2", "+26 37"],
+    ["NGC3613", "", "Gx", "11 18.6", "+58 00"],
+    ["NGC3614", "", "Gx", "11 18.4", "+45 45"],
+    ["NGC3615", "", "Gx", "11 18.1", "+23 24"],
+    ["NGC3617", "", "Gx", "11 17.8", "-26 08"],
+    ["NGC3618", "", "Gx", "11 18.5", "+23 28"],
+    ["NGC3619", "", "Gx", "11 19.4", "+57 45"],
+    ["NGC3620", "", "Gx", "11 16.1", "-76 13"],
+    ["NGC3621", "Frame Galaxy", "Gx", "11 18.3", "-32 49"],
+    ["NGC3622", "", "Gx", "11 20.2", "+67 15"],
+    ["NGC3624", "", "Gx", "11 18.8", "+07 31"],
+    ["NGC3625", "", "Gx", "11 20.5", "+57 47"],
+    ["NGC3626", "", "Gx", "11 20.1", "+18 21"],
+    ["NGC3629", "", "Gx", "11 20.5", "+26 58"],
+    ["NGC3630", "", "Gx", "11 20.3", "+02 58"],
+    ["NGC3631", "", "Gx", "11 21.0", "+53 10"],
+    ["NGC3633", "", "Gx", "11 20.4", "+03 35"],
+    ["NGC3634", "", "Gx", "11 20.5", "-09 01"],
+    ["NGC3635", "", "Gx", "11 20.5", "-09 01"],
+    ["NGC3636", "", "Gx", "11 20.4", "-10 17"],
+    ["NGC3637", "", "Gx", "11 20.7", "-10 15"],
+    ["NGC3638", "", "Gx", "11 20.2", "-08 06"],
+    ["NGC3639", "", "Gx", "11 21.6", "+18 27"],
+    ["NGC3640", "", "Gx", "11 21.1", "+03 14"],
+    ["NGC3641", "", "Gx", "11 21.1", "+03 12"],
+    ["NGC3642", "", "Gx", "11 22.3", "+59 04"],
+    ["NGC3643", "", "Gx", "11 21.4", "+03 01"],
+    ["NGC3644", "", "Gx", "11 21.5", "+02 49"],
+    ["NGC3645", "", "Gx", "11 21.7", "+02 58"],
+    ["NGC3646", "", "Gx", "11 21.7", "+20 10"],
+    ["NGC3647", "", "Gx", "11 21.6", "+02 54"],
+    ["NGC3648", "", "Gx", "11 22.5", "+39 53"],
+    ["NGC3649", "", "Gx", "11 22.2", "+20 13"],
+    ["NGC3650", "", "Gx", "11 22.6", "+20 42"],
+    ["NGC3651", "", "Gx", "11 22.4", "+24 18"],
+    ["NGC3652", "", "Gx", "11 22.7", "+37 46"],
+    ["NGC3653", "", "Gx", "11 22.5", "+24 17"],
+    ["NGC3654", "", "Gx", "11 24.2", "+69 25"],
+    ["NGC3655", "", "Gx", "11 22.9", "+16 35"],
+    ["NGC3656", "", "Gx", "11 23.6", "+53 51"],
+    ["NGC3657", "", "Gx", "11 23.9", "+52 55"],
+    ["NGC3658", "", "Gx", "11 24.0", "+38 34"],
+    ["NGC3659", "", "Gx", "11 23.8", "+17 49"],
+    ["NGC3660", "", "Gx", "11 23.5", "-08 40"],
+    ["NGC3661", "", "Gx", "11 23.6", "-13 50"],
+    ["NGC3662", "", "Gx", "11 23.8", "-01 06"],
+    ["NGC3663", "", "Gx", "11 24.0", "-12 18"],
+    ["NGC3664", "", "Gx", "11 24.4", "+03 13"],
+    ["NGC3665", "", "Gx", "11 24.7", "+38 46"],
+    ["NGC3666", "", "Gx", "11 24.4", "+11 21"],
+    ["NGC3667", "", "Gx", "11 24.3", "-13 51"],
+    ["NGC3668", "", "Gx", "11 25.5", "+63 27"],
+    ["NGC3669", "", "Gx", "11 25.4", "+57 43"],
+    ["NGC3670", "", "Gx", "11 24.8", "+23 57"],
+    ["NGC3671", "", "Gx", "11 25.9", "+60 29"],
+    ["NGC3672", "", "Gx", "11 25.0", "-09 48"],
+    ["NGC3673", "", "Gx", "11 25.2", "-26 44"],
+    ["NGC3674", "", "Gx", "11 26.4", "+57 03"],
+    ["NGC3675", "", "Gx", "11 26.1", "+43 35"],
+    ["NGC3676", "", "Gx", "11 25.6", "-11 08"],
+    ["NGC3677", "", "Gx", "11 26.3", "+46 58"],
+    ["NGC3678", "", "Gx", "11 26.3", "+27 52"],
+    ["NGC3679", "", "Gx", "11 26.1", "-05 35"],
+    ["NGC3680", "", "OC", "11 25.6", "-43 15"],
+    ["NGC3681", "", "Gx", "11 26.5", "+16 52"],
+    ["NGC3682", "", "Gx", "11 27.7", "+66 35"],
+    ["NGC3683", "", "Gx", "11 29.2", "+57 08"],
+    ["NGC3684", "", "Gx", "11 27.2", "+17 02"],
+    ["NGC3686", "", "Gx", "11 27.7", "+17 13"],
+    ["NGC3687", "", "Gx", "11 28.0", "+29 31"],
+    ["NGC3688", "", "Gx", "11 27.7", "-09 10"],
+    ["NGC3689", "", "Gx", "11 28.2", "+25 40"],
+    ["NGC3690", "", "Gx", "11 28.5", "+58 34"],
+    ["NGC3691", "", "Gx", "11 28.2", "+16 55"],
+    ["NGC3692", "", "Gx", "11 28.4", "+09 24"],
+    ["NGC3693", "", "Gx", "11 28.2", "-13 12"],
+    ["NGC3694", "", "Gx", "11 28.9", "+35 25"],
+    ["NGC3695", "", "Gx", "11 29.3", "+35 35"],
+    ["NGC3696", "", "Gx", "11 28.7", "-11 17"],
+    ["NGC3697", "", "Gx", "11 28.8", "+20 48"],
+    ["NGC3699", "", "PN", "11 28.0", "-59 57"],
+    ["NGC3700", "", "Gx", "11 29.6", "+35 31"],
+    ["NGC3701", "", "Gx", "11 29.5", "+24 06"],
+    ["NGC3702", "", "Gx", "11 30.2", "-08 52"],
+    ["NGC3703", "", "Gx", "11 29.2", "-08 27"],
+    ["NGC3704", "", "Gx", "11 30.1", "-11 33"],
+    ["NGC3705", "", "Gx", "11 30.1", "+09 17"],
+    ["NGC3706", "", "Gx", "11 29.7", "-36 23"],
+    ["NGC3707", "", "Gx", "11 30.2", "-11 33"],
+    ["NGC3710", "", "Gx", "11 31.1", "+22 46"],
+    ["NGC3711", "", "Gx", "11 29.4", "-11 05"],
+    ["NGC3712", "", "Gx", "11 31.2", "+28 34"],
+    ["NGC3713", "", "Gx", "11 31.7", "+28 09"],
+    ["NGC3714", "", "Gx", "11 31.9", "+28 22"],
+    ["NGC3715", "", "Gx", "11 31.5", "-14 14"],
+    ["NGC3716", "", "Gx", "11 31.7", "+03 29"],
+    ["NGC3717", "", "Gx", "11 31.5", "-30 18"],
+    ["NGC3718", "", "Gx", "11 32.6", "+53 04"],
+    ["NGC3719", "", "Gx", "11 32.2", "+00 49"],
+    ["NGC3720", "", "Gx", "11 32.4", "+00 48"],
+    ["NGC3721", "", "Gx", "11 34.3", "-09 35"],
+    ["NGC3722", "", "Gx", "11 34.5", "-09 40"],
+    ["NGC3723", "", "Gx", "11 32.5", "-09 58"],
+    ["NGC3724", "", "Gx", "11 34.4", "-09 41"],
+    ["NGC3725", "", "Gx", "11 33.7", "+61 53"],
+    ["NGC3726", "", "Gx", "11 33.4", "+47 02"],
+    ["NGC3727", "", "Gx", "11 33.7", "-13 53"],
+    ["NGC3728", "", "Gx", "11 33.3", "+24 27"],
+    ["NGC3729", "", "Gx", "11 33.8", "+53 08"],
+    ["NGC3730", "", "Gx", "11 34.6", "-09 39"],
+    ["NGC3731", "", "Gx", "11 34.2", "+12 31"],
+    ["NGC3732", "", "Gx", "11 34.2", "-09 51"],
+    ["NGC3733", "", "Gx", "11 35.0", "+54 51"],
+    ["NGC3734", "", "Gx", "11 34.7", "-14 05"],
+    ["NGC3735", "", "Gx", "11 36.0", "+70 32"],
+    ["NGC3736", "", "Gx", "11 35.7", "+73 27"],
+    ["NGC3737", "", "Gx", "11 35.6", "+54 57"],
+    ["NGC3738", "", "Gx", "11 35.8", "+54 32"],
+    ["NGC3739", "", "Gx", "11 35.6", "+25 05"],
+    ["NGC3740", "", "Gx", "11 36.2", "+59 59"],
+    ["NGC3741", "", "Gx", "11 36.1", "+45 17"],
+    ["NGC3742", "", "Gx", "11 35.5", "-37 57"],
+    ["NGC3743", "", "Gx", "11 36.0", "+21 43"],
+    ["NGC3744", "", "Gx", "11 36.0", "+23 01"],
+    ["NGC3745", "Copeland's Septet", "Gx", "11 37.7", "+22 01"],
+    ["NGC3746", "Copeland's Septet", "Gx", "11 37.7", "+22 01"],
+    ["NGC3748", "Copeland's Septet", "Gx", "11 37.8", "+22 02"],
+    ["NGC3749", "", "Gx", "11 35.9", "-38 00"],
+    ["NGC3750", "Copeland's Septet", "Gx", "11 37.9", "+21 58"],
+    ["NGC3751", "Copeland's Septet", "Gx", "11 37.9", "+21 56"],
+    ["NGC3752", "", "Gx", "11 32.5", "+74 38"],
+    ["NGC3753", "Copeland's Septet", "Gx", "11 37.9", "+21 59"],
+    ["NGC3754", "Copeland's Septet", "Gx", "11 37.9", "+21 59"],
+    ["NGC3755", "", "Gx", "11 36.6", "+36 25"],
+    ["NGC3756", "", "Gx", "11 36.8", "+54 18"],
+    ["NGC3757", "", "Gx", "11 37.0", "+58 25"],
+    ["NGC3758", "", "Gx", "11 36.5", "+21 36"],
+    ["NGC3759", "", "Gx", "11 37.0", "+55 10"],
+    ["NGC3761", "", "Gx", "11 36.7", "+23 00"],
+    ["NGC3762", "", "Gx", "11 37.4", "+61 46"],
+    ["NGC3763", "", "Gx", "11 36.5", "-09 51"],
+    ["NGC3764", "", "Gx", "11 36.9", "+17 53"],
+    ["NGC3765", "", "Gx", "11 37.1", "+24 06"],
+    ["NGC3766", "Pearl Cluster", "OC", "11 36.3", "-61 37"],
+    ["NGC3767", "", "Gx", "11 37.3", "+16 53"],
+    ["NGC3768", "", "Gx", "11 37.2", "+17 50"],
+    ["NGC3769", "", "Gx", "11 37.7", "+47 54"],
+    ["NGC3770", "", "Gx", "11 38.0", "+59 37"],
+    ["NGC3771", "", "Gx", "11 39.1", "-09 21"],
+    ["NGC3772", "", "Gx", "11 37.8", "+22 42"],
+    ["NGC3773", "", "Gx", "11 38.2", "+12 07"],
+    ["NGC3774", "", "Gx", "11 38.5", "-08 59"],
+    ["NGC3775", "", "Gx", "11 38.4", "-10 38"],
+    ["NGC3776", "", "Gx", "11 38.3", "-03 21"],
+    ["NGC3777", "", "Gx", "11 36.1", "-12 34"],
+    ["NGC3778", "", "Gx", "11 38.4", "-50 43"],
+    ["NGC3779", "", "Gx", "11 38.9", "-10 35"],
+    ["NGC3780", "", "Gx", "11 39.4", "+56 16"],
+    ["NGC3781", "", "Gx", "11 39.1", "+26 22"],
+    ["NGC3782", "", "Gx", "11 39.3", "+46 31"],
+    ["NGC3783", "", "Gx", "11 39.0", "-37 44"],
+    ["NGC3784", "", "Gx", "11 39.5", "+26 19"],
+    ["NGC3785", "", "Gx", "11 39.5", "+26 18"],
+    ["NGC3786", "", "Gx", "11 39.7", "+31 55"],
+    ["NGC3787", "", "Gx", "11 39.6", "+20 27"],
+    ["NGC3788", "", "Gx", "11 39.7", "+31 56"],
+    ["NGC3789", "", "Gx", "11 39.6", "-09 38"],
+    ["NGC3790", "", "Gx", "11 39.8", "+17 43"],
+    ["NGC3791", "", "Gx", "11 39.7", "-09 22"],
+    ["NGC3795", "", "Gx", "11 39.4", "+58 16"],
+    ["NGC3796", "", "Gx", "11 40.5", "+60 18"],
+    ["NGC3798", "", "Gx", "11 40.2", "+24 42"],
+    ["NGC3799", "", "Gx", "11 40.2", "+15 20"],
+    ["NGC3800", "", "Gx", "11 40.2", "+15 21"],
+    ["NGC3801", "", "Gx", "11 40.3", "+17 44"],
+    ["NGC3802", "", "Gx", "11 40.3", "+17 46"],
+    ["NGC3803", "", "Gx", "11 40.3", "+17 48"],
+    ["NGC3804", "", "Gx", "11 40.9", "+56 12"],
+    ["NGC3805", "", "Gx", "11 40.7", "+20 21"],
+    ["NGC3806", "", "Gx", "11 40.8", "+17 48"],
+    ["NGC3808", "", "Gx", "11 40.7", "+22 26"],
+    ["NGC3809", "", "Gx", "11 41.3", "+59 53"],
+    ["NGC3810", "", "Gx", "11 41.0", "+11 28"],
+    ["NGC3811", "", "Gx", "11 41.3", "+47 41"],
+    ["NGC3812", "", "Gx", "11 41.1", "+24 49"],
+    ["NGC3813", "", "Gx", "11 41.3", "+36 33"],
+    ["NGC3814", "", "Gx", "11 41.5", "+24 48"],
+    ["NGC3815", "", "Gx", "11 41.7", "+24 48"],
+    ["NGC3816", "", "Gx", "11 41.8", "+20 06"],
+    ["NGC3817", "", "Gx", "11 41.9", "+10 18"],
+    ["NGC3818", "", "Gx", "11 42.0", "-06 09"],
+    ["NGC3819", "", "Gx", "11 42.1", "+10 21"],
+    ["NGC3820", "", "Gx", "11 42.1", "+10 23"],
+    ["NGC3821", "", "Gx", "11 42.2", "+20 19"],
+    ["NGC3823", "", "Gx", "11 42.3", "-13 52"],
+    ["NGC3824", "", "Gx", "11 42.7", "+52 47"],
+    ["NGC3825", "", "Gx", "11 42.4", "+10 16"],
+    ["NGC3826", "", "Gx", "11 42.5", "+26 29"],
+    ["NGC3827", "", "Gx", "11 42.6", "+18 51"],
+    ["NGC3828", "", "Gx", "11 43.0", "+16 29"],
+    ["NGC3829", "", "Gx", "11 43.5", "+52 43"],
+    ["NGC3830", "", "Gx", "11 43.2", "+26 34"],
+    ["NGC3831", "", "Gx", "11 43.3", "-12 53"],
+    ["NGC3832", "", "Gx", "11 43.5", "+22 44"],
+    ["NGC3833", "", "Gx", "11 43.5", "+10 10"],
+    ["NGC3834", "", "Gx", "11 43.6", "+19 05"],
+    ["NGC3835", "", "Gx", "11 47.4", "+60 18"],
+    ["NGC3836", "", "Gx", "11 43.5", "-16 48"],
+    ["NGC3837", "", "Gx", "11 43.9", "+19 54"],
+    ["NGC3838", "", "Gx", "11 44.2", "+57 57"],
+    ["NGC3839", "", "Gx", "11 43.9", "+10 47"],
+    ["NGC3840", "", "Gx", "11 44.0", "+20 05"],
+    ["NGC3841", "", "Gx", "11 44.0", "+19 58"],
+    ["NGC3842", "", "Gx", "11 44.0", "+19 57"],
+    ["NGC3843", "", "Gx", "11 43.9", "+07 56"],
+    ["NGC3844", "", "Gx", "11 44.0", "+20 02"],
+    ["NGC3845", "", "Gx", "11 44.1", "+20 00"],
+    ["NGC3846", "", "Gx", "11 44.2", "+55 02"],
+    ["NGC3847", "", "Gx", "11 44.2", "+33 31"],
+    ["NGC3848", "", "Gx", "11 42.2", "+10 17"],
+    ["NGC3849", "", "Gx", "11 45.6", "+03 14"],
+    ["NGC3850", "", "Gx", "11 45.6", "+55 53"],
+    ["NGC3851", "", "Gx", "11 44.3", "+19 59"],
+    ["NGC3853", "", "Gx", "11 44.5", "+16 33"],
+    ["NGC3855", "", "Gx", "11 44.7", "+33 19"],
+    ["NGC3857", "", "Gx", "11 44.8", "+19 32"],
+    ["NGC3858", "", "Gx", "11 45.2", "-09 19"],
+    ["NGC3859", "", "Gx", "11 44.9", "+19 27"],
+    ["NGC3860", "", "Gx", "11 44.8", "+19 48"],
+    ["NGC3861", "", "Gx", "11 45.1", "+19 58"],
+    ["NGC3862", "", "Gx", "11 45.1", "+19 36"],
+    ["NGC3863", "", "Gx", "11 45.1", "+08 28"],
+    ["NGC3864", "", "Gx", "11 45.3", "+19 24"],
+    ["NGC3865", "", "Gx", "11 44.9", "-09 14"],
+    ["NGC3866", "", "Gx", "11 45.2", "-09 21"],
+    ["NGC3867", "", "Gx", "11 45.5", "+19 24"],
+    ["NGC3868", "", "Gx", "11 45.5", "+19 27"],
+    ["NGC3869", "", "Gx", "11 45.8", "+10 49"],
+    ["NGC3870", "", "Gx", "11 45.9", "+50 12"],
+    ["NGC3871", "", "Gx", "11 46.2", "+33 07"],
+    ["NGC3872", "", "Gx", "11 45.8", "+13 46"],
+    ["NGC3873", "", "Gx", "11 45.8", "+19 46"],
+    ["NGC3875", "", "Gx", "11 45.8", "+19 46"],
+    ["NGC3876", "", "Gx", "11 45.4", "+09 10"],
+    ["NGC3877", "", "Gx", "11 46.1", "+47 30"],
+    ["NGC3878", "", "Gx", "11 46.3", "+33 12"],
+    ["NGC3879", "", "Gx", "11 46.8", "+69 23"],
+    ["NGC3880", "", "Gx", "11 46.4", "+33 10"],
+    ["NGC3881", "", "Gx", "11 46.6", "+33 06"],
+    ["NGC3882", "", "Gx", "11 46.1", "-56 23"],
+    ["NGC3883", "", "Gx", "11 46.8", "+20 41"],
+    ["NGC3884", "", "Gx", "11 46.2", "+20 23"],
+    ["NGC3885", "", "Gx", "11 46.8", "-27 55"],
+    ["NGC3886", "", "Gx", "11 47.1", "+19 50"],
+    ["NGC3887", "", "Gx", "11 47.1", "-16 51"],
+    ["NGC3888", "", "Gx", "11 47.6", "+55 58"],
+    ["NGC3890", "", "Gx", "11 49.3", "+74 18"],
+    ["NGC3891", "", "Gx", "11 48.1", "+30 22"],
+    ["NGC3892", "", "Gx", "11 48.0", "-10 58"],
+    ["NGC3893", "", "Gx", "11 48.6", "+48 43"],
+    ["NGC3894", "", "Gx", "11 48.8", "+59 25"],
+    ["NGC3895", "", "Gx", "11 49.1", "+59 26"],
+    ["NGC3896", "", "Gx", "11 48.9", "+48 40"],
+    ["NGC3897", "", "Gx", "11 49.0", "+35 01"],
+    ["NGC3898", "", "Gx", "11 49.3", "+56 05"],
+    ["NGC3900", "", "Gx", "11 49.2", "+27 01"],
+    ["NGC3901", "", "Gx", "11 42.8", "+77 22"],
+    ["NGC3902", "", "Gx", "11 49.3", "+26 07"],
+    ["NGC3903", "", "Gx", "11 49.1", "-37 31"],
+    ["NGC3904", "", "Gx", "11 49.2", "-29 17"],
+    ["NGC3905", "", "Gx", "11 49.1", "-09 44"],
+    ["NGC3906", "", "Gx", "11 49.7", "+48 26"],
+    ["NGC3907", "", "Gx", "11 49.4", "-01 05"],
+    ["NGC3908", "", "Gx", "11 49.9", "+12 11"],
+    ["NGC3910", "", "Gx", "11 50.0", "+21 20"],
+    ["NGC3911", "", "Gx", "11 49.4", "+24 56"],
+    ["NGC3912", "", "Gx", "11 50.1", "+26 29"],
+    ["NGC3913", "", "Gx", "11 50.6", "+55 21"],
+    ["NGC3914", "", "Gx", "11 50.5", "+06 34"],
+    ["NGC3915", "", "Gx", "11 48.9", "-04 41"],
+    ["NGC3916", "", "Gx", "11 50.8", "+55 09"],
+    ["NGC3917", "", "Gx", "11 50.8", "+51 49"],
+    ["NGC3918", "Blue Planetary Nebula", "PN", "11 50.3", "-57 11"],
+    ["NGC3919", "", "Gx", "11 50.7", "+20 01"],
+    ["NGC3920", "", "Gx", "11 50.1", "+24 55"],
+    ["NGC3921", "", "Gx", "11 51.1", "+55 05"],
+    ["NGC3922", "", "Gx", "11 51.2", "+50 09"],
+    ["NGC3923", "", "Gx", "11 51.0", "-28 48"],
+    ["NGC3924", "", "Gx", "11 52.7", "+50 02"],
+    ["NGC3925", "", "Gx", "11 51.3", "+21 53"],
+    ["NGC3926", "", "Gx", "11 51.5", "+22 02"],
+    ["NGC3928", "Miniature Spiral", "Gx", "11 51.8", "+48 41"],
+    ["NGC3929", "", "Gx", "11 51.7", "+21 00"],
+    ["NGC3930", "", "Gx", "11 51.8", "+38 01"],
+    ["NGC3931", "", "Gx", "11 51.2", "+52 00"],
+    ["NGC3932", "", "Gx", "11 52.5", "+48 28"],
+    ["NGC3933", "", "Gx", "11 52.0", "+16 49"],
+    ["NGC3934", "", "Gx", "11 52.2", "+16 51"],
+    ["NGC3935", "", "Gx", "11 52.4", "+32 24"],
+    ["NGC3936", "", "Gx", "11 52.3", "-26 54"],
+    ["NGC3937", "", "Gx", "11 52.7", "+20 38"],
+    ["NGC3938", "", "Gx", "11 52.8", "+44 07"],
+    ["NGC3940", "", "Gx", "11 52.8", "+20 59"],
+    ["NGC3941", "", "Gx", "11 52.9", "+36 59"],
+    ["NGC3942", "", "Gx", "11 51.5", "-11 25"],
+    ["NGC3943", "", "Gx", "11 52.9", "+20 29"],
+    ["NGC3944", "", "Gx", "11 53.1", "+26 12"],
+    ["NGC3945", "", "Gx", "11 53.2", "+60 41"],
+    ["NGC3946", "", "Gx", "11 53.3", "+21 01"],
+    ["NGC3947", "", "Gx", "11 53.3", "+20 45"],
+    ["NGC3949", "", "Gx", "11 53.7", "+47 52"],
+    ["NGC3950", "", "Gx", "11 53.7", "+47 53"],
+    ["NGC3951", "", "Gx", "11 53.7", "+23 23"],
+    ["NGC3952", "", "Gx", "11 53.7", "-04 00"],
+    ["NGC3953", "", "Gx", "11 53.8", "+52 20"],
+    ["NGC3954", "", "Gx", "11 53.7", "+20 53"],
+    ["NGC3955", "", "Gx", "11 54.0", "-23 10"],
+    ["NGC3956", "", "Gx", "11 54.0", "-20 34"],
+    ["NGC3957", "", "Gx", "11 54.0", "-19 34"],
+    ["NGC3958", "", "Gx", "11 54.6", "+58 22"],
+    ["NGC3959", "", "Gx", "11 54.6", "-07 45"],
+    ["NGC3960", "", "OC", "11 50.6", "-55 40"],
+    ["NGC3961", "", "Gx", "11 55.0", "+69 20"],
+    ["NGC3962", "", "Gx", "11 54.7", "-13 58"],
+    ["NGC3963", "", "Gx", "11 55.0", "+58 30"],
+    ["NGC3964", "", "Gx", "11 54.9", "+28 16"],
+    ["NGC3966", "", "Gx", "11 55.7", "+32 11"],
+    ["NGC3967", "", "Gx", "11 55.2", "-07 51"],
+    ["NGC3968", "", "Gx", "11 55.5", "+11 58"],
+    ["NGC3969", "", "Gx", "11 55.2", "-18 56"],
+    ["NGC3970", "", "Gx", "11 55.5", "-12 04"],
+    ["NGC3971", "", "Gx", "11 55.6", "+30 00"],
+    ["NGC3972", "", "Gx", "11 55.8", "+55 19"],
+    ["NGC3973", "", "Gx", "11 55.6", "+12 00"],
+    ["NGC3974", "", "Gx", "11 55.7", "-12 02"],
+    ["NGC3975", "", "Gx", "11 55.9", "+60 32"],
+    ["NGC3976", "", "Gx", "11 56.0", "+06 45"],
+    ["NGC3977", "", "Gx", "11 56.1", "+55 23"],
+    ["NGC3978", "", "Gx", "11 56.2", "+60 31"],
+    ["NGC3979", "", "Gx", "11 56.0", "-02 43"],
+    ["NGC3981", "", "Gx", "11 56.1", "-19 54"],
+    ["NGC3982", "", "Gx", "11 56.5", "+55 08"],
+    ["NGC3983", "", "Gx", "11 56.4", "+23 52"],
+    ["NGC3984", "", "Gx", "11 57.9", "+29 02"],
+    ["NGC3985", "", "Gx", "11 56.7", "+48 20"],
+    ["NGC3986", "", "Gx", "11 56.7", "+32 01"],
+    ["NGC3988", "", "Gx", "11 57.4", "+27 53"],
+    ["NGC3989", "", "Gx", "11 57.4", "+25 14"],
+    ["NGC3990", "", "Gx", "11 57.6", "+55 28"],
+    ["NGC3991", "", "Gx", "11 57.5", "+32 20"],
+    ["NGC3993", "", "Gx", "11 57.6", "+25 14"],
+    ["NGC3994", "", "Gx", "11 57.6", "+32 17"],
+    ["NGC3995", "", "Gx", "11 57.7", "+32 18"],
+    ["NGC3996", "", "Gx", "11 57.8", "+14 18"],
+    ["NGC3997", "", "Gx", "11 57.8", "+25 16"],
+    ["NGC3998", "", "Gx", "11 57.9", "+55 27"],
+    ["NGC3999", "", "Gx", "11 57.9", "+25 04"],
+    ["NGC4000", "", "Gx", "11 57.9", "+25 09"],
+    ["NGC4001", "", "Gx", "11 58.1", "+47 20"],
+    ["NGC4002", "", "Gx", "11 58.0", "+23 12"],
+    ["NGC4003", "", "Gx", "11 58.0", "+23 08"],
+    ["NGC4004", "", "Gx", "11 58.1", "+27 53"],
+    ["NGC4005", "NGC 4005 group", "Gx", "11 58.2", "+25 07"],
+    ["NGC4006", "", "Gx", "11 58.1", "-02 07"],
+    ["NGC4008", "", "Gx", "11 58.3", "+28 12"],
+    ["NGC4009", "", "Gx", "11 58.5", "+25 13"],
+    ["NGC4010", "", "Gx", "11 58.6", "+47 16"],
+    ["NGC4011", "", "Gx", "11 58.4", "+25 06"],
+    ["NGC4012", "", "Gx", "11 58.5", "+10 01"],
+    ["NGC4013", "", "Gx", "11 58.5", "+43 57"],
+    ["NGC4014", "", "Gx", "11 58.6", "+16 11"],
+    ["NGC4015", "", "Gx", "11 58.7", "+25 02"],
+    ["NGC4016", "", "Gx", "11 58.5", "+27 32"],
+    ["NGC4017", "", "Gx", "11 58.8", "+27 27"],
+    ["NGC4018", "", "Gx", "11 58.7", "+25 19"],
+    ["NGC4019", "", "Gx", "12 01.2", "+14 06"],
+    ["NGC4020", "", "Gx", "11 58.9", "+30 25"],
+    ["NGC4021", "", "Gx", "11 59.0", "+25 05"],
+    ["NGC4022", "", "Gx", "11 59.0", "+25 13"],
+    ["NGC4023", "", "Gx", "11 59.1", "+24 59"],
+    ["NGC4024", "", "Gx", "11 58.5", "-18 21"],
+    ["NGC4025", "", "Gx", "11 59.2", "+37 48"],
+    ["NGC4026", "", "Gx", "11 59.4", "+50 58"],
+    ["NGC4027", "", "Gx", "11 59.5", "-19 16"],
+    ["NGC4029", "", "Gx", "12 00.1", "+08 11"],
+    ["NGC4030", "", "Gx", "12 00.8", "-00 01"],
+    ["NGC4031", "", "Gx", "12 00.5", "+31 57"],
+    ["NGC4032", "", "Gx", "12 00.5", "+20 04"],
+    ["NGC4033", "", "Gx", "12 00.6", "-17 51"],
+    ["NGC4034", "", "Gx", "12 01.5", "+69 19"],
+    ["NGC4035", "", "Gx", "12 00.5", "-15 57"],
+    ["NGC4036", "", "Gx", "12 01.4", "+61 54"],
+    ["NGC4037", "", "Gx", "12 01.4", "+13 24"],
+    ["NGC4039", "Antennae", "Gx", "12 01.9", "-18 53"],
+    ["NGC4040", "", "Gx", "12 02.1", "+17 49"],
+    ["NGC4041", "", "Gx", "12 02.2", "+62 08"],
+    ["NGC4042", "", "Gx", "12 02.8", "+20 10"],
+    ["NGC4043", "", "Gx", "12 02.4", "+04 20"],
+    ["NGC4044", "", "Gx", "12 02.5", "-00 13"],
+    ["NGC4045", "", "Gx", "12 02.7", "+01 59"],
+    ["NGC4047", "", "Gx", "12 02.8", "+48 38"],
+    ["NGC4048", "", "Gx", "12 02.8", "+18 01"],
+    ["NGC4049", "", "Gx", "12 02.9", "+18 45"],
+    ["NGC4050", "", "Gx", "12 02.9", "-16 22"],
+    ["NGC4051", "", "Gx", "12 03.2", "+44 32"],
+    ["NGC4052", "", "OC", "12 01.2", "-63 13"],
+    ["NGC4053", "", "Gx", "12 03.2", "+19 44"],
+    ["NGC4054", "", "Gx", "12 03.2", "+57 54"],
+    ["NGC4055", "", "Gx", "12 04.0", "+20 14"],
+    ["NGC4056", "", "Gx", "12 04.0", "+20 19"],
+    ["NGC4057", "", "Gx", "12 05.3", "+20 19"],
+    ["NGC4058", "", "Gx", "12 03.8", "+03 33"],
+    ["NGC4060", "", "Gx", "12 04.0", "+20 20"],
+    ["NGC4062", "", "Gx", "12 04.1", "+31 54"],
+    ["NGC4063", "", "Gx", "12 04.1", "+01 51"],
+    ["NGC4064", "", "Gx", "12 04.2", "+18 27"],
+    ["NGC4065", "", "Gx", "12 04.1", "+20 14"],
+    ["NGC4066", "", "Gx", "12 04.2", "+20 21"],
+    ["NGC4067", "", "Gx", "12 04.2", "+10 51"],
+    ["NGC4068", "", "Gx", "12 04.0", "+52 35"],
+    ["NGC4069", "", "Gx", "12 04.1", "+20 19"],
+    ["NGC4070", "", "Gx", "12 04.2", "+20 25"],
+    ["NGC4071", "", "PN", "12 04.2", "-67 19"],
+    ["NGC4072", "", "Gx", "12 04.2", "+20 13"],
+    ["NGC4073", "", "Gx", "12 04.5", "+01 54"],
+    ["NGC4074", "", "Gx", "12 04.5", "+20 19"],
+    ["NGC4075", "", "Gx", "12 04.6", "+02 04"],
+    ["NGC4076", "", "Gx", "12 04.5", "+20 12"],
+    ["NGC4077", "", "Gx", "12 04.6", "+01 47"],
+    ["NGC4078", "", "Gx", "12 04.8", "+10 36"],
+    ["NGC4079", "", "Gx", "12 04.8", "-02 23"],
+    ["NGC4080", "", "Gx", "12 04.9", "+27 00"],
+    ["NGC4081", "", "Gx", "12 04.6", "+64 26"],
+    ["NGC4082", "", "Gx", "12 05.2", "+10 40"],
+    ["NGC4083", "", "Gx", "12 05.2", "+10 37"],
+    ["NGC4084", "", "Gx", "12 05.3", "+21 13"],
+    ["NGC4085", "", "Gx", "12 05.4", "+50 21"],
+    ["NGC4086", "", "Gx", "12 05.5", "+20 15"],
+    ["NGC4087", "", "Gx", "12 05.6", "-26 31"],
+    ["NGC4088", "", "Gx", "12 05.6", "+50 32"],
+    ["NGC4089", "", "Gx", "12 05.6", "+20 33"],
+    ["NGC4090", "", "Gx", "12 05.5", "+20 19"],
+    ["NGC4091", "", "Gx", "12 05.7", "+20 33"],
+    ["NGC4092", "", "Gx", "12 05.8", "+20 29"],
+    ["NGC4093", "", "Gx", "12 05.9", "+20 31"],
+    ["NGC4094", "", "Gx", "12 05.9", "-14 32"],
+    ["NGC4095", "", "Gx", "12 05.9", "+20 34"],
+    ["NGC4096", "", "Gx", "12 06.0", "+47 29"],
+    ["NGC4097", "", "Gx", "12 06.0", "+36 52"],
+    ["NGC4098", "", "Gx", "12 06.1", "+20 36"],
+    ["NGC4100", "", "Gx", "12 06.1", "+49 35"],
+    ["NGC4101", "", "Gx", "12 06.2", "+25 33"],
+    ["NGC4102", "", "Gx", "12 06.4", "+52 43"],
+    ["NGC4103", "The Longtail", "OC", "12 06.7", "-61 15"],
+    ["NGC4104", "", "Gx", "12 06.7", "+28 10"],
+    ["NGC4105", "", "Gx", "12 06.7", "-29 46"],
+    ["NGC4106", "", "Gx", "12 06.7", "-29 46"],
+    ["NGC4108", "", "Gx", "12 07.2", "+67 14"],
+    ["NGC4109", "", "Gx", "12 06.9", "+43 00"],
+    ["NGC4110", "", "Gx", "12 07.1", "+18 32"],
+    ["NGC4111", "", "Gx", "12 07.1", "+43 04"],
+    ["NGC4112", "", "Gx", "12 07.2", "-40 12"],
+    ["NGC4114", "", "Gx", "12 07.2", "-14 11"],
+    ["NGC4116", "", "Gx", "12 07.6", "+02 41"],
+    ["NGC4117", "", "Gx", "12 07.8", "+43 08"],
+    ["NGC4118", "", "Gx", "12 07.9", "+43 07"],
+    ["NGC4120", "", "Gx", "12 08.5", "+69 33"],
+    ["NGC4121", "", "Gx", "12 07.9", "+65 07"],
+    ["NGC4122", "", "Gx", "12 07.1", "+33 00"],
+    ["NGC4123", "", "Gx", "12 08.2", "+02 53"],
+    ["NGC4124", "", "Gx", "12 08.2", "+10 23"],
+    ["NGC4125", "", "Gx", "12 08.1", "+65 10"],
+    ["NGC4126", "", "Gx", "12 08.6", "+16 09"],
+    ["NGC4127", "", "Gx", "12 08.4", "+76 48"],
+    ["NGC4128", "", "Gx", "12 08.5", "+68 46"],
+    ["NGC4129", "", "Gx", "12 08.9", "-09 02"],
+    ["NGC4131", "", "Gx", "12 08.8", "+29 18"],
+    ["NGC4132", "", "Gx", "12 09.0", "+29 15"],
+    ["NGC4133", "", "Gx", "12 08.8", "+74 54"],
+    ["NGC4134", "", "Gx", "12 09.2", "+29 11"],
+    ["NGC4135", "", "Gx", "12 09.1", "+44 00"],
+    ["NGC4136", "", "Gx", "12 09.3", "+29 56"],
+    ["NGC4137", "", "Gx", "12 09.3", "+44 05"],
+    ["NGC4138", "", "Gx", "12 09.5", "+43 41"],
+    ["NGC4139", "", "Gx", "12 04.6", "+01 48"],
+    ["NGC4141", "", "Gx", "12 09.8", "+58 51"],
+    ["NGC4142", "", "Gx", "12 09.5", "+53 06"],
+    ["NGC4143", "", "Gx", "12 09.6", "+42 32"],
+    ["NGC4144", "", "Gx", "12 10.0", "+46 27"],
+    ["NGC4145", "", "Gx", "12 10.0", "+39 53"],
+    ["NGC4146", "", "Gx", "12 10.3", "+26 26"],
+    ["NGC4147", "Kick the Can Cluster", "GC", "12 10.1", "+18 33"],
+    ["NGC4148", "", "Gx", "12 10.1", "+35 53"],
+    ["NGC4149", "", "Gx", "12 10.5", "+58 18"],
+    ["NGC4150", "", "Gx", "12 10.6", "+30 24"],
+    ["NGC4151", "", "Gx", "12 10.5", "+39 24"],
+    ["NGC4152", "", "Gx", "12 10.6", "+16 02"],
+    ["NGC4155", "", "Gx", "12 10.8", "+19 02"],
+    ["NGC4156", "", "Gx", "12 10.8", "+39 28"],
+    ["NGC4157", "", "Gx", "12 11.1", "+50 29"],
+    ["NGC4158", "", "Gx", "12 11.2", "+20 11"],
+    ["NGC4159", "", "Gx", "12 10.9", "+76 08"],
+    ["NGC4161", "", "Gx", "12 11.6", "+57 44"],
+    ["NGC4162", "", "Gx", "12 11.9", "+24 07"],
+    ["NGC4163", "", "Gx", "12 12.2", "+36 10"],
+    ["NGC4164", "", "Gx", "12 12.1", "+13 12"],
+    ["NGC4165", "", "Gx", "12 12.2", "+13 15"],
+    ["NGC4166", "", "Gx", "12 12.2", "+17 45"],
+    ["NGC4168", "", "Gx", "12 12.3", "+13 12"],
+    ["NGC4169", "The Box", "Gx", "12 12.3", "+29 11"],
+    ["NGC4170", "The Box", "Gx", "12 12.3", "+29 13"],
+    ["NGC4172", "", "Gx", "12 12.2", "+56 11"],
+    ["NGC4174", "The Box", "Gx", "12 12.4", "+29 09"],
+    ["NGC4175", "The Box", "Gx", "12 12.5", "+29 10"],
+    ["NGC4176", "", "Gx", "12 12.6", "-09 10"],
+    ["NGC4177", "", "Gx", "12 12.7", "-14 01"],
+    ["NGC4178", "", "Gx", "12 12.8", "+10 52"],
+    ["NGC4179", "", "Gx", "12 12.9", "+01 18"],
+    ["NGC4180", "", "Gx", "12 13.1", "+07 02"],
+    ["NGC4181", "", "Gx", "12 12.8", "+52 54"],
+    ["NGC4183", "", "Gx", "12 13.3", "+43 42"],
+    ["NGC4185", "", "Gx", "12 13.4", "+28 31"],
+    ["NGC4186", "", "Gx", "12 14.1", "+14 44"],
+    ["NGC4187", "", "Gx", "12 13.5", "+50 44"],
+    ["NGC4188", "", "Gx", "12 14.1", "-12 35"],
+    ["NGC4189", "", "Gx", "12 13.8", "+13 25"],
+    ["NGC4190", "", "Gx", "12 13.7", "+36 38"],
+    ["NGC4191", "", "Gx", "12 13.8", "+07 12"],
+    ["NGC4193", "", "Gx", "12 13.9", "+13 10"],
+    ["NGC4194", "Medusa Galaxy", "Gx", "12 14.2", "+54 32"],
+    ["NGC4195", "", "Gx", "12 14.3", "+59 37"],
+    ["NGC4196", "", "Gx", "12 14.5", "+28 25"],
+    ["NGC4197", "", "Gx", "12 14.6", "+05 48"],
+    ["NGC4198", "", "Gx", "12 14.4", "+56 01"],
+    ["NGC4199", "", "Gx", "12 14.8", "+59 54"],
+    ["NGC4200", "", "Gx", "12 14.7", "+12 11"],
+    ["NGC4201", "", "Gx", "12 14.7", "-11 35"],
+    ["NGC4202", "", "Gx", "12 18.1", "-01 04"],
+    ["NGC4203", "", "Gx", "12 15.1", "+33 12"],
+    ["NGC4204", "", "Gx", "12 15.2", "+20 40"],
+    ["NGC4205", "", "Gx", "12 14.9", "+63 47"],
+    ["NGC4206", "", "Gx", "12 15.3", "+13 01"],
+    ["NGC4207", "", "Gx", "12 15.5", "+09 35"],
+    ["NGC4208", "", "Gx", "12 15.7", "+13 54"],
+    ["NGC4210", "", "Gx", "12 15.3", "+65 59"],
+    ["NGC4211", "", "Gx", "12 15.6", "+28 11"],
+    ["NGC4213", "", "Gx", "12 15.6", "+23 59"],
+    ["NGC4215", "", "Gx", "12 15.9", "+06 24"],
+    ["NGC4216", "Silver Streak Galaxy", "Gx", "12 15.9", "+13 09"],
+    ["NGC4217", "", "Gx", "12 15.8", "+47 06"],
+    ["NGC4218", "", "Gx", "12 15.8", "+48 08"],
+    ["NGC4219", "", "Gx", "12 16.5", "-43 19"],
+    ["NGC4220", "", "Gx", "12 16.2", "+47 53"],
+    ["NGC4221", "", "Gx", "12 16.0", "+66 14"],
+    ["NGC4222", "", "Gx", "12 16.4", "+13 18"],
+    ["NGC4223", "", "Gx", "12 17.4", "+06 41"],
+    ["NGC4224", "", "Gx", "12 16.6", "+07 28"],
+    ["NGC4225", "", "Gx", "12 16.6", "-12 20"],
+    ["NGC4226", "", "Gx", "12 16.4", "+47 02"],
+    ["NGC4227", "", "Gx", "12 16.6", "+33 31"],
+    ["NGC4228", "", "Gx", "12 15.7", "+36 20"],
+    ["NGC4229", "", "Gx", "12 16.6", "+33 34"],
+    ["NGC4230", "", "OC", "12 17.3", "-55 07"],
+    ["NGC4231", "", "Gx", "12 16.8", "+47 27"],
+    ["NGC4232", "", "Gx", "12 16.8", "+47 26"],
+    ["NGC4233", "", "Gx", "12 17.1", "+07 37"],
+    ["NGC4234", "", "Gx", "12 17.1", "+03 41"],
+    ["NGC4235", "", "Gx", "12 17.2", "+07 11"],
+    ["NGC4236", "", "Gx", "12 16.7", "+69 28"],
+    ["NGC4237", "", "Gx", "12 17.2", "+15 19"],
+    ["NGC4238", "", "Gx", "12 16.9", "+63 25"],
+    ["NGC4239", "", "Gx", "12 17.2", "+16 32"],
+    ["NGC4240", "", "Gx", "12 17.4", "-09 57"],
+    ["NGC4241", "", "Gx", "12 18.0", "+06 39"],
+    ["NGC4242", "", "Gx", "12 17.5", "+45 37"],
+    ["NGC4245", "", "Gx", "12 17.6", "+29 36"],
+    ["NGC4246", "", "Gx", "12 18.0", "+07 11"],
+    ["NGC4247", "", "Gx", "12 18.0", "+07 16"],
+    ["NGC4248", "", "Gx", "12 17.8", "+47 25"],
+    ["NGC4249", "", "Gx", "12 18.0", "+05 36"],
+    ["NGC4250", "", "Gx", "12 17.4", "+70 48"],
+    ["NGC4251", "", "Gx", "12 18.1", "+28 11"],
+    ["NGC4252", "", "Gx", "12 18.5", "+05 34"],
+    ["NGC4253", "", "Gx", "12 18.4", "+29 49"],
+    ["NGC4255", "", "Gx", "12 18.9", "+04 47"],
+    ["NGC4256", "", "Gx", "12 18.7", "+65 54"],
+    ["NGC4257", "", "Gx", "12 19.1", "+05 44"],
+    ["NGC4259", "", "Gx", "12 19.4", "+05 23"],
+    ["NGC4260", "", "Gx", "12 19.4", "+06 06"],
+    ["NGC4261", "", "Gx", "12 19.4", "+05 49"],
+    ["NGC4262", "", "Gx", "12 19.5", "+14 53"],
+    ["NGC4263", "", "Gx", "12 19.7", "-12 14"],
+    ["NGC4264", "", "Gx", "12 19.6", "+05 51"],
+    ["NGC4266", "", "Gx", "12 19.7", "+05 32"],
+    ["NGC4267", "", "Gx", "12 19.8", "+12 48"],
+    ["NGC4268", "", "Gx", "12 19.8", "+05 17"],
+    ["NGC4269", "", "Gx", "12 19.8", "+06 01"],
+    ["NGC4270", "", "Gx", "12 19.8", "+05 28"],
+    ["NGC4271", "", "Gx", "12 19.5", "+56 44"],
+    ["NGC4272", "", "Gx", "12 19.8", "+30 20"],
+    ["NGC4273", "", "Gx", "12 19.9", "+05 21"],
+    ["NGC4274", "", "Gx", "12 19.8", "+29 37"],
+    ["NGC4275", "", "Gx", "12 19.9", "+27 37"],
+    ["NGC4276", "Faust V023", "Gx", "12 20.1", "+07 42"],
+    ["NGC4277", "", "Gx", "12 20.1", "+05 20"],
+    ["NGC4278", "", "Gx", "12 20.1", "+29 17"],
+    ["NGC4279", "", "Gx", "12 20.4", "-11 40"],
+    ["NGC4281", "", "Gx", "12 20.4", "+05 23"],
+    ["NGC4282", "", "Gx", "12 20.4", "+05 34"],
+    ["NGC4283", "", "Gx", "12 20.3", "+29 19"],
+    ["NGC4284", "", "Gx", "12 20.2", "+58 06"],
+    ["NGC4285", "", "Gx", "12 20.7", "-11 39"],
+    ["NGC4286", "", "Gx", "12 20.7", "+29 21"],
+    ["NGC4287", "", "Gx", "12 20.8", "+05 38"],
+    ["NGC4288", "", "Gx", "12 20.6", "+46 17"],
+    ["NGC4289", "", "Gx", "12 21.0", "+03 43"],
+    ["NGC4290", "", "Gx", "12 20.8", "+58 06"],
+    ["NGC4291", "", "Gx", "12 20.3", "+75 22"],
+    ["NGC4292", "", "Gx", "12 21.3", "+04 36"],
+    ["NGC4293", "", "Gx", "12 21.2", "+18 23"],
+    ["NGC4294", "", "Gx", "12 21.3", "+11 31"],
+    ["NGC4295", "", "Gx", "12 21.2", "+28 10"],
+    ["NGC4296", "", "Gx", "12 21.5", "+06 39"],
+    ["NGC4297", "", "Gx", "12 21.5", "+06 40"],
+    ["NGC4298", "", "Gx", "12 21.5", "+14 36"],
+    ["NGC4299", "", "Gx", "12 21.7", "+11 30"],
+    ["NGC4300", "", "Gx", "12 21.7", "+05 23"],
+    ["NGC4301", "", "Gx", "12 22.5", "+04 34"],
+    ["NGC4302", "", "Gx", "12 21.7", "+14 36"],
+    ["NGC4304", "", "Gx", "12 22.2", "-33 29"],
+    ["NGC4305", "", "Gx", "12 22.1", "+12 44"],
+    ["NGC4306", "", "Gx", "12 22.1", "+12 47"],
+    ["NGC4307", "", "Gx", "12 22.1", "+09 03"],
+    ["NGC4308", "", "Gx", "12 21.9", "+30 04"],
+    ["NGC4309", "", "Gx", "12 22.2", "+07 09"],
+    ["NGC4310", "", "Gx", "12 22.4", "+29 13"],
+    ["NGC4312", "", "Gx", "12 22.5", "+15 32"],
+    ["NGC4313", "", "Gx", "12 22.6", "+11 48"],
+    ["NGC4314", "", "Gx", "12 22.5", "+29 54"],
+    ["NGC4316", "", "Gx", "12 22.7", "+09 20"],
+    ["NGC4318", "", "Gx", "12 22.7", "+08 12"],
+    ["NGC4319", "", "Gx", "12 21.7", "+75 19"],
+    ["NGC4320", "", "Gx", "12 23.0", "+10 33"],
+    ["NGC4322", "", "Gx", "12 23.0", "+15 54"],
+    ["NGC4324", "", "Gx", "12 23.1", "+05 15"],
+    ["NGC4325", "Galaxy Cluster", "Gx", "12 23.1", "+10 37"],
+    ["NGC4326", "", "Gx", "12 23.2", "+06 04"],
+    ["NGC4328", "", "Gx", "12 23.3", "+15 49"],
+    ["NGC4329", "", "Gx", "12 23.3", "-12 34"],
+    ["NGC4330", "", "Gx", "12 23.3", "+11 22"],
+    ["NGC4331", "", "Gx", "12 22.6", "+76 10"],
+    ["NGC4332", "", "Gx", "12 22.8", "+65 51"],
+    ["NGC4333", "", "Gx", "12 23.4", "+06 02"],
+    ["NGC4334", "", "Gx", "12 23.4", "+07 28"],
+    ["NGC4335", "", "Gx", "12 23.0", "+58 27"],
+    ["NGC4336", "", "Gx", "12 23.5", "+19 26"],
+    ["NGC4337", "", "OC", "12 24.0", "-58 07"],
+    ["NGC4338", "", "Gx", "12 23.2", "+28 54"],
+    ["NGC4339", "", "Gx", "12 23.6", "+06 05"],
+    ["NGC4340", "", "Gx", "12 23.6", "+16 43"],
+    ["NGC4341", "", "Gx", "12 23.9", "+07 06"],
+    ["NGC4342", "", "Gx", "12 23.7", "+07 03"],
+    ["NGC4343", "", "Gx", "12 23.6", "+06 57"],
+    ["NGC4344", "", "Gx", "12 23.6", "+17 32"],
+    ["NGC4346", "", "Gx", "12 23.5", "+47 00"],
+    ["NGC4348", "", "Gx", "12 23.9", "-03 27"],
+    ["NGC4349", "", "OC", "12 24.1", "-61 52"],
+    ["NGC4350", "", "Gx", "12 24.0", "+16 42"],
+    ["NGC4351", "", "Gx", "12 24.0", "+12 12"],
+    ["NGC4352", "", "Gx", "12 24.1", "+11 13"],
+    ["NGC4353", "", "Gx", "12 24.0", "+07 47"],
+    ["NGC4355", "", "Gx", "12 26.9", "-00 53"],
+    ["NGC4356", "", "Gx", "12 24.2", "+08 32"],
+    ["NGC4357", "", "Gx", "12 24.0", "+48 47"],
+    ["NGC4358", "", "Gx", "12 24.0", "+58 23"],
+    ["NGC4359", "", "Gx", "12 24.2", "+31 31"],
+    ["NGC4360", "", "Gx", "12 24.4", "+09 18"],
+    ["NGC4361", "Lawn Sprinkler Nebula", "PN", "12 24.5", "-18 47"],
+    ["NGC4362", "", "Gx", "12 24.2", "+58 22"],
+    ["NGC4363", "", "Gx", "12 23.5", "+74 57"],
+    ["NGC4364", "", "Gx", "12 24.0", "+58 23"],
+    ["NGC4365", "", "Gx", "12 24.5", "+07 19"],
+    ["NGC4366", "", "Gx", "12 24.8", "+07 21"],
+    ["NGC4369", "", "Gx", "12 24.6", "+39 23"],
+    ["NGC4370", "", "Gx", "12 24.9", "+07 27"],
+    ["NGC4371", "", "Gx", "12 24.9", "+11 42"],
+    ["NGC4372", "", "GC", "12 25.8", "-72 40"],
+    ["NGC4373", "", "Gx", "12 25.3", "-39 46"],
+    ["NGC4375", "", "Gx", "12 25.0", "+28 34"],
+    ["NGC4376", "", "Gx", "12 25.3", "+05 44"],
+    ["NGC4377", "", "Gx", "12 25.2", "+14 46"],
+    ["NGC4378", "", "Gx", "12 25.3", "+04 56"],
+    ["NGC4379", "", "Gx", "12 25.2", "+15 36"],
+    ["NGC4380", "", "Gx", "12 25.4", "+10 01"],
+    ["NGC4383", "", "Gx", "12 25.4", "+16 28"],
+    ["NGC4384", "", "Gx", "12 25.2", "+54 30"],
+    ["NGC4385", "", "Gx", "12 25.7", "+00 34"],
+    ["NGC4386", "", "Gx", "12 24.5", "+75 32"],
+    ["NGC4387", "Great Galactic Face", "Gx", "12 25.7", "+12 49"],
+    ["NGC4388", "", "Gx", "12 25.8", "+12 40"],
+    ["NGC4389", "", "Gx", "12 25.6", "+45 41"],
+    ["NGC4390", "", "Gx", "12 25.8", "+10 28"],
+    ["NGC4391", "", "Gx", "12 25.3", "+64 56"],
+    ["NGC4392", "", "Gx", "12 25.3", "+45 51"],
+    ["NGC4393", "", "Gx", "12 25.9", "+27 34"],
+    ["NGC4394", "", "Gx", "12 25.9", "+18 13"],
+    ["NGC4395", "", "Gx", "12 25.8", "+33 33"],
+    ["NGC4396", "", "Gx", "12 26.0", "+15 40"],
+    ["NGC4402", "", "Gx", "12 26.1", "+13 07"],
+    ["NGC4403", "", "Gx", "12 26.2", "-07 41"],
+    ["NGC4404", "", "Gx", "12 26.3", "-07 41"],
+    ["NGC4405", "", "Gx", "12 26.1", "+16 11"],
+    ["NGC4408", "", "Gx", "12 26.3", "+27 52"],
+    ["NGC4410", "", "Gx", "12 26.5", "+09 01"],
+    ["NGC4411", "", "Gx", "12 26.8", "+08 53"],
+    ["NGC4412", "", "Gx", "12 26.6", "+03 58"],
+    ["NGC4413", "", "Gx", "12 26.5", "+12 37"],
+    ["NGC4414", "", "Gx", "12 26.5", "+31 13"],
+    ["NGC4415", "", "Gx", "12 26.7", "+08 26"],
+    ["NGC4416", "", "Gx", "12 26.8", "+07 55"],
+    ["NGC4417", "", "Gx", "12 26.8", "+09 35"],
+    ["NGC4419", "", "Gx", "12 26.9", "+15 03"],
+    ["NGC4420", "", "Gx", "12 27.0", "+02 30"],
+    ["NGC4421", "", "Gx", "12 27.0", "+15 28"],
+    ["NGC4422", "", "Gx", "12 27.2", "-05 50"],
+    ["NGC4423", "", "Gx", "12 27.1", "+05 53"],
+    ["NGC4424", "", "Gx", "12 27.2", "+09 25"],
+    ["NGC4425", "", "Gx", "12 27.2", "+12 44"],
+    ["NGC4428", "", "Gx", "12 27.5", "-08 10"],
+    ["NGC4429", "", "Gx", "12 27.4", "+11 06"],
+    ["NGC4430", "", "Gx", "12 27.4", "+06 16"],
+    ["NGC4431", "", "Gx", "12 27.5", "+12 17"],
+    ["NGC4432", "", "Gx", "12 27.5", "+06 14"],
+    ["NGC4433", "", "Gx", "12 27.6", "-08 17"],
+    ["NGC4434", "", "Gx", "12 27.6", "+08 09"],
+    ["NGC4435", "The Eyes", "Gx", "12 27.7", "+13 05"],
+    ["NGC4436", "", "Gx", "12 27.7", "+12 19"],
+    ["NGC4438", "The Eyes", "Gx", "12 27.8", "+13 01"],
+    ["NGC4439", "", "OC", "12 28.4", "-60 06"],
+    ["NGC4440", "", "Gx", "12 27.9", "+12 18"],
+    ["NGC4441", "", "Gx", "12 27.3", "+64 48"],
+    ["NGC4442", "", "Gx", "12 28.1", "+09 48"],
+    ["NGC4444", "", "Gx", "12 28.6", "-43 16"],
+    ["NGC4445", "", "Gx", "12 28.3", "+09 26"],
+    ["NGC4446", "", "Gx", "12 28.1", "+13 55"],
+    ["NGC4447", "", "Gx", "12 28.2", "+13 54"],
+    ["NGC4448", "", "Gx", "12 28.3", "+28 37"],
+    ["NGC4450", "", "Gx", "12 28.5", "+17 05"],
+    ["NGC4451", "", "Gx", "12 28.7", "+09 16"],
+    ["NGC4452", "", "Gx", "12 28.7", "+11 45"],
+    ["NGC4453", "", "Gx", "12 28.8", "+06 31"],
+    ["NGC4454", "", "Gx", "12 28.8", "-01 56"],
+    ["NGC4455", "", "Gx", "12 28.7", "+22 49"],
+    ["NGC4456", "", "Gx", "12 27.9", "-30 06"],
+    ["NGC4457", "", "Gx", "12 29.0", "+03 34"],
+    ["NGC4458", "", "Gx", "12 29.0", "+13 15"],
+    ["NGC4459", "", "Gx", "12 29.0", "+13 59"],
+    ["NGC4460", "", "Gx", "12 28.8", "+44 52"],
+    ["NGC4461", "", "Gx", "12 29.0", "+13 11"],
+    ["NGC4462", "", "Gx", "12 29.4", "-23 10"],
+    ["NGC4463", "", "OC", "12 29.9", "-64 47"],
+    ["NGC4464", "", "Gx", "12 29.4", "+08 09"],
+    ["NGC4465", "", "Gx", "12 29.4", "+08 02"],
+    ["NGC4466", "", "Gx", "12 29.5", "+07 42"],
+    ["NGC4467", "", "Gx", "12 29.5", "+08 00"],
+    ["NGC4468", "", "Gx", "12 29.5", "+14 03"],
+    ["NGC4469", "", "Gx", "12 29.5", "+08 45"],
+    ["NGC4470", "", "Gx", "12 29.6", "+07 49"],
+    ["NGC4471", "", "Gx", "12 29.6", "+07 56"],
+    ["NGC4473", "Markarian's Chain", "Gx", "12 29.8", "+13 26"],
+    ["NGC4474", "", "Gx", "12 29.9", "+14 04"],
+    ["NGC4475", "", "Gx", "12 29.8", "+27 15"],
+    ["NGC4476", "", "Gx", "12 30.0", "+12 21"],
+    ["NGC4477", "Markarian's Chain", "Gx", "12 30.0", "+13 38"],
+    ["NGC4478", "", "Gx", "12 30.3", "+12 20"],
+    ["NGC4479", "", "Gx", "12 30.3", "+13 35"],
+    ["NGC4480", "", "Gx", "12 30.4", "+04 15"],
+    ["NGC4481", "", "Gx", "12 29.8", "+64 02"],
+    ["NGC4482", "", "Gx", "12 30.2", "+10 47"],
+    ["NGC4483", "", "Gx", "12 30.7", "+09 01"],
+    ["NGC4484", "", "Gx", "12 28.9", "-11 39"],
+    ["NGC4485", "", "Gx", "12 30.5", "+41 42"],
+    ["NGC4487", "", "Gx", "12 31.1", "-08 03"],
+    ["NGC4488", "", "Gx", "12 30.9", "+08 22"],
+    ["NGC4489", "", "Gx", "12 30.9", "+16 46"],
+    ["NGC4491", "", "Gx", "12 31.0", "+11 29"],
+    ["NGC4492", "", "Gx", "12 31.0", "+08 05"],
+    ["NGC4493", "", "Gx", "12 31.1", "+00 37"],
+    ["NGC4494", "", "Gx", "12 31.4", "+25 46"],
+    ["NGC4495", "", "Gx", "12 31.4", "+29 08"],
+    ["NGC4496", "", "Gx", "12 31.7", "+03 56"],
+    ["NGC4497", "", "Gx", "12 31.5", "+11 37"],
+    ["NGC4498", "", "Gx", "12 31.7", "+16 51"],
+    ["NGC4499", "", "Gx", "12 32.1", "-39 59"],
+    ["NGC4500", "", "Gx", "12 31.4", "+57 58"],
+    ["NGC4502", "", "Gx", "12 32.1", "+16 41"],
+    ["NGC4503", "", "Gx", "12 32.1", "+11 11"],
+    ["NGC4504", "", "Gx", "12 32.3", "-07 34"],
+    ["NGC4506", "", "Gx", "12 32.2", "+13 25"],
+    ["NGC4507", "Shapley-Ames 2", "Gx", "12 35.6", "-39 55"],
+    ["NGC4509", "", "Gx", "12 33.1", "+32 05"],
+    ["NGC4510", "", "Gx", "12 31.8", "+64 14"],
+    ["NGC4511", "", "Gx", "12 32.1", "+56 28"],
+    ["NGC4512", "", "Gx", "12 32.5", "+63 53"],
+    ["NGC4513", "", "Gx", "12 32.0", "+66 20"],
+    ["NGC4514", "", "Gx", "12 32.7", "+29 43"],
+    ["NGC4515", "", "Gx", "12 33.1", "+16 16"],
+    ["NGC4516", "", "Gx", "12 33.1", "+14 34"],
+    ["NGC4517", "", "Gx", "12 32.5", "+00 23"],
+    ["NGC4518", "", "Gx", "12 33.2", "+07 51"],
+    ["NGC4519", "", "Gx", "12 33.5", "+08 39"],
+    ["NGC4520", "", "Gx", "12 33.8", "-07 23"],
+    ["NGC4521", "", "Gx", "12 32.8", "+63 56"],
+    ["NGC4522", "", "Gx", "12 33.7", "+09 10"],
+    ["NGC4523", "", "Gx", "12 33.8", "+15 10"],
+    ["NGC4524", "", "Gx", "12 33.9", "-12 02"],
+    ["NGC4525", "", "Gx", "12 33.9", "+30 17"],
+    ["NGC4526", "Lost Galaxy", "Gx", "12 34.1", "+07 42"],
+    ["NGC4527", "", "Gx", "12 34.1", "+02 39"],
+    ["NGC4528", "", "Gx", "12 34.1", "+11 19"],
+    ["NGC4529", "", "Gx", "12 31.7", "+20 29"],
+    ["NGC4531", "", "Gx", "12 34.3", "+13 05"],
+    ["NGC4532", "", "Gx", "12 34.3", "+06 28"],
+    ["NGC4533", "", "Gx", "12 34.4", "+02 20"],
+    ["NGC4534", "", "Gx", "12 34.1", "+35 31"],
+    ["NGC4535", "The Lost Galaxy of Copeland", "Gx", "12 34.3", "+08 12"],
+    ["NGC4536", "", "Gx", "12 34.5", "+02 11"],
+    ["NGC4537", "", "Gx", "12 35.0", "+50 51"],
+    ["NGC4538", "", "Gx", "12 34.7", "+03 19"],
+    ["NGC4539", "", "Gx", "12 34.6", "+18 12"],
+    ["NGC4540", "", "Gx", "12 34.8", "+15 33"],
+    ["NGC4541", "", "Gx", "12 35.2", "-00 13"],
+    ["NGC4542", "", "Gx", "12 34.8", "+50 48"],
+    ["NGC4543", "", "Gx", "12 35.3", "+06 07"],
+    ["NGC4544", "", "Gx", "12 35.6", "+03 02"],
+    ["NGC4545", "", "Gx", "12 34.6", "+63 32"],
+    ["NGC4546", "", "Gx", "12 35.5", "-03 48"],
+    ["NGC4547", "", "Gx", "12 34.9", "+58 55"],
+    ["NGC4549", "", "Gx", "12 34.9", "+58 55"],
+    ["NGC4550", "", "Gx", "12 35.5", "+12 13"],
+    ["NGC4551", "", "Gx", "12 35.6", "+12 16"],
+    ["NGC4553", "", "Gx", "12 36.1", "-39 26"],
+    ["NGC4555", "", "Gx", "12 35.7", "+26 31"],
+    ["NGC4556", "", "Gx", "12 35.8", "+26 55"],
+    ["NGC4557", "", "Gx", "12 35.9", "+27 00"],
+    ["NGC4558", "", "Gx", "12 35.9", "+27 00"],
+    ["NGC4561", "", "Gx", "12 36.1", "+19 19"],
+    ["NGC4562", "", "Gx", "12 35.6", "+25 51"],
+    ["NGC4563", "", "Gx", "12 36.2", "+26 56"],
+    ["NGC4564", "", "Gx", "12 36.4", "+11 26"],
+    ["NGC4566", "", "Gx", "12 36.0", "+54 13"],
+    ["NGC4567", "Siamese Twins", "Gx", "12 36.5", "+11 15"],
+    ["NGC4568", "Siamese Twins", "Gx", "12 36.6", "+11 14"],
+    ["NGC4570", "", "Gx", "12 36.9", "+07 15"],
+    ["NGC4571", "", "Gx", "12 36.9", "+14 13"],
+    ["NGC4572", "", "Gx", "12 35.8", "+74 15"],
+    ["NGC4573", "", "Gx", "12 37.7", "-43 37"],
+    ["NGC4574", "", "Gx", "12 37.7", "-35 31"],
+    ["NGC4575", "", "Gx", "12 37.9", "-40 32"],
+    ["NGC4576", "", "Gx", "12 37.6", "+04 22"],
+    ["NGC4578", "", "Gx", "12 37.5", "+09 33"],
+    ["NGC4580", "", "Gx", "12 37.8", "+05 22"],
+    ["NGC4581", "", "Gx", "12 38.1", "+01 29"],
+    ["NGC4583", "", "Gx", "12 38.1", "+33 28"],
+    ["NGC4584", "", "Gx", "12 38.3", "+13 07"],
+    ["NGC4585", "", "Gx", "12 38.2", "+28 56"],
+    ["NGC4586", "", "Gx", "12 38.5", "+04 19"],
+    ["NGC4587", "", "Gx", "12 38.6", "+02 39"],
+    ["NGC4588", "", "Gx", "12 38.8", "+06 46"],
+    ["NGC4589", "", "Gx", "12 37.4", "+74 12"],
+    ["NGC4591", "", "Gx", "12 39.2", "+06 01"],
+    ["NGC4592", "", "Gx", "12 39.3", "-00 32"],
+    ["NGC4593", "", "Gx", "12 39.7", "-05 21"],
+    ["NGC4595", "", "Gx", "12 39.9", "+15 18"],
+    ["NGC4596", "", "Gx", "12 39.9", "+10 11"],
+    ["NGC4597", "", "Gx", "12 40.2", "-05 48"],
+    ["NGC4598", "", "Gx", "12 40.2", "+08 23"],
+    ["NGC4599", "", "Gx", "12 40.5", "+01 12"],
+    ["NGC4600", "", "Gx", "12 40.4", "+03 07"],
+    ["NGC4601", "", "Gx", "12 40.8", "-40 54"],
+    ["NGC4602", "", "Gx", "12 40.6", "-05 08"],
+    ["NGC4603", "", "Gx", "12 40.9", "-40 59"],
+    ["NGC4604", "", "Gx", "12 40.7", "-05 18"],
+    ["NGC4605", "Faberge Egg Galaxy", "Gx", "12 40.0", "+61 37"],
+    ["NGC4606", "", "Gx", "12 41.0", "+11 55"],
+    ["NGC4607", "", "Gx", "12 41.2", "+11 53"],
+    ["NGC4608", "", "Gx", "12 41.2", "+10 09"],
+    ["NGC4609", "Coalsack Cluster", "OC", "12 42.3", "-63 00"],
+    ["NGC4611", "", "Gx", "12 41.4", "+13 44"],
+    ["NGC4612", "", "Gx", "12 41.5", "+07 19"],
+    ["NGC4613", "", "Gx", "12 41.5", "+26 05"],
+    ["NGC4614", "", "Gx", "12 41.5", "+26 03"],
+    ["NGC4615", "", "Gx", "12 41.6", "+26 04"],
+    ["NGC4616", "", "Gx", "12 42.3", "-40 39"],
+    ["NGC4617", "", "Gx", "12 41.1", "+50 24"],
+    ["NGC4618", "", "Gx", "12 41.5", "+41 09"],
+    ["NGC4619", "", "Gx", "12 41.7", "+35 04"],
+    ["NGC4620", "", "Gx", "12 42.0", "+12 57"],
+    ["NGC4622", "Centaurus Chain", "Gx", "12 42.6", "-40 45"],
+    ["NGC4623", "", "Gx", "12 42.2", "+07 41"],
+    ["NGC4625", "", "Gx", "12 41.9", "+41 16"],
+    ["NGC4626", "", "Gx", "12 42.4", "-07 03"],
+    ["NGC4627", "", "Gx", "12 42.0", "+32 34"],
+    ["NGC4628", "", "Gx", "12 42.4", "-06 58"],
+    ["NGC4629", "", "Gx", "12 42.5", "-01 21"],
+    ["NGC4630", "", "Gx", "12 42.5", "+03 58"],
+    ["NGC4632", "", "Gx", "12 42.5", "-00 05"],
+    ["NGC4633", "", "Gx", "12 42.6", "+14 21"],
+    ["NGC4634", "", "Gx", "12 42.7", "+14 18"],
+    ["NGC4635", "", "Gx", "12 42.7", "+19 57"],
+    ["NGC4636", "", "Gx", "12 42.8", "+02 41"],
+    ["NGC4637", "", "Gx", "12 42.9", "+11 26"],
+    ["NGC4638", "", "Gx", "12 42.8", "+11 27"],
+    ["NGC4639", "", "Gx", "12 42.9", "+13 15"],
+    ["NGC4640", "", "Gx", "12 43.0", "+12 17"],
+    ["NGC4641", "", "Gx", "12 43.1", "+12 03"],
+    ["NGC4642", "", "Gx", "12 43.3", "-00 39"],
+    ["NGC4643", "", "Gx", "12 43.3", "+01 59"],
+    ["NGC4644", "", "Gx", "12 42.7", "+55 09"],
+    ["NGC4645", "", "Gx", "12 44.2", "-41 45"],
+    ["NGC4646", "", "Gx", "12 42.9", "+54 51"],
+    ["NGC4647", "", "Gx", "12 43.5", "+11 35"],
+    ["NGC4648", "", "Gx", "12 41.7", "+74 25"],
+    ["NGC4650", "Centaurus Chain", "Gx", "12 44.3", "-40 44"],
+    ["NGC4651", "Umbrella Galaxy", "Gx", "12 43.7", "+16 24"],
+    ["NGC4652", "", "Gx", "12 43.3", "+58 58"],
+    ["NGC4653", "", "Gx", "12 43.8", "-00 34"],
+    ["NGC4654", "", "Gx", "12 43.9", "+13 08"],
+    ["NGC4655", "", "Gx", "12 43.6", "+41 01"],
+    ["NGC4656", "Crowbar Galaxy", "Gx", "12 44.0", "+32 10"],
+    ["NGC4657", "Fishhook Galaxy", "Gx", "12 44.2", "+32 12"],
+    ["NGC4658", "", "Gx", "12 44.6", "-10 05"],
+    ["NGC4659", "", "Gx", "12 44.5", "+13 30"],
+    ["NGC4660", "", "Gx", "12 44.5", "+11 11"],
+    ["NGC4661", "", "Gx", "12 45.2", "-40 49"],
+    ["NGC4662", "", "Gx", "12 44.4", "+37 07"],
+    ["NGC4663", "", "Gx", "12 44.8", "-10 12"],
+    ["NGC4664", "", "Gx", "12 45.1", "+03 03"],
+    ["NGC4666", "Superwind-Galaxy", "Gx", "12 45.1", "-00 28"],
+    ["NGC4668", "", "Gx", "12 45.5", "-00 32"],
+    ["NGC4669", "Vinyl LP Galaxy", "Gx", "12 44.8", "+54 53"],
+    ["NGC4670", "", "Gx", "12 45.3", "+27 08"],
+    ["NGC4671", "", "Gx", "12 45.8", "-07 04"],
+    ["NGC4672", "", "Gx", "12 46.3", "-41 42"],
+    ["NGC4673", "", "Gx", "12 45.6", "+27 04"],
+    ["NGC4674", "", "Gx", "12 46.1", "-08 39"],
+    ["NGC4675", "", "Gx", "12 45.5", "+54 44"],
+    ["NGC4676", "Mice Galaxies", "Gx", "12 46.2", "+30 43"],
+    ["NGC4677", "", "Gx", "12 47.0", "-41 35"],
+    ["NGC4678", "", "Gx", "12 49.7", "-04 35"],
+    ["NGC4679", "", "Gx", "12 47.5", "-39 34"],
+    ["NGC4680", "", "Gx", "12 46.9", "-11 38"],
+    ["NGC4681", "", "Gx", "12 47.5", "-43 20"],
+    ["NGC4682", "", "Gx", "12 47.3", "-10 04"],
+    ["NGC4683", "", "Gx", "12 47.7", "-41 32"],
+    ["NGC4684", "", "Gx", "12 47.3", "-02 44"],
+    ["NGC4685", "", "Gx", "12 47.2", "+19 28"],
+    ["NGC4686", "", "Gx", "12 46.7", "+54 32"],
+    ["NGC4687", "", "Gx", "12 47.4", "+35 21"],
+    ["NGC4688", "", "Gx", "12 47.8", "+04 20"],
+    ["NGC4689", "", "Gx", "12 47.8", "+13 46"],
+    ["NGC4690", "", "Gx", "12 47.9", "-01 39"],
+    ["NGC4691", "", "Gx", "12 48.2", "-03 20"],
+    ["NGC4692", "", "Gx", "12 47.9", "+27 13"],
+    ["NGC4693", "", "Gx", "12 47.2", "+71 11"],
+    ["NGC4694", "", "Gx", "12 48.3", "+10 59"],
+    ["NGC4695", "", "Gx", "12 47.5", "+54 22"],
+    ["NGC4696", "", "Gx", "12 48.8", "-41 19"],
+    ["NGC4697", "", "Gx", "12 48.6", "-05 48"],
+    ["NGC4698", "", "Gx", "12 48.4", "+08 29"],
+    ["NGC4699", "", "Gx", "12 49.0", "-08 40"],
+    ["NGC4700", "", "Gx", "12 49.1", "-11 25"],
+    ["NGC4701", "", "Gx", "12 49.2", "+03 23"],
+    ["NGC4702", "", "Gx", "12 49.0", "+27 11"],
+    ["NGC4703", "", "Gx", "12 49.3", "-09 07"],
+    ["NGC4704", "", "Gx", "12 48.8", "+41 55"],
+    ["NGC4705", "", "Gx", "12 49.4", "-05 12"],
+    ["NGC4706", "", "Gx", "12 49.9", "-41 17"],
+    ["NGC4707", "", "Gx", "12 48.4", "+51 10"],
+    ["NGC4708", "", "Gx", "12 49.7", "-11 06"],
+    ["NGC4709", "", "Gx", "12 50.1", "-41 23"],
+    ["NGC4710", "", "Gx", "12 49.6", "+15 10"],
+    ["NGC4711", "", "Gx", "12 48.8", "+35 20"],
+    ["NGC4712", "", "Gx", "12 49.6", "+25 28"],
+    ["NGC4713", "", "Gx", "12 50.0", "+05 19"],
+    ["NGC4714", "", "Gx", "12 50.3", "-13 19"],
+    ["NGC4715", "", "Gx", "12 50.0", "+27 49"],
+    ["NGC4716", "", "Gx", "12 50.6", "-09 27"],
+    ["NGC4717", "", "Gx", "12 50.6", "-09 28"],
+    ["NGC4718", "", "Gx", "12 50.5", "-05 17"],
+    ["NGC4719", "", "Gx", "12 50.1", "+33 10"],
+    ["NGC4720", "", "Gx", "12 50.7", "-04 09"],
+    ["NGC4721", "", "Gx", "12 50.3", "+27 19"],
+    ["NGC4722", "", "Gx", "12 51.5", "-13 20"],
+    ["NGC4723", "", "Gx", "12 51.0", "-13 14"],
+    ["NGC4724", "", "Gx", "12 50.9", "-14 20"],
+    ["NGC4725", "", "Gx", "12 50.4", "+25 30"],
+    ["NGC4726", "", "Gx", "12 51.5", "-14 13"],
+    ["NGC4727", "", "Gx", "12 51.0", "-14 20"],
+    ["NGC4728", "", "Gx", "12 50.5", "+27 26"],
+    ["NGC4729", "", "Gx", "12 51.8", "-41 08"],
+    ["NGC4730", "", "Gx", "12 52.0", "-41 09"],
+    ["NGC4731", "", "Gx", "12 51.0", "-06 24"],
+    ["NGC4732", "", "Gx", "12 50.1", "+52 51"],
+    ["NGC4733", "", "Gx", "12 51.1", "+10 55"],
+    ["NGC4734", "", "Gx", "12 51.2", "+04 52"],
+    ["NGC4735", "", "Gx", "12 51.0", "+28 56"],
+    ["NGC4737", "", "Gx", "12 50.9", "+34 09"],
+    ["NGC4738", "", "Gx", "12 51.1", "+28 47"],
+    ["NGC4739", "", "Gx", "12 51.6", "-08 25"],
+    ["NGC4741", "", "Gx", "12 51.0", "+47 40"],
+    ["NGC4742", "", "Gx", "12 51.8", "-10 27"],
+    ["NGC4743", "", "Gx", "12 52.3", "-41 23"],
+    ["NGC4744", "", "Gx", "12 52.3", "-41 04"],
+    ["NGC4745", "", "Gx", "12 51.4", "+27 25"],
+    ["NGC4746", "", "Gx", "12 51.9", "+12 05"],
+    ["NGC4747", "", "Gx", "12 51.8", "+25 46"],
+    ["NGC4748", "", "Gx", "12 52.2", "-13 25"],
+    ["NGC4749", "", "Gx", "12 51.2", "+71 38"],
+    ["NGC4750", "", "Gx", "12 50.1", "+72 52"],
+    ["NGC4751", "", "Gx", "12 52.8", "-42 40"],
+    ["NGC4753", "Dust Devil Galaxy", "Gx", "12 52.4", "-01 12"],
+    ["NGC4754", "", "Gx", "12 52.3", "+11 19"],
+    ["NGC4755", "Jewel Box", "OC", "12 53.6", "-60 22"],
+    ["NGC4756", "", "Gx", "12 52.9", "-15 25"],
+    ["NGC4757", "", "Gx", "12 52.8", "-10 19"],
+    ["NGC4758", "", "Gx", "12 52.7", "+15 51"],
+    ["NGC4759", "", "Gx", "12 53.1", "-09 12"],
+    ["NGC4760", "", "Gx", "12 53.1", "-10 30"],
+    ["NGC4761", "", "Gx", "12 53.1", "-09 12"],
+    ["NGC4762", "Paper-Kite Galaxy", "Gx", "12 52.9", "+11 14"],
+    ["NGC4763", "", "Gx", "12 53.5", "-17 00"],
+    ["NGC4764", "", "Gx", "12 53.2", "-09 12"],
+    ["NGC4765", "", "Gx", "12 53.2", "+04 28"],
+    ["NGC4766", "", "Gx", "12 53.1", "-10 23"],
+    ["NGC4767", "", "Gx", "12 53.9", "-39 43"],
+    ["NGC4770", "", "Gx", "12 53.5", "-09 32"],
+    ["NGC4771", "", "Gx", "12 53.4", "+01 16"],
+    ["NGC4772", "", "Gx", "12 53.5", "+02 10"],
+    ["NGC4773", "", "Gx", "12 53.6", "-08 38"],
+    ["NGC4774", "Kidney Bean Galaxy", "Gx", "12 53.1", "+36 49"],
+    ["NGC4775", "", "Gx", "12 53.8", "-06 37"],
+    ["NGC4777", "", "Gx", "12 54.0", "-08 47"],
+    ["NGC4779", "", "Gx", "12 53.8", "+09 43"],
+    ["NGC4780", "", "Gx", "12 54.1", "-08 37"],
+    ["NGC4781", "", "Gx", "12 54.4", "-10 32"],
+    ["NGC4782", "", "Gx", "12 54.6", "-12 34"],
+    ["NGC4783", "", "Gx", "12 54.6", "-12 34"],
+    ["NGC4784", "", "Gx", "12 54.6", "-10 37"],
+    ["NGC4785", "", "Gx", "12 53.5", "-48 45"],
+    ["NGC4786", "", "Gx", "12 54.5", "-06 52"],
+    ["NGC4787", "", "Gx", "12 54.1", "+27 04"],
+    ["NGC4788", "", "Gx", "12 54.3", "+27 18"],
+    ["NGC4789", "", "Gx", "12 54.1", "+27 09"],
+    ["NGC4790", "", "Gx", "12 54.9", "-10 15"],
+    ["NGC4791", "", "Gx", "12 54.7", "+08 03"],
+    ["NGC4792", "", "Gx", "12 55.1", "-12 30"],
+    ["NGC4793", "", "Gx", "12 54.7", "+28 56"],
+    ["NGC4794", "", "Gx", "12 55.2", "-12 37"],
+    ["NGC4795", "", "Gx", "12 55.0", "+08 04"],
+    ["NGC4796", "", "Gx", "12 55.1", "+08 04"],
+    ["NGC4797", "", "Gx", "12 54.9", "+27 25"],
+    ["NGC4799", "", "Gx", "12 55.3", "+02 54"],
+    ["NGC4800", "", "Gx", "12 54.6", "+46 32"],
+    ["NGC4801", "", "Gx", "12 54.6", "+53 05"],
+    ["NGC4803", "", "Gx", "12 55.6", "+08 14"],
+    ["NGC4804", "", "Gx", "12 55.8", "-12 03"],
+    ["NGC4806", "", "Gx", "12 56.2", "-29 30"],
+    ["NGC4807", "", "Gx", "12 55.5", "+27 31"],
+    ["NGC4808", "", "Gx", "12 55.8", "+04 18"],
+    ["NGC4809", "", "Gx", "12 54.9", "+02 39"],
+    ["NGC4810", "", "Gx", "12 54.9", "+02 38"],
+    ["NGC4811", "", "Gx", "12 56.9", "-41 48"],
+    ["NGC4812", "", "Gx", "12 56.9", "-41 49"],
+    ["NGC4813", "", "Gx", "12 56.6", "-06 49"],
+    ["NGC4814", "", "Gx", "12 55.4", "+58 21"],
+    ["NGC4815", "", "OC", "12 58.0", "-64 58"],
+    ["NGC4816", "", "Gx", "12 56.2", "+27 45"],
+    ["NGC4818", "", "Gx", "12 56.8", "-08 32"],
+    ["NGC4819", "", "Gx", "12 56.5", "+26 59"],
+    ["NGC4820", "", "Gx", "12 57.0", "-13 43"],
+    ["NGC4821", "", "Gx", "12 56.5", "+26 57"],
+    ["NGC4822", "", "Gx", "12 57.1", "-10 46"],
+    ["NGC4823", "", "Gx", "12 57.4", "-13 44"],
+    ["NGC4824", "", "Gx", "12 56.6", "+27 32"],
+    ["NGC4825", "", "Gx", "12 57.2", "-13 40"],
+    ["NGC4827", "", "Gx", "12 56.7", "+27 11"],
+    ["NGC4828", "", "Gx", "12 56.7", "+28 01"],
+    ["NGC4829", "", "Gx", "12 57.4", "-13 42"],
+    ["NGC4830", "", "Gx", "12 57.5", "-19 41"],
+    ["NGC4831", "", "Gx", "12 57.6", "-27 18"],
+    ["NGC4832", "", "Gx", "12 57.8", "-39 46"],
+    ["NGC4833", "The Southern Butterfly", "GC", "12 59.6", "-70 53"],
+    ["NGC4834", "", "Gx", "12 56.4", "+52 18"],
+    ["NGC4835", "", "Gx", "12 58.1", "-46 16"],
+    ["NGC4836", "", "Gx", "12 57.6", "-12 45"],
+    ["NGC4837", "", "Gx", "12 56.8", "+48 18"],
+    ["NGC4838", "", "Gx", "12 57.9", "-13 04"],
+    ["NGC4839", "", "Gx", "12 57.4", "+27 30"],
+    ["NGC4840", "", "Gx", "12 57.5", "+27 37"],
+    ["NGC4841", "", "Gx", "12 57.6", "+28 29"],
+    ["NGC4842", "", "Gx", "12 57.6", "+27 30"],
+    ["NGC4843", "", "Gx", "12 58.0", "-03 37"],
+    ["NGC4845", "", "Gx", "12 58.0", "+01 35"],
+    ["NGC4846", "", "Gx", "12 57.8", "+36 22"],
+    ["NGC4848", "", "Gx", "12 58.1", "+28 15"],
+    ["NGC4849", "", "Gx", "12 58.2", "+26 24"],
+    ["NGC4850", "", "Gx", "12 58.4", "+27 58"],
+    ["NGC4851", "", "Gx", "12 58.4", "+28 09"],
+    ["NGC4852", "", "OC", "13 00.1", "-59 37"],
+    ["NGC4853", "", "Gx", "12 58.6", "+27 36"],
+    ["NGC4854", "", "Gx", "12 58.8", "+27 40"],
+    ["NGC4855", "", "Gx", "12 59.3", "-13 14"],
+    ["NGC4856", "", "Gx", "12 59.4", "-15 03"],
+    ["NGC4857", "", "Gx", "12 57.3", "+70 12"],
+    ["NGC4858", "", "Gx", "12 59.0", "+28 07"],
+    ["NGC4859", "", "Gx", "12 59.0", "+26 49"],
+    ["NGC4860", "", "Gx", "12 59.1", "+28 07"],
+    ["NGC4861", "", "Gx", "12 59.0", "+34 52"],
+    ["NGC4862", "", "Gx", "12 59.5", "-14 08"],
+    ["NGC4863", "", "Gx", "12 59.7", "-14 02"],
+    ["NGC4864", "", "Gx", "12 59.2", "+27 59"],
+    ["NGC4865", "", "Gx", "12 59.3", "+28 05"],
+    ["NGC4866", "", "Gx", "12 59.5", "+14 10"],
+    ["NGC4867", "", "Gx", "12 59.3", "+27 58"],
+    ["NGC4868", "", "Gx", "12 59.1", "+37 19"],
+    ["NGC4869", "", "Gx", "12 59.4", "+27 55"],
+    ["NGC4870", "", "Gx", "12 59.3", "+37 03"],
+    ["NGC4871", "", "Gx", "12 59.5", "+27 57"],
+    ["NGC4872", "", "Gx", "12 59.6", "+27 57"],
+    ["NGC4873", "", "Gx", "12 59.5", "+27 59"],
+    ["NGC4874", "", "Gx", "12 59.6", "+27 58"],
+    ["NGC4875", "", "Gx", "12 59.6", "+27 54"],
+    ["NGC4876", "", "Gx", "12 59.7", "+27 55"],
+    ["NGC4877", "", "Gx", "13 00.4", "-15 17"],
+    ["NGC4878", "", "Gx", "13 00.3", "-06 06"],
+    ["NGC4880", "", "Gx", "13 00.2", "+12 29"],
+    ["NGC4881", "", "Gx", "13 00.0", "+28 15"],
+    ["NGC4883", "", "Gx", "12 59.9", "+28 02"],
+    ["NGC4885", "", "Gx", "13 00.6", "-06 51"],
+    ["NGC4886", "", "Gx", "13 00.1", "+27 59"],
+    ["NGC4887", "", "Gx", "13 00.7", "-14 40"],
+    ["NGC4888", "", "Gx", "13 00.6", "-06 04"],
+    ["NGC4889", "Coma B", "Gx", "13 00.1", "+27 59"],
+    ["NGC4890", "", "Gx", "13 00.7", "-04 36"],
+    ["NGC4892", "", "Gx", "13 00.1", "+26 54"],
+    ["NGC4893", "", "Gx", "13 00.0", "+37 12"],
+    ["NGC4894", "", "Gx", "13 00.3", "+27 58"],
+    ["NGC4895", "", "Gx", "13 00.3", "+28 12"],
+    ["NGC4896", "", "Gx", "13 00.5", "+28 21"],
+    ["NGC4897", "", "Gx", "13 00.9", "-13 27"],
+    ["NGC4898", "Z Coma Coma", "Gx", "13 00.3", "+27 57"],
+    ["NGC4899", "", "Gx", "13 00.9", "-13 57"],
+    ["NGC4900", "", "Gx", "13 00.7", "+02 30"],
+    ["NGC4901", "", "Gx", "12 59.9", "+47 12"],
+    ["NGC4902", "", "Gx", "13 01.0", "-14 31"],
+    ["NGC4903", "", "Gx", "13 01.4", "-30 56"],
+    ["NGC4904", "", "Gx", "13 01.0", "-00 02"],
+    ["NGC4905", "", "Gx", "13 01.5", "-30 52"],
+    ["NGC4906", "", "Gx", "13 00.7", "+27 55"],
+    ["NGC4907", "", "Gx", "13 00.8", "+28 09"],
+    ["NGC4908", "", "Gx", "13 00.9", "+28 03"],
+    ["NGC4909", "", "Gx", "13 02.0", "-42 46"],
+    ["NGC4911", "", "Gx", "13 00.9", "+27 47"],
+    ["NGC4914", "", "Gx", "13 00.7", "+37 19"],
+    ["NGC4915", "", "Gx", "13 01.5", "-04 33"],
+    ["NGC4916", "", "Gx", "13 00.7", "+37 23"],
+    ["NGC4917", "", "Gx", "13 00.9", "+47 13"],
+    ["NGC4918", "", "Gx", "13 01.8", "-04 30"],
+    ["NGC4919", "", "Gx", "13 01.3", "+27 49"],
+    ["NGC4920", "", "Gx", "13 02.1", "-11 23"],
+    ["NGC4921", "", "Gx", "13 01.4", "+27 53"],
+    ["NGC4922", "", "Gx", "13 01.4", "+29 19"],
+    ["NGC4923", "", "Gx", "13 01.5", "+27 51"],
+    ["NGC4924", "", "Gx", "13 02.2", "-14 58"],
+    ["NGC4925", "", "Gx", "13 02.1", "-07 43"],
+    ["NGC4926", "", "Gx", "13 01.9", "+27 37"],
+    ["NGC4927", "", "Gx", "13 02.0", "+28 00"],
+    ["NGC4928", "", "Gx", "13 03.0", "-08 05"],
+    ["NGC4929", "", "Gx", "13 02.7", "+28 03"],
+    ["NGC4930", "", "Gx", "13 04.1", "-41 25"],
+    ["NGC4931", "", "Gx", "13 03.0", "+28 02"],
+    ["NGC4932", "", "Gx", "13 02.6", "+50 26"],
+    ["NGC4933", "", "Gx", "13 04.0", "-11 30"],
+    ["NGC4934", "", "Gx", "13 03.3", "+28 02"],
+    ["NGC4935", "", "Gx", "13 03.4", "+14 23"],
+    ["NGC4936", "", "Gx", "13 04.3", "-30 32"],
+    ["NGC4938", "", "Gx", "13 03.0", "+51 20"],
+    ["NGC4939", "", "Gx", "13 04.2", "-10 20"],
+    ["NGC4940", "", "Gx", "13 05.0", "-47 14"],
+    ["NGC4941", "", "Gx", "13 04.2", "-05 33"],
+    ["NGC4942", "", "Gx", "13 04.3", "-07 39"],
+    ["NGC4943", "", "Gx", "13 03.7", "+28 05"],
+    ["NGC4944", "", "Gx", "13 03.8", "+28 11"],
+    ["NGC4945", "The Tweezers Galaxy", "Gx", "13 05.5", "-49 28"],
+    ["NGC4946", "", "Gx", "13 05.5", "-43 35"],
+    ["NGC4947", "", "Gx", "13 05.3", "-35 20"],
+    ["NGC4948", "", "Gx", "13 04.9", "-07 57"],
+    ["NGC4949", "", "Gx", "13 04.3", "+29 02"],
+    ["NGC4950", "", "Gx", "13 05.6", "-43 30"],
+    ["NGC4951", "", "Gx", "13 05.1", "-06 30"],
+    ["NGC4952", "", "Gx", "13 05.0", "+29 07"],
+    ["NGC4953", "", "Gx", "13 06.2", "-37 35"],
+    ["NGC4954", "", "Gx", "13 02.3", "+75 24"],
+    ["NGC4955", "", "Gx", "13 06.1", "-29 45"],
+    ["NGC4956", "", "Gx", "13 05.0", "+35 11"],
+    ["NGC4957", "", "Gx", "13 05.2", "+27 34"],
+    ["NGC4958", "", "Gx", "13 05.8", "-08 01"],
+    ["NGC4959", "", "Gx", "13 05.7", "+33 11"],
+    ["NGC4960", "", "Gx", "13 05.9", "+27 33"],
+    ["NGC4961", "", "Gx", "13 05.8", "+27 44"],
+    ["NGC4963", "", "Gx", "13 05.9", "+41 43"],
+    ["NGC4964", "", "Gx", "13 05.4", "+56 19"],
+    ["NGC4965", "", "Gx", "13 07.2", "-28 14"],
+    ["NGC4966", "", "Gx", "13 06.3", "+29 04"],
+    ["NGC4967", "", "Gx", "13 05.6", "+53 34"],
+    ["NGC4968", "", "Gx", "13 07.1", "-23 41"],
+    ["NGC4969", "", "Gx", "13 07.1", "+13 38"],
+    ["NGC4970", "", "Gx", "13 07.6", "-24 01"],
+    ["NGC4971", "", "Gx", "13 06.9", "+28 33"],
+    ["NGC4973", "", "Gx", "13 05.9", "+53 40"],
+    ["NGC4974", "", "Gx", "13 06.1", "+53 37"],
+    ["NGC4975", "", "Gx", "13 07.8", "-05 01"],
+    ["NGC4976", "", "Gx", "13 08.6", "-49 30"],
+    ["NGC4977", "", "Gx", "13 06.1", "+55 39"],
+    ["NGC4978", "", "Gx", "13 07.8", "+18 25"],
+    ["NGC4979", "", "Gx", "13 07.7", "+24 49"],
+    ["NGC4980", "", "Gx", "13 09.2", "-28 39"],
+    ["NGC4981", "", "Gx", "13 08.8", "-06 47"],
+    ["NGC4983", "", "Gx", "13 08.5", "+28 19"],
+    ["NGC4984", "", "Gx", "13 09.0", "-15 31"],
+    ["NGC4985", "", "Gx", "13 08.2", "+41 41"],
+    ["NGC4986", "", "Gx", "13 08.4", "+35 12"],
+    ["NGC4987", "", "Gx", "13 08.0", "+51 56"],
+    ["NGC4988", "", "Gx", "13 09.9", "-43 06"],
+    ["NGC4989", "", "Gx", "13 09.3", "-05 24"],
+    ["NGC4990", "Cocoon Galaxy", "Gx", "13 09.3", "-05 16"],
+    ["NGC4991", "", "Gx", "13 09.3", "+02 21"],
+    ["NGC4992", "", "Gx", "13 09.1", "+11 38"],
+    ["NGC4993", "", "Gx", "13 09.8", "-23 23"],
+    ["NGC4995", "", "Gx", "13 09.7", "-07 50"],
+    ["NGC4996", "", "Gx", "13 09.5", "+00 51"],
+    ["NGC4997", "", "Gx", "13 09.9", "-16 31"],
+    ["NGC4998", "", "Gx", "13 08.2", "+50 40"],
+    ["NGC4999", "", "Gx", "13 09.6", "+01 40"],
+    ["NGC5000", "", "Gx", "13 09.8", "+28 54"],
+    ["NGC5001", "", "Gx", "13 09.6", "+53 30"],
+    ["NGC5002", "", "Gx", "13 10.6", "+36 38"],
+    ["NGC5003", "", "Gx", "13 08.6", "+43 44"],
+    ["NGC5004", "", "Gx", "13 11.0", "+29 35"],
+    ["NGC5006", "", "Gx", "13 11.8", "-19 16"],
+    ["NGC5007", "", "Gx", "13 09.2", "+62 10"],
+    ["NGC5008", "", "Gx", "14 11.0", "+25 30"],
+    ["NGC5009", "", "Gx", "13 10.8", "+50 06"],
+    ["NGC5010", "", "Gx", "13 12.4", "-15 48"],
+    ["NGC5011", "", "Gx", "13 12.9", "-43 06"],
+    ["NGC5012", "", "Gx", "13 12.7", "+22 50"],
+    ["NGC5013", "", "Gx", "13 12.1", "+03 12"],
+    ["NGC5014", "", "Gx", "13 11.5", "+36 17"],
+    ["NGC5015", "", "Gx", "13 12.4", "-04 20"],
+    ["NGC5016", "", "Gx", "13 12.1", "+24 06"],
+    ["NGC5017", "", "Gx", "13 12.9", "-16 46"],
+    ["NGC5018", "", "Gx", "13 13.0", "-19 31"],
+    ["NGC5019", "", "Gx", "13 12.7", "+04 44"],
+    ["NGC5020", "", "Gx", "13 12.7", "+12 36"],
+    ["NGC5021", "", "Gx", "13 12.1", "+46 12"],
+    ["NGC5022", "", "Gx", "13 13.5", "-19 33"],
+    ["NGC5023", "", "Gx", "13 12.2", "+44 02"],
+    ["NGC5025", "", "Gx", "13 12.7", "+31 49"],
+    ["NGC5026", "", "Gx", "13 14.2", "-42 58"],
+    ["NGC5027", "", "Gx", "13 13.3", "+06 04"],
+    ["NGC5028", "", "Gx", "13 13.8", "-13 03"],
+    ["NGC5029", "", "Gx", "13 12.6", "+47 04"],
+    ["NGC5030", "", "Gx", "13 13.9", "-16 29"],
+    ["NGC5031", "", "Gx", "13 14.1", "-16 07"],
+    ["NGC5032", "", "Gx", "13 13.4", "+27 48"],
+    ["NGC5033", "Waterbug Galaxy", "Gx", "13 13.5", "+36 36"],
+    ["NGC5034", "", "Gx", "13 12.3", "+70 39"],
+    ["NGC5035", "", "Gx", "13 14.8", "-16 30"],
+    ["NGC5036", "", "Gx", "13 14.7", "-04 11"],
+    ["NGC5037", "", "Gx", "13 15.0", "-16 35"],
+    ["NGC5038", "", "Gx", "13 15.0", "-15 57"],
+    ["NGC5039", "", "Gx", "13 14.7", "-04 14"],
+    ["NGC5040", "", "Gx", "13 13.5", "+51 16"],
+    ["NGC5041", "", "Gx", "13 14.5", "+30 42"],
+    ["NGC5042", "", "Gx", "13 15.5", "-23 59"],
+    ["NGC5044", "NGC 5044 group", "Gx", "13 15.4", "-16 23"],
+    ["NGC5046", "", "Gx", "13 15.8", "-16 20"],
+    ["NGC5047", "", "Gx", "13 15.8", "-16 31"],
+    ["NGC5048", "", "Gx", "13 16.1", "-28 25"],
+    ["NGC5049", "", "Gx", "13 16.0", "-16 24"],
+    ["NGC5050", "", "Gx", "13 15.7", "+02 53"],
+    ["NGC5051", "", "Gx", "13 16.3", "-28 17"],
+    ["NGC5052", "", "Gx", "13 15.6", "+29 41"],
+    ["NGC5053", "", "GC", "13 16.5", "+17 42"],
+    ["NGC5054", "", "Gx", "13 17.0", "-16 38"],
+    ["NGC5056", "", "Gx", "13 16.2", "+30 57"],
+    ["NGC5057", "", "Gx", "13 16.5", "+31 02"],
+    ["NGC5058", "", "Gx", "13 16.9", "+12 33"],
+    ["NGC5059", "", "Gx", "13 17.0", "+07 51"],
+    ["NGC5060", "", "Gx", "13 17.3", "+06 02"],
+    ["NGC5061", "", "Gx", "13 18.1", "-26 50"],
+    ["NGC5062", "", "Gx", "13 18.4", "-35 28"],
+    ["NGC5063", "", "Gx", "13 18.4", "-35 21"],
+    ["NGC5064", "", "Gx", "13 19.0", "-47 55"],
+    ["NGC5065", "", "Gx", "13 17.5", "+31 06"],
+    ["NGC5066", "", "Gx", "13 18.5", "-10 14"],
+    ["NGC5068", "", "Gx", "13 18.9", "-21 02"],
+    ["NGC5070", "", "Gx", "13 19.3", "-12 29"],
+    ["NGC5071", "", "Gx", "13 18.6", "+07 56"],
+    ["NGC5072", "", "Gx", "13 19.2", "-12 32"],
+    ["NGC5073", "", "Gx", "13 19.3", "-14 51"],
+    ["NGC5074", "", "Gx", "13 18.4", "+31 28"],
+    ["NGC5075", "", "Gx", "13 19.1", "+07 50"],
+    ["NGC5076", "", "Gx", "13 19.5", "-12 44"],
+    ["NGC5077", "", "Gx", "13 19.5", "-12 39"],
+    ["NGC5078", "", "Gx", "13 19.8", "-27 25"],
+    ["NGC5079", "", "Gx", "13 19.6", "-12 42"],
+    ["NGC5080", "", "Gx", "13 19.3", "+08 26"],
+    ["NGC5081", "", "Gx", "13 19.1", "+28 30"],
+    ["NGC5082", "", "Gx", "13 20.7", "-43 42"],
+    ["NGC5083", "", "Gx", "13 19.1", "+39 35"],
+    ["NGC5084", "", "Gx", "13 20.3", "-21 50"],
+    ["NGC5085", "", "Gx", "13 20.3", "-24 26"],
+    ["NGC5086", "", "Gx", "13 20.9", "-43 44"],
+    ["NGC5087", "", "Gx", "13 20.4", "-20 37"],
+    ["NGC5088", "", "Gx", "13 20.3", "-12 34"],
+    ["NGC5089", "", "Gx", "13 19.7", "+30 15"],
+    ["NGC5090", "", "Gx", "13 21.2", "-43 42"],
+    ["NGC5091", "", "Gx", "13 21.3", "-43 43"],
+    ["NGC5092", "", "Gx", "13 19.9", "+23 00"],
+    ["NGC5093", "", "Gx", "13 19.6", "+40 23"],
+    ["NGC5094", "", "Gx", "13 20.8", "-14 05"],
+    ["NGC5095", "", "Gx", "13 20.6", "-02 17"],
+    ["NGC5096", "", "Gx", "13 20.1", "+33 05"],
+    ["NGC5097", "", "Gx", "13 21.0", "-12 28"],
+    ["NGC5098", "", "Gx", "13 20.2", "+33 09"],
+    ["NGC5099", "", "Gx", "13 21.3", "-13 03"],
+    ["NGC5100", "", "Gx", "13 21.0", "+08 59"],
+    ["NGC5101", "", "Gx", "13 21.8", "-27 26"],
+    ["NGC5102", "Iota's Ghost", "Gx", "13 22.0", "-36 38"],
+    ["NGC5103", "", "Gx", "13 20.5", "+43 05"],
+    ["NGC5104", "", "Gx", "13 21.4", "+00 21"],
+    ["NGC5105", "", "Gx", "13 21.8", "-13 12"],
+    ["NGC5107", "", "Gx", "13 21.4", "+38 32"],
+    ["NGC5108", "", "Gx", "13 23.3", "-32 21"],
+    ["NGC5109", "", "Gx", "13 20.9", "+57 39"],
+    ["NGC5110", "", "Gx", "13 22.9", "-12 58"],
+    ["NGC5112", "", "Gx", "13 21.9", "+38 44"],
+    ["NGC5113", "", "Gx", "13 21.4", "+57 41"],
+    ["NGC5114", "", "Gx", "13 24.0", "-32 21"],
+    ["NGC5115", "", "Gx", "13 23.0", "+13 57"],
+    ["NGC5116", "", "Gx", "13 22.9", "+26 59"],
+    ["NGC5117", "", "Gx", "13 22.9", "+28 19"],
+    ["NGC5118", "", "Gx", "13 23.5", "+06 24"],
+    ["NGC5119", "", "Gx", "13 24.0", "-12 17"],
+    ["NGC5120", "", "OC", "13 25.7", "-63 27"],
+    ["NGC5121", "", "Gx", "13 24.8", "-37 41"],
+    ["NGC5122", "", "Gx", "13 24.2", "-10 39"],
+    ["NGC5123", "", "Gx", "13 23.2", "+43 05"],
+    ["NGC5124", "", "Gx", "13 24.8", "-30 18"],
+    ["NGC5125", "", "Gx", "13 24.0", "+09 43"],
+    ["NGC5126", "", "Gx", "13 24.9", "-30 20"],
+    ["NGC5127", "", "Gx", "13 23.7", "+31 34"],
+    ["NGC5129", "", "Gx", "13 24.2", "+13 59"],
+    ["NGC5130", "", "Gx", "13 24.5", "-10 13"],
+    ["NGC5131", "", "Gx", "13 23.9", "+30 59"],
+    ["NGC5132", "", "Gx", "13 24.5", "+14 06"],
+    ["NGC5133", "", "Gx", "13 24.9", "-04 05"],
+    ["NGC5134", "", "Gx", "13 25.3", "-21 08"],
+    ["NGC5135", "", "Gx", "13 25.7", "-29 50"],
+    ["NGC5136", "", "Gx", "13 24.9", "+13 44"],
+    ["NGC5137", "", "Gx", "13 24.9", "+14 05"],
+    ["NGC5138", "", "OC", "13 27.3", "-59 02"],
+    ["NGC5140", "", "Gx", "13 26.4", "-33 52"],
+    ["NGC5141", "", "Gx", "13 24.9", "+36 23"],
+    ["NGC5142", "", "Gx", "13 25.0", "+36 24"],
+    ["NGC5143", "", "Gx", "13 25.0", "+36 26"],
+    ["NGC5144", "", "Gx", "13 22.9", "+70 31"],
+    ["NGC5145", "", "Gx", "13 25.2", "+43 16"],
+    ["NGC5146", "", "Gx", "13 26.6", "-12 19"],
+    ["NGC5147", "", "Gx", "13 26.3", "+02 06"],
+    ["NGC5148", "", "Gx", "13 26.6", "+02 19"],
+    ["NGC5149", "", "Gx", "13 26.2", "+35 56"],
+    ["NGC5150", "", "Gx", "13 27.6", "-29 34"],
+    ["NGC5151", "", "Gx", "13 26.7", "+16 52"],
+    ["NGC5152", "", "Gx", "13 27.8", "-29 37"],
+    ["NGC5153", "", "Gx", "13 27.9", "-29 37"],
+    ["NGC5154", "", "Gx", "13 26.5", "+36 01"],
+    ["NGC5156", "", "Gx", "13 28.7", "-48 55"],
+    ["NGC5157", "", "Gx", "13 27.3", "+32 02"],
+    ["NGC5158", "", "Gx", "13 27.8", "+17 47"],
+    ["NGC5159", "", "Gx", "13 28.3", "+02 59"],
+    ["NGC5161", "", "Gx", "13 29.2", "-33 10"],
+    ["NGC5163", "", "Gx", "13 26.9", "+52 45"],
+    ["NGC5164", "", "Gx", "13 27.2", "+55 29"],
+    ["NGC5165", "", "Gx", "13 28.7", "+11 23"],
+    ["NGC5166", "", "Gx", "13 28.3", "+32 02"],
+    ["NGC5167", "", "Gx", "13 28.7", "+12 43"],
+    ["NGC5168", "", "OC", "13 31.1", "-60 56"],
+    ["NGC5169", "", "Gx", "13 28.2", "+46 40"],
+    ["NGC5170", "", "Gx", "13 29.8", "-17 58"],
+    ["NGC5171", "", "Gx", "13 29.4", "+11 44"],
+    ["NGC5172", "", "Gx", "13 29.3", "+17 03"],
+    ["NGC5173", "", "Gx", "13 28.4", "+46 35"],
+    ["NGC5174", "", "Gx", "13 29.4", "+11 00"],
+    ["NGC5176", "", "Gx", "13 29.4", "+11 47"],
+    ["NGC5177", "", "Gx", "13 29.4", "+11 48"],
+    ["NGC5178", "", "Gx", "13 29.5", "+11 37"],
+    ["NGC5179", "", "Gx", "13 29.5", "+11 45"],
+    ["NGC5180", "", "Gx", "13 29.4", "+16 50"],
+    ["NGC5181", "", "Gx", "13 29.7", "+13 18"],
+    ["NGC5182", "", "Gx", "13 30.7", "-28 09"],
+    ["NGC5183", "", "Gx", "13 30.1", "-01 43"],
+    ["NGC5184", "", "Gx", "13 30.2", "-01 40"],
+    ["NGC5185", "", "Gx", "13 30.0", "+13 25"],
+    ["NGC5186", "", "Gx", "13 30.1", "+12 11"],
+    ["NGC5187", "", "Gx", "13 29.8", "+31 08"],
+    ["NGC5188", "", "Gx", "13 31.5", "-34 48"],
+    ["NGC5189", "Spiral Planetary Nebula", "PN", "13 33.5", "-65 58"],
+    ["NGC5190", "", "Gx", "13 30.6", "+18 08"],
+    ["NGC5191", "", "Gx", "13 30.8", "+11 12"],
+    ["NGC5192", "", "Gx", "13 30.9", "-01 47"],
+    ["NGC5193", "", "Gx", "13 31.9", "-33 14"],
+    ["NGC5195", "A Justifiable Replacement for M51", "Gx", "13 30.0", "+47 16"],
+    ["NGC5196", "", "Gx", "13 31.3", "-01 37"],
+    ["NGC5197", "", "Gx", "13 31.4", "-01 42"],
+    ["NGC5198", "", "Gx", "13 30.2", "+46 40"],
+    ["NGC5199", "", "Gx", "13 30.7", "+34 50"],
+    ["NGC5201", "", "Gx", "13 29.3", "+53 05"],
+    ["NGC5202", "", "Gx", "13 32.0", "-01 42"],
+    ["NGC5203", "", "Gx", "13 32.2", "-08 47"],
+    ["NGC5204", "", "Gx", "13 29.6", "+58 25"],
+    ["NGC5205", "", "Gx", "13 30.1", "+62 31"],
+    ["NGC5206", "", "Gx", "13 33.7", "-48 09"],
+    ["NGC5207", "", "Gx", "13 32.2", "+13 54"],
+    ["NGC5208", "", "Gx", "13 32.5", "+07 19"],
+    ["NGC5209", "", "Gx", "13 32.7", "+07 20"],
+    ["NGC5210", "", "Gx", "13 32.8", "+07 10"],
+    ["NGC5211", "", "Gx", "13 33.1", "-01 02"],
+    ["NGC5212", "", "Gx", "13 32.5", "+07 18"],
+    ["NGC5213", "", "Gx", "13 34.7", "+04 08"],
+    ["NGC5214", "", "Gx", "13 32.8", "+41 52"],
+    ["NGC5216", "Keenan's System", "Gx", "13 34.7", "+62 00"],
+    ["NGC5217", "", "Gx", "13 34.1", "+17 51"],
+    ["NGC5218", "Keenan's System", "Gx", "13 32.2", "+62 46"],
+    ["NGC5219", "", "Gx", "13 38.7", "-45 51"],
+    ["NGC5220", "", "Gx", "13 35.9", "-33 27"],
+    ["NGC5221", "", "Gx", "13 34.9", "+13 50"],
+    ["NGC5222", "", "Gx", "13 34.9", "+13 45"],
+    ["NGC5223", "", "Gx", "13 34.4", "+34 41"],
+    ["NGC5224", "", "Gx", "13 35.1", "+06 29"],
+    ["NGC5225", "", "Gx", "13 33.3", "+51 29"],
+    ["NGC5226", "", "Gx", "13 35.1", "+13 55"],
+    ["NGC5227", "", "Gx", "13 35.4", "+01 25"],
+    ["NGC5228", "", "Gx", "13 34.6", "+34 47"],
+    ["NGC5229", "", "Gx", "13 34.0", "+47 55"],
+    ["NGC5230", "", "Gx", "13 35.5", "+13 41"],
+    ["NGC5231", "", "Gx", "13 35.8", "+03 00"],
+    ["NGC5232", "", "Gx", "13 36.1", "-08 30"],
+    ["NGC5233", "", "Gx", "13 35.2", "+34 41"],
+    ["NGC5234", "", "Gx", "13 37.5", "-49 50"],
+    ["NGC5235", "", "Gx", "13 36.0", "+06 35"],
+    ["NGC5237", "", "Gx", "13 37.7", "-42 51"],
+    ["NGC5238", "", "Gx", "13 34.7", "+51 37"],
+    ["NGC5239", "", "Gx", "13 36.4", "+07 22"],
+    ["NGC5240", "", "Gx", "13 35.9", "+35 35"],
+    ["NGC5241", "", "Gx", "13 36.7", "-08 24"],
+    ["NGC5243", "", "Gx", "13 36.3", "+38 21"],
+    ["NGC5245", "", "Gx", "13 37.4", "+03 54"],
+    ["NGC5246", "", "Gx", "13 37.5", "+04 06"],
+    ["NGC5247", "", "Gx", "13 38.1", "-17 53"],
+    ["NGC5248", "", "Gx", "13 37.5", "+08 53"],
+    ["NGC5249", "", "Gx", "13 37.6", "+15 58"],
+    ["NGC5250", "", "Gx", "13 36.1", "+51 14"],
+    ["NGC5251", "", "Gx", "13 37.4", "+27 25"],
+    ["NGC5252", "", "Gx", "13 38.3", "+04 33"],
+    ["NGC5253", "", "Gx", "13 39.9", "-31 38"],
+    ["NGC5254", "", "Gx", "13 39.6", "-11 30"],
+    ["NGC5255", "", "Gx", "13 37.3", "+57 07"],
+    ["NGC5256", "", "Gx", "13 38.3", "+48 17"],
+    ["NGC5257", "", "Gx", "13 39.9", "+00 50"],
+    ["NGC5258", "", "Gx", "13 40.0", "+00 50"],
+    ["NGC5259", "", "Gx", "13 39.4", "+30 59"],
+    ["NGC5260", "", "Gx", "13 40.3", "-23 51"],
+    ["NGC5261", "", "Gx", "13 40.3", "+05 05"],
+    ["NGC5262", "", "Gx", "13 35.6", "+75 02"],
+    ["NGC5263", "", "Gx", "13 39.9", "+28 24"],
+    ["NGC5264", "", "Gx", "13 41.6", "-29 55"],
+    ["NGC5265", "", "Gx", "13 40.2", "+36 52"],
+    ["NGC5266", "", "Gx", "13 43.0", "-48 10"],
+    ["NGC5267", "", "Gx", "13 40.7", "+38 48"],
+    ["NGC5270", "", "Gx", "13 42.2", "+04 16"],
+    ["NGC5271", "", "Gx", "13 41.7", "+30 08"],
+    ["NGC5273", "", "Gx", "13 42.1", "+35 39"],
+    ["NGC5274", "", "Gx", "13 42.4", "+29 51"],
+    ["NGC5275", "", "Gx", "13 42.4", "+29 49"],
+    ["NGC5276", "", "Gx", "13 42.4", "+35 37"],
+    ["NGC5277", "", "Gx", "13 42.6", "+29 57"],
+    ["NGC5278", "", "Gx", "13 41.7", "+55 40"],
+    ["NGC5279", "", "Gx", "13 41.7", "+55 40"],
+    ["NGC5280", "", "Gx", "13 42.9", "+29 52"],
+    ["NGC5281", "Little Scorpion Cluster", "OC", "13 46.6", "-62 55"],
+    ["NGC5282", "", "Gx", "13 43.4", "+30 04"],
+    ["NGC5283", "", "Gx", "13 41.1", "+67 40"],
+    ["NGC5285", "", "Gx", "13 44.4", "+02 07"],
+    ["NGC5286", "", "GC", "13 46.4", "-51 22"],
+    ["NGC5287", "", "Gx", "13 44.9", "+29 46"],
+    ["NGC5288", "", "OC", "13 48.8", "-64 41"],
+    ["NGC5289", "", "Gx", "13 45.1", "+41 30"],
+    ["NGC5290", "", "Gx", "13 45.3", "+41 43"],
+    ["NGC5291", "Seashell Galaxy", "Gx", "13 47.4", "-30 24"],
+    ["NGC5292", "", "Gx", "13 47.7", "-30 56"],
+    ["NGC5293", "", "Gx", "13 46.9", "+16 16"],
+    ["NGC5294", "", "Gx", "13 45.3", "+55 17"],
+    ["NGC5295", "", "Gx", "13 38.7", "+79 28"],
+    ["NGC5296", "", "Gx", "13 46.3", "+43 51"],
+    ["NGC5297", "", "Gx", "13 46.4", "+43 52"],
+    ["NGC5298", "", "Gx", "13 48.6", "-30 26"],
+    ["NGC5300", "", "Gx", "13 48.3", "+03 57"],
+    ["NGC5302", "", "Gx", "13 48.8", "-30 31"],
+    ["NGC5303", "", "Gx", "13 47.7", "+38 18"],
+    ["NGC5304", "", "Gx", "13 50.0", "-30 35"],
+    ["NGC5305", "", "Gx", "13 47.9", "+37 50"],
+    ["NGC5306", "", "Gx", "13 49.2", "-07 13"],
+    ["NGC5307", "", "PN", "13 51.1", "-51 12"],
+    ["NGC5308", "", "Gx", "13 47.0", "+60 58"],
+    ["NGC5310", "", "Gx", "13 51.0", "-00 07"],
+    ["NGC5311", "", "Gx", "13 48.9", "+39 59"],
+    ["NGC5312", "", "Gx", "13 49.8", "+33 37"],
+    ["NGC5313", "", "Gx", "13 49.7", "+39 59"],
+    ["NGC5314", "", "Gx", "13 46.2", "+70 20"],
+    ["NGC5315", "", "PN", "13 54.0", "-66 31"],
+    ["NGC5316", "", "OC", "13 53.9", "-61 52"],
+    ["NGC5318", "", "Gx", "13 50.6", "+33 42"],
+    ["NGC5319", "", "Gx", "13 50.6", "+33 44"],
+    ["NGC5320", "", "Gx", "13 50.3", "+41 22"],
+    ["NGC5321", "", "Gx", "13 50.7", "+33 38"],
+    ["NGC5322", "", "Gx", "13 49.3", "+60 11"],
+    ["NGC5323", "", "Gx", "13 45.6", "+76 50"],
+    ["NGC5324", "", "Gx", "13 52.1", "-06 03"],
+    ["NGC5325", "", "Gx", "13 50.9", "+38 16"],
+    ["NGC5326", "", "Gx", "13 50.8", "+39 34"],
+    ["NGC5327", "", "Gx", "13 52.1", "-02 12"],
+    ["NGC5328", "", "Gx", "13 52.9", "-28 29"],
+    ["NGC5329", "", "Gx", "13 52.2", "+02 20"],
+    ["NGC5330", "", "Gx", "13 53.0", "-28 28"],
+    ["NGC5331", "", "Gx", "13 52.3", "+02 06"],
+    ["NGC5332", "", "Gx", "13 52.1", "+16 58"],
+    ["NGC5333", "", "Gx", "13 54.4", "-48 31"],
+    ["NGC5334", "", "Gx", "13 52.9", "-01 07"],
+    ["NGC5335", "", "Gx", "13 52.9", "+02 49"],
+    ["NGC5336", "", "Gx", "13 52.2", "+43 15"],
+    ["NGC5337", "", "Gx", "13 52.4", "+39 41"],
+    ["NGC5338", "", "Gx", "13 53.4", "+05 12"],
+    ["NGC5339", "", "Gx", "13 54.0", "-07 56"],
+    ["NGC5340", "", "Gx", "13 49.0", "+72 39"],
+    ["NGC5341", "", "Gx", "13 52.5", "+37 49"],
+    ["NGC5342", "", "Gx", "13 51.4", "+59 52"],
+    ["NGC5343", "", "Gx", "13 54.2", "-07 35"],
+    ["NGC5344", "", "Gx", "13 50.2", "+73 57"],
+    ["NGC5345", "", "Gx", "13 54.2", "-01 26"],
+    ["NGC5346", "", "Gx", "13 53.0", "+39 35"],
+    ["NGC5347", "", "Gx", "13 53.3", "+33 29"],
+    ["NGC5348", "", "Gx", "13 54.2", "+05 14"],
+    ["NGC5349", "", "Gx", "13 53.2", "+37 53"],
+    ["NGC5350", "", "Gx", "13 53.4", "+40 22"],
+    ["NGC5351", "", "Gx", "13 53.5", "+37 55"],
+    ["NGC5352", "", "Gx", "13 53.6", "+36 08"],
+    ["NGC5353", "NGC 5353 group", "Gx", "13 53.4", "+40 17"],
+    ["NGC5354", "", "Gx", "13 53.4", "+40 18"],
+    ["NGC5355", "", "Gx", "13 53.8", "+40 20"],
+    ["NGC5356", "", "Gx", "13 55.0", "+05 20"],
+    ["NGC5357", "", "Gx", "13 56.0", "-30 20"],
+    ["NGC5358", "", "Gx", "13 54.0", "+40 17"],
+    ["NGC5360", "", "Gx", "13 55.6", "+04 59"],
+    ["NGC5361", "", "Gx", "13 54.6", "+38 27"],
+    ["NGC5362", "", "Gx", "13 54.9", "+41 19"],
+    ["NGC5363", "", "Gx", "13 56.1", "+05 15"],
+    ["NGC5364", "", "Gx", "13 56.2", "+05 01"],
+    ["NGC5365", "", "Gx", "13 57.8", "-43 56"],
+    ["NGC5366", "", "Gx", "13 56.4", "-00 15"],
+    ["NGC5368", "", "Gx", "13 54.5", "+54 20"],
+    ["NGC5369", "", "Gx", "13 56.6", "-05 28"],
+    ["NGC5370", "", "Gx", "13 54.2", "+60 41"],
+    ["NGC5371", "", "Gx", "13 55.7", "+40 28"],
+    ["NGC5372", "", "Gx", "13 54.8", "+58 40"],
+    ["NGC5373", "", "Gx", "13 57.1", "+05 15"],
+    ["NGC5374", "", "Gx", "13 57.5", "+06 06"],
+    ["NGC5376", "", "Gx", "13 55.3", "+59 30"],
+    ["NGC5377", "", "Gx", "13 56.3", "+47 14"],
+    ["NGC5378", "", "Gx", "13 56.9", "+37 48"],
+    ["NGC5379", "", "Gx", "13 55.6", "+59 45"],
+    ["NGC5380", "", "Gx", "13 56.9", "+37 37"],
+    ["NGC5382", "", "Gx", "13 58.2", "+06 16"],
+    ["NGC5383", "", "Gx", "13 57.1", "+41 51"],
+    ["NGC5384", "", "Gx", "13 58.2", "+06 31"],
+    ["NGC5386", "", "Gx", "13 58.4", "+06 20"],
+    ["NGC5387", "", "Gx", "13 58.4", "+06 04"],
+    ["NGC5389", "", "Gx", "13 56.1", "+59 45"],
+    ["NGC5391", "", "Gx", "13 57.1", "+46 16"],
+    ["NGC5392", "", "Gx", "13 59.4", "-03 13"],
+    ["NGC5393", "", "Gx", "14 00.5", "-28 52"],
+    ["NGC5394", "The Heron Galaxy", "Gx", "13 58.6", "+37 27"],
+    ["NGC5395", "The Heron Galaxy", "Gx", "13 58.6", "+37 25"],
+    ["NGC5396", "", "Gx", "13 56.9", "+29 10"],
+    ["NGC5397", "", "Gx", "14 01.2", "-33 57"],
+    ["NGC5398", "", "Gx", "14 01.4", "-33 04"],
+    ["NGC5399", "", "Gx", "13 59.5", "+34 46"],
+    ["NGC5400", "", "Gx", "14 00.6", "-02 51"],
+    ["NGC5401", "", "Gx", "13 59.7", "+36 14"],
+    ["NGC5402", "", "Gx", "13 58.3", "+59 49"],
+    ["NGC5403", "", "Gx", "13 59.8", "+38 11"],
+    ["NGC5405", "", "Gx", "14 01.2", "+07 42"],
+    ["NGC5406", "", "Gx", "14 00.3", "+38 55"],
+    ["NGC5407", "", "Gx", "14 00.8", "+39 09"],
+    ["NGC5408", "", "Gx", "14 03.3", "-41 23"],
+    ["NGC5409", "", "Gx", "14 01.8", "+09 29"],
+    ["NGC5410", "", "Gx", "14 00.9", "+40 59"],
+    ["NGC5411", "", "Gx", "14 02.0", "+08 56"],
+    ["NGC5412", "", "Gx", "13 57.2", "+73 37"],
+    ["NGC5413", "", "Gx", "13 57.9", "+64 55"],
+    ["NGC5414", "", "Gx", "14 02.1", "+09 56"],
+    ["NGC5415", "", "Gx", "13 56.9", "+70 45"],
+    ["NGC5416", "NGC 5416 group", "Gx", "14 02.2", "+09 26"],
+    ["NGC5417", "", "Gx", "14 02.2", "+08 02"],
+    ["NGC5418", "", "Gx", "14 02.3", "+07 41"],
+    ["NGC5419", "", "Gx", "14 03.6", "-33 59"],
+    ["NGC5420", "", "Gx", "14 04.0", "-14 37"],
+    ["NGC5421", "", "Gx", "14 01.7", "+33 50"],
+    ["NGC5422", "", "Gx", "14 00.7", "+55 10"],
+    ["NGC5423", "", "Gx", "14 02.8", "+09 20"],
+    ["NGC5424", "", "Gx", "14 02.9", "+09 25"],
+    ["NGC5425", "", "Gx", "14 00.8", "+48 27"],
+    ["NGC5426", "", "Gx", "14 03.4", "-06 04"],
+    ["NGC5427", "", "Gx", "14 03.4", "-06 02"],
+    ["NGC5430", "", "Gx", "14 00.8", "+59 20"],
+    ["NGC5431", "", "Gx", "14 03.1", "+09 22"],
+    ["NGC5433", "", "Gx", "14 02.6", "+32 31"],
+    ["NGC5434", "", "Gx", "14 03.5", "+09 28"],
+    ["NGC5436", "", "Gx", "14 03.7", "+09 34"],
+    ["NGC5437", "", "Gx", "14 03.8", "+09 31"],
+    ["NGC5438", "", "Gx", "14 03.8", "+09 37"],
+    ["NGC5439", "", "Gx", "14 02.0", "+46 19"],
+    ["NGC5440", "", "Gx", "14 03.0", "+34 45"],
+    ["NGC5441", "", "Gx", "14 03.2", "+34 41"],
+    ["NGC5442", "", "Gx", "14 04.7", "-09 43"],
+    ["NGC5443", "", "Gx", "14 02.2", "+55 49"],
+    ["NGC5444", "", "Gx", "14 03.4", "+35 08"],
+    ["NGC5445", "", "Gx", "14 03.5", "+35 02"],
+    ["NGC5446", "", "Gx", "14 05.3", "+09 38"],
+    ["NGC5448", "", "Gx", "14 02.8", "+49 10"],
+    ["NGC5452", "", "Gx", "13 54.4", "+78 13"],
+    ["NGC5454", "", "Gx", "14 04.8", "+14 23"],
+    ["NGC5455", "", "Gx", "14 03.0", "+54 14"],
+    ["NGC5456", "", "Gx", "14 05.0", "+11 52"],
+    ["NGC5459", "", "Gx", "14 05.0", "+13 08"],
+    ["NGC5460", "", "OC", "14 07.4", "-48 21"],
+    ["NGC5462", "", "Neb", "14 03.9", "+54 22"],
+    ["NGC5463", "", "Gx", "14 06.2", "+09 21"],
+    ["NGC5464", "", "Gx", "14 07.1", "-30 01"],
+    ["NGC5466", "Snowglobe Cluster", "GC", "14 05.5", "+28 32"],
+    ["NGC5468", "", "Gx", "14 06.6", "-05 27"],
+    ["NGC5469", "", "Gx", "14 06.4", "+09 26"],
+    ["NGC5470", "", "Gx", "14 06.5", "+06 02"],
+    ["NGC5471", "", "Neb", "14 04.5", "+54 24"],
+    ["NGC5472", "", "Gx", "14 06.9", "-05 28"],
+    ["NGC5473", "", "Gx", "14 04.7", "+54 54"],
+    ["NGC5474", "", "Gx", "14 05.0", "+53 40"],
+    ["NGC5475", "", "Gx", "14 05.2", "+55 45"],
+    ["NGC5476", "", "Gx", "14 08.1", "-06 06"],
+    ["NGC5477", "", "Gx", "14 05.6", "+54 28"],
+    ["NGC5478", "", "Gx", "14 08.1", "-01 42"],
+    ["NGC5479", "", "Gx", "14 06.0", "+65 41"],
+    ["NGC5480", "", "Gx", "14 06.4", "+50 43"],
+    ["NGC5481", "", "Gx", "14 06.7", "+50 43"],
+    ["NGC5482", "", "Gx", "14 08.5", "+08 56"],
+    ["NGC5483", "", "Gx", "14 10.4", "-43 19"],
+    ["NGC5484", "", "Gx", "14 06.8", "+55 02"],
+    ["NGC5485", "", "Gx", "14 07.2", "+55 00"],
+    ["NGC5486", "", "Gx", "14 07.4", "+55 06"],
+    ["NGC5487", "", "Gx", "14 09.7", "+08 04"],
+    ["NGC5488", "", "Gx", "14 08.1", "-33 19"],
+    ["NGC5489", "", "Gx", "14 12.0", "-46 05"],
+    ["NGC5490", "", "Gx", "14 10.0", "+17 33"],
+    ["NGC5491", "", "Gx", "14 11.0", "+06 22"],
+    ["NGC5492", "", "Gx", "14 10.6", "+19 37"],
+    ["NGC5493", "", "Gx", "14 11.5", "-05 03"],
+    ["NGC5494", "", "Gx", "14 12.4", "-30 39"],
+    ["NGC5495", "", "Gx", "14 12.4", "-27 06"],
+    ["NGC5496", "", "Gx", "14 11.6", "-01 10"],
+    ["NGC5497", "", "Gx", "14 10.5", "+38 54"],
+    ["NGC5498", "", "Gx", "14 11.1", "+25 42"],
+    ["NGC5499", "", "Gx", "14 10.8", "+35 55"],
+    ["NGC5500", "", "Gx", "14 10.3", "+48 33"],
+    ["NGC5501", "", "Gx", "14 12.3", "+01 16"],
+    ["NGC5503", "", "Gx", "14 09.6", "+60 25"],
+    ["NGC5504", "", "Gx", "14 12.3", "+15 53"],
+    ["NGC5505", "", "Gx", "14 12.5", "+13 18"],
+    ["NGC5506", "", "Gx", "14 13.2", "-03 12"],
+    ["NGC5507", "", "Gx", "14 13.3", "-03 09"],
+    ["NGC5508", "", "Gx", "14 12.5", "+24 38"],
+    ["NGC5509", "", "Gx", "14 12.3", "+24 40"],
+    ["NGC5510", "", "Gx", "14 13.6", "-17 59"],
+    ["NGC5511", "", "Gx", "14 13.1", "+08 37"],
+    ["NGC5512", "", "Gx", "14 12.7", "+30 51"],
+    ["NGC5513", "", "Gx", "14 13.1", "+20 25"],
+    ["NGC5514", "", "Gx", "14 13.6", "+07 40"],
+    ["NGC5515", "", "Gx", "14 12.6", "+39 19"],
+    ["NGC5516", "", "Gx", "14 15.9", "-48 07"],
+    ["NGC5517", "", "Gx", "14 12.9", "+35 43"],
+    ["NGC5518", "", "Gx", "14 13.8", "+20 51"],
+    ["NGC5519", "", "Gx", "14 14.3", "+07 31"],
+    ["NGC5520", "", "Gx", "14 12.4", "+50 21"],
+    ["NGC5521", "", "Gx", "14 15.4", "+04 25"],
+    ["NGC5522", "", "Gx", "14 14.8", "+15 09"],
+    ["NGC5523", "", "Gx", "14 14.9", "+25 19"],
+    ["NGC5524", "", "Gx", "14 14.5", "+36 24"],
+    ["NGC5525", "", "Gx", "14 15.7", "+14 17"],
+    ["NGC5526", "", "Gx", "14 13.9", "+57 46"],
+    ["NGC5527", "", "Gx", "14 15.3", "+36 12"],
+    ["NGC5528", "", "Gx", "14 16.3", "+08 18"],
+    ["NGC5529", "", "Gx", "14 15.6", "+36 14"],
+    ["NGC5530", "", "Gx", "14 18.5", "-43 23"],
+    ["NGC5531", "", "Gx", "14 16.7", "+10 53"],
+    ["NGC5532", "", "Gx", "14 16.9", "+10 48"],
+    ["NGC5533", "", "Gx", "14 16.1", "+35 21"],
+    ["NGC5534", "", "Gx", "14 17.7", "-07 25"],
+    ["NGC5535", "", "Gx", "14 17.6", "+08 11"],
+    ["NGC5536", "", "Gx", "14 16.4", "+39 30"],
+    ["NGC5537", "", "Gx", "14 17.6", "+07 03"],
+    ["NGC5538", "", "Gx", "14 17.7", "+07 29"],
+    ["NGC5539", "", "Gx", "14 17.6", "+08 11"],
+    ["NGC5540", "", "Gx", "14 14.9", "+60 01"],
+    ["NGC5541", "", "Gx", "14 16.5", "+39 35"],
+    ["NGC5542", "", "Gx", "14 17.9", "+07 34"],
+    ["NGC5543", "", "Gx", "14 18.1", "+07 39"],
+    ["NGC5544", "", "Gx", "14 17.0", "+36 34"],
+    ["NGC5545", "", "Gx", "14 17.1", "+36 35"],
+    ["NGC5546", "", "Gx", "14 18.2", "+07 34"],
+    ["NGC5547", "", "Gx", "14 09.8", "+78 36"],
+    ["NGC5548", "", "Gx", "14 18.0", "+25 08"],
+    ["NGC5549", "", "Gx", "14 18.6", "+07 23"],
+    ["NGC5550", "", "Gx", "14 18.5", "+12 53"],
+    ["NGC5551", "", "Gx", "14 18.9", "+05 27"],
+    ["NGC5552", "", "Gx", "14 19.1", "+07 02"],
+    ["NGC5553", "", "Gx", "14 18.5", "+26 17"],
+    ["NGC5554", "", "Gx", "14 19.2", "+07 01"],
+    ["NGC5555", "", "Gx", "14 18.8", "-19 08"],
+    ["NGC5556", "", "Gx", "14 20.6", "-29 15"],
+    ["NGC5557", "", "Gx", "14 18.4", "+36 30"],
+    ["NGC5559", "", "Gx", "14 19.2", "+24 48"],
+    ["NGC5560", "", "Gx", "14 20.1", "+04 00"],
+    ["NGC5561", "", "Gx", "14 17.4", "+58 45"],
+    ["NGC5562", "", "Gx", "14 20.2", "+10 16"],
+    ["NGC5563", "", "Gx", "14 20.2", "+07 03"],
+    ["NGC5566", "", "Gx", "14 20.3", "+03 56"],
+    ["NGC5567", "", "Gx", "14 19.3", "+35 08"],
+    ["NGC5568", "", "Gx", "14 19.4", "+35 06"],
+    ["NGC5569", "", "Gx", "14 20.5", "+03 59"],
+    ["NGC5570", "", "Gx", "14 19.5", "+07 27"],
+    ["NGC5572", "", "Gx", "14 19.6", "+36 08"],
+    ["NGC5573", "", "Gx", "14 20.7", "+06 54"],
+    ["NGC5574", "", "Gx", "14 20.9", "+03 14"],
+    ["NGC5575", "", "Gx", "14 21.0", "+06 12"],
+    ["NGC5576", "", "Gx", "14 21.1", "+03 16"],
+    ["NGC5577", "", "Gx", "14 21.2", "+03 26"],
+    ["NGC5579", "", "Gx", "14 20.4", "+35 11"],
+    ["NGC5581", "", "Gx", "14 21.3", "+23 29"],
+    ["NGC5582", "", "Gx", "14 20.7", "+39 42"],
+    ["NGC5583", "", "Gx", "14 21.7", "+13 14"],
+    ["NGC5584", "", "Gx", "14 22.4", "-00 23"],
+    ["NGC5585", "", "Gx", "14 19.8", "+56 44"],
+    ["NGC5587", "", "Gx", "14 22.2", "+13 55"],
+    ["NGC5588", "", "Gx", "14 21.4", "+35 16"],
+    ["NGC5590", "", "Gx", "14 21.6", "+35 12"],
+    ["NGC5591", "", "Gx", "14 22.6", "+13 43"],
+    ["NGC5592", "", "Gx", "14 23.9", "-28 41"],
+    ["NGC5594", "", "Gx", "14 23.2", "+26 16"],
+    ["NGC5595", "", "Gx", "14 24.2", "-16 43"],
+    ["NGC5596", "", "Gx", "14 22.5", "+37 07"],
+    ["NGC5597", "", "Gx", "14 24.5", "-16 46"],
+    ["NGC5598", "", "Gx", "14 22.5", "+40 19"],
+    ["NGC5599", "", "Gx", "14 23.8", "+06 35"],
+    ["NGC5600", "", "Gx", "14 23.8", "+14 38"],
+    ["NGC5601", "", "Gx", "14 22.9", "+40 19"],
+    ["NGC5602", "", "Gx", "14 22.3", "+50 30"],
+    ["NGC5603", "", "Gx", "14 22.9", "+40 25"],
+    ["NGC5604", "", "Gx", "14 24.7", "-03 13"],
+    ["NGC5605", "", "Gx", "14 25.1", "-13 10"],
+    ["NGC5606", "", "OC", "14 27.8", "-59 38"],
+    ["NGC5607", "", "Gx", "14 19.4", "+71 35"],
+    ["NGC5608", "", "Gx", "14 23.3", "+41 47"],
+    ["NGC5610", "", "Gx", "14 24.4", "+24 37"],
+    ["NGC5611", "", "Gx", "14 24.1", "+33 03"],
+    ["NGC5612", "", "Gx", "14 34.0", "-78 23"],
+    ["NGC5613", "", "Gx", "14 24.1", "+34 54"],
+    ["NGC5614", "", "Gx", "14 24.1", "+34 52"],
+    ["NGC5615", "", "Gx", "14 24.1", "+34 52"],
+    ["NGC5616", "", "Gx", "14 24.3", "+36 28"],
+    ["NGC5617", "Dracula Cluster", "OC", "14 29.7", "-60 43"],
+    ["NGC5618", "", "Gx", "14 27.2", "-02 16"],
+    ["NGC5619", "", "Gx", "14 27.3", "+04 48"],
+    ["NGC5620", "", "Gx", "14 22.7", "+69 36"],
+    ["NGC5622", "", "Gx", "14 26.2", "+48 34"],
+    ["NGC5623", "Dragon Nebula", "Gx", "14 27.1", "+33 15"],
+    ["NGC5624", "", "Gx", "14 26.6", "+51 35"],
+    ["NGC5625", "", "Gx", "14 27.0", "+39 57"],
+    ["NGC5626", "", "Gx", "14 29.8", "-29 45"],
+    ["NGC5627", "", "Gx", "14 28.6", "+11 23"],
+    ["NGC5628", "", "Gx", "14 28.4", "+17 55"],
+    ["NGC5629", "NGC 5629 group", "Gx", "14 28.3", "+25 51"],
+    ["NGC5630", "", "Gx", "14 27.6", "+41 15"],
+    ["NGC5631", "", "Gx", "14 26.6", "+56 35"],
+    ["NGC5632", "", "Gx", "14 28.3", "-00 12"],
+    ["NGC5633", "", "Gx", "14 27.5", "+46 09"],
+    ["NGC5634", "", "GC", "14 29.6", "-05 59"],
+    ["NGC5635", "", "Gx", "14 28.5", "+27 25"],
+    ["NGC5636", "", "Gx", "14 29.7", "+03 16"],
+    ["NGC5637", "", "Gx", "14 29.0", "+23 11"],
+    ["NGC5638", "", "Gx", "14 29.7", "+03 14"],
+    ["NGC5639", "", "Gx", "14 28.8", "+30 25"],
+    ["NGC5640", "", "Gx", "14 20.7", "+80 07"],
+    ["NGC5641", "", "Gx", "14 29.3", "+28 49"],
+    ["NGC5642", "", "Gx", "14 29.2", "+30 02"],
+    ["NGC5643", "", "Gx", "14 32.7", "-44 10"],
+    ["NGC5644", "", "Gx", "14 30.4", "+11 56"],
+    ["NGC5645", "", "Gx", "14 30.7", "+07 17"],
+    ["NGC5646", "", "Gx", "14 29.6", "+35 28"],
+    ["NGC5647", "", "Gx", "14 30.6", "+11 53"],
+    ["NGC5648", "", "Gx", "14 30.5", "+14 01"],
+    ["NGC5649", "", "Gx", "14 30.8", "+13 58"],
+    ["NGC5652", "", "Gx", "14 31.0", "+05 59"],
+    ["NGC5653", "", "Gx", "14 30.2", "+31 13"],
+    ["NGC5654", "", "Gx", "14 30.0", "+36 22"],
+    ["NGC5656", "", "Gx", "14 30.4", "+35 19"],
+    ["NGC5657", "", "Gx", "14 30.7", "+29 11"],
+    ["NGC5658", "", "Gx", "14 32.5", "+00 18"],
+    ["NGC5659", "", "Gx", "14 31.1", "+25 21"],
+    ["NGC5660", "", "Gx", "14 29.8", "+49 37"],
+    ["NGC5661", "", "Gx", "14 32.0", "+06 15"],
+    ["NGC5662", "Gypsy Moth Cluster", "OC", "14 35.6", "-56 37"],
+    ["NGC5663", "", "Gx", "14 33.9", "-16 35"],
+    ["NGC5664", "", "Gx", "14 33.7", "-14 37"],
+    ["NGC5665", "", "Gx", "14 21.5", "+05 04"],
+    ["NGC5666", "", "Gx", "14 33.2", "+10 31"],
+    ["NGC5667", "", "Gx", "14 30.4", "+59 28"],
+    ["NGC5668", "", "Gx", "14 33.4", "+04 27"],
+    ["NGC5669", "", "Gx", "14 32.7", "+09 53"],
+    ["NGC5670", "", "Gx", "14 35.6", "-45 58"],
+    ["NGC5671", "", "Gx", "14 27.7", "+69 42"],
+    ["NGC5672", "", "Gx", "14 32.6", "+31 40"],
+    ["NGC5673", "", "Gx", "14 31.5", "+49 58"],
+    ["NGC5674", "", "Gx", "14 33.9", "+05 27"],
+    ["NGC5675", "", "Gx", "14 32.7", "+36 18"],
+    ["NGC5676", "", "Gx", "14 32.8", "+49 27"],
+    ["NGC5677", "", "Gx", "14 34.2", "+25 28"],
+    ["NGC5678", "", "Gx", "14 32.1", "+57 55"],
+    ["NGC5679", "", "Gx", "14 35.1", "+05 22"],
+    ["NGC5680", "", "Gx", "14 35.7", "-00 01"],
+    ["NGC5681", "", "Gx", "14 35.7", "+08 18"],
+    ["NGC5682", "", "Gx", "14 34.7", "+48 40"],
+    ["NGC5683", "", "Gx", "14 34.9", "+48 40"],
+    ["NGC5684", "", "Gx", "14 35.8", "+36 33"],
+    ["NGC5685", "", "Gx", "14 36.3", "+29 54"],
+    ["NGC5686", "", "Gx", "14 36.0", "+36 30"],
+    ["NGC5687", "", "Gx", "14 34.9", "+54 29"],
+    ["NGC5688", "", "Gx", "14 39.6", "-45 01"],
+    ["NGC5689", "", "Gx", "14 35.5", "+48 44"],
+    ["NGC5690", "", "Gx", "14 37.7", "+02 17"],
+    ["NGC5691", "", "Gx", "14 37.9", "-00 24"],
+    ["NGC5692", "", "Gx", "14 38.3", "+03 25"],
+    ["NGC5693", "", "Gx", "14 36.2", "+48 35"],
+    ["NGC5694", "", "GC", "14 39.6", "-26 32"],
+    ["NGC5695", "", "Gx", "14 37.4", "+36 34"],
+    ["NGC5696", "", "Gx", "14 37.0", "+41 50"],
+    ["NGC5697", "", "Gx", "14 36.5", "+41 41"],
+    ["NGC5698", "", "Gx", "14 37.2", "+38 27"],
+    ["NGC5700", "", "Gx", "14 37.0", "+48 33"],
+    ["NGC5701", "", "Gx", "14 39.2", "+05 22"],
+    ["NGC5702", "", "Gx", "14 38.9", "+20 30"],
+    ["NGC5706", "", "Gx", "14 38.7", "+30 28"],
+    ["NGC5707", "", "Gx", "14 37.5", "+51 34"],
+    ["NGC5708", "", "Gx", "14 38.3", "+40 27"],
+    ["NGC5709", "", "Gx", "14 38.8", "+30 27"],
+    ["NGC5710", "", "Gx", "14 39.3", "+20 03"],
+    ["NGC5711", "", "Gx", "14 39.4", "+19 59"],
+    ["NGC5712", "", "Gx", "14 29.7", "+78 52"],
+    ["NGC5713", "", "Gx", "14 40.2", "-00 17"],
+    ["NGC5714", "", "Gx", "14 38.2", "+46 38"],
+    ["NGC5715", "", "OC", "14 43.5", "-57 34"],
+    ["NGC5716", "", "Gx", "14 41.1", "-17 29"],
+    ["NGC5717", "", "Gx", "14 38.6", "+46 40"],
+    ["NGC5718", "", "Gx", "14 40.7", "+03 28"],
+    ["NGC5719", "", "Gx", "14 40.9", "-00 19"],
+    ["NGC5720", "", "Gx", "14 38.6", "+50 49"],
+    ["NGC5721", "", "Gx", "14 38.9", "+46 40"],
+    ["NGC5722", "", "Gx", "14 38.9", "+46 40"],
+    ["NGC5723", "", "Gx", "14 39.0", "+46 41"],
+    ["NGC5724", "", "Gx", "14 39.0", "+46 42"],
+    ["NGC5725", "", "Gx", "14 41.0", "+02 11"],
+    ["NGC5726", "", "Gx", "14 42.9", "-18 27"],
+    ["NGC5727", "", "Gx", "14 40.4", "+33 59"],
+    ["NGC5728", "", "Gx", "14 42.4", "-17 15"],
+    ["NGC5729", "", "Gx", "14 42.1", "-09 01"],
+    ["NGC5730", "", "Gx", "14 39.9", "+42 45"],
+    ["NGC5731", "", "Gx", "14 40.2", "+42 47"],
+    ["NGC5732", "", "Gx", "14 40.7", "+38 38"],
+    ["NGC5733", "", "Gx", "14 42.8", "-00 21"],
+    ["NGC5734", "", "Gx", "14 45.2", "-20 52"],
+    ["NGC5735", "", "Gx", "14 42.6", "+28 44"],
+    ["NGC5736", "", "Gx", "14 43.5", "+11 12"],
+    ["NGC5737", "", "Gx", "14 43.2", "+18 53"],
+    ["NGC5738", "", "Gx", "14 43.9", "+01 36"],
+    ["NGC5739", "", "Gx", "14 42.5", "+41 51"],
+    ["NGC5740", "", "Gx", "14 44.4", "+01 41"],
+    ["NGC5741", "", "Gx", "14 45.9", "-11 55"],
+    ["NGC5742", "", "Gx", "14 45.6", "-11 49"],
+    ["NGC5743", "", "Gx", "14 45.2", "-20 55"],
+    ["NGC5744", "", "Gx", "14 43.9", "-18 29"],
+    ["NGC5745", "", "Gx", "14 45.0", "-13 57"],
+    ["NGC5746", "Blade and Pearl Galaxy", "Gx", "14 44.9", "+01 57"],
+    ["NGC5747", "", "Gx", "14 44.3", "+12 08"],
+    ["NGC5748", "", "Gx", "14 45.1", "+21 55"],
+    ["NGC5749", "", "OC", "14 48.9", "-54 30"],
+    ["NGC5750", "", "Gx", "14 46.2", "-00 13"],
+    ["NGC5751", "", "Gx", "14 43.8", "+53 24"],
+    ["NGC5752", "", "Gx", "14 45.2", "+38 44"],
+    ["NGC5753", "", "Gx", "14 45.3", "+38 48"],
+    ["NGC5754", "", "Gx", "14 45.3", "+38 44"],
+    ["NGC5755", "", "Gx", "14 45.4", "+38 47"],
+    ["NGC5756", "", "Gx", "14 47.6", "-14 51"],
+    ["NGC5757", "", "Gx", "14 47.8", "-19 05"],
+    ["NGC5758", "", "Gx", "14 47.0", "+13 40"],
+    ["NGC5759", "", "Gx", "14 47.2", "+13 27"],
+    ["NGC5760", "", "Gx", "14 47.7", "+18 30"],
+    ["NGC5761", "", "Gx", "14 49.1", "-20 23"],
+    ["NGC5762", "", "Gx", "14 48.7", "+12 27"],
+    ["NGC5763", "", "Gx", "14 49.0", "+12 29"],
+    ["NGC5764", "", "OC", "14 53.5", "-52 40"],
+    ["NGC5765", "", "Gx", "14 50.8", "+05 07"],
+    ["NGC5766", "", "Gx", "14 53.2", "-21 24"],
+    ["NGC5767", "", "Gx", "14 49.6", "+47 23"],
+    ["NGC5768", "", "Gx", "14 52.1", "-02 32"],
+    ["NGC5769", "", "Gx", "14 52.7", "+07 56"],
+    ["NGC5770", "", "Gx", "14 53.3", "+03 58"],
+    ["NGC5771", "", "Gx", "14 52.2", "+29 51"],
+    ["NGC5772", "", "Gx", "14 51.6", "+40 36"],
+    ["NGC5773", "", "Gx", "14 52.5", "+29 48"],
+    ["NGC5774", "", "Gx", "14 53.7", "+03 35"],
+    ["NGC5775", "", "Gx", "14 54.0", "+03 33"],
+    ["NGC5776", "", "Gx", "14 54.5", "+02 58"],
+    ["NGC5777", "", "Gx", "14 51.3", "+58 59"],
+    ["NGC5778", "", "Gx", "14 54.5", "+18 39"],
+    ["NGC5779", "", "Gx", "14 52.2", "+55 54"],
+    ["NGC5780", "", "Gx", "14 54.4", "+28 56"],
+    ["NGC5781", "", "Gx", "14 56.7", "-17 15"],
+    ["NGC5782", "", "Gx", "14 55.0", "+11 42"],
+    ["NGC5783", "", "Gx", "14 53.5", "+52 05"],
+    ["NGC5784", "", "Gx", "14 54.3", "+42 33"],
+    ["NGC5786", "", "Gx", "14 58.9", "-42 01"],
+    ["NGC5787", "", "Gx", "14 55.3", "+42 30"],
+    ["NGC5788", "", "Gx", "14 53.3", "+52 03"],
+    ["NGC5789", "", "Gx", "14 56.6", "+30 14"],
+    ["NGC5790", "", "Gx", "14 57.6", "+08 17"],
+    ["NGC5791", "", "Gx", "14 58.8", "-19 16"],
+    ["NGC5792", "", "Gx", "14 58.4", "-01 05"],
+    ["NGC5793", "", "Gx", "14 59.4", "-16 42"],
+    ["NGC5794", "", "Gx", "14 55.9", "+49 44"],
+    ["NGC5795", "", "Gx", "14 56.3", "+49 24"],
+    ["NGC5796", "", "Gx", "14 59.4", "-16 37"],
+    ["NGC5797", "", "Gx", "14 56.4", "+49 42"],
+    ["NGC5798", "", "Gx", "14 57.6", "+29 58"],
+    ["NGC5799", "", "Gx", "15 05.6", "-72 26"],
+    ["NGC5801", "", "Gx", "15 00.4", "-13 54"],
+    ["NGC5802", "", "Gx", "15 00.5", "-13 55"],
+    ["NGC5803", "", "Gx", "15 00.6", "-13 54"],
+    ["NGC5804", "", "Gx", "14 57.1", "+49 40"],
+    ["NGC5805", "", "Gx", "14 55.9", "+49 39"],
+    ["NGC5806", "", "Gx", "15 00.0", "+01 53"],
+    ["NGC5807", "", "Gx", "14 55.8", "+63 54"],
+    ["NGC5809", "", "Gx", "15 00.9", "-14 10"],
+    ["NGC5810", "", "Gx", "15 02.7", "-17 52"],
+    ["NGC5811", "", "Gx", "15 00.5", "+01 37"],
+    ["NGC5812", "", "Gx", "15 00.9", "-07 27"],
+    ["NGC5813", "", "Gx", "15 01.2", "+01 42"],
+    ["NGC5814", "", "Gx", "15 01.4", "+01 38"],
+    ["NGC5815", "", "Gx", "15 00.5", "-16 50"],
+    ["NGC5817", "", "Gx", "14 59.7", "-16 11"],
+    ["NGC5818", "", "Gx", "14 59.0", "+49 49"],
+    ["NGC5819", "", "Gx", "14 54.0", "+73 08"],
+    ["NGC5820", "", "Gx", "14 58.7", "+53 53"],
+    ["NGC5821", "", "Gx", "14 59.0", "+53 55"],
+    ["NGC5822", "", "OC", "15 04.5", "-54 23"],
+    ["NGC5823", "", "OC", "15 05.5", "-55 36"],
+    ["NGC5824", "", "GC", "15 04.0", "-33 04"],
+    ["NGC5826", "", "Gx", "15 06.6", "+55 29"],
+    ["NGC5827", "", "Gx", "15 01.9", "+25 58"],
+    ["NGC5828", "", "Gx", "15 00.8", "+50 00"],
+    ["NGC5829", "", "Gx", "15 02.7", "+23 20"],
+    ["NGC5830", "", "Gx", "15 01.8", "+47 53"],
+    ["NGC5831", "", "Gx", "15 04.1", "+01 13"],
+    ["NGC5832", "", "Gx", "14 57.8", "+71 41"],
+    ["NGC5833", "", "Gx", "15 11.9", "-72 52"],
+    ["NGC5835", "", "Gx", "15 02.4", "+48 53"],
+    ["NGC5836", "", "Gx", "14 59.5", "+73 54"],
+    ["NGC5837", "", "Gx", "15 04.7", "+12 38"],
+    ["NGC5838", "", "Gx", "15 05.4", "+02 06"],
+    ["NGC5839", "", "Gx", "15 05.5", "+01 38"],
+    ["NGC5842", "", "Gx", "15 04.9", "+21 04"],
+    ["NGC5843", "", "Gx", "15 07.5", "-36 20"],
+    ["NGC5844", "", "PN", "15 10.7", "-64 40"],
+    ["NGC5845", "", "Gx", "15 06.0", "+01 38"],
+    ["NGC5846", "", "Gx", "15 06.5", "+01 36"],
+    ["NGC5847", "", "Gx", "15 06.4", "+06 23"],
+    ["NGC5848", "", "Gx", "15 06.6", "+02 00"],
+    ["NGC5849", "", "Gx", "15 06.8", "-14 34"],
+    ["NGC5850", "", "Gx", "15 07.1", "+01 33"],
+    ["NGC5851", "", "Gx", "15 06.9", "+12 52"],
+    ["NGC5852", "", "Gx", "15 06.9", "+12 51"],
+    ["NGC5853", "", "Gx", "15 05.9", "+39 31"],
+    ["NGC5854", "", "Gx", "15 07.8", "+02 34"],
+    ["NGC5855", "", "Gx", "15 07.8", "+03 59"],
+    ["NGC5857", "", "Gx", "15 07.5", "+19 36"],
+    ["NGC5858", "", "Gx", "15 08.8", "-11 12"],
+    ["NGC5859", "", "Gx", "15 07.6", "+19 35"],
+    ["NGC5860", "", "Gx", "15 06.6", "+42 38"],
+    ["NGC5861", "", "Gx", "15 09.3", "-11 19"],
+    ["NGC5862", "", "Gx", "15 06.1", "+55 34"],
+    ["NGC5863", "", "Gx", "15 10.8", "-18 26"],
+    ["NGC5864", "", "Gx", "15 09.6", "+03 03"],
+    ["NGC5865", "", "Gx", "15 09.8", "+00 28"],
+    ["NGC5868", "", "Gx", "15 09.8", "+00 32"],
+    ["NGC5872", "", "Gx", "15 10.9", "-11 29"],
+    ["NGC5873", "", "PN", "15 12.9", "-38 08"],
+    ["NGC5874", "", "Gx", "15 07.9", "+54 45"],
+    ["NGC5875", "", "Gx", "15 08.6", "+52 18"],
+    ["NGC5876", "", "Gx", "15 09.5", "+54 30"],
+    ["NGC5878", "", "Gx", "15 13.8", "-14 16"],
+    ["NGC5879", "", "Gx", "15 09.8", "+57 00"],
+    ["NGC5880", "", "Gx", "15 15.0", "-14 35"],
+    ["NGC5881", "", "Gx", "15 10.6", "+64 54"],
+    ["NGC5882", "Ghost of Uranus", "PN", "15 16.8", "-45 39"],
+    ["NGC5883", "", "Gx", "15 15.2", "-14 37"],
+    ["NGC5885", "", "Gx", "15 15.1", "-10 05"],
+    ["NGC5886", "", "Gx", "15 12.8", "+41 14"],
+    ["NGC5887", "", "Gx", "15 14.7", "+01 09"],
+    ["NGC5888", "", "Gx", "15 13.1", "+41 16"],
+    ["NGC5889", "", "Gx", "15 13.3", "+41 20"],
+    ["NGC5890", "", "Gx", "15 17.9", "-17 35"],
+    ["NGC5891", "", "Gx", "15 16.2", "-11 30"],
+    ["NGC5892", "Fath 703", "Gx", "15 13.8", "-15 28"],
+    ["NGC5893", "", "Gx", "15 13.6", "+41 58"],
+    ["NGC5894", "", "Gx", "15 11.7", "+59 49"],
+    ["NGC5895", "", "Gx", "15 13.8", "+42 00"],
+    ["NGC5896", "", "Gx", "15 13.8", "+42 01"],
+    ["NGC5897", "Ghost Globular Cluster", "GC", "15 17.4", "-21 01"],
+    ["NGC5898", "", "Gx", "15 18.2", "-24 06"],
+    ["NGC5899", "", "Gx", "15 15.1", "+42 03"],
+    ["NGC5900", "", "Gx", "15 15.1", "+42 13"],
+    ["NGC5902", "", "Gx", "15 14.4", "+50 20"],
+    ["NGC5903", "", "Gx", "15 18.6", "-24 04"],
+    ["NGC5905", "", "Gx", "15 15.4", "+55 31"],
+    ["NGC5906", "Splinter Galaxy", "Gx", "15 15.9", "+56 20"],
+    ["NGC5908", "", "Gx", "15 16.7", "+55 25"],
+    ["NGC5909", "", "Gx", "15 11.5", "+75 23"],
+    ["NGC5910", "", "Gx", "15 19.4", "+20 54"],
+    ["NGC5911", "", "Gx", "15 20.3", "+03 31"],
+    ["NGC5912", "", "Gx", "15 11.7", "+75 23"],
+    ["NGC5913", "", "Gx", "15 20.9", "-02 35"],
+    ["NGC5914", "", "Gx", "15 18.7", "+41 52"],
+    ["NGC5915", "", "Gx", "15 21.6", "-13 06"],
+    ["NGC5916", "", "Gx", "15 21.6", "-13 10"],
+    ["NGC5917", "", "Gx", "15 21.5", "-07 23"],
+    ["NGC5918", "", "Gx", "15 19.4", "+45 53"],
+    ["NGC5919", "", "Gx", "15 21.6", "+07 43"],
+    ["NGC5920", "", "Gx", "15 21.9", "+07 43"],
+    ["NGC5921", "", "Gx", "15 21.9", "+05 04"],
+    ["NGC5923", "", "Gx", "15 21.2", "+41 44"],
+    ["NGC5924", "", "Gx", "15 22.0", "+31 14"],
+    ["NGC5925", "", "OC", "15 27.4", "-54 32"],
+    ["NGC5926", "", "Gx", "15 23.4", "+12 43"],
+    ["NGC5927", "", "GC", "15 28.0", "-50 40"],
+    ["NGC5928", "", "Gx", "15 26.0", "+18 04"],
+    ["NGC5929", "", "Gx", "15 26.1", "+41 40"],
+    ["NGC5931", "", "Gx", "15 29.5", "+07 34"],
+    ["NGC5932", "", "Gx", "15 26.8", "+48 37"],
+    ["NGC5933", "", "Gx", "15 27.0", "+48 37"],
+    ["NGC5934", "", "Gx", "15 28.2", "+42 56"],
+    ["NGC5935", "", "Gx", "15 28.3", "+42 57"],
+    ["NGC5936", "", "Gx", "15 30.0", "+12 59"],
+    ["NGC5937", "", "Gx", "15 30.8", "-02 50"],
+    ["NGC5938", "", "Gx", "15 36.4", "-66 52"],
+    ["NGC5939", "", "Gx", "15 24.8", "+68 44"],
+    ["NGC5940", "", "Gx", "15 31.3", "+07 27"],
+    ["NGC5941", "", "Gx", "15 31.6", "+07 19"],
+    ["NGC5942", "", "Gx", "15 31.7", "+07 17"],
+    ["NGC5943", "", "Gx", "15 29.7", "+42 47"],
+    ["NGC5944", "", "Gx", "15 31.8", "+07 18"],
+    ["NGC5945", "", "Gx", "15 29.8", "+42 55"],
+    ["NGC5946", "", "GC", "15 35.5", "-50 40"],
+    ["NGC5947", "", "Gx", "15 30.6", "+42 43"],
+    ["NGC5949", "", "Gx", "15 28.0", "+64 46"],
+    ["NGC5950", "", "Gx", "15 31.5", "+40 26"],
+    ["NGC5951", "", "Gx", "15 33.7", "+15 00"],
+    ["NGC5952", "", "Gx", "15 34.9", "+04 58"],
+    ["NGC5953", "", "Gx", "15 34.5", "+15 12"],
+    ["NGC5954", "", "Gx", "15 34.6", "+15 12"],
+    ["NGC5955", "", "Gx", "15 35.2", "+05 04"],
+    ["NGC5956", "", "Gx", "15 35.0", "+11 45"],
+    ["NGC5957", "", "Gx", "15 35.4", "+12 03"],
+    ["NGC5958", "", "Gx", "15 34.8", "+28 39"],
+    ["NGC5959", "", "Gx", "15 37.4", "-16 36"],
+    ["NGC5960", "", "Gx", "15 36.3", "+05 40"],
+    ["NGC5961", "", "Gx", "15 35.3", "+30 52"],
+    ["NGC5962", "", "Gx", "15 36.5", "+16 36"],
+    ["NGC5963", "", "Gx", "15 33.5", "+56 34"],
+    ["NGC5964", "", "Gx", "15 37.6", "+05 58"],
+    ["NGC5965", "", "Gx", "15 34.0", "+56 41"],
+    ["NGC5966", "", "Gx", "15 35.9", "+39 46"],
+    ["NGC5967", "", "Gx", "15 48.3", "-75 40"],
+    ["NGC5968", "", "Gx", "15 40.0", "-30 33"],
+    ["NGC5969", "", "Gx", "15 34.9", "+56 27"],
+    ["NGC5970", "", "Gx", "15 38.5", "+12 11"],
+    ["NGC5971", "", "Gx", "15 35.6", "+56 28"],
+    ["NGC5972", "", "Gx", "15 38.9", "+17 02"],
+    ["NGC5973", "", "Gx", "15 40.3", "-08 36"],
+    ["NGC5974", "", "Gx", "15 39.0", "+31 46"],
+    ["NGC5975", "", "Gx", "15 40.0", "+21 28"],
+    ["NGC5976", "", "Gx", "15 36.1", "+59 34"],
+    ["NGC5977", "", "Gx", "15 40.6", "+17 08"],
+    ["NGC5978", "", "Gx", "15 42.5", "-13 14"],
+    ["NGC5979", "", "PN", "15 47.7", "-61 13"],
+    ["NGC5980", "", "Gx", "15 41.5", "+15 47"],
+    ["NGC5981", "", "Gx", "15 37.9", "+59 24"],
+    ["NGC5982", "", "Gx", "15 38.7", "+59 21"],
+    ["NGC5983", "", "Gx", "15 42.8", "+08 14"],
+    ["NGC5984", "", "Gx", "15 42.9", "+14 14"],
+    ["NGC5985", "", "Gx", "15 39.6", "+59 20"],
+    ["NGC5986", "", "GC", "15 46.1", "-37 47"],
+    ["NGC5987", "", "Gx", "15 40.0", "+58 05"],
+    ["NGC5988", "", "Gx", "15 44.6", "+10 18"],
+    ["NGC5989", "", "Gx", "15 41.5", "+59 45"],
+    ["NGC5990", "", "Gx", "15 46.3", "+02 25"],
+    ["NGC5991", "", "Gx", "15 45.3", "+24 38"],
+    ["NGC5992", "", "Gx", "15 44.4", "+41 05"],
+    ["NGC5993", "", "Gx", "15 44.5", "+41 07"],
+    ["NGC5994", "", "Gx", "15 46.9", "+17 52"],
+    ["NGC5995", "", "Gx", "15 48.4", "-13 45"],
+    ["NGC5996", "", "Gx", "15 47.0", "+17 53"],
+    ["NGC5997", "", "Gx", "15 47.5", "+08 19"],
+    ["NGC5999", "", "OC", "15 52.2", "-56 28"],
+    ["NGC6000", "", "Gx", "15 49.8", "-29 23"],
+    ["NGC6001", "", "Gx", "15 47.8", "+28 39"],
+    ["NGC6002", "", "Gx", "15 47.7", "+28 38"],
+    ["NGC6003", "", "Gx", "15 49.4", "+19 02"],
+    ["NGC6004", "", "Gx", "15 50.4", "+18 56"],
+    ["NGC6005", "", "OC", "15 56.0", "-57 26"],
+    ["NGC6006", "", "Gx", "15 53.0", "+12 00"],
+    ["NGC6007", "", "Gx", "15 53.4", "+11 58"],
+    ["NGC6008", "", "Gx", "15 52.9", "+21 06"],
+    ["NGC6009", "", "Gx", "15 53.4", "+12 04"],
+    ["NGC6010", "", "Gx", "15 54.3", "+00 33"],
+    ["NGC6011", "", "Gx", "15 46.5", "+72 10"],
+    ["NGC6012", "", "Gx", "15 54.2", "+14 36"],
+    ["NGC6013", "", "Gx", "15 52.9", "+40 39"],
+    ["NGC6014", "", "Gx", "15 56.0", "+05 56"],
+    ["NGC6015", "", "Gx", "15 51.4", "+62 19"],
+    ["NGC6016", "", "Gx", "15 55.9", "+26 58"],
+    ["NGC6017", "", "Gx", "15 57.3", "+06 00"],
+    ["NGC6018", "", "Gx", "15 57.5", "+15 52"],
+    ["NGC6019", "", "Gx", "15 52.2", "+64 50"],
+    ["NGC6020", "", "Gx", "15 57.1", "+22 24"],
+    ["NGC6021", "", "Gx", "15 57.5", "+15 57"],
+    ["NGC6022", "", "Gx", "15 57.8", "+16 17"],
+    ["NGC6023", "", "Gx", "15 57.8", "+16 19"],
+    ["NGC6024", "", "Gx", "15 53.1", "+64 55"],
+    ["NGC6025", "", "OC", "16 03.3", "-60 26"],
+    ["NGC6026", "", "PN", "16 01.4", "-34 33"],
+    ["NGC6027", "Seyfert's Sextet", "Gx", "15 59.2", "+20 46"],
+    ["NGC6028", "", "Gx", "16 01.5", "+19 22"],
+    ["NGC6029", "", "Gx", "16 01.9", "+12 34"],
+    ["NGC6030", "", "Gx", "16 01.9", "+17 57"],
+    ["NGC6031", "", "OC", "16 07.9", "-54 03"],
+    ["NGC6032", "", "Gx", "16 03.0", "+20 57"],
+    ["NGC6033", "", "Gx", "16 04.5", "-02 07"],
+    ["NGC6034", "", "Gx", "16 03.5", "+17 12"],
+    ["NGC6035", "", "Gx", "16 03.4", "+20 53"],
+    ["NGC6036", "", "Gx", "16 04.5", "+03 52"],
+    ["NGC6037", "", "Gx", "16 04.5", "+03 49"],
+    ["NGC6038", "", "Gx", "16 02.7", "+37 22"],
+    ["NGC6039", "", "Gx", "16 04.4", "+17 45"],
+    ["NGC6040", "", "Gx", "16 04.4", "+17 45"],
+    ["NGC6041", "", "Gx", "16 04.6", "+17 43"],
+    ["NGC6042", "", "Gx", "16 04.7", "+17 42"],
+    ["NGC6043", "", "Gx", "16 05.0", "+17 47"],
+    ["NGC6044", "", "Gx", "16 05.0", "+17 52"],
+    ["NGC6045", "", "Gx", "16 05.1", "+17 45"],
+    ["NGC6047", "", "Gx", "16 05.2", "+17 44"],
+    ["NGC6048", "", "Gx", "15 57.5", "+70 41"],
+    ["NGC6050", "", "Gx", "16 05.4", "+17 45"],
+    ["NGC6051", "", "Gx", "16 04.9", "+23 56"],
+    ["NGC6052", "", "Gx", "16 05.2", "+20 33"],
+    ["NGC6053", "", "Gx", "16 05.7", "+18 03"],
+    ["NGC6054", "", "Gx", "16 05.5", "+17 46"],
+    ["NGC6055", "", "Gx", "16 05.5", "+18 10"],
+    ["NGC6056", "", "Gx", "16 05.5", "+17 58"],
+    ["NGC6057", "", "Gx", "16 05.7", "+18 10"],
+    ["NGC6058", "", "PN", "16 04.4", "+40 41"],
+    ["NGC6060", "", "Gx", "16 05.9", "+21 29"],
+    ["NGC6061", "", "Gx", "16 06.3", "+18 15"],
+    ["NGC6062", "", "Gx", "16 06.4", "+19 47"],
+    ["NGC6063", "", "Gx", "16 07.2", "+07 59"],
+    ["NGC6065", "", "Gx", "16 07.4", "+13 53"],
+    ["NGC6066", "", "Gx", "16 07.6", "+13 57"],
+    ["NGC6067", "", "OC", "16 13.2", "-54 13"],
+    ["NGC6068", "", "Gx", "15 55.4", "+79 00"],
+    ["NGC6069", "", "Gx", "16 07.7", "+38 56"],
+    ["NGC6070", "", "Gx", "16 10.0", "+00 43"],
+    ["NGC6071", "", "Gx", "16 01.0", "+70 36"],
+    ["NGC6072", "", "PN", "16 13.0", "-36 14"],
+    ["NGC6073", "", "Gx", "16 10.2", "+16 42"],
+    ["NGC6074", "", "Gx", "16 11.3", "+14 16"],
+    ["NGC6075", "", "Gx", "16 11.4", "+23 58"],
+    ["NGC6076", "", "Gx", "16 11.2", "+26 52"],
+    ["NGC6077", "", "Gx", "16 11.2", "+26 55"],
+    ["NGC6078", "", "Gx", "16 12.1", "+14 13"],
+    ["NGC6079", "", "Gx", "16 04.5", "+69 40"],
+    ["NGC6081", "", "Gx", "16 12.9", "+09 52"],
+    ["NGC6083", "", "Gx", "16 13.2", "+14 11"],
+    ["NGC6084", "", "Gx", "16 14.3", "+17 45"],
+    ["NGC6085", "", "Gx", "16 12.6", "+29 22"],
+    ["NGC6086", "", "Gx", "16 12.6", "+29 29"],
+    ["NGC6087", "S Nor Cluster", "OC", "16 18.8", "-57 56"],
+    ["NGC6088", "", "Gx", "16 10.7", "+57 28"],
+    ["NGC6089", "", "Gx", "16 12.7", "+33 02"],
+    ["NGC6090", "", "Gx", "16 11.7", "+52 27"],
+    ["NGC6091", "", "Gx", "16 07.9", "+69 54"],
+    ["NGC6092", "", "Gx", "16 12.8", "+27 59"],
+    ["NGC6094", "", "Gx", "16 06.6", "+72 30"],
+    ["NGC6095", "", "Gx", "16 11.2", "+61 16"],
+    ["NGC6096", "", "Gx", "16 14.8", "+26 34"],
+    ["NGC6097", "", "Gx", "16 14.4", "+35 07"],
+    ["NGC6098", "", "Gx", "16 15.6", "+19 28"],
+    ["NGC6099", "", "Gx", "16 15.6", "+19 27"],
+    ["NGC6100", "", "Gx", "16 16.9", "+00 50"],
+    ["NGC6101", "", "GC", "16 25.8", "-72 12"],
+    ["NGC6102", "", "Gx", "16 15.6", "+28 10"],
+    ["NGC6103", "", "Gx", "16 15.7", "+31 58"],
+    ["NGC6104", "", "Gx", "16 16.5", "+35 42"],
+    ["NGC6105", "", "Gx", "16 17.2", "+34 53"],
+    ["NGC6106", "", "Gx", "16 18.8", "+07 25"],
+    ["NGC6107", "", "Gx", "16 17.3", "+34 54"],
+    ["NGC6108", "", "Gx", "16 17.4", "+35 08"],
+    ["NGC6109", "", "Gx", "16 17.7", "+35 00"],
+    ["NGC6110", "", "Gx", "16 17.7", "+35 05"],
+    ["NGC6111", "", "Gx", "16 14.5", "+62 32"],
+    ["NGC6112", "", "Gx", "16 18.0", "+35 07"],
+    ["NGC6113", "", "Gx", "16 19.2", "+14 08"],
+    ["NGC6114", "", "Gx", "16 18.4", "+35 10"],
+    ["NGC6115", "", "OC", "16 24.7", "-51 56"],
+    ["NGC6116", "", "Gx", "16 18.9", "+35 09"],
+    ["NGC6117", "", "Gx", "16 19.3", "+37 06"],
+    ["NGC6118", "", "Gx", "16 21.8", "-02 17"],
+    ["NGC6119", "", "Gx", "16 19.7", "+37 48"],
+    ["NGC6120", "", "Gx", "16 19.8", "+37 46"],
+    ["NGC6122", "", "Gx", "16 20.2", "+37 48"],
+    ["NGC6123", "", "Gx", "16 17.3", "+61 56"],
+    ["NGC6124", "", "OC", "16 25.3", "-40 39"],
+    ["NGC6125", "", "Gx", "16 19.2", "+57 59"],
+    ["NGC6126", "", "Gx", "16 21.5", "+36 23"],
+    ["NGC6129", "", "Gx", "16 21.7", "+38 00"],
+    ["NGC6130", "", "Gx", "16 19.6", "+57 37"],
+    ["NGC6131", "", "Gx", "16 21.9", "+38 56"],
+    ["NGC6132", "", "Gx", "16 23.6", "+11 47"],
+    ["NGC6134", "Little Pincushion", "OC", "16 27.8", "-49 09"],
+    ["NGC6135", "", "Gx", "16 14.4", "+64 59"],
+    ["NGC6136", "", "Gx", "16 21.0", "+55 58"],
+    ["NGC6137", "", "Gx", "16 23.1", "+37 55"],
+    ["NGC6138", "", "Gx", "16 24.9", "+41 03"],
+    ["NGC6139", "", "GC", "16 27.7", "-38 51"],
+    ["NGC6140", "", "Gx", "16 21.0", "+65 23"],
+    ["NGC6141", "", "Gx", "16 25.1", "+40 56"],
+    ["NGC6142", "", "Gx", "16 23.4", "+37 16"],
+    ["NGC6143", "", "Gx", "16 21.7", "+55 05"],
+    ["NGC6144", "", "GC", "16 27.2", "-26 01"],
+    ["NGC6145", "", "Gx", "16 25.0", "+40 57"],
+    ["NGC6146", "", "Gx", "16 25.2", "+40 54"],
+    ["NGC6147", "", "Gx", "16 25.0", "+40 55"],
+    ["NGC6148", "", "Gx", "16 27.1", "+24 06"],
+    ["NGC6149", "", "Gx", "16 27.4", "+19 36"],
+    ["NGC6150", "", "Gx", "16 25.8", "+40 29"],
+    ["NGC6151", "", "Gx", "16 39.1", "-73 15"],
+    ["NGC6152", "", "OC", "16 32.7", "-52 38"],
+    ["NGC6153", "", "PN", "16 31.5", "-40 15"],
+    ["NGC6154", "", "Gx", "16 25.5", "+49 50"],
+    ["NGC6155", "", "Gx", "16 26.1", "+48 22"],
+    ["NGC6156", "", "Gx", "16 34.9", "-60 37"],
+    ["NGC6157", "", "Gx", "16 25.8", "+55 22"],
+    ["NGC6158", "", "Gx", "16 27.7", "+39 23"],
+    ["NGC6159", "", "Gx", "16 27.4", "+42 41"],
+    ["NGC6160", "", "Gx", "16 27.7", "+40 56"],
+    ["NGC6161", "", "Gx", "16 28.3", "+32 49"],
+    ["NGC6162", "", "Gx", "16 28.4", "+32 51"],
+    ["NGC6163", "", "Gx", "16 28.5", "+32 51"],
+    ["NGC6164", "", "Neb", "16 33.9", "-48 07"],
+    ["NGC6166", "", "Gx", "16 28.6", "+39 33"],
+    ["NGC6167", "", "OC", "16 34.6", "-49 46"],
+    ["NGC6168", "", "Gx", "16 31.3", "+20 11"],
+    ["NGC6169", "μ Normae Cluster", "OC", "16 34.1", "-44 01"],
+    ["NGC6172", "", "Gx", "16 22.2", "-01 31"],
+    ["NGC6173", "", "Gx", "16 29.7", "+40 49"],
+    ["NGC6174", "", "Gx", "16 29.8", "+40 52"],
+    ["NGC6175", "", "Gx", "16 30.0", "+40 38"],
+    ["NGC6176", "", "Gx", "16 27.6", "+59 34"],
+    ["NGC6177", "", "Gx", "16 30.6", "+35 03"],
+    ["NGC6178", "", "OC", "16 35.8", "-45 39"],
+    ["NGC6179", "", "Gx", "16 30.8", "+35 06"],
+    ["NGC6180", "", "Gx", "16 30.6", "+40 32"],
+    ["NGC6181", "", "Gx", "16 32.3", "+19 50"],
+    ["NGC6182", "", "Gx", "16 29.6", "+55 31"],
+    ["NGC6183", "", "Gx", "16 41.7", "-69 22"],
+    ["NGC6184", "", "Gx", "16 31.6", "+40 34"],
+    ["NGC6185", "", "Gx", "16 33.3", "+35 21"],
+    ["NGC6186", "", "Gx", "16 34.4", "+21 32"],
+    ["NGC6187", "", "Gx", "16 31.6", "+57 42"],
+    ["NGC6189", "", "Gx", "16 31.7", "+59 38"],
+    ["NGC6190", "", "Gx", "16 32.1", "+58 26"],
+    ["NGC6192", "", "OC", "16 40.4", "-43 22"],
+    ["NGC6193", "", "OC", "16 41.3", "-48 46"],
+    ["NGC6194", "", "Gx", "16 36.6", "+36 12"],
+    ["NGC6195", "", "Gx", "16 36.5", "+39 02"],
+    ["NGC6196", "", "Gx", "16 37.9", "+36 04"],
+    ["NGC6197", "", "Gx", "16 38.0", "+36 00"],
+    ["NGC6198", "", "Gx", "16 35.5", "+57 29"],
+    ["NGC6199", "", "Gx", "16 39.5", "+36 04"],
+    ["NGC6200", "", "OC", "16 44.1", "-47 28"],
+    ["NGC6201", "", "Gx", "16 40.2", "+23 46"],
+    ["NGC6203", "", "Gx", "16 40.5", "+23 46"],
+    ["NGC6204", "", "OC", "16 46.1", "-47 01"],
+    ["NGC6206", "", "Gx", "16 40.1", "+58 37"],
+    ["NGC6207", "", "Gx", "16 43.1", "+36 50"],
+    ["NGC6208", "", "OC", "16 49.5", "-53 44"],
+    ["NGC6209", "", "Gx", "16 55.0", "-72 35"],
+    ["NGC6210", "Turtle Nebula", "PN", "16 44.5", "+23 48"],
+    ["NGC6211", "", "Gx", "16 41.5", "+57 47"],
+    ["NGC6212", "", "Gx", "16 43.4", "+39 48"],
+    ["NGC6213", "", "Gx", "16 41.6", "+57 49"],
+    ["NGC6214", "", "Gx", "16 39.5", "+66 02"],
+    ["NGC6215", "", "Gx", "16 51.1", "-59 00"],
+    ["NGC6216", "", "OC", "16 49.4", "-44 43"],
+    ["NGC6217", "", "Gx", "16 32.7", "+78 12"],
+    ["NGC6219", "", "Gx", "16 46.4", "+09 02"],
+    ["NGC6220", "", "Gx", "16 47.2", "-00 17"],
+    ["NGC6221", "", "Gx", "16 52.8", "-59 13"],
+    ["NGC6222", "", "OC", "16 50.5", "-44 44"],
+    ["NGC6223", "", "Gx", "16 43.1", "+61 35"],
+    ["NGC6224", "", "Gx", "16 48.3", "+06 19"],
+    ["NGC6225", "", "Gx", "16 48.4", "+06 13"],
+    ["NGC6226", "", "Gx", "16 43.4", "+61 59"],
+    ["NGC6228", "", "Gx", "16 48.0", "+26 13"],
+    ["NGC6229", "Prize Comet Globular Cluster", "GC", "16 47.0", "+47 32"],
+    ["NGC6230", "", "Gx", "16 50.8", "+04 36"],
+    ["NGC6232", "", "Gx", "16 43.3", "+70 38"],
+    ["NGC6233", "", "Gx", "16 50.3", "+23 35"],
+    ["NGC6234", "", "Gx", "16 52.0", "+04 23"],
+    ["NGC6235", "", "GC", "16 53.4", "-22 11"],
+    ["NGC6236", "", "Gx", "16 44.6", "+70 47"],
+    ["NGC6238", "", "Gx", "16 47.3", "+62 09"],
+    ["NGC6239", "", "Gx", "16 50.1", "+42 44"],
+    ["NGC6240", "", "Gx", "16 53.0", "+02 24"],
+    ["NGC6241", "", "Gx", "16 50.2", "+45 25"],
+    ["NGC6242", "", "OC", "16 55.6", "-39 28"],
+    ["NGC6243", "", "Gx", "16 52.4", "+23 20"],
+    ["NGC6244", "", "Gx", "16 48.1", "+62 12"],
+    ["NGC6245", "", "Gx", "16 45.3", "+70 50"],
+    ["NGC6246", "", "Gx", "16 50.2", "+55 23"],
+    ["NGC6247", "", "Gx", "16 48.3", "+62 59"],
+    ["NGC6248", "", "Gx", "16 46.4", "+70 21"],
+    ["NGC6249", "", "OC", "16 57.6", "-44 49"],
+    ["NGC6250", "", "OC", "16 58.0", "-45 57"],
+    ["NGC6251", "", "Gx", "16 32.5", "+82 32"],
+    ["NGC6252", "", "Gx", "16 32.7", "+82 35"],
+    ["NGC6253", "", "OC", "16 59.1", "-52 42"],
+    ["NGC6255", "", "Gx", "16 54.8", "+36 30"],
+    ["NGC6257", "", "Gx", "16 56.1", "+39 39"],
+    ["NGC6258", "", "Gx", "16 52.5", "+60 31"],
+    ["NGC6259", "", "OC", "17 00.7", "-44 39"],
+    ["NGC6260", "", "Gx", "16 51.8", "+63 43"],
+    ["NGC6261", "", "Gx", "16 56.5", "+27 59"],
+    ["NGC6262", "", "Gx", "16 58.7", "+57 06"],
+    ["NGC6263", "", "Gx", "16 56.7", "+27 49"],
+    ["NGC6264", "", "Gx", "16 57.3", "+27 51"],
+    ["NGC6265", "", "Gx", "16 57.5", "+27 51"],
+    ["NGC6267", "", "Gx", "16 58.1", "+22 59"],
+    ["NGC6268", "", "OC", "17 02.1", "-39 43"],
+    ["NGC6269", "", "Gx", "16 58.0", "+27 51"],
+    ["NGC6270", "", "Gx", "16 58.5", "+27 35"],
+    ["NGC6271", "", "Gx", "16 58.8", "+27 58"],
+    ["NGC6272", "", "Gx", "16 59.0", "+27 56"],
+    ["NGC6274", "", "Gx", "16 59.3", "+29 57"],
+    ["NGC6275", "", "Gx", "16 55.6", "+63 15"],
+    ["NGC6276", "", "Gx", "17 00.7", "+23 03"],
+    ["NGC6278", "", "Gx", "17 00.8", "+23 01"],
+    ["NGC6279", "", "Gx", "16 59.0", "+47 14"],
+    ["NGC6280", "", "Gx", "17 02.0", "+06 40"],
+    ["NGC6281", "Moth Wing Cluster", "EN", "17 04.7", "-37 59"],
+    ["NGC6282", "", "Gx", "17 00.8", "+29 49"],
+    ["NGC6283", "", "Gx", "16 59.4", "+49 55"],
+    ["NGC6284", "", "GC", "17 04.5", "-24 46"],
+    ["NGC6285", "", "Gx", "16 58.4", "+58 57"],
+    ["NGC6286", "", "Gx", "16 58.5", "+58 56"],
+    ["NGC6287", "", "GC", "17 05.2", "-22 42"],
+    ["NGC6288", "", "Gx", "16 57.4", "+68 27"],
+    ["NGC6289", "", "Gx", "16 57.8", "+68 31"],
+    ["NGC6290", "", "Gx", "17 00.9", "+58 58"],
+    ["NGC6291", "", "Gx", "17 00.9", "+58 56"],
+    ["NGC6292", "", "Gx", "17 03.1", "+61 03"],
+    ["NGC6293", "", "GC", "17 10.2", "-26 35"],
+    ["NGC6295", "", "Gx", "17 03.3", "+60 20"],
+    ["NGC6296", "", "Gx", "17 08.7", "+03 54"],
+    ["NGC6297", "", "Gx", "17 03.6", "+62 02"],
+    ["NGC6299", "", "Gx", "17 05.1", "+62 27"],
+    ["NGC6300", "", "Gx", "17 17.0", "-62 49"],
+    ["NGC6301", "", "Gx", "17 08.5", "+42 20"],
+    ["NGC6303", "", "Gx", "17 05.0", "+68 50"],
+    ["NGC6304", "", "GC", "17 14.5", "-29 28"],
+    ["NGC6305", "", "Gx", "17 18.0", "-59 10"],
+    ["NGC6306", "", "Gx", "17 07.6", "+60 44"],
+    ["NGC6307", "", "Gx", "17 07.7", "+60 45"],
+    ["NGC6308", "", "Gx", "17 12.0", "+23 23"],
+    ["NGC6309", "Box Nebula", "PN", "17 14.1", "-12 55"],
+    ["NGC6310", "", "Gx", "17 08.0", "+60 59"],
+    ["NGC6311", "", "Gx", "17 10.7", "+41 39"],
+    ["NGC6312", "", "Gx", "17 10.8", "+42 17"],
+    ["NGC6313", "", "Gx", "17 10.3", "+48 20"],
+    ["NGC6314", "", "Gx", "17 12.6", "+23 16"],
+    ["NGC6315", "", "Gx", "17 12.8", "+23 13"],
+    ["NGC6316", "", "GC", "17 16.6", "-28 08"],
+    ["NGC6317", "", "Gx", "17 09.0", "+62 54"],
+    ["NGC6318", "", "OC", "17 16.2", "-39 25"],
+    ["NGC6319", "", "Gx", "17 09.7", "+62 58"],
+    ["NGC6320", "", "Gx", "17 12.9", "+40 16"],
+    ["NGC6321", "", "Gx", "17 14.4", "+20 19"],
+    ["NGC6322", "", "OC", "17 18.4", "-42 56"],
+    ["NGC6323", "", "Gx", "17 13.3", "+43 47"],
+    ["NGC6324", "", "Gx", "17 05.4", "+75 24"],
+    ["NGC6325", "", "GC", "17 18.0", "-23 46"],
+    ["NGC6326", "", "PN", "17 20.8", "-51 45"],
+    ["NGC6327", "", "Gx", "17 14.0", "+43 39"],
+    ["NGC6328", "", "Gx", "17 23.7", "-65 01"],
+    ["NGC6329", "", "Gx", "17 14.3", "+43 41"],
+    ["NGC6330", "", "Gx", "17 15.7", "+29 24"],
+    ["NGC6331", "", "Gx", "17 03.6", "+78 38"],
+    ["NGC6332", "", "Gx", "17 15.0", "+43 40"],
+    ["NGC6334", "Cat's Paw Nebula", "SNR", "17 20.8", "-36 07"],
+    ["NGC6336", "", "Gx", "17 16.3", "+43 49"],
+    ["NGC6337", "Cheerio Nebula", "PN", "17 22.3", "-38 29"],
+    ["NGC6338", "", "Gx", "17 15.4", "+57 25"],
+    ["NGC6339", "", "Gx", "17 17.1", "+40 51"],
+    ["NGC6340", "", "Gx", "17 10.4", "+72 18"],
+    ["NGC6342", "", "GC", "17 21.2", "-19 35"],
+    ["NGC6343", "", "Gx", "17 17.3", "+41 03"],
+    ["NGC6345", "", "Gx", "17 15.4", "+57 21"],
+    ["NGC6346", "", "Gx", "17 15.4", "+57 19"],
+    ["NGC6347", "", "Gx", "17 19.9", "+16 40"],
+    ["NGC6348", "", "Gx", "17 18.4", "+41 39"],
+    ["NGC6349", "", "Gx", "17 19.1", "+36 04"],
+    ["NGC6350", "", "Gx", "17 18.7", "+41 42"],
+    ["NGC6351", "", "Gx", "17 19.2", "+36 04"],
+    ["NGC6352", "", "GC", "17 25.5", "-48 25"],
+    ["NGC6355", "", "GC", "17 24.0", "-26 21"],
+    ["NGC6356", "", "GC", "17 23.6", "-17 49"],
+    ["NGC6357", "Lobster Nebula", "Neb", "17 26.5", "-34 12"],
+    ["NGC6358", "", "Gx", "17 18.9", "+52 37"],
+    ["NGC6359", "", "Gx", "17 17.9", "+61 47"],
+    ["NGC6361", "", "Gx", "17 18.7", "+60 36"],
+    ["NGC6362", "", "GC", "17 31.9", "-67 03"],
+    ["NGC6363", "", "Gx", "17 22.7", "+41 06"],
+    ["NGC6364", "", "Gx", "17 24.5", "+29 23"],
+    ["NGC6365", "", "Gx", "17 22.7", "+62 10"],
+    ["NGC6366", "", "GC", "17 27.7", "-05 05"],
+    ["NGC6367", "", "Gx", "17 25.2", "+37 46"],
+    ["NGC6368", "", "Gx", "17 27.2", "+11 33"],
+    ["NGC6369", "Little Ghost Nebula", "PN", "17 29.3", "-23 46"],
+    ["NGC6370", "", "Gx", "17 23.4", "+56 58"],
+    ["NGC6371", "", "Gx", "17 27.3", "+26 30"],
+    ["NGC6372", "", "Gx", "17 27.5", "+26 29"],
+    ["NGC6373", "", "Gx", "17 24.1", "+59 00"],
+    ["NGC6374", "", "OC", "17 32.2", "-32 36"],
+    ["NGC6375", "", "Gx", "17 29.4", "+16 12"],
+    ["NGC6376", "", "Gx", "17 25.3", "+58 49"],
+    ["NGC6377", "", "Gx", "17 25.4", "+58 49"],
+    ["NGC6378", "", "Gx", "17 30.7", "+06 17"],
+    ["NGC6379", "", "Gx", "17 30.6", "+16 17"],
+    ["NGC6381", "", "Gx", "17 27.3", "+60 01"],
+    ["NGC6382", "", "Gx", "17 27.9", "+56 52"],
+    ["NGC6383", "", "EN", "17 34.8", "-32 34"],
+    ["NGC6384", "", "Gx", "17 32.4", "+07 04"],
+    ["NGC6385", "", "Gx", "17 28.0", "+57 31"],
+    ["NGC6386", "", "Gx", "17 28.9", "+52 43"],
+    ["NGC6387", "", "Gx", "17 28.4", "+57 33"],
+    ["NGC6388", "", "GC", "17 36.3", "-44 44"],
+    ["NGC6389", "", "Gx", "17 32.7", "+16 24"],
+    ["NGC6390", "", "Gx", "17 28.5", "+60 06"],
+    ["NGC6391", "", "Gx", "17 28.8", "+58 51"],
+    ["NGC6392", "", "Gx", "17 43.5", "-69 47"],
+    ["NGC6393", "", "Gx", "17 30.4", "+59 38"],
+    ["NGC6394", "", "Gx", "17 30.4", "+59 38"],
+    ["NGC6395", "", "Gx", "17 26.5", "+71 06"],
+    ["NGC6396", "", "OC", "17 37.6", "-35 02"],
+    ["NGC6397", "", "GC", "17 40.7", "-53 40"],
+    ["NGC6398", "", "Gx", "17 42.7", "-61 42"],
+    ["NGC6399", "", "Gx", "17 31.8", "+59 37"],
+    ["NGC6400", "Phantom Cluster", "OC", "17 40.2", "-36 57"],
+    ["NGC6401", "", "GC", "17 38.6", "-23 55"],
+    ["NGC6403", "", "Gx", "17 43.4", "-61 41"],
+    ["NGC6404", "", "OC", "17 39.7", "-33 14"],
+    ["NGC6407", "", "Gx", "17 45.0", "-60 44"],
+    ["NGC6408", "", "Gx", "17 38.8", "+18 53"],
+    ["NGC6409", "", "Gx", "17 36.6", "+50 46"],
+    ["NGC6411", "", "Gx", "17 35.5", "+60 49"],
+    ["NGC6412", "", "Gx", "17 29.6", "+75 42"],
+    ["NGC6414", "", "Gx", "17 30.6", "+74 23"],
+    ["NGC6416", "", "OC", "17 44.3", "-32 22"],
+    ["NGC6417", "", "Gx", "17 41.8", "+23 40"],
+    ["NGC6418", "", "Gx", "17 38.2", "+58 43"],
+    ["NGC6419", "", "Gx", "17 36.1", "+68 09"],
+    ["NGC6420", "", "Gx", "17 36.3", "+68 03"],
+    ["NGC6422", "", "Gx", "17 36.5", "+68 04"],
+    ["NGC6423", "", "Gx", "17 36.9", "+68 10"],
+    ["NGC6424", "", "Gx", "17 36.2", "+69 59"],
+    ["NGC6425", "", "OC", "17 47.0", "-31 32"],
+    ["NGC6426", "", "GC", "17 44.9", "+03 10"],
+    ["NGC6427", "", "Gx", "17 43.6", "+25 30"],
+    ["NGC6429", "", "Gx", "17 44.1", "+25 21"],
+    ["NGC6430", "", "Gx", "17 45.2", "+18 08"],
+    ["NGC6433", "", "Gx", "17 43.9", "+36 48"],
+    ["NGC6434", "", "Gx", "17 36.8", "+72 05"],
+    ["NGC6435", "", "Gx", "17 40.2", "+62 39"],
+    ["NGC6436", "", "Gx", "17 41.2", "+60 27"],
+    ["NGC6438", "", "Gx", "18 22.3", "-85 24"],
+    ["NGC6439", "", "PN", "17 48.3", "-16 29"],
+    ["NGC6440", "", "GC", "17 48.9", "-20 22"],
+    ["NGC6441", "Silver Nugget Cluster", "GC", "17 50.2", "-37 03"],
+    ["NGC6442", "", "Gx", "17 46.9", "+20 46"],
+    ["NGC6443", "", "Gx", "17 44.6", "+48 07"],
+    ["NGC6445", "Little Gem Nebula", "PN", "17 49.3", "-20 01"],
+    ["NGC6446", "", "Gx", "17 46.1", "+35 34"],
+    ["NGC6447", "", "Gx", "17 46.3", "+35 34"],
+    ["NGC6449", "", "Gx", "17 43.8", "+56 48"],
+    ["NGC6451", "Tom Thumb Cluster", "OC", "17 50.7", "-30 13"],
+    ["NGC6452", "", "Gx", "17 48.0", "+20 50"],
+    ["NGC6453", "", "GC", "17 50.9", "-34 36"],
+    ["NGC6454", "", "Gx", "17 44.9", "+55 42"],
+    ["NGC6456", "", "Gx", "17 42.5", "+67 36"],
+    ["NGC6457", "", "Gx", "17 42.9", "+66 29"],
+    ["NGC6458", "", "Gx", "17 49.2", "+20 48"],
+    ["NGC6459", "", "Gx", "17 45.8", "+55 47"],
+    ["NGC6460", "", "Gx", "17 49.5", "+20 46"],
+    ["NGC6461", "", "Gx", "17 38.7", "+73 31"],
+    ["NGC6462", "", "Gx", "17 44.8", "+61 55"],
+    ["NGC6463", "", "Gx", "17 43.6", "+67 36"],
+    ["NGC6464", "", "Gx", "17 45.8", "+60 54"],
+    ["NGC6466", "", "Gx", "17 48.1", "+51 24"],
+    ["NGC6467", "", "Gx", "17 50.7", "+17 32"],
+    ["NGC6469", "", "OC", "17 53.2", "-22 19"],
+    ["NGC6470", "", "Gx", "17 44.2", "+67 37"],
+    ["NGC6471", "", "Gx", "17 44.2", "+67 36"],
+    ["NGC6472", "", "Gx", "17 44.1", "+67 38"],
+    ["NGC6473", "", "Gx", "17 47.1", "+57 18"],
+    ["NGC6477", "", "Gx", "17 44.5", "+67 37"],
+    ["NGC6478", "", "Gx", "17 48.6", "+51 09"],
+    ["NGC6479", "", "Gx", "17 48.4", "+54 09"],
+    ["NGC6482", "", "Gx", "17 51.8", "+23 04"],
+    ["NGC6483", "", "Gx", "17 59.5", "-63 40"],
+    ["NGC6484", "", "Gx", "17 51.8", "+24 29"],
+    ["NGC6485", "", "Gx", "17 51.9", "+31 28"],
+    ["NGC6486", "", "Gx", "17 52.6", "+29 49"],
+    ["NGC6487", "", "Gx", "17 52.7", "+29 50"],
+    ["NGC6488", "", "Gx", "17 49.3", "+62 13"],
+    ["NGC6489", "", "Gx", "17 50.0", "+60 06"],
+    ["NGC6490", "", "Gx", "17 54.5", "+18 23"],
+    ["NGC6491", "", "Gx", "17 50.0", "+61 32"],
+    ["NGC6492", "", "Gx", "18 02.8", "-66 26"],
+    ["NGC6493", "", "Gx", "17 50.4", "+61 34"],
+    ["NGC6495", "", "Gx", "17 54.8", "+18 20"],
+    ["NGC6496", "", "GC", "17 59.1", "-44 16"],
+    ["NGC6497", "", "Gx", "17 51.3", "+59 28"],
+    ["NGC6500", "", "Gx", "17 56.0", "+18 20"],
+    ["NGC6501", "", "Gx", "17 56.1", "+18 22"],
+    ["NGC6502", "", "Gx", "18 04.2", "-65 25"],
+    ["NGC6503", "Lost in Space Galaxy", "Gx", "17 49.4", "+70 09"],
+    ["NGC6504", "", "Gx", "17 56.1", "+33 13"],
+    ["NGC6505", "", "Gx", "17 51.1", "+65 32"],
+    ["NGC6507", "", "OC", "17 59.8", "-17 25"],
+    ["NGC6508", "", "Gx", "17 49.8", "+72 01"],
+    ["NGC6509", "", "Gx", "17 59.4", "+06 17"],
+    ["NGC6510", "", "Gx", "17 54.7", "+60 49"],
+    ["NGC6512", "", "Gx", "17 54.8", "+62 39"],
+    ["NGC6513", "", "Gx", "17 59.6", "+24 53"],
+    ["NGC6515", "", "Gx", "17 57.4", "+50 44"],
+    ["NGC6516", "", "Gx", "17 55.3", "+62 40"],
+    ["NGC6517", "", "GC", "18 01.8", "-08 58"],
+    ["NGC6518", "", "Gx", "17 59.7", "+28 52"],
+    ["NGC6520", "Dead Man's Chest Cluster", "OC", "18 03.4", "-27 53"],
+    ["NGC6521", "", "Gx", "17 55.8", "+62 37"],
+    ["NGC6522", "Baade's Window", "GC", "18 03.6", "-30 02"],
+    ["NGC6524", "", "Gx", "17 59.2", "+45 53"],
+    ["NGC6527", "", "Gx", "18 01.8", "+19 44"],
+    ["NGC6528", "", "GC", "18 04.8", "-30 03"],
+    ["NGC6530", "Herschel 36", "OC", "18 04.5", "-24 21"],
+    ["NGC6532", "", "Gx", "17 59.2", "+56 14"],
+    ["NGC6534", "", "Gx", "17 56.1", "+64 17"],
+    ["NGC6535", "", "GC", "18 03.8", "-00 18"],
+    ["NGC6536", "", "Gx", "17 57.3", "+64 56"],
+    ["NGC6537", "Red spider Nebula", "PN", "18 05.2", "-19 51"],
+    ["NGC6538", "", "Gx", "17 54.3", "+73 25"],
+    ["NGC6539", "", "GC", "18 04.8", "-07 35"],
+    ["NGC6540", "", "GC", "18 06.1", "-27 46"],
+    ["NGC6541", "Cacciatore Cluster", "GC", "18 08.0", "-43 43"],
+    ["NGC6542", "", "Gx", "17 59.6", "+61 22"],
+    ["NGC6544", "Starfish Cluster", "GC", "18 07.3", "-25 00"],
+    ["NGC6545", "", "Gx", "18 12.2", "-63 47"],
+    ["NGC6546", "", "OC", "18 07.4", "-23 18"],
+    ["NGC6547", "", "Gx", "18 05.2", "+25 14"],
+    ["NGC6548", "", "Gx", "18 06.0", "+18 35"],
+    ["NGC6549", "", "Gx", "18 05.8", "+18 32"],
+    ["NGC6552", "", "Gx", "18 00.1", "+66 37"],
+    ["NGC6553", "", "GC", "18 09.3", "-25 54"],
+    ["NGC6555", "", "Gx", "18 07.8", "+17 36"],
+    ["NGC6557", "", "Gx", "18 21.4", "-76 35"],
+    ["NGC6558", "", "GC", "18 10.3", "-31 46"],
+    ["NGC6559", "", "Neb", "18 10.0", "-24 00"],
+    ["NGC6560", "", "Gx", "18 05.2", "+46 53"],
+    ["NGC6562", "", "Gx", "18 05.0", "+56 16"],
+    ["NGC6563", "Southern Ring Nebula", "PN", "18 12.0", "-33 52"],
+    ["NGC6565", "", "PN", "18 11.9", "-28 11"],
+    ["NGC6566", "", "Gx", "18 07.0", "+52 16"],
+    ["NGC6567", "", "PN", "18 13.8", "-19 05"],
+    ["NGC6568", "", "OC", "18 12.7", "-21 36"],
+    ["NGC6569", "", "GC", "18 13.6", "-31 50"],
+    ["NGC6570", "", "Gx", "18 11.1", "+14 06"],
+    ["NGC6571", "", "Gx", "18 10.8", "+21 14"],
+    ["NGC6572", "Blue Racquetball Nebula", "PN", "18 12.1", "+06 51"],
+    ["NGC6574", "", "Gx", "18 11.9", "+14 59"],
+    ["NGC6575", "", "Gx", "18 11.0", "+31 07"],
+    ["NGC6576", "", "Gx", "18 11.8", "+21 26"],
+    ["NGC6577", "", "Gx", "18 12.0", "+21 28"],
+    ["NGC6578", "", "PN", "18 16.3", "-20 27"],
+    ["NGC6579", "", "Gx", "18 12.5", "+21 25"],
+    ["NGC6580", "", "Gx", "18 12.6", "+21 26"],
+    ["NGC6581", "", "Gx", "18 12.8", "+25 25"],
+    ["NGC6582", "", "Gx", "18 11.0", "+49 55"],
+    ["NGC6583", "", "OC", "18 15.8", "-22 08"],
+    ["NGC6584", "", "GC", "18 18.6", "-52 13"],
+    ["NGC6585", "", "Gx", "18 12.4", "+39 38"],
+    ["NGC6586", "", "Gx", "18 13.6", "+21 05"],
+    ["NGC6587", "", "Gx", "18 13.8", "+18 50"],
+    ["NGC6589", "", "Neb", "18 16.8", "-19 53"],
+    ["NGC6590", "", "RN", "18 17.0", "-19 53"],
+    ["NGC6592", "", "Gx", "18 09.8", "+61 25"],
+    ["NGC6593", "", "Gx", "18 14.1", "+22 17"],
+    ["NGC6594", "", "Gx", "18 10.1", "+61 08"],
+    ["NGC6595", "", "OC", "18 17.0", "-19 53"],
+    ["NGC6597", "", "Gx", "18 11.2", "+61 11"],
+    ["NGC6598", "", "Gx", "18 08.9", "+69 04"],
+    ["NGC6599", "", "Gx", "18 15.7", "+24 55"],
+    ["NGC6601", "", "Gx", "18 11.7", "+61 27"],
+    ["NGC6602", "", "Gx", "18 16.6", "+25 03"],
+    ["NGC6603", "", "OC", "18 18.4", "-18 24"],
+    ["NGC6604", "", "OC", "18 18.0", "-12 15"],
+    ["NGC6605", "", "OC", "18 17.0", "-15 01"],
+    ["NGC6606", "", "Gx", "18 14.7", "+43 16"],
+    ["NGC6607", "", "Gx", "18 12.2", "+61 20"],
+    ["NGC6608", "", "Gx", "18 12.5", "+61 18"],
+    ["NGC6609", "", "Gx", "18 12.6", "+61 20"],
+    ["NGC6612", "", "Gx", "18 16.2", "+36 05"],
+    ["NGC6614", "", "Gx", "18 25.1", "-63 15"],
+    ["NGC6615", "", "Gx", "18 18.6", "+13 16"],
+    ["NGC6616", "", "Gx", "18 17.7", "+22 14"],
+    ["NGC6617", "", "Gx", "18 14.0", "+61 19"],
+    ["NGC6619", "", "Gx", "18 18.9", "+23 39"],
+    ["NGC6620", "", "PN", "18 22.9", "-26 49"],
+    ["NGC6621", "Edward's Galaxy", "Gx", "18 12.9", "+68 22"],
+    ["NGC6622", "Edward's Galaxy", "Gx", "18 13.0", "+68 21"],
+    ["NGC6623", "", "Gx", "18 19.7", "+23 43"],
+    ["NGC6624", "", "GC", "18 23.7", "-30 22"],
+    ["NGC6625", "", "OC", "18 22.8", "-11 57"],
+    ["NGC6627", "", "Gx", "18 22.6", "+15 42"],
+    ["NGC6628", "", "Gx", "18 22.4", "+23 29"],
+    ["NGC6629", "", "PN", "18 25.7", "-23 12"],
+    ["NGC6630", "", "Gx", "18 32.6", "-63 18"],
+    ["NGC6631", "", "OC", "18 27.3", "-12 01"],
+    ["NGC6632", "", "Gx", "18 25.1", "+27 32"],
+    ["NGC6635", "", "Gx", "18 27.6", "+14 49"],
+    ["NGC6636", "", "Gx", "18 22.0", "+66 37"],
+    ["NGC6638", "", "GC", "18 30.9", "-25 30"],
+    ["NGC6640", "", "Gx", "18 28.1", "+34 18"],
+    ["NGC6641", "", "Gx", "18 29.0", "+22 54"],
+    ["NGC6642", "Tadpole Cluster", "GC", "18 31.9", "-23 29"],
+    ["NGC6643", "", "Gx", "18 19.8", "+74 34"],
+    ["NGC6644", "", "PN", "18 32.6", "-25 08"],
+    ["NGC6645", "", "OC", "18 32.5", "-16 55"],
+    ["NGC6646", "", "Gx", "18 29.6", "+39 52"],
+    ["NGC6647", "", "OC", "18 31.5", "-17 20"],
+    ["NGC6649", "", "OC", "18 33.4", "-10 24"],
+    ["NGC6650", "", "Gx", "18 25.5", "+68 00"],
+    ["NGC6651", "", "Gx", "18 24.3", "+71 36"],
+    ["NGC6652", "", "GC", "18 35.8", "-32 59"],
+    ["NGC6653", "", "Gx", "18 44.6", "-73 16"],
+    ["NGC6654", "", "Gx", "18 39.4", "+73 35"],
+    ["NGC6657", "", "Gx", "18 33.0", "+34 04"],
+    ["NGC6658", "", "Gx", "18 33.9", "+22 53"],
+    ["NGC6660", "", "Gx", "18 34.6", "+22 55"],
+    ["NGC6662", "", "Gx", "18 34.2", "+32 04"],
+    ["NGC6663", "", "Gx", "18 33.6", "+40 03"],
+    ["NGC6664", "Santa's Sleigh Cluster", "OC", "18 36.6", "-07 49"],
+    ["NGC6665", "", "Gx", "18 34.5", "+30 43"],
+    ["NGC6667", "", "Gx", "18 30.7", "+67 59"],
+    ["NGC6669", "", "Gx", "18 37.9", "+22 05"],
+    ["NGC6670", "", "Gx", "18 33.6", "+59 53"],
+    ["NGC6671", "", "Gx", "18 37.4", "+26 25"],
+    ["NGC6672", "", "Gx", "18 33.7", "+42 48"],
+    ["NGC6673", "", "Gx", "18 45.1", "-62 18"],
+    ["NGC6674", "", "Gx", "18 38.6", "+25 23"],
+    ["NGC6675", "", "Gx", "18 37.4", "+40 03"],
+    ["NGC6676", "", "Gx", "18 33.2", "+66 58"],
+    ["NGC6677", "", "Gx", "18 33.6", "+67 08"],
+    ["NGC6679", "", "Gx", "18 33.5", "+67 07"],
+    ["NGC6680", "", "Gx", "18 39.7", "+22 19"],
+    ["NGC6683", "", "OC", "18 42.2", "-06 12"],
+    ["NGC6684", "", "Gx", "18 49.0", "-65 10"],
+    ["NGC6685", "", "Gx", "18 40.0", "+39 59"],
+    ["NGC6686", "", "Gx", "18 40.1", "+40 08"],
+    ["NGC6687", "", "Gx", "18 37.4", "+59 39"],
+    ["NGC6688", "", "Gx", "18 40.7", "+36 17"],
+    ["NGC6689", "", "Gx", "18 34.8", "+70 31"],
+    ["NGC6691", "", "Gx", "18 39.2", "+55 39"],
+    ["NGC6692", "", "Gx", "18 41.7", "+34 51"],
+    ["NGC6695", "", "Gx", "18 42.7", "+40 22"],
+    ["NGC6696", "", "Gx", "18 40.1", "+59 20"],
+    ["NGC6697", "", "Gx", "18 45.2", "+25 31"],
+    ["NGC6699", "", "Gx", "18 52.0", "-57 19"],
+    ["NGC6700", "", "Gx", "18 46.1", "+32 17"],
+    ["NGC6701", "", "Gx", "18 43.2", "+60 39"],
+    ["NGC6702", "", "Gx", "18 47.0", "+45 42"],
+    ["NGC6703", "", "Gx", "18 47.3", "+45 33"],
+    ["NGC6704", "", "OC", "18 50.7", "-05 13"],
+    ["NGC6706", "", "Gx", "18 56.9", "-63 10"],
+    ["NGC6707", "", "Gx", "18 55.4", "-53 49"],
+    ["NGC6708", "", "Gx", "18 55.6", "-53 43"],
+    ["NGC6709", "Flying Unicorn Cluster", "OC", "18 51.3", "+10 19"],
+    ["NGC6710", "", "Gx", "18 50.6", "+26 50"],
+    ["NGC6711", "", "Gx", "18 49.0", "+47 39"],
+    ["NGC6712", "", "GC", "18 53.1", "-08 42"],
+    ["NGC6713", "", "Gx", "18 50.7", "+33 58"],
+    ["NGC6716", "", "OC", "18 54.6", "-19 54"],
+    ["NGC6717", "", "GC", "18 55.1", "-22 42"],
+    ["NGC6718", "", "Gx", "19 01.5", "-66 07"],
+    ["NGC6719", "", "Gx", "19 03.1", "-68 35"],
+    ["NGC6721", "", "Gx", "19 00.8", "-57 46"],
+    ["NGC6722", "", "Gx", "19 03.7", "-64 54"],
+    ["NGC6723", "Chandelier Cluster", "GC", "18 59.6", "-36 38"],
+    ["NGC6725", "", "Gx", "19 01.9", "-53 52"],
+    ["NGC6729", "R CrA Nebula", "Neb", "19 01.8", "-36 58"],
+    ["NGC6730", "", "Gx", "19 07.6", "-68 55"],
+    ["NGC6732", "", "Gx", "18 56.4", "+52 23"],
+    ["NGC6733", "", "Gx", "19 06.2", "-62 12"],
+    ["NGC6734", "", "Gx", "19 07.2", "-65 28"],
+    ["NGC6736", "", "Gx", "19 07.5", "-65 26"],
+    ["NGC6738", "", "OC", "19 01.3", "+11 37"],
+    ["NGC6739", "", "Gx", "19 07.8", "-61 22"],
+    ["NGC6740", "", "Gx", "19 00.8", "+28 46"],
+    ["NGC6741", "Phantom Streak Nebula", "PN", "19 02.6", "-00 27"],
+    ["NGC6742", "", "PN", "18 59.3", "+48 28"],
+    ["NGC6743", "", "OC", "19 01.2", "+29 17"],
+    ["NGC6744", "", "Gx", "19 09.8", "-63 51"],
+    ["NGC6745", "Bird's Head", "Gx", "19 01.7", "+40 45"],
+    ["NGC6746", "", "Gx", "19 10.4", "-61 58"],
+    ["NGC6747", "", "Gx", "18 55.4", "+72 46"],
+    ["NGC6749", "", "GC", "19 05.3", "+01 54"],
+    ["NGC6750", "", "Gx", "19 00.6", "+59 10"],
+    ["NGC6751", "Dandelion Puffball Nebula", "PN", "19 05.9", "-06 00"],
+    ["NGC6752", "Pavo Globular Cluster", "GC", "19 10.9", "-59 59"],
+    ["NGC6753", "", "Gx", "19 11.4", "-57 03"],
+    ["NGC6754", "", "Gx", "19 11.4", "-50 39"],
+    ["NGC6755", "Possible Binary Cluster", "OC", "19 07.8", "+04 16"],
+    ["NGC6756", "Possible Binary Cluster", "OC", "19 08.7", "+04 43"],
+    ["NGC6757", "", "Gx", "19 05.1", "+55 43"],
+    ["NGC6758", "", "Gx", "19 13.9", "-56 19"],
+    ["NGC6759", "", "Gx", "19 07.0", "+50 21"],
+    ["NGC6760", "", "GC", "19 11.2", "+01 02"],
+    ["NGC6761", "", "Gx", "19 15.1", "-50 39"],
+    ["NGC6762", "", "Gx", "19 05.6", "+63 56"],
+    ["NGC6764", "", "Gx", "19 08.3", "+50 56"],
+    ["NGC6765", "", "PN", "19 11.1", "+30 33"],
+    ["NGC6768", "", "Gx", "19 16.5", "-40 13"],
+    ["NGC6769", "", "Gx", "19 18.4", "-60 30"],
+    ["NGC6770", "", "Gx", "19 18.6", "-60 30"],
+    ["NGC6771", "", "Gx", "19 18.7", "-60 33"],
+    ["NGC6772", "", "PN", "19 14.6", "-02 42"],
+    ["NGC6776", "Pentagon", "Gx", "19 25.3", "-63 52"],
+    ["NGC6778", "Son of M76", "PN", "19 18.4", "-01 36"],
+    ["NGC6780", "", "Gx", "19 22.8", "-55 47"],
+    ["NGC6781", "Snowball Nebula", "PN", "19 18.5", "+06 32"],
+    ["NGC6782", "", "Gx", "19 24.0", "-59 55"],
+    ["NGC6783", "", "Gx", "19 16.8", "+46 01"],
+    ["NGC6784", "", "Gx", "19 26.6", "-65 37"],
+    ["NGC6786", "", "Gx", "19 10.9", "+73 25"],
+    ["NGC6787", "", "Gx", "19 16.2", "+60 25"],
+    ["NGC6788", "", "Gx", "19 26.8", "-54 57"],
+    ["NGC6789", "", "Gx", "19 16.7", "+63 58"],
+    ["NGC6790", "", "PN", "19 22.9", "+01 31"],
+    ["NGC6791", "", "OC", "19 20.9", "+37 46"],
+    ["NGC6792", "", "Gx", "19 21.0", "+43 08"],
+    ["NGC6794", "", "Gx", "19 28.1", "-38 55"],
+    ["NGC6796", "", "Gx", "19 21.5", "+61 09"],
+    ["NGC6798", "", "Gx", "19 24.1", "+53 37"],
+    ["NGC6799", "", "Gx", "19 32.3", "-55 54"],
+    ["NGC6801", "", "Gx", "19 27.6", "+54 22"],
+    ["NGC6802", "", "OC", "19 30.6", "+20 16"],
+    ["NGC6803", "", "PN", "19 31.3", "+10 03"],
+    ["NGC6804", "Incredible Shrinking Nebula", "PN", "19 31.6", "+09 14"],
+    ["NGC6805", "", "Gx", "19 36.8", "-37 33"],
+    ["NGC6806", "", "Gx", "19 37.1", "-42 18"],
+    ["NGC6807", "", "PN", "19 34.6", "+05 41"],
+    ["NGC6808", "", "Gx", "19 43.9", "-70 38"],
+    ["NGC6810", "", "Gx", "19 43.6", "-58 39"],
+    ["NGC6811", "Hole in a Cluster", "OC", "19 37.3", "+46 23"],
+    ["NGC6812", "", "Gx", "19 45.4", "-55 21"],
+    ["NGC6814", "", "Gx", "19 42.7", "-10 19"],
+    ["NGC6816", "", "Gx", "19 44.0", "-28 24"],
+    ["NGC6817", "", "Gx", "19 37.4", "+62 23"],
+    ["NGC6818", "Little Gem Nebula", "PN", "19 44.0", "-14 09"],
+    ["NGC6819", "The Foxhead Cluster", "OC", "19 41.3", "+40 11"],
+    ["NGC6820", "", "Neb", "19 42.5", "+23 05"],
+    ["NGC6821", "", "Gx", "19 44.4", "-06 50"],
+    ["NGC6823", "", "EN", "19 43.2", "+23 18"],
+    ["NGC6824", "", "Gx", "19 43.7", "+56 07"],
+    ["NGC6825", "", "Gx", "19 41.9", "+64 04"],
+    ["NGC6827", "", "OC", "19 48.9", "+21 12"],
+    ["NGC6829", "", "Gx", "19 47.1", "+59 54"],
+    ["NGC6830", "Poodle Cluster", "OC", "19 51.0", "+23 06"],
+    ["NGC6831", "", "Gx", "19 48.0", "+59 54"],
+    ["NGC6833", "", "PN", "19 49.8", "+48 58"],
+    ["NGC6834", "", "OC", "19 52.2", "+29 24"],
+    ["NGC6835", "", "Gx", "19 54.6", "-12 34"],
+    ["NGC6836", "", "Gx", "19 54.7", "-12 41"],
+    ["NGC6841", "", "Gx", "19 57.8", "-31 49"],
+    ["NGC6842", "", "PN", "19 55.0", "+29 17"],
+    ["NGC6844", "", "Gx", "20 02.8", "-65 14"],
+    ["NGC6845", "Klemola 30", "Gx", "20 01.0", "-47 04"],
+    ["NGC6846", "", "OC", "19 56.4", "+32 21"],
+    ["NGC6847", "", "Neb", "19 57.0", "+29 20"],
+    ["NGC6848", "", "Gx", "20 02.8", "-56 05"],
+    ["NGC6849", "", "Gx", "20 06.3", "-40 12"],
+    ["NGC6850", "", "Gx", "20 03.5", "-54 51"],
+    ["NGC6851", "", "Gx", "20 03.6", "-48 17"],
+    ["NGC6852", "", "PN", "20 00.7", "+01 44"],
+    ["NGC6854", "", "Gx", "20 05.7", "-54 23"],
+    ["NGC6855", "", "Gx", "20 06.8", "-56 23"],
+    ["NGC6860", "", "Gx", "20 08.8", "-61 06"],
+    ["NGC6861", "", "Gx", "20 07.3", "-48 22"],
+    ["NGC6862", "", "Gx", "20 08.9", "-56 24"],
+    ["NGC6865", "", "Gx", "20 05.9", "-09 02"],
+    ["NGC6866", "Kite Cluster", "OC", "20 03.9", "+44 09"],
+    ["NGC6867", "", "Gx", "20 10.5", "-54 47"],
+    ["NGC6868", "", "Gx", "20 09.9", "-48 23"],
+    ["NGC6869", "", "Gx", "20 00.7", "+66 14"],
+    ["NGC6870", "", "Gx", "20 10.2", "-48 17"],
+    ["NGC6871", "", "OC", "20 06.0", "+35 47"],
+    ["NGC6872", "Condor Galaxy", "Gx", "20 16.9", "-70 46"],
+    ["NGC6875", "", "Gx", "20 13.2", "-46 10"],
+    ["NGC6876", "", "Gx", "20 18.3", "-70 52"],
+    ["NGC6877", "", "Gx", "20 18.6", "-70 51"],
+    ["NGC6878", "", "Gx", "20 13.9", "-44 32"],
+    ["NGC6879", "", "PN", "20 10.4", "+16 55"],
+    ["NGC6880", "", "Gx", "20 19.5", "-70 52"],
+    ["NGC6881", "", "PN", "20 10.9", "+37 25"],
+    ["NGC6882", "", "OC", "20 11.8", "+26 49"],
+    ["NGC6883", "", "OC", "20 11.3", "+35 50"],
+    ["NGC6884", "", "PN", "20 10.4", "+46 28"],
+    ["NGC6885", "20 Vulpeculae Cluster", "OC", "20 12.0", "+26 29"],
+    ["NGC6886", "", "PN", "20 12.7", "+19 59"],
+    ["NGC6887", "", "Gx", "20 17.3", "-52 48"],
+    ["NGC6889", "", "Gx", "20 18.9", "-53 57"],
+    ["NGC6890", "", "Gx", "20 18.3", "-44 48"],
+    ["NGC6891", "", "PN", "20 15.1", "+12 42"],
+    ["NGC6893", "", "Gx", "20 20.8", "-48 14"],
+    ["NGC6894", "Little Ring Nebula", "PN", "20 16.4", "+30 34"],
+    ["NGC6897", "", "Gx", "20 21.0", "-12 15"],
+    ["NGC6898", "", "Gx", "20 21.1", "-12 22"],
+    ["NGC6899", "", "Gx", "20 24.4", "-50 26"],
+    ["NGC6900", "", "Gx", "20 21.6", "-02 34"],
+    ["NGC6901", "", "Gx", "20 22.4", "+06 26"],
+    ["NGC6902", "", "Gx", "20 24.5", "-43 39"],
+    ["NGC6903", "", "Gx", "20 23.7", "-19 20"],
+    ["NGC6905", "Blue Flash Nebula", "PN", "20 22.4", "+20 06"],
+    ["NGC6906", "", "Gx", "20 23.6", "+06 27"],
+    ["NGC6907", "Giant Behemoth Galaxy", "Gx", "20 25.1", "-24 48"],
+    ["NGC6908", "", "Gx", "20 25.1", "-24 49"],
+    ["NGC6909", "", "Gx", "20 27.6", "-47 02"],
+    ["NGC6910", "The Inchworm Cluster", "OC", "20 23.1", "+40 46"],
+    ["NGC6911", "", "Gx", "20 19.6", "+66 44"],
+    ["NGC6912", "", "Gx", "20 26.9", "-18 37"],
+    ["NGC6914", "", "Neb", "20 25.2", "+42 18"],
+    ["NGC6915", "", "Gx", "20 27.8", "-03 05"],
+    ["NGC6916", "", "Gx", "20 23.6", "+58 21"],
+    ["NGC6917", "", "Gx", "20 27.5", "+08 06"],
+    ["NGC6918", "", "Gx", "20 30.8", "-47 28"],
+    ["NGC6919", "", "Gx", "20 31.6", "-44 13"],
+    ["NGC6920", "", "Gx", "20 44.0", "-80 00"],
+    ["NGC6921", "", "Gx", "20 28.5", "+25 43"],
+    ["NGC6922", "", "Gx", "20 29.9", "-02 11"],
+    ["NGC6923", "", "Gx", "20 31.7", "-30 50"],
+    ["NGC6924", "", "Gx", "20 33.3", "-25 28"],
+    ["NGC6925", "", "Gx", "20 34.3", "-31 59"],
+    ["NGC6926", "", "Gx", "20 33.1", "-02 02"],
+    ["NGC6927", "", "Gx", "20 32.6", "+09 55"],
+    ["NGC6928", "", "Gx", "20 32.8", "+09 56"],
+    ["NGC6929", "", "Gx", "20 33.4", "-02 02"],
+    ["NGC6930", "", "Gx", "20 33.0", "+09 52"],
+    ["NGC6931", "", "Gx", "20 33.7", "-11 22"],
+    ["NGC6932", "", "Gx", "20 42.1", "-73 37"],
+    ["NGC6934", "", "GC", "20 34.2", "+07 24"],
+    ["NGC6935", "", "Gx", "20 38.3", "-52 07"],
+    ["NGC6936", "", "Gx", "20 35.9", "-25 17"],
+    ["NGC6937", "", "Gx", "20 38.8", "-52 09"],
+    ["NGC6940", "Mothra Cluster", "OC", "20 34.4", "+28 17"],
+    ["NGC6941", "", "Gx", "20 36.4", "-04 37"],
+    ["NGC6942", "", "Gx", "20 40.6", "-54 18"],
+    ["NGC6943", "", "Gx", "20 44.6", "-68 45"],
+    ["NGC6944", "", "Gx", "20 38.4", "+07 00"],
+    ["NGC6945", "", "Gx", "20 39.0", "-04 58"],
+    ["NGC6947", "", "Gx", "20 41.3", "-32 29"],
+    ["NGC6948", "", "Gx", "20 43.5", "-53 21"],
+    ["NGC6949", "", "Gx", "20 35.1", "+64 48"],
+    ["NGC6951", "", "Gx", "20 37.2", "+66 06"],
+    ["NGC6954", "", "Gx", "20 44.1", "+03 13"],
+    ["NGC6955", "", "Gx", "20 44.3", "+02 36"],
+    ["NGC6956", "", "Gx", "20 43.9", "+12 31"],
+    ["NGC6957", "", "Gx", "20 44.8", "+02 35"],
+    ["NGC6958", "", "Gx", "20 48.7", "-38 00"],
+    ["NGC6959", "", "Gx", "20 47.1", "+00 26"],
+    ["NGC6961", "", "Gx", "20 47.2", "+00 22"],
+    ["NGC6962", "", "Gx", "20 47.3", "+00 19"],
+    ["NGC6963", "", "Gx", "20 47.3", "+00 31"],
+    ["NGC6964", "", "Gx", "20 47.4", "+00 18"],
+    ["NGC6965", "", "Gx", "20 47.3", "+00 29"],
+    ["NGC6967", "", "Gx", "20 47.6", "+00 25"],
+    ["NGC6968", "", "Gx", "20 48.5", "-08 22"],
+    ["NGC6969", "", "Gx", "20 48.5", "+07 44"],
+    ["NGC6970", "", "Gx", "20 52.2", "-48 47"],
+    ["NGC6971", "", "Gx", "20 49.4", "+06 00"],
+    ["NGC6972", "", "Gx", "20 50.0", "+09 54"],
+    ["NGC6975", "", "Gx", "20 52.2", "-05 48"],
+    ["NGC6976", "", "Gx", "20 52.4", "-05 46"],
+    ["NGC6977", "", "Gx", "20 52.5", "-05 45"],
+    ["NGC6978", "", "Gx", "20 52.6", "-05 43"],
+    ["NGC6979", "Fleming's Triangular Wisp", "SNR", "20 50.5", "+32 02"],
+    ["NGC6982", "", "Gx", "20 57.3", "-51 52"],
+    ["NGC6983", "", "Gx", "20 56.7", "-43 59"],
+    ["NGC6984", "", "Gx", "20 57.9", "-51 52"],
+    ["NGC6986", "", "Gx", "20 56.5", "-18 34"],
+    ["NGC6987", "", "Gx", "20 58.2", "-48 38"],
+    ["NGC6988", "", "Gx", "20 55.8", "+10 30"],
+    ["NGC6990", "Witch's Broom Galaxy", "Gx", "20 59.9", "-55 34"],
+    ["NGC6996", "Bird's Nest", "OC", "20 56.4", "+45 28"],
+    ["NGC6997", "", "OC", "20 56.5", "+44 37"],
+    ["NGC6998", "", "Gx", "21 01.6", "-28 02"],
+    ["NGC6999", "", "Gx", "21 02.0", "-28 04"],
+    ["NGC7001", "", "Gx", "21 01.1", "-00 12"],
+    ["NGC7002", "", "Gx", "21 03.7", "-49 02"],
+    ["NGC7003", "", "Gx", "21 00.7", "+17 48"],
+    ["NGC7004", "", "Gx", "21 04.0", "-49 07"],
+    ["NGC7006", "", "GC", "21 01.5", "+16 11"],
+    ["NGC7007", "", "Gx", "21 05.5", "-52 33"],
+    ["NGC7008", "Fetus Nebula", "PN", "21 00.5", "+54 33"],
+    ["NGC7010", "", "Gx", "21 04.7", "-12 20"],
+    ["NGC7012", "", "Gx", "21 06.8", "-44 49"],
+    ["NGC7013", "", "Gx", "21 03.6", "+29 54"],
+    ["NGC7014", "", "Gx", "21 07.9", "-47 11"],
+    ["NGC7015", "", "Gx", "21 05.6", "+11 25"],
+    ["NGC7016", "", "Gx", "21 07.3", "-25 28"],
+    ["NGC7017", "", "Gx", "21 07.3", "-25 29"],
+    ["NGC7018", "", "Gx", "21 07.4", "-25 26"],
+    ["NGC7019", "", "Gx", "21 06.4", "-24 25"],
+    ["NGC7020", "", "Gx", "21 11.3", "-64 02"],
+    ["NGC7022", "", "Gx", "21 09.6", "-49 18"],
+    ["NGC7025", "", "Gx", "21 07.8", "+16 20"],
+    ["NGC7026", "Cheeseburger Nebula", "PN", "21 06.3", "+47 51"],
+    ["NGC7027", "Pink Pillow Nebula", "PN", "21 07.0", "+42 14"],
+    ["NGC7029", "", "Gx", "21 11.9", "-49 17"],
+    ["NGC7030", "", "Gx", "21 11.2", "-20 29"],
+    ["NGC7031", "", "OC", "21 07.1", "+50 52"],
+    ["NGC7032", "", "Gx", "21 15.4", "-68 17"],
+    ["NGC7033", "", "Gx", "21 09.6", "+15 07"],
+    ["NGC7034", "", "Gx", "21 09.6", "+15 09"],
+    ["NGC7035", "", "Gx", "21 10.8", "-23 08"],
+    ["NGC7038", "", "Gx", "21 15.1", "-47 13"],
+    ["NGC7039", "", "OC", "21 10.8", "+45 37"],
+    ["NGC7040", "", "Gx", "21 13.3", "+08 52"],
+    ["NGC7041", "", "Gx", "21 16.5", "-48 22"],
+    ["NGC7042", "", "Gx", "21 13.8", "+13 34"],
+    ["NGC7043", "", "Gx", "21 14.1", "+13 38"],
+    ["NGC7044", "", "OC", "21 13.2", "+42 30"],
+    ["NGC7046", "", "Gx", "21 14.9", "+02 50"],
+    ["NGC7047", "", "Gx", "21 16.5", "-00 50"],
+    ["NGC7048", "Peek-a-Boo Nebula", "PN", "21 14.3", "+46 17"],
+    ["NGC7049", "", "Gx", "21 19.0", "-48 34"],
+    ["NGC7051", "", "Gx", "21 19.9", "-08 47"],
+    ["NGC7052", "", "Gx", "21 18.6", "+26 27"],
+    ["NGC7053", "", "Gx", "21 21.1", "+23 05"],
+    ["NGC7056", "", "Gx", "21 22.1", "+18 40"],
+    ["NGC7057", "", "Gx", "21 25.0", "-42 28"],
+    ["NGC7059", "", "Gx", "21 27.4", "-60 01"],
+    ["NGC7060", "", "Gx", "21 25.9", "-42 25"],
+    ["NGC7061", "", "Gx", "21 27.4", "-49 04"],
+    ["NGC7062", "", "OC", "21 23.4", "+46 23"],
+    ["NGC7063", "", "OC", "21 24.4", "+36 29"],
+    ["NGC7064", "", "Gx", "21 29.0", "-52 46"],
+    ["NGC7065", "", "Gx", "21 26.7", "-07 00"],
+    ["NGC7066", "", "Gx", "21 26.2", "+14 11"],
+    ["NGC7067", "", "OC", "21 24.2", "+48 01"],
+    ["NGC7068", "", "Gx", "21 26.5", "+12 11"],
+    ["NGC7069", "", "Gx", "21 28.1", "-01 39"],
+    ["NGC7070", "", "Gx", "21 30.4", "-43 05"],
+    ["NGC7072", "", "Gx", "21 30.6", "-43 09"],
+    ["NGC7073", "", "Gx", "21 29.4", "-11 29"],
+    ["NGC7074", "", "Gx", "21 29.6", "+06 41"],
+    ["NGC7075", "", "Gx", "21 31.5", "-38 37"],
+    ["NGC7076", "", "PN", "21 26.4", "+62 54"],
+    ["NGC7077", "", "Gx", "21 30.0", "+02 25"],
+    ["NGC7079", "", "Gx", "21 32.6", "-44 04"],
+    ["NGC7080", "", "Gx", "21 30.0", "+26 43"],
+    ["NGC7081", "", "Gx", "21 31.4", "+02 29"],
+    ["NGC7082", "", "OC", "21 29.3", "+47 08"],
+    ["NGC7083", "", "Gx", "21 35.7", "-63 54"],
+    ["NGC7085", "", "Gx", "21 32.4", "+06 35"],
+    ["NGC7086", "", "OC", "21 30.4", "+51 36"],
+    ["NGC7087", "", "Gx", "21 34.6", "-40 49"],
+    ["NGC7090", "", "Gx", "21 36.5", "-54 33"],
+    ["NGC7091", "", "Gx", "21 34.1", "-36 39"],
+    ["NGC7094", "", "PN", "21 36.9", "+12 47"],
+    ["NGC7095", "", "Gx", "21 52.4", "-81 32"],
+    ["NGC7096", "", "Gx", "21 41.3", "-63 55"],
+    ["NGC7097", "", "Gx", "21 40.2", "-42 32"],
+    ["NGC7098", "", "Gx", "21 44.3", "-75 07"],
+    ["NGC7100", "", "Gx", "21 39.6", "+08 53"],
+    ["NGC7101", "", "Gx", "21 39.6", "+08 54"],
+    ["NGC7102", "", "Gx", "21 39.7", "+06 17"],
+    ["NGC7103", "", "Gx", "21 39.9", "-22 28"],
+    ["NGC7104", "", "Gx", "21 40.1", "-22 25"],
+    ["NGC7106", "", "Gx", "21 42.6", "-52 42"],
+    ["NGC7107", "", "Gx", "21 42.4", "-44 47"],
+    ["NGC7108", "", "Gx", "21 41.9", "-06 43"],
+    ["NGC7109", "", "Gx", "21 42.0", "-34 27"],
+    ["NGC7110", "", "Gx", "21 42.2", "-34 10"],
+    ["NGC7112", "", "Gx", "21 42.4", "+12 30"],
+    ["NGC7113", "", "Gx", "21 42.4", "+12 34"],
+    ["NGC7115", "", "Gx", "21 43.6", "-25 21"],
+    ["NGC7116", "", "Gx", "21 42.7", "+28 57"],
+    ["NGC7117", "", "Gx", "21 45.8", "-48 25"],
+    ["NGC7118", "", "Gx", "21 46.2", "-48 21"],
+    ["NGC7119", "", "Gx", "21 46.3", "-46 31"],
+    ["NGC7120", "", "Gx", "21 44.6", "-06 31"],
+    ["NGC7121", "", "Gx", "21 44.9", "-03 37"],
+    ["NGC7123", "", "Gx", "21 50.8", "-70 20"],
+    ["NGC7124", "", "Gx", "21 48.1", "-50 34"],
+    ["NGC7125", "", "Gx", "21 49.3", "-60 43"],
+    ["NGC7126", "", "Gx", "21 49.3", "-60 37"],
+    ["NGC7128", "", "OC", "21 43.9", "+53 43"],
+    ["NGC7129", "Small Cluster Nebula", "EN", "21 42.9", "+66 06"],
+    ["NGC7130", "", "Gx", "21 48.3", "-34 57"],
+    ["NGC7131", "", "Gx", "21 47.6", "-13 11"],
+    ["NGC7132", "", "Gx", "21 47.3", "+10 14"],
+    ["NGC7134", "", "OC", "21 48.9", "-12 58"],
+    ["NGC7135", "", "Gx", "21 49.8", "-34 53"],
+    ["NGC7137", "", "Gx", "21 48.2", "+22 10"],
+    ["NGC7138", "", "Gx", "21 49.0", "+12 31"],
+    ["NGC7139", "", "PN", "21 46.1", "+63 47"],
+    ["NGC7140", "", "Gx", "21 52.3", "-55 34"],
+    ["NGC7142", "", "OC", "21 45.2", "+65 46"],
+    ["NGC7144", "", "Gx", "21 52.7", "-48 15"],
+    ["NGC7145", "", "Gx", "21 53.3", "-47 53"],
+    ["NGC7146", "", "Gx", "21 51.8", "+03 01"],
+    ["NGC7147", "", "Gx", "21 52.0", "+03 04"],
+    ["NGC7148", "", "Gx", "21 52.4", "+03 26"],
+    ["NGC7149", "", "Gx", "21 52.2", "+03 18"],
+    ["NGC7151", "", "Gx", "21 55.1", "-50 39"],
+    ["NGC7152", "", "Gx", "21 54.0", "-29 17"],
+    ["NGC7153", "", "Gx", "21 54.6", "-29 04"],
+    ["NGC7154", "", "Gx", "21 55.4", "-34 49"],
+    ["NGC7155", "", "Gx", "21 56.2", "-49 31"],
+    ["NGC7156", "", "Gx", "21 54.6", "+02 57"],
+    ["NGC7157", "", "Gx", "21 56.9", "-25 21"],
+    ["NGC7158", "", "Gx", "21 56.9", "-11 40"],
+    ["NGC7159", "", "Gx", "21 56.4", "+13 34"],
+    ["NGC7160", "Swimming Alligator Cluster", "OC", "21 53.7", "+62 36"],
+    ["NGC7162", "", "Gx", "21 59.7", "-43 18"],
+    ["NGC7163", "", "Gx", "21 59.3", "-31 53"],
+    ["NGC7164", "", "Gx", "21 56.4", "+01 22"],
+    ["NGC7165", "", "Gx", "21 59.4", "-16 31"],
+    ["NGC7166", "", "Gx", "22 00.5", "-43 23"],
+    ["NGC7167", "", "Gx", "22 00.5", "-24 38"],
+    ["NGC7168", "", "Gx", "22 02.1", "-51 45"],
+    ["NGC7169", "", "Gx", "22 02.8", "-47 42"],
+    ["NGC7170", "", "Gx", "22 01.4", "-05 26"],
+    ["NGC7171", "", "Gx", "22 01.0", "-13 16"],
+    ["NGC7172", "", "Gx", "22 02.0", "-31 52"],
+    ["NGC7173", "", "Gx", "22 02.1", "-31 58"],
+    ["NGC7174", "", "Gx", "22 02.1", "-32 00"],
+    ["NGC7176", "", "Gx", "22 02.1", "-31 59"],
+    ["NGC7177", "", "Gx", "22 00.7", "+17 44"],
+    ["NGC7178", "", "Gx", "22 02.4", "-35 47"],
+    ["NGC7179", "", "Gx", "22 04.8", "-64 03"],
+    ["NGC7180", "", "Gx", "22 02.3", "-20 33"],
+    ["NGC7181", "", "Gx", "22 01.7", "-01 58"],
+    ["NGC7182", "", "Gx", "22 01.9", "-02 12"],
+    ["NGC7183", "", "Gx", "22 02.4", "-18 55"],
+    ["NGC7184", "", "Gx", "22 02.7", "-20 49"],
+    ["NGC7185", "", "Gx", "22 02.9", "-20 28"],
+    ["NGC7187", "", "Gx", "22 02.7", "-32 48"],
+    ["NGC7188", "", "Gx", "22 03.5", "-20 19"],
+    ["NGC7189", "", "Gx", "22 03.3", "+00 34"],
+    ["NGC7190", "", "Gx", "22 03.1", "+11 12"],
+    ["NGC7191", "", "Gx", "22 06.9", "-64 38"],
+    ["NGC7192", "", "Gx", "22 06.8", "-64 19"],
+    ["NGC7194", "", "Gx", "22 03.5", "+12 38"],
+    ["NGC7195", "", "Gx", "22 03.5", "+12 40"],
+    ["NGC7196", "", "Gx", "22 05.9", "-50 07"],
+    ["NGC7197", "", "Gx", "22 03.0", "+41 04"],
+    ["NGC7198", "", "Gx", "22 05.2", "-00 39"],
+    ["NGC7199", "", "Gx", "22 08.5", "-64 42"],
+    ["NGC7200", "", "Gx", "22 07.2", "-50 00"],
+    ["NGC7201", "", "Gx", "22 06.5", "-31 16"],
+    ["NGC7203", "", "Gx", "22 06.7", "-31 10"],
+    ["NGC7204", "", "Gx", "22 06.9", "-31 03"],
+    ["NGC7205", "", "Gx", "22 08.6", "-57 27"],
+    ["NGC7206", "", "Gx", "22 05.7", "+16 47"],
+    ["NGC7207", "", "Gx", "22 05.8", "+16 46"],
+    ["NGC7208", "", "Gx", "22 08.4", "-29 03"],
+    ["NGC7209", "Star Lizard Cluster", "OC", "22 05.1", "+46 29"],
+    ["NGC7211", "", "Gx", "22 06.4", "-08 05"],
+    ["NGC7212", "", "Gx", "22 07.0", "+10 14"],
+    ["NGC7213", "", "Gx", "22 09.3", "-47 10"],
+    ["NGC7214", "", "Gx", "22 09.1", "-27 49"],
+    ["NGC7215", "", "Gx", "22 08.5", "+00 30"],
+    ["NGC7216", "", "Gx", "22 12.6", "-68 40"],
+    ["NGC7217", "", "Gx", "22 07.9", "+31 22"],
+    ["NGC7218", "", "Gx", "22 10.2", "-16 40"],
+    ["NGC7219", "", "Gx", "22 13.2", "-64 51"],
+    ["NGC7220", "", "Gx", "22 11.5", "-22 57"],
+    ["NGC7221", "", "Gx", "22 11.3", "-30 34"],
+    ["NGC7222", "", "Gx", "22 10.9", "+02 06"],
+    ["NGC7223", "", "Gx", "22 10.2", "+41 01"],
+    ["NGC7224", "", "Gx", "22 11.6", "+25 52"],
+    ["NGC7225", "", "Gx", "22 13.1", "-26 09"],
+    ["NGC7226", "", "OC", "22 10.4", "+55 24"],
+    ["NGC7227", "", "Gx", "22 11.5", "+38 43"],
+    ["NGC7228", "", "Gx", "22 11.8", "+38 42"],
+    ["NGC7229", "", "Gx", "22 14.1", "-29 23"],
+    ["NGC7230", "", "Gx", "22 14.2", "-17 04"],
+    ["NGC7231", "", "Gx", "22 12.5", "+45 20"],
+    ["NGC7232", "", "Gx", "22 15.6", "-45 51"],
+    ["NGC7233", "", "Gx", "22 15.8", "-45 51"],
+    ["NGC7235", "", "OC", "22 12.4", "+57 16"],
+    ["NGC7236", "", "Gx", "22 14.8", "+13 51"],
+    ["NGC7237", "", "Gx", "22 14.8", "+13 50"],
+    ["NGC7239", "", "Gx", "22 15.0", "-05 03"],
+    ["NGC7240", "", "Gx", "22 15.4", "+37 17"],
+    ["NGC7241", "", "Gx", "22 15.8", "+19 14"],
+    ["NGC7242", "", "Gx", "22 15.7", "+37 18"],
+    ["NGC7243", "", "OC", "22 15.1", "+49 54"],
+    ["NGC7244", "", "Gx", "22 16.4", "+16 28"],
+    ["NGC7245", "", "OC", "22 15.2", "+54 20"],
+    ["NGC7246", "", "Gx", "22 17.7", "-15 34"],
+    ["NGC7247", "", "Gx", "22 17.7", "-23 44"],
+    ["NGC7248", "", "Gx", "22 16.9", "+40 30"],
+    ["NGC7249", "", "Gx", "22 20.5", "-55 07"],
+    ["NGC7250", "", "Gx", "22 18.3", "+40 34"],
+    ["NGC7251", "", "Gx", "22 20.5", "-15 46"],
+    ["NGC7252", "Atoms for Peace Galaxy", "Gx", "22 20.7", "-24 41"],
+    ["NGC7253", "", "Gx", "22 19.5", "+29 23"],
+    ["NGC7254", "", "Gx", "22 22.6", "-21 44"],
+    ["NGC7255", "", "Gx", "22 23.1", "-15 32"],
+    ["NGC7258", "", "Gx", "22 23.0", "-28 21"],
+    ["NGC7259", "", "Gx", "22 23.1", "-28 57"],
+    ["NGC7260", "", "Gx", "22 22.6", "-04 07"],
+    ["NGC7261", "", "OC", "22 20.1", "+58 08"],
+    ["NGC7262", "", "Gx", "22 23.5", "-32 22"],
+    ["NGC7263", "", "Gx", "22 21.8", "+36 21"],
+    ["NGC7264", "", "Gx", "22 22.2", "+36 23"],
+    ["NGC7265", "", "Gx", "22 22.5", "+36 13"],
+    ["NGC7266", "", "Gx", "22 24.0", "-04 04"],
+    ["NGC7267", "", "Gx", "22 24.4", "-33 42"],
+    ["NGC7268", "", "Gx", "22 25.7", "-31 12"],
+    ["NGC7269", "", "Gx", "22 25.8", "-13 10"],
+    ["NGC7270", "", "Gx", "22 23.8", "+32 24"],
+    ["NGC7271", "", "Gx", "22 24.0", "+32 22"],
+    ["NGC7272", "", "Gx", "22 24.5", "+16 35"],
+    ["NGC7273", "", "Gx", "22 24.2", "+36 12"],
+    ["NGC7274", "", "Gx", "22 24.2", "+36 08"],
+    ["NGC7275", "", "Gx", "22 24.3", "+32 27"],
+    ["NGC7276", "", "Gx", "22 24.2", "+36 05"],
+    ["NGC7277", "", "Gx", "22 26.2", "-31 09"],
+    ["NGC7278", "", "Gx", "22 28.4", "-60 10"],
+    ["NGC7279", "", "Gx", "22 27.2", "-35 08"],
+    ["NGC7280", "", "Gx", "22 26.5", "+16 09"],
+    ["NGC7282", "", "Gx", "22 25.9", "+40 19"],
+    ["NGC7283", "", "Gx", "22 28.5", "+17 28"],
+    ["NGC7284", "", "Gx", "22 28.6", "-24 51"],
+    ["NGC7285", "", "Gx", "22 28.6", "-24 50"],
+    ["NGC7286", "", "Gx", "22 27.8", "+29 06"],
+    ["NGC7287", "", "Gx", "22 28.8", "-22 12"],
+    ["NGC7288", "", "Gx", "22 28.2", "-02 53"],
+    ["NGC7289", "", "Gx", "22 29.3", "-35 28"],
+    ["NGC7290", "", "Gx", "22 28.4", "+17 09"],
+    ["NGC7291", "", "Gx", "22 28.5", "+16 47"],
+    ["NGC7292", "", "Gx", "22 28.4", "+30 17"],
+    ["NGC7294", "", "Gx", "22 32.1", "-25 24"],
+    ["NGC7296", "", "OC", "22 28.0", "+52 19"],
+    ["NGC7297", "", "Gx", "22 31.2", "-37 50"],
+    ["NGC7298", "", "Gx", "22 30.8", "-14 11"],
+    ["NGC7299", "", "Gx", "22 31.6", "-37 49"],
+    ["NGC7300", "", "Gx", "22 31.0", "-14 00"],
+    ["NGC7301", "", "Gx", "22 30.6", "-17 34"],
+    ["NGC7302", "", "Gx", "22 32.4", "-14 07"],
+    ["NGC7303", "", "Gx", "22 31.5", "+30 57"],
+    ["NGC7305", "", "Gx", "22 32.2", "+11 43"],
+    ["NGC7306", "", "Gx", "22 33.3", "-27 15"],
+    ["NGC7307", "", "Gx", "22 33.9", "-40 56"],
+    ["NGC7308", "", "Gx", "22 34.5", "-12 56"],
+    ["NGC7309", "", "Gx", "22 34.3", "-10 21"],
+    ["NGC7310", "", "Gx", "22 34.6", "-22 29"],
+    ["NGC7311", "", "Gx", "22 34.1", "+05 34"],
+    ["NGC7312", "", "Gx", "22 34.6", "+05 49"],
+    ["NGC7313", "", "Gx", "22 35.5", "-26 06"],
+    ["NGC7314", "", "Gx", "22 35.8", "-26 03"],
+    ["NGC7315", "", "Gx", "22 35.5", "+34 48"],
+    ["NGC7316", "", "Gx", "22 35.9", "+20 19"],
+    ["NGC7317", "Stephan's Quintet", "Gx", "22 35.9", "+33 57"],
+    ["NGC7318", "Stephan's Quintet", "Gx", "22 36.0", "+33 58"],
+    ["NGC7319", "Stephan's Quintet", "Gx", "22 36.1", "+33 59"],
+    ["NGC7320", "Stephan's Quintet", "Gx", "22 36.1", "+33 57"],
+    ["NGC7322", "", "Gx", "22 37.9", "-37 14"],
+    ["NGC7323", "", "Gx", "22 36.9", "+19 09"],
+    ["NGC7324", "", "Gx", "22 37.0", "+19 09"],
+    ["NGC7325", "", "Gx", "22 36.6", "+34 30"],
+    ["NGC7326", "", "Gx", "22 36.4", "+34 33"],
+    ["NGC7328", "", "Gx", "22 37.5", "+10 32"],
+    ["NGC7329", "", "Gx", "22 40.4", "-66 29"],
+    ["NGC7330", "", "Gx", "22 36.9", "+38 33"],
+    ["NGC7332", "", "Gx", "22 37.4", "+23 48"],
+    ["NGC7335", "", "Gx", "22 37.3", "+34 27"],
+    ["NGC7336", "", "Gx", "22 37.4", "+34 29"],
+    ["NGC7337", "", "Gx", "22 37.4", "+34 22"],
+    ["NGC7339", "", "Gx", "22 37.8", "+23 47"],
+    ["NGC7340", "", "Gx", "22 37.7", "+34 25"],
+    ["NGC7341", "", "Gx", "22 39.1", "-22 40"],
+    ["NGC7342", "", "Gx", "22 38.2", "+35 30"],
+    ["NGC7343", "", "Gx", "22 38.6", "+34 04"],
+    ["NGC7344", "", "Gx", "22 39.6", "-04 10"],
+    ["NGC7345", "", "Gx", "22 38.7", "+35 32"],
+    ["NGC7346", "", "Gx", "22 39.6", "+11 05"],
+    ["NGC7347", "", "Gx", "22 39.9", "+11 02"],
+    ["NGC7348", "", "Gx", "22 40.6", "+11 54"],
+    ["NGC7349", "", "Gx", "22 41.2", "-21 48"],
+    ["NGC7351", "", "Gx", "22 41.4", "-04 27"],
+    ["NGC7353", "", "Gx", "22 39.6", "+11 46"],
+    ["NGC7354", "", "PN", "22 40.3", "+61 17"],
+    ["NGC7355", "", "Gx", "22 43.5", "-36 52"],
+    ["NGC7356", "", "Gx", "22 42.0", "+30 43"],
+    ["NGC7357", "", "Gx", "22 42.4", "+30 10"],
+    ["NGC7358", "", "Gx", "22 45.6", "-65 07"],
+    ["NGC7359", "", "Gx", "22 44.8", "-23 41"],
+    ["NGC7360", "", "Gx", "22 43.6", "+04 09"],
+    ["NGC7361", "", "Gx", "22 42.3", "-30 03"],
+    ["NGC7362", "", "Gx", "22 43.8", "+08 42"],
+    ["NGC7363", "", "Gx", "22 43.3", "+34 00"],
+    ["NGC7364", "", "Gx", "22 44.4", "-00 10"],
+    ["NGC7365", "", "Gx", "22 45.2", "-19 57"],
+    ["NGC7366", "", "Gx", "22 44.4", "+10 47"],
+    ["NGC7367", "", "Gx", "22 44.6", "+03 39"],
+    ["NGC7368", "", "Gx", "22 45.5", "-39 21"],
+    ["NGC7369", "", "Gx", "22 44.2", "+34 21"],
+    ["NGC7370", "", "Gx", "22 45.6", "+11 03"],
+    ["NGC7371", "", "Gx", "22 46.1", "-11 00"],
+    ["NGC7372", "", "Gx", "22 45.8", "+11 08"],
+    ["NGC7373", "", "Gx", "22 46.3", "+03 13"],
+    ["NGC7374", "", "Gx", "22 46.0", "+10 51"],
+    ["NGC7375", "", "Gx", "22 46.5", "+21 05"],
+    ["NGC7376", "", "Gx", "22 47.3", "+03 39"],
+    ["NGC7377", "", "Gx", "22 47.8", "-22 19"],
+    ["NGC7378", "", "Gx", "22 47.8", "-11 49"],
+    ["NGC7379", "", "Gx", "22 47.5", "+40 14"],
+    ["NGC7381", "", "Gx", "22 50.1", "-19 44"],
+    ["NGC7382", "", "Gx", "22 50.4", "-36 51"],
+    ["NGC7383", "", "Gx", "22 49.6", "+11 33"],
+    ["NGC7384", "", "Gx", "22 49.8", "+11 33"],
+    ["NGC7385", "NGC 7385 group", "Gx", "22 49.9", "+11 37"],
+    ["NGC7386", "", "Gx", "22 50.0", "+11 42"],
+    ["NGC7387", "", "Gx", "22 50.3", "+11 38"],
+    ["NGC7388", "", "Gx", "22 50.3", "+11 44"],
+    ["NGC7389", "", "Gx", "22 50.3", "+11 34"],
+    ["NGC7390", "", "Gx", "22 50.3", "+11 32"],
+    ["NGC7391", "", "Gx", "22 50.6", "-01 33"],
+    ["NGC7392", "", "Gx", "22 51.8", "-20 36"],
+    ["NGC7393", "", "Gx", "22 51.6", "-05 33"],
+    ["NGC7395", "", "Gx", "22 51.0", "+37 05"],
+    ["NGC7396", "", "Gx", "22 52.4", "+01 06"],
+    ["NGC7397", "", "Gx", "22 52.8", "+01 08"],
+    ["NGC7398", "", "Gx", "22 52.8", "+01 12"],
+    ["NGC7399", "", "Gx", "22 52.7", "-09 16"],
+    ["NGC7400", "", "Gx", "22 54.3", "-45 21"],
+    ["NGC7401", "", "Gx", "22 53.0", "+01 09"],
+    ["NGC7402", "", "Gx", "22 53.1", "+01 09"],
+    ["NGC7404", "", "Gx", "22 54.3", "-39 19"],
+    ["NGC7405", "", "Gx", "22 53.0", "+12 36"],
+    ["NGC7406", "", "Gx", "22 53.9", "-06 35"],
+    ["NGC7407", "", "Gx", "22 53.4", "+32 08"],
+    ["NGC7408", "", "Gx", "22 55.9", "-63 42"],
+    ["NGC7409", "", "Gx", "22 53.8", "+20 13"],
+    ["NGC7410", "", "Gx", "22 55.0", "-39 40"],
+    ["NGC7411", "", "Gx", "22 54.6", "+20 14"],
+    ["NGC7412", "", "Gx", "22 55.8", "-42 39"],
+    ["NGC7413", "", "Gx", "22 55.1", "+13 13"],
+    ["NGC7414", "", "Gx", "22 55.4", "+13 15"],
+    ["NGC7415", "", "Gx", "22 54.9", "+20 16"],
+    ["NGC7416", "", "Gx", "22 55.7", "-05 30"],
+    ["NGC7417", "", "Gx", "22 57.8", "-65 02"],
+    ["NGC7418", "", "Gx", "22 56.6", "-37 02"],
+    ["NGC7419", "", "OC", "22 54.3", "+60 49"],
+    ["NGC7420", "", "Gx", "22 55.5", "+29 48"],
+    ["NGC7421", "", "Gx", "22 56.9", "-37 21"],
+    ["NGC7422", "", "Gx", "22 56.2", "+03 56"],
+    ["NGC7424", "Grand Design Galaxy", "Gx", "22 57.3", "-41 04"],
+    ["NGC7425", "", "Gx", "22 57.3", "-10 57"],
+    ["NGC7426", "", "Gx", "22 56.0", "+36 22"],
+    ["NGC7427", "", "Gx", "22 57.2", "+08 30"],
+    ["NGC7428", "", "Gx", "22 57.3", "-01 03"],
+    ["NGC7430", "", "Gx", "22 57.5", "+08 48"],
+    ["NGC7431", "", "Gx", "22 57.7", "+26 10"],
+    ["NGC7432", "", "Gx", "22 58.0", "+13 08"],
+    ["NGC7433", "", "Gx", "22 57.9", "+26 10"],
+    ["NGC7434", "", "Gx", "22 58.4", "-01 11"],
+    ["NGC7435", "", "Gx", "22 57.9", "+26 08"],
+    ["NGC7436", "", "Gx", "22 58.0", "+26 09"],
+    ["NGC7437", "", "Gx", "22 58.2", "+14 19"],
+    ["NGC7439", "", "Gx", "22 58.2", "+29 14"],
+    ["NGC7440", "", "Gx", "22 58.5", "+35 48"],
+    ["NGC7441", "", "Gx", "22 59.5", "-07 03"],
+    ["NGC7442", "", "Gx", "22 59.4", "+15 33"],
+    ["NGC7443", "", "Gx", "23 00.1", "-12 48"],
+    ["NGC7444", "", "Gx", "23 00.1", "-12 50"],
+    ["NGC7445", "", "Gx", "22 59.4", "+39 06"],
+    ["NGC7446", "", "Gx", "22 59.5", "+39 05"],
+    ["NGC7448", "", "Gx", "23 00.1", "+15 59"],
+    ["NGC7449", "", "Gx", "22 59.6", "+39 09"],
+    ["NGC7450", "", "Gx", "23 00.8", "-12 55"],
+    ["NGC7451", "", "Gx", "23 00.7", "+08 28"],
+    ["NGC7452", "", "Gx", "23 01.0", "+06 45"],
+    ["NGC7454", "", "Gx", "23 01.1", "+16 23"],
+    ["NGC7455", "", "Gx", "23 00.7", "+07 18"],
+    ["NGC7456", "", "Gx", "23 02.2", "-39 34"],
+    ["NGC7457", "", "Gx", "23 01.0", "+30 09"],
+    ["NGC7458", "", "Gx", "23 01.5", "+01 45"],
+    ["NGC7460", "", "Gx", "23 01.7", "+02 16"],
+    ["NGC7461", "", "Gx", "23 01.8", "+15 35"],
+    ["NGC7462", "", "Gx", "23 02.8", "-40 50"],
+    ["NGC7463", "", "Gx", "23 01.9", "+15 59"],
+    ["NGC7464", "", "Gx", "23 01.9", "+15 58"],
+    ["NGC7465", "", "Gx", "23 02.0", "+15 58"],
+    ["NGC7466", "", "Gx", "23 02.1", "+27 03"],
+    ["NGC7467", "", "Gx", "23 02.5", "+15 33"],
+    ["NGC7468", "", "Gx", "23 03.0", "+16 36"],
+    ["NGC7469", "", "Gx", "23 03.3", "+08 52"],
+    ["NGC7470", "", "Gx", "23 05.2", "-50 07"],
+    ["NGC7473", "", "Gx", "23 04.0", "+30 10"],
+    ["NGC7474", "", "Gx", "23 04.1", "+20 04"],
+    ["NGC7475", "", "Gx", "23 04.2", "+20 05"],
+    ["NGC7476", "", "Gx", "23 05.2", "-43 06"],
+    ["NGC7478", "", "Gx", "23 04.9", "+02 35"],
+    ["NGC7479", "Superman Galaxy", "Gx", "23 04.9", "+12 19"],
+    ["NGC7480", "", "Gx", "23 05.2", "+02 33"],
+    ["NGC7481", "", "Gx", "23 06.2", "-19 49"],
+    ["NGC7482", "", "Gx", "23 05.6", "+03 04"],
+    ["NGC7483", "", "Gx", "23 05.8", "+03 33"],
+    ["NGC7484", "", "Gx", "23 07.1", "-36 17"],
+    ["NGC7485", "", "Gx", "23 06.1", "+34 06"],
+    ["NGC7486", "", "Gx", "23 06.2", "+34 05"],
+    ["NGC7487", "", "Gx", "23 06.8", "+28 11"],
+    ["NGC7488", "", "Gx", "23 07.8", "+00 56"],
+    ["NGC7489", "", "Gx", "23 07.5", "+23 00"],
+    ["NGC7490", "", "Gx", "23 07.4", "+32 23"],
+    ["NGC7491", "", "Gx", "23 08.1", "-05 58"],
+    ["NGC7492", "", "GC", "23 08.4", "-15 37"],
+    ["NGC7494", "", "Gx", "23 09.0", "-24 22"],
+    ["NGC7495", "", "Gx", "23 09.0", "+12 03"],
+    ["NGC7496", "", "Gx", "23 09.8", "-43 26"],
+    ["NGC7497", "", "Gx", "23 09.1", "+18 11"],
+    ["NGC7498", "", "Gx", "23 09.9", "-24 26"],
+    ["NGC7499", "", "Gx", "23 10.4", "+07 35"],
+    ["NGC7500", "", "Gx", "23 10.5", "+11 01"],
+    ["NGC7501", "", "Gx", "23 10.5", "+07 35"],
+    ["NGC7503", "", "Gx", "23 10.7", "+07 34"],
+    ["NGC7505", "", "Gx", "23 11.0", "+13 38"],
+    ["NGC7506", "", "Gx", "23 11.7", "-02 10"],
+    ["NGC7507", "", "Gx", "23 12.1", "-28 32"],
+    ["NGC7508", "", "Gx", "23 11.8", "+12 56"],
+    ["NGC7509", "", "Gx", "23 12.4", "+14 37"],
+    ["NGC7510", "The Dormouse Cluster", "OC", "23 11.0", "+60 34"],
+    ["NGC7511", "", "Gx", "23 12.4", "+13 44"],
+    ["NGC7512", "", "Gx", "23 12.3", "+31 08"],
+    ["NGC7513", "", "Gx", "23 13.2", "-28 21"],
+    ["NGC7514", "", "Gx", "23 12.4", "+34 53"],
+    ["NGC7515", "", "Gx", "23 12.8", "+12 41"],
+    ["NGC7516", "", "Gx", "23 12.9", "+20 15"],
+    ["NGC7517", "", "Gx", "23 13.2", "-02 06"],
+    ["NGC7518", "", "Gx", "23 13.2", "+06 19"],
+    ["NGC7519", "", "Gx", "23 13.2", "+10 46"],
+    ["NGC7521", "", "Gx", "23 13.6", "-01 44"],
+    ["NGC7523", "", "Gx", "23 13.6", "+13 59"],
+    ["NGC7524", "", "Gx", "23 13.8", "-01 44"],
+    ["NGC7525", "", "Gx", "23 13.7", "+14 01"],
+    ["NGC7527", "", "Gx", "23 13.7", "+24 54"],
+    ["NGC7528", "", "Gx", "23 14.3", "+10 14"],
+    ["NGC7529", "", "Gx", "23 14.1", "+09 00"],
+    ["NGC7530", "", "Gx", "23 14.2", "-02 47"],
+    ["NGC7531", "", "Gx", "23 14.8", "-43 36"],
+    ["NGC7532", "", "Gx", "23 14.4", "-02 44"],
+    ["NGC7533", "", "Gx", "23 14.3", "-02 02"],
+    ["NGC7534", "", "Gx", "23 14.4", "-02 42"],
+    ["NGC7535", "", "Gx", "23 14.2", "+13 35"],
+    ["NGC7536", "", "Gx", "23 14.2", "+13 26"],
+    ["NGC7537", "", "Gx", "23 14.6", "+04 30"],
+    ["NGC7538", "Northern Lagoon Nebula", "EN", "23 13.6", "+61 30"],
+    ["NGC7539", "", "Gx", "23 14.5", "+23 41"],
+    ["NGC7541", "", "Gx", "23 14.7", "+04 32"],
+    ["NGC7542", "", "Gx", "23 14.7", "+10 39"],
+    ["NGC7543", "", "Gx", "23 14.6", "+28 20"],
+    ["NGC7544", "", "Gx", "23 14.9", "-02 12"],
+    ["NGC7545", "", "Gx", "23 15.5", "-38 32"],
+    ["NGC7546", "", "Gx", "23 15.1", "-02 19"],
+    ["NGC7547", "", "Gx", "23 15.1", "+18 58"],
+    ["NGC7548", "", "Gx", "23 15.2", "+25 17"],
+    ["NGC7549", "", "Gx", "23 15.3", "+19 02"],
+    ["NGC7550", "", "Gx", "23 15.3", "+18 58"],
+    ["NGC7551", "", "Gx", "23 14.6", "+15 57"],
+    ["NGC7552", "Grus Quartet", "Gx", "23 16.2", "-42 35"],
+    ["NGC7553", "", "Gx", "23 15.6", "+19 03"],
+    ["NGC7554", "", "Gx", "23 15.7", "-02 23"],
+    ["NGC7556", "", "Gx", "23 15.7", "-02 23"],
+    ["NGC7557", "", "Gx", "23 15.7", "+06 43"],
+    ["NGC7558", "", "Gx", "23 15.6", "+18 55"],
+    ["NGC7559", "", "Gx", "23 15.8", "+13 17"],
+    ["NGC7562", "", "Gx", "23 16.0", "+06 39"],
+    ["NGC7563", "", "Gx", "23 15.9", "+13 12"],
+    ["NGC7564", "", "Gx", "23 15.6", "+07 19"],
+    ["NGC7566", "", "Gx", "23 16.6", "-02 20"],
+    ["NGC7567", "", "Gx", "23 16.2", "+15 51"],
+    ["NGC7568", "", "Gx", "23 16.4", "+24 30"],
+    ["NGC7569", "", "Gx", "23 16.7", "+08 54"],
+    ["NGC7570", "", "Gx", "23 16.7", "+13 29"],
+    ["NGC7572", "", "Gx", "23 16.8", "+18 29"],
+    ["NGC7573", "", "Gx", "23 16.4", "-22 09"],
+    ["NGC7576", "", "Gx", "23 17.4", "-04 44"],
+    ["NGC7577", "", "Gx", "23 17.3", "+07 22"],
+    ["NGC7578", "", "Gx", "23 17.2", "+18 42"],
+    ["NGC7579", "", "Gx", "23 17.7", "+09 25"],
+    ["NGC7580", "", "Gx", "23 17.6", "+14 00"],
+    ["NGC7582", "Grus Quartet", "Gx", "23 18.4", "-42 22"],
+    ["NGC7583", "", "Gx", "23 17.9", "+07 23"],
+    ["NGC7584", "", "Gx", "23 17.9", "+09 26"],
+    ["NGC7585", "", "Gx", "23 18.0", "-04 39"],
+    ["NGC7586", "", "Gx", "23 17.6", "+08 15"],
+    ["NGC7587", "", "Gx", "23 18.0", "+09 41"],
+    ["NGC7588", "", "Gx", "23 18.0", "+18 45"],
+    ["NGC7589", "", "Gx", "23 18.3", "+00 16"],
+    ["NGC7590", "Grus Quartet", "Gx", "23 18.9", "-42 14"],
+    ["NGC7591", "", "Gx", "23 18.3", "+06 35"],
+    ["NGC7593", "", "Gx", "23 17.9", "+11 21"],
+    ["NGC7594", "", "Gx", "23 18.2", "+10 18"],
+    ["NGC7595", "", "Gx", "23 18.5", "+09 56"],
+    ["NGC7596", "", "Gx", "23 17.2", "-06 55"],
+    ["NGC7597", "", "Gx", "23 18.5", "+18 41"],
+    ["NGC7598", "", "Gx", "23 18.6", "+18 45"],
+    ["NGC7599", "Grus Quartet", "Gx", "23 19.4", "-42 15"],
+    ["NGC7600", "", "Gx", "23 18.9", "-07 35"],
+    ["NGC7601", "", "Gx", "23 18.8", "+09 14"],
+    ["NGC7602", "", "Gx", "23 18.7", "+18 42"],
+    ["NGC7603", "", "Gx", "23 18.9", "+00 15"],
+    ["NGC7604", "", "Gx", "23 17.9", "+07 26"],
+    ["NGC7606", "", "Gx", "23 19.1", "-08 29"],
+    ["NGC7608", "", "Gx", "23 19.3", "+08 21"],
+    ["NGC7609", "", "Gx", "23 19.5", "+09 30"],
+    ["NGC7610", "", "Gx", "23 19.7", "+10 11"],
+    ["NGC7611", "", "Gx", "23 19.6", "+08 04"],
+    ["NGC7612", "", "Gx", "23 19.7", "+08 35"],
+    ["NGC7613", "", "Gx", "23 19.9", "+00 25"],
+    ["NGC7615", "", "Gx", "23 19.9", "+08 24"],
+    ["NGC7616", "", "Gx", "23 19.5", "+10 09"],
+    ["NGC7617", "", "Gx", "23 20.1", "+08 10"],
+    ["NGC7618", "", "Gx", "23 19.8", "+42 51"],
+    ["NGC7619", "", "Gx", "23 20.2", "+08 12"],
+    ["NGC7620", "", "Gx", "23 20.1", "+24 13"],
+    ["NGC7621", "", "Gx", "23 20.4", "+08 22"],
+    ["NGC7622", "", "Gx", "23 21.6", "-62 07"],
+    ["NGC7623", "", "Gx", "23 20.5", "+08 24"],
+    ["NGC7624", "", "Gx", "23 20.4", "+27 19"],
+    ["NGC7625", "", "Gx", "23 20.5", "+17 14"],
+    ["NGC7626", "", "Gx", "23 20.7", "+08 13"],
+    ["NGC7628", "", "Gx", "23 20.9", "+25 54"],
+    ["NGC7629", "", "Gx", "23 21.3", "+01 24"],
+    ["NGC7630", "", "Gx", "23 21.3", "+11 24"],
+    ["NGC7631", "", "Gx", "23 21.4", "+08 13"],
+    ["NGC7632", "", "Gx", "23 22.0", "-42 29"],
+    ["NGC7633", "", "Gx", "23 23.1", "-67 39"],
+    ["NGC7634", "", "Gx", "23 21.7", "+08 53"],
+    ["NGC7636", "", "Gx", "23 22.5", "-29 17"],
+    ["NGC7637", "", "Gx", "23 26.5", "-81 55"],
+    ["NGC7638", "", "Gx", "23 22.6", "+11 20"],
+    ["NGC7640", "", "Gx", "23 22.1", "+40 51"],
+    ["NGC7641", "", "Gx", "23 22.5", "+11 54"],
+    ["NGC7642", "", "Gx", "23 22.9", "+01 27"],
+    ["NGC7643", "", "Gx", "23 22.8", "+11 59"],
+    ["NGC7645", "", "Gx", "23 23.8", "-29 23"],
+    ["NGC7646", "", "Gx", "23 24.1", "-11 52"],
+    ["NGC7647", "", "Gx", "23 24.0", "+16 47"],
+    ["NGC7648", "", "Gx", "23 23.9", "+09 40"],
+    ["NGC7649", "", "Gx", "23 24.3", "+14 39"],
+    ["NGC7650", "", "Gx", "23 25.4", "-57 47"],
+    ["NGC7651", "", "Gx", "23 24.4", "+13 58"],
+    ["NGC7652", "", "Gx", "23 25.6", "-57 53"],
+    ["NGC7653", "", "Gx", "23 24.8", "+15 17"],
+    ["NGC7655", "", "Gx", "23 26.8", "-68 02"],
+    ["NGC7656", "", "Gx", "23 24.5", "-19 04"],
+    ["NGC7657", "", "Gx", "23 26.8", "-57 48"],
+    ["NGC7658", "", "Gx", "23 26.4", "-39 13"],
+    ["NGC7659", "", "Gx", "23 25.9", "+14 13"],
+    ["NGC7660", "", "Gx", "23 25.8", "+27 02"],
+    ["NGC7661", "", "Gx", "23 27.2", "-65 16"],
+    ["NGC7664", "", "Gx", "23 26.7", "+25 05"],
+    ["NGC7665", "", "Gx", "23 27.2", "-09 23"],
+    ["NGC7667", "", "Gx", "23 24.4", "-00 07"],
+    ["NGC7671", "", "Gx", "23 27.3", "+12 28"],
+    ["NGC7672", "", "Gx", "23 27.5", "+12 23"],
+    ["NGC7673", "", "Gx", "23 27.7", "+23 35"],
+    ["NGC7674", "", "Gx", "23 27.9", "+08 47"],
+    ["NGC7675", "", "Gx", "23 28.1", "+08 46"],
+    ["NGC7676", "", "Gx", "23 29.0", "-59 43"],
+    ["NGC7677", "", "Gx", "23 28.1", "+23 32"],
+    ["NGC7678", "", "Gx", "23 28.5", "+22 25"],
+    ["NGC7679", "", "Gx", "23 28.8", "+03 31"],
+    ["NGC7680", "", "Gx", "23 28.6", "+32 25"],
+    ["NGC7681", "", "Gx", "23 28.9", "+17 19"],
+    ["NGC7682", "", "Gx", "23 29.1", "+03 32"],
+    ["NGC7683", "", "Gx", "23 29.1", "+11 27"],
+    ["NGC7684", "", "Gx", "23 30.5", "+00 05"],
+    ["NGC7685", "", "Gx", "23 30.6", "+03 54"],
+    ["NGC7686", "", "OC", "23 29.7", "+49 10"],
+    ["NGC7687", "", "Gx", "23 30.9", "+03 33"],
+    ["NGC7688", "", "Gx", "23 31.1", "+21 25"],
+    ["NGC7689", "", "Gx", "23 33.3", "-54 06"],
+    ["NGC7690", "", "Gx", "23 33.0", "-51 42"],
+    ["NGC7691", "", "Gx", "23 32.4", "+15 51"],
+    ["NGC7692", "", "Gx", "23 32.8", "-05 36"],
+    ["NGC7693", "", "Gx", "23 33.2", "-01 18"],
+    ["NGC7694", "", "Gx", "23 33.3", "-02 42"],
+    ["NGC7695", "", "Gx", "23 33.3", "-02 43"],
+    ["NGC7696", "", "Gx", "23 33.8", "+04 52"],
+    ["NGC7697", "", "Gx", "23 34.9", "-65 24"],
+    ["NGC7698", "", "Gx", "23 34.0", "+24 57"],
+    ["NGC7700", "", "Gx", "23 34.5", "-02 57"],
+    ["NGC7701", "", "Gx", "23 34.5", "-02 51"],
+    ["NGC7702", "", "Gx", "23 35.5", "-56 01"],
+    ["NGC7703", "", "Gx", "23 34.8", "+16 05"],
+    ["NGC7704", "", "Gx", "23 35.0", "+04 54"],
+    ["NGC7705", "", "Gx", "23 35.0", "+04 48"],
+    ["NGC7706", "", "Gx", "23 35.2", "+04 58"],
+    ["NGC7707", "", "Gx", "23 34.9", "+44 18"],
+    ["NGC7709", "", "Gx", "23 35.5", "-16 42"],
+    ["NGC7710", "", "Gx", "23 35.8", "-02 53"],
+    ["NGC7711", "", "Gx", "23 35.7", "+15 18"],
+    ["NGC7712", "", "Gx", "23 35.9", "+23 37"],
+    ["NGC7713", "", "Gx", "23 36.3", "-37 56"],
+    ["NGC7714", "", "Gx", "23 36.2", "+02 09"],
+    ["NGC7715", "", "Gx", "23 36.4", "+02 09"],
+    ["NGC7716", "", "Gx", "23 36.5", "+00 18"],
+    ["NGC7717", "", "Gx", "23 37.7", "-15 07"],
+    ["NGC7718", "", "Gx", "23 38.1", "+25 43"],
+    ["NGC7719", "", "Gx", "23 38.0", "-22 58"],
+    ["NGC7720", "", "Gx", "23 38.5", "+27 02"],
+    ["NGC7721", "", "Gx", "23 38.8", "-06 31"],
+    ["NGC7722", "", "Gx", "23 38.7", "+15 57"],
+    ["NGC7723", "", "Gx", "23 39.0", "-12 58"],
+    ["NGC7724", "", "Gx", "23 39.1", "-12 13"],
+    ["NGC7725", "", "Gx", "23 39.2", "-04 32"],
+    ["NGC7726", "", "Gx", "23 39.2", "+27 07"],
+    ["NGC7727", "", "Gx", "23 39.9", "-12 18"],
+    ["NGC7728", "", "Gx", "23 40.0", "+27 08"],
+    ["NGC7729", "", "Gx", "23 40.6", "+29 11"],
+    ["NGC7730", "", "Gx", "23 40.8", "-20 31"],
+    ["NGC7731", "", "Gx", "23 41.5", "+03 44"],
+    ["NGC7732", "", "Gx", "23 41.6", "+03 43"],
+    ["NGC7733", "", "Gx", "23 42.5", "-65 57"],
+    ["NGC7734", "", "Gx", "23 42.7", "-65 57"],
+    ["NGC7735", "", "Gx", "23 42.3", "+26 14"],
+    ["NGC7736", "", "Gx", "23 42.4", "-19 27"],
+    ["NGC7737", "", "Gx", "23 42.8", "+27 03"],
+    ["NGC7738", "", "Gx", "23 44.0", "+00 31"],
+    ["NGC7740", "", "Gx", "23 43.3", "+27 22"],
+    ["NGC7741", "", "Gx", "23 43.9", "+26 05"],
+    ["NGC7742", "Fried-egg Galaxy", "Gx", "23 44.3", "+10 46"],
+    ["NGC7743", "", "Gx", "23 44.4", "+09 56"],
+    ["NGC7744", "", "Gx", "23 45.0", "-42 55"],
+    ["NGC7745", "", "Gx", "23 44.8", "+25 55"],
+    ["NGC7746", "", "Gx", "23 45.3", "-01 41"],
+    ["NGC7747", "", "Gx", "23 45.5", "+27 22"],
+    ["NGC7749", "", "Gx", "23 45.8", "-29 31"],
+    ["NGC7750", "", "Gx", "23 46.6", "+03 48"],
+    ["NGC7751", "", "Gx", "23 47.0", "+06 52"],
+    ["NGC7752", "", "Gx", "23 47.0", "+29 28"],
+    ["NGC7753", "", "Gx", "23 47.1", "+29 29"],
+    ["NGC7754", "", "Gx", "23 49.2", "-16 36"],
+    ["NGC7755", "", "Gx", "23 47.9", "-30 31"],
+    ["NGC7756", "", "Gx", "23 48.8", "+04 10"],
+    ["NGC7758", "", "Gx", "23 48.9", "-22 01"],
+    ["NGC7759", "", "Gx", "23 48.9", "-16 32"],
+    ["NGC7760", "", "Gx", "23 49.2", "+30 59"],
+    ["NGC7761", "", "Gx", "23 51.5", "-13 23"],
+    ["NGC7762", "", "OC", "23 49.9", "+68 02"],
+    ["NGC7764", "", "Gx", "23 50.9", "-40 44"],
+    ["NGC7765", "", "Gx", "23 50.9", "+27 10"],
+    ["NGC7766", "", "Gx", "23 50.9", "+27 08"],
+    ["NGC7767", "", "Gx", "23 50.9", "+27 05"],
+    ["NGC7768", "", "Gx", "23 51.0", "+27 09"],
+    ["NGC7769", "", "Gx", "23 51.1", "+20 09"],
+    ["NGC7770", "", "Gx", "23 51.4", "+20 06"],
+    ["NGC7771", "", "Gx", "23 51.4", "+20 07"],
+    ["NGC7773", "", "Gx", "23 52.2", "+31 17"],
+    ["NGC7774", "", "Gx", "23 52.2", "+11 28"],
+    ["NGC7775", "", "Gx", "23 52.4", "+28 46"],
+    ["NGC7776", "", "Gx", "23 54.3", "-13 35"],
+    ["NGC7777", "", "Gx", "23 53.2", "+28 17"],
+    ["NGC7778", "", "Gx", "23 53.3", "+07 52"],
+    ["NGC7779", "", "Gx", "23 53.4", "+07 53"],
+    ["NGC7780", "", "Gx", "23 53.5", "+08 07"],
+    ["NGC7781", "", "Gx", "23 53.8", "+07 52"],
+    ["NGC7782", "", "Gx", "23 53.9", "+07 58"],
+    ["NGC7783", "", "Gx", "23 54.2", "+00 23"],
+    ["NGC7784", "", "Gx", "23 55.2", "+21 46"],
+    ["NGC7785", "", "Gx", "23 55.3", "+05 55"],
+    ["NGC7786", "", "Gx", "23 55.4", "+21 35"],
+    ["NGC7787", "", "Gx", "23 56.1", "+00 33"],
+    ["NGC7788", "", "OC", "23 56.6", "+61 24"],
+    ["NGC7790", "The Widow's Web Cluster", "OC", "23 58.4", "+61 12"],
+    ["NGC7792", "", "Gx", "23 58.1", "+16 30"],
+    ["NGC7793", "Bond's Galaxy", "Gx", "23 57.8", "-32 35"],
+    ["NGC7794", "", "Gx", "23 58.6", "+10 44"],
+    ["NGC7796", "", "Gx", "23 59.0", "-55 28"],
+    ["NGC7797", "", "Gx", "23 59.0", "+03 38"],
+    ["NGC7798", "", "Gx", "23 59.4", "+20 45"],
+    ["NGC7799", "", "Gx", "23 59.3", "+31 17"],
+    ["NGC7800", "", "Gx", "23 59.6", "+14 48"],
+    ["NGC7802", "", "Gx", "00 01.0", "+06 15"],
+    ["NGC7803", "", "Gx", "00 01.3", "+13 07"],
+    ["NGC7805", "", "Gx", "00 01.4", "+31 26"],
+    ["NGC7806", "", "Gx", "00 01.5", "+31 27"],
+    ["NGC7807", "", "Gx", "00 00.4", "-18 51"],
+    ["NGC7808", "", "Gx", "00 03.5", "-10 45"],
+    ["NGC7809", "", "Gx", "00 02.2", "+02 56"],
+    ["NGC7810", "", "Gx", "00 02.3", "+12 58"],
+    ["NGC7811", "", "Gx", "00 02.4", "+03 21"],
+    ["NGC7812", "", "Gx", "00 02.9", "-34 14"],
+    ["NGC7813", "", "Gx", "00 04.2", "-11 59"],
+    ["NGC7814", "The Little Sombrero Galaxy", "Gx", "00 03.2", "+16 09"],
+    ["NGC7816", "", "Gx", "00 03.8", "+07 29"],
+    ["NGC7817", "", "Gx", "00 04.0", "+20 45"],
+    ["NGC7818", "", "Gx", "00 04.1", "+07 23"],
+    ["NGC7819", "", "Gx", "00 04.4", "+31 28"],
+    ["NGC7820", "", "Gx", "00 04.5", "+05 12"],
+    ["NGC7821", "", "Gx", "00 05.3", "-16 29"],
+    ["NGC7822", "", "Neb", "00 01.1", "+67 25"],
+    ["NGC7823", "", "Gx", "00 04.8", "-62 04"],
+    ["NGC7824", "", "Gx", "00 05.1", "+06 55"],
+    ["NGC7825", "", "Gx", "00 05.1", "+05 12"],
+    ["NGC7827", "", "Gx", "00 05.5", "+05 13"],
+    ["NGC7828", "", "Gx", "00 06.5", "-13 25"],
+    ["NGC7829", "", "Gx", "00 06.5", "-13 25"],
+    ["NGC7831", "", "Gx", "00 07.3", "+32 37"],
+    ["NGC7832", "", "Gx", "00 06.5", "-03 43"],
+    ["NGC7834", "", "Gx", "00 06.6", "+08 22"],
+    ["NGC7835", "", "Gx", "00 06.8", "+08 26"],
+    ["NGC7836", "", "Gx", "00 08.0", "+33 04"],
+    ["NGC7837", "", "Gx", "00 06.9", "+08 21"],
+    ["NGC7838", "", "Gx", "00 06.9", "+08 21"],
+    ["NGC7839", "", "Gx", "00 07.0", "+27 40"],
+    ["IC2", "", "Gx", "00 11.0", "-12 49"],
+    ["IC3", "", "Gx", "00 12.1", "-00 25"],
+    ["IC4", "", "Gx", "00 13.4", "+17 29"],
+    ["IC5", "", "Gx", "00 17.6", "-09 33"],
+    ["IC6", "", "Gx", "00 18.9", "-03 17"],
+    ["IC7", "", "Gx", "00 18.9", "+10 36"],
+    ["IC8", "", "Gx", "00 19.0", "-03 13"],
+    ["IC9", "", "Gx", "00 19.7", "-14 07"],
+    ["IC10", "Starburst Galaxy", "Gx", "00 20.4", "+59 18"],
+    ["IC12", "", "Gx", "00 20.3", "-02 39"],
+    ["IC13", "", "Gx", "00 20.3", "+07 42"],
+    ["IC15", "", "Gx", "00 28.0", "-00 04"],
+    ["IC16", "", "Gx", "00 28.1", "-13 06"],
+    ["IC17", "", "Gx", "00 28.5", "+02 39"],
+    ["IC18", "", "Gx", "00 28.6", "-11 35"],
+    ["IC19", "", "Gx", "00 28.7", "-11 38"],
+    ["IC20", "", "Gx", "00 28.7", "-13 01"],
+    ["IC21", "", "Gx", "00 29.2", "-00 10"],
+    ["IC22", "", "Gx", "00 29.6", "-09 05"],
+    ["IC23", "", "Gx", "00 30.8", "-12 43"],
+    ["IC25", "", "Gx", "00 31.2", "-00 24"],
+    ["IC26", "", "Gx", "00 31.8", "-13 20"],
+    ["IC28", "", "Gx", "00 33.1", "-13 27"],
+    ["IC29", "", "Gx", "00 34.2", "-02 11"],
+    ["IC30", "", "Gx", "00 34.2", "-02 05"],
+    ["IC31", "", "Gx", "00 34.4", "+12 16"],
+    ["IC32", "", "Gx", "00 35.0", "-02 08"],
+    ["IC33", "", "Gx", "00 35.1", "-02 08"],
+    ["IC34", "", "Gx", "00 35.6", "+09 07"],
+    ["IC35", "", "Gx", "00 37.7", "+10 21"],
+    ["IC37", "", "Gx", "00 38.6", "-15 22"],
+    ["IC38", "", "Gx", "00 38.6", "-15 25"],
+    ["IC40", "", "Gx", "00 39.4", "+02 27"],
+    ["IC41", "", "Gx", "00 39.7", "-14 10"],
+    ["IC42", "", "Gx", "00 41.1", "-15 26"],
+    ["IC43", "", "Gx", "00 42.4", "+29 38"],
+    ["IC45", "", "Gx", "00 42.4", "+29 42"],
+    ["IC46", "", "Gx", "00 43.0", "+27 15"],
+    ["IC48", "", "Gx", "00 43.6", "-08 11"],
+    ["IC49", "", "Gx", "00 43.9", "+01 51"],
+    ["IC50", "", "Gx", "00 46.1", "-09 30"],
+    ["IC51", "", "Gx", "00 46.4", "-13 27"],
+    ["IC52", "", "Gx", "00 48.4", "+04 06"],
+    ["IC53", "", "Gx", "00 50.7", "+10 36"],
+    ["IC55", "", "Gx", "00 51.7", "+07 43"],
+    ["IC56", "", "Gx", "00 51.5", "-12 51"],
+    ["IC57", "", "Gx", "00 54.8", "+11 50"],
+    ["IC58", "", "Gx", "00 55.0", "-13 41"],
+    ["IC59", "γ Cas Nebula", "RN", "00 57.7", "+61 05"],
+    ["IC60", "", "Gx", "00 56.1", "-13 21"],
+    ["IC61", "", "Gx", "00 57.1", "+07 30"],
+    ["IC62", "", "Gx", "00 58.7", "+11 48"],
+    ["IC63", "γ Cas Nebula", "Neb", "00 59.0", "+60 53"],
+    ["IC64", "", "Gx", "00 59.4", "+27 04"],
+    ["IC65", "", "Gx", "01 00.9", "+47 41"],
+    ["IC66", "", "Gx", "01 00.5", "+30 48"],
+    ["IC69", "", "Gx", "01 01.4", "+31 02"],
+    ["IC71", "", "Gx", "01 01.3", "-06 49"],
+    ["IC73", "", "Gx", "01 04.9", "+04 46"],
+    ["IC74", "", "Gx", "01 05.9", "+04 05"],
+    ["IC75", "", "Gx", "01 07.2", "+10 50"],
+    ["IC76", "", "Gx", "01 08.2", "-04 33"],
+    ["IC77", "", "Gx", "01 08.9", "-15 24"],
+    ["IC78", "", "Gx", "01 08.8", "-15 51"],
+    ["IC79", "", "Gx", "01 08.8", "-15 57"],
+    ["IC80", "", "Gx", "01 08.9", "-15 25"],
+    ["IC81", "", "Gx", "01 09.4", "-01 42"],
+    ["IC82", "", "Gx", "01 09.1", "-16 00"],
+    ["IC83", "", "Gx", "01 10.5", "+01 41"],
+    ["IC84", "", "Gx", "01 11.4", "+01 38"],
+    ["IC87", "", "Gx", "01 14.3", "+00 46"],
+    ["IC90", "", "Gx", "01 16.5", "-07 59"],
+    ["IC93", "", "Gx", "01 19.0", "-17 04"],
+    ["IC98", "", "Gx", "01 20.9", "-12 36"],
+    ["IC99", "", "Gx", "01 22.5", "-12 57"],
+    ["IC100", "", "Gx", "01 22.9", "-04 39"],
+    ["IC101", "", "Gx", "01 24.1", "+09 56"],
+    ["IC102", "", "Gx", "01 24.4", "+09 53"],
+    ["IC103", "", "Gx", "01 24.6", "+02 03"],
+    ["IC105", "", "Gx", "01 24.8", "+02 05"],
+    ["IC107", "", "Gx", "01 25.2", "+14 52"],
+    ["IC108", "", "Gx", "01 24.6", "-12 38"],
+    ["IC109", "", "Gx", "01 25.2", "+02 04"],
+    ["IC112", "", "Gx", "01 26.1", "+11 27"],
+    ["IC114", "", "Gx", "01 26.4", "+09 55"],
+    ["IC115", "", "Gx", "01 26.9", "+19 13"],
+    ["IC116", "", "Gx", "01 26.8", "-04 59"],
+    ["IC118", "", "Gx", "01 27.6", "-05 00"],
+    ["IC119", "", "Gx", "01 27.9", "-02 02"],
+    ["IC120", "", "Gx", "01 28.2", "-01 55"],
+    ["IC121", "", "Gx", "01 28.4", "+02 31"],
+    ["IC123", "", "Gx", "01 28.9", "+02 27"],
+    ["IC125", "", "Gx", "01 29.3", "-13 17"],
+    ["IC126", "", "Gx", "01 29.8", "-01 59"],
+    ["IC127", "", "Gx", "01 29.8", "-06 59"],
+    ["IC128", "", "Gx", "01 31.4", "-12 37"],
+    ["IC129", "", "Gx", "01 31.5", "-12 39"],
+    ["IC130", "", "Gx", "01 31.5", "-15 35"],
+    ["IC131", "", "Neb", "01 33.2", "+30 45"],
+    ["IC132", "", "Neb", "01 33.3", "+30 57"],
+    ["IC133", "", "Neb", "01 33.3", "+30 53"],
+    ["IC136", "", "Neb", "01 33.2", "+30 30"],
+    ["IC138", "", "Gx", "01 33.0", "-00 41"],
+    ["IC141", "", "Gx", "01 32.9", "-14 49"],
+    ["IC142", "", "Neb", "01 33.9", "+30 45"],
+    ["IC143", "", "Neb", "01 34.1", "+30 47"],
+    ["IC144", "", "Gx", "01 37.7", "-13 19"],
+    ["IC145", "", "Gx", "01 38.6", "+00 44"],
+    ["IC147", "", "Gx", "01 40.0", "-14 52"],
+    ["IC148", "", "Gx", "01 42.5", "+13 59"],
+    ["IC150", "", "Gx", "01 43.0", "+04 12"],
+    ["IC152", "", "Gx", "01 44.0", "+13 04"],
+    ["IC154", "", "Gx", "01 45.3", "+10 39"],
+    ["IC156", "", "Gx", "01 45.5", "+10 33"],
+    ["IC158", "", "Gx", "01 45.9", "-06 56"],
+    ["IC159", "", "Gx", "01 46.4", "-08 38"],
+    ["IC160", "", "Gx", "01 46.5", "-13 15"],
+    ["IC161", "", "Gx", "01 48.7", "+10 30"],
+    ["IC162", "", "Gx", "01 48.9", "+10 31"],
+    ["IC163", "", "Gx", "01 49.2", "+20 43"],
+    ["IC164", "", "Gx", "01 49.1", "-03 54"],
+    ["IC166", "", "OC", "01 52.4", "+61 52"],
+    ["IC167", "", "Gx", "01 51.1", "+21 55"],
+    ["IC168", "", "Gx", "01 50.5", "-08 31"],
+    ["IC170", "", "Gx", "01 52.0", "-08 31"],
+    ["IC171", "", "Gx", "01 55.2", "+35 17"],
+    ["IC172", "", "Gx", "01 54.9", "+00 49"],
+    ["IC173", "", "Gx", "01 56.0", "+01 17"],
+    ["IC174", "", "Gx", "01 56.3", "+03 46"],
+    ["IC175", "", "Gx", "01 56.3", "+01 20"],
+    ["IC176", "", "Gx", "01 56.9", "-02 01"],
+    ["IC177", "", "Gx", "01 57.0", "-00 05"],
+    ["IC178", "", "Gx", "01 58.9", "+36 40"],
+    ["IC179", "", "Gx", "02 00.2", "+38 01"],
+    ["IC180", "", "Gx", "02 00.0", "+23 36"],
+    ["IC181", "", "Gx", "02 00.0", "+23 40"],
+    ["IC182", "", "Gx", "01 59.9", "+07 25"],
+    ["IC183", "", "Gx", "01 59.6", "-05 21"],
+    ["IC184", "", "Gx", "01 59.9", "-06 50"],
+    ["IC185", "", "Gx", "02 00.1", "-01 32"],
+    ["IC186", "", "Gx", "02 00.4", "-01 33"],
+    ["IC187", "", "Gx", "02 01.5", "+26 29"],
+    ["IC188", "", "Gx", "02 01.8", "+26 33"],
+    ["IC189", "", "Gx", "02 01.9", "+23 33"],
+    ["IC190", "", "Gx", "02 02.1", "+23 33"],
+    ["IC192", "", "Gx", "02 02.5", "+16 01"],
+    ["IC193", "", "Gx", "02 02.5", "+11 06"],
+    ["IC194", "", "Gx", "02 03.1", "+02 37"],
+    ["IC195", "", "Gx", "02 03.7", "+14 43"],
+    ["IC196", "", "Gx", "02 03.8", "+14 44"],
+    ["IC197", "", "Gx", "02 04.1", "+02 47"],
+    ["IC198", "", "Gx", "02 06.1", "+09 18"],
+    ["IC200", "", "Gx", "02 06.8", "+31 09"],
+    ["IC202", "", "Gx", "02 07.5", "+09 10"],
+    ["IC204", "", "Gx", "02 07.5", "-01 26"],
+    ["IC205", "", "Gx", "02 07.5", "-02 05"],
+    ["IC206", "", "Gx", "02 09.5", "-06 58"],
+    ["IC207", "", "Gx", "02 09.7", "-06 55"],
+    ["IC208", "", "Gx", "02 08.5", "+06 24"],
+    ["IC209", "", "Gx", "02 09.0", "-07 04"],
+    ["IC210", "", "Gx", "02 09.5", "-09 41"],
+    ["IC211", "", "Gx", "02 11.1", "+03 51"],
+    ["IC212", "", "Gx", "02 13.6", "+16 36"],
+    ["IC213", "", "Gx", "02 14.1", "+16 27"],
+    ["IC214", "", "Gx", "02 14.1", "+05 10"],
+    ["IC215", "", "Gx", "02 14.2", "-06 48"],
+    ["IC217", "", "Gx", "02 16.2", "-11 56"],
+    ["IC218", "", "Gx", "02 17.1", "+01 17"],
+    ["IC219", "", "Gx", "02 18.6", "-06 54"],
+    ["IC220", "", "Gx", "02 19.2", "-12 47"],
+    ["IC221", "", "Gx", "02 22.7", "+28 15"],
+    ["IC222", "", "Gx", "02 22.8", "+11 38"],
+    ["IC223", "", "Gx", "02 22.0", "-20 45"],
+    ["IC224", "", "Gx", "02 24.8", "-12 34"],
+    ["IC225", "", "Gx", "02 26.5", "+01 10"],
+    ["IC226", "", "Gx", "02 27.8", "+28 13"],
+    ["IC227", "", "Gx", "02 28.1", "+28 11"],
+    ["IC230", "", "Gx", "02 28.8", "-10 50"],
+    ["IC231", "", "Gx", "02 29.9", "+01 11"],
+    ["IC232", "", "Gx", "02 31.2", "+01 16"],
+    ["IC233", "", "Gx", "02 31.7", "+02 48"],
+    ["IC234", "", "Gx", "02 31.6", "-00 08"],
+    ["IC235", "", "Gx", "02 32.8", "+20 38"],
+    ["IC237", "", "Gx", "02 33.5", "+01 08"],
+    ["IC238", "", "Gx", "02 35.4", "+12 50"],
+    ["IC239", "", "Gx", "02 36.5", "+38 58"],
+    ["IC241", "", "Gx", "02 37.9", "+02 20"],
+    ["IC242", "", "Gx", "02 38.5", "-06 54"],
+    ["IC244", "", "Gx", "02 39.4", "+02 44"],
+    ["IC245", "", "Gx", "02 38.9", "-14 18"],
+    ["IC246", "", "Gx", "02 40.5", "+02 29"],
+    ["IC247", "", "Gx", "02 40.1", "-11 44"],
+    ["IC248", "", "Gx", "02 41.4", "+17 49"],
+    ["IC250", "", "Gx", "02 40.9", "-13 19"],
+    ["IC251", "", "Gx", "02 41.2", "-14 57"],
+    ["IC253", "", "Gx", "02 42.1", "-15 03"],
+    ["IC255", "", "Gx", "02 47.1", "+16 17"],
+    ["IC257", "", "Gx", "02 49.8", "+46 59"],
+    ["IC258", "", "Gx", "02 49.7", "+41 03"],
+    ["IC259", "", "Gx", "02 49.8", "+41 03"],
+    ["IC260", "", "Gx", "02 51.0", "+46 57"],
+    ["IC261", "", "Gx", "02 49.2", "-14 27"],
+    ["IC262", "", "Gx", "02 51.7", "+42 50"],
+    ["IC265", "", "Gx", "02 54.7", "+41 39"],
+    ["IC266", "", "Gx", "02 55.1", "+42 16"],
+    ["IC267", "", "Gx", "02 53.8", "+12 51"],
+    ["IC268", "", "Gx", "02 55.4", "-14 06"],
+    ["IC269", "", "Gx", "02 55.4", "-14 04"],
+    ["IC270", "", "Gx", "02 55.7", "-14 12"],
+    ["IC271", "", "Gx", "02 56.0", "-12 00"],
+    ["IC272", "", "Gx", "02 56.1", "-14 11"],
+    ["IC273", "", "Gx", "02 57.2", "+02 47"],
+    ["IC276", "", "Gx", "02 58.7", "-15 42"],
+    ["IC277", "", "Gx", "02 59.8", "+02 46"],
+    ["IC278", "", "Gx", "03 01.5", "+37 46"],
+    ["IC279", "", "Gx", "03 01.2", "+16 13"],
+    ["IC283", "", "Gx", "03 03.8", "-00 12"],
+    ["IC284", "", "Gx", "03 06.2", "+42 22"],
+    ["IC285", "", "Gx", "03 04.1", "-12 01"],
+    ["IC288", "", "Gx", "03 07.5", "+42 23"],
+    ["IC289", "", "PN", "03 10.3", "+61 19"],
+    ["IC291", "", "Gx", "03 07.4", "-12 35"],
+    ["IC294", "", "Gx", "03 11.1", "+40 37"],
+    ["IC298", "", "Gx", "03 11.3", "+01 19"],
+    ["IC301", "", "Gx", "03 14.8", "+42 13"],
+    ["IC302", "", "Gx", "03 12.9", "+04 42"],
+    ["IC304", "", "Gx", "03 15.0", "+37 53"],
+    ["IC305", "", "Gx", "03 15.1", "+37 52"],
+    ["IC306", "", "Gx", "03 13.0", "-11 43"],
+    ["IC307", "", "Gx", "03 13.8", "-00 14"],
+    ["IC309", "", "Gx", "03 16.1", "+40 48"],
+    ["IC310", "", "Gx", "03 16.7", "+41 19"],
+    ["IC311", "", "Gx", "03 16.8", "+40 00"],
+    ["IC312", "", "Gx", "03 18.1", "+41 45"],
+    ["IC313", "", "Gx", "03 21.0", "+41 54"],
+    ["IC315", "", "Gx", "03 19.2", "+04 02"],
+    ["IC316", "", "Gx", "03 21.3", "+41 56"],
+    ["IC317", "", "Gx", "03 18.9", "-12 44"],
+    ["IC318", "", "Gx", "03 20.7", "-14 34"],
+    ["IC320", "", "Gx", "03 26.0", "+40 47"],
+    ["IC321", "", "Gx", "03 24.5", "-14 59"],
+    ["IC322", "", "Gx", "03 26.0", "+03 41"],
+    ["IC326", "", "Gx", "03 30.6", "-14 26"],
+    ["IC327", "", "Gx", "03 31.2", "-14 42"],
+    ["IC328", "", "Gx", "03 31.2", "-14 38"],
+    ["IC329", "", "Gx", "03 32.0", "+00 17"],
+    ["IC330", "", "Gx", "03 32.1", "+00 21"],
+    ["IC331", "", "Gx", "03 32.3", "+00 17"],
+    ["IC332", "", "Gx", "03 32.6", "+01 23"],
+    ["IC334", "", "Gx", "03 45.3", "+76 38"],
+    ["IC336", "", "RN", "03 42.8", "+22 42"],
+    ["IC338", "", "Gx", "03 37.6", "+03 07"],
+    ["IC343", "", "Gx", "03 40.1", "-18 27"],
+    ["IC344", "", "Gx", "03 41.5", "-04 40"],
+    ["IC345", "", "Gx", "03 41.2", "-18 19"],
+    ["IC346", "", "Gx", "03 41.7", "-18 16"],
+    ["IC347", "", "Gx", "03 42.5", "-04 18"],
+    ["IC348", "ο Per Cloud", "EN", "03 44.6", "+32 10"],
+    ["IC350", "", "Gx", "03 44.6", "-11 48"],
+    ["IC351", "", "PN", "03 47.6", "+35 03"],
+    ["IC353", "", "Neb", "03 44.8", "+32 24"],
+    ["IC355", "", "Gx", "03 53.8", "+19 58"],
+    ["IC356", "", "Gx", "04 07.8", "+69 49"],
+    ["IC357", "", "Gx", "04 03.7", "+22 10"],
+    ["IC358", "", "Gx", "04 03.7", "+19 54"],
+    ["IC359", "", "Gx", "04 12.5", "+27 42"],
+    ["IC360", "", "Neb", "04 12.8", "+25 36"],
+    ["IC361", "", "OC", "04 19.0", "+58 15"],
+    ["IC362", "", "Gx", "04 16.7", "-12 12"],
+    ["IC363", "", "Gx", "04 18.9", "+03 02"],
+    ["IC364", "", "Gx", "04 19.1", "+03 11"],
+    ["IC365", "", "Gx", "04 19.2", "+03 21"],
+    ["IC366", "", "Gx", "04 19.7", "+02 22"],
+    ["IC367", "", "Gx", "04 20.7", "-14 47"],
+    ["IC368", "", "Gx", "04 22.7", "-12 37"],
+    ["IC369", "", "Gx", "04 23.5", "-11 47"],
+    ["IC370", "", "Gx", "04 24.0", "-09 24"],
+    ["IC373", "", "Gx", "04 30.7", "-04 52"],
+    ["IC374", "", "Gx", "04 32.5", "+16 38"],
+    ["IC375", "", "Gx", "04 31.1", "-12 58"],
+    ["IC376", "", "Gx", "04 31.3", "-12 27"],
+    ["IC379", "", "Gx", "04 31.8", "-07 14"],
+    ["IC380", "", "Gx", "04 31.7", "-12 56"],
+    ["IC381", "", "Gx", "04 44.5", "+75 38"],
+    ["IC382", "", "Gx", "04 37.9", "-09 31"],
+    ["IC383", "", "Gx", "04 39.0", "+09 54"],
+    ["IC385", "", "Gx", "04 39.5", "-07 06"],
+    ["IC387", "", "Gx", "04 41.7", "-07 05"],
+    ["IC388", "", "Gx", "04 41.9", "-07 18"],
+    ["IC389", "", "Gx", "04 42.0", "-07 19"],
+    ["IC390", "", "Gx", "04 42.1", "-07 12"],
+    ["IC391", "", "Gx", "04 57.4", "+78 11"],
+    ["IC392", "", "Gx", "04 46.4", "+03 30"],
+    ["IC393", "", "Gx", "04 47.9", "-15 32"],
+    ["IC395", "", "Gx", "04 49.6", "+00 15"],
+    ["IC396", "", "Gx", "04 58.0", "+68 19"],
+    ["IC398", "", "Gx", "04 58.2", "-07 47"],
+    ["IC399", "", "Gx", "05 01.7", "-04 17"],
+    ["IC401", "", "Gx", "05 04.3", "-10 05"],
+    ["IC402", "", "Gx", "05 06.2", "-09 06"],
+    ["IC404", "", "Gx", "05 13.3", "+09 45"],
+    ["IC407", "", "Gx", "05 17.7", "-15 31"],
+    ["IC409", "", "Gx", "05 19.6", "+03 19"],
+    ["IC411", "", "Gx", "05 20.3", "-25 19"],
+    ["IC412", "", "Gx", "05 21.9", "+03 29"],
+    ["IC414", "", "Gx", "05 21.9", "+03 21"],
+    ["IC416", "", "Gx", "05 23.9", "-17 16"],
+    ["IC417", "Spider Nebula", "Neb", "05 28.1", "+34 25"],
+    ["IC418", "Spirograph Nebula", "PN", "05 27.5", "-12 42"],
+    ["IC420", "", "RN", "05 32.2", "-04 31"],
+    ["IC421", "", "Gx", "05 32.1", "-07 55"],
+    ["IC422", "", "Gx", "05 32.3", "-17 13"],
+    ["IC423", "", "OC", "05 33.3", "-00 38"],
+    ["IC424", "", "RN", "05 33.6", "-00 25"],
+    ["IC425", "", "Neb", "05 38.0", "+32 24"],
+    ["IC426", "", "OC", "05 36.5", "-00 17"],
+    ["IC430", "", "Neb", "05 38.3", "-07 02"],
+    ["IC431", "", "RN", "05 40.2", "-01 28"],
+    ["IC432", "", "RN", "05 40.9", "-01 30"],
+    ["IC433", "", "Gx", "05 40.5", "-11 40"],
+    ["IC435", "", "RN", "05 43.0", "-02 19"],
+    ["IC438", "", "Gx", "05 53.0", "-17 53"],
+    ["IC439", "", "Neb", "05 56.6", "+32 02"],
+    ["IC440", "", "Gx", "06 19.2", "+80 04"],
+    ["IC441", "", "Gx", "06 02.7", "-12 30"],
+    ["IC442", "", "Gx", "06 36.2", "+82 58"],
+    ["IC444", "", "RN", "06 18.6", "+23 19"],
+    ["IC445", "", "Gx", "06 37.4", "+67 52"],
+    ["IC448", "", "Neb", "06 34.0", "+07 18"],
+    ["IC449", "", "Gx", "06 45.7", "+71 21"],
+    ["IC450", "", "Gx", "06 52.2", "+74 26"],
+    ["IC451", "", "Gx", "06 52.9", "+74 29"],
+    ["IC454", "", "Gx", "06 51.1", "+12 55"],
+    ["IC455", "", "Gx", "07 35.0", "+85 32"],
+    ["IC456", "", "Gx", "07 00.3", "-30 10"],
+    ["IC458", "", "Gx", "07 10.6", "+50 07"],
+    ["IC459", "", "Gx", "07 10.6", "+50 11"],
+    ["IC460", "", "Gx", "07 10.7", "+50 12"],
+    ["IC461", "", "Gx", "07 10.8", "+50 05"],
+    ["IC462", "", "Gx", "07 10.9", "+50 11"],
+    ["IC464", "", "Gx", "07 11.1", "+50 08"],
+    ["IC465", "", "Gx", "07 11.6", "+50 15"],
+    ["IC466", "", "Neb", "07 08.6", "-04 19"],
+    ["IC467", "", "Gx", "07 30.3", "+79 52"],
+    ["IC468", "", "Neb", "07 18.0", "-13 06"],
+    ["IC469", "", "Gx", "07 56.0", "+85 10"],
+    ["IC471", "", "Gx", "07 43.6", "+49 40"],
+    ["IC472", "", "Gx", "07 43.8", "+49 37"],
+    ["IC474", "", "Gx", "07 46.1", "+26 30"],
+    ["IC475", "", "Gx", "07 47.2", "+30 29"],
+    ["IC476", "", "Gx", "07 47.3", "+26 57"],
+    ["IC477", "", "Gx", "07 52.1", "+23 29"],
+    ["IC478", "", "Gx", "07 53.7", "+26 30"],
+    ["IC479", "", "Gx", "07 54.4", "+27 01"],
+    ["IC480", "", "Gx", "07 55.4", "+26 45"],
+    ["IC481", "", "Gx", "07 59.0", "+24 10"],
+    ["IC482", "", "Gx", "07 59.8", "+25 21"],
+    ["IC484", "", "Gx", "08 00.0", "+26 40"],
+    ["IC485", "", "Gx", "08 00.3", "+26 42"],
+    ["IC486", "", "Gx", "08 00.3", "+26 37"],
+    ["IC490", "", "Gx", "08 03.3", "+25 49"],
+    ["IC491", "", "Gx", "08 03.9", "+26 31"],
+    ["IC492", "", "Gx", "08 05.6", "+26 10"],
+    ["IC493", "", "Gx", "08 07.5", "+25 08"],
+    ["IC494", "", "Gx", "08 06.4", "+01 02"],
+    ["IC495", "", "Gx", "08 08.3", "+09 01"],
+    ["IC496", "", "Gx", "08 09.7", "+25 53"],
+    ["IC497", "", "Gx", "08 10.1", "+24 55"],
+    ["IC498", "", "Gx", "08 09.5", "+05 17"],
+    ["IC499", "", "Gx", "08 45.3", "+85 44"],
+    ["IC500", "", "Gx", "08 12.7", "-16 03"],
+    ["IC501", "", "Gx", "08 18.8", "+24 32"],
+    ["IC502", "", "Gx", "08 22.1", "+08 45"],
+    ["IC503", "", "Gx", "08 22.2", "+03 16"],
+    ["IC504", "", "Gx", "08 22.7", "+04 16"],
+    ["IC505", "", "Gx", "08 23.4", "+04 22"],
+    ["IC506", "", "Gx", "08 23.5", "+04 18"],
+    ["IC508", "", "Gx", "08 28.4", "+25 08"],
+    ["IC509", "", "Gx", "08 32.1", "+24 01"],
+    ["IC510", "", "Gx", "08 32.2", "-02 10"],
+    ["IC511", "", "Gx", "08 40.8", "+73 29"],
+    ["IC512", "", "Gx", "09 03.8", "+85 30"],
+    ["IC513", "", "Gx", "08 33.1", "-12 21"],
+    ["IC514", "", "Gx", "08 35.4", "-02 03"],
+    ["IC515", "", "Gx", "08 35.5", "-01 54"],
+    ["IC516", "", "Gx", "08 35.8", "-01 52"],
+    ["IC517", "", "Gx", "08 36.4", "-02 03"],
+    ["IC519", "", "Gx", "08 40.6", "+02 37"],
+    ["IC520", "", "Gx", "08 53.7", "+73 29"],
+    ["IC521", "", "Gx", "08 46.7", "+02 32"],
+    ["IC522", "", "Gx", "08 54.6", "+57 10"],
+    ["IC523", "", "Gx", "08 53.2", "+09 09"],
+    ["IC524", "", "Gx", "08 58.2", "-19 12"],
+    ["IC525", "", "Gx", "09 01.4", "-01 51"],
+    ["IC526", "", "Gx", "09 02.7", "+10 50"],
+    ["IC527", "", "Gx", "09 09.7", "+37 36"],
+    ["IC528", "", "Gx", "09 09.4", "+15 48"],
+    ["IC529", "", "Gx", "09 18.5", "+73 46"],
+    ["IC530", "", "Gx", "09 15.3", "+11 53"],
+    ["IC531", "", "Gx", "09 17.8", "-00 17"],
+    ["IC534", "", "Gx", "09 21.3", "+03 09"],
+    ["IC535", "", "Gx", "09 22.3", "-01 02"],
+    ["IC536", "", "Gx", "09 24.7", "+25 07"],
+    ["IC537", "", "Gx", "09 25.4", "-12 23"],
+    ["IC539", "", "Gx", "09 29.1", "-02 33"],
+    ["IC540", "", "Gx", "09 30.2", "+07 54"],
+    ["IC542", "", "Gx", "09 31.1", "-13 11"],
+    ["IC544", "", "Gx", "09 35.9", "+24 54"],
+    ["IC545", "", "Gx", "09 36.1", "+24 57"],
+    ["IC546", "", "Gx", "09 34.8", "-16 23"],
+    ["IC548", "", "Gx", "09 38.3", "+09 27"],
+    ["IC549", "", "Gx", "09 40.7", "+03 58"],
+    ["IC550", "", "Gx", "09 40.5", "-06 57"],
+    ["IC551", "", "Gx", "09 41.0", "+06 56"],
+    ["IC552", "", "Gx", "09 41.3", "+10 39"],
+    ["IC553", "", "Gx", "09 40.8", "-05 26"],
+    ["IC555", "", "Gx", "09 41.9", "+12 18"],
+    ["IC557", "", "Gx", "09 44.0", "+10 59"],
+    ["IC558", "", "Gx", "09 45.0", "+29 27"],
+    ["IC559", "", "Gx", "09 44.7", "+09 37"],
+    ["IC560", "", "Gx", "09 45.9", "-00 16"],
+    ["IC561", "", "Gx", "09 46.0", "+03 09"],
+    ["IC562", "", "Gx", "09 46.1", "-03 58"],
+    ["IC563", "", "Gx", "09 46.3", "+03 03"],
+    ["IC564", "", "Gx", "09 46.4", "+03 04"],
+    ["IC565", "", "Gx", "09 47.8", "+15 51"],
+    ["IC566", "", "Gx", "09 49.9", "-00 14"],
+    ["IC568", "", "Gx", "09 51.1", "+15 44"],
+    ["IC569", "", "Gx", "09 51.5", "+10 55"],
+    ["IC570", "", "Gx", "09 51.8", "+15 45"],
+    ["IC571", "", "Gx", "09 52.5", "+15 47"],
+    ["IC572", "", "Gx", "09 52.5", "+15 50"],
+    ["IC574", "", "Gx", "09 54.5", "-06 57"],
+    ["IC575", "", "Gx", "09 54.5", "-06 51"],
+    ["IC576", "", "Gx", "09 55.1", "+11 02"],
+    ["IC577", "", "Gx", "09 56.1", "+10 30"],
+    ["IC578", "", "Gx", "09 56.3", "+10 29"],
+    ["IC579", "", "Gx", "09 56.7", "-13 46"],
+    ["IC581", "", "Gx", "09 58.2", "+15 57"],
+    ["IC582", "", "Gx", "09 59.0", "+17 49"],
+    ["IC583", "", "Gx", "09 59.1", "+17 49"],
+    ["IC584", "", "Gx", "09 59.1", "+10 22"],
+    ["IC585", "", "Gx", "09 59.7", "+12 59"],
+    ["IC586", "", "Gx", "09 59.8", "-06 55"],
+    ["IC587", "", "Gx", "10 03.1", "-02 24"],
+    ["IC588", "", "Gx", "10 02.1", "+03 03"],
+    ["IC590", "", "Gx", "10 05.8", "+00 38"],
+    ["IC591", "", "Gx", "10 07.5", "+12 16"],
+    ["IC592", "", "Gx", "10 08.0", "-02 30"],
+    ["IC593", "", "Gx", "10 08.3", "-02 32"],
+    ["IC594", "", "Gx", "10 08.5", "-00 40"],
+    ["IC595", "", "Gx", "10 09.6", "+11 00"],
+    ["IC596", "", "Gx", "10 10.5", "+10 03"],
+    ["IC598", "", "Gx", "10 12.8", "+43 09"],
+    ["IC599", "", "Gx", "10 13.2", "-05 38"],
+    ["IC600", "", "Gx", "10 17.2", "-03 30"],
+    ["IC601", "", "Gx", "10 18.3", "+07 02"],
+    ["IC602", "", "Gx", "10 18.3", "+07 03"],
+    ["IC603", "", "Gx", "10 19.4", "-05 39"],
+    ["IC605", "", "Gx", "10 22.4", "+01 12"],
+    ["IC606", "", "Gx", "10 23.5", "+10 58"],
+    ["IC607", "", "Gx", "10 24.1", "+16 45"],
+    ["IC608", "", "Gx", "10 24.4", "-06 02"],
+    ["IC609", "", "Gx", "10 25.6", "-02 13"],
+    ["IC611", "", "Gx", "10 26.5", "+20 14"],
+    ["IC612", "", "Gx", "10 27.1", "+11 03"],
+    ["IC613", "", "Gx", "10 27.1", "+11 01"],
+    ["IC614", "", "Gx", "10 26.9", "-03 28"],
+    ["IC615", "", "Gx", "10 27.4", "+11 05"],
+    ["IC616", "", "Gx", "10 32.8", "+15 52"],
+    ["IC620", "", "Gx", "10 33.6", "+11 52"],
+    ["IC621", "", "Gx", "10 33.4", "+02 41"],
+    ["IC623", "", "Gx", "10 35.4", "+03 33"],
+    ["IC624", "", "Gx", "10 36.3", "-08 20"],
+    ["IC625", "", "Gx", "10 39.4", "-23 45"],
+    ["IC626", "", "Gx", "10 37.0", "-07 01"],
+    ["IC627", "", "Gx", "10 37.3", "-03 21"],
+    ["IC628", "", "Gx", "10 37.6", "+05 36"],
+    ["IC630", "", "Gx", "10 38.6", "-07 10"],
+    ["IC632", "", "Gx", "10 39.2", "-00 25"],
+    ["IC633", "", "Gx", "10 39.4", "-00 23"],
+    ["IC634", "", "Gx", "10 40.9", "+06 00"],
+    ["IC635", "", "Gx", "10 41.8", "+15 39"],
+    ["IC636", "", "Gx", "10 41.8", "+04 20"],
+    ["IC637", "", "Gx", "10 42.4", "+15 22"],
+    ["IC638", "", "Gx", "10 43.8", "+15 54"],
+    ["IC639", "", "Gx", "10 45.9", "+16 56"],
+    ["IC642", "", "Gx", "10 48.1", "+18 11"],
+    ["IC643", "", "Gx", "10 49.5", "+12 12"],
+    ["IC644", "", "Gx", "10 51.8", "+55 23"],
+    ["IC646", "", "Gx", "10 51.6", "+55 28"],
+    ["IC647", "", "Gx", "10 50.6", "-12 51"],
+    ["IC648", "", "Gx", "10 51.0", "+12 17"],
+    ["IC649", "", "Gx", "10 50.9", "+01 10"],
+    ["IC651", "", "Gx", "10 51.0", "-02 09"],
+    ["IC653", "", "Gx", "10 52.1", "-00 34"],
+    ["IC654", "", "Gx", "10 53.8", "-11 44"],
+    ["IC655", "", "Gx", "10 54.4", "-00 22"],
+    ["IC657", "", "Gx", "10 57.9", "-04 54"],
+    ["IC658", "", "Gx", "10 58.3", "+08 14"],
+    ["IC659", "", "Gx", "10 58.1", "-06 16"],
+    ["IC660", "", "Gx", "10 58.4", "+01 23"],
+    ["IC661", "", "Gx", "10 58.9", "+01 39"],
+    ["IC662", "", "Gx", "10 59.3", "+01 36"],
+    ["IC663", "", "Gx", "11 00.6", "+10 26"],
+    ["IC664", "", "Gx", "11 00.8", "+10 33"],
+    ["IC666", "", "Gx", "11 01.2", "+10 29"],
+    ["IC667", "", "Gx", "11 06.6", "+15 05"],
+    ["IC668", "", "Gx", "11 06.7", "+15 02"],
+    ["IC669", "", "Gx", "11 07.3", "+06 18"],
+    ["IC670", "", "Gx", "11 07.5", "+06 43"],
+    ["IC671", "", "Gx", "11 07.5", "+00 47"],
+    ["IC672", "", "Gx", "11 08.1", "-12 29"],
+    ["IC673", "", "Gx", "11 09.4", "-00 06"],
+    ["IC674", "", "Gx", "11 11.1", "+43 38"],
+    ["IC676", "", "Gx", "11 12.7", "+09 03"],
+    ["IC677", "", "Gx", "11 13.9", "+12 18"],
+    ["IC678", "", "Gx", "11 14.1", "+06 35"],
+    ["IC680", "", "Gx", "11 17.9", "-01 57"],
+    ["IC681", "", "Gx", "11 18.5", "-12 08"],
+    ["IC683", "", "Gx", "11 21.4", "+02 45"],
+    ["IC686", "", "Gx", "11 23.1", "+05 39"],
+    ["IC687", "", "Gx", "11 24.3", "+47 51"],
+    ["IC690", "", "Gx", "11 24.3", "-08 21"],
+    ["IC691", "", "Gx", "11 26.7", "+59 09"],
+    ["IC692", "", "Gx", "11 25.9", "+09 59"],
+    ["IC693", "", "Gx", "11 26.8", "-05 00"],
+    ["IC694", "", "Gx", "11 28.5", "+58 35"],
+    ["IC696", "", "Gx", "11 28.7", "+09 06"],
+    ["IC697", "", "Gx", "11 28.6", "-01 38"],
+    ["IC698", "", "Gx", "11 29.1", "+09 07"],
+    ["IC699", "", "Gx", "11 29.1", "+08 59"],
+    ["IC700", "", "Gx", "11 29.3", "+20 35"],
+    ["IC701", "", "Gx", "11 31.0", "+20 28"],
+    ["IC705", "", "Gx", "11 32.9", "+50 15"],
+    ["IC706", "", "Gx", "11 33.2", "-13 20"],
+    ["IC707", "", "Gx", "11 33.7", "+21 23"],
+    ["IC708", "Papillon", "Gx", "11 34.0", "+49 04"],
+    ["IC709", "", "Gx", "11 34.2", "+49 03"],
+    ["IC710", "", "Gx", "11 34.5", "+25 53"],
+    ["IC711", "", "Gx", "11 34.8", "+48 57"],
+    ["IC712", "", "Gx", "11 34.8", "+49 05"],
+    ["IC716", "", "Gx", "11 39.1", "-00 12"],
+    ["IC718", "", "Gx", "11 39.9", "+08 52"],
+    ["IC719", "", "Gx", "11 40.3", "+09 01"],
+    ["IC720", "", "Gx", "11 42.4", "+08 46"],
+    ["IC721", "", "Gx", "11 42.5", "-08 20"],
+    ["IC722", "", "Gx", "11 42.7", "+08 58"],
+    ["IC723", "", "Gx", "11 43.0", "-08 20"],
+    ["IC724", "", "Gx", "11 43.6", "+08 57"],
+    ["IC725", "", "Gx", "11 43.5", "-01 40"],
+    ["IC727", "", "Gx", "11 44.5", "+10 47"],
+    ["IC728", "", "Gx", "11 44.8", "-01 36"],
+    ["IC729", "", "Gx", "11 45.3", "+33 20"],
+    ["IC731", "", "Gx", "11 45.3", "+49 34"],
+    ["IC732", "", "Gx", "11 46.0", "+20 26"],
+    ["IC734", "", "Gx", "11 46.1", "-08 16"],
+    ["IC736", "", "Gx", "11 48.3", "+12 43"],
+    ["IC737", "", "Gx", "11 48.5", "+12 44"],
+    ["IC739", "", "Gx", "11 51.5", "+23 52"],
+    ["IC741", "", "Gx", "11 50.5", "-04 50"],
+    ["IC742", "", "Gx", "11 51.0", "+20 48"],
+    ["IC743", "", "Gx", "11 53.4", "-13 16"],
+    ["IC744", "", "Gx", "11 54.1", "+23 12"],
+    ["IC745", "", "Gx", "11 54.2", "+00 08"],
+    ["IC746", "", "Gx", "11 55.6", "+25 53"],
+    ["IC747", "", "Gx", "11 57.1", "-08 18"],
+    ["IC748", "", "Gx", "11 57.4", "+07 28"],
+    ["IC749", "", "Gx", "11 58.6", "+42 44"],
+    ["IC750", "", "Gx", "11 58.9", "+42 43"],
+    ["IC751", "", "Gx", "11 58.9", "+42 34"],
+    ["IC752", "", "Gx", "11 59.3", "+42 34"],
+    ["IC753", "", "Gx", "11 59.2", "-00 31"],
+    ["IC754", "", "Gx", "11 59.4", "-01 39"],
+    ["IC756", "", "Gx", "12 03.0", "+04 51"],
+    ["IC758", "", "Gx", "12 04.2", "+62 30"],
+    ["IC760", "", "Gx", "12 05.9", "-29 18"],
+    ["IC761", "", "Gx", "12 05.9", "-12 40"],
+    ["IC762", "", "Gx", "12 08.2", "+25 45"],
+    ["IC763", "", "Gx", "12 08.3", "+25 49"],
+    ["IC764", "", "Gx", "12 10.2", "-29 44"],
+    ["IC766", "", "Gx", "12 10.9", "-12 39"],
+    ["IC767", "", "Gx", "12 11.0", "+12 06"],
+    ["IC768", "", "Gx", "12 11.8", "+12 09"],
+    ["IC769", "", "Gx", "12 12.5", "+12 07"],
+    ["IC770", "", "Gx", "12 13.0", "-04 33"],
+    ["IC771", "", "Gx", "12 15.2", "+13 11"],
+    ["IC773", "", "Gx", "12 18.1", "+06 08"],
+    ["IC774", "", "Gx", "12 18.9", "-06 46"],
+    ["IC775", "", "Gx", "12 18.9", "+12 55"],
+    ["IC776", "", "Gx", "12 19.1", "+08 51"],
+    ["IC777", "", "Gx", "12 19.4", "+28 19"],
+    ["IC779", "", "Gx", "12 19.6", "+29 53"],
+    ["IC780", "", "Gx", "12 20.0", "+25 46"],
+    ["IC781", "", "Gx", "12 20.1", "+14 58"],
+    ["IC782", "", "Gx", "12 21.6", "+05 46"],
+    ["IC783", "", "Gx", "12 21.6", "+15 45"],
+    ["IC784", "", "Gx", "12 22.5", "-04 39"],
+    ["IC785", "", "Gx", "12 23.0", "-13 13"],
+    ["IC786", "", "Gx", "12 23.2", "-13 12"],
+    ["IC787", "", "Gx", "12 25.4", "+16 07"],
+    ["IC789", "", "Gx", "12 26.3", "+07 28"],
+    ["IC791", "", "Gx", "12 27.0", "+22 38"],
+    ["IC792", "", "Gx", "12 27.1", "+16 20"],
+    ["IC794", "", "Gx", "12 28.1", "+12 06"],
+    ["IC795", "", "Gx", "12 28.5", "+23 18"],
+    ["IC796", "", "Gx", "12 29.4", "+16 24"],
+    ["IC797", "", "Gx", "12 31.9", "+15 07"],
+    ["IC798", "", "Gx", "12 32.6", "+15 25"],
+    ["IC800", "", "Gx", "12 33.9", "+15 21"],
+    ["IC801", "", "Gx", "12 33.8", "+52 15"],
+    ["IC803", "", "Gx", "12 39.6", "+16 35"],
+    ["IC806", "", "Gx", "12 42.1", "-17 21"],
+    ["IC807", "", "Gx", "12 42.2", "-17 24"],
+    ["IC810", "", "Gx", "12 42.2", "+12 36"],
+    ["IC812", "", "Gx", "12 44.8", "-04 26"],
+    ["IC813", "", "Gx", "12 45.2", "+23 02"],
+    ["IC815", "", "Gx", "12 46.4", "+11 53"],
+    ["IC816", "", "Gx", "12 46.8", "+09 51"],
+    ["IC818", "", "Gx", "12 46.7", "+29 44"],
+    ["IC821", "", "Gx", "12 47.4", "+29 47"],
+    ["IC822", "", "Gx", "12 47.8", "+30 05"],
+    ["IC824", "", "Gx", "12 49.7", "-04 35"],
+    ["IC826", "", "Gx", "12 51.3", "+31 04"],
+    ["IC827", "", "Gx", "12 51.9", "+16 17"],
+    ["IC829", "", "Gx", "12 52.5", "-15 31"],
+    ["IC830", "", "Gx", "12 51.3", "+53 42"],
+    ["IC831", "", "Gx", "12 52.7", "+26 28"],
+    ["IC832", "", "Gx", "12 54.0", "+26 27"],
+    ["IC834", "", "Gx", "12 56.3", "+26 22"],
+    ["IC835", "", "Gx", "12 56.9", "+26 29"],
+    ["IC836", "", "Gx", "12 55.9", "+63 37"],
+    ["IC837", "", "Gx", "12 57.5", "+26 31"],
+    ["IC838", "", "Gx", "12 58.2", "+26 26"],
+    ["IC840", "", "Gx", "12 58.7", "+10 37"],
+    ["IC841", "", "Gx", "12 59.8", "+21 49"],
+    ["IC842", "", "Gx", "13 00.7", "+29 01"],
+    ["IC843", "", "Gx", "13 01.6", "+29 08"],
+    ["IC844", "", "Gx", "13 03.3", "-30 31"],
+    ["IC846", "", "Gx", "13 05.4", "+23 06"],
+    ["IC847", "", "Gx", "13 05.5", "+53 41"],
+    ["IC848", "", "Gx", "13 07.0", "+16 00"],
+    ["IC849", "", "Gx", "13 07.6", "-00 57"],
+    ["IC850", "", "Gx", "13 07.8", "-00 52"],
+    ["IC851", "", "Gx", "13 08.6", "+21 03"],
+    ["IC852", "", "Gx", "13 07.6", "+60 09"],
+    ["IC853", "", "Gx", "13 08.7", "+52 46"],
+    ["IC854", "", "Gx", "13 09.8", "+24 35"],
+    ["IC855", "", "Gx", "13 10.6", "-04 29"],
+    ["IC856", "", "Gx", "13 10.7", "+20 32"],
+    ["IC857", "", "Gx", "13 13.8", "+17 05"],
+    ["IC858", "", "Gx", "13 14.9", "+17 14"],
+    ["IC859", "", "Gx", "13 15.0", "+17 14"],
+    ["IC860", "", "Gx", "13 15.1", "+24 37"],
+    ["IC861", "", "Gx", "13 15.1", "+34 20"],
+    ["IC862", "", "Gx", "13 16.3", "+20 03"],
+    ["IC863", "", "Gx", "13 17.2", "-17 15"],
+    ["IC866", "", "Gx", "13 17.3", "+20 41"],
+    ["IC867", "", "Gx", "13 17.3", "+20 38"],
+    ["IC868", "", "Gx", "13 17.5", "+20 37"],
+    ["IC870", "", "Gx", "13 17.5", "+20 36"],
+    ["IC871", "", "Gx", "13 18.0", "+04 24"],
+    ["IC872", "", "Gx", "13 18.3", "+06 20"],
+    ["IC873", "", "Gx", "13 18.3", "+04 28"],
+    ["IC874", "", "Gx", "13 19.0", "-27 38"],
+    ["IC875", "", "Gx", "13 17.1", "+57 32"],
+    ["IC876", "", "Gx", "13 18.6", "+04 29"],
+    ["IC881", "", "Gx", "13 19.9", "+15 51"],
+    ["IC882", "", "Gx", "13 20.1", "+15 54"],
+    ["IC883", "", "Gx", "13 20.6", "+34 08"],
+    ["IC885", "", "Gx", "13 22.5", "+21 19"],
+    ["IC889", "", "Gx", "13 26.6", "+11 52"],
+    ["IC891", "", "Gx", "13 30.0", "+00 18"],
+    ["IC892", "", "Gx", "13 31.8", "-02 43"],
+    ["IC893", "", "Gx", "13 31.8", "-02 37"],
+    ["IC894", "", "Gx", "13 32.1", "+17 03"],
+    ["IC896", "", "Gx", "13 34.2", "+04 52"],
+    ["IC897", "", "Gx", "13 33.9", "+17 43"],
+    ["IC898", "", "Gx", "13 34.2", "+13 10"],
+    ["IC900", "", "Gx", "13 34.7", "+09 20"],
+    ["IC901", "", "Gx", "13 35.7", "+13 20"],
+    ["IC902", "", "Gx", "13 36.0", "+49 58"],
+    ["IC903", "", "Gx", "13 38.4", "-00 14"],
+    ["IC904", "", "Gx", "13 38.5", "+00 32"],
+    ["IC905", "", "Gx", "13 40.0", "+23 09"],
+    ["IC906", "", "Gx", "13 40.2", "+23 20"],
+    ["IC907", "", "Gx", "13 39.4", "+51 03"],
+    ["IC908", "", "Gx", "13 41.3", "-04 21"],
+    ["IC909", "", "Gx", "13 40.9", "+24 28"],
+    ["IC910", "", "Gx", "13 41.1", "+23 17"],
+    ["IC911", "", "Gx", "13 41.4", "+23 15"],
+    ["IC912", "", "Gx", "13 41.5", "+23 15"],
+    ["IC913", "", "Gx", "13 41.5", "+23 10"],
+    ["IC914", "", "Gx", "13 41.7", "+23 11"],
+    ["IC916", "", "Gx", "13 42.6", "+24 28"],
+    ["IC919", "", "Gx", "13 42.8", "+55 31"],
+    ["IC920", "", "Gx", "13 45.4", "-12 34"],
+    ["IC933", "", "Gx", "13 45.3", "+23 13"],
+    ["IC939", "", "Gx", "13 47.7", "+03 25"],
+    ["IC940", "", "Gx", "13 48.0", "+03 27"],
+    ["IC941", "", "Gx", "13 48.6", "+24 01"],
+    ["IC942", "", "Gx", "13 47.7", "+56 37"],
+    ["IC943", "", "Gx", "13 50.5", "+03 12"],
+    ["IC944", "", "Gx", "13 51.5", "+14 06"],
+    ["IC945", "", "Gx", "13 47.8", "+72 03"],
+    ["IC946", "", "Gx", "13 52.1", "+14 07"],
+    ["IC947", "", "Gx", "13 52.6", "+00 49"],
+    ["IC948", "", "Gx", "13 52.4", "+14 05"],
+    ["IC949", "", "Gx", "13 52.3", "+22 31"],
+    ["IC950", "", "Gx", "13 52.4", "+14 29"],
+    ["IC951", "", "Gx", "13 51.8", "+50 59"],
+    ["IC952", "", "Gx", "13 53.7", "+03 23"],
+    ["IC954", "", "Gx", "13 49.9", "+71 10"],
+    ["IC956", "", "Gx", "13 54.7", "+20 43"],
+    ["IC959", "", "Gx", "13 56.1", "+13 30"],
+    ["IC960", "", "Gx", "13 56.0", "+17 30"],
+    ["IC961", "", "Gx", "13 55.8", "+25 50"],
+    ["IC962", "", "Gx", "13 57.2", "+12 01"],
+    ["IC963", "", "Gx", "13 57.4", "+17 24"],
+    ["IC964", "", "Gx", "13 57.7", "+17 31"],
+    ["IC965", "", "Gx", "13 57.8", "+17 31"],
+    ["IC966", "", "Gx", "13 58.2", "+05 24"],
+    ["IC967", "", "Gx", "13 58.4", "+14 27"],
+    ["IC968", "", "Gx", "14 00.6", "-02 55"],
+    ["IC970", "", "Gx", "14 02.6", "+14 33"],
+    ["IC971", "", "Gx", "14 03.9", "-10 08"],
+    ["IC972", "", "PN", "14 04.4", "-17 14"],
+    ["IC975", "", "Gx", "14 07.1", "+15 19"],
+    ["IC976", "", "Gx", "14 08.7", "-01 10"],
+    ["IC977", "", "Gx", "14 08.7", "-03 00"],
+    ["IC978", "", "Gx", "14 09.0", "-02 58"],
+    ["IC979", "", "Gx", "14 09.5", "+14 50"],
+    ["IC982", "", "Gx", "14 10.0", "+17 42"],
+    ["IC983", "", "Gx", "14 10.1", "+17 44"],
+    ["IC984", "", "Gx", "14 10.1", "+18 22"],
+    ["IC985", "", "Gx", "14 11.5", "-03 13"],
+    ["IC986", "", "Gx", "14 11.4", "+01 17"],
+    ["IC987", "", "Gx", "14 11.5", "+19 10"],
+    ["IC988", "", "Gx", "14 14.5", "+03 11"],
+    ["IC989", "", "Gx", "14 14.9", "+03 08"],
+    ["IC990", "", "Gx", "14 15.8", "+39 48"],
+    ["IC991", "", "Gx", "14 17.8", "-13 52"],
+    ["IC992", "", "Gx", "14 18.2", "+00 53"],
+    ["IC993", "", "Gx", "14 18.3", "+11 13"],
+    ["IC994", "", "Gx", "14 18.4", "+11 12"],
+    ["IC995", "", "Gx", "14 16.5", "+57 49"],
+    ["IC996", "", "Gx", "14 17.4", "+57 38"],
+    ["IC997", "", "Gx", "14 20.0", "-04 27"],
+    ["IC999", "", "Gx", "14 19.5", "+17 53"],
+    ["IC1000", "", "Gx", "14 19.7", "+17 51"],
+    ["IC1004", "", "Gx", "14 21.0", "+17 42"],
+    ["IC1006", "", "Gx", "14 23.0", "+23 48"],
+    ["IC1007", "", "Gx", "14 24.6", "+04 34"],
+    ["IC1008", "", "Gx", "14 25.6", "+28 15"],
+    ["IC1009", "", "Gx", "14 26.5", "+11 10"],
+    ["IC1010", "", "Gx", "14 27.3", "+01 02"],
+    ["IC1011", "", "Gx", "14 28.1", "+01 00"],
+    ["IC1012", "", "Gx", "14 27.2", "+30 57"],
+    ["IC1014", "", "Gx", "14 28.3", "+13 47"],
+    ["IC1015", "", "Gx", "14 28.3", "+15 25"],
+    ["IC1016", "", "Gx", "14 27.5", "+04 49"],
+    ["IC1017", "", "Gx", "14 28.1", "+25 52"],
+    ["IC1018", "", "Gx", "14 28.2", "+25 50"],
+    ["IC1019", "", "Gx", "14 28.2", "+25 57"],
+    ["IC1020", "", "Gx", "14 28.8", "+26 02"],
+    ["IC1021", "", "Gx", "14 29.3", "+20 39"],
+    ["IC1022", "", "Gx", "14 30.0", "+03 46"],
+    ["IC1024", "", "Gx", "14 31.5", "+03 01"],
+    ["IC1025", "", "Gx", "14 31.5", "+07 04"],
+    ["IC1027", "", "Gx", "14 29.8", "+53 58"],
+    ["IC1028", "", "Gx", "14 33.3", "+41 39"],
+    ["IC1029", "", "Gx", "14 32.5", "+49 54"],
+    ["IC1031", "", "Gx", "14 34.4", "+48 02"],
+    ["IC1032", "", "Gx", "14 34.7", "+47 58"],
+    ["IC1033", "", "Gx", "14 34.7", "+47 56"],
+    ["IC1034", "", "Gx", "14 37.2", "+14 40"],
+    ["IC1035", "", "Gx", "14 38.2", "+09 20"],
+    ["IC1036", "", "Gx", "14 38.4", "+18 07"],
+    ["IC1037", "", "Gx", "14 38.4", "+18 11"],
+    ["IC1038", "", "Gx", "14 40.1", "+13 23"],
+    ["IC1039", "", "Gx", "14 40.5", "+03 26"],
+    ["IC1040", "", "Gx", "14 40.4", "+09 29"],
+    ["IC1041", "", "Gx", "14 40.6", "+03 23"],
+    ["IC1042", "", "Gx", "14 40.7", "+03 28"],
+    ["IC1043", "", "Gx", "14 40.7", "+03 22"],
+    ["IC1044", "", "Gx", "14 41.5", "+09 26"],
+    ["IC1046", "", "Gx", "14 37.9", "+69 01"],
+    ["IC1047", "", "Gx", "14 42.3", "+19 12"],
+    ["IC1048", "", "Gx", "14 43.0", "+04 53"],
+    ["IC1049", "", "Gx", "14 39.6", "+62 00"],
+    ["IC1050", "", "Gx", "14 44.1", "+18 01"],
+    ["IC1051", "", "Gx", "14 44.2", "+19 01"],
+    ["IC1052", "", "Gx", "14 44.2", "+20 37"],
+    ["IC1053", "", "Gx", "14 45.7", "+16 57"],
+    ["IC1054", "", "Gx", "14 46.5", "+01 16"],
+    ["IC1055", "", "Gx", "14 47.4", "-13 43"],
+    ["IC1056", "", "Gx", "14 45.8", "+50 24"],
+    ["IC1058", "", "Gx", "14 49.2", "+17 01"],
+    ["IC1059", "", "Gx", "14 50.7", "-00 53"],
+    ["IC1060", "", "Gx", "14 51.8", "-07 14"],
+    ["IC1062", "", "Gx", "14 51.2", "+18 35"],
+    ["IC1063", "", "Gx", "14 52.2", "+04 41"],
+    ["IC1065", "", "Gx", "14 49.4", "+63 16"],
+    ["IC1066", "", "Gx", "14 53.0", "+03 18"],
+    ["IC1067", "", "Gx", "14 53.1", "+03 20"],
+    ["IC1068", "", "Gx", "14 53.5", "+03 05"],
+    ["IC1069", "", "Gx", "14 50.8", "+54 25"],
+    ["IC1070", "", "Gx", "14 53.9", "+03 29"],
+    ["IC1071", "", "Gx", "14 54.2", "+04 45"],
+    ["IC1072", "", "Gx", "14 54.2", "+04 50"],
+    ["IC1073", "", "Gx", "14 54.2", "+04 48"],
+    ["IC1074", "", "Gx", "14 52.0", "+51 16"],
+    ["IC1075", "", "Gx", "14 54.8", "+18 06"],
+    ["IC1076", "", "Gx", "14 55.0", "+18 02"],
+    ["IC1077", "", "Gx", "14 57.4", "-19 13"],
+    ["IC1078", "", "Gx", "14 56.5", "+09 21"],
+    ["IC1079", "", "Gx", "14 56.6", "+09 22"],
+    ["IC1080", "", "Gx", "14 58.0", "-06 43"],
+    ["IC1081", "", "Gx", "14 58.9", "-19 14"],
+    ["IC1082", "", "Gx", "14 58.9", "+07 00"],
+    ["IC1083", "", "Gx", "14 55.6", "+68 25"],
+    ["IC1084", "", "Gx", "15 01.2", "-07 28"],
+    ["IC1085", "", "Gx", "15 02.7", "+17 15"],
+    ["IC1086", "", "Gx", "15 03.5", "+17 07"],
+    ["IC1087", "", "Gx", "15 06.7", "+03 47"],
+    ["IC1088", "", "Gx", "15 06.8", "+03 46"],
+    ["IC1089", "", "Gx", "15 07.4", "+07 07"],
+    ["IC1090", "", "Gx", "15 03.8", "+42 42"],
+    ["IC1091", "", "Gx", "15 08.2", "-11 08"],
+    ["IC1092", "", "Gx", "15 07.6", "+09 21"],
+    ["IC1093", "", "Gx", "15 07.6", "+14 33"],
+    ["IC1094", "", "Gx", "15 07.7", "+14 38"],
+    ["IC1096", "", "Gx", "15 08.4", "+19 12"],
+    ["IC1097", "", "Gx", "15 08.5", "+19 11"],
+    ["IC1099", "", "Gx", "15 06.9", "+56 31"],
+    ["IC1100", "", "Gx", "15 06.3", "+62 59"],
+    ["IC1101", "", "Gx", "15 10.9", "+05 45"],
+    ["IC1102", "", "Gx", "15 11.1", "+04 18"],
+    ["IC1105", "", "Gx", "15 13.2", "+04 17"],
+    ["IC1106", "", "Gx", "15 13.9", "+04 43"],
+    ["IC1107", "", "Gx", "15 14.1", "+04 43"],
+    ["IC1109", "", "Gx", "15 17.1", "+05 15"],
+    ["IC1110", "", "Gx", "15 12.1", "+67 22"],
+    ["IC1111", "", "Gx", "15 16.0", "+54 29"],
+    ["IC1112", "", "Gx", "15 17.8", "+07 13"],
+    ["IC1113", "", "Gx", "15 18.3", "+12 29"],
+    ["IC1116", "", "Gx", "15 21.9", "+08 25"],
+    ["IC1117", "", "Gx", "15 24.4", "+15 29"],
+    ["IC1118", "", "Gx", "15 25.0", "+13 27"],
+    ["IC1119", "", "Gx", "15 25.7", "-03 39"],
+    ["IC1121", "", "Gx", "15 27.7", "+06 48"],
+    ["IC1124", "", "Gx", "15 30.0", "+23 38"],
+    ["IC1128", "", "Gx", "15 37.9", "-01 44"],
+    ["IC1129", "", "Gx", "15 32.0", "+68 15"],
+    ["IC1130", "", "Gx", "15 37.7", "+17 15"],
+    ["IC1131", "", "Gx", "15 38.9", "+12 05"],
+    ["IC1132", "", "Gx", "15 40.1", "+20 41"],
+    ["IC1133", "", "Gx", "15 41.2", "+15 34"],
+    ["IC1134", "", "Gx", "15 45.0", "+16 58"],
+    ["IC1135", "", "Gx", "15 45.7", "+17 41"],
+    ["IC1136", "", "Gx", "15 47.6", "-01 33"],
+    ["IC1137", "", "Gx", "15 48.5", "+08 35"],
+    ["IC1138", "", "Gx", "15 48.3", "+26 12"],
+    ["IC1139", "", "Gx", "15 29.4", "+82 35"],
+    ["IC1141", "", "Gx", "15 49.8", "+12 24"],
+    ["IC1142", "", "Gx", "15 50.4", "+18 08"],
+    ["IC1143", "", "Gx", "15 30.9", "+82 27"],
+    ["IC1144", "", "Gx", "15 51.4", "+43 25"],
+    ["IC1145", "", "Gx", "15 44.1", "+72 26"],
+    ["IC1146", "", "Gx", "15 48.4", "+69 23"],
+    ["IC1147", "", "Gx", "15 50.2", "+69 34"],
+    ["IC1149", "", "Gx", "15 58.1", "+12 04"],
+    ["IC1151", "", "Gx", "15 58.5", "+17 26"],
+    ["IC1152", "", "Gx", "15 56.7", "+48 06"],
+    ["IC1153", "", "Gx", "15 57.0", "+48 10"],
+    ["IC1154", "", "Gx", "15 52.5", "+70 23"],
+    ["IC1155", "", "Gx", "16 00.6", "+15 41"],
+    ["IC1156", "", "Gx", "16 00.6", "+19 43"],
+    ["IC1157", "", "Gx", "16 00.9", "+15 32"],
+    ["IC1158", "", "Gx", "16 01.6", "+01 42"],
+    ["IC1160", "", "Gx", "16 01.0", "+15 30"],
+    ["IC1161", "", "Gx", "16 01.3", "+15 39"],
+    ["IC1162", "", "Gx", "16 01.3", "+17 41"],
+    ["IC1163", "", "Gx", "16 01.5", "+15 30"],
+    ["IC1165", "", "Gx", "16 02.1", "+15 42"],
+    ["IC1166", "", "Gx", "16 02.1", "+26 20"],
+    ["IC1167", "", "Gx", "16 03.9", "+14 57"],
+    ["IC1168", "", "Gx", "16 03.9", "+14 54"],
+    ["IC1169", "", "Gx", "16 04.2", "+13 45"],
+    ["IC1170", "", "Gx", "16 04.5", "+17 43"],
+    ["IC1173", "", "Gx", "16 05.2", "+17 25"],
+    ["IC1174", "", "Gx", "16 05.4", "+15 02"],
+    ["IC1177", "", "Gx", "16 05.3", "+18 19"],
+    ["IC1178", "", "Gx", "16 05.6", "+17 36"],
+    ["IC1179", "", "Gx", "16 05.4", "+17 45"],
+    ["IC1181", "", "Gx", "16 05.6", "+17 36"],
+    ["IC1182", "", "Gx", "16 05.6", "+17 48"],
+    ["IC1183", "", "Gx", "16 05.6", "+17 46"],
+    ["IC1185", "", "Gx", "16 05.7", "+17 43"],
+    ["IC1186", "", "Gx", "16 05.7", "+17 22"],
+    ["IC1187", "", "Gx", "15 59.2", "+70 33"],
+    ["IC1189", "", "Gx", "16 06.2", "+18 11"],
+    ["IC1191", "", "Gx", "16 06.5", "+18 16"],
+    ["IC1192", "", "Gx", "16 06.6", "+17 47"],
+    ["IC1193", "", "Gx", "16 06.5", "+17 43"],
+    ["IC1194", "", "Gx", "16 06.7", "+17 46"],
+    ["IC1195", "", "Gx", "16 06.7", "+17 12"],
+    ["IC1196", "", "Gx", "16 08.0", "+10 47"],
+    ["IC1197", "", "Gx", "16 08.3", "+07 32"],
+    ["IC1198", "", "Gx", "16 08.6", "+12 20"],
+    ["IC1199", "", "Gx", "16 10.6", "+10 02"],
+    ["IC1201", "", "Gx", "16 05.7", "+69 36"],
+    ["IC1204", "", "Gx", "16 07.3", "+69 56"],
+    ["IC1205", "", "Gx", "16 14.3", "+09 32"],
+    ["IC1206", "", "Gx", "16 15.2", "+11 18"],
+    ["IC1208", "", "Gx", "16 15.8", "+36 32"],
+    ["IC1209", "", "Gx", "16 18.7", "+15 33"],
+    ["IC1211", "", "Gx", "16 16.9", "+53 00"],
+    ["IC1212", "", "Gx", "16 15.5", "+64 14"],
+    ["IC1214", "", "Gx", "16 16.2", "+65 58"],
+    ["IC1215", "", "Gx", "16 15.6", "+68 24"],
+    ["IC1216", "", "Gx", "16 15.9", "+68 21"],
+    ["IC1218", "", "Gx", "16 16.6", "+68 12"],
+    ["IC1219", "", "Gx", "16 24.5", "+19 29"],
+    ["IC1220", "", "Gx", "16 29.6", "+08 27"],
+    ["IC1221", "", "Gx", "16 34.7", "+46 24"],
+    ["IC1222", "", "Gx", "16 35.2", "+46 13"],
+    ["IC1223", "", "Gx", "16 35.7", "+49 13"],
+    ["IC1224", "", "Gx", "16 42.9", "+19 15"],
+    ["IC1225", "", "Gx", "16 36.9", "+67 38"],
+    ["IC1226", "", "Gx", "16 41.1", "+46 00"],
+    ["IC1228", "", "Gx", "16 42.1", "+65 35"],
+    ["IC1229", "", "Gx", "16 45.0", "+51 18"],
+    ["IC1230", "", "Gx", "16 45.0", "+51 16"],
+    ["IC1231", "", "Gx", "16 47.0", "+58 25"],
+    ["IC1235", "", "Gx", "16 52.0", "+63 07"],
+    ["IC1236", "", "Gx", "16 58.5", "+20 02"],
+    ["IC1237", "", "Gx", "16 56.3", "+55 02"],
+    ["IC1241", "", "Gx", "17 01.5", "+63 41"],
+    ["IC1242", "", "Gx", "17 08.7", "+04 03"],
+    ["IC1244", "", "Gx", "17 10.6", "+36 18"],
+    ["IC1245", "", "Gx", "17 12.6", "+38 01"],
+    ["IC1248", "", "Gx", "17 11.7", "+60 00"],
+    ["IC1249", "", "Gx", "17 14.9", "+35 31"],
+    ["IC1251", "", "Gx", "17 10.2", "+72 25"],
+    ["IC1252", "", "Gx", "17 15.8", "+57 22"],
+    ["IC1254", "", "Gx", "17 11.6", "+72 24"],
+    ["IC1255", "", "Gx", "17 23.1", "+12 42"],
+    ["IC1256", "", "Gx", "17 23.8", "+26 29"],
+    ["IC1258", "", "Gx", "17 27.3", "+58 29"],
+    ["IC1259", "", "Gx", "17 27.4", "+58 31"],
+    ["IC1260", "", "Gx", "17 27.5", "+58 29"],
+    ["IC1261", "", "Gx", "17 23.4", "+71 16"],
+    ["IC1262", "", "Gx", "17 33.0", "+43 46"],
+    ["IC1263", "", "Gx", "17 33.1", "+43 49"],
+    ["IC1264", "", "Gx", "17 33.3", "+43 38"],
+    ["IC1265", "", "Gx", "17 36.7", "+42 05"],
+    ["IC1266", "", "PN", "17 45.6", "-46 05"],
+    ["IC1267", "", "Gx", "17 38.8", "+59 22"],
+    ["IC1268", "", "Gx", "17 50.7", "+17 13"],
+    ["IC1269", "", "Gx", "17 52.1", "+21 34"],
+    ["IC1274", "", "Neb", "18 11.2", "-23 48"],
+    ["IC1275", "", "Neb", "18 10.1", "-23 46"],
+    ["IC1277", "", "Gx", "18 10.5", "+31 00"],
+    ["IC1279", "", "Gx", "18 11.3", "+36 00"],
+    ["IC1280", "", "Gx", "18 12.3", "+25 40"],
+    ["IC1281", "", "Gx", "18 11.6", "+36 00"],
+    ["IC1283", "", "Neb", "18 17.2", "-19 30"],
+    ["IC1284", "", "Neb", "18 17.7", "-19 40"],
+    ["IC1286", "", "Gx", "18 16.2", "+55 35"],
+    ["IC1287", "", "Neb", "18 32.0", "-10 48"],
+    ["IC1288", "", "Gx", "18 29.4", "+39 43"],
+    ["IC1289", "", "Gx", "18 30.0", "+39 58"],
+    ["IC1291", "", "Gx", "18 33.9", "+49 17"],
+    ["IC1295", "", "PN", "18 54.6", "-08 50"],
+    ["IC1296", "", "Gx", "18 53.3", "+33 04"],
+    ["IC1297", "", "PN", "19 17.4", "-39 37"],
+    ["IC1301", "", "Gx", "19 26.6", "+49 46"],
+    ["IC1302", "", "Gx", "19 30.9", "+35 47"],
+    ["IC1303", "", "Gx", "19 31.5", "+35 53"],
+    ["IC1309", "", "Gx", "20 03.0", "-17 14"],
+    ["IC1310", "", "EN", "20 10.1", "+34 58"],
+    ["IC1311", "", "OC", "20 10.8", "+41 11"],
+    ["IC1313", "", "Gx", "20 18.7", "-16 57"],
+    ["IC1317", "", "Gx", "20 23.3", "+00 40"],
+    ["IC1318", "γ Cyg Nebula", "Neb", "20 16.8", "+41 57"],
+    ["IC1319", "", "Gx", "20 26.0", "-18 30"],
+    ["IC1320", "", "Gx", "20 26.4", "+02 55"],
+    ["IC1321", "", "Gx", "20 28.2", "-18 17"],
+    ["IC1324", "", "Gx", "20 32.2", "-09 03"],
+    ["IC1327", "", "Gx", "20 35.7", "-00 00"],
+    ["IC1328", "", "Gx", "20 42.0", "-19 38"],
+    ["IC1330", "", "Gx", "20 46.2", "-14 01"],
+    ["IC1331", "", "Gx", "20 47.8", "-10 00"],
+    ["IC1332", "", "Gx", "20 51.9", "-13 43"],
+    ["IC1334", "", "Gx", "20 52.3", "-16 17"],
+    ["IC1336", "", "Gx", "20 55.1", "-18 02"],
+    ["IC1337", "", "Gx", "20 56.9", "-16 35"],
+    ["IC1338", "", "Gx", "20 57.0", "-16 30"],
+    ["IC1339", "", "Gx", "20 57.9", "-17 57"],
+    ["IC1341", "", "Gx", "21 00.3", "-13 59"],
+    ["IC1342", "", "Gx", "21 00.4", "-14 30"],
+    ["IC1344", "", "Gx", "21 01.3", "-13 23"],
+    ["IC1346", "", "Gx", "21 01.6", "-13 58"],
+    ["IC1347", "", "Gx", "21 01.7", "-13 19"],
+    ["IC1350", "", "Gx", "21 01.9", "-13 51"],
+    ["IC1356", "", "Gx", "21 02.9", "-15 49"],
+    ["IC1357", "", "Gx", "21 06.0", "-10 43"],
+    ["IC1359", "", "Gx", "21 08.7", "+12 29"],
+    ["IC1360", "", "Gx", "21 10.8", "+05 04"],
+    ["IC1361", "", "Gx", "21 11.5", "+05 03"],
+    ["IC1362", "", "Gx", "21 11.9", "+02 20"],
+    ["IC1364", "", "Gx", "21 13.4", "+02 46"],
+    ["IC1365", "ZW II 108 Group", "Gx", "21 13.9", "+02 34"],
+    ["IC1366", "", "Gx", "21 14.1", "+01 47"],
+    ["IC1367", "", "Gx", "21 14.2", "+03 00"],
+    ["IC1368", "", "Gx", "21 14.2", "+02 11"],
+    ["IC1369", "", "OC", "21 12.2", "+47 45"],
+    ["IC1370", "", "Gx", "21 15.2", "+02 12"],
+    ["IC1371", "", "Gx", "21 20.3", "-04 53"],
+    ["IC1373", "", "Gx", "21 20.6", "+01 06"],
+    ["IC1374", "", "Gx", "21 21.0", "+01 43"],
+    ["IC1375", "", "Gx", "21 21.0", "+03 59"],
+    ["IC1377", "", "Gx", "21 25.4", "+04 19"],
+    ["IC1379", "", "Gx", "21 26.0", "+03 06"],
+    ["IC1380", "", "Gx", "21 27.2", "+02 43"],
+    ["IC1381", "", "Gx", "21 27.6", "-01 11"],
+    ["IC1383", "", "Gx", "21 27.7", "-01 06"],
+    ["IC1384", "", "Gx", "21 27.9", "-01 22"],
+    ["IC1385", "", "Gx", "21 28.9", "-01 04"],
+    ["IC1386", "", "Gx", "21 29.6", "-21 12"],
+    ["IC1387", "", "Gx", "21 29.6", "-01 21"],
+    ["IC1388", "", "Gx", "21 29.9", "-00 38"],
+    ["IC1389", "", "Gx", "21 32.1", "-18 01"],
+    ["IC1390", "", "Gx", "21 32.4", "-01 52"],
+    ["IC1391", "", "Gx", "21 35.0", "-00 31"],
+    ["IC1392", "", "Gx", "21 35.5", "+35 24"],
+    ["IC1393", "", "Gx", "21 40.2", "-22 25"],
+    ["IC1394", "", "Gx", "21 40.2", "+14 38"],
+    ["IC1395", "", "Gx", "21 41.7", "+04 06"],
+    ["IC1398", "", "Gx", "21 45.9", "+09 29"],
+    ["IC1399", "", "Gx", "21 46.1", "+04 24"],
+    ["IC1401", "", "Gx", "21 47.0", "+01 43"],
+    ["IC1405", "", "Gx", "21 50.8", "+02 01"],
+    ["IC1406", "", "Gx", "21 51.1", "+01 59"],
+    ["IC1408", "", "Gx", "21 53.2", "-13 21"],
+    ["IC1411", "", "Gx", "21 56.0", "-01 31"],
+    ["IC1412", "", "Gx", "21 58.3", "-17 11"],
+    ["IC1414", "", "Gx", "21 58.3", "+08 25"],
+    ["IC1417", "", "Gx", "22 00.4", "-13 09"],
+    ["IC1418", "", "Gx", "22 02.0", "+04 23"],
+    ["IC1420", "", "Gx", "22 02.5", "+19 45"],
+    ["IC1421", "", "Gx", "22 03.1", "-09 59"],
+    ["IC1423", "", "Gx", "22 03.2", "+04 18"],
+    ["IC1425", "", "Gx", "22 03.4", "+02 36"],
+    ["IC1427", "", "Gx", "22 03.6", "+15 06"],
+    ["IC1428", "", "Gx", "22 04.5", "+02 38"],
+    ["IC1431", "", "Gx", "22 07.7", "-13 31"],
+    ["IC1433", "", "Gx", "22 12.2", "-12 46"],
+    ["IC1434", "", "OC", "22 10.6", "+52 51"],
+    ["IC1435", "", "Gx", "22 13.4", "-22 06"],
+    ["IC1436", "", "Gx", "22 13.9", "-10 11"],
+    ["IC1437", "", "Gx", "22 15.7", "+02 04"],
+    ["IC1438", "", "Gx", "22 16.5", "-21 26"],
+    ["IC1439", "", "Gx", "22 16.7", "-21 29"],
+    ["IC1440", "", "Gx", "22 16.6", "-16 01"],
+    ["IC1441", "", "Gx", "22 15.3", "+37 18"],
+    ["IC1442", "", "OC", "22 16.5", "+54 03"],
+    ["IC1443", "", "Gx", "22 19.1", "-20 56"],
+    ["IC1444", "", "Gx", "22 22.4", "+05 08"],
+    ["IC1445", "", "Gx", "22 25.5", "-17 15"],
+    ["IC1447", "", "Gx", "22 30.0", "-05 07"],
+    ["IC1451", "", "Gx", "22 46.1", "-10 22"],
+    ["IC1453", "", "Gx", "22 46.9", "-13 27"],
+    ["IC1454", "", "PN", "22 42.4", "+80 27"],
+    ["IC1455", "", "Gx", "22 53.8", "+01 22"],
+    ["IC1458", "", "Gx", "22 56.7", "-07 23"],
+    ["IC1459", "", "Gx", "22 57.2", "-36 28"],
+    ["IC1460", "", "Gx", "22 57.1", "+04 41"],
+    ["IC1461", "", "Gx", "22 58.6", "+15 10"],
+    ["IC1466", "", "Gx", "23 03.7", "-02 47"],
+    ["IC1467", "", "Gx", "23 04.8", "-03 14"],
+    ["IC1468", "", "Gx", "23 05.1", "-03 12"],
+    ["IC1470", "", "Neb", "23 05.2", "+60 15"],
+    ["IC1471", "", "Gx", "23 08.7", "-12 38"],
+    ["IC1472", "", "Gx", "23 09.1", "+17 16"],
+    ["IC1473", "", "Gx", "23 11.1", "+29 39"],
+    ["IC1474", "", "Gx", "23 12.9", "+05 48"],
+    ["IC1476", "", "Gx", "23 14.3", "+30 33"],
+    ["IC1477", "", "Gx", "23 17.2", "-06 55"],
+    ["IC1479", "", "Gx", "23 18.8", "-10 24"],
+    ["IC1481", "", "Gx", "23 19.4", "+05 54"],
+    ["IC1482", "", "Gx", "23 20.8", "+01 44"],
+    ["IC1484", "", "Gx", "23 22.7", "+11 23"],
+    ["IC1485", "", "Gx", "23 22.8", "+11 22"],
+    ["IC1488", "", "Gx", "23 25.6", "+15 21"],
+    ["IC1489", "", "Gx", "23 26.5", "-12 31"],
+    ["IC1491", "", "Gx", "23 29.4", "-16 19"],
+    ["IC1492", "", "Gx", "23 30.6", "-03 02"],
+    ["IC1494", "", "Gx", "23 30.8", "-12 43"],
+    ["IC1496", "", "Gx", "23 30.9", "-02 56"],
+    ["IC1498", "", "Gx", "23 31.9", "-05 00"],
+    ["IC1500", "", "Gx", "23 33.2", "+04 33"],
+    ["IC1501", "", "Gx", "23 34.7", "-03 09"],
+    ["IC1502", "", "Gx", "23 36.3", "+75 39"],
+    ["IC1503", "", "Gx", "23 38.4", "+04 48"],
+    ["IC1504", "", "Gx", "23 41.3", "+04 01"],
+    ["IC1505", "", "Gx", "23 41.6", "-03 34"],
+    ["IC1506", "", "Gx", "23 44.8", "+04 44"],
+    ["IC1507", "", "Gx", "23 45.6", "+01 41"],
+    ["IC1508", "", "Gx", "23 45.9", "+12 04"],
+    ["IC1509", "", "Gx", "23 47.3", "-15 18"],
+    ["IC1510", "", "Gx", "23 50.6", "+02 04"],
+    ["IC1513", "", "Gx", "23 53.5", "+11 19"],
+    ["IC1515", "", "Gx", "23 56.1", "-00 59"],
+    ["IC1516", "", "Gx", "23 56.1", "-00 55"],
+    ["IC1517", "", "Gx", "23 56.3", "-00 18"],
+    ["IC1518", "", "Gx", "23 57.1", "+12 28"],
+    ["IC1519", "", "Gx", "23 57.1", "+12 27"],
+    ["IC1520", "", "Gx", "23 57.9", "-14 02"],
+    ["IC1522", "", "Gx", "23 59.1", "+01 43"],
+    ["IC1524", "", "Gx", "23 59.2", "-04 08"],
+    ["IC1525", "", "Gx", "23 59.3", "+46 53"],
+    ["IC1526", "", "Gx", "00 01.5", "+11 21"],
+    ["IC1527", "", "Gx", "00 02.4", "+04 05"],
+    ["IC1528", "", "Gx", "00 05.1", "-07 06"],
+    ["IC1529", "", "Gx", "00 05.2", "-11 30"],
+    ["IC1531", "", "Gx", "00 09.6", "-32 17"],
+    ["IC1532", "", "Gx", "00 09.9", "-64 22"],
+    ["IC1534", "", "Gx", "00 13.8", "+48 09"],
+    ["IC1535", "", "Gx", "00 14.0", "+48 09"],
+    ["IC1536", "", "Gx", "00 14.3", "+48 09"],
+    ["IC1537", "", "Gx", "00 15.8", "-39 15"],
+    ["IC1540", "", "Gx", "00 19.8", "+23 46"],
+    ["IC1541", "", "Gx", "00 20.0", "+22 00"],
+    ["IC1542", "", "Gx", "00 20.7", "+22 36"],
+    ["IC1543", "", "Gx", "00 20.9", "+21 52"],
+    ["IC1544", "", "Gx", "00 21.3", "+23 05"],
+    ["IC1548", "", "Gx", "00 21.9", "+22 00"],
+    ["IC1549", "", "Gx", "00 22.8", "+06 58"],
+    ["IC1550", "", "Gx", "00 24.5", "+38 11"],
+    ["IC1551", "", "Gx", "00 27.6", "+08 53"],
+    ["IC1552", "", "Gx", "00 29.7", "+21 29"],
+    ["IC1553", "", "Gx", "00 32.7", "-25 36"],
+    ["IC1554", "", "Gx", "00 33.1", "-32 16"],
+    ["IC1555", "", "Gx", "00 34.5", "-30 01"],
+    ["IC1557", "", "Gx", "00 35.6", "-02 53"],
+    ["IC1558", "", "Gx", "00 35.8", "-25 22"],
+    ["IC1561", "", "Gx", "00 38.5", "-24 20"],
+    ["IC1562", "", "Gx", "00 38.6", "-24 16"],
+    ["IC1564", "", "Gx", "00 39.1", "+06 01"],
+    ["IC1565", "", "Gx", "00 39.4", "+06 44"],
+    ["IC1566", "", "Gx", "00 39.6", "+06 49"],
+    ["IC1568", "", "Gx", "00 39.9", "+06 51"],
+    ["IC1569", "", "Gx", "00 40.5", "+06 43"],
+    ["IC1571", "", "Gx", "00 40.6", "-00 20"],
+    ["IC1573", "", "Gx", "00 42.2", "-23 35"],
+    ["IC1574", "", "Gx", "00 43.1", "-22 15"],
+    ["IC1575", "", "Gx", "00 43.6", "-04 07"],
+    ["IC1576", "", "Gx", "00 44.2", "-25 07"],
+    ["IC1578", "", "Gx", "00 44.4", "-25 05"],
+    ["IC1579", "", "Gx", "00 45.5", "-26 34"],
+    ["IC1581", "", "Gx", "00 45.8", "-25 55"],
+    ["IC1582", "", "Gx", "00 46.3", "-24 17"],
+    ["IC1583", "", "Gx", "00 47.2", "+23 04"],
+    ["IC1584", "", "Gx", "00 47.3", "+27 50"],
+    ["IC1585", "", "Gx", "00 47.2", "+23 03"],
+    ["IC1586", "", "Gx", "00 47.9", "+22 22"],
+    ["IC1587", "", "Gx", "00 48.7", "-23 34"],
+    ["IC1588", "", "Gx", "00 51.0", "-23 33"],
+    ["IC1590", "", "OC", "00 52.8", "+56 38"],
+    ["IC1592", "", "Gx", "00 53.5", "+05 46"],
+    ["IC1594", "", "Gx", "00 53.8", "-47 39"],
+    ["IC1595", "", "Gx", "00 53.8", "-45 11"],
+    ["IC1596", "", "Gx", "00 54.7", "+21 31"],
+    ["IC1597", "", "Gx", "00 53.5", "-58 06"],
+    ["IC1598", "", "Gx", "00 54.7", "+05 46"],
+    ["IC1599", "", "Gx", "00 54.5", "-23 30"],
+    ["IC1600", "", "Gx", "00 55.1", "-23 31"],
+    ["IC1601", "", "Gx", "00 55.6", "-24 09"],
+    ["IC1602", "", "Gx", "00 55.9", "-09 59"],
+    ["IC1603", "", "Gx", "00 57.0", "-45 25"],
+    ["IC1604", "", "Gx", "00 57.3", "-16 31"],
+    ["IC1605", "", "Gx", "00 57.6", "-48 54"],
+    ["IC1607", "", "Gx", "00 58.8", "+00 35"],
+    ["IC1608", "", "Gx", "00 59.4", "-34 20"],
+    ["IC1609", "", "Gx", "00 59.8", "-40 20"],
+    ["IC1610", "", "Gx", "01 01.7", "-15 34"],
+    ["IC1611", "", "OC", "00 59.8", "-72 20"],
+    ["IC1612", "", "OC", "01 00.0", "-72 22"],
+    ["IC1613", "", "Gx", "01 04.8", "+02 07"],
+    ["IC1615", "", "Gx", "01 04.1", "-51 08"],
+    ["IC1616", "", "Gx", "01 04.9", "-27 26"],
+    ["IC1617", "", "Gx", "01 04.3", "-51 02"],
+    ["IC1618", "", "Gx", "01 05.9", "+32 25"],
+    ["IC1619", "", "Gx", "01 07.4", "+33 04"],
+    ["IC1620", "", "Gx", "01 07.2", "+13 57"],
+    ["IC1621", "", "Gx", "01 06.4", "-46 44"],
+    ["IC1622", "", "Gx", "01 07.6", "-17 32"],
+    ["IC1623", "", "Gx", "01 07.8", "-17 30"],
+    ["IC1624", "", "OC", "01 05.4", "-72 03"],
+    ["IC1625", "", "Gx", "01 07.7", "-46 54"],
+    ["IC1626", "", "OC", "01 06.2", "-73 18"],
+    ["IC1627", "", "Gx", "01 08.2", "-46 06"],
+    ["IC1628", "", "Gx", "01 08.8", "-28 35"],
+    ["IC1629", "", "Gx", "01 09.3", "+02 34"],
+    ["IC1630", "", "Gx", "01 08.3", "-46 45"],
+    ["IC1631", "", "Gx", "01 08.7", "-46 29"],
+    ["IC1633", "", "Gx", "01 09.9", "-45 56"],
+    ["IC1634", "", "Gx", "01 11.0", "+17 40"],
+    ["IC1635", "", "Gx", "01 11.1", "+17 39"],
+    ["IC1636", "", "Gx", "01 11.6", "+33 21"],
+    ["IC1637", "", "Gx", "01 11.0", "-30 26"],
+    ["IC1638", "", "Gx", "01 12.4", "+33 22"],
+    ["IC1639", "", "Gx", "01 11.8", "-00 40"],
+    ["IC1640", "", "Gx", "01 11.9", "-00 38"],
+    ["IC1641", "", "OC", "01 09.7", "-71 46"],
+    ["IC1643", "", "Gx", "01 12.1", "-00 25"],
+    ["IC1644", "", "Neb", "01 09.2", "-73 12"],
+    ["IC1645", "", "Gx", "01 12.5", "+15 45"],
+    ["IC1646", "", "Gx", "01 12.7", "+15 42"],
+    ["IC1647", "", "Gx", "01 13.2", "+38 53"],
+    ["IC1648", "", "Gx", "01 13.7", "+33 13"],
+    ["IC1649", "", "Gx", "01 11.8", "-55 51"],
+    ["IC1650", "", "Gx", "01 12.3", "-50 24"],
+    ["IC1652", "", "Gx", "01 14.9", "+31 57"],
+    ["IC1654", "", "Gx", "01 15.2", "+30 12"],
+    ["IC1655", "", "OC", "01 11.9", "-71 20"],
+    ["IC1657", "", "Gx", "01 14.1", "-32 39"],
+    ["IC1659", "", "Gx", "01 16.1", "+30 21"],
+    ["IC1660", "", "OC", "01 12.6", "-71 46"],
+    ["IC1662", "", "OC", "01 12.6", "-73 27"],
+    ["IC1664", "", "Gx", "01 13.7", "-69 51"],
+    ["IC1666", "", "Gx", "01 19.9", "+32 28"],
+    ["IC1667", "", "Gx", "01 18.7", "-17 03"],
+    ["IC1668", "", "Gx", "01 18.9", "+33 10"],
+    ["IC1669", "", "Gx", "01 20.1", "+33 11"],
+    ["IC1670", "", "Gx", "01 14.5", "-16 48"],
+    ["IC1672", "", "Gx", "01 20.6", "+29 42"],
+    ["IC1673", "", "Gx", "01 20.8", "+33 03"],
+    ["IC1674", "", "Gx", "01 19.3", "-50 58"],
+    ["IC1675", "", "Gx", "01 21.0", "+34 15"],
+    ["IC1676", "", "Gx", "01 21.0", "+30 16"],
+    ["IC1677", "", "Gx", "01 21.1", "+33 13"],
+    ["IC1678", "", "Gx", "01 21.0", "+05 34"],
+    ["IC1679", "", "Gx", "01 21.7", "+33 30"],
+    ["IC1680", "", "Gx", "01 21.9", "+33 17"],
+    ["IC1681", "", "Gx", "01 21.4", "+00 05"],
+    ["IC1682", "", "Gx", "01 22.2", "+33 16"],
+    ["IC1683", "", "Gx", "01 22.6", "+34 26"],
+    ["IC1687", "", "Gx", "01 23.3", "+33 17"],
+    ["IC1689", "", "Gx", "01 23.8", "+33 03"],
+    ["IC1690", "", "Gx", "01 23.8", "+33 09"],
+    ["IC1692", "", "Gx", "01 24.7", "+33 14"],
+    ["IC1693", "", "Gx", "01 24.0", "-01 39"],
+    ["IC1694", "", "Gx", "01 24.8", "+01 36"],
+    ["IC1695", "", "Gx", "01 25.1", "+08 42"],
+    ["IC1696", "", "Gx", "01 24.9", "-01 37"],
+    ["IC1697", "", "Gx", "01 25.0", "+00 27"],
+    ["IC1698", "", "Gx", "01 25.4", "+14 50"],
+    ["IC1700", "", "Gx", "01 25.4", "+14 52"],
+    ["IC1701", "", "Gx", "01 25.8", "+18 11"],
+    ["IC1702", "", "Gx", "01 25.9", "+16 36"],
+    ["IC1704", "", "Gx", "01 27.2", "+14 47"],
+    ["IC1705", "", "Gx", "01 26.7", "-03 30"],
+    ["IC1706", "", "Gx", "01 27.5", "+14 49"],
+    ["IC1708", "", "OC", "01 24.9", "-71 11"],
+    ["IC1711", "", "Gx", "01 30.9", "+17 11"],
+    ["IC1715", "", "Gx", "01 33.6", "+12 35"],
+    ["IC1718", "", "Gx", "01 38.4", "+33 22"],
+    ["IC1719", "", "Gx", "01 37.6", "-33 55"],
+    ["IC1720", "", "Gx", "01 40.4", "-28 55"],
+    ["IC1721", "", "Gx", "01 41.4", "+08 32"],
+    ["IC1722", "", "Gx", "01 43.0", "-34 11"],
+    ["IC1723", "", "Gx", "01 43.2", "+08 53"],
+    ["IC1724", "", "Gx", "01 43.2", "-34 15"],
+    ["IC1725", "", "Gx", "01 45.2", "+21 47"],
+    ["IC1726", "", "Gx", "01 45.3", "+04 37"],
+    ["IC1727", "", "Gx", "01 47.5", "+27 20"],
+    ["IC1728", "", "Gx", "01 47.7", "-33 36"],
+    ["IC1729", "", "Gx", "01 47.9", "-26 54"],
+    ["IC1730", "", "Gx", "01 50.0", "+22 01"],
+    ["IC1731", "", "Gx", "01 50.2", "+27 12"],
+    ["IC1732", "", "Gx", "01 50.8", "+35 56"],
+    ["IC1733", "", "Gx", "01 50.7", "+33 05"],
+    ["IC1734", "", "Gx", "01 49.3", "-32 45"],
+    ["IC1735", "", "Gx", "01 50.9", "+33 06"],
+    ["IC1736", "", "Gx", "01 50.9", "+18 18"],
+    ["IC1738", "", "Gx", "01 51.1", "-09 48"],
+    ["IC1739", "", "Gx", "01 50.5", "-34 03"],
+    ["IC1741", "", "Gx", "01 51.9", "-16 47"],
+    ["IC1742", "", "Gx", "01 53.2", "+22 43"],
+    ["IC1746", "", "Gx", "01 54.4", "+04 48"],
+    ["IC1747", "", "PN", "01 57.6", "+63 19"],
+    ["IC1748", "", "Gx", "01 56.1", "+17 38"],
+    ["IC1749", "", "Gx", "01 56.2", "+06 45"],
+    ["IC1750", "", "Gx", "01 56.3", "+04 05"],
+    ["IC1751", "", "Gx", "01 56.3", "+05 39"],
+    ["IC1752", "", "Gx", "01 57.3", "+28 37"],
+    ["IC1753", "", "Gx", "01 57.3", "+28 35"],
+    ["IC1755", "", "Gx", "01 57.2", "+14 33"],
+    ["IC1756", "", "Gx", "01 57.1", "-00 28"],
+    ["IC1759", "", "Gx", "01 57.9", "-32 59"],
+    ["IC1760", "", "Gx", "01 57.4", "-31 59"],
+    ["IC1761", "", "Gx", "01 58.9", "+00 34"],
+    ["IC1762", "", "Gx", "01 57.8", "-33 14"],
+    ["IC1763", "", "Gx", "01 59.2", "-27 49"],
+    ["IC1764", "", "Gx", "02 00.4", "+24 35"],
+    ["IC1767", "", "Gx", "02 00.0", "-11 05"],
+    ["IC1768", "", "Gx", "02 00.8", "-25 02"],
+    ["IC1769", "", "Gx", "02 00.9", "-31 55"],
+    ["IC1770", "", "Gx", "02 02.2", "+09 59"],
+    ["IC1771", "", "Gx", "02 02.3", "+09 58"],
+    ["IC1772", "", "Gx", "02 02.7", "+07 45"],
+    ["IC1774", "", "Gx", "02 04.0", "+15 19"],
+    ["IC1775", "", "Gx", "02 05.3", "+13 30"],
+    ["IC1776", "", "Gx", "02 05.3", "+06 06"],
+    ["IC1777", "", "Gx", "02 06.1", "+15 13"],
+    ["IC1778", "", "Gx", "02 06.3", "+09 14"],
+    ["IC1779", "", "Gx", "02 06.4", "+03 42"],
+    ["IC1780", "", "Gx", "02 06.9", "+14 43"],
+    ["IC1781", "", "Gx", "02 06.9", "-00 31"],
+    ["IC1783", "", "Gx", "02 10.1", "-32 56"],
+    ["IC1784", "", "Gx", "02 16.2", "+32 39"],
+    ["IC1785", "", "Gx", "02 16.4", "+32 40"],
+    ["IC1786", "", "Gx", "02 16.1", "+05 09"],
+    ["IC1788", "", "Gx", "02 15.8", "-31 12"],
+    ["IC1789", "", "Gx", "02 17.9", "+32 24"],
+    ["IC1790", "", "Gx", "02 17.6", "+12 31"],
+    ["IC1791", "", "Gx", "02 17.7", "+12 28"],
+    ["IC1792", "", "Gx", "02 19.0", "+34 28"],
+    ["IC1793", "", "Gx", "02 21.5", "+32 33"],
+    ["IC1794", "", "Gx", "02 21.5", "+15 46"],
+    ["IC1795", "Fish Head Nebula", "Neb", "02 25.7", "+62 06"],
+    ["IC1796", "", "Gx", "02 22.8", "-41 22"],
+    ["IC1797", "", "Gx", "02 25.5", "+20 24"],
+    ["IC1799", "", "Gx", "02 28.8", "+45 58"],
+    ["IC1801", "", "Gx", "02 28.2", "+19 35"],
+    ["IC1803", "", "Gx", "02 29.2", "+23 05"],
+    ["IC1806", "", "Gx", "02 29.6", "+22 57"],
+    ["IC1807", "", "Gx", "02 30.5", "+22 57"],
+    ["IC1809", "", "Gx", "02 31.7", "+22 55"],
+    ["IC1810", "", "Gx", "02 29.4", "-43 05"],
+    ["IC1811", "", "Gx", "02 30.6", "-34 16"],
+    ["IC1812", "", "Gx", "02 29.5", "-42 49"],
+    ["IC1813", "", "Gx", "02 30.8", "-34 13"],
+    ["IC1814", "", "Gx", "02 30.9", "-36 00"],
+    ["IC1815", "", "Gx", "02 34.3", "+32 26"],
+    ["IC1816", "", "Gx", "02 31.8", "-36 40"],
+    ["IC1817", "", "Gx", "02 33.8", "+11 12"],
+    ["IC1819", "", "Gx", "02 35.7", "+04 03"],
+    ["IC1820", "", "Gx", "02 35.9", "+06 02"],
+    ["IC1821", "", "Gx", "02 36.4", "+13 47"],
+    ["IC1823", "", "Gx", "02 38.6", "+32 04"],
+    ["IC1825", "", "Gx", "02 38.9", "+09 06"],
+    ["IC1826", "", "Gx", "02 39.1", "-27 27"],
+    ["IC1827", "", "Gx", "02 39.8", "+01 33"],
+    ["IC1829", "", "Gx", "02 40.5", "+14 18"],
+    ["IC1832", "", "Gx", "02 42.0", "+19 02"],
+    ["IC1833", "", "Gx", "02 41.6", "-28 10"],
+    ["IC1834", "", "Gx", "02 42.8", "+03 05"],
+    ["IC1835", "", "Gx", "02 43.8", "+14 53"],
+    ["IC1836", "", "Gx", "02 43.4", "+03 06"],
+    ["IC1838", "", "Gx", "02 44.7", "+19 27"],
+    ["IC1839", "", "Gx", "02 44.7", "+15 14"],
+    ["IC1840", "", "Gx", "02 43.7", "-15 42"],
+    ["IC1841", "", "Gx", "02 45.6", "+18 56"],
+    ["IC1842", "", "Gx", "02 45.4", "+11 27"],
+    ["IC1843", "", "Gx", "02 45.4", "+02 53"],
+    ["IC1844", "", "Gx", "02 45.8", "+03 14"],
+    ["IC1845", "", "Gx", "02 45.6", "-27 58"],
+    ["IC1847", "", "Gx", "02 47.9", "+14 30"],
+    ["IC1849", "", "Gx", "02 47.7", "+09 21"],
+    ["IC1853", "", "Gx", "02 48.1", "-14 00"],
+    ["IC1854", "", "Gx", "02 49.3", "+19 18"],
+    ["IC1856", "", "Gx", "02 48.8", "-00 46"],
+    ["IC1857", "", "Gx", "02 49.6", "+14 37"],
+    ["IC1858", "", "Gx", "02 49.1", "-31 17"],
+    ["IC1859", "", "Gx", "02 49.1", "-31 10"],
+    ["IC1860", "", "Gx", "02 49.6", "-31 11"],
+    ["IC1861", "", "Gx", "02 53.1", "+25 29"],
+    ["IC1862", "", "Gx", "02 52.0", "-33 20"],
+    ["IC1863", "", "Gx", "02 54.8", "+08 47"],
+    ["IC1864", "", "Gx", "02 53.7", "-34 12"],
+    ["IC1865", "", "Gx", "02 55.3", "+08 50"],
+    ["IC1866", "", "Gx", "02 54.9", "-15 39"],
+    ["IC1867", "", "Gx", "02 55.9", "+09 19"],
+    ["IC1869", "", "Gx", "02 58.2", "+05 50"],
+    ["IC1870", "", "Gx", "02 57.9", "-02 21"],
+    ["IC1871", "", "Neb", "03 02.8", "+60 24"],
+    ["IC1873", "", "Gx", "03 03.9", "+09 37"],
+    ["IC1874", "", "Gx", "03 06.4", "+36 01"],
+    ["IC1875", "", "Gx", "03 03.9", "-39 26"],
+    ["IC1876", "", "Gx", "03 04.5", "-27 28"],
+    ["IC1877", "", "Gx", "03 03.2", "-50 31"],
+    ["IC1878", "", "Gx", "03 03.7", "-52 06"],
+    ["IC1879", "", "Gx", "03 03.9", "-52 07"],
+    ["IC1880", "", "Gx", "03 06.5", "-09 44"],
+    ["IC1882", "", "Gx", "03 07.8", "+03 09"],
+    ["IC1884", "", "Gx", "03 09.7", "+40 58"],
+    ["IC1885", "", "Gx", "03 06.7", "-32 52"],
+    ["IC1886", "", "Gx", "03 08.1", "-04 24"],
+    ["IC1887", "", "Gx", "03 10.2", "+40 46"],
+    ["IC1888", "", "Gx", "03 10.9", "+41 08"],
+    ["IC1890", "", "Gx", "03 10.0", "+19 12"],
+    ["IC1892", "", "Gx", "03 08.5", "-23 03"],
+    ["IC1894", "", "Gx", "03 10.4", "+19 36"],
+    ["IC1895", "", "Gx", "03 09.6", "-25 15"],
+    ["IC1896", "", "Gx", "03 07.9", "-54 13"],
+    ["IC1897", "", "Gx", "03 10.8", "-10 48"],
+    ["IC1898", "", "Gx", "03 10.3", "-22 24"],
+    ["IC1899", "", "Gx", "03 12.2", "-25 18"],
+    ["IC1900", "", "Gx", "03 15.9", "+37 09"],
+    ["IC1901", "", "Gx", "03 16.0", "+37 07"],
+    ["IC1902", "", "Gx", "03 16.2", "+37 11"],
+    ["IC1903", "", "Gx", "03 13.2", "-50 34"],
+    ["IC1904", "", "Gx", "03 15.0", "-30 42"],
+    ["IC1906", "", "Gx", "03 16.1", "-34 22"],
+    ["IC1908", "", "Gx", "03 15.1", "-54 49"],
+    ["IC1909", "", "Gx", "03 17.3", "-33 41"],
+    ["IC1912", "", "Gx", "03 16.7", "-50 39"],
+    ["IC1913", "", "Gx", "03 19.6", "-32 28"],
+    ["IC1914", "", "Gx", "03 19.4", "-49 36"],
+    ["IC1915", "", "Gx", "03 19.9", "-50 41"],
+    ["IC1916", "", "Gx", "03 20.3", "-49 03"],
+    ["IC1917", "", "Gx", "03 22.2", "-53 11"],
+    ["IC1918", "", "Gx", "03 26.3", "+04 32"],
+    ["IC1919", "", "Gx", "03 26.0", "-32 54"],
+    ["IC1920", "", "Gx", "03 24.0", "-52 43"],
+    ["IC1922", "", "Gx", "03 24.7", "-50 44"],
+    ["IC1923", "", "Gx", "03 24.8", "-50 36"],
+    ["IC1924", "", "Gx", "03 25.1", "-51 42"],
+    ["IC1926", "", "Gx", "03 25.3", "-51 42"],
+    ["IC1928", "", "Gx", "03 27.5", "-21 34"],
+    ["IC1929", "", "Gx", "03 25.4", "-51 16"],
+    ["IC1931", "", "Gx", "03 29.0", "+01 45"],
+    ["IC1932", "", "Gx", "03 25.9", "-51 21"],
+    ["IC1933", "", "Gx", "03 25.7", "-52 47"],
+    ["IC1934", "", "Gx", "03 31.2", "+42 48"],
+    ["IC1935", "", "Gx", "03 26.2", "-50 01"],
+    ["IC1936", "", "Gx", "03 26.5", "-51 19"],
+    ["IC1937", "", "Gx", "03 26.8", "-48 42"],
+    ["IC1938", "", "Gx", "03 27.2", "-53 01"],
+    ["IC1940", "", "Gx", "03 27.7", "-52 08"],
+    ["IC1942", "", "Gx", "03 27.9", "-52 41"],
+    ["IC1944", "", "Gx", "03 29.7", "-48 00"],
+    ["IC1945", "", "Gx", "03 29.3", "-52 38"],
+    ["IC1946", "", "Gx", "03 29.4", "-52 37"],
+    ["IC1947", "", "Gx", "03 30.5", "-50 20"],
+    ["IC1948", "", "Gx", "03 30.8", "-47 58"],
+    ["IC1949", "", "Gx", "03 30.9", "-47 59"],
+    ["IC1950", "", "Gx", "03 31.1", "-50 26"],
+    ["IC1951", "", "Gx", "03 30.9", "-53 08"],
+    ["IC1952", "", "Gx", "03 33.4", "-23 43"],
+    ["IC1953", "", "Gx", "03 33.7", "-21 29"],
+    ["IC1954", "", "Gx", "03 31.5", "-51 54"],
+    ["IC1955", "", "Gx", "03 31.4", "-57 15"],
+    ["IC1956", "", "Gx", "03 35.6", "+05 04"],
+    ["IC1957", "", "Gx", "03 32.2", "-52 27"],
+    ["IC1958", "", "Gx", "03 32.8", "-51 27"],
+    ["IC1959", "", "Gx", "03 33.2", "-50 25"],
+    ["IC1960", "", "Gx", "03 32.5", "-57 12"],
+    ["IC1961", "", "Gx", "03 33.6", "-48 57"],
+    ["IC1962", "", "Gx", "03 35.6", "-21 18"],
+    ["IC1963", "", "Gx", "03 35.5", "-34 27"],
+    ["IC1964", "", "Gx", "03 33.5", "-53 10"],
+    ["IC1965", "", "Gx", "03 33.2", "-56 33"],
+    ["IC1966", "", "Gx", "03 34.1", "-51 19"],
+    ["IC1967", "", "Gx", "03 37.8", "+03 16"],
+    ["IC1968", "", "Gx", "03 34.6", "-50 39"],
+    ["IC1969", "", "Gx", "03 36.2", "-45 11"],
+    ["IC1970", "", "Gx", "03 36.5", "-43 57"],
+    ["IC1971", "", "Gx", "03 36.0", "-52 39"],
+    ["IC1972", "", "Gx", "03 36.4", "-51 58"],
+    ["IC1973", "", "Gx", "03 36.4", "-52 00"],
+    ["IC1974", "", "Gx", "03 36.7", "-49 33"],
+    ["IC1976", "", "Gx", "03 37.1", "-47 26"],
+    ["IC1977", "", "Gx", "03 40.8", "+17 44"],
+    ["IC1978", "", "Gx", "03 37.1", "-50 09"],
+    ["IC1979", "", "Gx", "03 37.0", "-57 58"],
+    ["IC1982", "", "Gx", "03 37.7", "-57 47"],
+    ["IC1984", "", "Gx", "03 39.8", "-47 05"],
+    ["IC1986", "", "Gx", "03 40.6", "-45 21"],
+    ["IC1987", "", "Gx", "03 40.2", "-55 03"],
+    ["IC1989", "", "Gx", "03 41.9", "-50 57"],
+    ["IC1991", "", "Gx", "03 44.8", "-51 31"],
+    ["IC1993", "", "Gx", "03 47.1", "-33 43"],
+    ["IC1994", "", "Gx", "03 45.9", "-51 39"],
+    ["IC1995", "", "Neb", "03 50.3", "+25 35"],
+    ["IC1996", "", "Gx", "03 45.1", "-57 19"],
+    ["IC1997", "", "Gx", "03 44.9", "-59 08"],
+    ["IC1998", "", "Gx", "03 51.5", "+01 11"],
+    ["IC1999", "", "Gx", "03 47.7", "-56 57"],
+    ["IC2000", "", "Gx", "03 49.1", "-48 51"],
+    ["IC2003", "", "PN", "03 56.4", "+33 52"],
+    ["IC2004", "", "Gx", "03 51.8", "-49 25"],
+    ["IC2005", "", "Gx", "03 57.7", "+36 47"],
+    ["IC2006", "", "Gx", "03 54.5", "-35 58"],
+    ["IC2007", "", "Gx", "03 55.4", "-28 09"],
+    ["IC2009", "", "Gx", "03 53.6", "-48 59"],
+    ["IC2010", "", "Gx", "03 52.0", "-59 56"],
+    ["IC2012", "", "Gx", "03 52.9", "-58 39"],
+    ["IC2014", "", "Gx", "03 55.4", "-56 45"],
+    ["IC2015", "", "Gx", "03 58.2", "-40 23"],
+    ["IC2016", "", "Gx", "04 02.0", "+20 14"],
+    ["IC2017", "", "Gx", "03 56.7", "-59 24"],
+    ["IC2018", "", "Gx", "03 57.9", "-52 47"],
+    ["IC2019", "", "Gx", "04 01.9", "+05 38"],
+    ["IC2020", "", "Gx", "03 58.9", "-54 03"],
+    ["IC2021", "", "Gx", "03 59.4", "-52 39"],
+    ["IC2022", "", "Gx", "03 58.7", "-59 03"],
+    ["IC2023", "", "Gx", "03 59.7", "-52 41"],
+    ["IC2024", "", "Gx", "04 00.1", "-53 22"],
+    ["IC2025", "", "Gx", "04 00.4", "-53 04"],
+    ["IC2026", "", "Gx", "04 03.8", "-11 11"],
+    ["IC2027", "", "Gx", "04 06.7", "+37 07"],
+    ["IC2028", "", "Gx", "04 01.3", "-52 42"],
+    ["IC2029", "", "Gx", "04 01.3", "-52 48"],
+    ["IC2030", "", "Gx", "04 05.0", "-19 16"],
+    ["IC2032", "", "Gx", "04 07.1", "-55 19"],
+    ["IC2033", "", "Gx", "04 07.2", "-53 41"],
+    ["IC2034", "", "Gx", "04 06.6", "-57 58"],
+    ["IC2035", "", "Gx", "04 09.0", "-45 31"],
+    ["IC2036", "", "Gx", "04 09.9", "-39 41"],
+    ["IC2037", "", "Gx", "04 08.3", "-58 45"],
+    ["IC2038", "", "Gx", "04 08.9", "-55 59"],
+    ["IC2039", "", "Gx", "04 09.0", "-56 01"],
+    ["IC2040", "", "Gx", "04 13.0", "-32 33"],
+    ["IC2041", "", "Gx", "04 12.6", "-32 49"],
+    ["IC2043", "", "Gx", "04 11.2", "-53 41"],
+    ["IC2044", "", "Gx", "04 11.2", "-54 32"],
+    ["IC2045", "", "Gx", "04 14.7", "-13 13"],
+    ["IC2046", "", "Gx", "04 11.4", "-54 40"],
+    ["IC2049", "", "Gx", "04 12.1", "-58 33"],
+    ["IC2050", "", "Gx", "04 13.9", "-53 29"],
+    ["IC2051", "", "Gx", "03 52.0", "-83 50"],
+    ["IC2052", "", "Gx", "04 15.0", "-54 20"],
+    ["IC2054", "", "Gx", "04 07.4", "-78 15"],
+    ["IC2056", "", "Gx", "04 16.4", "-60 12"],
+    ["IC2057", "", "Gx", "04 21.9", "+04 03"],
+    ["IC2058", "", "Gx", "04 17.9", "-55 56"],
+    ["IC2059", "", "Gx", "04 20.4", "-31 43"],
+    ["IC2060", "", "Gx", "04 17.9", "-56 37"],
+    ["IC2064", "", "Gx", "04 23.4", "-15 41"],
+    ["IC2065", "", "Gx", "04 21.5", "-55 56"],
+    ["IC2066", "", "Gx", "04 23.5", "-54 44"],
+    ["IC2067", "", "Neb", "04 30.8", "+35 27"],
+    ["IC2068", "", "Gx", "04 26.6", "-42 06"],
+    ["IC2070", "", "Gx", "04 24.6", "-57 59"],
+    ["IC2071", "", "Gx", "04 26.2", "-53 09"],
+    ["IC2073", "", "Gx", "04 26.6", "-53 11"],
+    ["IC2079", "", "Gx", "04 28.5", "-53 44"],
+    ["IC2081", "", "Gx", "04 29.0", "-53 37"],
+    ["IC2082", "", "Gx", "04 29.1", "-53 50"],
+    ["IC2083", "", "Gx", "04 30.7", "-53 59"],
+    ["IC2085", "", "Gx", "04 31.4", "-54 25"],
+    ["IC2086", "", "Gx", "04 31.5", "-53 39"],
+    ["IC2087", "", "Neb", "04 39.9", "+25 45"],
+    ["IC2089", "", "Gx", "04 32.8", "-75 32"],
+    ["IC2093", "", "Gx", "04 46.4", "-02 41"],
+    ["IC2094", "", "Gx", "04 48.4", "-05 21"],
+    ["IC2095", "", "Gx", "04 48.8", "-05 08"],
+    ["IC2097", "", "Gx", "04 50.4", "-05 05"],
+    ["IC2098", "", "Gx", "04 50.7", "-05 25"],
+    ["IC2101", "", "Gx", "04 51.7", "-06 14"],
+    ["IC2102", "", "Gx", "04 51.9", "-04 57"],
+    ["IC2103", "", "Gx", "04 39.8", "-76 50"],
+    ["IC2104", "", "Gx", "04 56.3", "-15 48"],
+    ["IC2105", "", "Neb", "04 49.4", "-69 12"],
+    ["IC2106", "", "Gx", "04 56.6", "-28 30"],
+    ["IC2112", "", "Gx", "05 00.5", "+04 23"],
+    ["IC2116", "", "EN", "04 57.3", "-66 23"],
+    ["IC2120", "", "Neb", "05 18.2", "+37 33"],
+    ["IC2121", "", "Gx", "05 19.7", "-25 04"],
+    ["IC2122", "", "Gx", "05 19.0", "-37 05"],
+    ["IC2124", "", "Gx", "05 22.0", "+03 29"],
+    ["IC2125", "", "Gx", "05 24.5", "-27 01"],
+    ["IC2128", "", "Neb", "05 23.0", "-68 02"],
+    ["IC2129", "", "Gx", "05 31.8", "-23 09"],
+    ["IC2132", "", "Gx", "05 32.5", "-13 56"],
+    ["IC2134", "", "OC", "05 23.1", "-75 27"],
+    ["IC2135", "", "Gx", "05 33.2", "-36 24"],
+    ["IC2138", "", "Gx", "05 34.4", "-23 32"],
+    ["IC2140", "", "OC", "05 33.3", "-75 23"],
+    ["IC2142", "", "Gx", "05 33.2", "-78 01"],
+    ["IC2143", "", "Gx", "05 46.9", "-18 44"],
+    ["IC2146", "", "OC", "05 37.8", "-74 47"],
+    ["IC2147", "", "Gx", "05 43.5", "-30 30"],
+    ["IC2148", "", "OC", "05 39.2", "-75 34"],
+    ["IC2149", "", "PN", "05 56.4", "+46 06"],
+    ["IC2150", "", "Gx", "05 51.3", "-38 19"],
+    ["IC2151", "", "Gx", "05 52.6", "-17 47"],
+    ["IC2152", "", "Gx", "05 57.9", "-23 11"],
+    ["IC2153", "", "Gx", "06 00.1", "-33 55"],
+    ["IC2157", "", "OC", "06 04.8", "+24 04"],
+    ["IC2158", "", "Gx", "06 05.3", "-27 51"],
+    ["IC2160", "", "Gx", "05 55.5", "-76 55"],
+    ["IC2161", "", "OC", "05 57.4", "-75 08"],
+    ["IC2162", "", "Neb", "06 13.1", "+17 59"],
+    ["IC2163", "", "Gx", "06 16.5", "-21 23"],
+    ["IC2164", "", "Gx", "06 06.9", "-75 22"],
+    ["IC2165", "", "PN", "06 21.7", "-12 59"],
+    ["IC2166", "", "Gx", "06 26.9", "+59 05"],
+    ["IC2167", "", "Neb", "06 31.1", "+10 26"],
+    ["IC2169", "", "Neb", "06 30.8", "+10 06"],
+    ["IC2171", "", "Gx", "06 44.5", "-17 56"],
+    ["IC2174", "", "Gx", "07 09.1", "+75 21"],
+    ["IC2175", "", "Gx", "06 59.8", "+35 27"],
+    ["IC2176", "", "Gx", "07 07.5", "+32 28"],
+    ["IC2177", "", "RN", "07 04.4", "-10 27"],
+    ["IC2178", "", "Gx", "07 07.6", "+32 31"],
+    ["IC2179", "", "Gx", "07 15.5", "+64 56"],
+    ["IC2180", "", "Gx", "07 11.3", "+26 22"],
+    ["IC2181", "", "Gx", "07 13.2", "+19 00"],
+    ["IC2184", "", "Gx", "07 29.5", "+72 08"],
+    ["IC2185", "", "Gx", "07 23.3", "+32 30"],
+    ["IC2186", "", "Gx", "07 22.7", "+21 31"],
+    ["IC2187", "", "Gx", "07 22.7", "+21 29"],
+    ["IC2188", "", "Gx", "07 22.7", "+21 31"],
+    ["IC2190", "", "Gx", "07 29.9", "+37 27"],
+    ["IC2191", "", "Gx", "07 30.3", "+24 20"],
+    ["IC2193", "", "Gx", "07 33.4", "+31 29"],
+    ["IC2194", "", "Gx", "07 33.7", "+31 20"],
+    ["IC2196", "", "Gx", "07 34.2", "+31 24"],
+    ["IC2198", "", "Gx", "07 34.2", "+23 58"],
+    ["IC2199", "IC 2199 group", "Gx", "07 34.9", "+31 17"],
+    ["IC2200", "", "Gx", "07 28.3", "-62 21"],
+    ["IC2201", "", "Gx", "07 36.3", "+33 07"],
+    ["IC2202", "", "Gx", "07 27.9", "-67 34"],
+    ["IC2203", "", "Gx", "07 40.6", "+34 14"],
+    ["IC2204", "", "Gx", "07 41.3", "+34 14"],
+    ["IC2205", "", "Gx", "07 46.9", "+26 52"],
+    ["IC2207", "", "Gx", "07 49.8", "+33 58"],
+    ["IC2208", "", "Gx", "07 51.8", "+27 28"],
+    ["IC2209", "", "Gx", "07 56.2", "+60 18"],
+    ["IC2211", "", "Gx", "07 57.8", "+32 33"],
+    ["IC2212", "", "Gx", "07 59.0", "+32 37"],
+    ["IC2213", "", "Gx", "07 59.1", "+27 28"],
+    ["IC2214", "", "Gx", "07 59.9", "+33 17"],
+    ["IC2217", "", "Gx", "08 00.8", "+27 30"],
+    ["IC2218", "", "Gx", "08 01.6", "+24 26"],
+    ["IC2219", "", "Gx", "08 02.6", "+27 26"],
+    ["IC2221", "", "Gx", "08 05.5", "+37 32"],
+    ["IC2222", "", "Gx", "08 05.2", "+37 28"],
+    ["IC2225", "", "Gx", "08 05.5", "+35 57"],
+    ["IC2226", "", "Gx", "08 06.2", "+12 33"],
+    ["IC2227", "", "Gx", "08 07.1", "+36 14"],
+    ["IC2228", "", "Gx", "08 07.1", "+08 03"],
+    ["IC2229", "", "Gx", "08 09.8", "+25 53"],
+    ["IC2230", "", "Gx", "08 10.9", "+25 41"],
+    ["IC2231", "", "Gx", "08 11.0", "+05 05"],
+    ["IC2233", "", "Gx", "08 14.0", "+45 45"],
+    ["IC2239", "", "Gx", "08 14.1", "+23 52"],
+    ["IC2247", "", "Gx", "08 16.0", "+23 12"],
+    ["IC2248", "", "Gx", "08 16.1", "+23 08"],
+    ["IC2253", "", "Gx", "08 16.6", "+21 25"],
+    ["IC2254", "", "Gx", "08 16.8", "+24 47"],
+    ["IC2256", "", "Gx", "08 16.9", "+24 11"],
+    ["IC2267", "", "Gx", "08 18.0", "+24 44"],
+    ["IC2268", "", "Gx", "08 18.1", "+24 48"],
+    ["IC2269", "", "Gx", "08 18.1", "+23 03"],
+    ["IC2271", "", "Gx", "08 18.3", "+24 32"],
+    ["IC2282", "", "Gx", "08 19.3", "+24 48"],
+    ["IC2288", "", "Gx", "08 19.4", "+23 45"],
+    ["IC2290", "", "Gx", "08 19.3", "+19 19"],
+    ["IC2293", "", "Gx", "08 19.5", "+21 24"],
+    ["IC2307", "", "Gx", "08 20.7", "+19 26"],
+    ["IC2308", "", "Gx", "08 20.8", "+19 22"],
+    ["IC2309", "", "Gx", "08 20.7", "+18 24"],
+    ["IC2311", "", "Gx", "08 18.8", "-25 22"],
+    ["IC2327", "", "Gx", "08 21.5", "+03 10"],
+    ["IC2329", "", "Gx", "08 22.3", "+19 25"],
+    ["IC2336", "", "Gx", "08 23.3", "+18 32"],
+    ["IC2338", "", "Gx", "08 23.5", "+21 20"],
+    ["IC2339", "", "Gx", "08 23.6", "+21 21"],
+    ["IC2340", "", "Gx", "08 23.5", "+18 45"],
+    ["IC2341", "", "Gx", "08 23.7", "+21 26"],
+    ["IC2348", "", "Gx", "08 24.3", "+20 32"],
+    ["IC2351", "", "Gx", "08 24.5", "+18 36"],
+    ["IC2361", "", "Gx", "08 25.7", "+27 52"],
+    ["IC2363", "", "Gx", "08 25.8", "+19 27"],
+    ["IC2365", "", "Gx", "08 26.3", "+27 50"],
+    ["IC2367", "", "Gx", "08 24.2", "-18 47"],
+    ["IC2369", "", "Gx", "08 26.4", "+20 16"],
+    ["IC2373", "", "Gx", "08 26.8", "+20 22"],
+    ["IC2374", "", "Gx", "08 28.4", "+30 27"],
+    ["IC2375", "", "Gx", "08 26.3", "-13 18"],
+    ["IC2376", "", "Gx", "08 28.4", "+30 24"],
+    ["IC2377", "", "Gx", "08 26.4", "-13 18"],
+    ["IC2378", "", "Gx", "08 28.5", "+30 26"],
+    ["IC2379", "", "Gx", "08 26.5", "-13 18"],
+    ["IC2380", "", "Gx", "08 28.7", "+30 24"],
+    ["IC2382", "", "Gx", "08 28.8", "+22 03"],
+    ["IC2383", "", "Gx", "08 29.7", "+30 41"],
+    ["IC2384", "", "Gx", "08 34.4", "+32 26"],
+    ["IC2385", "", "Gx", "08 35.2", "+37 16"],
+    ["IC2387", "", "Gx", "08 38.6", "+30 48"],
+    ["IC2388", "", "Gx", "08 39.9", "+19 39"],
+    ["IC2389", "", "Gx", "08 48.0", "+73 32"],
+    ["IC2391", "ο Vel Cluster", "OC", "08 40.5", "-53 02"],
+    ["IC2392", "", "Gx", "08 44.5", "+18 17"],
+    ["IC2393", "", "Gx", "08 46.8", "+28 10"],
+    ["IC2394", "", "Gx", "08 47.1", "+28 14"],
+    ["IC2395", "", "OC", "08 42.5", "-48 06"],
+    ["IC2398", "", "Gx", "08 46.7", "+17 45"],
+    ["IC2399", "", "Gx", "08 47.8", "+18 55"],
+    ["IC2400", "", "Gx", "08 48.0", "+38 04"],
+    ["IC2401", "", "Gx", "08 48.2", "+37 45"],
+    ["IC2402", "", "Gx", "08 48.0", "+31 47"],
+    ["IC2404", "", "Gx", "08 48.2", "+29 29"],
+    ["IC2405", "", "Gx", "08 48.7", "+37 13"],
+    ["IC2406", "", "Gx", "08 48.1", "+17 42"],
+    ["IC2407", "", "Gx", "08 48.2", "+17 37"],
+    ["IC2409", "", "Gx", "08 48.4", "+18 20"],
+    ["IC2411", "", "Gx", "08 48.5", "+19 03"],
+    ["IC2414", "", "Gx", "08 49.8", "+18 48"],
+    ["IC2420", "", "Gx", "08 51.6", "+03 06"],
+    ["IC2421", "", "Gx", "08 54.4", "+32 41"],
+    ["IC2422", "", "Gx", "08 54.4", "+20 13"],
+    ["IC2423", "", "Gx", "08 54.8", "+20 13"],
+    ["IC2426", "", "Gx", "08 58.5", "+02 56"],
+    ["IC2427", "", "Gx", "09 01.0", "+37 53"],
+    ["IC2428", "", "Gx", "09 03.2", "+30 35"],
+    ["IC2429", "", "Gx", "09 03.7", "+29 18"],
+    ["IC2430", "", "Gx", "09 04.4", "+27 57"],
+    ["IC2431", "Browning Galaxy", "Gx", "09 04.6", "+14 36"],
+    ["IC2432", "", "Gx", "09 04.7", "+05 31"],
+    ["IC2433", "", "Gx", "09 05.5", "+22 36"],
+    ["IC2434", "", "Gx", "09 07.3", "+37 13"],
+    ["IC2435", "", "Gx", "09 06.8", "+26 17"],
+    ["IC2437", "", "Gx", "09 05.6", "-19 12"],
+    ["IC2439", "", "Gx", "09 08.6", "+32 36"],
+    ["IC2441", "", "Gx", "09 10.0", "+22 51"],
+    ["IC2442", "", "Gx", "09 10.1", "+22 50"],
+    ["IC2443", "", "Gx", "09 11.5", "+28 50"],
+    ["IC2444", "", "Gx", "09 12.8", "+30 13"],
+    ["IC2445", "", "Gx", "09 13.2", "+31 49"],
+    ["IC2446", "", "Gx", "09 13.5", "+28 57"],
+    ["IC2448", "", "PN", "09 07.1", "-69 57"],
+    ["IC2450", "", "Gx", "09 17.1", "+25 26"],
+    ["IC2451", "", "Gx", "09 15.8", "+23 30"],
+    ["IC2452", "", "Gx", "09 16.0", "+23 28"],
+    ["IC2453", "", "Gx", "09 15.9", "+20 56"],
+    ["IC2454", "", "Gx", "09 16.0", "+17 49"],
+    ["IC2457", "", "Gx", "09 17.1", "+20 06"],
+    ["IC2461", "", "Gx", "09 20.0", "+37 11"],
+    ["IC2463", "", "Gx", "09 23.0", "+22 37"],
+    ["IC2464", "", "Gx", "09 23.4", "+22 38"],
+    ["IC2465", "", "Gx", "09 23.5", "+24 27"],
+    ["IC2466", "", "Gx", "09 23.8", "+24 31"],
+    ["IC2467", "", "Gx", "09 24.9", "+38 21"],
+    ["IC2468", "", "Gx", "09 25.0", "+38 21"],
+    ["IC2469", "", "Gx", "09 23.0", "-32 27"],
+    ["IC2471", "", "Gx", "09 25.2", "-06 50"],
+    ["IC2472", "", "Gx", "09 26.6", "+21 23"],
+    ["IC2473", "", "Gx", "09 27.4", "+30 26"],
+    ["IC2474", "", "Gx", "09 27.2", "+23 02"],
+    ["IC2475", "", "Gx", "09 27.9", "+29 48"],
+    ["IC2476", "", "Gx", "09 27.9", "+29 59"],
+    ["IC2478", "", "Gx", "09 28.0", "+30 02"],
+    ["IC2479", "", "Gx", "09 28.1", "+29 59"],
+    ["IC2480", "", "Gx", "09 28.3", "+29 42"],
+    ["IC2481", "", "Gx", "09 27.5", "+03 56"],
+    ["IC2482", "", "Gx", "09 27.0", "-12 07"],
+    ["IC2483", "", "Gx", "09 29.4", "+31 00"],
+    ["IC2486", "", "Gx", "09 30.3", "+26 38"],
+    ["IC2487", "", "Gx", "09 30.2", "+20 05"],
+    ["IC2488", "Strings of Pearl Cluster", "OC", "09 27.6", "-57 00"],
+    ["IC2489", "", "Gx", "09 30.1", "+20 04"],
+    ["IC2490", "", "Gx", "09 33.1", "+29 56"],
+    ["IC2491", "", "Gx", "09 35.2", "+34 44"],
+    ["IC2492", "", "Gx", "09 33.2", "-37 52"],
+    ["IC2493", "", "Gx", "09 36.3", "+37 22"],
+    ["IC2495", "", "Gx", "09 38.1", "+28 03"],
+    ["IC2496", "", "Gx", "09 38.7", "+34 44"],
+    ["IC2497", "", "Gx", "09 41.1", "+34 44"],
+    ["IC2498", "", "Gx", "09 41.4", "+28 07"],
+    ["IC2500", "", "Gx", "09 42.4", "+36 21"],
+    ["IC2501", "", "PN", "09 38.8", "-60 06"],
+    ["IC2505", "", "Gx", "09 45.1", "+27 16"],
+    ["IC2506", "", "Gx", "09 45.2", "+27 15"],
+    ["IC2507", "", "Gx", "09 44.6", "-31 47"],
+    ["IC2508", "", "Gx", "09 47.1", "+33 30"],
+    ["IC2510", "", "Gx", "09 47.7", "-32 50"],
+    ["IC2512", "", "Gx", "09 49.4", "-32 50"],
+    ["IC2513", "", "Gx", "09 50.0", "-32 53"],
+    ["IC2515", "", "Gx", "09 54.7", "+37 25"],
+    ["IC2516", "", "Gx", "09 54.8", "+37 41"],
+    ["IC2517", "", "Gx", "09 52.9", "-33 45"],
+    ["IC2518", "", "Gx", "09 56.0", "+37 09"],
+    ["IC2519", "", "Gx", "09 56.0", "+34 02"],
+    ["IC2520", "", "Gx", "09 56.3", "+27 14"],
+    ["IC2521", "", "Gx", "09 57.3", "+33 59"],
+    ["IC2522", "", "Gx", "09 55.1", "-33 08"],
+    ["IC2523", "", "Gx", "09 55.2", "-33 13"],
+    ["IC2524", "", "Gx", "09 57.5", "+33 37"],
+    ["IC2525", "", "Gx", "09 58.4", "+37 06"],
+    ["IC2526", "", "Gx", "09 57.1", "-32 15"],
+    ["IC2527", "", "Gx", "10 00.1", "+38 10"],
+    ["IC2530", "", "Gx", "10 01.5", "+37 12"],
+    ["IC2531", "", "Gx", "09 59.9", "-29 37"],
+    ["IC2532", "", "Gx", "10 00.1", "-34 14"],
+    ["IC2533", "", "Gx", "10 00.5", "-31 15"],
+    ["IC2534", "", "Gx", "10 01.5", "-34 07"],
+    ["IC2535", "", "Gx", "10 04.5", "+38 00"],
+    ["IC2536", "", "Gx", "10 03.5", "-33 57"],
+    ["IC2537", "", "Gx", "10 03.9", "-27 34"],
+    ["IC2538", "", "Gx", "10 03.9", "-34 48"],
+    ["IC2539", "", "Gx", "10 04.3", "-31 22"],
+    ["IC2540", "", "Gx", "10 06.8", "+31 29"],
+    ["IC2541", "", "Gx", "10 05.8", "-17 26"],
+    ["IC2542", "", "Gx", "10 07.8", "+34 19"],
+    ["IC2543", "", "Gx", "10 08.4", "+37 50"],
+    ["IC2544", "", "Gx", "10 08.5", "+33 21"],
+    ["IC2545", "", "Gx", "10 06.1", "-33 53"],
+    ["IC2546", "", "Gx", "10 07.1", "-33 16"],
+    ["IC2547", "", "Gx", "10 10.1", "+36 30"],
+    ["IC2548", "", "Gx", "10 07.9", "-35 14"],
+    ["IC2549", "", "Gx", "10 10.2", "+36 28"],
+    ["IC2550", "", "Gx", "10 10.5", "+27 57"],
+    ["IC2551", "", "Gx", "10 10.7", "+24 25"],
+    ["IC2552", "", "Gx", "10 10.8", "-34 51"],
+    ["IC2553", "", "PN", "10 09.3", "-62 37"],
+    ["IC2554", "", "Gx", "10 08.8", "-67 02"],
+    ["IC2556", "", "Gx", "10 12.6", "-34 44"],
+    ["IC2557", "", "Gx", "10 16.1", "+38 07"],
+    ["IC2558", "", "Gx", "10 14.7", "-34 20"],
+    ["IC2559", "", "Gx", "10 14.8", "-34 04"],
+    ["IC2560", "", "Gx", "10 16.3", "-33 34"],
+    ["IC2561", "", "Gx", "10 19.1", "+34 41"],
+    ["IC2562", "", "Gx", "10 18.9", "+16 09"],
+    ["IC2563", "", "Gx", "10 18.9", "-32 36"],
+    ["IC2565", "", "Gx", "10 21.3", "+27 56"],
+    ["IC2566", "", "Gx", "10 22.3", "+36 35"],
+    ["IC2567", "", "Gx", "10 22.0", "+24 39"],
+    ["IC2568", "", "Gx", "10 22.5", "+36 36"],
+    ["IC2569", "", "Gx", "10 22.9", "+24 36"],
+    ["IC2570", "", "Gx", "10 21.6", "-33 37"],
+    ["IC2572", "", "Gx", "10 25.1", "+28 06"],
+    ["IC2573", "", "Gx", "10 23.5", "-35 27"],
+    ["IC2574", "Coddington's Nebula", "Gx", "10 28.4", "+68 25"],
+    ["IC2575", "", "Gx", "10 25.4", "-32 38"],
+    ["IC2576", "", "Gx", "10 26.0", "-32 54"],
+    ["IC2577", "", "Gx", "10 28.0", "+32 46"],
+    ["IC2578", "", "Gx", "10 27.4", "-33 53"],
+    ["IC2580", "", "Gx", "10 28.3", "-31 31"],
+    ["IC2581", "", "OC", "10 27.5", "-57 37"],
+    ["IC2582", "", "Gx", "10 29.2", "-30 21"],
+    ["IC2583", "", "Gx", "10 31.2", "+26 03"],
+    ["IC2584", "", "Gx", "10 29.9", "-34 55"],
+    ["IC2586", "", "Gx", "10 31.0", "-28 43"],
+    ["IC2587", "", "Gx", "10 31.0", "-34 34"],
+    ["IC2588", "", "Gx", "10 31.8", "-30 23"],
+    ["IC2589", "", "Gx", "10 32.3", "-24 02"],
+    ["IC2590", "", "Gx", "10 36.3", "+26 58"],
+    ["IC2591", "", "Gx", "10 36.6", "+35 03"],
+    ["IC2594", "", "Gx", "10 36.1", "-24 19"],
+    ["IC2596", "", "Gx", "10 34.2", "-73 14"],
+    ["IC2597", "", "Gx", "10 37.8", "-27 05"],
+    ["IC2598", "", "Gx", "10 39.7", "+26 44"],
+    ["IC2599", "", "Neb", "10 37.7", "-58 39"],
+    ["IC2600", "", "Gx", "10 46.6", "+72 19"],
+    ["IC2601", "", "Gx", "10 47.2", "+72 19"],
+    ["IC2604", "", "Gx", "10 49.4", "+32 46"],
+    ["IC2606", "", "Gx", "10 50.3", "+37 57"],
+    ["IC2607", "", "Gx", "10 50.3", "+38 00"],
+    ["IC2608", "", "Gx", "10 50.3", "+32 46"],
+    ["IC2612", "", "Gx", "10 53.6", "+32 46"],
+    ["IC2615", "", "Gx", "11 02.0", "+37 57"],
+    ["IC2616", "", "Gx", "11 02.1", "+38 47"],
+    ["IC2617", "", "Gx", "11 02.1", "+38 40"],
+    ["IC2619", "", "Gx", "11 02.3", "+37 58"],
+    ["IC2620", "", "Gx", "11 02.4", "+38 30"],
+    ["IC2623", "", "Gx", "11 03.8", "-20 06"],
+    ["IC2626", "", "Gx", "11 09.1", "+26 54"],
+    ["IC2627", "", "Gx", "11 09.9", "-23 44"],
+    ["IC2628", "", "Gx", "11 11.6", "+12 07"],
+    ["IC2631", "", "RN", "11 09.9", "-76 37"],
+    ["IC2634", "", "Gx", "11 13.5", "+10 29"],
+    ["IC2637", "", "Gx", "11 13.8", "+09 35"],
+    ["IC2638", "", "Gx", "11 13.9", "+10 34"],
+    ["IC2645", "", "Gx", "11 14.5", "+11 53"],
+    ["IC2648", "", "Gx", "11 14.8", "+10 13"],
+    ["IC2649", "", "Gx", "11 14.8", "+11 08"],
+    ["IC2661", "", "Gx", "11 15.5", "+13 37"],
+    ["IC2666", "", "Gx", "11 15.7", "+13 47"],
+    ["IC2668", "", "Gx", "11 15.5", "-14 10"],
+    ["IC2672", "", "Gx", "11 16.1", "+10 10"],
+    ["IC2674", "", "Gx", "11 16.1", "+11 03"],
+    ["IC2680", "", "Gx", "11 16.4", "+09 48"],
+    ["IC2681", "", "Gx", "11 16.6", "+11 12"],
+    ["IC2684", "", "Gx", "11 17.0", "+13 06"],
+    ["IC2694", "", "Gx", "11 17.6", "+13 23"],
+    ["IC2698", "", "Gx", "11 17.9", "+11 53"],
+    ["IC2702", "", "Gx", "11 18.0", "+09 25"],
+    ["IC2703", "", "Gx", "11 18.1", "+17 39"],
+    ["IC2704", "", "Gx", "11 18.1", "+12 27"],
+    ["IC2708", "", "Gx", "11 18.6", "+12 43"],
+    ["IC2712", "", "Gx", "11 18.9", "+09 38"],
+    ["IC2714", "The Rip-Torn Cluster", "OC", "11 17.4", "-62 44"],
+    ["IC2718", "", "Gx", "11 19.3", "+12 01"],
+    ["IC2720", "", "Gx", "11 19.6", "+12 05"],
+    ["IC2735", "", "Gx", "11 21.1", "+34 21"],
+    ["IC2738", "", "Gx", "11 21.4", "+34 21"],
+    ["IC2744", "", "Gx", "11 21.7", "+34 22"],
+    ["IC2745", "", "Gx", "11 21.5", "+13 26"],
+    ["IC2746", "", "Gx", "11 21.8", "+11 44"],
+    ["IC2749", "", "Gx", "11 21.8", "+08 34"],
+    ["IC2751", "", "Gx", "11 22.1", "+34 22"],
+    ["IC2757", "", "Gx", "11 22.0", "+08 24"],
+    ["IC2758", "", "Gx", "11 22.1", "+07 49"],
+    ["IC2759", "", "Gx", "11 22.2", "+24 18"],
+    ["IC2762", "", "Gx", "11 22.3", "+12 43"],
+    ["IC2763", "", "Gx", "11 22.3", "+13 04"],
+    ["IC2764", "", "Gx", "11 27.1", "-28 59"],
+    ["IC2767", "", "Gx", "11 22.4", "+13 05"],
+    ["IC2769", "", "Gx", "11 22.4", "+14 12"],
+    ["IC2776", "", "Gx", "11 22.7", "+13 20"],
+    ["IC2777", "", "Gx", "11 22.7", "+12 02"],
+    ["IC2779", "", "Gx", "11 22.7", "+13 21"],
+    ["IC2781", "", "Gx", "11 22.8", "+12 21"],
+    ["IC2782", "", "Gx", "11 22.9", "+13 26"],
+    ["IC2786", "", "Gx", "11 23.3", "+13 23"],
+    ["IC2787", "", "Gx", "11 23.3", "+13 38"],
+    ["IC2804", "", "Gx", "11 24.9", "+13 13"],
+    ["IC2810", "", "Gx", "11 25.8", "+14 41"],
+    ["IC2819", "", "Gx", "11 26.5", "+13 51"],
+    ["IC2822", "", "Gx", "11 26.6", "+11 26"],
+    ["IC2823", "", "Gx", "11 26.7", "+12 51"],
+    ["IC2826", "", "Gx", "11 27.1", "+13 14"],
+    ["IC2828", "", "Gx", "11 27.2", "+08 44"],
+    ["IC2829", "", "Gx", "11 27.2", "+10 19"],
+    ["IC2830", "", "Gx", "11 27.4", "+07 49"],
+    ["IC2835", "", "Gx", "11 27.5", "+12 09"],
+    ["IC2843", "", "Gx", "11 28.0", "+13 11"],
+    ["IC2846", "", "Gx", "11 28.0", "+11 09"],
+    ["IC2850", "", "Gx", "11 28.2", "+09 04"],
+    ["IC2853", "", "Gx", "11 28.2", "+09 09"],
+    ["IC2856", "", "Gx", "11 28.3", "-12 53"],
+    ["IC2857", "", "Gx", "11 28.5", "+09 06"],
+    ["IC2861", "", "Gx", "11 29.0", "+38 51"],
+    ["IC2867", "", "Gx", "11 29.0", "+09 05"],
+    ["IC2871", "", "Gx", "11 29.3", "+08 36"],
+    ["IC2872", "", "Neb", "11 28.9", "-62 38"],
+    ["IC2873", "", "Gx", "11 29.5", "+13 13"],
+    ["IC2877", "", "Gx", "11 29.6", "+12 51"],
+    ["IC2887", "", "Gx", "11 30.5", "+09 23"],
+    ["IC2888", "", "Gx", "04 59.8", "-00 09"],
+    ["IC2889", "", "Gx", "11 30.5", "-13 05"],
+    ["IC2893", "", "Gx", "11 30.9", "+13 23"],
+    ["IC2894", "", "Gx", "11 31.0", "+13 14"],
+    ["IC2910", "", "Gx", "11 31.9", "-09 44"],
+    ["IC2913", "", "Gx", "11 31.9", "-30 25"],
+    ["IC2914", "", "Gx", "11 32.2", "+13 30"],
+    ["IC2919", "", "Gx", "11 32.6", "+14 11"],
+    ["IC2921", "", "Gx", "11 32.8", "+10 18"],
+    ["IC2925", "", "Gx", "11 33.2", "+34 16"],
+    ["IC2928", "", "Gx", "11 33.5", "+34 19"],
+    ["IC2930", "", "Gx", "11 33.7", "+10 05"],
+    ["IC2933", "", "Gx", "11 34.2", "+34 19"],
+    ["IC2934", "", "Gx", "11 34.3", "+13 19"],
+    ["IC2938", "", "Gx", "11 35.6", "+13 41"],
+    ["IC2941", "", "Gx", "11 36.2", "+10 03"],
+    ["IC2943", "", "Gx", "11 36.7", "+54 51"],
+    ["IC2944", "Running Chicken Nebula", "Neb", "11 38.3", "-63 22"],
+    ["IC2945", "", "Gx", "11 37.1", "+12 56"],
+    ["IC2946", "", "Gx", "11 37.5", "+32 15"],
+    ["IC2947", "", "Gx", "11 37.5", "+31 22"],
+    ["IC2949", "", "Gx", "11 41.0", "-46 34"],
+    ["IC2950", "", "Gx", "11 41.6", "+38 00"],
+    ["IC2951", "", "Gx", "11 43.4", "+19 45"],
+    ["IC2952", "", "Gx", "11 44.3", "+33 21"],
+    ["IC2953", "", "Gx", "11 44.4", "+33 21"],
+    ["IC2954", "", "Gx", "11 45.1", "+26 50"],
+    ["IC2955", "", "Gx", "11 45.1", "+19 37"],
+    ["IC2956", "", "Gx", "11 45.3", "+26 46"],
+    ["IC2957", "", "Gx", "11 45.6", "+31 18"],
+    ["IC2958", "", "Gx", "11 45.7", "+33 09"],
+    ["IC2960", "", "Gx", "11 46.3", "+35 00"],
+    ["IC2961", "", "Gx", "11 47.8", "+31 21"],
+    ["IC2963", "", "Gx", "11 49.4", "-05 07"],
+    ["IC2966", "", "RN", "11 50.2", "-64 52"],
+    ["IC2967", "", "Gx", "11 50.9", "+30 51"],
+    ["IC2968", "", "Gx", "11 52.5", "+20 38"],
+    ["IC2969", "", "Gx", "11 52.5", "-03 52"],
+    ["IC2971", "", "Gx", "11 53.5", "+30 42"],
+    ["IC2973", "", "Gx", "11 53.8", "+33 22"],
+    ["IC2974", "", "Gx", "11 53.8", "-05 10"],
+    ["IC2977", "", "Gx", "11 55.2", "-37 42"],
+    ["IC2978", "", "Gx", "11 56.4", "+32 02"],
+    ["IC2979", "", "Gx", "11 56.9", "+32 10"],
+    ["IC2980", "", "Gx", "11 57.5", "-73 41"],
+    ["IC2982", "", "Gx", "11 57.9", "+27 52"],
+    ["IC2984", "", "Gx", "11 59.1", "+30 42"],
+    ["IC2985", "", "Gx", "11 59.2", "+30 44"],
+    ["IC2986", "", "Gx", "11 59.8", "+30 51"],
+    ["IC2987", "", "Gx", "12 03.4", "+38 49"],
+    ["IC2990", "", "Gx", "12 04.6", "+11 03"],
+    ["IC2991", "", "Gx", "12 05.2", "+10 38"],
+    ["IC2993", "", "Gx", "12 06.1", "+32 54"],
+    ["IC2994", "", "Gx", "12 05.5", "+12 42"],
+    ["IC2995", "", "Gx", "12 05.8", "-27 56"],
+    ["IC2996", "", "Gx", "12 05.8", "-29 58"],
+    ["IC2999", "", "Gx", "12 06.0", "+31 21"],
+    ["IC3001", "", "Gx", "12 06.3", "+33 32"],
+    ["IC3002", "", "Gx", "12 07.1", "+33 23"],
+    ["IC3003", "", "Gx", "12 07.5", "+32 49"],
+    ["IC3004", "", "Gx", "12 07.2", "+13 15"],
+    ["IC3005", "", "Gx", "12 07.2", "-30 01"],
+    ["IC3007", "", "Gx", "12 07.5", "+31 21"],
+    ["IC3008", "", "Gx", "12 07.9", "+13 35"],
+    ["IC3010", "", "Gx", "12 08.0", "-30 20"],
+    ["IC3012", "", "Gx", "12 08.4", "+11 11"],
+    ["IC3013", "", "Gx", "12 08.4", "+10 01"],
+    ["IC3014", "", "Gx", "12 08.6", "+38 50"],
+    ["IC3015", "", "Gx", "12 09.0", "-31 31"],
+    ["IC3016", "", "Gx", "12 09.3", "+11 26"],
+    ["IC3017", "", "Gx", "12 09.4", "+13 34"],
+    ["IC3019", "", "Gx", "12 09.4", "+14 00"],
+    ["IC3021", "", "Gx", "12 09.9", "+13 03"],
+    ["IC3022", "", "Gx", "12 10.0", "+38 44"],
+    ["IC3023", "", "Gx", "12 10.0", "+14 22"],
+    ["IC3024", "", "Gx", "12 10.2", "+12 20"],
+    ["IC3025", "", "Gx", "12 10.4", "+10 11"],
+    ["IC3029", "", "Gx", "12 10.7", "+13 20"],
+    ["IC3032", "", "Gx", "12 11.1", "+14 17"],
+    ["IC3033", "", "Gx", "12 11.2", "+13 35"],
+    ["IC3036", "", "Gx", "12 12.3", "+12 29"],
+    ["IC3037", "", "Gx", "12 12.3", "+09 59"],
+    ["IC3038", "", "Gx", "12 12.5", "+11 21"],
+    ["IC3039", "", "Gx", "12 12.5", "+12 19"],
+    ["IC3040", "", "Gx", "12 12.6", "+11 05"],
+    ["IC3044", "", "Gx", "12 12.8", "+13 59"],
+    ["IC3046", "", "Gx", "12 13.1", "+12 55"],
+    ["IC3049", "", "Gx", "12 13.6", "+14 29"],
+    ["IC3052", "", "Gx", "12 13.8", "+12 41"],
+    ["IC3053", "", "Gx", "12 13.9", "+14 13"],
+    ["IC3056", "", "Gx", "12 14.6", "+12 49"],
+    ["IC3059", "", "Gx", "12 14.9", "+13 28"],
+    ["IC3060", "", "Gx", "12 15.0", "+12 33"],
+    ["IC3061", "", "Gx", "12 15.1", "+14 02"],
+    ["IC3062", "", "Gx", "12 15.1", "+13 36"],
+    ["IC3063", "", "Gx", "12 15.1", "+12 01"],
+    ["IC3065", "", "Gx", "12 15.2", "+14 26"],
+    ["IC3066", "", "Gx", "12 15.3", "+13 28"],
+    ["IC3067", "", "Gx", "12 15.3", "+23 57"],
+    ["IC3073", "", "Gx", "12 15.6", "+13 37"],
+    ["IC3074", "", "Gx", "12 15.8", "+10 42"],
+    ["IC3075", "", "Gx", "12 15.9", "+23 36"],
+    ["IC3077", "", "Gx", "12 15.9", "+14 26"],
+    ["IC3078", "", "Gx", "12 16.0", "+12 41"],
+    ["IC3079", "", "Gx", "12 16.1", "+11 32"],
+    ["IC3080", "", "Gx", "12 16.0", "+14 11"],
+    ["IC3081", "", "Gx", "12 16.2", "+12 41"],
+    ["IC3084", "", "Gx", "12 16.4", "+23 55"],
+    ["IC3089", "", "Gx", "12 16.5", "+23 50"],
+    ["IC3091", "", "Gx", "12 16.5", "+14 01"],
+    ["IC3093", "", "Gx", "12 16.7", "+14 17"],
+    ["IC3094", "", "Gx", "12 16.9", "+13 38"],
+    ["IC3095", "", "Gx", "12 16.9", "+23 57"],
+    ["IC3096", "", "Gx", "12 16.9", "+14 31"],
+    ["IC3097", "", "Gx", "12 17.0", "+09 24"],
+    ["IC3099", "", "Gx", "12 17.2", "+12 27"],
+    ["IC3100", "", "Gx", "12 17.1", "+12 17"],
+    ["IC3101", "", "Gx", "12 17.3", "+11 57"],
+    ["IC3104", "", "Gx", "12 18.8", "-79 44"],
+    ["IC3105", "", "Gx", "12 17.6", "+12 23"],
+    ["IC3107", "", "Gx", "12 17.8", "+10 51"],
+    ["IC3109", "", "Gx", "12 17.7", "+13 10"],
+    ["IC3111", "", "Gx", "12 17.8", "+08 26"],
+    ["IC3112", "", "Gx", "12 17.8", "+26 02"],
+    ["IC3118", "", "Gx", "12 18.2", "+09 30"],
+    ["IC3119", "", "Gx", "12 18.1", "+24 41"],
+    ["IC3120", "", "Gx", "12 18.3", "+13 45"],
+    ["IC3122", "", "Gx", "12 18.4", "+25 13"],
+    ["IC3127", "", "Gx", "12 18.6", "+11 52"],
+    ["IC3128", "", "Gx", "12 18.7", "+11 44"],
+    ["IC3131", "", "Gx", "12 18.8", "+07 52"],
+    ["IC3134", "", "Gx", "12 18.9", "+08 58"],
+    ["IC3136", "", "Gx", "12 19.0", "+06 11"],
+    ["IC3137", "", "Gx", "12 18.9", "+12 28"],
+    ["IC3141", "", "Gx", "12 19.0", "+24 11"],
+    ["IC3142", "", "Gx", "12 19.1", "+13 59"],
+    ["IC3143", "", "Gx", "12 19.1", "+27 18"],
+    ["IC3146", "", "Gx", "12 19.2", "+25 43"],
+    ["IC3147", "", "Gx", "12 19.3", "+12 01"],
+    ["IC3148", "", "Gx", "12 19.4", "+07 52"],
+    ["IC3149", "", "Gx", "12 19.4", "+12 18"],
+    ["IC3150", "", "Gx", "12 19.5", "+07 48"],
+    ["IC3151", "", "Gx", "12 19.5", "+09 25"],
+    ["IC3152", "", "Gx", "12 19.6", "-26 09"],
+    ["IC3153", "", "Gx", "12 19.6", "+05 24"],
+    ["IC3155", "", "Gx", "12 19.8", "+06 00"],
+    ["IC3156", "", "Gx", "12 19.7", "+09 09"],
+    ["IC3157", "", "Gx", "12 19.8", "+12 25"],
+    ["IC3165", "", "Gx", "12 20.1", "+27 59"],
+    ["IC3167", "", "Gx", "12 20.3", "+09 33"],
+    ["IC3168", "", "Gx", "12 20.3", "+27 55"],
+    ["IC3170", "", "Gx", "12 20.4", "+09 25"],
+    ["IC3171", "", "Gx", "12 20.4", "+25 34"],
+    ["IC3173", "", "Gx", "12 20.5", "+11 20"],
+    ["IC3174", "", "Gx", "12 20.5", "+10 15"],
+    ["IC3175", "", "Gx", "12 20.6", "+09 51"],
+    ["IC3179", "", "Gx", "12 20.6", "+26 10"],
+    ["IC3184", "", "Gx", "12 20.8", "+24 55"],
+    ["IC3185", "", "Gx", "12 20.9", "+25 26"],
+    ["IC3186", "", "Gx", "12 20.9", "+24 40"],
+    ["IC3187", "", "Gx", "12 20.9", "+11 10"],
+    ["IC3188", "", "Gx", "12 20.9", "+11 01"],
+    ["IC3193", "", "Gx", "12 21.0", "+27 54"],
+    ["IC3199", "", "Gx", "12 21.8", "+10 36"],
+    ["IC3203", "", "Gx", "12 21.8", "+25 53"],
+    ["IC3204", "", "Gx", "12 21.8", "+24 15"],
+    ["IC3205", "", "Gx", "12 21.8", "+26 20"],
+    ["IC3206", "", "Gx", "12 21.9", "+26 22"],
+    ["IC3209", "", "Gx", "12 22.1", "+11 45"],
+    ["IC3210", "", "Gx", "12 22.0", "+28 26"],
+    ["IC3211", "", "Gx", "12 22.1", "+08 59"],
+    ["IC3212", "", "Gx", "12 22.1", "+28 11"],
+    ["IC3213", "", "Gx", "12 22.1", "+23 52"],
+    ["IC3215", "", "Gx", "12 22.2", "+26 03"],
+    ["IC3218", "", "Gx", "12 22.3", "+06 56"],
+    ["IC3222", "", "Gx", "12 22.3", "+28 50"],
+    ["IC3224", "", "Gx", "12 22.6", "+12 09"],
+    ["IC3225", "", "Gx", "12 22.7", "+06 41"],
+    ["IC3227", "", "Gx", "12 22.6", "+24 05"],
+    ["IC3229", "", "Gx", "12 22.9", "+06 41"],
+    ["IC3230", "", "Gx", "12 22.7", "+27 45"],
+    ["IC3231", "", "Gx", "12 22.7", "+24 49"],
+    ["IC3233", "", "Gx", "12 22.9", "+12 34"],
+    ["IC3238", "", "Gx", "12 23.1", "+14 27"],
+    ["IC3239", "", "Gx", "12 23.2", "+11 44"],
+    ["IC3243", "", "Gx", "12 23.2", "+27 46"],
+    ["IC3244", "", "Gx", "12 23.2", "+14 23"],
+    ["IC3253", "", "Gx", "12 23.8", "-34 37"],
+    ["IC3255", "", "Gx", "12 23.6", "+09 39"],
+    ["IC3258", "", "Gx", "12 23.7", "+12 29"],
+    ["IC3259", "", "Gx", "12 23.8", "+07 11"],
+    ["IC3262", "", "Gx", "12 23.8", "+27 24"],
+    ["IC3263", "", "Gx", "12 23.8", "+28 12"],
+    ["IC3267", "", "Gx", "12 24.1", "+07 02"],
+    ["IC3268", "", "Gx", "12 24.1", "+06 36"],
+    ["IC3271", "", "Gx", "12 24.2", "+07 57"],
+    ["IC3274", "", "Gx", "12 24.2", "+09 16"],
+    ["IC3278", "", "Gx", "12 24.3", "+27 25"],
+    ["IC3284", "", "Gx", "12 24.6", "+10 50"],
+    ["IC3289", "", "Gx", "12 25.0", "-26 02"],
+    ["IC3290", "", "Gx", "12 25.1", "-39 47"],
+    ["IC3292", "", "Gx", "12 24.8", "+18 12"],
+    ["IC3296", "", "Gx", "12 25.0", "+24 23"],
+    ["IC3298", "", "Gx", "12 25.1", "+17 01"],
+    ["IC3300", "", "Gx", "12 25.1", "+25 57"],
+    ["IC3303", "", "Gx", "12 25.3", "+12 43"],
+    ["IC3305", "", "Gx", "12 25.2", "+11 51"],
+    ["IC3308", "", "Gx", "12 25.3", "+26 43"],
+    ["IC3309", "", "Gx", "12 25.3", "+28 23"],
+    ["IC3311", "", "Gx", "12 25.6", "+12 16"],
+    ["IC3313", "", "Gx", "12 25.6", "+15 50"],
+    ["IC3316", "", "Gx", "12 25.6", "+26 10"],
+    ["IC3322", "", "Gx", "12 25.7", "+07 13"],
+    ["IC3327", "", "Gx", "12 26.0", "+14 53"],
+    ["IC3328", "", "Gx", "12 26.0", "+10 03"],
+    ["IC3330", "", "Gx", "12 25.9", "+30 51"],
+    ["IC3331", "", "Gx", "12 26.1", "+11 49"],
+    ["IC3336", "", "Gx", "12 26.3", "+26 50"],
+    ["IC3344", "", "Gx", "12 26.5", "+13 35"],
+    ["IC3345", "", "Gx", "12 26.5", "+16 51"],
+    ["IC3347", "", "Gx", "12 26.7", "+10 55"],
+    ["IC3349", "", "Gx", "12 26.8", "+12 27"],
+    ["IC3355", "", "Gx", "12 26.9", "+13 11"],
+    ["IC3356", "", "Gx", "12 26.8", "+11 34"],
+    ["IC3357", "", "Gx", "12 26.9", "+09 47"],
+    ["IC3358", "", "Gx", "12 26.9", "+11 40"],
+    ["IC3359", "", "Gx", "12 26.9", "+23 30"],
+    ["IC3363", "", "Gx", "12 27.1", "+12 34"],
+    ["IC3365", "", "Gx", "12 27.2", "+15 54"],
+    ["IC3367", "", "Gx", "12 27.2", "+26 57"],
+    ["IC3369", "", "Gx", "12 27.3", "+16 01"],
+    ["IC3370", "", "Gx", "12 27.6", "-39 20"],
+    ["IC3371", "", "Gx", "12 27.4", "+10 52"],
+    ["IC3372", "", "Gx", "12 27.4", "+25 17"],
+    ["IC3374", "", "Gx", "12 27.6", "+10 00"],
+    ["IC3376", "", "Gx", "12 27.8", "+27 00"],
+    ["IC3378", "", "Gx", "12 28.0", "+17 18"],
+    ["IC3379", "", "Gx", "12 28.1", "+17 18"],
+    ["IC3381", "", "Gx", "12 28.2", "+11 47"],
+    ["IC3382", "", "Gx", "12 28.2", "+13 34"],
+    ["IC3383", "", "Gx", "12 28.2", "+10 18"],
+    ["IC3384", "", "Gx", "12 28.2", "+25 05"],
+    ["IC3387", "", "Gx", "12 28.3", "+28 00"],
+    ["IC3388", "", "Gx", "12 28.5", "+12 49"],
+    ["IC3391", "", "Gx", "12 28.5", "+18 25"],
+    ["IC3392", "", "Gx", "12 28.7", "+15 00"],
+    ["IC3393", "", "Gx", "12 28.7", "+12 55"],
+    ["IC3394", "", "Gx", "12 28.7", "+26 48"],
+    ["IC3402", "", "Gx", "12 29.0", "+28 52"],
+    ["IC3403", "", "Gx", "12 29.0", "+24 38"],
+    ["IC3406", "", "Gx", "12 29.0", "+27 38"],
+    ["IC3407", "", "Gx", "12 29.1", "+27 47"],
+    ["IC3409", "", "Gx", "12 29.4", "+14 47"],
+    ["IC3410", "", "Gx", "12 29.1", "+19 00"],
+    ["IC3412", "", "Gx", "12 29.4", "+09 59"],
+    ["IC3413", "", "Gx", "12 29.4", "+11 26"],
+    ["IC3414", "", "Gx", "12 29.5", "+06 46"],
+    ["IC3416", "", "Gx", "12 29.6", "+10 48"],
+    ["IC3418", "", "Gx", "12 29.7", "+11 24"],
+    ["IC3419", "", "Gx", "12 29.7", "+15 01"],
+    ["IC3421", "", "Gx", "12 29.6", "+26 14"],
+    ["IC3425", "", "Gx", "12 29.9", "+10 37"],
+    ["IC3430", "", "Gx", "12 30.3", "+09 05"],
+    ["IC3432", "", "Gx", "12 30.5", "+14 10"],
+    ["IC3434", "", "Gx", "12 30.5", "+18 49"],
+    ["IC3435", "", "Gx", "12 30.7", "+15 08"],
+    ["IC3436", "", "Gx", "12 30.5", "+19 40"],
+    ["IC3437", "", "Gx", "12 30.8", "+11 21"],
+    ["IC3441", "", "Gx", "12 31.1", "+28 51"],
+    ["IC3442", "", "Gx", "12 31.3", "+14 07"],
+    ["IC3443", "", "Gx", "12 31.3", "+12 20"],
+    ["IC3446", "", "Gx", "12 31.4", "+11 30"],
+    ["IC3448", "", "Gx", "12 31.4", "+17 12"],
+    ["IC3449", "", "Gx", "12 31.4", "+25 55"],
+    ["IC3450", "", "Gx", "12 31.4", "+26 48"],
+    ["IC3451", "", "Gx", "12 31.4", "+28 51"],
+    ["IC3453", "", "Gx", "12 31.6", "+14 52"],
+    ["IC3454", "", "Gx", "12 31.6", "+27 30"],
+    ["IC3457", "", "Gx", "12 31.9", "+12 39"],
+    ["IC3459", "", "Gx", "12 31.9", "+12 10"],
+    ["IC3460", "", "Gx", "12 31.8", "+27 23"],
+    ["IC3461", "", "Gx", "12 32.0", "+11 53"],
+    ["IC3462", "", "Gx", "12 32.2", "+15 18"],
+    ["IC3465", "", "Gx", "12 32.2", "+12 04"],
+    ["IC3466", "", "Gx", "12 32.1", "+11 49"],
+    ["IC3467", "", "Gx", "12 32.4", "+11 47"],
+    ["IC3468", "", "Gx", "12 32.2", "+10 15"],
+    ["IC3470", "", "Gx", "12 32.4", "+11 16"],
+    ["IC3471", "", "Gx", "12 32.4", "+16 01"],
+    ["IC3472", "", "Gx", "12 32.3", "+24 44"],
+    ["IC3473", "", "Gx", "12 32.3", "+18 15"],
+    ["IC3474", "", "Gx", "12 32.6", "+02 40"],
+    ["IC3475", "", "Gx", "12 32.7", "+12 46"],
+    ["IC3476", "", "Gx", "12 32.7", "+14 03"],
+    ["IC3478", "", "Gx", "12 32.7", "+14 12"],
+    ["IC3479", "", "Gx", "12 32.7", "+25 24"],
+    ["IC3481", "", "Gx", "12 32.9", "+11 24"],
+    ["IC3483", "", "Gx", "12 33.2", "+11 21"],
+    ["IC3484", "", "Gx", "12 33.1", "+17 24"],
+    ["IC3486", "", "Gx", "12 33.2", "+12 51"],
+    ["IC3487", "", "Gx", "12 33.2", "+09 24"],
+    ["IC3488", "", "Gx", "12 33.1", "+26 21"],
+    ["IC3489", "", "Gx", "12 33.2", "+12 15"],
+    ["IC3490", "", "Gx", "12 33.2", "+10 56"],
+    ["IC3491", "", "Gx", "12 33.1", "+27 06"],
+    ["IC3492", "", "Gx", "12 33.3", "+12 51"],
+    ["IC3495", "", "Gx", "12 33.5", "+26 47"],
+    ["IC3496", "", "Gx", "12 33.5", "+26 44"],
+    ["IC3499", "", "Gx", "12 33.8", "+11 00"],
+    ["IC3500", "", "Gx", "12 33.8", "+13 58"],
+    ["IC3501", "", "Gx", "12 33.9", "+13 19"],
+    ["IC3505", "", "Gx", "12 34.2", "+15 58"],
+    ["IC3506", "", "Gx", "12 34.1", "+12 44"],
+    ["IC3508", "", "Gx", "12 34.1", "+26 40"],
+    ["IC3509", "", "Gx", "12 34.2", "+12 03"],
+    ["IC3510", "", "Gx", "12 34.2", "+11 04"],
+    ["IC3516", "", "Gx", "12 34.3", "+27 27"],
+    ["IC3517", "", "Gx", "12 34.5", "+09 09"],
+    ["IC3518", "", "Gx", "12 34.5", "+09 37"],
+    ["IC3519", "", "Gx", "12 34.6", "+15 36"],
+    ["IC3520", "", "Gx", "12 34.5", "+13 30"],
+    ["IC3521", "", "Gx", "12 34.7", "+07 10"],
+    ["IC3522", "", "Gx", "12 34.8", "+15 13"],
+    ["IC3524", "", "Gx", "12 34.7", "+14 13"],
+    ["IC3528", "", "Gx", "12 34.9", "+15 34"],
+    ["IC3530", "", "Gx", "12 34.8", "+17 49"],
+    ["IC3533", "", "Gx", "12 35.0", "+25 47"],
+    ["IC3536", "", "Gx", "12 35.2", "+26 32"],
+    ["IC3540", "", "Gx", "12 35.5", "+12 45"],
+    ["IC3556", "", "Gx", "12 36.0", "+26 58"],
+    ["IC3557", "", "Gx", "12 36.1", "+16 38"],
+    ["IC3559", "", "Gx", "12 36.1", "+26 59"],
+    ["IC3561", "", "Gx", "12 36.1", "+26 54"],
+    ["IC3562", "", "Gx", "12 36.2", "+09 55"],
+    ["IC3567", "", "Gx", "12 36.4", "+13 36"],
+    ["IC3568", "Lemon slice Nebula", "PN", "12 33.1", "+82 34"],
+    ["IC3573", "", "Gx", "12 36.5", "+11 46"],
+    ["IC3576", "", "Gx", "12 36.6", "+06 37"],
+    ["IC3578", "", "Gx", "12 36.7", "+11 06"],
+    ["IC3581", "", "Gx", "12 36.6", "+24 26"],
+    ["IC3582", "", "Gx", "12 36.5", "+26 12"],
+    ["IC3585", "", "Gx", "12 36.7", "+26 50"],
+    ["IC3586", "", "Gx", "12 36.9", "+12 31"],
+    ["IC3587", "", "Gx", "12 36.8", "+27 33"],
+    ["IC3590", "", "Gx", "12 36.8", "+27 17"],
+    ["IC3591", "", "Gx", "12 37.0", "+06 56"],
+    ["IC3597", "", "Gx", "12 37.4", "+23 52"],
+    ["IC3598", "", "Gx", "12 37.4", "+28 12"],
+    ["IC3599", "", "Gx", "12 37.7", "+26 42"],
+    ["IC3600", "", "Gx", "12 37.7", "+27 08"],
+    ["IC3602", "", "Gx", "12 38.1", "+10 05"],
+    ["IC3605", "", "Gx", "12 38.3", "+19 32"],
+    ["IC3608", "", "Gx", "12 38.6", "+10 29"],
+    ["IC3609", "", "Gx", "12 38.6", "+14 21"],
+    ["IC3611", "", "Gx", "12 39.1", "+13 22"],
+    ["IC3612", "", "Gx", "12 39.1", "+14 44"],
+    ["IC3615", "", "Gx", "12 39.0", "+18 12"],
+    ["IC3617", "", "Gx", "12 39.4", "+07 58"],
+    ["IC3618", "", "Gx", "12 39.3", "+26 41"],
+    ["IC3620", "", "Gx", "12 39.3", "+27 55"],
+    ["IC3621", "", "Gx", "12 39.6", "+15 30"],
+    ["IC3623", "", "Gx", "12 39.5", "+27 06"],
+    ["IC3625", "", "Gx", "12 39.6", "+10 58"],
+    ["IC3626", "", "Gx", "12 39.5", "+25 41"],
+    ["IC3627", "", "Gx", "12 39.5", "+27 30"],
+    ["IC3629", "", "Gx", "12 39.8", "+13 32"],
+    ["IC3631", "", "Gx", "12 39.8", "+12 58"],
+    ["IC3633", "", "Gx", "12 40.2", "+09 54"],
+    ["IC3635", "", "Gx", "12 40.2", "+12 52"],
+    ["IC3637", "", "Gx", "12 40.3", "+14 43"],
+    ["IC3638", "", "Gx", "12 40.3", "+10 31"],
+    ["IC3639", "", "Gx", "12 40.9", "-36 45"],
+    ["IC3640", "", "Gx", "12 40.4", "+26 31"],
+    ["IC3644", "", "Gx", "12 40.6", "+26 30"],
+    ["IC3646", "", "Gx", "12 40.6", "+26 32"],
+    ["IC3647", "", "Gx", "12 40.9", "+10 29"],
+    ["IC3651", "", "Gx", "12 40.9", "+26 44"],
+    ["IC3652", "", "Gx", "12 41.0", "+11 11"],
+    ["IC3653", "", "Gx", "12 41.3", "+11 23"],
+    ["IC3654", "", "Gx", "12 41.2", "+22 35"],
+    ["IC3656", "", "Gx", "12 41.2", "+22 36"],
+    ["IC3658", "", "Gx", "12 41.3", "+14 42"],
+    ["IC3659", "", "Gx", "12 41.5", "+22 56"],
+    ["IC3662", "", "Gx", "12 41.6", "+23 26"],
+    ["IC3665", "", "Gx", "12 41.8", "+11 29"],
+    ["IC3671", "", "Gx", "12 41.9", "+23 31"],
+    ["IC3672", "", "Gx", "12 42.1", "+11 45"],
+    ["IC3686", "", "Gx", "12 42.6", "+10 34"],
+    ["IC3687", "", "Gx", "12 42.3", "+38 30"],
+    ["IC3690", "", "Gx", "12 42.8", "+10 21"],
+    ["IC3692", "", "Gx", "12 42.9", "+20 59"],
+    ["IC3693", "", "Gx", "12 43.0", "+10 41"],
+    ["IC3694", "", "Gx", "12 43.1", "+11 13"],
+    ["IC3697", "", "Gx", "12 43.0", "+39 51"],
+    ["IC3698", "", "Gx", "12 43.3", "+11 13"],
+    ["IC3702", "", "Gx", "12 43.5", "+10 52"],
+    ["IC3704", "", "Gx", "12 43.8", "+10 46"],
+    ["IC3709", "", "Gx", "12 44.1", "+09 04"],
+    ["IC3710", "", "Gx", "12 44.2", "+12 07"],
+    ["IC3713", "", "Gx", "12 44.1", "+41 10"],
+    ["IC3714", "", "Gx", "12 44.4", "+10 11"],
+    ["IC3716", "", "Gx", "12 44.8", "+08 06"],
+    ["IC3717", "", "Gx", "12 44.4", "+39 31"],
+    ["IC3718", "", "Gx", "12 44.8", "+12 21"],
+    ["IC3720", "", "Gx", "12 44.8", "+12 04"],
+    ["IC3723", "", "Gx", "12 44.5", "+40 44"],
+    ["IC3724", "", "Gx", "12 44.9", "+10 17"],
+    ["IC3725", "", "Gx", "12 44.9", "+18 45"],
+    ["IC3726", "", "Gx", "12 44.7", "+40 41"],
+    ["IC3727", "", "Gx", "12 45.1", "+10 54"],
+    ["IC3729", "", "Gx", "12 44.9", "+39 21"],
+    ["IC3730", "", "Gx", "12 45.1", "+21 10"],
+    ["IC3734", "", "Gx", "12 45.2", "+23 02"],
+    ["IC3735", "", "Gx", "12 45.3", "+13 42"],
+    ["IC3736", "", "Gx", "12 45.3", "+21 32"],
+    ["IC3740", "", "Gx", "12 45.5", "+20 49"],
+    ["IC3742", "", "Gx", "12 45.5", "+13 20"],
+    ["IC3745", "", "Gx", "12 45.7", "+19 11"],
+    ["IC3746", "", "Gx", "12 45.5", "+37 49"],
+    ["IC3754", "", "Gx", "12 46.3", "+08 21"],
+    ["IC3758", "", "Gx", "12 46.0", "+40 46"],
+    ["IC3760", "", "Gx", "12 46.3", "+11 52"],
+    ["IC3763", "", "Gx", "12 46.8", "+21 59"],
+    ["IC3764", "", "Gx", "12 46.9", "+09 51"],
+    ["IC3772", "", "Gx", "12 46.9", "+36 32"],
+    ["IC3773", "", "Gx", "12 47.3", "+10 12"],
+    ["IC3774", "", "Gx", "12 47.0", "+36 17"],
+    ["IC3778", "", "Gx", "12 47.0", "+40 36"],
+    ["IC3779", "", "Gx", "12 47.3", "+12 10"],
+    ["IC3783", "", "Gx", "12 47.5", "+40 34"],
+    ["IC3784", "", "Gx", "12 47.8", "+19 23"],
+    ["IC3788", "", "Gx", "12 48.1", "+18 52"],
+    ["IC3795", "", "Gx", "12 48.1", "+40 43"],
+    ["IC3799", "", "Gx", "12 49.0", "-14 24"],
+    ["IC3806", "", "Gx", "12 48.9", "+14 54"],
+    ["IC3808", "", "Gx", "12 49.0", "+40 36"],
+    ["IC3812", "", "Gx", "12 49.9", "-06 43"],
+    ["IC3813", "", "Gx", "12 50.0", "-25 55"],
+    ["IC3815", "", "Gx", "12 49.6", "+19 16"],
+    ["IC3816", "", "Gx", "12 49.5", "+37 14"],
+    ["IC3822", "", "Gx", "12 50.4", "-14 19"],
+    ["IC3824", "", "Gx", "12 50.5", "-14 26"],
+    ["IC3826", "", "Gx", "12 50.7", "-09 02"],
+    ["IC3827", "", "Gx", "12 50.9", "-14 30"],
+    ["IC3828", "", "Gx", "12 50.3", "+37 57"],
+    ["IC3829", "", "Gx", "12 51.5", "-27 47"],
+    ["IC3831", "", "Gx", "12 51.3", "-14 34"],
+    ["IC3832", "", "Gx", "12 50.8", "+39 49"],
+    ["IC3844", "", "Gx", "12 52.1", "+39 49"],
+    ["IC3847", "", "Gx", "12 52.6", "+22 04"],
+    ["IC3850", "", "Gx", "12 52.7", "+40 06"],
+    ["IC3852", "", "Gx", "12 53.1", "+35 46"],
+    ["IC3862", "", "Gx", "12 53.9", "+36 05"],
+    ["IC3879", "", "Gx", "12 54.5", "+38 38"],
+    ["IC3881", "", "Gx", "12 54.8", "+19 11"],
+    ["IC3883", "", "Gx", "12 55.2", "-08 07"],
+    ["IC3888", "", "Gx", "12 54.8", "+39 34"],
+    ["IC3892", "", "Gx", "12 55.1", "+39 13"],
+    ["IC3895", "", "Gx", "12 55.2", "+39 12"],
+    ["IC3896", "", "Gx", "12 56.7", "-50 21"],
+    ["IC3900", "", "Gx", "12 55.7", "+27 15"],
+    ["IC3904", "", "Gx", "12 55.8", "+36 18"],
+    ["IC3908", "", "Gx", "12 56.7", "-07 34"],
+    ["IC3913", "", "Gx", "12 56.5", "+27 17"],
+    ["IC3916", "", "Gx", "12 56.5", "+38 37"],
+    ["IC3918", "", "Gx", "12 56.9", "+22 22"],
+    ["IC3927", "", "Gx", "12 58.2", "-22 53"],
+    ["IC3935", "", "Gx", "12 58.3", "+29 08"],
+    ["IC3940", "", "Gx", "12 58.3", "+35 50"],
+    ["IC3942", "", "Gx", "12 58.6", "+36 08"],
+    ["IC3943", "", "Gx", "12 58.6", "+28 07"],
+    ["IC3944", "", "Gx", "12 58.7", "+23 47"],
+    ["IC3946", "", "Gx", "12 58.8", "+27 49"],
+    ["IC3947", "", "Gx", "12 58.9", "+27 47"],
+    ["IC3949", "", "Gx", "12 58.9", "+27 50"],
+    ["IC3955", "", "Gx", "12 59.1", "+28 00"],
+    ["IC3956", "", "Gx", "12 58.9", "+37 24"],
+    ["IC3957", "", "Gx", "12 59.1", "+27 46"],
+    ["IC3959", "", "Gx", "12 59.1", "+27 47"],
+    ["IC3960", "", "Gx", "12 59.1", "+27 51"],
+    ["IC3961", "", "Gx", "12 59.1", "+34 53"],
+    ["IC3963", "", "Gx", "12 59.2", "+27 46"],
+    ["IC3966", "", "Gx", "12 59.2", "+35 51"],
+    ["IC3967", "", "Gx", "12 59.2", "+36 08"],
+    ["IC3968", "", "Gx", "12 59.4", "+27 58"],
+    ["IC3973", "", "Gx", "12 59.5", "+27 53"],
+    ["IC3975", "", "Gx", "12 59.3", "+38 53"],
+    ["IC3976", "", "Gx", "12 59.5", "+27 51"],
+    ["IC3986", "", "Gx", "13 01.5", "-32 17"],
+    ["IC3990", "", "Gx", "12 59.7", "+28 54"],
+    ["IC3991", "", "Gx", "12 59.7", "+28 56"],
+    ["IC3998", "", "Gx", "12 59.8", "+27 58"],
+    ["IC4003", "", "Gx", "12 59.7", "+38 49"],
+    ["IC4004", "", "Gx", "12 59.7", "+38 49"],
+    ["IC4011", "", "Gx", "13 00.1", "+28 00"],
+    ["IC4012", "", "Gx", "13 00.1", "+28 05"],
+    ["IC4013", "", "Gx", "13 00.0", "+37 11"],
+    ["IC4021", "", "Gx", "13 00.2", "+28 02"],
+    ["IC4026", "", "Gx", "13 00.4", "+28 03"],
+    ["IC4028", "", "Gx", "13 00.3", "+36 15"],
+    ["IC4030", "", "Gx", "13 00.5", "+27 57"],
+    ["IC4032", "", "Gx", "13 00.4", "+28 52"],
+    ["IC4033", "", "Gx", "13 00.5", "+27 58"],
+    ["IC4039", "", "Gx", "13 00.7", "+21 41"],
+    ["IC4040", "", "Gx", "13 00.6", "+28 03"],
+    ["IC4041", "", "Gx", "13 00.7", "+28 00"],
+    ["IC4042", "", "Gx", "13 00.7", "+27 58"],
+    ["IC4045", "", "Gx", "13 00.8", "+28 05"],
+    ["IC4047", "", "Gx", "13 01.0", "+19 41"],
+    ["IC4049", "", "Gx", "13 00.7", "+36 21"],
+    ["IC4051", "", "Gx", "13 00.9", "+28 00"],
+    ["IC4056", "", "Gx", "13 00.7", "+39 45"],
+    ["IC4060", "", "Gx", "13 00.9", "+40 35"],
+    ["IC4062", "", "Gx", "13 01.0", "+39 52"],
+    ["IC4064", "", "Gx", "13 01.1", "+39 50"],
+    ["IC4065", "", "Gx", "13 01.2", "+39 45"],
+    ["IC4067", "", "Gx", "13 01.3", "+39 54"],
+    ["IC4071", "", "Gx", "13 02.1", "-07 36"],
+    ["IC4073", "", "Gx", "13 01.4", "+39 55"],
+    ["IC4077", "", "Gx", "13 01.6", "+37 23"],
+    ["IC4086", "", "Gx", "13 01.7", "+36 39"],
+    ["IC4088", "", "Gx", "13 01.7", "+29 03"],
+    ["IC4100", "", "Gx", "13 02.1", "+40 25"],
+    ["IC4103", "", "Gx", "13 02.3", "+38 01"],
+    ["IC4106", "", "Gx", "13 02.6", "+28 07"],
+    ["IC4108", "", "Gx", "13 02.5", "+38 29"],
+    ["IC4111", "", "Gx", "13 02.9", "+28 04"],
+    ["IC4112", "", "Gx", "13 02.8", "+37 13"],
+    ["IC4118", "", "Gx", "13 02.9", "+38 18"],
+    ["IC4122", "", "Gx", "13 03.4", "+20 12"],
+    ["IC4123", "", "Gx", "13 03.1", "+38 19"],
+    ["IC4127", "", "Gx", "13 03.3", "+38 03"],
+    ["IC4130", "", "Gx", "13 03.8", "+19 16"],
+    ["IC4133", "", "Gx", "13 03.8", "+27 59"],
+    ["IC4134", "", "Gx", "13 04.2", "-11 31"],
+    ["IC4141", "", "Gx", "13 04.1", "+19 13"],
+    ["IC4144", "", "Gx", "13 03.8", "+36 57"],
+    ["IC4149", "", "Gx", "13 04.2", "+22 17"],
+    ["IC4165", "", "Gx", "13 04.9", "+39 55"],
+    ["IC4166", "", "Gx", "13 05.3", "+31 27"],
+    ["IC4170", "", "Gx", "13 05.6", "+21 08"],
+    ["IC4171", "", "Gx", "13 05.3", "+36 06"],
+    ["IC4177", "", "Gx", "13 06.5", "-13 34"],
+    ["IC4178", "", "Gx", "13 05.7", "+36 01"],
+    ["IC4180", "", "Gx", "13 06.9", "-23 55"],
+    ["IC4181", "", "Gx", "13 06.1", "+21 30"],
+    ["IC4182", "", "Gx", "13 05.8", "+37 36"],
+    ["IC4185", "", "Gx", "13 06.2", "+21 46"],
+    ["IC4187", "", "Gx", "13 06.0", "+36 18"],
+    ["IC4188", "", "Gx", "13 06.0", "+36 20"],
+    ["IC4189", "", "Gx", "13 06.1", "+35 59"],
+    ["IC4191", "", "PN", "13 08.8", "-67 39"],
+    ["IC4193", "", "Gx", "13 06.1", "+39 25"],
+    ["IC4197", "", "Gx", "13 08.1", "-23 48"],
+    ["IC4199", "", "Gx", "13 07.3", "+35 47"],
+    ["IC4200", "", "Gx", "13 09.6", "-51 58"],
+    ["IC4201", "", "Gx", "13 07.9", "+35 50"],
+    ["IC4202", "", "Gx", "13 08.5", "+24 42"],
+    ["IC4209", "", "Gx", "13 10.4", "-07 10"],
+    ["IC4212", "", "Gx", "13 12.1", "-06 59"],
+    ["IC4213", "", "Gx", "13 12.2", "+35 40"],
+    ["IC4214", "", "Gx", "13 17.7", "-32 06"],
+    ["IC4215", "", "Gx", "13 16.3", "+25 24"],
+    ["IC4216", "", "Gx", "13 17.0", "-10 46"],
+    ["IC4217", "", "Gx", "13 17.2", "-13 09"],
+    ["IC4218", "", "Gx", "13 17.1", "-02 16"],
+    ["IC4219", "", "Gx", "13 18.5", "-31 38"],
+    ["IC4220", "", "Gx", "13 17.9", "-13 36"],
+    ["IC4221", "", "Gx", "13 18.5", "-14 37"],
+    ["IC4222", "", "Gx", "13 19.7", "-27 26"],
+    ["IC4223", "", "Gx", "13 18.9", "+07 48"],
+    ["IC4224", "", "Gx", "13 19.1", "-02 31"],
+    ["IC4225", "", "Gx", "13 20.0", "+31 59"],
+    ["IC4226", "", "Gx", "13 20.5", "+32 00"],
+    ["IC4227", "", "Gx", "13 20.9", "+32 11"],
+    ["IC4228", "", "Gx", "13 21.6", "+25 31"],
+    ["IC4229", "", "Gx", "13 22.4", "-02 25"],
+    ["IC4230", "", "Gx", "13 22.0", "+26 44"],
+    ["IC4231", "", "Gx", "13 23.2", "-26 18"],
+    ["IC4232", "", "Gx", "13 23.4", "-26 07"],
+    ["IC4234", "", "Gx", "13 23.0", "+27 07"],
+    ["IC4237", "", "Gx", "13 24.5", "-21 08"],
+    ["IC4239", "", "Gx", "13 24.4", "+30 58"],
+    ["IC4241", "", "Gx", "13 24.8", "+26 44"],
+    ["IC4243", "", "Gx", "13 25.9", "-27 38"],
+    ["IC4244", "", "Gx", "13 24.9", "+26 28"],
+    ["IC4245", "", "Gx", "13 26.0", "-26 41"],
+    ["IC4246", "", "Gx", "13 26.0", "-26 41"],
+    ["IC4247", "", "Gx", "13 26.7", "-30 22"],
+    ["IC4248", "", "Gx", "13 26.8", "-29 53"],
+    ["IC4249", "", "Gx", "13 27.1", "-27 57"],
+    ["IC4250", "", "Gx", "13 26.1", "+26 29"],
+    ["IC4251", "", "Gx", "13 27.4", "-29 27"],
+    ["IC4252", "", "Gx", "13 27.5", "-27 19"],
+    ["IC4253", "", "Gx", "13 27.5", "-27 52"],
+    ["IC4254", "", "Gx", "13 27.8", "-27 13"],
+    ["IC4255", "", "Gx", "13 28.0", "-27 21"],
+    ["IC4256", "", "Gx", "13 27.1", "+30 59"],
+    ["IC4258", "", "Gx", "13 27.9", "+28 30"],
+    ["IC4259", "", "Gx", "13 29.5", "-30 08"],
+    ["IC4260", "", "Gx", "13 29.7", "-28 16"],
+    ["IC4261", "", "Gx", "13 29.8", "-28 00"],
+    ["IC4262", "", "Gx", "13 30.4", "-28 16"],
+    ["IC4263", "", "Gx", "13 28.6", "+46 56"],
+    ["IC4264", "", "Gx", "13 30.3", "-27 56"],
+    ["IC4265", "", "Gx", "13 30.4", "-25 46"],
+    ["IC4267", "", "Gx", "13 30.6", "-26 15"],
+    ["IC4269", "", "Gx", "13 29.3", "+37 37"],
+    ["IC4270", "", "Gx", "13 30.8", "-25 20"],
+    ["IC4271", "", "Gx", "13 29.4", "+37 25"],
+    ["IC4272", "", "Gx", "13 31.3", "-29 57"],
+    ["IC4273", "", "Gx", "13 31.5", "-28 54"],
+    ["IC4275", "", "Gx", "13 31.9", "-29 44"],
+    ["IC4276", "", "Gx", "13 32.1", "-28 09"],
+    ["IC4278", "", "Gx", "13 30.4", "+47 15"],
+    ["IC4279", "", "Gx", "13 32.5", "-27 08"],
+    ["IC4280", "", "Gx", "13 32.9", "-24 12"],
+    ["IC4281", "", "Gx", "13 32.6", "-27 10"],
+    ["IC4283", "", "Gx", "13 32.2", "+28 23"],
+    ["IC4286", "", "Gx", "13 33.6", "-27 38"],
+    ["IC4287", "", "Gx", "13 32.6", "+25 26"],
+    ["IC4288", "", "Gx", "13 34.5", "-27 18"],
+    ["IC4289", "", "Gx", "13 34.8", "-27 08"],
+    ["IC4290", "", "Gx", "13 35.3", "-28 01"],
+    ["IC4291", "", "OC", "13 36.9", "-62 04"],
+    ["IC4292", "", "Gx", "13 35.8", "-27 40"],
+    ["IC4293", "", "Gx", "13 36.0", "-25 53"],
+    ["IC4294", "", "Gx", "13 36.5", "-28 47"],
+    ["IC4295", "", "Gx", "13 36.6", "-29 05"],
+    ["IC4296", "", "Gx", "13 36.7", "-33 58"],
+    ["IC4297", "", "Gx", "13 35.3", "+26 25"],
+    ["IC4298", "", "Gx", "13 36.6", "-26 33"],
+    ["IC4299", "", "Gx", "13 36.8", "-34 04"],
+    ["IC4300", "", "Gx", "13 35.4", "+33 25"],
+    ["IC4301", "", "Gx", "13 35.6", "+33 22"],
+    ["IC4302", "", "Gx", "13 35.6", "+33 29"],
+    ["IC4303", "", "Gx", "13 37.3", "-28 39"],
+    ["IC4304", "", "Gx", "13 36.0", "+33 26"],
+    ["IC4305", "", "Gx", "13 36.0", "+33 28"],
+    ["IC4306", "", "Gx", "13 36.3", "+33 25"],
+    ["IC4307", "", "Gx", "13 36.6", "+27 15"],
+    ["IC4309", "", "Gx", "13 38.8", "-29 40"],
+    ["IC4310", "", "Gx", "13 39.0", "-25 51"],
+    ["IC4311", "", "Gx", "13 40.1", "-51 02"],
+    ["IC4312", "", "Gx", "13 40.5", "-51 04"],
+    ["IC4313", "", "Gx", "13 38.3", "+26 46"],
+    ["IC4314", "", "Gx", "13 38.4", "+26 45"],
+    ["IC4315", "", "Gx", "13 40.1", "-25 28"],
+    ["IC4316", "", "Gx", "13 40.3", "-28 53"],
+    ["IC4318", "", "Gx", "13 43.4", "-28 58"],
+    ["IC4319", "", "Gx", "13 43.4", "-29 48"],
+    ["IC4320", "", "Gx", "13 44.1", "-27 14"],
+    ["IC4321", "Seashell Galaxy", "Gx", "13 44.5", "-30 08"],
+    ["IC4322", "", "Gx", "13 43.7", "+25 24"],
+    ["IC4323", "", "Gx", "13 45.1", "-28 39"],
+    ["IC4324", "", "Gx", "13 45.5", "-30 14"],
+    ["IC4325", "", "Gx", "13 47.7", "-29 26"],
+    ["IC4326", "", "Gx", "13 48.4", "-29 38"],
+    ["IC4327", "", "Gx", "13 48.7", "-30 13"],
+    ["IC4328", "", "Gx", "13 49.0", "-29 56"],
+    ["IC4329", "", "Gx", "13 49.1", "-30 18"],
+    ["IC4330", "", "Gx", "13 47.2", "-28 20"],
+    ["IC4332", "", "Gx", "13 49.9", "+25 11"],
+    ["IC4333", "", "Gx", "14 05.3", "-84 16"],
+    ["IC4334", "", "Gx", "13 49.8", "+29 42"],
+    ["IC4336", "", "Gx", "13 50.7", "+39 42"],
+    ["IC4337", "", "Gx", "13 52.3", "+14 16"],
+    ["IC4340", "", "Gx", "13 53.6", "+37 23"],
+    ["IC4341", "", "Gx", "13 53.6", "+37 31"],
+    ["IC4342", "", "Gx", "13 54.4", "+25 09"],
+    ["IC4343", "", "Gx", "13 54.9", "+25 07"],
+    ["IC4344", "", "Gx", "13 55.2", "+25 01"],
+    ["IC4345", "", "Gx", "13 55.2", "+25 03"],
+    ["IC4346", "", "Gx", "13 55.7", "+25 09"],
+    ["IC4348", "", "Gx", "13 55.8", "+25 12"],
+    ["IC4349", "", "Gx", "13 55.8", "+25 09"],
+    ["IC4350", "", "Gx", "13 57.2", "-25 15"],
+    ["IC4351", "", "Gx", "13 57.9", "-29 19"],
+    ["IC4352", "", "Gx", "13 58.4", "-34 31"],
+    ["IC4354", "", "Gx", "13 58.5", "-12 36"],
+    ["IC4355", "", "Gx", "13 58.1", "+28 25"],
+    ["IC4356", "", "Gx", "13 58.8", "+37 29"],
+    ["IC4357", "", "Gx", "14 00.7", "+31 54"],
+    ["IC4358", "", "Gx", "14 03.6", "-10 09"],
+    ["IC4359", "", "Gx", "14 05.4", "-45 16"],
+    ["IC4360", "", "Gx", "14 04.4", "-11 25"],
+    ["IC4361", "", "Gx", "14 04.1", "-09 46"],
+    ["IC4362", "", "Gx", "14 05.4", "-41 49"],
+    ["IC4364", "", "Gx", "14 04.3", "-10 00"],
+    ["IC4366", "", "Gx", "14 05.2", "-33 46"],
+    ["IC4367", "", "Gx", "14 05.6", "-39 12"],
+    ["IC4369", "", "Gx", "14 04.1", "+33 19"],
+    ["IC4370", "", "Gx", "14 04.2", "+33 20"],
+    ["IC4371", "", "Gx", "14 04.3", "+33 19"],
+    ["IC4373", "", "Gx", "14 05.7", "+25 14"],
+    ["IC4374", "", "Gx", "14 07.5", "-27 01"],
+    ["IC4377", "", "Gx", "14 17.0", "-75 39"],
+    ["IC4378", "", "Gx", "14 12.2", "-34 16"],
+    ["IC4379", "", "Gx", "14 12.2", "-34 16"],
+    ["IC4380", "", "Gx", "14 10.0", "+37 33"],
+    ["IC4382", "", "Gx", "14 11.0", "+25 31"],
+    ["IC4384", "", "Gx", "14 11.9", "+27 07"],
+    ["IC4385", "", "Gx", "14 14.6", "-42 04"],
+    ["IC4386", "", "Gx", "14 15.1", "-43 58"],
+    ["IC4387", "", "Gx", "14 15.0", "-44 00"],
+    ["IC4388", "", "Gx", "14 16.1", "-31 45"],
+    ["IC4389", "", "Gx", "14 16.8", "-40 33"],
+    ["IC4390", "", "Gx", "14 17.0", "-44 59"],
+    ["IC4391", "", "Gx", "14 16.5", "-31 41"],
+    ["IC4393", "", "Gx", "14 17.8", "-31 21"],
+    ["IC4394", "", "Gx", "14 16.4", "+39 39"],
+    ["IC4395", "", "Gx", "14 17.4", "+26 51"],
+    ["IC4396", "", "Gx", "14 17.5", "+28 48"],
+    ["IC4397", "", "Gx", "14 18.0", "+26 25"],
+    ["IC4398", "", "Gx", "14 18.1", "+28 52"],
+    ["IC4399", "", "Gx", "14 18.4", "+26 23"],
+    ["IC4401", "", "Gx", "14 19.4", "-04 29"],
+    ["IC4402", "", "Gx", "14 21.2", "-46 18"],
+    ["IC4403", "", "Gx", "14 18.3", "+31 39"],
+    ["IC4404", "", "Gx", "14 09.8", "+78 37"],
+    ["IC4405", "", "Gx", "14 19.3", "+26 18"],
+    ["IC4406", "Retina Nebula", "PN", "14 22.4", "-44 09"],
+    ["IC4407", "", "Gx", "14 23.6", "-05 59"],
+    ["IC4408", "", "Gx", "14 21.2", "+30 00"],
+    ["IC4409", "", "Gx", "14 21.6", "+31 35"],
+    ["IC4410", "", "Gx", "14 22.2", "+17 24"],
+    ["IC4411", "", "Gx", "14 23.4", "-35 07"],
+    ["IC4412", "", "Gx", "14 23.2", "+26 15"],
+    ["IC4413", "", "Gx", "14 23.0", "+37 32"],
+    ["IC4414", "", "Gx", "14 23.7", "+28 21"],
+    ["IC4416", "", "Gx", "14 24.3", "+29 38"],
+    ["IC4417", "", "Gx", "14 24.9", "+17 02"],
+    ["IC4418", "", "Gx", "14 25.5", "+25 32"],
+    ["IC4420", "", "Gx", "14 25.7", "+25 23"],
+    ["IC4421", "", "Gx", "14 28.5", "-37 35"],
+    ["IC4422", "", "Gx", "14 26.0", "+30 28"],
+    ["IC4423", "", "Gx", "14 26.3", "+26 15"],
+    ["IC4425", "", "Gx", "14 26.7", "+27 11"],
+    ["IC4426", "", "Gx", "14 27.3", "+16 50"],
+    ["IC4427", "", "Gx", "14 27.0", "+26 52"],
+    ["IC4429", "", "Gx", "14 27.6", "+16 54"],
+    ["IC4432", "", "Gx", "14 28.8", "-39 33"],
+    ["IC4433", "", "Gx", "14 27.9", "+16 12"],
+    ["IC4434", "", "Gx", "14 27.9", "+16 12"],
+    ["IC4435", "", "Gx", "14 27.4", "+37 28"],
+    ["IC4436", "", "Gx", "14 28.0", "+26 30"],
+    ["IC4438", "", "Gx", "14 28.6", "+17 20"],
+    ["IC4439", "", "Gx", "14 28.7", "+17 01"],
+    ["IC4440", "", "Gx", "14 29.0", "+17 19"],
+    ["IC4441", "", "Gx", "14 30.3", "-43 34"],
+    ["IC4442", "", "Gx", "14 28.8", "+28 58"],
+    ["IC4444", "", "Gx", "14 31.6", "-43 25"],
+    ["IC4445", "", "Gx", "14 31.9", "-46 02"],
+    ["IC4446", "", "Gx", "14 29.0", "+37 28"],
+    ["IC4447", "", "Gx", "14 29.3", "+30 50"],
+    ["IC4448", "", "Gx", "14 40.5", "-78 49"],
+    ["IC4450", "", "Gx", "14 32.2", "+28 33"],
+    ["IC4451", "", "Gx", "14 34.6", "-36 17"],
+    ["IC4452", "", "Gx", "14 32.5", "+27 26"],
+    ["IC4453", "", "Gx", "14 34.5", "-27 31"],
+    ["IC4458", "", "Gx", "14 38.1", "-39 30"],
+    ["IC4459", "", "Gx", "14 34.5", "+30 58"],
+    ["IC4460", "", "Gx", "14 34.6", "+30 17"],
+    ["IC4461", "", "Gx", "14 35.0", "+26 33"],
+    ["IC4462", "", "Gx", "14 35.1", "+26 32"],
+    ["IC4463", "", "Gx", "14 35.8", "+16 01"],
+    ["IC4464", "", "Gx", "14 37.8", "-36 53"],
+    ["IC4466", "", "Gx", "14 36.8", "+18 21"],
+    ["IC4468", "", "Gx", "14 38.4", "-22 22"],
+    ["IC4469", "", "Gx", "14 37.3", "+18 15"],
+    ["IC4470", "", "Gx", "14 28.4", "+78 53"],
+    ["IC4472", "", "Gx", "14 40.2", "-44 19"],
+    ["IC4473", "", "Gx", "14 37.9", "+15 52"],
+    ["IC4475", "", "Gx", "14 38.4", "+23 20"],
+    ["IC4477", "", "Gx", "14 38.6", "+28 28"],
+    ["IC4478", "", "Gx", "14 39.2", "+15 53"],
+    ["IC4479", "", "Gx", "14 38.8", "+28 30"],
+    ["IC4480", "", "Gx", "14 39.8", "+18 30"],
+    ["IC4482", "", "Gx", "14 40.2", "+18 57"],
+    ["IC4483", "", "Gx", "14 40.3", "+16 41"],
+    ["IC4484", "", "Gx", "14 47.7", "-73 18"],
+    ["IC4485", "", "Gx", "14 40.5", "+28 40"],
+    ["IC4486", "", "Gx", "14 41.7", "+18 33"],
+    ["IC4487", "", "Gx", "14 41.9", "+18 35"],
+    ["IC4492", "", "Gx", "14 42.6", "+37 27"],
+    ["IC4494", "", "Gx", "14 44.4", "+15 33"],
+    ["IC4495", "", "Gx", "14 44.2", "+23 34"],
+    ["IC4496", "", "Gx", "14 43.9", "+33 24"],
+    ["IC4497", "", "Gx", "14 44.3", "+28 33"],
+    ["IC4498", "", "Gx", "14 45.0", "+26 18"],
+    ["IC4499", "", "GC", "15 00.3", "-82 13"],
+    ["IC4500", "", "Gx", "14 44.6", "+37 29"],
+    ["IC4501", "", "Gx", "14 47.4", "-22 24"],
+    ["IC4503", "", "Gx", "14 46.7", "+16 09"],
+    ["IC4504", "", "Gx", "14 46.6", "+31 42"],
+    ["IC4505", "", "Gx", "14 46.6", "+33 25"],
+    ["IC4506", "", "Gx", "14 46.7", "+33 24"],
+    ["IC4507", "", "Gx", "14 47.7", "+18 27"],
+    ["IC4508", "", "Gx", "14 47.9", "+31 46"],
+    ["IC4509", "", "Gx", "14 48.5", "+31 48"],
+    ["IC4514", "", "Gx", "14 50.9", "+27 35"],
+    ["IC4515", "", "Gx", "14 51.1", "+37 30"],
+    ["IC4516", "", "Gx", "14 54.4", "+16 21"],
+    ["IC4517", "", "Gx", "14 54.6", "+23 39"],
+    ["IC4518", "", "Gx", "14 57.8", "-43 08"],
+    ["IC4519", "", "Gx", "14 54.7", "+37 25"],
+    ["IC4520", "", "Gx", "14 55.1", "+33 43"],
+    ["IC4521", "", "Gx", "14 59.5", "+25 35"],
+    ["IC4522", "", "Gx", "15 11.5", "-75 52"],
+    ["IC4523", "", "Gx", "15 05.2", "-43 31"],
+    ["IC4524", "", "Gx", "15 02.1", "+25 36"],
+    ["IC4525", "", "Gx", "15 02.4", "+25 38"],
+    ["IC4526", "", "Gx", "15 02.6", "+23 21"],
+    ["IC4527", "", "Gx", "15 05.7", "-42 27"],
+    ["IC4528", "", "Gx", "15 00.5", "+49 10"],
+    ["IC4529", "", "Gx", "15 06.4", "-43 14"],
+    ["IC4530", "", "Gx", "15 03.8", "+26 06"],
+    ["IC4531", "", "Gx", "15 04.4", "+23 25"],
+    ["IC4533", "", "Gx", "15 04.5", "+27 48"],
+    ["IC4534", "", "Gx", "15 06.7", "+23 39"],
+    ["IC4536", "", "Gx", "15 13.3", "-18 08"],
+    ["IC4537", "", "Gx", "15 17.5", "+02 03"],
+    ["IC4538", "", "Gx", "15 21.2", "-23 40"],
+    ["IC4539", "", "Gx", "15 18.5", "+32 24"],
+    ["IC4541", "", "Gx", "15 29.9", "-70 35"],
+    ["IC4542", "", "Gx", "15 22.1", "+33 09"],
+    ["IC4546", "", "Gx", "15 27.0", "+28 51"],
+    ["IC4547", "", "Gx", "15 27.3", "+28 47"],
+    ["IC4549", "", "Gx", "15 29.2", "+32 50"],
+    ["IC4553", "", "Gx", "15 35.0", "+23 30"],
+    ["IC4554", "", "Gx", "15 35.1", "+23 29"],
+    ["IC4555", "", "Gx", "15 48.2", "-78 11"],
+    ["IC4556", "", "Gx", "15 35.4", "+25 18"],
+    ["IC4557", "", "Gx", "15 34.6", "+39 44"],
+    ["IC4558", "", "Gx", "15 35.8", "+25 21"],
+    ["IC4559", "", "Gx", "15 35.9", "+25 20"],
+    ["IC4561", "", "Gx", "15 36.8", "+25 25"],
+    ["IC4562", "", "Gx", "15 36.0", "+43 30"],
+    ["IC4563", "", "Gx", "15 36.1", "+39 50"],
+    ["IC4564", "", "Gx", "15 36.5", "+43 31"],
+    ["IC4565", "", "Gx", "15 36.6", "+43 26"],
+    ["IC4566", "", "Gx", "15 36.7", "+43 32"],
+    ["IC4567", "", "Gx", "15 37.2", "+43 18"],
+    ["IC4568", "", "Gx", "15 40.1", "+28 09"],
+    ["IC4569", "", "Gx", "15 40.8", "+28 18"],
+    ["IC4570", "", "Gx", "15 41.4", "+28 14"],
+    ["IC4571", "", "Gx", "15 48.9", "-67 19"],
+    ["IC4572", "", "Gx", "15 41.9", "+28 08"],
+    ["IC4573", "", "Gx", "15 42.2", "+23 48"],
+    ["IC4574", "", "Gx", "15 42.0", "+28 14"],
+    ["IC4575", "", "Gx", "15 42.3", "+23 48"],
+    ["IC4576", "", "Gx", "15 42.6", "+23 40"],
+    ["IC4577", "", "Gx", "15 42.8", "+23 48"],
+    ["IC4578", "", "Gx", "15 53.2", "-74 50"],
+    ["IC4579", "", "Gx", "15 42.9", "+23 46"],
+    ["IC4580", "", "Gx", "15 43.2", "+28 21"],
+    ["IC4581", "", "Gx", "15 44.0", "+28 17"],
+    ["IC4582", "", "Gx", "15 45.7", "+28 05"],
+    ["IC4583", "", "Gx", "15 46.4", "+23 49"],
+    ["IC4584", "", "Gx", "16 00.2", "-66 23"],
+    ["IC4585", "", "Gx", "16 00.3", "-66 19"],
+    ["IC4587", "", "Gx", "15 59.9", "+25 56"],
+    ["IC4590", "", "Gx", "16 08.4", "+28 29"],
+    ["IC4591", "", "Neb", "16 12.0", "-27 54"],
+    ["IC4592", "Blue Horsehead Nebula", "RN", "16 12.8", "-19 18"],
+    ["IC4593", "White-eyed Pea Nebula", "PN", "16 11.7", "+12 04"],
+    ["IC4595", "", "Gx", "16 20.7", "-70 09"],
+    ["IC4596", "", "Gx", "16 16.1", "-22 38"],
+    ["IC4597", "", "Gx", "16 17.7", "-34 22"],
+    ["IC4598", "", "Gx", "16 18.2", "-31 27"],
+    ["IC4599", "", "PN", "16 19.4", "-42 16"],
+    ["IC4600", "", "Gx", "16 16.1", "-22 47"],
+    ["IC4601", "", "Neb", "16 20.4", "-20 10"],
+    ["IC4603", "", "Neb", "16 26.0", "-24 24"],
+    ["IC4604", "ρ Oph Nebula", "Neb", "16 26.0", "-23 24"],
+    ["IC4605", "", "Neb", "16 31.2", "-25 06"],
+    ["IC4606", "Antares Nebula", "Neb", "16 29.2", "-26 36"],
+    ["IC4607", "", "Gx", "16 30.3", "+24 34"],
+    ["IC4608", "", "Gx", "16 46.9", "-77 29"],
+    ["IC4609", "", "Gx", "16 33.0", "+22 48"],
+    ["IC4610", "", "Gx", "16 33.7", "+39 15"],
+    ["IC4612", "", "Gx", "16 33.8", "+39 16"],
+    ["IC4613", "", "Gx", "16 37.3", "+35 59"],
+    ["IC4614", "", "Gx", "16 37.8", "+36 07"],
+    ["IC4617", "", "Gx", "16 42.1", "+36 41"],
+    ["IC4618", "", "Gx", "16 57.8", "-77 00"],
+    ["IC4619", "", "Gx", "16 44.2", "+17 46"],
+    ["IC4621", "", "Gx", "16 50.9", "+08 47"],
+    ["IC4623", "", "Gx", "16 51.1", "+22 32"],
+    ["IC4624", "", "Gx", "16 51.5", "+17 27"],
+    ["IC4627", "", "Gx", "16 54.1", "-07 38"],
+    ["IC4628", "Prawn Nebula", "EN", "16 56.9", "-40 31"],
+    ["IC4630", "", "Gx", "16 55.2", "+26 40"],
+    ["IC4633", "", "Gx", "17 13.8", "-77 32"],
+    ["IC4634", "", "PN", "17 01.6", "-21 50"],
+    ["IC4635", "", "Gx", "17 15.7", "-77 29"],
+    ["IC4637", "", "PN", "17 05.2", "-40 53"],
+    ["IC4638", "", "Gx", "17 01.2", "+33 31"],
+    ["IC4640", "", "Gx", "17 24.0", "-80 04"],
+    ["IC4641", "", "Gx", "17 24.2", "-80 09"],
+    ["IC4642", "", "PN", "17 11.8", "-55 24"],
+    ["IC4644", "", "Gx", "17 24.6", "-73 56"],
+    ["IC4645", "", "Gx", "17 14.7", "+43 06"],
+    ["IC4646", "", "Gx", "17 23.9", "-60 00"],
+    ["IC4647", "", "Gx", "17 26.1", "-80 12"],
+    ["IC4651", "", "OC", "17 24.8", "-49 56"],
+    ["IC4652", "", "Gx", "17 26.4", "-59 44"],
+    ["IC4653", "", "Gx", "17 27.1", "-60 53"],
+    ["IC4654", "", "Gx", "17 37.1", "-74 23"],
+    ["IC4656", "", "Gx", "17 37.7", "-63 44"],
+    ["IC4658", "", "Gx", "17 36.3", "-59 33"],
+    ["IC4660", "", "Gx", "17 21.8", "+75 51"],
+    ["IC4661", "", "Gx", "17 51.0", "-74 02"],
+    ["IC4662", "", "Gx", "17 47.2", "-64 38"],
+    ["IC4663", "", "PN", "17 45.5", "-44 54"],
+    ["IC4664", "", "Gx", "17 49.0", "-63 15"],
+    ["IC4669", "", "Gx", "17 47.2", "+61 26"],
+    ["IC4670", "", "PN", "17 55.1", "-21 45"],
+    ["IC4672", "", "Gx", "18 02.2", "-62 50"],
+    ["IC4673", "", "PN", "18 03.3", "-27 06"],
+    ["IC4674", "", "Gx", "18 08.2", "-62 24"],
+    ["IC4676", "", "Gx", "18 02.9", "+11 49"],
+    ["IC4677", "", "PN", "17 58.3", "+66 38"],
+    ["IC4678", "", "Neb", "18 08.0", "-23 52"],
+    ["IC4679", "", "Gx", "18 11.4", "-56 15"],
+    ["IC4680", "", "Gx", "18 13.5", "-64 29"],
+    ["IC4681", "", "Neb", "18 08.0", "-23 30"],
+    ["IC4682", "", "Gx", "18 16.4", "-71 35"],
+    ["IC4684", "", "RN", "18 09.2", "-23 30"],
+    ["IC4686", "", "Gx", "18 13.6", "-57 44"],
+    ["IC4687", "", "Gx", "18 13.7", "-57 44"],
+    ["IC4688", "", "Gx", "18 08.2", "+11 43"],
+    ["IC4689", "", "Gx", "18 13.7", "-57 45"],
+    ["IC4691", "", "Gx", "18 08.8", "+11 50"],
+    ["IC4692", "", "Gx", "18 14.8", "-58 42"],
+    ["IC4694", "", "Gx", "18 15.4", "-58 13"],
+    ["IC4696", "", "Gx", "18 20.3", "-64 44"],
+    ["IC4697", "", "Gx", "18 12.4", "+25 26"],
+    ["IC4698", "", "Gx", "18 21.0", "-63 21"],
+    ["IC4699", "", "PN", "18 18.5", "-45 59"],
+    ["IC4701", "", "Neb", "18 17.2", "-16 48"],
+    ["IC4702", "", "Gx", "18 23.1", "-59 14"],
+    ["IC4704", "", "Gx", "18 27.9", "-71 37"],
+    ["IC4705", "", "Gx", "18 28.2", "-71 42"],
+    ["IC4708", "", "Gx", "18 13.8", "+61 09"],
+    ["IC4709", "", "Gx", "18 24.3", "-56 22"],
+    ["IC4710", "", "Gx", "18 28.6", "-66 59"],
+    ["IC4712", "", "Gx", "18 31.1", "-71 42"],
+    ["IC4713", "", "Gx", "18 30.0", "-67 13"],
+    ["IC4714", "", "Gx", "18 30.9", "-66 39"],
+    ["IC4716", "", "Gx", "18 32.8", "-56 58"],
+    ["IC4717", "", "Gx", "18 33.3", "-57 59"],
+    ["IC4718", "", "Gx", "18 33.8", "-60 08"],
+    ["IC4719", "", "Gx", "18 33.2", "-56 44"],
+    ["IC4720", "", "Gx", "18 33.5", "-58 24"],
+    ["IC4721", "", "Gx", "18 34.4", "-58 30"],
+    ["IC4722", "", "Gx", "18 34.5", "-57 48"],
+    ["IC4723", "", "Gx", "18 35.9", "-63 23"],
+    ["IC4724", "", "Gx", "18 38.7", "-70 08"],
+    ["IC4726", "", "Gx", "18 37.0", "-62 51"],
+    ["IC4727", "", "Gx", "18 37.9", "-62 42"],
+    ["IC4728", "", "Gx", "18 38.0", "-62 32"],
+    ["IC4729", "", "Gx", "18 39.9", "-67 26"],
+    ["IC4730", "", "Gx", "18 38.8", "-63 21"],
+    ["IC4731", "", "Gx", "18 38.7", "-62 57"],
+    ["IC4732", "", "PN", "18 33.9", "-22 39"],
+    ["IC4734", "", "Gx", "18 38.4", "-57 29"],
+    ["IC4735", "", "Gx", "18 39.8", "-62 57"],
+    ["IC4736", "", "Gx", "18 38.7", "-57 54"],
+    ["IC4737", "", "Gx", "18 40.0", "-62 36"],
+    ["IC4738", "", "Gx", "18 40.4", "-61 54"],
+    ["IC4739", "", "Gx", "18 40.8", "-61 54"],
+    ["IC4740", "", "Gx", "18 43.0", "-68 22"],
+    ["IC4741", "", "Gx", "18 41.7", "-63 57"],
+    ["IC4742", "", "Gx", "18 41.9", "-63 52"],
+    ["IC4743", "", "Gx", "18 41.5", "-61 46"],
+    ["IC4744", "", "Gx", "18 41.9", "-63 13"],
+    ["IC4745", "", "Gx", "18 42.6", "-64 57"],
+    ["IC4746", "", "Gx", "18 45.9", "-72 40"],
+    ["IC4747", "", "Gx", "18 46.0", "-72 38"],
+    ["IC4748", "", "Gx", "18 42.8", "-64 04"],
+    ["IC4749", "", "Gx", "18 42.8", "-63 13"],
+    ["IC4750", "", "Gx", "18 43.0", "-62 58"],
+    ["IC4751", "", "Gx", "18 43.3", "-62 07"],
+    ["IC4752", "", "Gx", "18 43.8", "-64 05"],
+    ["IC4753", "", "Gx", "18 43.5", "-62 06"],
+    ["IC4754", "", "Gx", "18 44.0", "-61 59"],
+    ["IC4755", "", "Gx", "18 45.0", "-63 42"],
+    ["IC4756", "Graff's Cluster", "OC", "18 38.5", "+05 29"],
+    ["IC4757", "", "Gx", "18 43.9", "-57 10"],
+    ["IC4758", "", "Gx", "18 46.3", "-65 45"],
+    ["IC4759", "", "Gx", "18 45.7", "-63 05"],
+    ["IC4760", "", "Gx", "18 45.8", "-62 57"],
+    ["IC4761", "", "Gx", "18 43.9", "-52 51"],
+    ["IC4763", "", "Gx", "18 33.6", "+67 07"],
+    ["IC4764", "", "Gx", "18 47.1", "-63 29"],
+    ["IC4765", "", "Gx", "18 47.3", "-63 20"],
+    ["IC4766", "", "Gx", "18 47.6", "-63 18"],
+    ["IC4767", "", "Gx", "18 47.7", "-63 24"],
+    ["IC4769", "", "Gx", "18 47.7", "-63 09"],
+    ["IC4770", "", "Gx", "18 48.2", "-63 23"],
+    ["IC4771", "", "Gx", "18 48.4", "-63 15"],
+    ["IC4772", "", "Gx", "18 39.9", "+40 02"],
+    ["IC4773", "", "Gx", "18 51.3", "-69 55"],
+    ["IC4774", "", "Gx", "18 48.2", "-57 56"],
+    ["IC4775", "", "Gx", "18 48.4", "-57 11"],
+    ["IC4776", "", "PN", "18 45.8", "-33 21"],
+    ["IC4777", "", "Gx", "18 48.2", "-53 09"],
+    ["IC4778", "", "Gx", "18 50.0", "-61 43"],
+    ["IC4779", "", "Gx", "18 50.5", "-63 01"],
+    ["IC4780", "", "Gx", "18 49.9", "-59 15"],
+    ["IC4781", "", "Gx", "18 51.6", "-62 48"],
+    ["IC4782", "", "Gx", "18 50.9", "-55 29"],
+    ["IC4783", "", "Gx", "18 51.6", "-58 49"],
+    ["IC4784", "", "Gx", "18 52.8", "-63 16"],
+    ["IC4785", "", "Gx", "18 52.9", "-59 15"],
+    ["IC4786", "", "Gx", "18 52.7", "-56 42"],
+    ["IC4787", "", "Gx", "18 56.1", "-68 41"],
+    ["IC4788", "", "Gx", "18 54.7", "-63 27"],
+    ["IC4789", "", "Gx", "18 56.3", "-68 34"],
+    ["IC4790", "", "Gx", "18 56.5", "-64 56"],
+    ["IC4792", "", "Gx", "18 55.7", "-56 24"],
+    ["IC4793", "", "Gx", "18 56.9", "-61 24"],
+    ["IC4794", "", "Gx", "18 57.2", "-62 05"],
+    ["IC4795", "", "Gx", "18 57.3", "-61 37"],
+    ["IC4796", "", "Gx", "18 56.5", "-54 13"],
+    ["IC4797", "", "Gx", "18 56.5", "-54 18"],
+    ["IC4798", "", "Gx", "18 58.3", "-62 07"],
+    ["IC4799", "", "Gx", "18 58.9", "-63 56"],
+    ["IC4800", "", "Gx", "18 58.7", "-63 08"],
+    ["IC4801", "", "Gx", "18 59.6", "-64 41"],
+    ["IC4803", "", "Gx", "19 00.8", "-62 04"],
+    ["IC4804", "", "Gx", "19 01.1", "-61 50"],
+    ["IC4805", "", "Gx", "19 02.0", "-63 03"],
+    ["IC4806", "", "Gx", "19 01.5", "-57 32"],
+    ["IC4807", "", "Gx", "19 02.3", "-56 56"],
+    ["IC4808", "", "Gx", "19 01.1", "-45 19"],
+    ["IC4809", "", "Gx", "19 04.1", "-62 12"],
+    ["IC4810", "", "Gx", "19 03.0", "-56 10"],
+    ["IC4811", "", "Gx", "19 05.7", "-67 08"],
+    ["IC4813", "", "Gx", "19 05.7", "-66 31"],
+    ["IC4814", "", "Gx", "19 05.0", "-58 35"],
+    ["IC4815", "", "Gx", "19 06.8", "-61 42"],
+    ["IC4817", "", "Gx", "19 06.2", "-56 10"],
+    ["IC4818", "", "Gx", "19 06.1", "-55 08"],
+    ["IC4819", "", "Gx", "19 07.1", "-59 28"],
+    ["IC4820", "", "Gx", "19 09.2", "-63 28"],
+    ["IC4821", "", "Gx", "19 09.5", "-55 01"],
+    ["IC4822", "", "Gx", "19 14.8", "-72 26"],
+    ["IC4823", "", "Gx", "19 12.2", "-63 59"],
+    ["IC4824", "", "Gx", "19 13.2", "-62 05"],
+    ["IC4825", "", "Gx", "19 17.3", "-72 45"],
+    ["IC4826", "", "Gx", "19 12.4", "-57 12"],
+    ["IC4827", "", "Gx", "19 13.4", "-60 52"],
+    ["IC4828", "", "Gx", "19 13.7", "-62 05"],
+    ["IC4829", "", "Gx", "19 12.6", "-56 32"],
+    ["IC4830", "", "Gx", "19 13.8", "-59 18"],
+    ["IC4831", "", "Gx", "19 14.7", "-62 16"],
+    ["IC4832", "", "Gx", "19 14.1", "-56 37"],
+    ["IC4833", "", "Gx", "19 15.7", "-62 20"],
+    ["IC4834", "", "Gx", "19 16.5", "-64 00"],
+    ["IC4835", "", "Gx", "19 15.5", "-58 14"],
+    ["IC4836", "", "Gx", "19 16.3", "-60 12"],
+    ["IC4837", "", "Gx", "19 15.2", "-54 40"],
+    ["IC4838", "", "Gx", "19 16.8", "-61 37"],
+    ["IC4839", "", "Gx", "19 15.6", "-54 38"],
+    ["IC4840", "", "Gx", "19 15.9", "-56 13"],
+    ["IC4841", "", "Gx", "19 20.7", "-72 14"],
+    ["IC4842", "", "Gx", "19 19.4", "-60 39"],
+    ["IC4843", "", "Gx", "19 19.4", "-59 19"],
+    ["IC4844", "", "Gx", "19 19.0", "-56 02"],
+    ["IC4845", "", "Gx", "19 20.4", "-60 23"],
+    ["IC4846", "", "PN", "19 16.5", "-09 03"],
+    ["IC4847", "", "Gx", "19 23.5", "-65 30"],
+    ["IC4848", "", "Gx", "19 22.9", "-56 47"],
+    ["IC4849", "", "Gx", "19 25.6", "-62 56"],
+    ["IC4851", "", "Gx", "19 25.5", "-57 40"],
+    ["IC4852", "", "Gx", "19 26.4", "-60 20"],
+    ["IC4853", "", "Gx", "19 30.8", "-71 04"],
+    ["IC4854", "", "Gx", "19 27.4", "-59 19"],
+    ["IC4856", "", "Gx", "19 27.5", "-54 54"],
+    ["IC4857", "", "Gx", "19 28.7", "-58 46"],
+    ["IC4859", "", "Gx", "19 30.8", "-66 19"],
+    ["IC4860", "", "Gx", "19 31.5", "-67 22"],
+    ["IC4861", "", "Gx", "19 29.3", "-57 34"],
+    ["IC4862", "", "Gx", "19 31.7", "-67 19"],
+    ["IC4864", "", "Gx", "19 40.1", "-77 33"],
+    ["IC4866", "", "Gx", "19 34.6", "-61 09"],
+    ["IC4867", "", "Gx", "19 26.5", "+50 08"],
+    ["IC4869", "", "Gx", "19 36.0", "-61 02"],
+    ["IC4870", "", "Gx", "19 37.6", "-65 49"],
+    ["IC4871", "", "Gx", "19 35.7", "-57 31"],
+    ["IC4874", "", "Gx", "19 36.4", "-47 16"],
+    ["IC4875", "", "Gx", "19 37.6", "-52 05"],
+    ["IC4876", "", "Gx", "19 37.7", "-52 51"],
+    ["IC4877", "", "Gx", "19 37.9", "-51 59"],
+    ["IC4878", "", "Gx", "19 38.8", "-58 14"],
+    ["IC4879", "", "Gx", "19 39.6", "-52 22"],
+    ["IC4880", "", "Gx", "19 40.5", "-56 25"],
+    ["IC4881", "", "Gx", "19 40.4", "-55 51"],
+    ["IC4882", "", "Gx", "19 40.4", "-55 12"],
+    ["IC4883", "", "Gx", "19 42.0", "-55 33"],
+    ["IC4884", "", "Gx", "19 42.7", "-58 08"],
+    ["IC4885", "", "Gx", "19 43.9", "-60 39"],
+    ["IC4886", "", "Gx", "19 43.2", "-51 48"],
+    ["IC4887", "", "Gx", "19 48.4", "-69 35"],
+    ["IC4888", "", "Gx", "19 44.9", "-54 27"],
+    ["IC4889", "", "Gx", "19 45.3", "-54 21"],
+    ["IC4890", "", "Gx", "19 45.6", "-56 33"],
+    ["IC4892", "", "Gx", "19 49.5", "-70 14"],
+    ["IC4893", "", "Gx", "19 50.6", "-72 31"],
+    ["IC4894", "", "Gx", "19 47.0", "-51 51"],
+    ["IC4896", "", "Gx", "19 49.1", "-58 59"],
+    ["IC4897", "", "Gx", "19 49.3", "-51 52"],
+    ["IC4899", "", "Gx", "19 54.4", "-70 35"],
+    ["IC4900", "", "Gx", "19 50.4", "-51 21"],
+    ["IC4901", "", "Gx", "19 54.4", "-58 43"],
+    ["IC4902", "", "Gx", "19 54.4", "-56 23"],
+    ["IC4903", "", "Gx", "19 58.2", "-70 27"],
+    ["IC4904", "", "Gx", "19 58.6", "-70 11"],
+    ["IC4905", "", "Gx", "19 56.1", "-61 13"],
+    ["IC4906", "", "Gx", "19 56.8", "-60 28"],
+    ["IC4907", "", "Gx", "19 56.2", "-52 27"],
+    ["IC4908", "", "Gx", "19 56.9", "-55 48"],
+    ["IC4909", "", "Gx", "19 56.8", "-50 03"],
+    ["IC4910", "", "Gx", "19 57.8", "-56 52"],
+    ["IC4911", "", "Gx", "19 57.7", "-51 59"],
+    ["IC4912", "", "Gx", "20 06.8", "-77 21"],
+    ["IC4913", "", "Gx", "19 56.8", "-37 20"],
+    ["IC4914", "", "Gx", "19 57.9", "-50 08"],
+    ["IC4915", "", "Gx", "19 58.5", "-52 39"],
+    ["IC4916", "", "Gx", "19 58.3", "-50 16"],
+    ["IC4917", "", "Gx", "19 58.9", "-52 16"],
+    ["IC4918", "", "Gx", "19 59.2", "-52 17"],
+    ["IC4919", "", "Gx", "20 00.2", "-55 22"],
+    ["IC4920", "", "Gx", "20 00.1", "-53 23"],
+    ["IC4921", "", "Gx", "20 03.3", "-67 50"],
+    ["IC4923", "", "Gx", "20 01.0", "-52 38"],
+    ["IC4925", "", "Gx", "20 01.2", "-52 52"],
+    ["IC4926", "", "Gx", "20 00.2", "-38 35"],
+    ["IC4927", "", "Gx", "20 01.8", "-53 55"],
+    ["IC4928", "", "Gx", "20 10.2", "-77 19"],
+    ["IC4929", "", "Gx", "20 06.7", "-71 41"],
+    ["IC4931", "", "Gx", "20 00.8", "-38 35"],
+    ["IC4932", "", "Gx", "20 02.3", "-52 51"],
+    ["IC4933", "", "Gx", "20 03.5", "-54 59"],
+    ["IC4934", "", "Gx", "20 07.2", "-69 29"],
+    ["IC4935", "", "Gx", "20 04.6", "-57 36"],
+    ["IC4936", "", "Gx", "20 05.9", "-61 26"],
+    ["IC4937", "", "Gx", "20 05.3", "-56 15"],
+    ["IC4938", "", "Gx", "20 06.2", "-60 13"],
+    ["IC4939", "", "Gx", "20 07.2", "-60 44"],
+    ["IC4941", "", "Gx", "20 07.0", "-53 39"],
+    ["IC4942", "", "Gx", "20 06.8", "-52 37"],
+    ["IC4943", "", "Gx", "20 06.5", "-48 23"],
+    ["IC4944", "", "Gx", "20 07.1", "-54 27"],
+    ["IC4945", "", "Gx", "20 11.3", "-71 01"],
+    ["IC4946", "Shapley-Ames 5", "Gx", "20 24.0", "-44 00"],
+    ["IC4947", "", "Gx", "20 07.5", "-53 09"],
+    ["IC4948", "", "Gx", "20 07.3", "-43 38"],
+    ["IC4950", "", "Gx", "20 08.5", "-56 10"],
+    ["IC4951", "", "Gx", "20 09.5", "-61 51"],
+    ["IC4952", "", "Gx", "20 08.6", "-55 27"],
+    ["IC4953", "", "Gx", "20 10.0", "-62 48"],
+    ["IC4954", "", "Neb", "20 04.8", "+29 15"],
+    ["IC4956", "", "Gx", "20 11.5", "-45 36"],
+    ["IC4957", "", "Gx", "20 09.6", "-55 43"],
+    ["IC4958", "", "Gx", "20 15.6", "-72 43"],
+    ["IC4960", "", "Gx", "20 15.4", "-70 32"],
+    ["IC4961", "", "Gx", "20 11.5", "-53 08"],
+    ["IC4962", "", "Gx", "20 16.7", "-71 08"],
+    ["IC4963", "", "Gx", "20 12.1", "-55 15"],
+    ["IC4964", "", "Gx", "20 17.4", "-73 53"],
+    ["IC4965", "", "Gx", "20 12.5", "-56 50"],
+    ["IC4966", "", "Gx", "20 13.2", "-53 30"],
+    ["IC4967", "", "Gx", "20 16.4", "-70 34"],
+    ["IC4968", "", "Gx", "20 14.8", "-64 48"],
+    ["IC4969", "", "Gx", "20 12.9", "-53 55"],
+    ["IC4970", "", "Gx", "20 17.0", "-70 45"],
+    ["IC4971", "", "Gx", "20 17.0", "-70 37"],
+    ["IC4972", "", "Gx", "20 17.7", "-70 55"],
+    ["IC4973", "", "Gx", "20 14.6", "-58 22"],
+    ["IC4974", "", "Gx", "20 15.4", "-61 51"],
+    ["IC4975", "", "Gx", "20 14.1", "-52 43"],
+    ["IC4976", "", "Gx", "20 15.7", "-61 53"],
+    ["IC4978", "", "Gx", "20 14.6", "-54 25"],
+    ["IC4979", "", "Gx", "20 14.7", "-53 28"],
+    ["IC4980", "", "Gx", "20 15.5", "-57 55"],
+    ["IC4981", "", "Gx", "20 19.7", "-70 51"],
+    ["IC4982", "", "Gx", "20 20.3", "-71 00"],
+    ["IC4983", "", "Gx", "20 16.1", "-52 05"],
+    ["IC4984", "", "Gx", "20 16.3", "-52 42"],
+    ["IC4985", "", "Gx", "20 20.7", "-70 59"],
+    ["IC4986", "", "Gx", "20 17.2", "-55 02"],
+    ["IC4987", "", "Gx", "20 17.3", "-52 17"],
+    ["IC4989", "", "Gx", "20 19.4", "-58 33"],
+    ["IC4990", "", "Gx", "20 21.4", "-66 53"],
+    ["IC4991", "", "Gx", "20 18.4", "-41 03"],
+    ["IC4992", "", "Gx", "20 23.5", "-71 34"],
+    ["IC4993", "", "Gx", "20 21.9", "-66 59"],
+    ["IC4994", "", "Gx", "20 19.7", "-53 27"],
+    ["IC4995", "", "Gx", "20 20.0", "-52 37"],
+    ["IC4996", "P Cyg Cluster", "OC", "20 16.5", "+37 38"],
+    ["IC4997", "", "PN", "20 20.1", "+16 44"],
+    ["IC4999", "", "Gx", "20 23.9", "-26 01"],
+    ["IC5001", "", "Gx", "20 26.3", "-54 46"],
+    ["IC5002", "", "Gx", "20 26.7", "-54 48"],
+    ["IC5005", "", "Gx", "20 25.3", "-25 50"],
+    ["IC5007", "", "Gx", "20 43.6", "-29 42"],
+    ["IC5008", "", "Gx", "20 32.7", "-72 42"],
+    ["IC5009", "", "Gx", "20 32.6", "-72 10"],
+    ["IC5010", "", "Gx", "20 30.4", "-66 06"],
+    ["IC5012", "", "Gx", "20 29.5", "-56 45"],
+    ["IC5013", "", "Gx", "20 28.6", "-36 02"],
+    ["IC5014", "", "Gx", "20 35.3", "-73 27"],
+    ["IC5016", "", "Gx", "20 35.6", "-72 55"],
+    ["IC5017", "", "Gx", "20 32.1", "-57 35"],
+    ["IC5019", "", "Gx", "20 30.8", "-36 05"],
+    ["IC5020", "", "Gx", "20 30.6", "-33 29"],
+    ["IC5021", "", "Gx", "20 33.6", "-54 31"],
+    ["IC5022", "", "Gx", "20 41.1", "-76 27"],
+    ["IC5023", "", "Gx", "20 38.2", "-67 11"],
+    ["IC5024", "", "Gx", "20 40.2", "-71 06"],
+    ["IC5025", "", "Gx", "20 45.0", "-76 59"],
+    ["IC5026", "", "Gx", "20 48.5", "-78 04"],
+    ["IC5027", "", "Gx", "20 41.1", "-55 28"],
+    ["IC5028", "", "Gx", "20 43.4", "-65 39"],
+    ["IC5031", "", "Gx", "20 45.3", "-67 32"],
+    ["IC5032", "", "Gx", "20 45.4", "-67 33"],
+    ["IC5033", "", "Gx", "20 43.9", "-57 20"],
+    ["IC5034", "", "Gx", "20 43.7", "-57 02"],
+    ["IC5035", "", "Gx", "20 44.2", "-57 08"],
+    ["IC5036", "", "Gx", "20 44.6", "-57 38"],
+    ["IC5037", "", "Gx", "20 45.7", "-58 27"],
+    ["IC5038", "", "Gx", "20 46.9", "-65 01"],
+    ["IC5039", "", "Gx", "20 43.2", "-29 51"],
+    ["IC5040", "", "Gx", "20 52.3", "-76 41"],
+    ["IC5042", "", "Gx", "20 47.8", "-65 05"],
+    ["IC5043", "", "Gx", "20 46.6", "-56 59"],
+    ["IC5044", "", "Gx", "20 50.7", "-71 54"],
+    ["IC5045", "", "Gx", "20 50.8", "-71 55"],
+    ["IC5048", "", "Gx", "20 51.7", "-71 48"],
+    ["IC5049", "", "Gx", "20 47.4", "-38 25"],
+    ["IC5050", "", "Gx", "20 45.3", "-05 37"],
+    ["IC5051", "", "Gx", "20 52.4", "-71 47"],
+    ["IC5052", "", "Gx", "20 52.0", "-69 12"],
+    ["IC5053", "", "Gx", "20 53.6", "-71 08"],
+    ["IC5054", "", "Gx", "20 53.8", "-71 01"],
+    ["IC5055", "", "Gx", "20 53.0", "-68 27"],
+    ["IC5056", "", "Gx", "20 49.2", "-39 13"],
+    ["IC5059", "", "Gx", "20 51.2", "-57 41"],
+    ["IC5060", "", "Gx", "20 54.8", "-71 38"],
+    ["IC5062", "", "Gx", "20 48.5", "-08 18"],
+    ["IC5063", "", "Gx", "20 52.0", "-57 04"],
+    ["IC5064", "", "Gx", "20 52.6", "-57 14"],
+    ["IC5065", "", "Gx", "20 51.8", "-29 51"],
+    ["IC5066", "", "Gx", "20 57.1", "-73 09"],
+    ["IC5067", "Pelican Nebula", "Neb", "20 47.9", "+44 22"],
+    ["IC5068", "", "Neb", "20 51.2", "+42 30"],
+    ["IC5069", "", "Gx", "21 00.2", "-71 49"],
+    ["IC5071", "", "Gx", "21 01.3", "-72 39"],
+    ["IC5072", "", "Gx", "21 01.9", "-72 59"],
+    ["IC5073", "", "Gx", "21 03.3", "-72 41"],
+    ["IC5074", "", "Gx", "21 01.0", "-63 09"],
+    ["IC5075", "", "Gx", "21 04.6", "-71 52"],
+    ["IC5076", "", "RN", "20 56.0", "+47 24"],
+    ["IC5077", "", "Gx", "21 08.9", "-73 38"],
+    ["IC5078", "", "Gx", "21 02.5", "-16 49"],
+    ["IC5079", "", "Gx", "21 06.1", "-56 15"],
+    ["IC5080", "", "Gx", "21 02.6", "+19 13"],
+    ["IC5082", "", "Gx", "21 04.6", "-12 20"],
+    ["IC5083", "", "Gx", "21 03.9", "+11 46"],
+    ["IC5084", "", "Gx", "21 09.2", "-63 17"],
+    ["IC5085", "", "Gx", "21 13.5", "-74 06"],
+    ["IC5086", "", "Gx", "21 08.5", "-29 46"],
+    ["IC5087", "", "Gx", "21 14.3", "-73 46"],
+    ["IC5088", "", "Gx", "21 09.4", "-22 53"],
+    ["IC5090", "", "Gx", "21 11.5", "-02 02"],
+    ["IC5091", "", "Gx", "21 17.6", "-70 39"],
+    ["IC5092", "", "Gx", "21 16.2", "-64 28"],
+    ["IC5093", "", "Gx", "21 18.8", "-70 37"],
+    ["IC5094", "", "Gx", "21 17.8", "-66 26"],
+    ["IC5095", "", "Gx", "21 17.4", "-59 57"],
+    ["IC5096", "", "Gx", "21 18.4", "-63 46"],
+    ["IC5099", "", "Gx", "21 21.8", "-70 59"],
+    ["IC5100", "", "Gx", "21 21.7", "-65 56"],
+    ["IC5101", "", "Gx", "21 21.9", "-65 50"],
+    ["IC5102", "", "Gx", "21 26.2", "-73 19"],
+    ["IC5103", "", "Gx", "21 29.2", "-74 04"],
+    ["IC5104", "", "Gx", "21 21.5", "+21 15"],
+    ["IC5105", "", "Gx", "21 24.4", "-40 32"],
+    ["IC5106", "", "Gx", "21 28.6", "-70 50"],
+    ["IC5107", "", "Gx", "21 28.2", "-65 44"],
+    ["IC5108", "", "Gx", "21 32.9", "-72 40"],
+    ["IC5109", "", "Gx", "21 33.7", "-74 07"],
+    ["IC5110", "", "Gx", "21 30.7", "-60 00"],
+    ["IC5111", "", "Gx", "21 28.2", "+02 28"],
+    ["IC5115", "", "Gx", "21 31.0", "+11 46"],
+    ["IC5116", "", "Gx", "21 37.1", "-70 59"],
+    ["IC5117", "", "PN", "21 32.5", "+44 36"],
+    ["IC5118", "", "Gx", "21 42.2", "-71 23"],
+    ["IC5119", "", "Gx", "21 33.9", "+21 50"],
+    ["IC5120", "", "Gx", "21 38.8", "-64 21"],
+    ["IC5122", "", "Gx", "21 39.8", "-22 24"],
+    ["IC5123", "", "Gx", "21 44.8", "-72 25"],
+    ["IC5124", "", "Gx", "21 39.9", "-22 26"],
+    ["IC5125", "", "Gx", "21 41.8", "-52 46"],
+    ["IC5128", "", "Gx", "21 43.2", "-38 58"],
+    ["IC5129", "", "Gx", "21 47.8", "-65 23"],
+    ["IC5130", "", "Gx", "21 50.4", "-74 00"],
+    ["IC5131", "", "Gx", "21 47.4", "-34 53"],
+    ["IC5138", "", "Gx", "21 53.4", "-68 57"],
+    ["IC5139", "", "Gx", "21 50.4", "-31 00"],
+    ["IC5140", "", "Gx", "21 54.3", "-67 20"],
+    ["IC5141", "", "Gx", "21 53.3", "-59 30"],
+    ["IC5142", "", "Gx", "21 55.3", "-65 31"],
+    ["IC5143", "", "Gx", "21 57.1", "-49 03"],
+    ["IC5144", "", "Gx", "21 54.2", "+15 02"],
+    ["IC5145", "", "Gx", "21 54.4", "+15 09"],
+    ["IC5147", "", "Gx", "21 59.4", "-65 27"],
+    ["IC5148", "Spare Tyre Nebula", "PN", "21 59.6", "-39 23"],
+    ["IC5149", "", "Gx", "21 59.0", "-27 25"],
+    ["IC5151", "", "Gx", "21 58.9", "+03 46"],
+    ["IC5152", "", "Gx", "22 02.7", "-51 18"],
+    ["IC5154", "", "Gx", "22 04.5", "-66 07"],
+    ["IC5156", "", "Gx", "22 03.2", "-33 50"],
+    ["IC5157", "", "Gx", "22 03.5", "-34 57"],
+    ["IC5158", "", "Gx", "22 06.4", "-67 31"],
+    ["IC5160", "", "Gx", "22 03.1", "+10 55"],
+    ["IC5161", "", "Gx", "22 05.7", "+09 38"],
+    ["IC5162", "", "Gx", "22 08.1", "-52 43"],
+    ["IC5165", "", "Gx", "22 10.1", "-64 35"],
+    ["IC5168", "", "Gx", "22 08.8", "-27 51"],
+    ["IC5169", "", "Gx", "22 10.2", "-36 05"],
+    ["IC5170", "", "Gx", "22 12.5", "-47 13"],
+    ["IC5171", "", "Gx", "22 10.9", "-46 05"],
+    ["IC5172", "", "Gx", "22 09.9", "+12 49"],
+    ["IC5173", "Southern Integral Sign", "Gx", "22 14.8", "-69 22"],
+    ["IC5174", "", "Gx", "22 12.7", "-38 10"],
+    ["IC5175", "", "Gx", "22 12.8", "-38 08"],
+    ["IC5176", "", "Gx", "22 14.9", "-66 51"],
+    ["IC5177", "", "Gx", "22 11.6", "+11 48"],
+    ["IC5178", "", "Gx", "22 12.6", "-22 57"],
+    ["IC5179", "", "Gx", "22 16.2", "-36 51"],
+    ["IC5180", "", "Gx", "22 11.2", "+38 56"],
+    ["IC5181", "", "Gx", "22 13.4", "-46 01"],
+    ["IC5182", "", "Gx", "22 16.1", "-65 27"],
+    ["IC5185", "", "Gx", "22 17.7", "-65 51"],
+    ["IC5186", "", "Gx", "22 18.8", "-36 48"],
+    ["IC5187", "", "Gx", "22 18.3", "-59 36"],
+    ["IC5188", "", "Gx", "22 18.4", "-59 38"],
+    ["IC5190", "", "Gx", "22 19.0", "-59 53"],
+    ["IC5191", "", "Gx", "22 15.0", "+37 18"],
+    ["IC5192", "", "Gx", "22 15.2", "+37 16"],
+    ["IC5193", "", "Gx", "22 15.7", "+37 15"],
+    ["IC5196", "", "Gx", "22 20.2", "-65 24"],
+    ["IC5197", "", "Gx", "22 19.8", "-60 08"],
+    ["IC5199", "", "Gx", "22 19.6", "-37 32"],
+    ["IC5200", "", "Gx", "22 22.3", "-65 46"],
+    ["IC5201", "", "Gx", "22 21.0", "-46 02"],
+    ["IC5202", "", "Gx", "22 22.9", "-65 48"],
+    ["IC5203", "", "Gx", "22 22.6", "-59 46"],
+    ["IC5205", "", "Gx", "22 22.8", "-59 47"],
+    ["IC5206", "", "Gx", "22 24.1", "-66 51"],
+    ["IC5207", "", "Gx", "22 23.5", "-60 34"],
+    ["IC5208", "", "Gx", "22 24.6", "-65 14"],
+    ["IC5209", "", "Gx", "22 23.2", "-38 00"],
+    ["IC5210", "", "Gx", "22 22.5", "-18 52"],
+    ["IC5211", "", "Gx", "22 22.7", "-18 53"],
+    ["IC5212", "", "Gx", "22 23.5", "-38 02"],
+    ["IC5213", "", "Gx", "22 25.1", "-60 29"],
+    ["IC5214", "", "Gx", "22 22.7", "-27 21"],
+    ["IC5215", "", "Gx", "22 27.0", "-65 59"],
+    ["IC5217", "", "PN", "22 23.9", "+50 58"],
+    ["IC5218", "", "Gx", "22 28.1", "-60 24"],
+    ["IC5219", "", "Gx", "22 28.7", "-65 54"],
+    ["IC5220", "", "Gx", "22 28.0", "-59 43"],
+    ["IC5221", "", "Gx", "22 29.0", "-65 54"],
+    ["IC5222", "", "Gx", "22 29.9", "-65 40"],
+    ["IC5223", "", "Gx", "22 29.7", "+07 59"],
+    ["IC5224", "", "Gx", "22 30.5", "-46 00"],
+    ["IC5225", "", "Gx", "22 31.0", "-25 21"],
+    ["IC5227", "", "Gx", "22 34.1", "-64 42"],
+    ["IC5229", "", "Gx", "22 34.8", "-61 23"],
+    ["IC5230", "", "Gx", "22 35.7", "-61 33"],
+    ["IC5231", "", "Gx", "22 34.0", "+23 20"],
+    ["IC5232", "", "Gx", "22 37.6", "-68 52"],
+    ["IC5233", "", "Gx", "22 36.5", "+25 46"],
+    ["IC5234", "", "Gx", "22 40.2", "-65 50"],
+    ["IC5235", "", "Gx", "22 41.4", "-66 35"],
+    ["IC5236", "", "Gx", "22 41.5", "-66 37"],
+    ["IC5238", "", "Gx", "22 41.5", "-60 45"],
+    ["IC5239", "", "Gx", "22 31.1", "-38 02"],
+    ["IC5240", "", "Gx", "22 41.9", "-44 46"],
+    ["IC5241", "", "Gx", "22 41.6", "+02 38"],
+    ["IC5242", "", "Gx", "22 41.3", "+23 24"],
+    ["IC5243", "", "Gx", "22 41.4", "+23 23"],
+    ["IC5244", "", "Gx", "22 44.2", "-64 03"],
+    ["IC5245", "", "Gx", "22 44.9", "-65 21"],
+    ["IC5246", "", "Gx", "22 46.7", "-64 54"],
+    ["IC5247", "", "Gx", "22 46.8", "-65 16"],
+    ["IC5249", "", "Gx", "22 47.1", "-64 50"],
+    ["IC5250", "", "Gx", "22 47.3", "-65 03"],
+    ["IC5252", "", "Gx", "22 48.1", "-68 54"],
+    ["IC5253", "", "Gx", "22 45.5", "+21 48"],
+    ["IC5254", "", "Gx", "22 46.0", "+21 08"],
+    ["IC5256", "", "Gx", "22 49.8", "-68 41"],
+    ["IC5257", "", "Gx", "22 52.3", "-67 25"],
+    ["IC5258", "", "Gx", "22 51.5", "+23 05"],
+    ["IC5261", "", "Gx", "22 54.4", "-20 22"],
+    ["IC5262", "", "Gx", "22 55.3", "-33 53"],
+    ["IC5263", "", "Gx", "22 58.2", "-69 03"],
+    ["IC5264", "", "Gx", "22 56.9", "-36 33"],
+    ["IC5266", "", "Gx", "22 58.3", "-65 08"],
+    ["IC5267", "", "Gx", "22 57.2", "-43 24"],
+    ["IC5269", "", "Gx", "22 57.7", "-36 02"],
+    ["IC5270", "", "Gx", "22 57.9", "-35 51"],
+    ["IC5271", "", "Gx", "22 58.0", "-33 45"],
+    ["IC5272", "", "Gx", "22 59.5", "-65 12"],
+    ["IC5273", "", "Gx", "22 59.4", "-37 42"],
+    ["IC5274", "", "Gx", "22 58.5", "+18 55"],
+    ["IC5276", "", "Gx", "22 58.7", "+18 49"],
+    ["IC5277", "", "Gx", "23 02.0", "-65 12"],
+    ["IC5278", "", "Gx", "23 00.3", "-08 11"],
+    ["IC5279", "", "Gx", "23 03.0", "-69 13"],
+    ["IC5280", "", "Gx", "23 03.8", "-65 12"],
+    ["IC5282", "", "Gx", "23 02.8", "+21 52"],
+    ["IC5283", "", "Gx", "23 03.3", "+08 54"],
+    ["IC5284", "", "Gx", "23 06.8", "+19 07"],
+    ["IC5285", "", "Gx", "23 07.0", "+22 56"],
+    ["IC5286", "", "Gx", "23 09.9", "-68 15"],
+    ["IC5287", "", "Gx", "23 09.3", "+00 45"],
+    ["IC5288", "", "Gx", "23 11.7", "-68 06"],
+    ["IC5289", "", "Gx", "23 11.3", "-32 27"],
+    ["IC5290", "", "Gx", "23 12.9", "-23 28"],
+    ["IC5291", "", "Gx", "23 13.7", "+09 14"],
+    ["IC5292", "", "Gx", "23 13.8", "+13 41"],
+    ["IC5293", "", "Gx", "23 14.7", "+25 08"],
+    ["IC5295", "", "Gx", "23 15.5", "+25 07"],
+    ["IC5296", "", "Gx", "23 15.7", "+25 06"],
+    ["IC5297", "", "Gx", "23 16.0", "+25 02"],
+    ["IC5298", "", "Gx", "23 16.0", "+25 33"],
+    ["IC5300", "", "Gx", "23 16.6", "+20 50"],
+    ["IC5301", "", "Gx", "23 19.0", "-69 34"],
+    ["IC5302", "", "Gx", "23 19.6", "-64 34"],
+    ["IC5304", "", "Gx", "23 18.9", "-10 16"],
+    ["IC5305", "", "Gx", "23 18.1", "+10 18"],
+    ["IC5306", "", "Gx", "23 18.2", "+10 15"],
+    ["IC5307", "", "Gx", "23 18.4", "+10 14"],
+    ["IC5309", "", "Gx", "23 19.2", "+08 07"],
+    ["IC5310", "", "Gx", "23 20.8", "-22 09"],
+    ["IC5312", "", "Gx", "23 21.0", "+19 19"],
+    ["IC5314", "", "Gx", "23 21.1", "+19 19"],
+    ["IC5315", "", "Gx", "23 21.3", "+25 23"],
+    ["IC5317", "", "Gx", "23 23.5", "+21 10"],
+    ["IC5320", "", "Gx", "23 28.4", "-67 46"],
+    ["IC5321", "", "Gx", "23 26.3", "-17 57"],
+    ["IC5322", "", "Gx", "23 28.5", "-67 46"],
+    ["IC5323", "", "Gx", "23 27.6", "-67 49"],
+    ["IC5324", "", "Gx", "23 28.3", "-67 49"],
+    ["IC5325", "", "Gx", "23 28.7", "-41 20"],
+    ["IC5326", "", "Gx", "23 29.6", "-28 50"],
+    ["IC5328", "", "Gx", "23 33.3", "-45 01"],
+    ["IC5329", "", "Gx", "23 33.2", "+21 14"],
+    ["IC5331", "", "Gx", "23 33.4", "+21 08"],
+    ["IC5332", "", "Gx", "23 34.5", "-36 06"],
+    ["IC5334", "", "Gx", "23 34.6", "-04 32"],
+    ["IC5335", "", "Gx", "23 35.8", "-67 24"],
+    ["IC5337", "", "Gx", "23 36.4", "+21 09"],
+    ["IC5338", "", "Gx", "23 36.5", "+21 09"],
+    ["IC5339", "", "Gx", "23 38.1", "-68 27"],
+    ["IC5341", "", "Gx", "23 38.4", "+26 59"],
+    ["IC5342", "", "Gx", "23 38.6", "+27 01"],
+    ["IC5343", "", "Gx", "23 39.4", "-22 30"],
+    ["IC5345", "", "Gx", "23 39.5", "-22 25"],
+    ["IC5346", "", "Gx", "23 41.1", "+24 57"],
+    ["IC5347", "", "Gx", "23 41.6", "+24 53"],
+    ["IC5349", "", "Gx", "23 46.4", "-28 00"],
+    ["IC5350", "", "Gx", "23 47.2", "-27 57"],
+    ["IC5351", "", "Gx", "23 47.3", "-02 19"],
+    ["IC5353", "", "Gx", "23 47.5", "-28 07"],
+    ["IC5354", "", "Gx", "23 47.5", "-28 08"],
+    ["IC5355", "", "Gx", "23 47.3", "+32 47"],
+    ["IC5356", "", "Gx", "23 47.4", "-02 21"],
+    ["IC5357", "", "Gx", "23 47.4", "-02 18"],
+    ["IC5358", "", "Gx", "23 47.8", "-28 08"],
+    ["IC5359", "", "Gx", "23 47.6", "-02 19"],
+    ["IC5361", "", "Gx", "23 51.5", "-13 23"],
+    ["IC5362", "", "Gx", "23 51.6", "-28 22"],
+    ["IC5364", "", "Gx", "23 56.4", "-29 01"],
+    ["IC5365", "", "Gx", "23 57.2", "-37 00"],
+    ["IC5369", "", "Gx", "23 59.8", "+32 42"],
+    ["IC5370", "", "Gx", "00 00.2", "+32 44"],
+    ["IC5371", "", "Gx", "00 00.2", "+32 50"],
+    ["IC5372", "", "Gx", "00 00.3", "+32 48"],
+    ["IC5373", "", "Gx", "00 00.5", "+32 47"],
+    ["IC5374", "", "Gx", "00 01.1", "+04 30"],
+    ["IC5375", "", "Gx", "00 01.1", "+04 32"],
+    ["IC5376", "", "Gx", "00 01.3", "+34 32"],
+    ["IC5377", "", "Gx", "00 02.1", "+16 35"],
+    ["IC5378", "", "Gx", "00 02.6", "+16 39"],
+    ["IC5379", "", "Gx", "00 02.7", "+16 36"],
+    ["IC5380", "", "Gx", "00 02.8", "-66 11"],
+    ["IC5381", "", "Gx", "00 03.2", "+15 58"],
+    ["IC5382", "", "Gx", "00 03.4", "-65 12"],
+];
@@ -0,0 +1,41 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+
+import { checkCoolingSettings, defaultCoolingSettings, isStable, rampSetPoint, updateStableSince } from "./CoolerLogic";
+
+describe("CoolerLogic", () => {
+    it("Ramps the set-point", () => {
+        // 2°C/min
+        assert.equal(rampSetPoint(20, -10, 2, 0), 20);
+        assert.equal(rampSetPoint(20, -10, 2, 30000), 19);
+        assert.equal(rampSetPoint(20, -10, 2, 5 * 60000), 10);
+        assert.equal(rampSetPoint(20, -10, 2, 15 * 60000), -10);
+        assert.equal(rampSetPoint(20, -10, 2, 60 * 60000), -10);
+        // Warm-up
+        assert.equal(rampSetPoint(-10, 5, 3, 2 * 60000), -4);
+        // No ramp
+        assert.equal(rampSetPoint(20, -10, null, 0), -10);
+    });
+
+    it("Waits for a stable temperature", () => {
+        const settings = {...defaultCoolingSettings, tolerance: 0.5, stableDuration: 60};
+        let stableSince = updateStableSince(null, -8, -10, settings, 1000);
+        assert.isNull(stableSince);
+        stableSince = updateStableSince(stableSince, -9.6, -10, settings, 2000);
+        assert.equal(stableSince, 2000);
+        stableSince = updateStableSince(stableSince, -10.2, -10, settings, 30000);
+        assert.equal(stableSince, 2000);
+        assert.isFalse(isStable(stableSince, settings, 30000));
+        assert.isTrue(isStable(stableSince, settings, 62000));
+        // Out of tolerance: start again
+        assert.isNull(updateStableSince(stableSince, -10.6, -10, settings, 63000));
+        assert.isNull(updateStableSince(stableSince, null, -10, settings, 63000));
+    });
+
+    it("Checks settings", () => {
+        assert.isNull(checkCoolingSettings(defaultCoolingSettings));
+        assert.isNull(checkCoolingSettings({...defaultCoolingSettings, rampRate: null}));
+        assert.equal(checkCoolingSettings({...defaultCoolingSettings, rampRate: 0}), "Ramp rate must be positive");
+        assert.equal(checkCoolingSettings({...defaultCoolingSettings, tolerance: -1}), "Tolerance must be positive");
+    });
+});
@@ -0,0 +1,50 @@
+import { CameraCoolingSettings } from './shared/BackOfficeStatus';
+
+export const defaultCoolingSettings: CameraCoolingSettings = {
+    rampRate: 2,
+    tolerance: 0.5,
+    stableDuration: 60,
+    warmUpTemperature: 10,
+};
+
+// Set-point after elapsed ms of a ramp from start to target
+export function rampSetPoint(start: number, target: number, rampRate: number|null, elapsed: number): number {
+    if (rampRate === null || rampRate <= 0) {
+        return target;
+    }
+    const delta = rampRate * Math.max(elapsed, 0) / 60000;
+    if (Math.abs(target - start) <= delta) {
+        return target;
+    }
+    // Drivers don't need more than 0.1°C
+    return Math.round(10 * (start + Math.sign(target - start) * delta)) / 10;
+}
+
+// New value of stableSince for a temperature reading
+export function updateStableSince(stableSince: number|null, temperature: number|null, setPoint: number, settings: CameraCoolingSettings, now: number): number|null {
+    if (temperature === null || Math.abs(temperature - setPoint) > settings.tolerance) {
+        return null;
+    }
+    return stableSince === null ? now : stableSince;
+}
+
+export function isStable(stableSince: number|null, settings: CameraCoolingSettings, now: number): boolean {
+    return stableSince !== null && now - stableSince >= settings.stableDuration * 1000;
+}
+
+// Returns an error for invalid settings
+export function checkCoolingSettings(settings: CameraCoolingSettings): string|null {
+    if (settings.rampRate !== null && (typeof settings.rampRate !== "number" || !(settings.rampRate > 0))) {
+        return "Ramp rate must be positive";
+    }
+    if (typeof settings.tolerance !== "number" || !(settings.tolerance > 0)) {
+        return "Tolerance must be positive";
+    }
+    if (typeof settings.stableDuration !== "number" || !(settings.stableDuration >= 0)) {
+        return "Stable duration must not be negative";
+    }
+    if (typeof settings.warmUpTemperature !== "number" || isNaN(settings.warmUpTemperature)) {
+        return "Invalid warm-up temperature";
+    }
+    return null;
+}
@@ -0,0 +1,31 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+
+import { estimateFrameSize, framesLeft, nearestExistingDir, parseDfOutput } from "./DiskSpace";
+
+describe("DiskSpace", () => {
+    it("Parses df output", () => {
+        assert.equal(parseDfOutput(
+            "Filesystem     1024-blocks      Used Available Capacity Mounted on\n" +
+            "/dev/sda1        102400000  51200000  51200000      50% /\n"), 51200000 * 1024);
+        assert.equal(parseDfOutput(
+            "Filesystem     1024-blocks      Used Available Capacity Mounted on\n" +
+            "//nas/my photos    1000000    999000      1000     100% /mnt/my photos\n"), 1000 * 1024);
+        expect(()=>parseDfOutput("df: /nowhere: No such file or directory\n")).to.throw("Unexpected df output");
+    });
+
+    it("Finds the nearest existing directory", () => {
+        const existing = ["/", "/home", "/home/astro"];
+        const exists = (p: string)=>existing.indexOf(p) !== -1;
+        assert.equal(nearestExistingDir("/home/astro/2026-10-19/M31", exists), "/home/astro");
+        assert.equal(nearestExistingDir("/home/astro", exists), "/home/astro");
+        assert.equal(nearestExistingDir("/mnt/usb/images", exists), "/");
+    });
+
+    it("Estimates frames left", () => {
+        assert.equal(estimateFrameSize(4000, 3000, 16, 1), 4000 * 3000 * 2 + 5760);
+        assert.equal(estimateFrameSize(4001, 3000, 12, 2), 2001 * 1500 * 2 + 5760);
+        assert.equal(framesLeft(1000, 100, 500), 5);
+        assert.equal(framesLeft(400, 100, 500), 0);
+    });
+});
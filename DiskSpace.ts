@@ -0,0 +1,56 @@
+import CancellationToken from 'cancellationtoken';
+import MemoryStreams from 'memory-streams';
+import fs from 'fs';
+import path from 'path';
+import { Pipe } from './SystemPromise';
+
+// FITS header and padding
+const headerSize = 2 * 2880;
+
+// Available bytes, from the output of df -P -k
+export function parseDfOutput(output: string): number {
+    const lines = output.split('\n').filter(l=>l.trim().length > 0);
+    if (lines.length < 2) {
+        throw new Error("Unexpected df output: " + output);
+    }
+    // Filesystem 1024-blocks Used Available Capacity Mounted-on. Filesystem and mount point may contain spaces
+    const fields = /\s(\d+)\s+(\d+)\s+(\d+)\s+\d+%\s/.exec(lines[lines.length - 1] + " ");
+    if (fields === null) {
+        throw new Error("Unexpected df output: " + output);
+    }
+    const available = parseInt(fields[3]);
+    return available * 1024;
+}
+
+// Directory templates create directories at the first frame
+export function nearestExistingDir(dir: string, exists: (p: string)=>boolean): string {
+    let current = path.resolve(dir);
+    while(!exists(current)) {
+        const parent = path.dirname(current);
+        if (parent === current) {
+            break;
+        }
+        current = parent;
+    }
+    return current;
+}
+
+export async function getFreeSpace(ct: CancellationToken, dir: string): Promise<number> {
+    const output = await Pipe(ct,
+        {
+            command: ["df", "-P", "-k", nearestExistingDir(dir, fs.existsSync)],
+        },
+        new MemoryStreams.ReadableStream(""));
+    return parseDfOutput(output);
+}
+
+// Size of an uncompressed FITS frame
+export function estimateFrameSize(width: number, height: number, bitsPerPixel: number, bin: number): number {
+    const pixels = Math.ceil(width / bin) * Math.ceil(height / bin);
+    return pixels * Math.ceil(bitsPerPixel / 8) + headerSize;
+}
+
+// Frames that fit before the free space goes below the reserve
+export function framesLeft(free: number, frameSize: number, reserve: number): number {
+    return Math.max(0, Math.floor((free - reserve) / frameSize));
+}
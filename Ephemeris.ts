@@ -0,0 +1,72 @@
+import SkyProjection from './SkyAlgorithms/SkyProjection';
+
+export type GeoCoords = {lat: number, long: number};
+
+const DEG = Math.PI / 180;
+
+function julianDay(msTime: number) {
+    return msTime / 86400000 + 2440587.5;
+}
+
+// Low precision (0.01°) position of the sun, from the astronomical almanac
+// Returns [ra, dec] in degrees
+export function getSunRaDec(msTime: number): number[] {
+    const n = julianDay(msTime) - 2451545.0;
+    const meanLong = 280.460 + 0.9856474 * n;
+    const meanAnomaly = (357.528 + 0.9856003 * n) * DEG;
+    const eclipticLong = (meanLong + 1.915 * Math.sin(meanAnomaly) + 0.020 * Math.sin(2 * meanAnomaly)) * DEG;
+    const obliquity = (23.439 - 0.0000004 * n) * DEG;
+
+    const ra = Math.atan2(Math.cos(obliquity) * Math.sin(eclipticLong), Math.cos(eclipticLong)) / DEG;
+    const dec = Math.asin(Math.sin(obliquity) * Math.sin(eclipticLong)) / DEG;
+    return [(ra + 360) % 360, dec];
+}
+
+// Alt/az of a JNOW ra/dec (degrees) at the given time
+export function getAltAz(raDecNow: number[], msTime: number, geoCoords: GeoCoords): {alt: number, az: number} {
+    return SkyProjection.lstRelRaDecToAltAz(SkyProjection.raDecToLstRel(raDecNow, msTime, geoCoords), geoCoords);
+}
+
+// Hour angle in degrees. Positive once the object has passed the meridian (setting)
+export function getHourAngle(raDecNow: number[], msTime: number, geoCoords: GeoCoords): number {
+    return -SkyProjection.raDecToLstRel(raDecNow, msTime, geoCoords).relRaDeg;
+}
+
+export function getAltitude(raDecNow: number[], msTime: number, geoCoords: GeoCoords): number {
+    return getAltAz(raDecNow, msTime, geoCoords).alt;
+}
+
+export function getSunAltitude(msTime: number, geoCoords: GeoCoords): number {
+    return getAltitude(getSunRaDec(msTime), msTime, geoCoords);
+}
+
+export function isSunRising(msTime: number, geoCoords: GeoCoords): boolean {
+    return getHourAngle(getSunRaDec(msTime), msTime, geoCoords) < 0;
+}
+
+// First time in [from, from + maxDuration] where predicate holds, or null.
+// The predicate is sampled every step ms, then the transition is refined to the second
+export function findNextTime(from: number, maxDuration: number, step: number, predicate: (msTime: number)=>boolean): number|null {
+    if (predicate(from)) {
+        return from;
+    }
+    let previous = from;
+    for (let t = from + step; t < from + maxDuration + step; t += step) {
+        const current = Math.min(t, from + maxDuration);
+        if (predicate(current)) {
+            let low = previous;
+            let high = current;
+            while (high - low > 1000) {
+                const mid = (low + high) / 2;
+                if (predicate(mid)) {
+                    high = mid;
+                } else {
+                    low = mid;
+                }
+            }
+            return high;
+        }
+        previous = current;
+    }
+    return null;
+}
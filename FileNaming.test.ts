@@ -0,0 +1,53 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+
+import { checkFileNamingTemplate, defaultFileNaming, FileNamingContext, renderFileNaming, sanitizeToken } from "./FileNaming";
+
+const context: FileNamingContext = {
+    date: new Date(2020, 0, 2, 1, 30, 5),
+    camera: "CCD Simulator",
+    sequence: "M31 mosaic",
+    target: "M31",
+    type: "Light",
+    filter: "Ha",
+    exposure: 300,
+    gain: 120,
+    bin: 2,
+    temperature: -9.8,
+};
+
+describe("FileNaming", () => {
+    it("Default naming", () => {
+        assert.deepEqual(renderFileNaming(defaultFileNaming, context), {directory: "", prefix: "M31-mosaic_Light_Ha_300s_XXX"});
+        assert.deepEqual(renderFileNaming(defaultFileNaming, {...context, filter: null, exposure: 0.5}), {directory: "", prefix: "M31-mosaic_Light_500ms_XXX"});
+    });
+
+    it("Replaces every token", () => {
+        const template = {
+            directory: "{night}/{target}/{filter}",
+            file: "{date}_{time}_{sequence}_{type}_{exposure}_gain{gain}_bin{bin}_{temperature}C_{camera}_{frame}",
+        };
+        assert.deepEqual(renderFileNaming(template, context), {
+            directory: "2020-01-01/M31/Ha",
+            prefix: "2020-01-02_013005_M31-mosaic_Light_300s_gain120_bin2_-10C_CCD-Simulator_XXX",
+        });
+        // Empty tokens don't create directories
+        assert.equal(renderFileNaming(template, {...context, target: null}).directory, "2020-01-01/Ha");
+    });
+
+    it("Sanitizes tokens", () => {
+        assert.equal(sanitizeToken("../a/b c.fits"), "-a-b-c-fits");
+        assert.equal(sanitizeToken("XXX"), "xxx");
+        // A frame number is always present
+        assert.equal(renderFileNaming({directory: "", file: "{target}"}, context).prefix, "M31_XXX");
+        assert.equal(renderFileNaming({directory: "", file: "{target}"}, {...context, target: null}).prefix, "XXX");
+    });
+
+    it("Checks templates", () => {
+        assert.isNull(checkFileNamingTemplate(defaultFileNaming));
+        assert.equal(checkFileNamingTemplate({directory: "", file: "{object}"}), "Unknown token: {object}");
+        assert.equal(checkFileNamingTemplate({directory: "", file: "a/{frame}"}), "File template can't contain /");
+        assert.equal(checkFileNamingTemplate({directory: "../{night}", file: "{frame}"}), "Directory template can't contain ..");
+        expect(checkFileNamingTemplate({file: "{frame}"})).to.equal("File naming must have a directory and a file template");
+    });
+});
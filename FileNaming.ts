@@ -0,0 +1,125 @@
+import { FileNamingTemplate } from './shared/BackOfficeStatus';
+import { hasKey, isObject } from './Obj';
+
+// What a file name can tell about a frame. null values give empty tokens
+export type FileNamingContext = {
+    date: Date;
+    camera: string;
+    sequence: string|null;
+    target: string|null;
+    // Label of the frame type (Light, Dark, ...)
+    type: string|null;
+    filter: string|null;
+    exposure: number|null;
+    gain: number|null;
+    bin: number|null;
+    temperature: number|null;
+}
+
+export const fileNamingTokens = ["date", "night", "time", "target", "sequence", "type", "filter", "exposure", "gain", "bin", "temperature", "frame", "camera"];
+
+// Same naming as before templates existed
+export const defaultFileNaming: FileNamingTemplate = {
+    directory: "",
+    file: "{sequence}_{type}_{filter}_{exposure}_{frame}",
+};
+
+// Replaced by indi with the next free frame number
+const frameCounter = "XXX";
+
+function pad(v: number, length: number = 2) {
+    return ("" + v).padStart(length, "0");
+}
+
+function formatDate(d: Date) {
+    return d.getFullYear() + "-" + pad(d.getMonth() + 1) + "-" + pad(d.getDate());
+}
+
+// Same as the date, but the night does not change at midnight
+function formatNight(d: Date) {
+    return formatDate(new Date(d.getTime() - 12 * 3600000));
+}
+
+export function formatExposure(exposure: number) {
+    if (exposure < 1 || (exposure % 1)) {
+        return Math.floor(exposure * 1000) + 'ms';
+    }
+    return Math.floor(exposure) + 's';
+}
+
+// A token value can't create directories, extensions or frame counters. Be cool with windows
+export function sanitizeToken(v: string) {
+    return v.replace(/[\/\.\*\?\:\\<>|" ]+/g, '-').replace(/XXX/g, 'xxx');
+}
+
+function tokenValues(context: FileNamingContext): {[token: string]: string} {
+    const values: {[token: string]: string|null} = {
+        date: formatDate(context.date),
+        night: formatNight(context.date),
+        time: pad(context.date.getHours()) + pad(context.date.getMinutes()) + pad(context.date.getSeconds()),
+        target: context.target,
+        sequence: context.sequence,
+        type: context.type,
+        filter: context.filter,
+        exposure: context.exposure !== null ? formatExposure(context.exposure) : null,
+        gain: context.gain !== null ? "" + context.gain : null,
+        bin: context.bin !== null ? "" + context.bin : null,
+        temperature: context.temperature !== null ? "" + Math.round(context.temperature) : null,
+        camera: context.camera,
+    };
+    const ret: {[token: string]: string} = {};
+    for(const token of Object.keys(values)) {
+        const v = values[token];
+        ret[token] = v === null ? "" : sanitizeToken(v);
+    }
+    ret.frame = frameCounter;
+    return ret;
+}
+
+function renderText(text: string, values: {[token: string]: string}) {
+    return text.replace(/\{([a-zA-Z]*)\}/g, (m, token)=>hasKey(values, token) ? values[token] : m);
+}
+
+// Empty tokens must not leave doubled or dangling separators
+function cleanName(name: string) {
+    return name.replace(/_{2,}/g, '_').replace(/^_+|_+$/g, '');
+}
+
+// Directory (relative, may be empty) and indi prefix of a frame
+export function renderFileNaming(template: FileNamingTemplate, context: FileNamingContext): {directory: string, prefix: string} {
+    const values = tokenValues(context);
+    const directory = renderText(template.directory, values)
+                        .split('/')
+                        .map(cleanName)
+                        .filter(e=>e.length > 0)
+                        .join('/');
+    let prefix = cleanName(renderText(template.file, values));
+    if (prefix.indexOf(frameCounter) === -1) {
+        // Don't overwrite the previous frame
+        prefix = (prefix.length ? prefix + '_' : '') + frameCounter;
+    }
+    return {directory, prefix};
+}
+
+// Returns an error for an invalid template
+export function checkFileNamingTemplate(template: any): string|null {
+    if (!isObject(template) || typeof template.directory !== "string" || typeof template.file !== "string") {
+        return "File naming must have a directory and a file template";
+    }
+    for(const text of [template.directory, template.file]) {
+        const re = /\{([^}]*)\}/g;
+        let m;
+        while((m = re.exec(text)) !== null) {
+            if (fileNamingTokens.indexOf(m[1]) === -1) {
+                return "Unknown token: " + m[0];
+            }
+        }
+    }
+    if (template.file.indexOf('/') !== -1) {
+        return "File template can't contain /";
+    }
+    if (template.directory.split('/').some((e: string)=>e === '..')) {
+        return "Directory template can't contain ..";
+    }
+    return null;
+}
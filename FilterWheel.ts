@@ -238,8 +238,55 @@ export default class FilterWheel
         return driver === "indi_manual_wheel";
     }
 
+    // Current filter of the filter wheel of the camera, if known
+    public getCameraFilter(cameraId: string): string|null {
+        const fwId = Obj.getOwnProp(this.context.camera.currentStatus.dynStateByDevices, cameraId)?.filterWheelDevice;
+        if (!fwId || !Obj.hasKey(this.currentStatus.dynStateByDevices, fwId)) {
+            return null;
+        }
+        return this.getFilterIdAt(fwId, this.currentStatus.dynStateByDevices[fwId].currentFilterPos);
+    }
+
+    private getFilterIdAt(fwId: string, filterPos: number|null): string|null {
+        if (filterPos === null) {
+            return null;
+        }
+        const filterIds = this.currentStatus.dynStateByDevices[fwId].filterIds;
+        return (filterPos >= 1 && filterPos <= filterIds.length) ? filterIds[filterPos - 1] : null;
+    }
+
+    // The focuser of the camera, or the only one used with that filter wheel
+    private getFocuserForFilterWheel(fwId: string, cameraDeviceId?: string): string|null {
+        const camStatus = this.context.camera.currentStatus;
+        if (cameraDeviceId !== undefined) {
+            return hasKey(camStatus.dynStateByDevices, cameraDeviceId)
+                ? camStatus.dynStateByDevices[cameraDeviceId].focuserDevice || null
+                : null;
+        }
+        const focusers: string[] = [];
+        for(const camId of Object.keys(camStatus.dynStateByDevices)) {
+            const dynState = camStatus.dynStateByDevices[camId];
+            if (dynState.filterWheelDevice === fwId && dynState.focuserDevice && focusers.indexOf(dynState.focuserDevice) === -1) {
+                focusers.push(dynState.focuserDevice);
+            }
+        }
+        return focusers.length === 1 ? focusers[0] : null;
+    }
+
+    private async applyFocusOffset(ct: CancellationToken, fwId: string, cameraDeviceId: string|undefined, previousFilter: string|null, filterPos: number) {
+        const newFilter = this.getFilterIdAt(fwId, filterPos);
+        if (previousFilter === null || newFilter === null) {
+            return;
+        }
+        const focuserId = this.getFocuserForFilterWheel(fwId, cameraDeviceId);
+        if (focuserId === null) {
+            return;
+        }
+        await this.context.focuser.applyFilterOffset(ct, focuserId, fwId, previousFilter, newFilter);
+    }
+
     // Operation can be canceled by user
-    changeFilter= async(ct:CancellationToken, payload: {cameraDeviceId?: string, filterWheelDeviceId?: string, filterNumber?: number, filterId?: string, force?: boolean})=>{
+    changeFilter= async(ct:CancellationToken, payload: {cameraDeviceId?: string, filterWheelDeviceId?: string, filterNumber?: number, filterId?: string, force?: boolean, skipFocusOffset?: boolean})=>{
         let filterWheelDeviceId:string;
         if (payload.filterWheelDeviceId === undefined) {
             if (payload.cameraDeviceId === undefined) {
@@ -293,6 +340,7 @@ export default class FilterWheel
         if ((filterPos = checkFilterWheel()) === undefined) {
             return false;
         }
+        const previousFilter = this.getFilterIdAt(filterWheelDeviceId, this.currentStatus.dynStateByDevices[filterWheelDeviceId].currentFilterPos);
         let confirmed: boolean;
         if (this.needConfirmation(filterWheelDeviceId)) {
             const manualDriver = this.isManualFilterIndiDriver(filterWheelDeviceId);
@@ -328,6 +376,9 @@ export default class FilterWheel
                     false
                     // FIXME: cancelator
                 );
+                if (!payload.skipFocusOffset) {
+                    await this.applyFocusOffset(ct, filterWheelDeviceId, payload.cameraDeviceId, previousFilter, filterPos);
+                }
                 return true;
             }
 
@@ -352,6 +403,9 @@ export default class FilterWheel
         } finally {
             this.currentStatus.dynStateByDevices[filterWheelDeviceId].targetFilterPos = null;
         }
+        if (!payload.skipFocusOffset) {
+            await this.applyFocusOffset(ct, filterWheelDeviceId, payload.cameraDeviceId, previousFilter, filterPos);
+        }
         return true;
     }
 
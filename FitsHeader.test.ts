@@ -0,0 +1,94 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { formatCard, formatHeader, parseHeaderCards, setHeaderCards, updateImageHeader } from "./FitsHeader";
+
+function minimalFits(extraCards: number, data: Buffer): Buffer {
+    const cards = [
+        formatCard({key: "SIMPLE", value: true}),
+        formatCard({key: "BITPIX", value: 8}),
+        formatCard({key: "NAXIS", value: 1}),
+        formatCard({key: "NAXIS1", value: data.length}),
+    ];
+    for(let i = 0; i < extraCards; ++i) {
+        cards.push(formatCard({key: "KEY" + i, value: i}));
+    }
+    const padded = Buffer.alloc(Math.ceil(data.length / 2880) * 2880);
+    data.copy(padded);
+    return Buffer.concat([formatHeader(cards), padded]);
+}
+
+describe("FitsHeader", () => {
+    it("Formats cards", () => {
+        assert.equal(formatCard({key: "object", value: "M31"}), "OBJECT  = 'M31     '".padEnd(80));
+        assert.equal(formatCard({key: "FOCUSPOS", value: 12345, comment: "steps"}), "FOCUSPOS=                12345 / steps".padEnd(80));
+        assert.equal(formatCard({key: "FWHM", value: 2.5}).substr(10, 20), "2.5".padStart(20));
+        assert.equal(formatCard({key: "TINY", value: 1e-9}).substr(10, 20), "1E-9".padStart(20));
+        assert.equal(formatCard({key: "SIMPLE", value: true}).substr(10, 20), "T".padStart(20));
+        assert.equal(formatCard({key: "OBJECT", value: "L'Ane"}).substr(10, 10), "'L''Ane  '");
+        expect(()=>formatCard({key: "TOOLONGKEY", value: 1})).to.throw("Invalid FITS keyword: TOOLONGKEY");
+    });
+
+    it("Replaces and appends cards", () => {
+        const header = formatHeader([formatCard({key: "SIMPLE", value: true}), formatCard({key: "FILTER", value: "L"})]);
+        assert.equal(header.length, 2880);
+        const cards = parseHeaderCards(header)!;
+        assert.equal(cards.length, 2);
+        const updated = setHeaderCards(cards, [{key: "FILTER", value: "Ha"}, {key: "OBJECT", value: "M42"}]);
+        assert.deepEqual(updated.map(c=>c.substr(0, 8).trim()), ["SIMPLE", "FILTER", "OBJECT"]);
+        assert.equal(updated[1].substr(10, 10), "'Ha      '");
+        assert.isNull(parseHeaderCards(Buffer.from("SIMPLE  =".padEnd(160))));
+    });
+
+    it("Updates files", async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "fitsheader-"));
+        try {
+            const data = Buffer.from("0123456789");
+
+            // Room left in the first block
+            const small = path.join(dir, "small.fits");
+            fs.writeFileSync(small, minimalFits(0, data));
+            await updateImageHeader(small, [{key: "OBJECT", value: "M31"}]);
+            let content = fs.readFileSync(small);
+            assert.equal(content.length, 2 * 2880);
+            assert.deepEqual(parseHeaderCards(content)!.map(c=>c.substr(0, 8).trim()), ["SIMPLE", "BITPIX", "NAXIS", "NAXIS1", "OBJECT"]);
+            assert.equal(content.toString('latin1', 2880, 2890), "0123456789");
+
+            // Full header: the data are moved
+            const full = path.join(dir, "full.fits");
+            fs.writeFileSync(full, minimalFits(31, data));
+            await updateImageHeader(full, [{key: "OBJECT", value: "M31"}]);
+            content = fs.readFileSync(full);
+            assert.equal(content.length, 3 * 2880);
+            assert.equal(parseHeaderCards(content)!.length, 36);
+            assert.equal(content.toString('latin1', 2 * 2880, 2 * 2880 + 10), "0123456789");
+            assert.isFalse(fs.existsSync(full + ".tmp"));
+
+            // Other formats use a sidecar
+            const raw = path.join(dir, "image.cr2");
+            fs.writeFileSync(raw, data);
+            await updateImageHeader(raw, [{key: "OBJECT", value: "M31"}]);
+            await updateImageHeader(raw, [{key: "FWHM", value: 2.5}]);
+            assert.deepEqual(JSON.parse(fs.readFileSync(raw + ".json", "utf8")), {OBJECT: "M31", FWHM: 2.5});
+            assert.equal(fs.readFileSync(raw).toString(), "0123456789");
+
+            const broken = path.join(dir, "broken.fits");
+            fs.writeFileSync(broken, data);
+            let error;
+            try {
+                await updateImageHeader(broken, [{key: "OBJECT", value: "M31"}]);
+            } catch(e) {
+                error = e;
+            }
+            assert.equal(error && error.message, "Invalid FITS header");
+        } finally {
+            for(const f of fs.readdirSync(dir)) {
+                fs.unlinkSync(path.join(dir, f));
+            }
+            fs.rmdirSync(dir);
+        }
+    });
+});
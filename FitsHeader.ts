@@ -0,0 +1,164 @@
+import fs from 'fs';
+import path from 'path';
+
+export type FitsHeaderValue = string|number|boolean;
+
+export type FitsHeaderEntry = {
+    key: string;
+    value: FitsHeaderValue;
+    comment?: string;
+};
+
+const cardLength = 80;
+const blockLength = 2880;
+// Don't read a whole image when the header is broken
+const maxHeaderBlocks = 100;
+
+function formatValue(value: FitsHeaderValue): string {
+    if (typeof value === "boolean") {
+        return (value ? "T" : "F").padStart(20);
+    }
+    if (typeof value === "number") {
+        if (!isFinite(value)) {
+            throw new Error("Invalid FITS value: " + value);
+        }
+        const str = Number.isInteger(value) ? "" + value : ("" + parseFloat(value.toPrecision(12))).toUpperCase();
+        return str.padStart(20);
+    }
+    // Fixed format: at least 8 chars between quotes
+    return ("'" + value.replace(/'/g, "''").padEnd(8) + "'").padEnd(20);
+}
+
+// Ascii only, 80 chars
+export function formatCard(entry: FitsHeaderEntry): string {
+    const key = entry.key.toUpperCase();
+    if (!/^[A-Z0-9_-]{1,8}$/.test(key)) {
+        throw new Error("Invalid FITS keyword: " + entry.key);
+    }
+    let card = key.padEnd(8) + "= " + formatValue(entry.value);
+    if (entry.comment) {
+        card += " / " + entry.comment;
+    }
+    return card.replace(/[^\x20-\x7e]/g, '?').substr(0, cardLength).padEnd(cardLength);
+}
+
+function cardKey(card: string) {
+    return card.substr(0, 8).trim();
+}
+
+// Cards of the header, up to END (excluded). null if the header is not complete
+export function parseHeaderCards(header: Buffer): string[]|null {
+    const cards: string[] = [];
+    for(let offset = 0; offset + cardLength <= header.length; offset += cardLength) {
+        const card = header.toString('latin1', offset, offset + cardLength);
+        if (cardKey(card) === "END") {
+            return cards;
+        }
+        cards.push(card);
+    }
+    return null;
+}
+
+// Replace the existing cards of the same keyword, append the others
+export function setHeaderCards(cards: string[], entries: FitsHeaderEntry[]): string[] {
+    const ret = [...cards];
+    for(const entry of entries) {
+        const card = formatCard(entry);
+        const pos = ret.findIndex(c=>cardKey(c) === cardKey(card));
+        if (pos === -1) {
+            ret.push(card);
+        } else {
+            ret[pos] = card;
+        }
+    }
+    return ret;
+}
+
+// Header ready to be written: END and padding to a full block
+export function formatHeader(cards: string[]): Buffer {
+    const text = [...cards, "END".padEnd(cardLength)].join('');
+    const length = Math.ceil(text.length / blockLength) * blockLength;
+    return Buffer.from(text.padEnd(length), 'latin1');
+}
+
+export function isFitsPath(filePath: string) {
+    return ['.fits', '.fit', '.fts'].indexOf(path.extname(filePath).toLowerCase()) !== -1;
+}
+
+async function readHeader(fd: fs.promises.FileHandle): Promise<{cards: string[], length: number}> {
+    for(let blocks = 1; blocks <= maxHeaderBlocks; ++blocks) {
+        const buffer = Buffer.alloc(blocks * blockLength);
+        const {bytesRead} = await fd.read(buffer, 0, buffer.length, 0);
+        if (bytesRead < buffer.length) {
+            break;
+        }
+        if (blocks === 1 && buffer.toString('latin1', 0, 9) !== "SIMPLE  =") {
+            break;
+        }
+        const cards = parseHeaderCards(buffer);
+        if (cards !== null) {
+            return {cards, length: buffer.length};
+        }
+    }
+    throw new Error("Invalid FITS header");
+}
+
+// Update the primary header. The data are moved only if the header needs more blocks
+export async function updateFitsHeader(filePath: string, entries: FitsHeaderEntry[]) {
+    const fd = await fs.promises.open(filePath, 'r+');
+    let newHeader: Buffer;
+    let oldLength: number;
+    try {
+        const header = await readHeader(fd);
+        oldLength = header.length;
+        newHeader = formatHeader(setHeaderCards(header.cards, entries));
+        if (newHeader.length === oldLength) {
+            await fd.write(newHeader, 0, newHeader.length, 0);
+            return;
+        }
+    } finally {
+        await fd.close();
+    }
+
+    const tmpPath = filePath + ".tmp";
+    try {
+        await fs.promises.writeFile(tmpPath, newHeader);
+        await new Promise<void>((resolve, reject)=> {
+            const input = fs.createReadStream(filePath, {start: oldLength});
+            const output = fs.createWriteStream(tmpPath, {flags: 'a'});
+            input.on('error', reject);
+            output.on('error', reject);
+            output.on('finish', resolve);
+            input.pipe(output);
+        });
+        await fs.promises.rename(tmpPath, filePath);
+    } catch(e) {
+        await fs.promises.unlink(tmpPath).catch(()=>{});
+        throw e;
+    }
+}
+
+// For files that are not FITS (raw of DSLR, ...): values are merged into <file>.json
+export async function updateSidecar(filePath: string, entries: FitsHeaderEntry[]) {
+    const sidecarPath = filePath + ".json";
+    let content: {[key: string]: FitsHeaderValue} = {};
+    try {
+        content = JSON.parse(await fs.promises.readFile(sidecarPath, 'utf8'));
+    } catch(e) {
+        if (e.code !== 'ENOENT') {
+            throw e;
+        }
+    }
+    for(const entry of entries) {
+        content[entry.key.toUpperCase()] = entry.value;
+    }
+    await fs.promises.writeFile(sidecarPath, JSON.stringify(content, null, 2));
+}
+
+export async function updateImageHeader(filePath: string, entries: FitsHeaderEntry[]) {
+    if (isFitsPath(filePath)) {
+        await updateFitsHeader(filePath, entries);
+    } else {
+        await updateSidecar(filePath, entries);
+    }
+}
@@ -0,0 +1,32 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+
+import { checkAutoFlat, defaultAutoFlat, flatExposureKey, isFlatLevelGood, nextFlatExposure } from "./FlatLogic";
+
+describe("FlatLogic", () => {
+    it("Converges to the target level", () => {
+        const settings = {...defaultAutoFlat, targetAdu: 30000, tolerance: 2000};
+        assert.isFalse(isFlatLevelGood(15000, settings));
+        assert.isTrue(isFlatLevelGood(31500, settings));
+        assert.equal(nextFlatExposure(1, 15000, settings), 2);
+        assert.equal(nextFlatExposure(2, 40000, settings), 1.5);
+        // Saturated or black frames are not trusted for more than a factor 10
+        assert.equal(nextFlatExposure(1, 65535, settings), 0.458);
+        assert.equal(nextFlatExposure(1, 0, settings), 10);
+    });
+
+    it("Stays within the exposure range", () => {
+        const settings = {...defaultAutoFlat, minExposure: 0.1, maxExposure: 5};
+        assert.equal(nextFlatExposure(2, 3000, settings), 5);
+        expect(()=>nextFlatExposure(5, 3000, settings)).to.throw("Flat too dark: 3000 ADU at the max exposure (5s)");
+        expect(()=>nextFlatExposure(0.1, 65000, settings)).to.throw("Flat too bright: 65000 ADU at the min exposure (0.1s)");
+    });
+
+    it("Keys and settings", () => {
+        assert.equal(flatExposureKey("Ha", 2), "Ha/bin2");
+        assert.equal(flatExposureKey(null, undefined), "none/bin1");
+        assert.isNull(checkAutoFlat(defaultAutoFlat));
+        assert.equal(checkAutoFlat({...defaultAutoFlat, maxExposure: 0.001}), "Max exposure must not be below min exposure");
+        assert.equal(checkAutoFlat({...defaultAutoFlat, maxIterations: 0}), "Max iterations must be a positive integer");
+    });
+});
@@ -0,0 +1,55 @@
+import { SequenceAutoFlat } from './shared/BackOfficeStatus';
+
+export const defaultAutoFlat: SequenceAutoFlat = {
+    targetAdu: 30000,
+    tolerance: 3000,
+    minExposure: 0.01,
+    maxExposure: 30,
+    maxIterations: 8,
+};
+
+// Exposure used for the first test frame when nothing is known
+export const initialFlatExposure = 1;
+
+// Key of the remembered exposures
+export function flatExposureKey(filter: string|null|undefined, bin: number|undefined) {
+    return (filter ? filter : "none") + "/bin" + (bin ? bin : 1);
+}
+
+export function isFlatLevelGood(adu: number, settings: SequenceAutoFlat) {
+    return Math.abs(adu - settings.targetAdu) <= settings.tolerance;
+}
+
+// Next exposure to reach the target, assuming a linear response. Throws when the range does not allow it
+export function nextFlatExposure(exposure: number, adu: number, settings: SequenceAutoFlat): number {
+    // Don't trust a black or saturated frame for more than a factor 10
+    const ratio = Math.min(Math.max(settings.targetAdu / Math.max(adu, 1), 0.1), 10);
+    // Drivers don't need more than the ms
+    const wanted = Math.min(Math.max(Math.round(exposure * ratio * 1000) / 1000, settings.minExposure), settings.maxExposure);
+    if (wanted === exposure) {
+        throw new Error(adu < settings.targetAdu
+                ? "Flat too dark: " + Math.round(adu) + " ADU at the max exposure (" + exposure + "s)"
+                : "Flat too bright: " + Math.round(adu) + " ADU at the min exposure (" + exposure + "s)");
+    }
+    return wanted;
+}
+
+// Returns an error for invalid settings
+export function checkAutoFlat(settings: SequenceAutoFlat): string|null {
+    if (!(settings.targetAdu > 0 && settings.targetAdu < 65536)) {
+        return "Target ADU must be between 0 and 65535";
+    }
+    if (!(settings.tolerance > 0)) {
+        return "Tolerance must be positive";
+    }
+    if (!(settings.minExposure > 0)) {
+        return "Min exposure must be positive";
+    }
+    if (!(settings.maxExposure >= settings.minExposure)) {
+        return "Max exposure must not be below min exposure";
+    }
+    if (!(settings.maxIterations >= 1 && Math.floor(settings.maxIterations) === settings.maxIterations)) {
+        return "Max iterations must be a positive integer";
+    }
+    return null;
+}
@@ -0,0 +1,82 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+
+import { AutoFocusRun } from "./shared/BackOfficeStatus";
+import { focusRunsToCsv, focusRunsToPrune, focusRunSummary, focusTemperatureSamples } from "./FocusHistory";
+
+function run(time: number, changes: Partial<AutoFocusRun> = {}): AutoFocusRun {
+    return {
+        time,
+        camera: "CCD Simulator",
+        focuser: "Focuser Simulator",
+        filter: "L",
+        filterOffset: 0,
+        temperature: 10,
+        status: "done",
+        error: null,
+        firstStep: 4000,
+        lastStep: 6000,
+        points: {
+            "4000": {fwhm: 4, hfr: 2.1},
+            "5000": {fwhm: 2, hfr: 1.2},
+            "6000": {fwhm: 4.5, hfr: null},
+        },
+        model: {
+            type: "hyperbola",
+            metric: "fwhm",
+            params: [2, 0.5, 0],
+            origin: 5000,
+            scale: 1000,
+            rSquared: 0.98,
+            bestPosition: 5000,
+            rejected: [6000],
+        },
+        position: 5000,
+        finalFwhm: 2.1,
+        ...changes,
+    };
+}
+
+describe("FocusHistory", () => {
+    it("Prunes the oldest runs", () => {
+        const history = {a: run(3), b: run(1), c: run(2)};
+        assert.deepEqual(focusRunsToPrune(history, 2), ["b"]);
+        assert.deepEqual(focusRunsToPrune(history, 5), []);
+    });
+
+    it("Summarizes runs", () => {
+        const summary = focusRunSummary("a", run(1));
+        assert.equal(summary.id, "a");
+        assert.equal(summary.rSquared, 0.98);
+        assert.isFalse("points" in summary);
+        assert.isNull(focusRunSummary("b", run(1, {model: null})).rSquared);
+    });
+
+    it("Gives temperature samples of successful runs", () => {
+        const history = {
+            a: run(2, {temperature: 8, position: 5040, filterOffset: 40}),
+            b: run(1),
+            c: run(3, {status: "error", position: null}),
+            d: run(4, {temperature: null}),
+            e: run(5, {focuser: "Other"}),
+        };
+        assert.deepEqual(focusTemperatureSamples(history, "Focuser Simulator"), [
+            {time: 1, temperature: 10, position: 5000, offset: 0},
+            {time: 2, temperature: 8, position: 5040, offset: 40},
+        ]);
+    });
+
+    it("Exports CSV", () => {
+        const csv = focusRunsToCsv([
+            {id: "a", run: run(0, {filter: "H,a"})},
+            {id: "b", run: run(0, {status: "error", error: "failed", points: {}, model: null, position: null, finalFwhm: null})},
+        ]);
+        const lines = csv.split("\n");
+        assert.equal(lines[0], "run,time,camera,focuser,filter,temperature,status,model,metric,rSquared,position,finalFwhm,step,fwhm,hfr,rejected");
+        assert.equal(lines[1], 'a,1970-01-01T00:00:00.000Z,CCD Simulator,Focuser Simulator,"H,a",10,done,hyperbola,fwhm,0.98,5000,2.1,4000,4,2.1,false');
+        assert.equal(lines[3], 'a,1970-01-01T00:00:00.000Z,CCD Simulator,Focuser Simulator,"H,a",10,done,hyperbola,fwhm,0.98,5000,2.1,6000,4.5,,true');
+        assert.equal(lines[4], 'b,1970-01-01T00:00:00.000Z,CCD Simulator,Focuser Simulator,L,10,error,,,,,,,,,');
+        assert.equal(lines.length, 6);
+        expect(lines[5]).to.equal("");
+    });
+});
@@ -0,0 +1,86 @@
+import { AutoFocusRun } from './shared/BackOfficeStatus';
+import { FocusRunSummary } from './shared/BackOfficeAPI';
+import { FocusTemperatureSample } from './FocusTemperature';
+
+// Runs kept in the history. The oldest are dropped
+export const maxFocusRuns = 200;
+
+// Ids of the runs to drop so that at most max runs remain
+export function focusRunsToPrune(history: {[id: string]: AutoFocusRun}, max: number): string[] {
+    const ids = Object.keys(history).sort((a, b)=>history[a].time - history[b].time);
+    return ids.slice(0, Math.max(0, ids.length - max));
+}
+
+export function focusRunSummary(id: string, run: AutoFocusRun): FocusRunSummary {
+    const {points, model, ...summary} = run;
+    return {
+        ...summary,
+        id,
+        rSquared: model !== null ? model.rSquared : null,
+    };
+}
+
+// Successful runs of the focuser with a known temperature
+export function focusTemperatureSamples(history: {[id: string]: AutoFocusRun}, focuser: string): FocusTemperatureSample[] {
+    const ret: FocusTemperatureSample[] = [];
+    for(const id of Object.keys(history)) {
+        const run = history[id];
+        if (run.focuser !== focuser || run.status !== "done" || run.position === null || run.temperature === null) {
+            continue;
+        }
+        ret.push({
+            time: run.time,
+            temperature: run.temperature,
+            position: run.position,
+            offset: run.filterOffset,
+        });
+    }
+    return ret.sort((a, b)=>a.time - b.time);
+}
+
+const csvColumns = [
+    "run", "time", "camera", "focuser", "filter", "temperature", "status", "model", "metric", "rSquared",
+    "position", "finalFwhm", "step", "fwhm", "hfr", "rejected",
+];
+
+function csvField(value: string|number|boolean|null): string {
+    if (value === null) {
+        return "";
+    }
+    const str = "" + value;
+    if (/[",\n\r]/.test(str)) {
+        return '"' + str.replace(/"/g, '""') + '"';
+    }
+    return str;
+}
+
+// One line per measure of the runs. Runs without measures get one line
+export function focusRunsToCsv(runs: Array<{id: string, run: AutoFocusRun}>): string {
+    const lines = [csvColumns.join(",")];
+    for(const {id, run} of runs) {
+        const common = [
+            id,
+            new Date(run.time).toISOString(),
+            run.camera,
+            run.focuser,
+            run.filter,
+            run.temperature,
+            run.status,
+            run.model !== null ? run.model.type : null,
+            run.model !== null ? run.model.metric : null,
+            run.model !== null ? run.model.rSquared : null,
+            run.position,
+            run.finalFwhm,
+        ];
+        const steps = Object.keys(run.points).sort((a, b)=>parseFloat(a) - parseFloat(b));
+        if (!steps.length) {
+            lines.push([...common, null, null, null, null].map(csvField).join(","));
+        }
+        for(const step of steps) {
+            const point = run.points[step];
+            const rejected = run.model !== null && run.model.rejected.indexOf(parseFloat(step)) !== -1;
+            lines.push([...common, parseFloat(step), point.fwhm, point.hfr, rejected].map(csvField).join(","));
+        }
+    }
+    return lines.join("\n") + "\n";
+}
@@ -0,0 +1,72 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+
+import { checkFocusFitSettings, checkFocusModel, defaultFocusFitSettings, fitFocusCurve, FocusPoint, predictFocus } from "./FocusModel";
+
+function hyperbola(a: number, b: number, c: number, positions: number[]): FocusPoint[] {
+    return positions.map(position=>({position, value: a * Math.sqrt(1 + Math.pow((position - c) / b, 2))}));
+}
+
+const positions = [4000, 4200, 4400, 4600, 4800, 5000, 5200, 5400, 5600];
+
+describe("FocusModel", () => {
+    it("Fits a hyperbola", () => {
+        const points = hyperbola(2, 300, 4730, positions);
+        const model = fitFocusCurve("hyperbola", "fwhm", points, 3);
+        assert.closeTo(model.bestPosition, 4730, 1);
+        assert.closeTo(model.rSquared, 1, 1e-6);
+        assert.deepEqual(model.rejected, []);
+        assert.closeTo(predictFocus(model, 4730), 2, 1e-3);
+        assert.closeTo(predictFocus(model, 5600), points[8].value, 1e-3);
+        assert.isNull(checkFocusModel(model, points, 0.8));
+    });
+
+    it("Fits asymmetric ranges better than a polynomial", () => {
+        // Focus near one end of the scan
+        const points = hyperbola(2, 200, 4250, positions);
+        const hyperbolaModel = fitFocusCurve("hyperbola", "fwhm", points, 0);
+        const polynomialModel = fitFocusCurve("polynomial", "fwhm", points, 0);
+        assert.closeTo(hyperbolaModel.bestPosition, 4250, 1);
+        assert.isAbove(Math.abs(polynomialModel.bestPosition - 4250), Math.abs(hyperbolaModel.bestPosition - 4250));
+    });
+
+    it("Fits a parabola", () => {
+        const points = positions.map(position=>({position, value: 3 + Math.pow((position - 4900) / 500, 2)}));
+        const model = fitFocusCurve("parabola", "hfr", points, 3);
+        assert.equal(model.metric, "hfr");
+        assert.closeTo(model.bestPosition, 4900, 1e-6);
+        assert.closeTo(predictFocus(model, 4400), 4, 1e-9);
+    });
+
+    it("Rejects outliers", () => {
+        const points = hyperbola(2, 300, 4730, positions);
+        points[2] = {...points[2], value: points[2].value + 3};
+        const kept = fitFocusCurve("hyperbola", "fwhm", points, 0);
+        assert.isAbove(Math.abs(kept.bestPosition - 4730), 5);
+
+        const model = fitFocusCurve("hyperbola", "fwhm", points, 3);
+        assert.deepEqual(model.rejected, [4400]);
+        assert.closeTo(model.bestPosition, 4730, 1);
+    });
+
+    it("Refuses bad fits", () => {
+        const noisy = positions.map((position, i)=>({position, value: 3 + (i % 2 ? 1 : -1)}));
+        const model = fitFocusCurve("polynomial", "fwhm", noisy, 0);
+        expect(checkFocusModel(model, noisy, 0.8)).to.match(/^Bad focus curve fit: R² is/);
+
+        // Still decreasing at the end of the scan
+        const outside = hyperbola(2, 300, 6000, positions);
+        const outsideModel = fitFocusCurve("hyperbola", "fwhm", outside, 3);
+        expect(checkFocusModel(outsideModel, outside, 0.8)).to.equal("Best focus position (6000) is outside of the scanned range");
+
+        const decreasing = positions.map(position=>({position, value: 10 - position / 1000}));
+        expect(()=>fitFocusCurve("parabola", "fwhm", decreasing, 3)).to.throw("Unable to fit a parabola: the curve has no minimum");
+        expect(()=>fitFocusCurve("polynomial", "fwhm", decreasing.slice(0, 4), 3)).to.throw("Not enough data for focus");
+    });
+
+    it("Checks settings", () => {
+        checkFocusFitSettings(defaultFocusFitSettings);
+        expect(()=>checkFocusFitSettings({...defaultFocusFitSettings, model: "spline" as any})).to.throw("Invalid focus model: spline");
+        expect(()=>checkFocusFitSettings({...defaultFocusFitSettings, outlierSigma: -1})).to.throw("Invalid outlier rejection: -1");
+    });
+});
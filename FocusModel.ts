@@ -0,0 +1,293 @@
+const PolynomialRegression = require('ml-regression-polynomial');
+import { FocusCurveModel, FocusMetric, FocusModelType, FocuserSettings } from './shared/BackOfficeStatus';
+
+export type FocusPoint = {
+    position: number;
+    value: number;
+};
+
+export type FocusFitSettings = Pick<FocuserSettings, "model"|"metric"|"outlierSigma"|"minRSquared">;
+
+export const defaultFocusFitSettings: FocusFitSettings = {
+    model: "hyperbola",
+    metric: "fwhm",
+    outlierSigma: 3,
+    minRSquared: 0.8,
+};
+
+const polynomialDegree = 4;
+// Sampling of the polynomial when looking for its minimum
+const polynomialPrecision = 128;
+
+function paramCount(type: FocusModelType) {
+    return type === "polynomial" ? polynomialDegree + 1 : 3;
+}
+
+function polynomialValue(coefficients: number[], u: number) {
+    let ret = 0;
+    for(let i = coefficients.length - 1; i >= 0; --i) {
+        ret = ret * u + coefficients[i];
+    }
+    return ret;
+}
+
+function hyperbolaValue(params: number[], u: number) {
+    const [a, b, c] = params;
+    const w = (u - c) / b;
+    return a * Math.sqrt(1 + w * w);
+}
+
+export function predictFocus(model: Pick<FocusCurveModel, "type"|"params"|"origin"|"scale">, position: number): number {
+    const u = (position - model.origin) / model.scale;
+    if (model.type === "hyperbola") {
+        return hyperbolaValue(model.params, u);
+    }
+    return polynomialValue(model.params, u);
+}
+
+function polynomialFit(us: number[], ys: number[], degree: number): number[] {
+    return new PolynomialRegression(us, ys, degree).coefficients;
+}
+
+function sumOfSquares(params: number[], us: number[], ys: number[]) {
+    let ret = 0;
+    for(let i = 0; i < us.length; ++i) {
+        const r = ys[i] - hyperbolaValue(params, us[i]);
+        ret += r * r;
+    }
+    return ret;
+}
+
+// Gaussian elimination with partial pivoting. null if singular
+function solveLinear(m: number[][], v: number[]): number[]|null {
+    const n = v.length;
+    const a = m.map((row, i)=>[...row, v[i]]);
+    for(let col = 0; col < n; ++col) {
+        let pivot = col;
+        for(let row = col + 1; row < n; ++row) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) {
+                pivot = row;
+            }
+        }
+        if (Math.abs(a[pivot][col]) < 1e-300) {
+            return null;
+        }
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+        for(let row = col + 1; row < n; ++row) {
+            const f = a[row][col] / a[col][col];
+            for(let k = col; k <= n; ++k) {
+                a[row][k] -= f * a[col][k];
+            }
+        }
+    }
+    const ret = new Array<number>(n);
+    for(let row = n - 1; row >= 0; --row) {
+        let s = a[row][n];
+        for(let k = row + 1; k < n; ++k) {
+            s -= a[row][k] * ret[k];
+        }
+        ret[row] = s / a[row][row];
+    }
+    return ret;
+}
+
+// y² = a² + (a/b)²(u - c)² is a parabola: it gives the starting point of a Levenberg-Marquardt refinement
+function hyperbolaFit(us: number[], ys: number[]): number[]|null {
+    const [k0, k1, k2] = polynomialFit(us, ys.map(y=>y * y), 2);
+    if (!(k2 > 0)) {
+        return null;
+    }
+    const c = -k1 / (2 * k2);
+    let a2 = k0 - k1 * k1 / (4 * k2);
+    if (!(a2 > 0)) {
+        // Very sharp V: start from the lowest point
+        a2 = Math.pow(Math.min(...ys), 2);
+    }
+    const a = Math.sqrt(a2);
+    let params = [a, a / Math.sqrt(k2), c];
+
+    let lambda = 1e-3;
+    let sse = sumOfSquares(params, us, ys);
+    for(let iter = 0; iter < 100 && lambda < 1e10; ++iter) {
+        const jtj = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+        const jtr = [0, 0, 0];
+        const [pa, pb, pc] = params;
+        for(let i = 0; i < us.length; ++i) {
+            const w = (us[i] - pc) / pb;
+            const s = Math.sqrt(1 + w * w);
+            const r = ys[i] - pa * s;
+            const j = [s, -pa * w * w / (pb * s), -pa * w / (pb * s)];
+            for(let p = 0; p < 3; ++p) {
+                jtr[p] += j[p] * r;
+                for(let q = 0; q < 3; ++q) {
+                    jtj[p][q] += j[p] * j[q];
+                }
+            }
+        }
+        const damped = jtj.map((row, p)=>row.map((v, q)=>(p === q ? v * (1 + lambda) : v)));
+        const delta = solveLinear(damped, jtr);
+        if (delta === null) {
+            break;
+        }
+        const candidate = params.map((v, p)=>v + delta[p]);
+        const candidateSse = sumOfSquares(candidate, us, ys);
+        if (candidate[0] > 0 && candidate[1] !== 0 && candidateSse < sse) {
+            const converged = sse - candidateSse < 1e-12 * sse;
+            params = candidate;
+            sse = candidateSse;
+            lambda /= 10;
+            if (converged) {
+                break;
+            }
+        } else {
+            lambda *= 10;
+        }
+    }
+    return [params[0], Math.abs(params[1]), params[2]];
+}
+
+function fitParams(type: FocusModelType, us: number[], ys: number[]): number[]|null {
+    switch(type) {
+        case "hyperbola":
+            return hyperbolaFit(us, ys);
+        case "parabola":
+        {
+            const ret = polynomialFit(us, ys, 2);
+            return ret[2] > 0 ? ret : null;
+        }
+        case "polynomial":
+            return polynomialFit(us, ys, polynomialDegree);
+    }
+    throw new Error("Unsupported focus model: " + type);
+}
+
+function median(values: number[]) {
+    const sorted = [...values].sort((a, b)=>a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function bestPosition(type: FocusModelType, params: number[], origin: number, scale: number): number {
+    if (type === "hyperbola") {
+        return origin + params[2] * scale;
+    }
+    if (type === "parabola") {
+        return origin - params[1] / (2 * params[2]) * scale;
+    }
+    // Scan the scanned range, like the former implementation
+    let best = -1;
+    let bestValue = 0;
+    for(let i = 0; i <= polynomialPrecision; ++i) {
+        const u = -1 + 2 * i / polynomialPrecision;
+        const v = polynomialValue(params, u);
+        if (i === 0 || v < bestValue) {
+            best = u;
+            bestValue = v;
+        }
+    }
+    return origin + best * scale;
+}
+
+// Fit the model, excluding the worst point while its residual is above outlierSigma robust sigmas
+export function fitFocusCurve(type: FocusModelType, metric: FocusMetric, points: FocusPoint[], outlierSigma: number): FocusCurveModel {
+    const minPoints = paramCount(type) + 1;
+    if (points.length < minPoints) {
+        throw new Error("Not enough data for focus");
+    }
+    const positions = points.map(p=>p.position);
+    const low = Math.min(...positions);
+    const high = Math.max(...positions);
+    const origin = (low + high) / 2;
+    const scale = high > low ? (high - low) / 2 : 1;
+
+    let kept = [...points];
+    const rejected: number[] = [];
+    const maxRejected = Math.floor(points.length / 3);
+    let params: number[];
+    while(true) {
+        const us = kept.map(p=>(p.position - origin) / scale);
+        const ys = kept.map(p=>p.value);
+        const fitted = fitParams(type, us, ys);
+        if (fitted === null) {
+            throw new Error("Unable to fit a " + type + ": the curve has no minimum");
+        }
+        params = fitted;
+        if (outlierSigma <= 0 || kept.length <= minPoints || rejected.length >= maxRejected) {
+            break;
+        }
+        const residuals = kept.map(p=>Math.abs(p.value - predictFocus({type, params: fitted, origin, scale}, p.position)));
+        // Measures are not better than 1%
+        const sigma = Math.max(1.4826 * median(residuals), 0.01 * median(kept.map(p=>Math.abs(p.value))));
+        let worst = 0;
+        for(let i = 1; i < residuals.length; ++i) {
+            if (residuals[i] > residuals[worst]) {
+                worst = i;
+            }
+        }
+        if (residuals[worst] <= outlierSigma * sigma) {
+            break;
+        }
+        rejected.push(kept[worst].position);
+        kept.splice(worst, 1);
+    }
+
+    const model = {type, params, origin, scale};
+    const mean = kept.reduce((s, p)=>s + p.value, 0) / kept.length;
+    let ssRes = 0;
+    let ssTot = 0;
+    for(const p of kept) {
+        ssRes += Math.pow(p.value - predictFocus(model, p.position), 2);
+        ssTot += Math.pow(p.value - mean, 2);
+    }
+
+    return {
+        ...model,
+        metric,
+        rSquared: ssTot > 0 ? 1 - ssRes / ssTot : 0,
+        bestPosition: bestPosition(type, params, origin, scale),
+        rejected,
+    };
+}
+
+// Values of the model between two positions, for display
+export function sampleFocusCurve(model: FocusCurveModel, firstStep: number, lastStep: number): {[position: string]: {value: number}} {
+    const ret: {[position: string]: {value: number}} = {};
+    const precision = Math.min(Math.abs(lastStep - firstStep), 128);
+    for(let i = 0; i <= precision; ++i) {
+        const pos = firstStep + (i === 0 ? 0 : i * (lastStep - firstStep) / precision);
+        ret[pos] = {
+            value: predictFocus(model, pos),
+        };
+    }
+    return ret;
+}
+
+// Reason to refuse the model, null if it can be used
+export function checkFocusModel(model: FocusCurveModel, points: FocusPoint[], minRSquared: number): string|null {
+    if (model.rSquared < minRSquared) {
+        return "Bad focus curve fit: R² is " + model.rSquared.toFixed(3) + ", minimum is " + minRSquared;
+    }
+    const positions = points.map(p=>p.position);
+    if (!isFinite(model.bestPosition)
+        || model.bestPosition < Math.min(...positions)
+        || model.bestPosition > Math.max(...positions))
+    {
+        return "Best focus position (" + Math.round(model.bestPosition) + ") is outside of the scanned range";
+    }
+    return null;
+}
+
+export function checkFocusFitSettings(settings: FocusFitSettings) {
+    if (["hyperbola", "parabola", "polynomial"].indexOf(settings.model) === -1) {
+        throw new Error("Invalid focus model: " + settings.model);
+    }
+    if (["fwhm", "hfr"].indexOf(settings.metric) === -1) {
+        throw new Error("Invalid focus metric: " + settings.metric);
+    }
+    if (typeof settings.outlierSigma !== "number" || !(settings.outlierSigma >= 0)) {
+        throw new Error("Invalid outlier rejection: " + settings.outlierSigma);
+    }
+    if (typeof settings.minRSquared !== "number" || !(settings.minRSquared <= 1)) {
+        throw new Error("Invalid minimum R²: " + settings.minRSquared);
+    }
+}
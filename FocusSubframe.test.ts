@@ -0,0 +1,55 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+
+import { checkSubframeSettings, defaultSubframeSettings, subframeAroundStars } from "./FocusSubframe";
+import { centeredRoi, clampRoi } from "./Roi";
+
+const sensor = {w: 6000, h: 4000};
+
+function star(x: number, y: number, peak: number = 0.5) {
+    return {x, y, fwhm: 3, peak};
+}
+
+describe("FocusSubframe", () => {
+    it("Keeps subframes within the sensor", () => {
+        assert.deepEqual(clampRoi({x: 5900, y: -10, w: 512, h: 512}, sensor), {x: 5900, y: 0, w: 100, h: 512});
+        assert.deepEqual(centeredRoi(5900, 100, 512, 512, sensor), {x: 5488, y: 0, w: 512, h: 512});
+        assert.deepEqual(centeredRoi(3000, 2000, 512, 512, sensor), {x: 2744, y: 1744, w: 512, h: 512});
+        assert.deepEqual(centeredRoi(10, 10, 8000, 512, sensor), {x: 0, y: 0, w: 6000, h: 512});
+    });
+
+    it("Centers on the group of stars", () => {
+        const stars = [
+            star(100, 100),
+            star(1000, 1000), star(1050, 1020), star(980, 1060), star(1010, 950),
+            star(2500, 1500), star(2520, 1480),
+        ];
+        const roi = subframeAroundStars(stars, 1, 512, sensor);
+        assert.isNotNull(roi);
+        assert.equal(roi!.w, 512);
+        for(const s of stars.slice(1, 5)) {
+            assert.isAbove(s.x, roi!.x);
+            assert.isBelow(s.x, roi!.x + roi!.w);
+            assert.isAbove(s.y, roi!.y);
+            assert.isBelow(s.y, roi!.y + roi!.h);
+        }
+    });
+
+    it("Uses sensor pixels with binning", () => {
+        const stars = [star(500, 500), star(520, 510), star(490, 480)];
+        const roi = subframeAroundStars(stars, 2, 512, sensor)!;
+        assert.isAbove(1000, roi.x);
+        assert.isBelow(1000, roi.x + roi.w);
+    });
+
+    it("Ignores saturated stars", () => {
+        const stars = [star(1000, 1000, 0.95), star(1050, 1020, 1), star(980, 1060), star(1010, 950)];
+        assert.isNull(subframeAroundStars(stars, 1, 512, sensor));
+        assert.isNull(subframeAroundStars([], 1, 512, sensor));
+    });
+
+    it("Checks settings", () => {
+        checkSubframeSettings(defaultSubframeSettings);
+        expect(()=>checkSubframeSettings({...defaultSubframeSettings, subframeSize: 4})).to.throw("Invalid subframe size: 4");
+    });
+});
@@ -0,0 +1,49 @@
+import { CameraRoi, FocuserSettings } from './shared/BackOfficeStatus';
+import { centeredRoi, SensorSize } from './Roi';
+
+export type SubframeSettings = Pick<FocuserSettings, "subframe"|"subframeSize">;
+
+export const defaultSubframeSettings: SubframeSettings = {
+    subframe: false,
+    subframeSize: 512,
+};
+
+// Same limit as the FWHM computation
+const saturationPeak = 0.9;
+export const minSubframeStars = 3;
+
+export type SubframeStar = {
+    x: number;
+    y: number;
+    fwhm: number;
+    peak: number;
+};
+
+// Subframe of the full frame holding the most good stars, away from its edges since stars grow when defocused.
+// Star positions are in binned pixels of the full frame. null when no subframe has enough stars
+export function subframeAroundStars(stars: SubframeStar[], bin: number, size: number, sensor: SensorSize): CameraRoi|null {
+    const good = stars.filter(s=>s.peak < saturationPeak && s.fwhm > 0 && isFinite(s.fwhm))
+                    .map(s=>({x: s.x * bin, y: s.y * bin}));
+    const margin = size / 8;
+    let best: CameraRoi|null = null;
+    let bestCount = 0;
+    for(const center of good) {
+        const roi = centeredRoi(center.x, center.y, size, size, sensor);
+        const count = good.filter(s=>s.x >= roi.x + margin && s.x <= roi.x + roi.w - margin
+                                    && s.y >= roi.y + margin && s.y <= roi.y + roi.h - margin).length;
+        if (count > bestCount) {
+            best = roi;
+            bestCount = count;
+        }
+    }
+    return bestCount >= minSubframeStars ? best : null;
+}
+
+export function checkSubframeSettings(settings: SubframeSettings) {
+    if (typeof settings.subframe !== "boolean") {
+        throw new Error("Invalid subframe: " + settings.subframe);
+    }
+    if (typeof settings.subframeSize !== "number" || !(settings.subframeSize >= 16)) {
+        throw new Error("Invalid subframe size: " + settings.subframeSize);
+    }
+}
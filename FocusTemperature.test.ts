@@ -0,0 +1,48 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+
+import { checkTemperatureSettings, compensationSteps, defaultTemperatureSettings, FocusTemperatureSample, learnTemperatureCoefficient, parseTemperatureProperty, temperatureSampleMaxAge } from "./FocusTemperature";
+
+const now = 1000 * 24 * 3600 * 1000;
+
+function sample(temperature: number, position: number, offset: number = 0, time: number = now): FocusTemperatureSample {
+    return {time, temperature, position, offset};
+}
+
+describe("FocusTemperature", () => {
+    it("Learns the coefficient", () => {
+        // -20 steps per °C
+        const samples = [sample(10, 5000), sample(8, 5040), sample(5, 5100), sample(3, 5140)];
+        assert.closeTo(learnTemperatureCoefficient(samples, now)!, -20, 1e-9);
+    });
+
+    it("Removes filter offsets", () => {
+        const samples = [sample(10, 5000), sample(8, 5140, 100), sample(5, 5100), sample(3, 5090, -50)];
+        assert.closeTo(learnTemperatureCoefficient(samples, now)!, -20, 1e-9);
+    });
+
+    it("Needs enough samples", () => {
+        assert.isNull(learnTemperatureCoefficient([sample(10, 5000), sample(2, 5160)], now));
+        // Not enough spread
+        assert.isNull(learnTemperatureCoefficient([sample(10, 5000), sample(9, 5020), sample(9.5, 5010)], now));
+        // Too old
+        const old = now - temperatureSampleMaxAge - 1;
+        assert.isNull(learnTemperatureCoefficient([sample(10, 5000, 0, old), sample(8, 5040), sample(5, 5100)], now));
+    });
+
+    it("Computes compensation moves", () => {
+        assert.equal(compensationSteps(-20, 10, 9, 10), 20);
+        assert.equal(compensationSteps(-20, 10, 9.8, 10), 0);
+        assert.equal(compensationSteps(-20, 10, 11, 10), -20);
+        assert.equal(compensationSteps(-20, 10, 10.01, 0), 0);
+    });
+
+    it("Checks settings", () => {
+        checkTemperatureSettings(defaultTemperatureSettings);
+        assert.deepEqual(parseTemperatureProperty("WEATHER_PARAMETERS.WEATHER_TEMPERATURE"), {vector: "WEATHER_PARAMETERS", property: "WEATHER_TEMPERATURE"});
+        expect(()=>checkTemperatureSettings({...defaultTemperatureSettings, temperatureProperty: "TEMPERATURE"})).to.throw("Invalid temperature property: TEMPERATURE");
+        expect(()=>checkTemperatureSettings({...defaultTemperatureSettings, temperatureCoefficient: NaN})).to.throw("Invalid temperature coefficient");
+        expect(()=>checkTemperatureSettings({...defaultTemperatureSettings, temperatureLearning: null as any})).to.throw("Invalid temperature learning");
+        expect(()=>checkTemperatureSettings({...defaultTemperatureSettings, compensationMinSteps: -1})).to.throw("Invalid minimum compensation move: -1");
+    });
+});
@@ -0,0 +1,82 @@
+import { FocuserSettings } from './shared/BackOfficeStatus';
+
+// Result of a successful autofocus run
+export type FocusTemperatureSample = {
+    time: number;
+    temperature: number;
+    position: number;
+    // Filter offset included in the position
+    offset: number;
+};
+
+export type TemperatureSettings = Pick<FocuserSettings, "temperatureDevice"|"temperatureProperty"|"temperatureCoefficient"|"temperatureLearning"|"temperatureCompensation"|"compensationMinSteps">;
+
+export const defaultTemperatureSettings: TemperatureSettings = {
+    temperatureDevice: null,
+    temperatureProperty: "FOCUS_TEMPERATURE.TEMPERATURE",
+    temperatureCoefficient: null,
+    temperatureLearning: true,
+    temperatureCompensation: false,
+    compensationMinSteps: 10,
+};
+
+// Older samples are not used for learning
+export const temperatureSampleMaxAge = 90 * 24 * 3600 * 1000;
+// Smaller temperature spreads give meaningless coefficients
+export const minTemperatureSpread = 2;
+const minSampleCount = 3;
+
+// Steps per °C: slope of the least squares line of positions (without filter offsets) against temperatures.
+// null when the samples are too few or too close in temperature
+export function learnTemperatureCoefficient(samples: FocusTemperatureSample[], now: number): number|null {
+    const used = samples.filter(s=>now - s.time <= temperatureSampleMaxAge);
+    if (used.length < minSampleCount) {
+        return null;
+    }
+    const temperatures = used.map(s=>s.temperature);
+    if (Math.max(...temperatures) - Math.min(...temperatures) < minTemperatureSpread) {
+        return null;
+    }
+    const meanT = temperatures.reduce((a, b)=>a + b, 0) / used.length;
+    const meanP = used.reduce((a, s)=>a + s.position - s.offset, 0) / used.length;
+    let sxy = 0;
+    let sxx = 0;
+    for(const s of used) {
+        sxy += (s.temperature - meanT) * (s.position - s.offset - meanP);
+        sxx += (s.temperature - meanT) * (s.temperature - meanT);
+    }
+    return sxy / sxx;
+}
+
+// Steps to move for the temperature change since the reference. 0 while below minSteps
+export function compensationSteps(coefficient: number, referenceTemperature: number, temperature: number, minSteps: number): number {
+    const steps = Math.round(coefficient * (temperature - referenceTemperature));
+    return Math.abs(steps) < Math.max(minSteps, 1) ? 0 : steps;
+}
+
+// Vector and property of the temperature
+export function parseTemperatureProperty(path: string): {vector: string, property: string} {
+    const parts = path.split('.');
+    if (parts.length !== 2 || parts[0] === "" || parts[1] === "") {
+        throw new Error("Invalid temperature property: " + path + " (expected VECTOR.PROPERTY)");
+    }
+    return {vector: parts[0], property: parts[1]};
+}
+
+export function checkTemperatureSettings(settings: TemperatureSettings) {
+    if (settings.temperatureDevice !== null && typeof settings.temperatureDevice !== "string") {
+        throw new Error("Invalid temperature device: " + settings.temperatureDevice);
+    }
+    parseTemperatureProperty(settings.temperatureProperty);
+    if (settings.temperatureCoefficient !== null
+            && (typeof settings.temperatureCoefficient !== "number" || !isFinite(settings.temperatureCoefficient)))
+    {
+        throw new Error("Invalid temperature coefficient: " + settings.temperatureCoefficient);
+    }
+    if (typeof settings.temperatureLearning !== "boolean") {
+        throw new Error("Invalid temperature learning: " + settings.temperatureLearning);
+    }
+    if (typeof settings.compensationMinSteps !== "number" || !(settings.compensationMinSteps >= 0)) {
+        throw new Error("Invalid minimum compensation move: " + settings.compensationMinSteps);
+    }
+}
@@ -0,0 +1,54 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+
+import { SequenceFocusTriggers } from "./shared/BackOfficeStatus";
+import { getFocusTrigger, newFocusState } from "./FocusTriggers";
+
+const noTriggers: SequenceFocusTriggers = {
+    everyFrames: null,
+    afterFilterChange: false,
+    temperatureDelta: null,
+    fwhmDegradation: null,
+};
+
+describe("FocusTriggers", () => {
+    it("No trigger", () => {
+        const observation = {filter: "L", temperature: 10, fwhms: [2, 5]};
+        const state = newFocusState(observation, 0);
+        state.framesSinceFocus = 100;
+        assert.isNull(getFocusTrigger(noTriggers, state, {filter: "R", temperature: 0, fwhms: [2, 5]}));
+    });
+
+    it("Every N frames", () => {
+        const triggers = {...noTriggers, everyFrames: 10};
+        const state = newFocusState({filter: null, temperature: null, fwhms: []}, 0);
+        state.framesSinceFocus = 9;
+        assert.isNull(getFocusTrigger(triggers, state, {filter: null, temperature: null, fwhms: []}));
+        state.framesSinceFocus = 10;
+        assert.isNotNull(getFocusTrigger(triggers, state, {filter: null, temperature: null, fwhms: []}));
+    });
+
+    it("After filter change", () => {
+        const triggers = {...noTriggers, afterFilterChange: true};
+        const state = newFocusState({filter: "L", temperature: null, fwhms: []}, 0);
+        assert.isNull(getFocusTrigger(triggers, state, {filter: "L", temperature: null, fwhms: []}));
+        assert.isNotNull(getFocusTrigger(triggers, state, {filter: "R", temperature: null, fwhms: []}));
+    });
+
+    it("Temperature drift", () => {
+        const triggers = {...noTriggers, temperatureDelta: 1.5};
+        const state = newFocusState({filter: null, temperature: 12, fwhms: []}, 0);
+        assert.isNull(getFocusTrigger(triggers, state, {filter: null, temperature: 11, fwhms: []}));
+        assert.isNotNull(getFocusTrigger(triggers, state, {filter: null, temperature: 10.5, fwhms: []}));
+        // Unknown temperature never triggers
+        assert.isNull(getFocusTrigger(triggers, state, {filter: null, temperature: null, fwhms: []}));
+    });
+
+    it("FWHM degradation", () => {
+        const triggers = {...noTriggers, fwhmDegradation: 20};
+        const state = newFocusState({filter: null, temperature: null, fwhms: []}, 0);
+        assert.isNull(getFocusTrigger(triggers, state, {filter: null, temperature: null, fwhms: [2]}));
+        assert.isNull(getFocusTrigger(triggers, state, {filter: null, temperature: null, fwhms: [2, 2.6, 2.3]}));
+        expect(getFocusTrigger(triggers, state, {filter: null, temperature: null, fwhms: [2, 2.2, 2.5]})).to.contain("FWHM");
+    });
+});
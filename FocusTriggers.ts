@@ -0,0 +1,64 @@
+import { Sequence, SequenceFocusState, SequenceFocusTriggers } from './shared/BackOfficeStatus';
+
+export type FocusObservation = {
+    filter: string|null;
+    temperature: number|null;
+    // FWHM of the images shot since the last autofocus, in shooting order
+    fwhms: number[];
+};
+
+export function newFocusState(observation: FocusObservation, firstImage: number): SequenceFocusState {
+    return {
+        framesSinceFocus: 0,
+        filter: observation.filter,
+        temperature: observation.temperature,
+        firstImage,
+    };
+}
+
+// FWHM of the images of the sequence, starting at firstImage. Images without FWHM are skipped
+export function getFwhmSince(sequence: Sequence, firstImage: number): number[] {
+    const ret: number[] = [];
+    for(const uuid of sequence.images.slice(firstImage)) {
+        const stats = sequence.imageStats[uuid];
+        if (stats !== undefined && stats.fwhm !== undefined && stats.fwhm !== null) {
+            ret.push(stats.fwhm);
+        }
+    }
+    return ret;
+}
+
+function round(v: number) {
+    return Math.round(v * 100) / 100;
+}
+
+// Returns the reason for a new autofocus, or null if none is required
+export function getFocusTrigger(triggers: SequenceFocusTriggers, state: SequenceFocusState, observation: FocusObservation): string|null {
+    if (triggers.afterFilterChange && observation.filter !== state.filter) {
+        return "filter changed to " + observation.filter;
+    }
+
+    if (triggers.everyFrames !== null && triggers.everyFrames > 0
+        && state.framesSinceFocus >= triggers.everyFrames)
+    {
+        return state.framesSinceFocus + " frames since last focus";
+    }
+
+    if (triggers.temperatureDelta !== null
+        && state.temperature !== null
+        && observation.temperature !== null
+        && Math.abs(observation.temperature - state.temperature) >= triggers.temperatureDelta)
+    {
+        return "temperature drifted from " + round(state.temperature) + "°C to " + round(observation.temperature) + "°C";
+    }
+
+    if (triggers.fwhmDegradation !== null && observation.fwhms.length >= 2) {
+        const baseline = observation.fwhms[0];
+        const last = observation.fwhms[observation.fwhms.length - 1];
+        if (baseline > 0 && last > baseline * (1 + triggers.fwhmDegradation / 100)) {
+            return "FWHM went from " + round(baseline) + " to " + round(last);
+        }
+    }
+
+    return null;
+}
@@ -1,26 +1,50 @@
-const PolynomialRegression = require('ml-regression-polynomial');
 import CancellationToken from 'cancellationtoken';
-import { hasKey } from './Obj';
+import {v4 as uuidv4} from 'node-uuid';
+import { hasKey, getOwnProp, deepCopy } from './Obj';
 import * as Algebra from './Algebra';
 import * as BackOfficeAPI from './shared/BackOfficeAPI';
 import * as RequestHandler from './RequestHandler';
 import { ExpressApplication, AppContext } from "./ModuleBase";
 import ConfigStore from './ConfigStore';
 import JsonProxy from './JsonProxy';
-import { BackofficeStatus, AutoFocusStatus, FocuserStatus, FocuserUpdateCurrentSettingsRequest, CameraStatus, FocuserSettings, AutoFocusConfiguration } from './shared/BackOfficeStatus';
+import { BackofficeStatus, AutoFocusStatus, FocuserStatus, FocuserUpdateCurrentSettingsRequest, CameraStatus, FocuserSettings, AutoFocusConfiguration, FilterFocusOffsets, TemperatureCompensationStatus, AutoFocusRun, CameraRoi } from './shared/BackOfficeStatus';
 import { Task, createTask } from './Task';
 import Camera from './Camera';
 import IndiManager from "./IndiManager";
 import ImageProcessor from "./ImageProcessor";
 import { DriverInterface } from './Indi';
+import FocuserMotion, { FocuserDriver } from './FocuserMotion';
+import { checkFocusFitSettings, checkFocusModel, defaultFocusFitSettings, fitFocusCurve, FocusPoint, sampleFocusCurve } from './FocusModel';
+import { checkTemperatureSettings, compensationSteps, defaultTemperatureSettings, learnTemperatureCoefficient, parseTemperatureProperty } from './FocusTemperature';
+import { focusRunsToCsv, focusRunsToPrune, focusRunSummary, focusTemperatureSamples, maxFocusRuns } from './FocusHistory';
+import { checkSubframeSettings, defaultSubframeSettings, subframeAroundStars } from './FocusSubframe';
+
+const defaultFocuserSettings: FocuserSettings = {
+    range: 1000,
+    steps: 5,
+    backlash: 200,
+    lowestFirst: false,
+    targetCurrentPos: true,
+    targetPos: 10000,
+    ...defaultFocusFitSettings,
+    ...defaultTemperatureSettings,
+    ...defaultSubframeSettings,
+};
+
+// Period of the temperature checks
+const compensationInterval = 30000;
 
 export default class Focuser implements RequestHandler.APIAppImplementor<BackOfficeAPI.FocuserAPI>{
     readonly appStateManager: JsonProxy<BackofficeStatus>;
     readonly currentStatus: FocuserStatus;
-    currentPromise: Task<number>|null;
+    currentPromise: Task<unknown>|null;
     camera: Camera;
     indiManager: IndiManager;
     imageProcessor: ImageProcessor;
+    context: AppContext;
+    // Last queued move of each focuser. Autofocus, filter offset and compensation moves are chained,
+    // so that they never overlap (the position of relative focusers is tracked between moves)
+    private moveQueues: {[focuserId: string]: Promise<void>} = {};
     constructor(app:ExpressApplication, appStateManager:JsonProxy<BackofficeStatus>, context:AppContext)
     {
         this.appStateManager = appStateManager;
@@ -30,6 +54,8 @@ export default class Focuser implements RequestHandler.APIAppImplementor<BackOff
             config: {
                 preferedCamera: null,
                 settings: {},
+                filterOffsets: {},
+                relativePositions: {},
             },
             current: {
                 status: 'idle',
@@ -41,39 +67,55 @@ export default class Focuser implements RequestHandler.APIAppImplementor<BackOff
                 lastStep: 10000,
                 points: {
                     "5000": {
-                        fwhm: 2.9
+                        fwhm: 2.9,
+                        hfr: null
                     },
                     "6000": {
-                        fwhm: 2.7
+                        fwhm: 2.7,
+                        hfr: null
                     },
                     "7000": {
-                        fwhm: 2.5
+                        fwhm: 2.5,
+                        hfr: null
                     },
                     "8000": {
-                        fwhm: 2.6
+                        fwhm: 2.6,
+                        hfr: null
                     },
                     "9000": {
-                        fwhm: 2.8
+                        fwhm: 2.8,
+                        hfr: null
                     }
                 },
                 predicted: {
                 },
-                targetStep: 3000
-            }
+                model: null,
+                targetStep: 3000,
+                finalFwhm: null,
+            },
+            filterOffsetWizard: null,
+            compensation: {},
+            history: {},
         };
         this.currentStatus = this.appStateManager.getTarget().focuser;
         new ConfigStore<AutoFocusConfiguration>(appStateManager, 'focuser', ['focuser', 'config'], {
                 preferedCamera: null,
-                settings: {}
+                settings: {},
+                filterOffsets: {},
+                relativePositions: {},
             }, {
                 preferedCamera: null,
-                settings: {}
+                settings: {},
+                filterOffsets: {},
+                relativePositions: {},
             });
+        new ConfigStore<FocuserStatus["history"]>(appStateManager, 'focusHistory', ['focuser', 'history'], {}, {});
         this.currentPromise = null;
         this.resetCurrent('idle');
         this.camera = context.camera;
         this.indiManager = context.indiManager;
         this.imageProcessor = context.imageProcessor;
+        this.context = context;
 
         // Check that current focuser is valid for all camera
         // FIXME: we could also check for absolute prop
@@ -88,14 +130,13 @@ export default class Focuser implements RequestHandler.APIAppImplementor<BackOff
                 const settingRoot = this.currentStatus.config.settings;
                 for(const o of this.currentStatus.availableFocusers) {
                     if (!hasKey(settingRoot, o)) {
+                        settingRoot[o] = {...defaultFocuserSettings};
+                    } else if (Object.keys(defaultFocuserSettings).some(k=>!hasKey(settingRoot[o], k))) {
+                        // Saved by a previous version
                         settingRoot[o] = {
-                            range: 1000,
-                            steps: 5,
-                            backlash: 200,
-                            lowestFirst: false,
-                            targetCurrentPos: true,
-                            targetPos: 10000
-                        }
+                            ...defaultFocuserSettings,
+                            ...settingRoot[o],
+                        };
                     }
                 }
             },
@@ -163,6 +204,8 @@ export default class Focuser implements RequestHandler.APIAppImplementor<BackOff
                 }
             }
         });
+
+        setInterval(this.checkTemperatureCompensation, compensationInterval);
     }
 
     getAPI():RequestHandler.APIAppImplementor<BackOfficeAPI.FocuserAPI> {
@@ -172,6 +215,13 @@ export default class Focuser implements RequestHandler.APIAppImplementor<BackOff
             updateCurrentSettings: this.updateCurrentSettings,
             setCurrentCamera: this.setCurrentCamera,
             setCurrentFocuser: this.setCurrentFocuser,
+            updateFilterOffset: this.updateFilterOffset,
+            measureFilterOffsets: this.measureFilterOffsets,
+            setRelativePosition: this.setRelativePosition,
+            listFocusRuns: this.listFocusRuns,
+            getFocusRun: this.getFocusRun,
+            removeFocusRun: this.removeFocusRun,
+            exportFocusRuns: this.exportFocusRuns,
         }
     }
 
@@ -186,7 +236,9 @@ export default class Focuser implements RequestHandler.APIAppImplementor<BackOff
             lastStep: null,
             targetStep: null,
             points: {},
-            predicted: {}
+            predicted: {},
+            model: null,
+            finalFwhm: null,
         }
     }
 
@@ -211,8 +263,125 @@ export default class Focuser implements RequestHandler.APIAppImplementor<BackOff
         );
     }
 
-    private getCurrentConfiguration(): {camera: string, focuser:string, settings: FocuserSettings} {
-        const camera = this.currentStatus.selectedCamera;
+    private rawMoveFocuserRelative = async(ct: CancellationToken, focuserId: string, steps: number)=>{
+        await this.indiManager.setParam(ct, focuserId, 'FOCUS_MOTION',
+            steps > 0 ? {FOCUS_OUTWARD: 'On'} : {FOCUS_INWARD: 'On'});
+        await this.indiManager.setParam(ct, focuserId, 'REL_FOCUS_POSITION', {
+                FOCUS_RELATIVE_POSITION: '' + Math.abs(steps)
+            },
+            // The same move can be repeated
+            true,
+            true,
+            (connection, devId, vectorId) => {
+                const vec = connection.getDevice(devId).getVector('FOCUS_ABORT_MOTION');
+                vec.setValues([{name: 'ABORT', value: 'On'}]);
+            }
+        );
+    }
+
+    // Run the move once the previous moves of the focuser are done
+    private queueMove<T>(focuserId: string, move: ()=>Promise<T>): Promise<T> {
+        const previous = hasKey(this.moveQueues, focuserId) ? this.moveQueues[focuserId] : Promise.resolve();
+        const result = previous.then(move);
+        const queued = result.then(()=>{}, ()=>{});
+        this.moveQueues[focuserId] = queued;
+        queued.then(()=>{
+            if (this.moveQueues[focuserId] === queued) {
+                delete this.moveQueues[focuserId];
+            }
+        });
+        return result;
+    }
+
+    // Moves of a focuser, with absolute position or relative moves only. Throw if the focuser has neither
+    private getFocuserMotion(focuserId: string): FocuserMotion {
+        const device = this.indiManager.checkDeviceConnected(focuserId);
+        const readLimit = (vectorId: string, propId: string, limit: "$min"|"$max")=> {
+            const vector = device.getVector(vectorId).getVectorInTree();
+            if (vector === null || !hasKey(vector.childs, propId)) {
+                return null;
+            }
+            const value = parseFloat(vector.childs[propId][limit] || "");
+            return isNaN(value) ? null : value;
+        };
+        const absPos = device.getVector('ABS_FOCUS_POSITION');
+        const relPos = device.getVector('REL_FOCUS_POSITION');
+        if (!absPos.exists() && !relPos.exists()) {
+            throw new Error("Focuser has no position control");
+        }
+
+        const driver: FocuserDriver = {
+            getAbsolutePosition: ()=> {
+                if (!absPos.exists()) {
+                    return null;
+                }
+                const value = parseFloat(absPos.getPropertyValue('FOCUS_ABSOLUTE_POSITION'));
+                if (isNaN(value)) {
+                    throw new Error("Invalid focuser position");
+                }
+                return value;
+            },
+            getMinPosition: ()=>readLimit('ABS_FOCUS_POSITION', 'FOCUS_ABSOLUTE_POSITION', '$min'),
+            getMaxPosition: ()=> {
+                const max = parseFloat(device.getVector('FOCUS_MAX').getPropertyValueIfExists('FOCUS_MAX_VALUE') || "");
+                if (max > 0) {
+                    return max;
+                }
+                return readLimit('ABS_FOCUS_POSITION', 'FOCUS_ABSOLUTE_POSITION', '$max');
+            },
+            getMaxRelativeMove: ()=>readLimit('REL_FOCUS_POSITION', 'FOCUS_RELATIVE_POSITION', '$max'),
+            isReady: ()=>(absPos.exists() ? absPos : relPos).isReadyForOrder(),
+            moveAbsolute: (ct, position)=>this.rawMoveFocuser(ct, focuserId, position),
+            moveRelative: (ct, steps)=>this.rawMoveFocuserRelative(ct, focuserId, steps),
+        };
+
+        const relativePositions = this.currentStatus.config.relativePositions;
+        return new FocuserMotion(driver, {
+            get: ()=>getOwnProp(relativePositions, focuserId),
+            set: (position: number)=>{ relativePositions[focuserId] = position; },
+        });
+    }
+
+    private getFilterOffsets(focuserId: string, filterWheelId: string): FilterFocusOffsets|undefined {
+        const byFocuser = this.currentStatus.config.filterOffsets;
+        if (!hasKey(byFocuser, focuserId) || !hasKey(byFocuser[focuserId], filterWheelId)) {
+            return undefined;
+        }
+        return byFocuser[focuserId][filterWheelId];
+    }
+
+    // Move the focuser by the difference of offsets between two filters.
+    // Nothing is done if one of the filters has no offset
+    async applyFilterOffset(ct: CancellationToken, focuserId: string, filterWheelId: string, fromFilter: string, toFilter: string) {
+        const offsets = this.getFilterOffsets(focuserId, filterWheelId);
+        if (offsets === undefined || !hasKey(offsets, fromFilter) || !hasKey(offsets, toFilter)) {
+            console.log('No focus offset for ' + fromFilter + ' => ' + toFilter);
+            return;
+        }
+        const delta = Math.round(offsets[toFilter] - offsets[fromFilter]);
+        if (delta === 0) {
+            return;
+        }
+        if (!hasKey(this.currentStatus.config.settings, focuserId)) {
+            throw new Error("Invalid focuser");
+        }
+        const settings = this.currentStatus.config.settings[focuserId];
+
+        await this.queueMove(focuserId, async()=> {
+            ct.throwIfCancelled();
+            const motion = this.getFocuserMotion(focuserId);
+            if (!motion.isReady()) {
+                throw new Error("Focuser is not ready");
+            }
+            const target = motion.getPosition() + delta;
+            console.log('Applying focus offset of ' + delta + ' for ' + fromFilter + ' => ' + toFilter);
+            await motion.moveWithBacklash(ct, settings, target);
+        });
+    }
+
+    // Use the selected camera when none is given
+    private getCurrentConfiguration(cameraId?: string): {camera: string, focuser:string, settings: FocuserSettings} {
+        const camera = cameraId !== undefined ? cameraId : this.currentStatus.selectedCamera;
         if (camera === null) {
             throw new Error("No camera selected");
         }
@@ -234,15 +403,260 @@ export default class Focuser implements RequestHandler.APIAppImplementor<BackOff
         }
     }
 
-    // Adjust the focus
-    private async doFocus(ct: CancellationToken):Promise<number> {
-        const config = this.getCurrentConfiguration();
+    // Position of the focuser of the camera (tracked for relative focusers), null if not available
+    getFocuserPosition(cameraId: string): number|null {
+        if (!hasKey(this.camera.currentStatus.dynStateByDevices, cameraId)) {
+            return null;
+        }
+        const focuserId = this.camera.currentStatus.dynStateByDevices[cameraId].focuserDevice;
+        if (focuserId === undefined || focuserId === null) {
+            return null;
+        }
+        try {
+            return this.getFocuserMotion(focuserId).getPosition();
+        } catch(e) {
+            return null;
+        }
+    }
+
+    // Temperature from the device configured for the focuser, null if not available
+    private readTemperature(focuserId: string): number|null {
+        const settings = getOwnProp(this.currentStatus.config.settings, focuserId) || defaultFocuserSettings;
+        let value: string|null;
+        try {
+            const source = parseTemperatureProperty(settings.temperatureProperty);
+            const device = settings.temperatureDevice !== null ? settings.temperatureDevice : focuserId;
+            const connection = this.indiManager.getValidConnection();
+            value = connection.getDevice(device).getVector(source.vector).getPropertyValueIfExists(source.property);
+        } catch(e) {
+            return null;
+        }
+        if (value === null) {
+            return null;
+        }
+        const temp = parseFloat(value);
+        return isNaN(temp) ? null : temp;
+    }
+
+    // Temperature for the focuser of the camera, null if not available
+    getFocuserTemperature(cameraId: string): number|null {
+        if (!hasKey(this.camera.currentStatus.dynStateByDevices, cameraId)) {
+            return null;
+        }
+        const focuserId = this.camera.currentStatus.dynStateByDevices[cameraId].focuserDevice;
+        if (focuserId === undefined || focuserId === null) {
+            return null;
+        }
+        return this.readTemperature(focuserId);
+    }
+
+    private getCompensationStatus(focuserId: string): TemperatureCompensationStatus {
+        if (!hasKey(this.currentStatus.compensation, focuserId)) {
+            this.currentStatus.compensation[focuserId] = {
+                temperature: null,
+                referenceTemperature: null,
+                totalSteps: 0,
+                lastMove: null,
+                error: null,
+            };
+        }
+        return this.currentStatus.compensation[focuserId];
+    }
+
+    // Offset of the current filter of the camera, 0 if unknown
+    private getCurrentFilterOffset(cameraId: string, focuserId: string): number {
+        const filterWheelId = this.camera.currentStatus.dynStateByDevices[cameraId].filterWheelDevice;
+        const filterId = this.context.filterWheel.getCameraFilter(cameraId);
+        if (filterWheelId === undefined || filterWheelId === null || filterId === null) {
+            return 0;
+        }
+        const offsets = this.getFilterOffsets(focuserId, filterWheelId);
+        return offsets !== undefined && hasKey(offsets, filterId) ? offsets[filterId] : 0;
+    }
+
+    // A successful autofocus gives a new reference temperature. The coefficient is learned again from the history,
+    // unless it was set by hand
+    private updateTemperatureModel(focuserId: string, temperature: number|null) {
+        const status = this.getCompensationStatus(focuserId);
+        status.temperature = temperature;
+        status.referenceTemperature = temperature;
+        status.totalSteps = 0;
+        if (temperature === null) {
+            return;
+        }
+
+        if (!hasKey(this.currentStatus.config.settings, focuserId) || !this.currentStatus.config.settings[focuserId].temperatureLearning) {
+            return;
+        }
+        const coefficient = learnTemperatureCoefficient(focusTemperatureSamples(this.currentStatus.history, focuserId), Date.now());
+        if (coefficient !== null) {
+            console.log('Learned focus temperature coefficient for ' + focuserId + ': ' + coefficient + ' steps/°C');
+            this.currentStatus.config.settings[focuserId].temperatureCoefficient = Math.round(coefficient * 100) / 100;
+        }
+    }
+
+    private isFocuserShooting(focuserId: string): boolean {
+        const cameraStatus = this.camera.currentStatus;
+        for(const cameraId of Object.keys(cameraStatus.dynStateByDevices)) {
+            if (cameraStatus.dynStateByDevices[cameraId].focuserDevice === focuserId
+                    && hasKey(cameraStatus.currentShoots, cameraId))
+            {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private async waitFocuserIdle(focuserId: string) {
+        while(hasKey(this.moveQueues, focuserId)) {
+            await this.moveQueues[focuserId];
+        }
+    }
+
+    // Shoots don't start while the focuser of the camera is moving
+    async waitFocuserMoves(cameraId: string) {
+        const focuserId = getOwnProp(this.camera.currentStatus.dynStateByDevices, cameraId)?.focuserDevice;
+        if (focuserId !== undefined && focuserId !== null) {
+            await this.waitFocuserIdle(focuserId);
+        }
+    }
+
+    private async compensateTemperature(focuserId: string, settings: FocuserSettings, steps: number, temperature: number) {
+        const status = this.getCompensationStatus(focuserId);
+        try {
+            const motion = this.getFocuserMotion(focuserId);
+            if (!motion.isReady()) {
+                return;
+            }
+            console.log('Temperature compensation: moving ' + focuserId + ' by ' + steps + ' steps');
+            await motion.moveWithBacklash(CancellationToken.CONTINUE, settings, motion.getPosition() + steps);
+            status.referenceTemperature = temperature;
+            status.totalSteps += steps;
+            status.lastMove = Date.now();
+            status.error = null;
+        } catch(e) {
+            console.log('Temperature compensation failed for ' + focuserId, e);
+            status.error = '' + (e.message || e);
+        }
+    }
+
+    // Move the focusers whose temperature changed, between frames only
+    private checkTemperatureCompensation = ()=>{
+        for(const focuserId of Object.keys(this.currentStatus.config.settings)) {
+            const settings = this.currentStatus.config.settings[focuserId];
+            if (!settings.temperatureCompensation || hasKey(this.moveQueues, focuserId)) {
+                continue;
+            }
+            const status = this.getCompensationStatus(focuserId);
+            status.temperature = this.readTemperature(focuserId);
+            const temperature = status.temperature;
+            if (temperature === null || settings.temperatureCoefficient === null) {
+                continue;
+            }
+            if (status.referenceTemperature === null) {
+                status.referenceTemperature = temperature;
+                continue;
+            }
+            if (this.currentPromise !== null || this.isFocuserShooting(focuserId)) {
+                continue;
+            }
+            const steps = compensationSteps(settings.temperatureCoefficient, status.referenceTemperature, temperature, settings.compensationMinSteps);
+            if (steps === 0) {
+                continue;
+            }
+            this.queueMove(focuserId, ()=>this.compensateTemperature(focuserId, settings, steps, temperature));
+        }
+    }
+
+    private async findStars(ct: CancellationToken, path: string) {
+        return await this.imageProcessor.compute(ct, {
+            starField: { source: {
+                path,
+                streamId: "",
+            }}
+        });
+    }
+
+    // Star sizes in an image, null when no star is found
+    private async measureStars(ct: CancellationToken, path: string): Promise<{fwhm: number|null, hfr: number|null}> {
+        const starField = (await this.findStars(ct, path)).stars;
+        console.log('AUTOFOCUS: got starfield');
+        console.log('StarField', JSON.stringify(starField, null, 2));
+        let fwhm:number|null = Algebra.starFieldFwhm(starField);
+        if (isNaN(fwhm!)) {
+            fwhm = null;
+        }
+        let hfr:number|null = Algebra.starFieldHfr(starField);
+        if (isNaN(hfr!)) {
+            hfr = null;
+        }
+        return {fwhm, hfr};
+    }
+
+    // Subframe around the stars of a full frame, null when not enough stars are found
+    private async findFocusSubframe(ct: CancellationToken, cameraId: string): Promise<CameraRoi|null> {
+        const shootResult = await this.camera.doShoot(ct, cameraId,
+                    (settings)=>({
+                        ...settings,
+                        roi: null,
+                        prefix: 'focus_ISO8601_full'
+                    }));
+        const geometry = this.camera.getFrameGeometry(this.indiManager.checkDeviceConnected(cameraId));
+        if (geometry === null) {
+            return null;
+        }
+        const starField = await this.findStars(ct, shootResult.path);
+        const settings = this.getCurrentConfiguration(cameraId).settings;
+        return subframeAroundStars(starField.stars, geometry.bin.x, settings.subframeSize, geometry.sensor);
+    }
+
+    // Put back the frame of the camera, even after a cancel
+    private async restoreFrame(cameraId: string, frame: CameraRoi) {
+        try {
+            const adjustment = this.camera.getCropAdjustment(this.indiManager.checkDeviceConnected(cameraId), frame);
+            if (Object.keys(adjustment).length !== 0) {
+                await this.indiManager.setParam(CancellationToken.CONTINUE, cameraId, 'CCD_FRAME', adjustment, true);
+            }
+        } catch(e) {
+            console.log('Unable to restore the frame of ' + cameraId, e);
+        }
+    }
+
+    // Adjust the focus, on a subframe when configured
+    private async doFocus(ct: CancellationToken, cameraId: string):Promise<number> {
+        const config = this.getCurrentConfiguration(cameraId);
         this.currentStatus.current.camera = config.camera;
         this.currentStatus.current.focuser = config.focuser;
+        if (!config.settings.subframe) {
+            return await this.scanFocus(ct, config.camera, null);
+        }
+
+        const geometry = this.camera.getFrameGeometry(this.indiManager.checkDeviceConnected(config.camera));
+        if (geometry === null) {
+            console.log('Camera has no CCD_FRAME. Focusing on full frame');
+            return await this.scanFocus(ct, config.camera, null);
+        }
+        try {
+            const roi = await this.findFocusSubframe(ct, config.camera);
+            if (roi === null) {
+                console.log('Not enough stars for a subframe. Focusing on full frame');
+            } else {
+                console.log('Focusing on subframe ' + JSON.stringify(roi));
+            }
+            return await this.scanFocus(ct, config.camera, roi);
+        } finally {
+            await this.restoreFrame(config.camera, geometry.frame);
+        }
+    }
+
+    // Scan the focuser range. roi is the subframe of the shoots, null for the camera settings
+    private async scanFocus(ct: CancellationToken, cameraId: string, roi: CameraRoi|null):Promise<number> {
+        const config = this.getCurrentConfiguration(cameraId);
 
         const amplitude = config.settings.range;
         const stepCount = config.settings.steps;
-        const data:Array<number[]> = [];
+        const metric = config.settings.metric;
+        const data:Array<FocusPoint> = [];
 
         // Find focuser & camera.
         const connection = this.indiManager.getValidConnection();
@@ -257,15 +671,15 @@ export default class Focuser implements RequestHandler.APIAppImplementor<BackOff
             throw new Error("Camera not connected");
         }
         // Move to the starting point
-        const absPos = focuser.getVector('ABS_FOCUS_POSITION');
-        if (!absPos.isReadyForOrder()) {
+        await this.waitFocuserIdle(focuserId);
+        const motion = this.getFocuserMotion(focuserId);
+        if (!motion.isReady()) {
             throw new Error("Focuser is not ready");
         }
 
-        let initialPos:number = parseFloat(absPos.getPropertyValue("FOCUS_ABSOLUTE_POSITION"));
-        let lastKnownPos:number = initialPos;
+        const initialPos:number = motion.getPosition();
         const start = config.settings.targetCurrentPos
-                ? lastKnownPos
+                ? initialPos
                 : config.settings.targetPos;
 
         console.log('start pos is ' + start);
@@ -276,14 +690,10 @@ export default class Focuser implements RequestHandler.APIAppImplementor<BackOff
             stepSize = 1;
         }
 
-        if (firstStep < 0) {
-            firstStep = 0;
-        }
         if (Math.abs(lastStep - firstStep) / stepSize < 5) {
             throw new Error("Not enough step - at least 5 required");
         }
-
-        // FIXME: check lastStep < focuser max
+        motion.checkRange(firstStep, lastStep);
 
         const moveForward = config.settings.lowestFirst;
         // Negative focus swap steps
@@ -301,37 +711,8 @@ export default class Focuser implements RequestHandler.APIAppImplementor<BackOff
         
         const moveFocuser= async(target:number)=>{
             target = Math.round(target);
-
-            const backlash = config.settings.backlash;
-            let intermediate = undefined;
-            if (backlash != 0) {
-                if (moveForward) {
-                    // Need backlash clearance in this direction
-                    if (target < lastKnownPos) {
-                        intermediate = target - backlash;
-                    }
-                } else {
-                    if (target > lastKnownPos) {
-                        intermediate = target + backlash;
-                    }
-                }
-                if (intermediate !== undefined && intermediate < 0) {
-                    intermediate = 0;
-                }
-                // FIXME: check upper bound
-            }
-
-            lastKnownPos = target;
             console.log('AUTOFOCUS: moving focuser to ' + target);
-            if ((intermediate !== undefined) && (intermediate !== target)) {
-                // Account for backlash
-                console.log('Focuser moving with backlash to : ', intermediate, target);
-                await this.rawMoveFocuser(ct, focuserId, intermediate);
-            }
-
-            // Direct move
-            console.log('Focuser moving to : ', target);
-            await this.rawMoveFocuser(ct, focuserId, target);
+            await this.queueMove(focuserId, ()=>motion.moveWithBacklash(ct, config.settings, target));
         }
 
         function nextStep() {
@@ -351,32 +732,22 @@ export default class Focuser implements RequestHandler.APIAppImplementor<BackOff
             const shootResult = await this.camera.doShoot(ct, config.camera,
                         (settings)=>({
                             ...settings,
+                            roi: roi !== null ? roi : settings.roi,
                             prefix: 'focus_ISO8601_step_' + Math.floor(currentStep)
                         }));
         
             const moveFocuserPromise = done(nextStep()) ? undefined : moveFocuser(nextStep());
             try {
-                const starFieldResponse = await this.imageProcessor.compute(ct, {
-                    starField: { source: {
-                        path: shootResult.path,
-                        streamId: "",
-                    }}
-                });
-                
-                const starField = starFieldResponse.stars;
-                console.log('AUTOFOCUS: got starfield');
-                console.log('StarField', JSON.stringify(starField, null, 2));
-                let fwhm:number|null = Algebra.starFieldFwhm(starField);
-                if (isNaN(fwhm!)) {
-                    fwhm = null;
-                }
+                const {fwhm, hfr} = await this.measureStars(ct, shootResult.path);
 
-                if (fwhm !== null) {
-                    data.push( [currentStep, fwhm ]);
+                const value = metric === "hfr" ? hfr : fwhm;
+                if (value !== null) {
+                    data.push({position: currentStep, value});
                 }
 
                 this.currentStatus.current.points[currentStep] = {
-                    fwhm: fwhm
+                    fwhm,
+                    hfr,
                 };
 
                 currentStep = nextStep();
@@ -394,27 +765,96 @@ export default class Focuser implements RequestHandler.APIAppImplementor<BackOff
         }
         
         console.log('regression with :' + JSON.stringify(data));
-        const result = new PolynomialRegression(data.map(e=>e[0]), data.map(e=>e[1]), 4);
-        // This is ugly. but works
-        const precision = Math.min(Math.abs(lastStep - firstStep), 128);
-        let bestValue = undefined;
-        let bestPos: number|undefined;
-        for(let i = 0; i <= precision; ++i) {
-            const pos = firstStep + (i === 0 ? 0 : i * (lastStep - firstStep) / precision);
-            const pred = result.predict(pos);
-            console.log('predict at : '  + i + '#' +pos+' => ' + JSON.stringify(pred));
-            const valueAtPos = pred;
-            this.currentStatus.current.predicted[pos] = {
-                fwhm: valueAtPos
-            };
-            if (i === 0 || bestValue > valueAtPos) {
-                bestValue = valueAtPos;
-                bestPos = pos;
+        let model;
+        try {
+            model = fitFocusCurve(config.settings.model, metric, data, config.settings.outlierSigma);
+        } catch(e) {
+            console.log('Could not fit focus curve. Moving back to origin');
+            await moveFocuser(initialPos);
+            throw e;
+        }
+        this.currentStatus.current.model = model;
+
+        this.currentStatus.current.predicted = sampleFocusCurve(model, firstStep, lastStep);
+
+        const refused = checkFocusModel(model, data, config.settings.minRSquared);
+        if (refused !== null) {
+            console.log(refused + '. Moving back to origin');
+            await moveFocuser(initialPos);
+            throw new Error(refused);
+        }
+
+        const bestPos = Math.round(model.bestPosition);
+        console.log('Found best position at ' + bestPos + ' with ' + model.type + ' (R² ' + model.rSquared + ')');
+        this.currentStatus.current.targetStep = bestPos;
+        await moveFocuser(bestPos);
+
+        // For the history. The focus is done even if this fails
+        try {
+            const shootResult = await this.camera.doShoot(ct, config.camera,
+                        (settings)=>({
+                            ...settings,
+                            roi: roi !== null ? roi : settings.roi,
+                            prefix: 'focus_ISO8601_final_' + bestPos
+                        }));
+            this.currentStatus.current.finalFwhm = (await this.measureStars(ct, shootResult.path)).fwhm;
+        } catch(e) {
+            if (e instanceof CancellationToken.CancellationError) {
+                throw e;
             }
+            console.log('Unable to measure the final FWHM', e);
+        }
+        return bestPos;
+    }
+
+    // Adjust the focus, and keep the run in the history
+    private async runFocus(ct: CancellationToken, cameraId?: string):Promise<number> {
+        const config = this.getCurrentConfiguration(cameraId);
+        const time = Date.now();
+        const filter = this.context.filterWheel.getCameraFilter(config.camera);
+        const filterOffset = this.getCurrentFilterOffset(config.camera, config.focuser);
+        let status: AutoFocusRun["status"] = "error";
+        let error: string|null = null;
+        let position: number|null = null;
+        try {
+            position = await this.doFocus(ct, config.camera);
+            status = "done";
+            return position;
+        } catch(e) {
+            status = (e instanceof CancellationToken.CancellationError) ? "interrupted" : "error";
+            error = '' + (e.message || e);
+            throw e;
+        } finally {
+            const current = this.currentStatus.current;
+            const temperature = this.readTemperature(config.focuser);
+            this.addFocusRun({
+                time,
+                camera: config.camera,
+                focuser: config.focuser,
+                filter,
+                filterOffset,
+                temperature,
+                status,
+                error,
+                firstStep: current.firstStep,
+                lastStep: current.lastStep,
+                points: deepCopy(current.points),
+                model: current.model !== null ? deepCopy(current.model) : null,
+                position,
+                finalFwhm: current.finalFwhm,
+            });
+            if (status === "done") {
+                this.updateTemperatureModel(config.focuser, temperature);
+            }
+        }
+    }
+
+    private addFocusRun(run: AutoFocusRun) {
+        const history = this.currentStatus.history;
+        history[uuidv4()] = run;
+        for(const id of focusRunsToPrune(history, maxFocusRuns)) {
+            delete history[id];
         }
-        console.log('Found best position at ' + bestPos);
-        await moveFocuser(bestPos!);
-        return bestPos!;
     }
 
     setCurrentCamera=async(ct:CancellationToken, message: {cameraDevice: string})=> {
@@ -451,11 +891,17 @@ export default class Focuser implements RequestHandler.APIAppImplementor<BackOff
         const config = this.getCurrentConfiguration();
 
         const newSettings = JsonProxy.applyDiff(config.settings, message.diff);
-        // FIXME: do the checking !
+        // A coefficient set by hand is not replaced by the learned one
+        if (newSettings.temperatureCoefficient !== config.settings.temperatureCoefficient) {
+            newSettings.temperatureLearning = false;
+        }
+        checkFocusFitSettings(newSettings);
+        checkTemperatureSettings(newSettings);
+        checkSubframeSettings(newSettings);
         this.currentStatus.config.settings[config.focuser] = newSettings;
     }
 
-    focus=async(ct:CancellationToken, message:{}):Promise<number>=>{
+    focus=async(ct:CancellationToken, message:{camera?: string}):Promise<number>=>{
         console.log('API focus called');
         return await createTask<number>(ct, async (task)=>{
             if (this.currentPromise !== null) {
@@ -465,7 +911,7 @@ export default class Focuser implements RequestHandler.APIAppImplementor<BackOff
 
             try {
                 this.resetCurrent('running');
-                const ret:number = await this.doFocus(task.cancellation);
+                const ret:number = await this.runFocus(task.cancellation, message.camera);
                 this.setCurrentStatus('done', null);
                 return ret;
             } catch(e) {
@@ -481,6 +927,163 @@ export default class Focuser implements RequestHandler.APIAppImplementor<BackOff
         });
     }
 
+    updateFilterOffset=async(ct:CancellationToken, message:{focuser: string, filterWheel: string, filterId: string, offset: number|null})=>{
+        if (message.offset !== null && (typeof message.offset !== "number" || isNaN(message.offset))) {
+            throw new Error("Invalid offset");
+        }
+        const byFocuser = this.currentStatus.config.filterOffsets;
+        if (!hasKey(byFocuser, message.focuser)) {
+            byFocuser[message.focuser] = {};
+        }
+        if (!hasKey(byFocuser[message.focuser], message.filterWheel)) {
+            byFocuser[message.focuser][message.filterWheel] = {};
+        }
+        const offsets = byFocuser[message.focuser][message.filterWheel];
+        if (message.offset === null) {
+            delete offsets[message.filterId];
+        } else {
+            offsets[message.filterId] = Math.round(message.offset);
+        }
+    }
+
+    measureFilterOffsets=async(ct:CancellationToken, message:{filterIds?: string[]}):Promise<FilterFocusOffsets>=>{
+        return await createTask<FilterFocusOffsets>(ct, async (task)=>{
+            if (this.currentPromise !== null) {
+                throw new Error("Focus already started");
+            }
+            const config = this.getCurrentConfiguration();
+            const filterWheel = this.camera.currentStatus.dynStateByDevices[config.camera].filterWheelDevice;
+            if (filterWheel === undefined || filterWheel === null) {
+                throw new Error("Camera has no filterwheel");
+            }
+            if (!hasKey(this.context.filterWheel.currentStatus.dynStateByDevices, filterWheel)) {
+                throw new Error("Filter wheel not available");
+            }
+            const filterIds = message.filterIds !== undefined
+                    ? message.filterIds
+                    : this.context.filterWheel.currentStatus.dynStateByDevices[filterWheel].filterIds;
+            if (filterIds.length < 2) {
+                throw new Error("At least two filters are required");
+            }
+
+            this.currentPromise = task;
+            this.currentStatus.filterOffsetWizard = {
+                status: "running",
+                camera: config.camera,
+                focuser: config.focuser,
+                filterWheel,
+                currentFilter: null,
+                positions: {},
+                error: null,
+            };
+            const wizard = this.currentStatus.filterOffsetWizard;
+            try {
+                for(const filterId of filterIds) {
+                    wizard.currentFilter = filterId;
+                    // The offsets being measured must not move the focuser
+                    await this.context.filterWheel.changeFilter(task.cancellation, {
+                        cameraDeviceId: config.camera,
+                        filterWheelDeviceId: filterWheel,
+                        filterId,
+                        skipFocusOffset: true,
+                    });
+
+                    this.resetCurrent('running');
+                    let position: number|null;
+                    try {
+                        position = await this.runFocus(task.cancellation, config.camera);
+                        this.setCurrentStatus('done', null);
+                    } catch(e) {
+                        if (e instanceof CancellationToken.CancellationError) {
+                            this.setCurrentStatus('interrupted', e);
+                            throw e;
+                        }
+                        this.setCurrentStatus('error', e);
+                        position = null;
+                    }
+                    wizard.positions[filterId] = position;
+                }
+                wizard.currentFilter = null;
+
+                // Offsets are relative to the first filter that could be focused
+                const measured = filterIds.filter(id=>wizard.positions[id] !== null);
+                if (measured.length < 2) {
+                    throw new Error("Autofocus succeeded for less than two filters");
+                }
+                const reference = wizard.positions[measured[0]]!;
+                const offsets: FilterFocusOffsets = {};
+                for(const filterId of measured) {
+                    offsets[filterId] = Math.round(wizard.positions[filterId]! - reference);
+                }
+
+                // Previous values for filters that were not measured are meaningless now
+                if (!hasKey(this.currentStatus.config.filterOffsets, config.focuser)) {
+                    this.currentStatus.config.filterOffsets[config.focuser] = {};
+                }
+                this.currentStatus.config.filterOffsets[config.focuser][filterWheel] = offsets;
+
+                wizard.status = "done";
+                return offsets;
+            } catch(e) {
+                wizard.status = (e instanceof CancellationToken.CancellationError) ? "interrupted" : "error";
+                wizard.error = '' + (e.message || e);
+                throw e;
+            } finally {
+                this.currentPromise = null;
+            }
+        });
+    }
+
+    setRelativePosition=async(ct:CancellationToken, message:{focuser: string, position: number})=>{
+        if (typeof message.position !== "number" || !isFinite(message.position)) {
+            throw new Error("Invalid position");
+        }
+        if (this.currentPromise !== null) {
+            throw new Error("Focus is running");
+        }
+        await this.queueMove(message.focuser, async()=>this.getFocuserMotion(message.focuser).setPosition(message.position));
+    }
+
+    listFocusRuns=async(ct:CancellationToken, message:{focuser?: string, since?: number}):Promise<BackOfficeAPI.FocusRunSummary[]>=>{
+        const history = this.currentStatus.history;
+        return Object.keys(history)
+            .filter(id=>(message.focuser === undefined || history[id].focuser === message.focuser)
+                        && (message.since === undefined || history[id].time >= message.since))
+            .sort((a, b)=>history[b].time - history[a].time)
+            .map(id=>focusRunSummary(id, history[id]));
+    }
+
+    private getHistoryRun(id: string): AutoFocusRun {
+        if (!hasKey(this.currentStatus.history, id)) {
+            throw new Error("Focus run not found: " + id);
+        }
+        return this.currentStatus.history[id];
+    }
+
+    getFocusRun=async(ct:CancellationToken, message:{id: string}):Promise<BackOfficeAPI.FocusRunReport>=>{
+        const run = deepCopy(this.getHistoryRun(message.id));
+        return {
+            ...run,
+            id: message.id,
+            predicted: run.model !== null && run.firstStep !== null && run.lastStep !== null
+                ? sampleFocusCurve(run.model, run.firstStep, run.lastStep)
+                : {},
+        };
+    }
+
+    removeFocusRun=async(ct:CancellationToken, message:{id: string})=>{
+        this.getHistoryRun(message.id);
+        delete this.currentStatus.history[message.id];
+    }
+
+    exportFocusRuns=async(ct:CancellationToken, message:{ids?: string[]}):Promise<string>=>{
+        const history = this.currentStatus.history;
+        const ids = message.ids !== undefined
+            ? message.ids
+            : Object.keys(history).sort((a, b)=>history[a].time - history[b].time);
+        return focusRunsToCsv(ids.map(id=>({id, run: this.getHistoryRun(id)})));
+    }
+
     abort=async(ct:CancellationToken, message: {})=>{
         if (this.currentPromise !== null) {
             this.currentPromise.cancel();
@@ -0,0 +1,137 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+import CancellationToken from 'cancellationtoken';
+
+import FocuserMotion, { backlashIntermediate, clampPosition, FocuserDriver } from "./FocuserMotion";
+
+class SimulatedFocuser implements FocuserDriver {
+    // Real position of the focuser
+    position: number;
+    readonly absolute: boolean;
+    readonly max: number|null;
+    readonly maxRelativeMove: number|null;
+    readonly moves: number[] = [];
+
+    constructor(options: {position: number, absolute: boolean, max: number|null, maxRelativeMove?: number}) {
+        this.position = options.position;
+        this.absolute = options.absolute;
+        this.max = options.max;
+        this.maxRelativeMove = options.maxRelativeMove !== undefined ? options.maxRelativeMove : null;
+    }
+
+    getAbsolutePosition() {
+        return this.absolute ? this.position : null;
+    }
+
+    getMinPosition() {
+        return this.absolute ? 0 : null;
+    }
+
+    getMaxPosition() {
+        return this.max;
+    }
+
+    getMaxRelativeMove() {
+        return this.maxRelativeMove;
+    }
+
+    isReady() {
+        return true;
+    }
+
+    private check(position: number) {
+        if (position < 0 || (this.max !== null && position > this.max)) {
+            throw new Error("Out of travel: " + position);
+        }
+        this.position = position;
+    }
+
+    async moveAbsolute(ct: CancellationToken, position: number) {
+        assert.isTrue(this.absolute);
+        this.moves.push(position);
+        this.check(position);
+    }
+
+    async moveRelative(ct: CancellationToken, steps: number) {
+        if (this.maxRelativeMove !== null) {
+            assert.isAtMost(Math.abs(steps), this.maxRelativeMove);
+        }
+        this.moves.push(steps);
+        this.check(this.position + steps);
+    }
+}
+
+function trackerFor() {
+    let value: number|undefined;
+    return {
+        get: ()=>value,
+        set: (p: number)=>{ value = p; },
+    };
+}
+
+const ct = CancellationToken.CONTINUE;
+
+describe("FocuserMotion", () => {
+    it("Clamps backlash intermediates", () => {
+        const bounds = {min: 0, max: 10000};
+        assert.equal(backlashIntermediate({backlash: 200, lowestFirst: false}, 5000, 6000, bounds), 6200);
+        assert.equal(backlashIntermediate({backlash: 200, lowestFirst: false}, 6000, 5000, bounds), undefined);
+        assert.equal(backlashIntermediate({backlash: 200, lowestFirst: false}, 9000, 9900, bounds), 10000);
+        assert.equal(backlashIntermediate({backlash: 200, lowestFirst: false}, 9000, 10000, bounds), undefined);
+        assert.equal(backlashIntermediate({backlash: 200, lowestFirst: true}, 500, 100, bounds), 0);
+        assert.equal(backlashIntermediate({backlash: 0, lowestFirst: true}, 500, 100, bounds), undefined);
+        assert.equal(clampPosition(-5, {min: null, max: null}), -5);
+    });
+
+    it("Moves absolute focusers within their travel", async () => {
+        const focuser = new SimulatedFocuser({position: 9000, absolute: true, max: 10000});
+        const motion = new FocuserMotion(focuser, trackerFor());
+        assert.deepEqual(motion.getBounds(), {min: 0, max: 10000});
+        await motion.moveWithBacklash(ct, {backlash: 500, lowestFirst: false}, 9800);
+        assert.deepEqual(focuser.moves, [10000, 9800]);
+        await motion.moveWithBacklash(ct, {backlash: 500, lowestFirst: false}, 12000);
+        assert.equal(focuser.position, 10000);
+        expect(()=>motion.checkRange(9500, 10500)).to.throw("Focuser range [9500, 10500] exceeds the focuser travel [0, 10000]");
+        expect(()=>motion.checkRange(-100, 900)).to.throw("exceeds the focuser travel");
+        motion.checkRange(9000, 10000);
+    });
+
+    it("Tracks the position of relative focusers", async () => {
+        const focuser = new SimulatedFocuser({position: 2000, absolute: false, max: 4000, maxRelativeMove: 300});
+        const tracker = trackerFor();
+        const motion = new FocuserMotion(focuser, tracker);
+        assert.isTrue(motion.isRelative());
+        // Middle of the travel until set
+        assert.equal(motion.getPosition(), 2000);
+
+        await motion.moveWithBacklash(ct, {backlash: 100, lowestFirst: true}, 1500);
+        assert.deepEqual(focuser.moves, [-300, -300, 100]);
+        assert.equal(focuser.position, 1500);
+        assert.equal(motion.getPosition(), 1500);
+        assert.equal(tracker.get(), 1500);
+
+        // Clamped moves
+        await motion.moveTo(ct, 5000);
+        assert.equal(focuser.position, 4000);
+        assert.equal(motion.getPosition(), 4000);
+        expect(()=>motion.checkRange(3000, 4500)).to.throw("exceeds the focuser travel [0, 4000]");
+
+        motion.setPosition(0);
+        assert.equal(motion.getPosition(), 0);
+    });
+
+    it("Leaves relative focusers without travel unbounded", async () => {
+        const focuser = new SimulatedFocuser({position: 1000, absolute: false, max: null});
+        const motion = new FocuserMotion(focuser, trackerFor());
+        assert.deepEqual(motion.getBounds(), {min: null, max: null});
+        assert.equal(motion.getPosition(), 0);
+        motion.checkRange(-500, 500);
+        await motion.moveTo(ct, -500);
+        assert.deepEqual(focuser.moves, [-500]);
+        assert.equal(focuser.position, 500);
+        assert.equal(motion.getPosition(), -500);
+
+        const absolute = new FocuserMotion(new SimulatedFocuser({position: 10, absolute: true, max: null}), trackerFor());
+        expect(()=>absolute.setPosition(0)).to.throw("The position of absolute focusers can't be set");
+    });
+});
@@ -0,0 +1,161 @@
+import CancellationToken from 'cancellationtoken';
+import { FocuserSettings } from './shared/BackOfficeStatus';
+
+// What the focuser offers. Positions are in steps
+export interface FocuserDriver {
+    // ABS_FOCUS_POSITION. null for relative only focusers, throw if the value is not valid
+    getAbsolutePosition(): number|null;
+    // Lower limit of absolute positions
+    getMinPosition(): number|null;
+    // FOCUS_MAX, else the $max of the absolute position. null if unknown
+    getMaxPosition(): number|null;
+    // Largest relative move accepted at once. null if unknown
+    getMaxRelativeMove(): number|null;
+    isReady(): boolean;
+    moveAbsolute(ct: CancellationToken, position: number): Promise<void>;
+    // Positive steps move outward
+    moveRelative(ct: CancellationToken, steps: number): Promise<void>;
+}
+
+// Where the position of relative focusers is kept
+export interface PositionTracker {
+    get(): number|undefined;
+    set(position: number): void;
+}
+
+// null when unbounded
+export type FocuserBounds = {
+    min: number|null;
+    max: number|null;
+};
+
+export type BacklashSettings = Pick<FocuserSettings, "backlash"|"lowestFirst">;
+
+export function clampPosition(position: number, bounds: FocuserBounds): number {
+    if (bounds.min !== null && position < bounds.min) {
+        return bounds.min;
+    }
+    if (bounds.max !== null && position > bounds.max) {
+        return bounds.max;
+    }
+    return position;
+}
+
+function formatBounds(bounds: FocuserBounds) {
+    return "[" + (bounds.min !== null ? bounds.min : "-∞") + ", " + (bounds.max !== null ? bounds.max : "+∞") + "]";
+}
+
+// Position to reach before the target, so that the final approach is always done in the lowestFirst direction
+export function backlashIntermediate(settings: BacklashSettings, from: number, target: number, bounds: FocuserBounds): number|undefined {
+    if (settings.backlash === 0) {
+        return undefined;
+    }
+    let intermediate: number|undefined;
+    if (settings.lowestFirst) {
+        if (target < from) {
+            intermediate = target - settings.backlash;
+        }
+    } else {
+        if (target > from) {
+            intermediate = target + settings.backlash;
+        }
+    }
+    if (intermediate === undefined) {
+        return undefined;
+    }
+    intermediate = clampPosition(intermediate, bounds);
+    return intermediate !== target ? intermediate : undefined;
+}
+
+export default class FocuserMotion {
+    private readonly driver: FocuserDriver;
+    private readonly tracker: PositionTracker;
+
+    constructor(driver: FocuserDriver, tracker: PositionTracker) {
+        this.driver = driver;
+        this.tracker = tracker;
+    }
+
+    isRelative() {
+        return this.driver.getAbsolutePosition() === null;
+    }
+
+    isReady() {
+        return this.driver.isReady();
+    }
+
+    // Relative focusers without known travel are unbounded. Otherwise, their travel starts at 0
+    getBounds(): FocuserBounds {
+        const max = this.driver.getMaxPosition();
+        if (this.isRelative()) {
+            return max !== null ? {min: 0, max} : {min: null, max: null};
+        }
+        const driverMin = this.driver.getMinPosition();
+        const min = driverMin !== null ? driverMin : 0;
+        return {min, max: max !== null && max > min ? max : null};
+    }
+
+    // Relative focusers start at the middle of their travel until the position is set
+    getPosition(): number {
+        const absolute = this.driver.getAbsolutePosition();
+        if (absolute !== null) {
+            return absolute;
+        }
+        const tracked = this.tracker.get();
+        if (tracked !== undefined) {
+            return tracked;
+        }
+        const max = this.driver.getMaxPosition();
+        return max !== null ? Math.round(max / 2) : 0;
+    }
+
+    // Declare the current position of a relative focuser
+    setPosition(position: number) {
+        if (!this.isRelative()) {
+            throw new Error("The position of absolute focusers can't be set");
+        }
+        this.tracker.set(Math.round(position));
+    }
+
+    // Throw if a run between these positions would exceed the travel
+    checkRange(from: number, to: number) {
+        const bounds = this.getBounds();
+        const low = Math.min(from, to);
+        const high = Math.max(from, to);
+        if ((bounds.min !== null && low < bounds.min) || (bounds.max !== null && high > bounds.max)) {
+            throw new Error("Focuser range [" + low + ", " + high + "] exceeds the focuser travel " + formatBounds(bounds));
+        }
+    }
+
+    async moveTo(ct: CancellationToken, target: number) {
+        target = Math.round(clampPosition(target, this.getBounds()));
+        if (!this.isRelative()) {
+            await this.driver.moveAbsolute(ct, target);
+            return;
+        }
+
+        const maxMove = this.driver.getMaxRelativeMove();
+        let position = this.getPosition();
+        while(position !== target) {
+            let steps = target - position;
+            if (maxMove !== null && maxMove > 0 && Math.abs(steps) > maxMove) {
+                steps = Math.sign(steps) * maxMove;
+            }
+            await this.driver.moveRelative(ct, steps);
+            position += steps;
+            this.tracker.set(position);
+        }
+    }
+
+    async moveWithBacklash(ct: CancellationToken, settings: BacklashSettings, target: number) {
+        const bounds = this.getBounds();
+        target = Math.round(clampPosition(target, bounds));
+        const intermediate = backlashIntermediate(settings, this.getPosition(), target, bounds);
+        if (intermediate !== undefined) {
+            console.log('Focuser moving with backlash to : ', intermediate, target);
+            await this.moveTo(ct, intermediate);
+        }
+        console.log('Focuser moving to : ', target);
+        await this.moveTo(ct, target);
+    }
+}
@@ -0,0 +1,272 @@
+import CancellationToken from 'cancellationtoken';
+import { ExpressApplication, AppContext } from "./ModuleBase";
+import { BackofficeStatus, LightBoxStatus, IndiVector } from './shared/BackOfficeStatus';
+import JsonProxy from './JsonProxy';
+import { hasKey } from './Obj';
+import { DriverInterface } from './Indi';
+import * as RequestHandler from "./RequestHandler";
+import * as BackOfficeAPI from "./shared/BackOfficeAPI";
+
+// What the scope must see for a frame type
+export type ScopeState = "light"|"dark"|"flat";
+
+function parseNumber(s: string|undefined): number|null {
+    if (s === undefined) {
+        return null;
+    }
+    const v = parseFloat(s);
+    return isNaN(v) ? null : v;
+}
+
+// Flat panels (INDI LIGHT_BOX) and dust caps (INDI DUST_CAP), associated to cameras like filter wheels and focusers
+export default class LightBox
+        implements RequestHandler.APIAppProvider<BackOfficeAPI.LightBoxAPI>
+{
+    appStateManager: JsonProxy<BackofficeStatus>;
+    currentStatus: LightBoxStatus;
+    context: AppContext;
+    get indiManager() { return this.context.indiManager };
+
+    constructor(app:ExpressApplication, appStateManager:JsonProxy<BackofficeStatus>, context:AppContext) {
+        this.appStateManager = appStateManager;
+        this.appStateManager.getTarget().lightBox = {
+            availableLightBoxes: [],
+            availableDustCaps: [],
+            lightBoxes: {},
+            dustCaps: {},
+        };
+
+        this.currentStatus = this.appStateManager.getTarget().lightBox;
+        this.context = context;
+
+        context.indiManager.createDeviceListSynchronizer((devs:string[])=> {
+            this.currentStatus.availableLightBoxes = devs;
+        }, undefined, DriverInterface.LIGHTBOX);
+
+        context.indiManager.createDeviceListSynchronizer((devs:string[])=> {
+            this.currentStatus.availableDustCaps = devs;
+        }, undefined, DriverInterface.DUSTCAP);
+
+        this.appStateManager.addSynchronizer(
+            [
+                [
+                    [ 'lightBox', 'availableLightBoxes' ],
+                    [ 'indiManager', 'deviceTree', null, 'FLAT_LIGHT_CONTROL' ],
+                    [ 'indiManager', 'deviceTree', null, 'FLAT_LIGHT_INTENSITY' ],
+                ]
+            ],
+            this.updateLightBoxes,
+            true
+        );
+
+        this.appStateManager.addSynchronizer(
+            [
+                [
+                    [ 'lightBox', 'availableDustCaps' ],
+                    [ 'indiManager', 'deviceTree', null, 'CAP_PARK' ],
+                ]
+            ],
+            this.updateDustCaps,
+            true
+        );
+
+        this.createCameraDeviceSelector('availableLightBoxes', 'preferedLightBoxDevice', 'lightBoxDevice');
+        this.createCameraDeviceSelector('availableDustCaps', 'preferedDustCapDevice', 'dustCapDevice');
+    }
+
+    // Keep the device of each camera in sync with its preference
+    private createCameraDeviceSelector(available: 'availableLightBoxes'|'availableDustCaps',
+                                        prefered: 'preferedLightBoxDevice'|'preferedDustCapDevice',
+                                        current: 'lightBoxDevice'|'dustCapDevice')
+    {
+        this.indiManager.createMultiPreferredDeviceSelector({
+            availablePreferedCurrentPath:
+                [
+                    [
+                        ['lightBox', available],
+                        ['camera', 'configuration', 'deviceSettings', null, prefered],
+                        ['camera', 'dynStateByDevices', null, current]
+                    ]
+                ]
+            ,
+            list:()=>Object.keys(this.context.camera.currentStatus.dynStateByDevices),
+            read:(camId:string)=>{
+                const camStatus = this.context.camera.currentStatus;
+                if (!hasKey(camStatus.dynStateByDevices, camId)) {
+                    return null;
+                }
+                if (!hasKey(camStatus.configuration.deviceSettings, camId)) {
+                    return null;
+                }
+                return {
+                    available: this.currentStatus[available],
+                    current: camStatus.dynStateByDevices[camId][current] || null,
+                    prefered: camStatus.configuration.deviceSettings[camId][prefered] || null,
+                }
+            },
+            set:(camId: string, values) => {
+                const camStatus = this.context.camera.currentStatus;
+                if (values.current !== undefined) {
+                    camStatus.dynStateByDevices[camId][current] = values.current;
+                }
+                if (values.prefered !== undefined) {
+                    camStatus.configuration.deviceSettings[camId][prefered] = values.prefered;
+                }
+            }
+        });
+    }
+
+    private getVectorInTree(deviceId: string, vectorId: string): IndiVector|null {
+        const tree = this.indiManager.currentStatus.deviceTree;
+        if (!hasKey(tree, deviceId) || !hasKey(tree[deviceId], vectorId)) {
+            return null;
+        }
+        return tree[deviceId][vectorId];
+    }
+
+    private updateLightBoxes=()=> {
+        const lightBoxes: LightBoxStatus["lightBoxes"] = {};
+        for(const id of this.currentStatus.availableLightBoxes) {
+            const control = this.getVectorInTree(id, 'FLAT_LIGHT_CONTROL');
+            const intensity = this.getVectorInTree(id, 'FLAT_LIGHT_INTENSITY');
+            const intensityValue = intensity && hasKey(intensity.childs, 'FLAT_LIGHT_INTENSITY_VALUE')
+                    ? intensity.childs.FLAT_LIGHT_INTENSITY_VALUE : null;
+            lightBoxes[id] = {
+                lightOn: control && hasKey(control.childs, 'FLAT_LIGHT_ON') ? control.childs.FLAT_LIGHT_ON.$_ === 'On' : null,
+                brightness: intensityValue ? parseNumber(intensityValue.$_) : null,
+                brightnessMin: intensityValue ? parseNumber(intensityValue.$min) : null,
+                brightnessMax: intensityValue ? parseNumber(intensityValue.$max) : null,
+            };
+        }
+        this.currentStatus.lightBoxes = lightBoxes;
+    }
+
+    private updateDustCaps=()=> {
+        const dustCaps: LightBoxStatus["dustCaps"] = {};
+        for(const id of this.currentStatus.availableDustCaps) {
+            const park = this.getVectorInTree(id, 'CAP_PARK');
+            dustCaps[id] = {
+                closed: park && hasKey(park.childs, 'PARK') ? park.childs.PARK.$_ === 'On' : null,
+                busy: !!park && park.$state === 'Busy',
+            };
+        }
+        this.currentStatus.dustCaps = dustCaps;
+    }
+
+    private getCameraDevices(cameraId: string) {
+        const dynState = this.context.camera.currentStatus.dynStateByDevices;
+        if (!hasKey(dynState, cameraId)) {
+            return {lightBox: null, dustCap: null};
+        }
+        return {
+            lightBox: dynState[cameraId].lightBoxDevice || null,
+            dustCap: dynState[cameraId].dustCapDevice || null,
+        };
+    }
+
+    // True when the devices of the camera can reach the state without help
+    public canSetScopeState(cameraId: string, state: ScopeState): boolean {
+        const devices = this.getCameraDevices(cameraId);
+        if (devices.dustCap === null) {
+            return false;
+        }
+        return state !== "flat" || devices.lightBox !== null;
+    }
+
+    // Drive the devices of the camera for the state: the light is on for flats only, the cap is open for lights only.
+    // Without a light box, the cap is not closed for flats: they are taken on another light source
+    public async setScopeState(ct: CancellationToken, cameraId: string, state: ScopeState) {
+        const devices = this.getCameraDevices(cameraId);
+        if (devices.lightBox !== null && state !== "flat") {
+            await this.doSwitchLight(ct, devices.lightBox, false);
+        }
+        if (devices.dustCap !== null && (state !== "flat" || devices.lightBox !== null)) {
+            await this.doMoveDustCap(ct, devices.dustCap, state !== "light");
+        }
+        if (devices.lightBox !== null && state === "flat") {
+            await this.doSwitchLight(ct, devices.lightBox, true);
+        }
+    }
+
+    private checkAlert(deviceId: string, vectorId: string, what: string) {
+        const vec = this.getVectorInTree(deviceId, vectorId);
+        if (vec !== null && vec.$state === 'Alert') {
+            throw new Error(what + " failed for " + deviceId);
+        }
+    }
+
+    private async doSwitchLight(ct: CancellationToken, deviceId: string, on: boolean) {
+        await this.indiManager.setParam(ct, deviceId, 'FLAT_LIGHT_CONTROL', on ? {FLAT_LIGHT_ON: 'On'} : {FLAT_LIGHT_OFF: 'On'});
+        this.checkAlert(deviceId, 'FLAT_LIGHT_CONTROL', on ? "Light on" : "Light off");
+    }
+
+    private async doMoveDustCap(ct: CancellationToken, deviceId: string, closed: boolean) {
+        await this.indiManager.setParam(ct, deviceId, 'CAP_PARK', closed ? {PARK: 'On'} : {UNPARK: 'On'});
+        this.checkAlert(deviceId, 'CAP_PARK', closed ? "Closing cap" : "Opening cap");
+    }
+
+    private checkCamera(cameraDeviceId: string) {
+        if (!hasKey(this.context.camera.currentStatus.dynStateByDevices, cameraDeviceId)) {
+            throw new Error("Invalid camera");
+        }
+    }
+
+    setLightBox=async (ct: CancellationToken, payload:{cameraDeviceId:string, lightBoxDeviceId: string|null})=>{
+        this.checkCamera(payload.cameraDeviceId);
+        if ((payload.lightBoxDeviceId !== null) && this.currentStatus.availableLightBoxes.indexOf(payload.lightBoxDeviceId) === -1) {
+            throw new Error("Invalid light box");
+        }
+        const camStatus = this.context.camera.currentStatus;
+        camStatus.dynStateByDevices[payload.cameraDeviceId].lightBoxDevice = payload.lightBoxDeviceId;
+        camStatus.configuration.deviceSettings[payload.cameraDeviceId].preferedLightBoxDevice = payload.lightBoxDeviceId;
+    }
+
+    setDustCap=async (ct: CancellationToken, payload:{cameraDeviceId:string, dustCapDeviceId: string|null})=>{
+        this.checkCamera(payload.cameraDeviceId);
+        if ((payload.dustCapDeviceId !== null) && this.currentStatus.availableDustCaps.indexOf(payload.dustCapDeviceId) === -1) {
+            throw new Error("Invalid dust cap");
+        }
+        const camStatus = this.context.camera.currentStatus;
+        camStatus.dynStateByDevices[payload.cameraDeviceId].dustCapDevice = payload.dustCapDeviceId;
+        camStatus.configuration.deviceSettings[payload.cameraDeviceId].preferedDustCapDevice = payload.dustCapDeviceId;
+    }
+
+    switchLight=async (ct: CancellationToken, payload:{lightBoxDeviceId: string, on: boolean})=>{
+        if (this.currentStatus.availableLightBoxes.indexOf(payload.lightBoxDeviceId) === -1) {
+            throw new Error("Invalid light box");
+        }
+        await this.doSwitchLight(ct, payload.lightBoxDeviceId, payload.on);
+    }
+
+    setBrightness=async (ct: CancellationToken, payload:{lightBoxDeviceId: string, brightness: number})=>{
+        if (!hasKey(this.currentStatus.lightBoxes, payload.lightBoxDeviceId)) {
+            throw new Error("Invalid light box");
+        }
+        const status = this.currentStatus.lightBoxes[payload.lightBoxDeviceId];
+        if (typeof payload.brightness !== "number" || isNaN(payload.brightness)
+                || (status.brightnessMin !== null && payload.brightness < status.brightnessMin)
+                || (status.brightnessMax !== null && payload.brightness > status.brightnessMax)) {
+            throw new Error("Invalid brightness: " + payload.brightness);
+        }
+        await this.indiManager.setParam(ct, payload.lightBoxDeviceId, 'FLAT_LIGHT_INTENSITY', {
+            FLAT_LIGHT_INTENSITY_VALUE: '' + payload.brightness
+        });
+    }
+
+    moveDustCap=async (ct: CancellationToken, payload:{dustCapDeviceId: string, closed: boolean})=>{
+        if (this.currentStatus.availableDustCaps.indexOf(payload.dustCapDeviceId) === -1) {
+            throw new Error("Invalid dust cap");
+        }
+        await this.doMoveDustCap(ct, payload.dustCapDeviceId, payload.closed);
+    }
+
+    getAPI() {
+        return {
+            setLightBox: this.setLightBox,
+            setDustCap: this.setDustCap,
+            switchLight: this.switchLight,
+            setBrightness: this.setBrightness,
+            moveDustCap: this.moveDustCap,
+        }
+    }
+}
@@ -0,0 +1,27 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+
+import { getFlipDecision } from "./MeridianFlip";
+
+describe("MeridianFlip", () => {
+    it("No flip before the limit", () => {
+        assert.equal(getFlipDecision(-1, "west", 5, 300), "none");
+        assert.equal(getFlipDecision(0, "west", 10, 300), "none");
+    });
+
+    it("Flip past the meridian", () => {
+        assert.equal(getFlipDecision(4 / 60, "west", 5, 120), "flip");
+        assert.equal(getFlipDecision(6 / 60, "west", 5, 0), "flip");
+        assert.equal(getFlipDecision(6 / 60, null, 5, 0), "flip");
+    });
+
+    it("Wait for the meridian when the frame would cross the limit", () => {
+        assert.equal(getFlipDecision(-2 / 60, "west", 0, 300), "wait");
+        assert.equal(getFlipDecision(-2 / 60, null, 0, 300), "wait");
+    });
+
+    it("Nothing to do once flipped", () => {
+        assert.equal(getFlipDecision(2, "east", 5, 300), "none");
+        assert.equal(getFlipDecision(-0.01, "east", 0, 300), "none");
+    });
+});
@@ -0,0 +1,261 @@
+import CancellationToken from 'cancellationtoken';
+import { ExpressApplication, AppContext } from "./ModuleBase";
+import { BackofficeStatus, MeridianFlipStatus, MeridianFlipSettings } from './shared/BackOfficeStatus';
+import JsonProxy from './JsonProxy';
+import ConfigStore from './ConfigStore';
+import * as RequestHandler from "./RequestHandler";
+import * as BackOfficeAPI from "./shared/BackOfficeAPI";
+import * as Ephemeris from './Ephemeris';
+import SkyProjection from './SkyAlgorithms/SkyProjection';
+import Timeout from './Timeout';
+
+export type PierSide = MeridianFlipStatus["pierSide"];
+
+export type FlipDecision = "none"|"wait"|"flip";
+
+type MountState = {
+    scope: string;
+    pierSide: PierSide;
+    // JNOW, degrees
+    raDec: number[];
+    // Hours, positive past the meridian
+    hourAngle: number;
+};
+
+// Decide what to do before an exposure of the given duration (seconds).
+// The mount only changes side when ordered past the meridian, so a frame that would cross
+// the limit while still before the meridian has to wait.
+export function getFlipDecision(hourAngle: number, pierSide: PierSide, offset: number, exposure: number): FlipDecision {
+    // Pointing west already: flip is done
+    if (pierSide === "east") {
+        return "none";
+    }
+    const limit = offset / 60;
+    if (hourAngle + exposure / 3600 < limit) {
+        return "none";
+    }
+    if (hourAngle < 0) {
+        return "wait";
+    }
+    return "flip";
+}
+
+// Positions closer than that (degrees) are considered the same target
+const sameTargetDistance = 1;
+
+export default class MeridianFlip implements RequestHandler.APIAppProvider<BackOfficeAPI.MeridianFlipAPI> {
+    readonly appStateManager: JsonProxy<BackofficeStatus>;
+    readonly currentStatus: MeridianFlipStatus;
+    readonly context: AppContext;
+    // Used when the mount does not report its pier side
+    private lastFlipRaDec: number[]|null = null;
+
+    get indiManager() { return this.context.indiManager };
+
+    constructor(app:ExpressApplication, appStateManager:JsonProxy<BackofficeStatus>, context:AppContext) {
+        this.appStateManager = appStateManager;
+        this.context = context;
+        this.appStateManager.getTarget().meridianFlip = {
+            configuration: {
+                enabled: false,
+                offset: 5,
+                recenter: true,
+                recenterExposure: 10,
+                guideTimeout: 120,
+            },
+            status: "idle",
+            error: null,
+            pierSide: null,
+            hourAngle: null,
+            lastFlipTime: null,
+        };
+        this.currentStatus = this.appStateManager.getTarget().meridianFlip;
+
+        new ConfigStore<MeridianFlipSettings>(appStateManager, 'meridianFlip', ['meridianFlip', 'configuration'], {
+            enabled: false,
+            offset: 5,
+            recenter: true,
+            recenterExposure: 10,
+            guideTimeout: 120,
+        }, {
+            enabled: true,
+            offset: 5,
+            recenter: true,
+            recenterExposure: 10,
+            guideTimeout: 120,
+        });
+
+        this.appStateManager.addSynchronizer(
+            [
+                [
+                    [ 'astrometry', 'selectedScope' ],
+                    [
+                        'indiManager', 'deviceTree', null,
+                            [
+                                [ 'EQUATORIAL_EOD_COORD', 'childs', null, '$_' ],
+                                [ 'GEOGRAPHIC_COORD', 'childs', null, '$_' ],
+                                [ 'TELESCOPE_PIER_SIDE', 'childs', null, '$_' ],
+                            ]
+                    ],
+                ]
+            ],
+            this.updateMountState,
+            true
+        );
+    }
+
+    getAPI(): RequestHandler.APIAppImplementor<BackOfficeAPI.MeridianFlipAPI> {
+        return {
+            updateCurrentSettings: this.updateCurrentSettings,
+        }
+    }
+
+    updateCurrentSettings = async (ct: CancellationToken, payload: {diff: any}) => {
+        const newSettings = JsonProxy.applyDiff(this.currentStatus.configuration, payload.diff);
+        if (typeof newSettings.offset !== "number" || isNaN(newSettings.offset) || newSettings.offset < 0) {
+            throw new Error("Invalid offset");
+        }
+        this.currentStatus.configuration = newSettings;
+    }
+
+    private readMountState(): MountState {
+        const scope = this.context.astrometry.currentStatus.selectedScope;
+        if (!scope) {
+            throw new Error("No mount selected for astrometry");
+        }
+        const device = this.indiManager.getValidConnection().getDevice(scope);
+
+        const ra = parseFloat(device.getVector('EQUATORIAL_EOD_COORD').getPropertyValue("RA"));
+        const dec = parseFloat(device.getVector('EQUATORIAL_EOD_COORD').getPropertyValue("DEC"));
+        if (isNaN(ra) || isNaN(dec)) {
+            throw new Error("Invalid mount position");
+        }
+        const lat = parseFloat(device.getVector('GEOGRAPHIC_COORD').getPropertyValue("LAT"));
+        const long = parseFloat(device.getVector('GEOGRAPHIC_COORD').getPropertyValue("LONG"));
+        if (isNaN(lat) || isNaN(long)) {
+            throw new Error("Invalid mount geographic coordinates");
+        }
+        const raDec = [ra * 360 / 24, dec];
+
+        const pierVec = device.getVector('TELESCOPE_PIER_SIDE');
+        let pierSide: PierSide = null;
+        if (pierVec.getPropertyValueIfExists('PIER_EAST') === 'On') {
+            pierSide = "east";
+        } else if (pierVec.getPropertyValueIfExists('PIER_WEST') === 'On') {
+            pierSide = "west";
+        }
+
+        return {
+            scope,
+            pierSide,
+            raDec,
+            hourAngle: Ephemeris.getHourAngle(raDec, Date.now(), {lat, long}) / 15,
+        };
+    }
+
+    private updateMountState = ()=> {
+        try {
+            const state = this.readMountState();
+            this.currentStatus.pierSide = state.pierSide;
+            this.currentStatus.hourAngle = state.hourAngle;
+        } catch(e) {
+            this.currentStatus.pierSide = null;
+            this.currentStatus.hourAngle = null;
+        }
+    }
+
+    // Without pier side, assume the flip was done if the mount did not leave the flipped position
+    private getEffectivePierSide(state: MountState): PierSide {
+        if (state.pierSide !== null) {
+            return state.pierSide;
+        }
+        if (this.lastFlipRaDec !== null
+            && SkyProjection.getDegreeDistance(this.lastFlipRaDec, state.raDec) < sameTargetDistance)
+        {
+            return "east";
+        }
+        return null;
+    }
+
+    // What to do before shooting a frame of the given exposure (seconds)
+    checkFlip(exposure: number): FlipDecision {
+        if (!this.currentStatus.configuration.enabled) {
+            return "none";
+        }
+        const state = this.readMountState();
+        this.currentStatus.pierSide = state.pierSide;
+        this.currentStatus.hourAngle = state.hourAngle;
+
+        const decision = getFlipDecision(state.hourAngle, this.getEffectivePierSide(state), this.currentStatus.configuration.offset, exposure);
+        if (decision === "wait") {
+            this.currentStatus.status = "waiting";
+        } else if (this.currentStatus.status === "waiting") {
+            this.currentStatus.status = "idle";
+        }
+        return decision;
+    }
+
+    // Stop guiding, flip by a goto to the current position, recenter and restart guiding
+    async flip(ct: CancellationToken, cameraId: string) {
+        const phd = this.context.phd;
+        const astrometry = this.context.astrometry;
+        const config = this.currentStatus.configuration;
+
+        const before = this.readMountState();
+        const wasGuiding = phd.currentStatus.AppState === "Guiding";
+
+        this.currentStatus.error = null;
+        try {
+            this.currentStatus.status = "flipping";
+            if (wasGuiding) {
+                await phd.stopGuide(ct);
+            }
+
+            console.log('Meridian flip: goto ' + JSON.stringify(before.raDec));
+            await astrometry.goto(ct, {ra: before.raDec[0], dec: before.raDec[1]});
+
+            const after = this.readMountState();
+            if (before.pierSide !== null && after.pierSide === before.pierSide) {
+                throw new Error("Mount did not change pier side");
+            }
+            this.lastFlipRaDec = after.raDec;
+
+            if (config.recenter) {
+                this.currentStatus.status = "recentering";
+                const shootResult = await this.context.camera.doShoot(ct, cameraId, (settings)=>({
+                    ...settings,
+                    type: 'FRAME_LIGHT',
+                    exposure: config.recenterExposure,
+                    prefix: 'flip_ISO8601',
+                }));
+                const result = await astrometry.compute(ct, {image: shootResult.path});
+                if (!result.found) {
+                    throw new Error("Plate solve failed after meridian flip");
+                }
+                await astrometry.sync(ct, {});
+                await astrometry.goto(ct, {ra: before.raDec[0], dec: before.raDec[1]});
+                this.lastFlipRaDec = this.readMountState().raDec;
+            }
+
+            if (wasGuiding) {
+                this.currentStatus.status = "guiding";
+                await phd.startGuide(ct);
+                await Timeout(ct, async (ct: CancellationToken)=> {
+                    await phd.wait(ct, ()=>phd.currentStatus.AppState === "Guiding"
+                                        && !(phd.currentStatus.settling && phd.currentStatus.settling.running));
+                }, config.guideTimeout * 1000, ()=>new Error("Guiding did not restart after meridian flip"));
+            }
+
+            this.currentStatus.status = "done";
+            this.currentStatus.lastFlipTime = Date.now();
+        } catch(e) {
+            if (e instanceof CancellationToken.CancellationError) {
+                this.currentStatus.status = "idle";
+            } else {
+                this.currentStatus.status = "error";
+                this.currentStatus.error = "" + (e.message || e);
+            }
+            throw e;
+        }
+    }
+}
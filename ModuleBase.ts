@@ -3,12 +3,17 @@ import {Application as ExpressApplicationFromExpress} from "express-serve-static
 import Phd from './Phd';
 import Camera from './Camera';
 import Astrometry from './Astrometry';
+import Catalog from './Catalog';
 import IndiManager from "./IndiManager";
 import ImageProcessor from "./ImageProcessor";
 import TriggerExecuter from "./TriggerExecuter";
 import ToolExecuter from "./ToolExecuter";
 import Focuser from "./Focuser";
+import MeridianFlip from "./MeridianFlip";
+import Scheduler from "./Scheduler";
 import FilterWheel from "./FilterWheel";
+import LightBox from "./LightBox";
+import CalibrationLibrary from "./CalibrationLibrary";
 import SequenceManager from "./SequenceManager";
 import Notification from "./Notification";
 
@@ -21,10 +26,15 @@ export type AppContext = {
     camera: Camera;
     sequenceManager: SequenceManager;
     filterWheel: FilterWheel;
+    lightBox: LightBox;
+    calibrationLibrary: CalibrationLibrary;
     triggerExecuter: TriggerExecuter;
     toolExecuter: ToolExecuter;
     focuser: Focuser;
     astrometry: Astrometry;
+    catalog: Catalog;
+    meridianFlip: MeridianFlip;
+    scheduler: Scheduler;
     notification: Notification;
 };
 
@@ -99,6 +99,7 @@ export default class Phd
             exposure: null,
             exposureDurations: [],
             calibration: null,
+            pixelScale: null,
             streamingCamera: null,
             lockPosition: null,
         }
@@ -296,6 +297,24 @@ export default class Phd
         }
     }
 
+    private clearPixelScale = ()=> {
+        this.currentStatus.pixelScale = null;
+    }
+
+    private queryPixelScale = async(ct:CancellationToken)=> {
+        try {
+            const ret = await this.sendOrder(ct, {
+                method: "get_pixel_scale",
+                params:[]
+            });
+            this.currentStatus.pixelScale = ret as PhdStatus["pixelScale"];
+        } catch(e) {
+            if (!(e instanceof CancellationToken.CancellationError)) {
+                this.clearPixelScale();
+            }
+        }
+    }
+
     private clearLockPosition = ()=>{
         this.currentStatus.lockPosition = null;
     }
@@ -494,6 +513,7 @@ export default class Phd
         this.clearCurrentEquipment();
         this.clearExposureDurations();
         this.clearLockPosition();
+        this.clearPixelScale();
     }
 
     private polling: boolean = false;
@@ -510,6 +530,7 @@ export default class Phd
                     this.queryExposure(CancellationToken.CONTINUE),
                     this.queryCalibration(CancellationToken.CONTINUE),
                     this.queryLockPosition(CancellationToken.CONTINUE),
+                    this.queryPixelScale(CancellationToken.CONTINUE),
             ]);
         } finally {
             this.polling = false;
@@ -0,0 +1,37 @@
+import { CameraRoi } from './shared/BackOfficeStatus';
+
+// Unbinned pixels, like CCD_FRAME
+export type SensorSize = {
+    w: number;
+    h: number;
+};
+
+export function fullFrame(sensor: SensorSize): CameraRoi {
+    return {x: 0, y: 0, w: Math.floor(sensor.w), h: Math.floor(sensor.h)};
+}
+
+// Keep the subframe within the sensor, by reducing it
+export function clampRoi(roi: CameraRoi, sensor: SensorSize): CameraRoi {
+    const full = fullFrame(sensor);
+    const x = Math.min(Math.max(Math.floor(roi.x), 0), full.w - 1);
+    const y = Math.min(Math.max(Math.floor(roi.y), 0), full.h - 1);
+    return {
+        x,
+        y,
+        w: Math.max(Math.min(Math.floor(roi.w), full.w - x), 1),
+        h: Math.max(Math.min(Math.floor(roi.h), full.h - y), 1),
+    };
+}
+
+// Subframe of the given size centered on a point, moved to stay within the sensor
+export function centeredRoi(cx: number, cy: number, w: number, h: number, sensor: SensorSize): CameraRoi {
+    const full = fullFrame(sensor);
+    w = Math.min(Math.floor(w), full.w);
+    h = Math.min(Math.floor(h), full.h);
+    return {
+        x: Math.min(Math.max(Math.round(cx - w / 2), 0), full.w - w),
+        y: Math.min(Math.max(Math.round(cy - h / 2), 0), full.h - h),
+        w,
+        h,
+    };
+}
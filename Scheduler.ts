@@ -0,0 +1,205 @@
+import {v4 as uuidv4} from 'node-uuid';
+import CancellationToken from 'cancellationtoken';
+import { ExpressApplication, AppContext } from "./ModuleBase";
+import { BackofficeStatus, SchedulerStatus, SchedulerWindow } from './shared/BackOfficeStatus';
+import JsonProxy from './JsonProxy';
+import ConfigStore from './ConfigStore';
+import * as RequestHandler from "./RequestHandler";
+import * as BackOfficeAPI from "./shared/BackOfficeAPI";
+import { hasKey } from './Obj';
+import { Task, createTask } from "./Task";
+import Sleep from './Sleep';
+import { parseLocalTime } from './SequenceConditions';
+import { QueueRunner, SchedulerClock, computePlan, runQueue } from './SchedulerLogic';
+
+const systemClock: SchedulerClock = {
+    now: ()=>Date.now(),
+    sleep: Sleep,
+};
+
+// Runs the sequences of a queue, one after the other, according to their priority and window
+export default class Scheduler implements RequestHandler.APIAppProvider<BackOfficeAPI.SchedulerAPI> {
+    readonly appStateManager: JsonProxy<BackofficeStatus>;
+    readonly currentStatus: SchedulerStatus;
+    readonly context: AppContext;
+    private runningTask: Task<void>|null = null;
+
+    constructor(app:ExpressApplication, appStateManager:JsonProxy<BackofficeStatus>, context:AppContext) {
+        this.appStateManager = appStateManager;
+        this.context = context;
+        this.appStateManager.getTarget().scheduler = {
+            queue: {
+                list: [],
+                byuuid: {},
+            },
+            status: "idle",
+            current: null,
+            message: null,
+            plan: [],
+            planTime: null,
+        };
+        this.currentStatus = this.appStateManager.getTarget().scheduler;
+
+        new ConfigStore<SchedulerStatus["queue"]>(appStateManager, 'scheduler', ['scheduler', 'queue'], {
+            list: [],
+            byuuid: {},
+        }, {
+            list: [],
+            byuuid: {},
+        });
+
+        this.updatePlan();
+    }
+
+    getAPI(): RequestHandler.APIAppImplementor<BackOfficeAPI.SchedulerAPI> {
+        return {
+            addSchedulerEntry: this.addSchedulerEntry,
+            updateSchedulerEntry: this.updateSchedulerEntry,
+            removeSchedulerEntry: this.removeSchedulerEntry,
+            moveSchedulerEntry: this.moveSchedulerEntry,
+            startScheduler: this.startScheduler,
+            stopScheduler: this.stopScheduler,
+        }
+    }
+
+    private getGeoCoords() {
+        return this.context.sequenceManager.getSkyEnvironment(null).geoCoords;
+    }
+
+    private updatePlan() {
+        const now = Date.now();
+        this.currentStatus.plan = computePlan(
+                this.currentStatus.queue,
+                this.context.sequenceManager.currentStatus.sequences.byuuid,
+                {now, geoCoords: this.getGeoCoords()});
+        this.currentStatus.planTime = now;
+    }
+
+    private static checkWindow(window: SchedulerWindow) {
+        for(const time of [window.start, window.end]) {
+            if (time !== null) {
+                parseLocalTime(time);
+            }
+        }
+        if (window.minAltitude !== null && (typeof window.minAltitude !== "number" || window.minAltitude < -90 || window.minAltitude > 90)) {
+            throw new Error("Altitude must be between -90 and 90");
+        }
+    }
+
+    private findEntry(entryUid: string) {
+        if (!hasKey(this.currentStatus.queue.byuuid, entryUid)) {
+            throw new Error("Scheduler entry not found");
+        }
+        return this.currentStatus.queue.byuuid[entryUid];
+    }
+
+    addSchedulerEntry = async (ct: CancellationToken, message: BackOfficeAPI.AddSchedulerEntryRequest):Promise<string>=>{
+        this.context.sequenceManager.findSequenceFromRequest(message.sequenceUid);
+        const window: SchedulerWindow = {
+            start: null,
+            end: null,
+            minAltitude: null,
+            ...message.window,
+        };
+        Scheduler.checkWindow(window);
+
+        const uid = uuidv4();
+        this.currentStatus.queue.byuuid[uid] = {
+            sequenceUid: message.sequenceUid,
+            priority: message.priority !== undefined ? message.priority : 0,
+            window,
+        };
+        this.currentStatus.queue.list.push(uid);
+        this.updatePlan();
+        return uid;
+    }
+
+    updateSchedulerEntry = async (ct: CancellationToken, message: BackOfficeAPI.UpdateSchedulerEntryRequest)=>{
+        const entry = this.findEntry(message.entryUid);
+        if (message.window !== undefined) {
+            const window = {...entry.window, ...message.window};
+            Scheduler.checkWindow(window);
+            entry.window = window;
+        }
+        if (message.priority !== undefined) {
+            if (typeof message.priority !== "number" || isNaN(message.priority)) {
+                throw new Error("Invalid priority");
+            }
+            entry.priority = message.priority;
+        }
+        this.updatePlan();
+    }
+
+    removeSchedulerEntry = async (ct: CancellationToken, message: {entryUid: string})=>{
+        this.findEntry(message.entryUid);
+        if (this.currentStatus.current === message.entryUid) {
+            throw new Error("Scheduler entry is running");
+        }
+        this.currentStatus.queue.list = this.currentStatus.queue.list.filter(e=>e !== message.entryUid);
+        delete this.currentStatus.queue.byuuid[message.entryUid];
+        this.updatePlan();
+    }
+
+    moveSchedulerEntry = async (ct: CancellationToken, message: {entryUid: string, position: number})=>{
+        this.findEntry(message.entryUid);
+        const list = this.currentStatus.queue.list.filter(e=>e !== message.entryUid);
+        const position = Math.max(0, Math.min(list.length, Math.floor(message.position)));
+        list.splice(position, 0, message.entryUid);
+        this.currentStatus.queue.list = list;
+        this.updatePlan();
+    }
+
+    startScheduler = async (ct: CancellationToken, message: {})=>{
+        if (this.runningTask !== null) {
+            throw new Error("Scheduler is already running");
+        }
+
+        const runner: QueueRunner = {
+            clock: systemClock,
+            getQueue: ()=>this.currentStatus.queue,
+            getSequences: ()=>this.context.sequenceManager.currentStatus.sequences.byuuid,
+            getGeoCoords: ()=>this.getGeoCoords(),
+            getBusyReason: ()=>this.context.sequenceManager.currentSequenceUuid !== null
+                                ? "Another sequence is running"
+                                : null,
+            runSequence: this.context.sequenceManager.runSequence,
+            setState: (status, current, message)=> {
+                this.currentStatus.status = status;
+                this.currentStatus.current = current;
+                this.currentStatus.message = message;
+                this.updatePlan();
+            },
+        };
+
+        // Not awaited: the scheduler runs for the night
+        this.runningTask = createTask<void>(undefined, async (task)=> {
+            this.currentStatus.message = null;
+            try {
+                await runQueue(task.cancellation, runner);
+                this.currentStatus.status = "done";
+                this.context.notification.notify("Scheduler done");
+            } catch(e) {
+                if (e instanceof CancellationToken.CancellationError) {
+                    this.currentStatus.status = "idle";
+                    this.currentStatus.message = null;
+                } else {
+                    console.log('Scheduler failed', e);
+                    this.currentStatus.status = "error";
+                    this.currentStatus.message = (e instanceof Error) ? e.message : "" + e;
+                    this.context.notification.notify("Scheduler failed: " + this.currentStatus.message);
+                }
+            } finally {
+                this.currentStatus.current = null;
+                this.runningTask = null;
+                this.updatePlan();
+            }
+        });
+    }
+
+    stopScheduler = async (ct: CancellationToken, message: {})=>{
+        if (this.runningTask === null) {
+            throw new Error("Scheduler is not running");
+        }
+        this.runningTask.cancel();
+    }
+}
@@ -0,0 +1,223 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+import CancellationToken from 'cancellationtoken';
+
+import { Sequence, SchedulerEntry, SchedulerStatus } from "./shared/BackOfficeStatus";
+import { computePlan, getEntryBlocker, getRemainingTime, pickNextEntry, runQueue, SchedulerQueue } from "./SchedulerLogic";
+
+function sequence(title: string, exposure: number, repeat: number): Sequence {
+    return {
+        status: "idle",
+        progress: null,
+        title,
+        camera: "camera_id",
+        errorMessage: null,
+        stepStatus: {},
+        root: {
+            exposure,
+            repeat,
+        },
+        images: [],
+        imageStats: {},
+    };
+}
+
+function entry(sequenceUid: string, priority: number, start: string|null, end: string|null): SchedulerEntry {
+    return {
+        sequenceUid,
+        priority,
+        window: {start, end, minAltitude: null},
+    };
+}
+
+// Local time, like the time windows
+const at = (hours: number, minutes: number)=>new Date(2021, 2, 10 + Math.floor(hours / 24), hours % 24, minutes).getTime();
+
+describe("SchedulerLogic", () => {
+    const noGeo = (now: number)=>({now, geoCoords: null});
+
+    it("Picks the highest priority in its window", () => {
+        const sequences = {
+            "a": sequence("A", 60, 10),
+            "b": sequence("B", 60, 10),
+            "c": sequence("C", 60, 10),
+        };
+        const queue: SchedulerQueue = {
+            list: ["ea", "eb", "ec"],
+            byuuid: {
+                "ea": entry("a", 0, null, null),
+                "eb": entry("b", 5, "22:00", "01:00"),
+                "ec": entry("c", 5, null, null),
+            },
+        };
+        assert.equal(pickNextEntry(queue, sequences, noGeo(at(21, 0))), "ec");
+        // Same priority: queue order
+        assert.equal(pickNextEntry(queue, sequences, noGeo(at(23, 0))), "eb");
+        assert.equal(getEntryBlocker(queue.byuuid["eb"], sequences, noGeo(at(21, 0))), "before 22:00");
+        assert.equal(getEntryBlocker(queue.byuuid["eb"], sequences, noGeo(at(25, 30))), "after 01:00");
+
+        // Longer than 12 hours
+        const night = entry("a", 0, "18:00", "07:00");
+        assert.isNull(getEntryBlocker(night, sequences, noGeo(at(30, 0))));
+        assert.isNull(getEntryBlocker(night, sequences, noGeo(at(18, 0))));
+        assert.equal(getEntryBlocker(night, sequences, noGeo(at(17, 30))), "before 18:00");
+        assert.equal(getEntryBlocker(night, sequences, noGeo(at(31, 0))), "after 07:00");
+
+        sequences["b"].status = "done";
+        sequences["c"].status = "error";
+        assert.equal(pickNextEntry(queue, sequences, noGeo(at(23, 0))), "ea");
+        sequences["a"].status = "done";
+        assert.isNull(pickNextEntry(queue, sequences, noGeo(at(23, 0))));
+    });
+
+    it("Altitude window requires a target", () => {
+        const sequences = {"a": sequence("A", 60, 10)};
+        const e: SchedulerEntry = {sequenceUid: "a", priority: 0, window: {start: null, end: null, minAltitude: 30}};
+        const paris = {lat: 48.85, long: 2.35};
+        assert.equal(getEntryBlocker(e, sequences, {now: at(22, 0), geoCoords: paris}), "no target");
+        // Polaris is always above 30° from Paris
+        sequences["a"].target = {name: "Polaris", ra: 37.95, dec: 89.26, rotation: null};
+        assert.isNull(getEntryBlocker(e, sequences, {now: at(22, 0), geoCoords: paris}));
+        assert.equal(getEntryBlocker(e, sequences, {now: at(22, 0), geoCoords: null}), "no geographic coordinates");
+    });
+
+    it("Remaining time", () => {
+        assert.equal(getRemainingTime(sequence("A", 60, 10)), 600);
+    });
+
+    it("Night plan", () => {
+        const sequences = {
+            "a": sequence("A", 300, 48),
+            "b": sequence("B", 600, 6),
+        };
+        const queue: SchedulerQueue = {
+            list: ["ea", "eb"],
+            byuuid: {
+                "ea": entry("a", 10, "21:00", "23:00"),
+                "eb": entry("b", 0, null, null),
+            },
+        };
+        const plan = computePlan(queue, sequences, noGeo(at(20, 0)));
+        assert.deepEqual(plan, [
+            {entryUid: "eb", sequenceUid: "b", start: at(20, 0), end: at(21, 0)},
+            {entryUid: "ea", sequenceUid: "a", start: at(21, 0), end: at(23, 0)},
+        ]);
+    });
+
+    it("Runs the queue with a fake clock", async () => {
+        let now = at(20, 0);
+        const sequences = {
+            "a": sequence("A", 600, 24),
+            "b": sequence("B", 600, 12),
+            "c": sequence("C", 600, 3),
+        };
+        const queue: SchedulerQueue = {
+            list: ["ea", "eb", "ec"],
+            byuuid: {
+                "ea": entry("a", 10, "21:00", "23:00"),
+                "eb": entry("b", 0, null, null),
+                "ec": entry("c", 0, "02:00", null),
+            },
+        };
+        const log: string[] = [];
+        const states: Array<SchedulerStatus["status"]> = [];
+        const time = ()=>new Date(now).toTimeString().substring(0, 5);
+
+        await runQueue(CancellationToken.CONTINUE, {
+            clock: {
+                now: ()=>now,
+                sleep: async(ct, ms)=>{ now += ms; },
+            },
+            getQueue: ()=>queue,
+            getSequences: ()=>sequences,
+            getGeoCoords: ()=>null,
+            getBusyReason: ()=>null,
+            runSequence: async(ct, sequenceUid, interrupt)=> {
+                const seq = sequences[sequenceUid as keyof typeof sequences];
+                log.push(time() + " start " + seq.title);
+                seq.status = "running";
+                const exec = seq.stepStatus["root"] || {execUuid: "root", parentExecUuid: null, finishedLoopCount: 0, currentForeach: null, finishedForeach: null};
+                seq.stepStatus["root"] = exec;
+                while(exec.finishedLoopCount < seq.root.repeat!) {
+                    const reason = interrupt();
+                    if (reason !== null) {
+                        log.push(time() + " pause " + seq.title + " (" + reason + ")");
+                        seq.status = "paused";
+                        return;
+                    }
+                    now += seq.root.exposure! * 1000;
+                    exec.finishedLoopCount++;
+                }
+                log.push(time() + " done " + seq.title);
+                seq.status = "done";
+            },
+            setState: (status)=>{
+                if (states[states.length - 1] !== status) {
+                    states.push(status);
+                }
+            },
+        });
+
+        // No preemption: B ends before A starts. A is paused at the end of its window
+        assert.deepEqual(log, [
+            "20:00 start B",
+            "22:00 done B",
+            "22:00 start A",
+            "23:00 pause A (after 23:00)",
+            "02:00 start C",
+            "02:30 done C",
+        ]);
+        assert.deepEqual(states, ["running", "waiting", "running"]);
+        assert.equal(sequences["a"].status, "paused");
+    });
+
+    function singleRunner(sequences: {[uuid: string]: Sequence}, runSequence: (seq: Sequence)=>Promise<void>) {
+        let runs = 0;
+        const queue: SchedulerQueue = {
+            list: ["ea"],
+            byuuid: {"ea": entry("a", 0, null, null)},
+        };
+        return {
+            runs: ()=>runs,
+            runner: {
+                clock: {
+                    now: ()=>at(22, 0),
+                    sleep: async(ct: CancellationToken, ms: number)=>{},
+                },
+                getQueue: ()=>queue,
+                getSequences: ()=>sequences,
+                getGeoCoords: ()=>null,
+                getBusyReason: ()=>null,
+                runSequence: async(ct: CancellationToken, sequenceUid: string, interrupt: ()=>string|null)=> {
+                    runs++;
+                    await runSequence(sequences[sequenceUid]);
+                },
+                setState: ()=>{},
+            },
+        };
+    }
+
+    it("Stops when the user pauses the sequence", async () => {
+        const sequences = {"a": sequence("A", 600, 24)};
+        const test = singleRunner(sequences, async(seq)=> {
+            seq.status = "paused";
+            throw new CancellationToken.CancellationError("Sequence paused");
+        });
+        let error: any = null;
+        await runQueue(CancellationToken.CONTINUE, test.runner).catch(e=>{ error = e; });
+        assert.instanceOf(error, CancellationToken.CancellationError);
+        assert.equal(test.runs(), 1);
+    });
+
+    it("Stops when the sequence pauses by itself", async () => {
+        const sequences = {"a": sequence("A", 600, 24)};
+        const test = singleRunner(sequences, async(seq)=> {
+            seq.status = "paused";
+            seq.errorMessage = "Low disk space";
+        });
+        let error: any = null;
+        await runQueue(CancellationToken.CONTINUE, test.runner).catch(e=>{ error = e; });
+        assert.equal(error.message, "Sequence A paused: Low disk space");
+        assert.equal(test.runs(), 1);
+    });
+});
@@ -0,0 +1,234 @@
+import CancellationToken from 'cancellationtoken';
+import { Sequence, SchedulerEntry, SchedulerStatus, SchedulerPlanItem } from './shared/BackOfficeStatus';
+import { hasKey, deepCopy, getOwnProp } from './Obj';
+import { SequenceLogic } from './SequenceLogic';
+import { isLocalTimeReached, nextLocalTime, previousLocalTime } from './SequenceConditions';
+import * as Ephemeris from './Ephemeris';
+import SkyProjection from './SkyAlgorithms/SkyProjection';
+
+export type SchedulerQueue = SchedulerStatus["queue"];
+
+export type SchedulerEnvironment = {
+    now: number;
+    geoCoords: Ephemeris.GeoCoords|null;
+};
+
+export type SchedulerClock = {
+    now: ()=>number;
+    sleep: (ct: CancellationToken, ms: number)=>Promise<void>;
+};
+
+// What the queue runner needs from the rest of the application
+export type QueueRunner = {
+    clock: SchedulerClock;
+    getQueue: ()=>SchedulerQueue;
+    getSequences: ()=>{[uuid: string]: Sequence};
+    getGeoCoords: ()=>Ephemeris.GeoCoords|null;
+    // Reason why no sequence can be started (another one running, ...). null when free
+    getBusyReason: ()=>string|null;
+    // Resolves when the sequence is done, or paused because interrupt returned a reason
+    runSequence: (ct: CancellationToken, sequenceUid: string, interrupt: ()=>string|null)=>Promise<void>;
+    setState: (status: SchedulerStatus["status"], current: string|null, message: string|null)=>void;
+};
+
+// Delay between two checks when nothing can run
+export const waitPollInterval = 60000;
+
+// Precision and horizon of the plan
+export const planStep = 5 * 60000;
+export const planDuration = 16 * 3600000;
+
+function formatAngle(v: number) {
+    return (Math.round(v * 10) / 10) + "°";
+}
+
+// Entries whose sequence will never run again
+export function isEntryFinished(entry: SchedulerEntry, sequences: {[uuid: string]: Sequence}): boolean {
+    if (!hasKey(sequences, entry.sequenceUid)) {
+        return true;
+    }
+    const status = sequences[entry.sequenceUid].status;
+    return status === "done" || status === "error";
+}
+
+// Why the entry cannot run at env.now. null when it can
+export function getEntryBlocker(entry: SchedulerEntry, sequences: {[uuid: string]: Sequence}, env: SchedulerEnvironment): string|null {
+    if (!hasKey(sequences, entry.sequenceUid)) {
+        return "sequence not found";
+    }
+    const sequence = sequences[entry.sequenceUid];
+    if (sequence.status === "done" || sequence.status === "error") {
+        return sequence.status;
+    }
+    const window = entry.window;
+    if (window.start !== null && window.end !== null) {
+        // The window opened at the last start, and closes at the first end after it
+        const opened = previousLocalTime(window.start, env.now);
+        const closed = nextLocalTime(window.end, opened);
+        if (env.now >= closed) {
+            // Name the nearest bound
+            return env.now - closed < nextLocalTime(window.start, env.now) - env.now
+                    ? "after " + window.end
+                    : "before " + window.start;
+        }
+    } else if (window.start !== null && !isLocalTimeReached(window.start, env.now)) {
+        return "before " + window.start;
+    } else if (window.end !== null && isLocalTimeReached(window.end, env.now)) {
+        return "after " + window.end;
+    }
+    if (window.minAltitude !== null) {
+        if (!sequence.target) {
+            return "no target";
+        }
+        if (env.geoCoords === null) {
+            return "no geographic coordinates";
+        }
+        const raDec = SkyProjection.raDecEpochFromJ2000([sequence.target.ra, sequence.target.dec], env.now);
+        const alt = Ephemeris.getAltitude(raDec, env.now, env.geoCoords);
+        if (alt < window.minAltitude) {
+            return "altitude " + formatAngle(alt) + " / " + formatAngle(window.minAltitude);
+        }
+    }
+    return null;
+}
+
+// The runnable entry with the highest priority, first in queue order. null when none can run
+export function pickNextEntry(queue: SchedulerQueue, sequences: {[uuid: string]: Sequence}, env: SchedulerEnvironment,
+                                exclude?: (entryUid: string)=>boolean): string|null {
+    let best: string|null = null;
+    for(const uid of queue.list) {
+        if (exclude && exclude(uid)) {
+            continue;
+        }
+        const entry = queue.byuuid[uid];
+        if (getEntryBlocker(entry, sequences, env) !== null) {
+            continue;
+        }
+        if (best === null || entry.priority > queue.byuuid[best].priority) {
+            best = uid;
+        }
+    }
+    return best;
+}
+
+// Exposure time (seconds) left in the sequence
+export function getRemainingTime(sequence: Sequence): number {
+    let id = 0;
+    const logic = new SequenceLogic(deepCopy(sequence), ()=>"plan" + (id++));
+    const nextStep = logic.getNextStep();
+    if (nextStep === undefined) {
+        return 0;
+    }
+    const progress = logic.getProgress(nextStep);
+    return Math.max(progress.totalTime - progress.timeSpent, 0);
+}
+
+// Simulate the runner from env.now: each entry runs until its window closes or its sequence ends
+export function computePlan(queue: SchedulerQueue, sequences: {[uuid: string]: Sequence}, env: SchedulerEnvironment): SchedulerPlanItem[] {
+    const left: {[sequenceUid: string]: number} = {};
+    for(const uid of queue.list) {
+        const sequenceUid = queue.byuuid[uid].sequenceUid;
+        if (hasKey(sequences, sequenceUid)) {
+            // Sequences without exposure left (waits, ...) still take some time
+            left[sequenceUid] = Math.max(getRemainingTime(sequences[sequenceUid]), 1);
+        }
+    }
+    const plan: SchedulerPlanItem[] = [];
+    let current: SchedulerPlanItem|null = null;
+
+    const hasTimeLeft = (entryUid: string)=> {
+        const sequenceUid = queue.byuuid[entryUid].sequenceUid;
+        return !hasKey(left, sequenceUid) || left[sequenceUid] > 0;
+    };
+
+    for(let t = env.now; t < env.now + planDuration; t += planStep) {
+        const stepEnv = {...env, now: t};
+        if (current !== null
+            && (!hasTimeLeft(current.entryUid) || getEntryBlocker(queue.byuuid[current.entryUid], sequences, stepEnv) !== null))
+        {
+            current = null;
+        }
+        if (current === null) {
+            const next = pickNextEntry(queue, sequences, stepEnv, (uid)=>!hasTimeLeft(uid));
+            if (next === null) {
+                continue;
+            }
+            current = {
+                entryUid: next,
+                sequenceUid: queue.byuuid[next].sequenceUid,
+                start: t,
+                end: t,
+            };
+            plan.push(current);
+        }
+        if (hasKey(left, current.sequenceUid)) {
+            const used = Math.min(planStep, left[current.sequenceUid] * 1000);
+            left[current.sequenceUid] -= used / 1000;
+            current.end = t + used;
+        } else {
+            current.end = t + planStep;
+        }
+    }
+    return plan;
+}
+
+function describeBlockers(queue: SchedulerQueue, sequences: {[uuid: string]: Sequence}, env: SchedulerEnvironment) {
+    return queue.list
+        .filter(uid=>!isEntryFinished(queue.byuuid[uid], sequences))
+        .map(uid=> {
+            const entry = queue.byuuid[uid];
+            return sequences[entry.sequenceUid].title + ": " + getEntryBlocker(entry, sequences, env);
+        })
+        .join(", ");
+}
+
+// Run the queue until no entry can run for the rest of the plan duration
+export async function runQueue(ct: CancellationToken, runner: QueueRunner) {
+    while(true) {
+        ct.throwIfCancelled();
+
+        const queue = runner.getQueue();
+        const sequences = runner.getSequences();
+        const env = {now: runner.clock.now(), geoCoords: runner.getGeoCoords()};
+
+        const busy = runner.getBusyReason();
+        if (busy !== null) {
+            runner.setState("waiting", null, busy);
+            await runner.clock.sleep(ct, waitPollInterval);
+            continue;
+        }
+
+        const next = pickNextEntry(queue, sequences, env);
+        if (next === null) {
+            if (computePlan(queue, sequences, env).length === 0) {
+                return;
+            }
+            runner.setState("waiting", null, describeBlockers(queue, sequences, env));
+            await runner.clock.sleep(ct, waitPollInterval);
+            continue;
+        }
+
+        const entry = queue.byuuid[next];
+        runner.setState("running", next, null);
+        let interruptReason: string|null = null;
+        try {
+            await runner.runSequence(ct, entry.sequenceUid, ()=> {
+                interruptReason = getEntryBlocker(entry, runner.getSequences(), {now: runner.clock.now(), geoCoords: runner.getGeoCoords()});
+                return interruptReason;
+            });
+        } catch(e) {
+            // Also when the user pauses the sequence: the scheduler stops
+            if (e instanceof CancellationToken.CancellationError) {
+                throw e;
+            }
+            // The sequence is now in error, and will be skipped
+            console.log('Scheduled sequence failed', e);
+        }
+
+        // Paused by something else than its window (low disk space, ...): it would start again at once
+        const sequence = getOwnProp(runner.getSequences(), entry.sequenceUid);
+        if (interruptReason === null && sequence !== undefined && sequence.status === "paused") {
+            throw new Error("Sequence " + sequence.title + " paused" + (sequence.errorMessage ? ": " + sequence.errorMessage : ""));
+        }
+    }
+}
@@ -0,0 +1,178 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+
+import { evaluateEndCondition, evaluateWaitCondition, isLocalTimeReached, nextLocalTime, parseLocalTime, previousLocalTime, SkyEnvironment } from "./SequenceConditions";
+import * as Ephemeris from "./Ephemeris";
+import SkyProjection from "./SkyAlgorithms/SkyProjection";
+
+const paris = {lat: 48.85, long: 2.35};
+
+describe("SequenceConditions", () => {
+    it("Parse local time", () => {
+        assert.equal(parseLocalTime("22:30"), 22 * 60 + 30);
+        assert.equal(parseLocalTime("0:05"), 5);
+        assert.throws(()=>parseLocalTime("24:00"));
+        assert.throws(()=>parseLocalTime("noon"));
+    });
+
+    it("Local time reached across midnight", () => {
+        assert.isFalse(isLocalTimeReached("22:00", new Date(2021, 2, 10, 21, 59).getTime()));
+        assert.isTrue(isLocalTimeReached("22:00", new Date(2021, 2, 10, 22, 0).getTime()));
+        assert.isTrue(isLocalTimeReached("22:00", new Date(2021, 2, 11, 3, 0).getTime()));
+        assert.isFalse(isLocalTimeReached("22:00", new Date(2021, 2, 11, 12, 0).getTime()));
+        assert.isTrue(isLocalTimeReached("01:00", new Date(2021, 2, 11, 1, 30).getTime()));
+        assert.isFalse(isLocalTimeReached("01:00", new Date(2021, 2, 10, 23, 30).getTime()));
+    });
+
+    it("Wait until an evening time, started in the late morning", () => {
+        const env: SkyEnvironment = {
+            now: new Date(2021, 2, 10, 10, 30).getTime(),
+            geoCoords: null,
+            targetRaDec: null,
+        };
+        const waitUntil = nextLocalTime("22:00", env.now);
+        assert.isFalse(evaluateWaitCondition({kind: "time", time: "22:00"}, env, waitUntil).satisfied);
+
+        env.now = new Date(2021, 2, 10, 21, 59).getTime();
+        assert.isFalse(evaluateWaitCondition({kind: "time", time: "22:00"}, env, waitUntil).satisfied);
+
+        env.now = new Date(2021, 2, 10, 22, 0).getTime();
+        assert.isTrue(evaluateWaitCondition({kind: "time", time: "22:00"}, env, waitUntil).satisfied);
+
+        assert.throws(()=>evaluateWaitCondition({kind: "time", time: "22:00"}, env, null));
+    });
+
+    it("Sun position", () => {
+        // Summer solstice: declination near +23.44
+        const summer = Ephemeris.getSunRaDec(Date.UTC(2021, 5, 21, 12, 0));
+        expect(summer[1]).to.be.closeTo(23.44, 0.05);
+        expect(summer[0]).to.be.closeTo(90, 0.5);
+
+        expect(Ephemeris.getSunAltitude(Date.UTC(2021, 5, 21, 11, 50), paris)).to.be.closeTo(90 - 48.85 + 23.44, 0.5);
+        expect(Ephemeris.getSunAltitude(Date.UTC(2021, 11, 21, 23, 50), paris)).to.be.below(-60);
+    });
+
+    it("Darkness condition", () => {
+        const env: SkyEnvironment = {
+            now: Date.UTC(2021, 11, 21, 23, 50),
+            geoCoords: paris,
+            targetRaDec: null,
+        };
+        assert.isTrue(evaluateWaitCondition({kind: "darkness", sunAltitude: -18}, env, null).satisfied);
+        env.now = Date.UTC(2021, 11, 21, 16, 30);
+        assert.isFalse(evaluateWaitCondition({kind: "darkness", sunAltitude: -18}, env, null).satisfied);
+        env.geoCoords = null;
+        assert.throws(()=>evaluateWaitCondition({kind: "darkness", sunAltitude: -18}, env, null));
+    });
+
+    it("Altitude condition", () => {
+        const now = Date.UTC(2021, 2, 10, 22, 0);
+        const zenithRa = SkyProjection.getLocalSideralTime(now, paris.long);
+        const env: SkyEnvironment = {
+            now,
+            geoCoords: paris,
+            targetRaDec: [zenithRa, paris.lat],
+        };
+        assert.isTrue(evaluateWaitCondition({kind: "altitude", minAltitude: 89}, env, null).satisfied);
+
+        // 20° above the southern horizon
+        env.targetRaDec = [zenithRa, paris.lat - 70];
+        assert.isTrue(evaluateWaitCondition({kind: "altitude", minAltitude: 19.9}, env, null).satisfied);
+        assert.isFalse(evaluateWaitCondition({kind: "altitude", minAltitude: 20.1}, env, null).satisfied);
+
+        env.targetRaDec = null;
+        assert.throws(()=>evaluateWaitCondition({kind: "altitude", minAltitude: 30}, env, null));
+    });
+
+    it("Next local time", () => {
+        const start = new Date(2021, 2, 10, 17, 30).getTime();
+        assert.equal(nextLocalTime("06:00", start), new Date(2021, 2, 11, 6, 0).getTime());
+        assert.equal(nextLocalTime("22:00", start), new Date(2021, 2, 10, 22, 0).getTime());
+        assert.equal(nextLocalTime("17:30", start), start);
+    });
+
+    it("Previous local time", () => {
+        const start = new Date(2021, 2, 11, 6, 0).getTime();
+        assert.equal(previousLocalTime("18:00", start), new Date(2021, 2, 10, 18, 0).getTime());
+        assert.equal(previousLocalTime("01:00", start), new Date(2021, 2, 11, 1, 0).getTime());
+        assert.equal(previousLocalTime("06:00", start), start);
+    });
+
+    it("End at time", () => {
+        const env: SkyEnvironment = {
+            now: new Date(2021, 2, 10, 23, 0).getTime(),
+            geoCoords: null,
+            targetRaDec: null,
+        };
+        const endTime = nextLocalTime("05:00", env.now);
+        const evening = evaluateEndCondition({kind: "time", time: "05:00"}, env, endTime);
+        assert.isFalse(evening.reached);
+        assert.equal(evening.timeLeft, 6 * 3600);
+
+        env.now = new Date(2021, 2, 11, 5, 30).getTime();
+        const morning = evaluateEndCondition({kind: "time", time: "05:00"}, env, endTime);
+        assert.isTrue(morning.reached);
+        assert.equal(morning.timeLeft, 0);
+
+        assert.throws(()=>evaluateEndCondition({kind: "time", time: "05:00"}, env, null));
+    });
+
+    it("End at time after midnight, started in the afternoon", () => {
+        const env: SkyEnvironment = {
+            now: new Date(2021, 2, 10, 17, 30).getTime(),
+            geoCoords: null,
+            targetRaDec: null,
+        };
+        const endTime = nextLocalTime("06:00", env.now);
+        const start = evaluateEndCondition({kind: "time", time: "06:00"}, env, endTime);
+        assert.isFalse(start.reached);
+        assert.equal(start.timeLeft, 12.5 * 3600);
+
+        env.now = new Date(2021, 2, 11, 3, 0).getTime();
+        assert.isFalse(evaluateEndCondition({kind: "time", time: "06:00"}, env, endTime).reached);
+
+        env.now = new Date(2021, 2, 11, 6, 0).getTime();
+        assert.isTrue(evaluateEndCondition({kind: "time", time: "06:00"}, env, endTime).reached);
+    });
+
+    it("End at dawn", () => {
+        const env: SkyEnvironment = {
+            now: Date.UTC(2021, 11, 21, 23, 50),
+            geoCoords: paris,
+            targetRaDec: null,
+        };
+        const night = evaluateEndCondition({kind: "dawn", sunAltitude: -18}, env, null);
+        assert.isFalse(night.reached);
+        // Astronomical dawn is around 5:50 UTC
+        expect(night.timeLeft!).to.be.closeTo(6 * 3600, 1800);
+
+        // Sun still above -18° but setting
+        env.now = Date.UTC(2021, 11, 21, 16, 30);
+        assert.isFalse(evaluateEndCondition({kind: "dawn", sunAltitude: -18}, env, null).reached);
+
+        env.now = Date.UTC(2021, 11, 22, 7, 0);
+        assert.isTrue(evaluateEndCondition({kind: "dawn", sunAltitude: -18}, env, null).reached);
+
+        env.geoCoords = null;
+        assert.throws(()=>evaluateEndCondition({kind: "dawn", sunAltitude: -18}, env, null));
+    });
+
+    it("End when target sets", () => {
+        const now = Date.UTC(2021, 2, 10, 22, 0);
+        const zenithRa = SkyProjection.getLocalSideralTime(now, paris.long);
+        const env: SkyEnvironment = {
+            now,
+            geoCoords: paris,
+            // One hour east of the meridian, rising
+            targetRaDec: [zenithRa + 15, paris.lat - 70],
+        };
+        const rising = evaluateEndCondition({kind: "altitude", minAltitude: 19}, env, null);
+        assert.isFalse(rising.reached);
+        // Symmetric around the meridian
+        expect(rising.timeLeft!).to.be.closeTo(7200, 600);
+
+        // One hour west of the meridian, setting
+        env.targetRaDec = [zenithRa - 15, paris.lat - 70];
+        assert.isTrue(evaluateEndCondition({kind: "altitude", minAltitude: 19}, env, null).reached);
+    });
+});
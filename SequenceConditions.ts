@@ -0,0 +1,198 @@
+import { SequenceEndCondition, SequenceWaitCondition } from './shared/BackOfficeStatus';
+import * as Ephemeris from './Ephemeris';
+
+export type SkyEnvironment = {
+    now: number;
+    geoCoords: Ephemeris.GeoCoords|null;
+    // JNOW position of the sequence target (or of the mount when it has none), in degrees
+    targetRaDec: number[]|null;
+};
+
+export type WaitConditionStatus = {
+    satisfied: boolean;
+    details: string;
+};
+
+export type EndConditionStatus = {
+    reached: boolean;
+    details: string;
+    // Estimated seconds until the condition is reached. null when unknown
+    timeLeft: number|null;
+};
+
+const minutesPerDay = 24 * 60;
+
+// Precision and horizon of the end time estimation
+const endSearchStep = 5 * 60000;
+const endSearchDuration = 24 * 3600000;
+
+// Parse HH:MM into minutes since midnight
+export function parseLocalTime(time: string): number {
+    const match = /^\s*([0-9]{1,2}):([0-9]{2})\s*$/.exec(time);
+    if (match === null) {
+        throw new Error("Invalid time: " + time);
+    }
+    const hours = parseInt(match[1], 10);
+    const minutes = parseInt(match[2], 10);
+    if (hours > 23 || minutes > 59) {
+        throw new Error("Invalid time: " + time);
+    }
+    return hours * 60 + minutes;
+}
+
+function formatAngle(v: number) {
+    return (Math.round(v * 10) / 10) + "°";
+}
+
+export function describeWaitCondition(cond: SequenceWaitCondition): string {
+    switch(cond.kind) {
+        case "altitude":
+            return "altitude above " + formatAngle(cond.minAltitude);
+        case "time":
+            return "time " + cond.time;
+        case "darkness":
+            return "sun below " + formatAngle(cond.sunAltitude);
+    }
+}
+
+export function describeEndCondition(cond: SequenceEndCondition): string {
+    switch(cond.kind) {
+        case "time":
+            return "time " + cond.time;
+        case "dawn":
+            return "dawn (sun above " + formatAngle(cond.sunAltitude) + ")";
+        case "altitude":
+            return "target below " + formatAngle(cond.minAltitude);
+    }
+}
+
+function requireGeoCoords(env: SkyEnvironment): Ephemeris.GeoCoords {
+    if (env.geoCoords === null) {
+        throw new Error("Geographic coordinates of the mount are not available");
+    }
+    return env.geoCoords;
+}
+
+// A time is reached if it was passed less than 12 hours ago.
+// That way, 22:00 is still reached at 03:00 the next morning
+export function isLocalTimeReached(time: string, now: number): boolean {
+    const target = parseLocalTime(time);
+    const date = new Date(now);
+    const current = date.getHours() * 60 + date.getMinutes() + date.getSeconds() / 60;
+    const elapsed = (((current - target) % minutesPerDay) + minutesPerDay) % minutesPerDay;
+    return elapsed < minutesPerDay / 2;
+}
+
+// Timestamp of the first occurrence of the local time (HH:MM) at or after from
+export function nextLocalTime(time: string, from: number): number {
+    const target = parseLocalTime(time);
+    const date = new Date(from);
+    date.setHours(Math.floor(target / 60), target % 60, 0, 0);
+    if (date.getTime() < from) {
+        date.setDate(date.getDate() + 1);
+    }
+    return date.getTime();
+}
+
+// Timestamp of the last occurrence of the local time (HH:MM) at or before from
+export function previousLocalTime(time: string, from: number): number {
+    const target = parseLocalTime(time);
+    const date = new Date(from);
+    date.setHours(Math.floor(target / 60), target % 60, 0, 0);
+    if (date.getTime() > from) {
+        date.setDate(date.getDate() - 1);
+    }
+    return date.getTime();
+}
+
+// waitUntil is the timestamp of a "time" condition, as given by nextLocalTime when the wait started
+export function evaluateWaitCondition(cond: SequenceWaitCondition, env: SkyEnvironment, waitUntil: number|null): WaitConditionStatus {
+    switch(cond.kind) {
+        case "altitude":
+        {
+            const geoCoords = requireGeoCoords(env);
+            if (env.targetRaDec === null) {
+                throw new Error("Target position is not available");
+            }
+            const alt = Ephemeris.getAltitude(env.targetRaDec, env.now, geoCoords);
+            return {
+                satisfied: alt >= cond.minAltitude,
+                details: "altitude " + formatAngle(alt) + " / " + formatAngle(cond.minAltitude),
+            };
+        }
+        case "time":
+            if (waitUntil === null) {
+                throw new Error("Wait time is not set");
+            }
+            return {
+                satisfied: env.now >= waitUntil,
+                details: "time " + cond.time,
+            };
+        case "darkness":
+        {
+            const geoCoords = requireGeoCoords(env);
+            const alt = Ephemeris.getSunAltitude(env.now, geoCoords);
+            return {
+                satisfied: alt <= cond.sunAltitude,
+                details: "sun at " + formatAngle(alt) + " / " + formatAngle(cond.sunAltitude),
+            };
+        }
+    }
+    throw new Error("Unsupported wait condition: " + JSON.stringify(cond));
+}
+
+function secondsUntil(now: number, predicate: (msTime: number)=>boolean): number|null {
+    const found = Ephemeris.findNextTime(now, endSearchDuration, endSearchStep, predicate);
+    return found === null ? null : (found - now) / 1000;
+}
+
+// Dawn and target altitude only end the sequence on the way up (resp. down),
+// so that a sequence started before dusk or before the target rises does not stop at once.
+// endTime is the timestamp of a "time" condition, as given by nextLocalTime when the sequence started
+export function evaluateEndCondition(cond: SequenceEndCondition, env: SkyEnvironment, endTime: number|null): EndConditionStatus {
+    switch(cond.kind) {
+        case "time":
+        {
+            if (endTime === null) {
+                throw new Error("End time is not set");
+            }
+            const reached = env.now >= endTime;
+            return {
+                reached,
+                details: "time " + cond.time,
+                timeLeft: reached ? 0 : (endTime - env.now) / 1000,
+            };
+        }
+        case "dawn":
+        {
+            const geoCoords = requireGeoCoords(env);
+            const isDawn = (t: number)=>Ephemeris.isSunRising(t, geoCoords)
+                                        && Ephemeris.getSunAltitude(t, geoCoords) >= cond.sunAltitude;
+            const alt = Ephemeris.getSunAltitude(env.now, geoCoords);
+            const reached = isDawn(env.now);
+            return {
+                reached,
+                details: "sun at " + formatAngle(alt) + " / " + formatAngle(cond.sunAltitude),
+                timeLeft: reached ? 0 : secondsUntil(env.now, isDawn),
+            };
+        }
+        case "altitude":
+        {
+            const geoCoords = requireGeoCoords(env);
+            if (env.targetRaDec === null) {
+                throw new Error("Target position is not available");
+            }
+            const raDec = env.targetRaDec;
+            const isSet = (t: number)=>Ephemeris.getHourAngle(raDec, t, geoCoords) > 0
+                                        && Ephemeris.getAltitude(raDec, t, geoCoords) < cond.minAltitude;
+            const alt = Ephemeris.getAltitude(raDec, env.now, geoCoords);
+            const reached = isSet(env.now);
+            return {
+                reached,
+                details: "altitude " + formatAngle(alt) + " / " + formatAngle(cond.minAltitude),
+                timeLeft: reached ? 0 : secondsUntil(env.now, isSet),
+            };
+        }
+    }
+    throw new Error("Unsupported end condition: " + JSON.stringify(cond));
+}
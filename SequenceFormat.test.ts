@@ -0,0 +1,187 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+
+import { SequenceTemplate } from "./shared/BackOfficeStatus";
+import { exportJson, importJson, exportText, importText, validateTemplate } from "./SequenceFormat";
+
+function uuidMock() {
+    let v = 0;
+
+    return ()=>{
+        return (v++).toString(16).padStart(8, '0');
+    }
+}
+
+const dithering = {amount: 1, raOnly: false, pixels: 0.3, time: 10, timeout: 60};
+
+const textOptions = ()=>({dithering, newUuid: uuidMock()});
+
+const template: SequenceTemplate = {
+    title: "M31 LRGB",
+    camera: "CCD Simulator",
+    target: {name: "M31", ra: 10.675, dec: 41.267, rotation: null},
+    root: {
+        type: "FRAME_LIGHT",
+        bin: 1,
+        childs: {
+            list: ["00000000", "00000001"],
+            byuuid: {
+                "00000000": {
+                    filter: "L",
+                    exposure: 60,
+                    repeat: 20,
+                    dithering: {...dithering, once: false, every: 3},
+                },
+                "00000001": {
+                    repeat: 2,
+                    childs: {
+                        list: ["00000002", "00000003"],
+                        byuuid: {
+                            "00000002": {
+                                filter: "Ha 7nm",
+                                exposure: 300,
+                            },
+                            "00000003": {
+                                type: "FRAME_DARK",
+                                exposure: 0.5,
+                                iso: "800",
+                                dithering: null,
+                            },
+                        }
+                    }
+                }
+            }
+        }
+    },
+};
+
+describe("SequenceFormat", () => {
+    it("JSON round trip", () => {
+        assert.deepEqual(importJson(exportJson(template)), template);
+    });
+
+    it("JSON errors name the step", () => {
+        const doc = JSON.parse(exportJson(template));
+        doc.sequence.root.childs.byuuid["00000001"].childs.byuuid["00000003"].exposure = -1;
+        doc.sequence.root.childs.byuuid["00000000"].repeat = "a lot";
+        expect(()=>importJson(JSON.stringify(doc))).to.throw(
+            "Invalid sequence: Step 1 (00000000): repeat must be a positive integer; Step 2.2 (00000003): exposure must be a positive number");
+
+        expect(()=>importJson("{}")).to.throw("Not a sequence document");
+        assert.deepEqual(validateTemplate({...template, root: {childs: {list: ["a"], byuuid: {}}}}), ["Root step: child \"a\" is missing"]);
+    });
+
+    it("JSON import refuses the progress of a sequence", () => {
+        const doc = JSON.parse(exportJson(template));
+        doc.sequence.endTime = 0;
+        doc.sequence.focusState = null;
+        expect(()=>importJson(JSON.stringify(doc))).to.throw(
+            "Invalid sequence: sequence: unknown property endTime; sequence: unknown property focusState");
+    });
+
+    it("Text export", () => {
+        assert.equal(exportText(template),
+            "title M31 LRGB\n"
+            + "camera CCD Simulator\n"
+            + "target M31 10.675 41.267\n"
+            + "defaults light bin 1\n"
+            + "L 60s x20 dither every 3\n"
+            + "x2\n"
+            + "  filter \"Ha 7nm\" 300s\n"
+            + "  dark 0.5s iso 800 nodither\n");
+    });
+
+    it("Text round trip", () => {
+        assert.deepEqual(importText(exportText(template), textOptions()), template);
+    });
+
+    it("Text import", () => {
+        const imported = importText(
+            "# Comments are ignored\n"
+            + "target m 42\n"
+            + "\n"
+            + "Red 120s x5 dither\n"
+            + "\tBIAS x10 dither once\n", textOptions());
+        assert.equal(imported.title, "Imported sequence");
+        assert.isNull(imported.camera);
+        assert.equal(imported.target!.name, "M42");
+        assert.deepEqual(imported.root, {
+            childs: {
+                list: ["00000000"],
+                byuuid: {
+                    "00000000": {
+                        filter: "Red",
+                        exposure: 120,
+                        repeat: 5,
+                        dithering: {...dithering, once: false},
+                        childs: {
+                            list: ["00000001"],
+                            byuuid: {
+                                "00000001": {
+                                    type: "FRAME_BIAS",
+                                    repeat: 10,
+                                    dithering: {...dithering, once: true},
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        });
+    });
+
+    it("Text errors name the line", () => {
+        expect(()=>importText(
+            "L 60s x0\n"
+            + "  R 10s\n"
+            + " G 10s\n"
+            + "B 10s bin\n"
+            + "title late\n", textOptions())).to.throw(
+            "Invalid sequence: Line 1 (L 60s x0): repeat must be positive: x0; "
+            + "Line 3 (G 10s): inconsistent indentation; "
+            + "Line 4 (B 10s bin): missing value after bin; "
+            + "Line 5 (title late): title must appear before the steps");
+
+        expect(()=>importText("target Nowhere\n", textOptions())).to.throw("unknown target \"Nowhere\"");
+    });
+
+    it("Text export refuses unsupported steps", () => {
+        expect(()=>exportText({...template, root: {childs: {list: ["a"], byuuid: {"a": {wait: {kind: "time", time: "22:00"}}}}}}))
+            .to.throw("Step 1 (a): wait steps are not supported by the text format. Use JSON instead");
+        expect(()=>exportText({...template, endAt: {kind: "dawn", sunAltitude: -12}}))
+            .to.throw("Sequence endAt is not supported by the text format. Use JSON instead");
+        expect(()=>exportText({...template, warmUpAtEnd: true}))
+            .to.throw("Sequence warmUpAtEnd is not supported by the text format. Use JSON instead");
+        assert.equal(exportText({...template, endAt: null, warmUpAtEnd: false}), exportText(template));
+    });
+
+    it("Gain, offset and roi", () => {
+        const imported = importText("L 60s gain 120 offset 30 roi 100,200,640,480\n", textOptions());
+        assert.deepEqual(imported.root.childs!.byuuid["00000000"], {
+            filter: "L",
+            exposure: 60,
+            gain: 120,
+            offset: 30,
+            roi: {x: 100, y: 200, w: 640, h: 480},
+        });
+        assert.equal(exportText(imported), "title Imported sequence\nL 60s gain 120 offset 30 roi 100,200,640,480\n");
+
+        // HDR gain ladder
+        const ladder: SequenceTemplate = {
+            title: "HDR",
+            camera: null,
+            root: {
+                exposure: 30,
+                foreach: {
+                    param: "gain",
+                    list: ["a", "b", "c"],
+                    byuuid: {"a": {gain: 0}, "b": {gain: 120}, "c": {gain: 300}},
+                },
+            },
+        };
+        assert.deepEqual(importJson(exportJson(ladder)), ladder);
+        ladder.root.foreach!.byuuid["b"] = {gain: -1};
+        assert.deepEqual(validateTemplate(ladder), ["Root step: foreach item b: gain must be a non negative number"]);
+        assert.deepEqual(validateTemplate({...ladder, root: {roi: {x: 0, y: 0, w: 0, h: 10}}}), ["Root step: roi.w must be a positive integer"]);
+    });
+});
@@ -0,0 +1,763 @@
+import { SequenceTemplate, SequenceStep, SequenceStepParameters, SequenceDitheringSettings, DitheringSettings } from './shared/BackOfficeStatus';
+import { hasKey } from './Obj';
+import * as Catalog from './Catalog';
+import { checkAutoFlat } from './FlatLogic';
+import { checkFileNamingTemplate } from './FileNaming';
+import { templateKeys } from './SequenceTemplates';
+
+// Import/export of sequence definitions. See docs/sequence-format.md
+export const jsonFormatId = "mobindi-sequence";
+export const jsonFormatVersion = 1;
+
+export type SequenceDocument = {
+    format: typeof jsonFormatId;
+    version: number;
+    sequence: SequenceTemplate;
+}
+
+const frameTypes: {[id: string]: string} = {
+    light: "FRAME_LIGHT",
+    dark: "FRAME_DARK",
+    bias: "FRAME_BIAS",
+    flat: "FRAME_FLAT",
+};
+
+const stepParameters: Array<keyof SequenceStepParameters> = ["exposure", "iso", "type", "bin", "filter", "gain", "offset", "roi", "autoFlat", "dithering"];
+const stepKeys = [...stepParameters, "repeat", "wait", "center", "cooling", "foreach", "childs"];
+
+function isObject(v: any): v is {[key: string]: any} {
+    return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isPositiveNumber(v: any) {
+    return typeof v === "number" && isFinite(v) && v > 0;
+}
+
+function isPositiveInteger(v: any) {
+    return isPositiveNumber(v) && Math.floor(v) === v;
+}
+
+function isTime(v: any) {
+    return typeof v === "string" && /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/.test(v);
+}
+
+// Human readable name of a step: "root step" or "step 2.1 (uuid)", using positions in the child lists
+function stepName(path: Array<{index: number, uuid: string}>) {
+    if (path.length === 0) {
+        return "Root step";
+    }
+    return "Step " + path.map(e=>e.index + 1).join(".") + " (" + path[path.length - 1].uuid + ")";
+}
+
+function checkDithering(v: any, errors: string[]) {
+    if (!isObject(v)) {
+        errors.push("dithering must be null or an object");
+        return;
+    }
+    for(const field of ["amount", "pixels", "time", "timeout"]) {
+        if (!isPositiveNumber(v[field])) {
+            errors.push("dithering." + field + " must be a positive number");
+        }
+    }
+    for(const field of ["raOnly", "once"]) {
+        if (typeof v[field] !== "boolean") {
+            errors.push("dithering." + field + " must be a boolean");
+        }
+    }
+    if (v.every !== undefined && !isPositiveInteger(v.every)) {
+        errors.push("dithering.every must be a positive integer");
+    }
+}
+
+function checkRoi(v: any, errors: string[]) {
+    if (!isObject(v)) {
+        errors.push("roi must be null or an object");
+        return;
+    }
+    for(const field of ["x", "y"]) {
+        if (typeof v[field] !== "number" || !(v[field] >= 0) || Math.floor(v[field]) !== v[field]) {
+            errors.push("roi." + field + " must be a non negative integer");
+        }
+    }
+    for(const field of ["w", "h"]) {
+        if (!isPositiveInteger(v[field])) {
+            errors.push("roi." + field + " must be a positive integer");
+        }
+    }
+}
+
+function checkParameter(param: keyof SequenceStepParameters, v: any, errors: string[]) {
+    switch(param) {
+        case "exposure":
+            if (!isPositiveNumber(v)) {
+                errors.push("exposure must be a positive number");
+            }
+            return;
+        case "iso":
+            if (typeof v !== "string") {
+                errors.push("iso must be a string");
+            }
+            return;
+        case "type":
+            if (!Object.values(frameTypes).includes(v)) {
+                errors.push("type must be one of " + Object.values(frameTypes).join(", "));
+            }
+            return;
+        case "bin":
+            if (!isPositiveInteger(v)) {
+                errors.push("bin must be a positive integer");
+            }
+            return;
+        case "filter":
+            if (v !== null && typeof v !== "string") {
+                errors.push("filter must be null or a string");
+            }
+            return;
+        case "gain":
+        case "offset":
+            if (typeof v !== "number" || !isFinite(v) || v < 0) {
+                errors.push(param + " must be a non negative number");
+            }
+            return;
+        case "roi":
+            if (v !== null) {
+                checkRoi(v, errors);
+            }
+            return;
+        case "autoFlat":
+            if (v !== null) {
+                if (!isObject(v)) {
+                    errors.push("autoFlat must be null or an object");
+                    return;
+                }
+                const error = checkAutoFlat(v as any);
+                if (error !== null) {
+                    errors.push("autoFlat: " + error);
+                }
+            }
+            return;
+        case "dithering":
+            if (v !== null) {
+                checkDithering(v, errors);
+            }
+            return;
+    }
+}
+
+function checkWait(v: any, errors: string[]) {
+    if (!isObject(v)) {
+        errors.push("wait must be an object");
+        return;
+    }
+    switch(v.kind) {
+        case "altitude":
+            if (typeof v.minAltitude !== "number" || v.minAltitude < -90 || v.minAltitude > 90) {
+                errors.push("wait.minAltitude must be a number between -90 and 90");
+            }
+            return;
+        case "time":
+            if (!isTime(v.time)) {
+                errors.push("wait.time must be a HH:MM string");
+            }
+            return;
+        case "darkness":
+            if (typeof v.sunAltitude !== "number" || v.sunAltitude < -90 || v.sunAltitude > 90) {
+                errors.push("wait.sunAltitude must be a number between -90 and 90");
+            }
+            return;
+        default:
+            errors.push("wait.kind must be altitude, time or darkness");
+    }
+}
+
+function checkCenter(v: any, errors: string[]) {
+    if (!isObject(v)) {
+        errors.push("center must be an object");
+        return;
+    }
+    if (v.ra !== null && (typeof v.ra !== "number" || v.ra < 0 || v.ra >= 360)) {
+        errors.push("center.ra must be null or a number in [0, 360)");
+    }
+    if (v.dec !== null && (typeof v.dec !== "number" || v.dec < -90 || v.dec > 90)) {
+        errors.push("center.dec must be null or a number in [-90, 90]");
+    }
+    if ((v.ra === null) !== (v.dec === null)) {
+        errors.push("center.ra and center.dec must be both set or both null");
+    }
+}
+
+function checkCooling(v: any, errors: string[]) {
+    if (!isObject(v)) {
+        errors.push("cooling must be an object");
+        return;
+    }
+    if (typeof v.temperature !== "number" || !isFinite(v.temperature)) {
+        errors.push("cooling.temperature must be a number");
+    }
+}
+
+function checkForeach(v: any, errors: string[]) {
+    if (!isObject(v)) {
+        errors.push("foreach must be an object");
+        return;
+    }
+    if (!stepParameters.includes(v.param)) {
+        errors.push("foreach.param must be one of " + stepParameters.join(", "));
+        return;
+    }
+    if (!Array.isArray(v.list) || !isObject(v.byuuid)) {
+        errors.push("foreach must have a list and a byuuid map");
+        return;
+    }
+    for(const uuid of v.list) {
+        if (typeof uuid !== "string" || !hasKey(v.byuuid, uuid) || !isObject(v.byuuid[uuid])) {
+            errors.push("foreach item " + JSON.stringify(uuid) + " is missing");
+            continue;
+        }
+        const itemErrors: string[] = [];
+        checkParameter(v.param, v.byuuid[uuid][v.param], itemErrors);
+        for(const e of itemErrors) {
+            errors.push("foreach item " + uuid + ": " + e);
+        }
+    }
+}
+
+function checkStep(step: any, path: Array<{index: number, uuid: string}>, errors: string[]) {
+    const name = stepName(path);
+    if (!isObject(step)) {
+        errors.push(name + ": must be an object");
+        return;
+    }
+
+    const stepErrors: string[] = [];
+    for(const key of Object.keys(step)) {
+        if (!stepKeys.includes(key)) {
+            stepErrors.push("unknown property " + key);
+        }
+    }
+    for(const param of stepParameters) {
+        if (step[param] !== undefined) {
+            checkParameter(param, step[param], stepErrors);
+        }
+    }
+    if (step.repeat !== undefined && !isPositiveInteger(step.repeat)) {
+        stepErrors.push("repeat must be a positive integer");
+    }
+    if (step.wait !== undefined) {
+        checkWait(step.wait, stepErrors);
+    }
+    if (step.center !== undefined) {
+        checkCenter(step.center, stepErrors);
+    }
+    if (step.cooling !== undefined) {
+        checkCooling(step.cooling, stepErrors);
+    }
+    if ([step.wait, step.center, step.cooling].filter(e=>e !== undefined).length > 1) {
+        stepErrors.push("wait, center and cooling are exclusive");
+    }
+    if (step.foreach !== undefined) {
+        checkForeach(step.foreach, stepErrors);
+    }
+
+    let childs: string[] = [];
+    if (step.childs !== undefined) {
+        if ((step.wait !== undefined || step.center !== undefined || step.cooling !== undefined)) {
+            stepErrors.push("a wait, center or cooling step cannot have childs");
+        }
+        if (!isObject(step.childs) || !Array.isArray(step.childs.list) || !isObject(step.childs.byuuid)) {
+            stepErrors.push("childs must have a list and a byuuid map");
+        } else {
+            for(const uuid of step.childs.list) {
+                if (typeof uuid !== "string" || !hasKey(step.childs.byuuid, uuid)) {
+                    stepErrors.push("child " + JSON.stringify(uuid) + " is missing");
+                } else if (childs.includes(uuid)) {
+                    stepErrors.push("child " + uuid + " is listed twice");
+                } else {
+                    childs.push(uuid);
+                }
+            }
+        }
+    }
+
+    for(const e of stepErrors) {
+        errors.push(name + ": " + e);
+    }
+
+    childs.forEach((uuid, index)=>checkStep(step.childs.byuuid[uuid], [...path, {index, uuid}], errors));
+}
+
+// Returns an error for an invalid end condition
+export function checkEndCondition(endAt: any): string|null {
+    if (!isObject(endAt)
+        || !((endAt.kind === "time" && isTime(endAt.time))
+            || (endAt.kind === "dawn" && typeof endAt.sunAltitude === "number")
+            || (endAt.kind === "altitude" && typeof endAt.minAltitude === "number")))
+    {
+        return "not a valid end condition";
+    }
+    return null;
+}
+
+function checkTemplate(sequence: any, errors: string[]) {
+    if (!isObject(sequence)) {
+        errors.push("sequence must be an object");
+        return;
+    }
+    for(const key of Object.keys(sequence)) {
+        if (!(templateKeys as string[]).includes(key)) {
+            errors.push("sequence: unknown property " + key);
+        }
+    }
+    if (typeof sequence.title !== "string") {
+        errors.push("sequence.title must be a string");
+    }
+    if (sequence.camera !== null && typeof sequence.camera !== "string") {
+        errors.push("sequence.camera must be null or a string");
+    }
+    const target = sequence.target;
+    if (target !== undefined && target !== null) {
+        if (!isObject(target)
+            || typeof target.name !== "string"
+            || typeof target.ra !== "number" || target.ra < 0 || target.ra >= 360
+            || typeof target.dec !== "number" || target.dec < -90 || target.dec > 90
+            || (target.rotation !== null && typeof target.rotation !== "number"))
+        {
+            errors.push("sequence.target must have a name, ra in [0, 360), dec in [-90, 90] and a rotation (number or null)");
+        }
+    }
+    if (sequence.endAt !== undefined && sequence.endAt !== null) {
+        const error = checkEndCondition(sequence.endAt);
+        if (error !== null) {
+            errors.push("sequence.endAt: " + error);
+        }
+    }
+    const focusTriggers = sequence.focusTriggers;
+    if (focusTriggers !== undefined && focusTriggers !== null) {
+        if (!isObject(focusTriggers)
+            || (focusTriggers.everyFrames !== null && !isPositiveInteger(focusTriggers.everyFrames))
+            || typeof focusTriggers.afterFilterChange !== "boolean"
+            || (focusTriggers.temperatureDelta !== null && !isPositiveNumber(focusTriggers.temperatureDelta))
+            || (focusTriggers.fwhmDegradation !== null && !isPositiveNumber(focusTriggers.fwhmDegradation)))
+        {
+            errors.push("sequence.focusTriggers is not valid");
+        }
+    }
+    const qualityLimits = sequence.qualityLimits;
+    if (qualityLimits !== undefined && qualityLimits !== null) {
+        if (!isObject(qualityLimits)
+            || (qualityLimits.maxFwhm !== null && !isPositiveNumber(qualityLimits.maxFwhm))
+            || (qualityLimits.minStarCount !== null && !isPositiveInteger(qualityLimits.minStarCount))
+            || (qualityLimits.maxGuideRms !== null && !isPositiveNumber(qualityLimits.maxGuideRms))
+            || (qualityLimits.maxBackground !== null && !(isPositiveNumber(qualityLimits.maxBackground) && qualityLimits.maxBackground <= 1))
+            || typeof qualityLimits.moveRejected !== "boolean"
+            || (qualityLimits.maxRetakes !== undefined && !(qualityLimits.maxRetakes === 0 || isPositiveInteger(qualityLimits.maxRetakes))))
+        {
+            errors.push("sequence.qualityLimits is not valid");
+        }
+    }
+    if (sequence.warmUpAtEnd !== undefined && typeof sequence.warmUpAtEnd !== "boolean") {
+        errors.push("sequence.warmUpAtEnd must be a boolean");
+    }
+    if (sequence.fileNaming !== undefined && sequence.fileNaming !== null) {
+        const error = checkFileNamingTemplate(sequence.fileNaming);
+        if (error !== null) {
+            errors.push("sequence.fileNaming: " + error);
+        }
+    }
+    checkStep(sequence.root, [], errors);
+}
+
+// Returns the list of errors of a template (empty when valid)
+export function validateTemplate(sequence: any): string[] {
+    const errors: string[] = [];
+    checkTemplate(sequence, errors);
+    return errors;
+}
+
+function throwErrors(errors: string[]) {
+    if (errors.length) {
+        throw new Error("Invalid sequence: " + errors.join("; "));
+    }
+}
+
+export function exportJson(template: SequenceTemplate): string {
+    const doc: SequenceDocument = {
+        format: jsonFormatId,
+        version: jsonFormatVersion,
+        sequence: template,
+    };
+    return JSON.stringify(doc, null, 2);
+}
+
+export function importJson(content: string): SequenceTemplate {
+    let doc: any;
+    try {
+        doc = JSON.parse(content);
+    } catch(e) {
+        throw new Error("Invalid JSON: " + (e as Error).message);
+    }
+    if (!isObject(doc) || doc.format !== jsonFormatId) {
+        throw new Error("Not a sequence document (format must be " + jsonFormatId + ")");
+    }
+    if (doc.version !== jsonFormatVersion) {
+        throw new Error("Unsupported sequence document version: " + doc.version);
+    }
+    throwErrors(validateTemplate(doc.sequence));
+    return doc.sequence;
+}
+
+const headerKeywords = ["title", "camera", "target", "defaults"];
+const stepKeywords = ["step", "filter", "bin", "iso", "gain", "offset", "roi", "noroi", "dither", "nodither", ...Object.keys(frameTypes)];
+
+function isPlainWord(s: string) {
+    return /^[A-Za-z][A-Za-z0-9_.+-]*$/.test(s)
+        && !headerKeywords.includes(s.toLowerCase())
+        && !stepKeywords.includes(s.toLowerCase());
+}
+
+function quote(s: string) {
+    return '"' + s.replace(/\\/g, "\\\\").replace(/"/g, "\\\"") + '"';
+}
+
+function quoteIfRequired(s: string) {
+    return /^[^\s"\\]+$/.test(s) ? s : quote(s);
+}
+
+// Split a line into words. Double quotes group words, backslash escapes within quotes
+function tokenize(line: string): string[] {
+    const ret: string[] = [];
+    let i = 0;
+    while(i < line.length) {
+        if (/\s/.test(line[i])) {
+            i++;
+            continue;
+        }
+        if (line[i] === '"') {
+            let value = "";
+            i++;
+            while(true) {
+                if (i >= line.length) {
+                    throw new Error("unterminated quote");
+                }
+                if (line[i] === '"') {
+                    i++;
+                    break;
+                }
+                if (line[i] === '\\' && i + 1 < line.length) {
+                    i++;
+                }
+                value += line[i++];
+            }
+            ret.push(value);
+        } else {
+            let start = i;
+            while(i < line.length && !/\s/.test(line[i])) {
+                i++;
+            }
+            ret.push(line.substring(start, i));
+        }
+    }
+    return ret;
+}
+
+function formatNumber(v: number) {
+    return "" + parseFloat(v.toFixed(6));
+}
+
+function stepTokens(step: SequenceStep, name: string): string[] {
+    if (step.foreach || step.wait || step.center || step.cooling || step.autoFlat) {
+        throw new Error(name + ": "
+            + (step.foreach ? "foreach" : step.wait ? "wait" : step.center ? "center" : step.cooling ? "cooling" : "autoFlat")
+            + " steps are not supported by the text format. Use JSON instead");
+    }
+    const ret: string[] = [];
+    if (step.type !== undefined) {
+        const kw = Object.keys(frameTypes).find(k=>frameTypes[k] === step.type);
+        if (kw === undefined) {
+            throw new Error(name + ": unsupported frame type " + step.type);
+        }
+        ret.push(kw);
+    }
+    if (step.filter !== undefined && step.filter !== null) {
+        if (isPlainWord(step.filter) && !/^x?[0-9]/i.test(step.filter)) {
+            ret.push(step.filter);
+        } else {
+            ret.push("filter", quote(step.filter));
+        }
+    }
+    if (step.exposure !== undefined) {
+        ret.push(formatNumber(step.exposure) + "s");
+    }
+    if (step.repeat !== undefined) {
+        ret.push("x" + step.repeat);
+    }
+    if (step.bin !== undefined) {
+        ret.push("bin", "" + step.bin);
+    }
+    if (step.iso !== undefined) {
+        ret.push("iso", quoteIfRequired(step.iso));
+    }
+    if (step.gain !== undefined) {
+        ret.push("gain", formatNumber(step.gain));
+    }
+    if (step.offset !== undefined) {
+        ret.push("offset", formatNumber(step.offset));
+    }
+    if (step.roi === null) {
+        ret.push("noroi");
+    } else if (step.roi !== undefined) {
+        ret.push("roi", step.roi.x + "," + step.roi.y + "," + step.roi.w + "," + step.roi.h);
+    }
+    if (step.dithering === null) {
+        ret.push("nodither");
+    } else if (step.dithering !== undefined) {
+        ret.push("dither");
+        if (step.dithering.once) {
+            ret.push("once");
+        } else if (step.dithering.every !== undefined && step.dithering.every > 1) {
+            ret.push("every", "" + step.dithering.every);
+        }
+    }
+    return ret;
+}
+
+// Sequence settings of the JSON format only
+const jsonOnlySettings: Array<keyof SequenceTemplate> = ["endAt", "focusTriggers", "qualityLimits", "fileNaming"];
+
+// Compact text format. Only title, camera and target can be given for the sequence
+export function exportText(template: SequenceTemplate): string {
+    for(const setting of jsonOnlySettings) {
+        if (template[setting] !== undefined && template[setting] !== null) {
+            throw new Error("Sequence " + setting + " is not supported by the text format. Use JSON instead");
+        }
+    }
+    if (template.warmUpAtEnd) {
+        throw new Error("Sequence warmUpAtEnd is not supported by the text format. Use JSON instead");
+    }
+    const lines: string[] = [];
+    lines.push("title " + template.title);
+    if (template.camera !== null) {
+        lines.push("camera " + template.camera);
+    }
+    if (template.target) {
+        const t = template.target;
+        lines.push("target " + quoteIfRequired(t.name) + " " + formatNumber(t.ra) + " " + formatNumber(t.dec)
+                    + (t.rotation !== null ? " rotation " + formatNumber(t.rotation) : ""));
+    }
+    const rootTokens = stepTokens(template.root, stepName([]));
+    if (rootTokens.length) {
+        lines.push("defaults " + rootTokens.join(" "));
+    }
+
+    const dump = (step: SequenceStep, path: Array<{index: number, uuid: string}>)=> {
+        if (!step.childs) {
+            return;
+        }
+        step.childs.list.forEach((uuid, index)=> {
+            const childPath = [...path, {index, uuid}];
+            const child = step.childs!.byuuid[uuid];
+            const tokens = stepTokens(child, stepName(childPath));
+            lines.push("  ".repeat(path.length) + (tokens.length ? tokens.join(" ") : "step"));
+            dump(child, childPath);
+        });
+    };
+    dump(template.root, []);
+
+    return lines.join("\n") + "\n";
+}
+
+export type TextImportOptions = {
+    // Settling parameters for dither tokens
+    dithering: DitheringSettings;
+    newUuid: ()=>string;
+}
+
+function parseStepTokens(tokens: string[], step: SequenceStep, options: TextImportOptions) {
+    let i = 0;
+    const next = (what: string)=> {
+        if (i >= tokens.length) {
+            throw new Error("missing value after " + what);
+        }
+        return tokens[i++];
+    };
+
+    while(i < tokens.length) {
+        const token = tokens[i++];
+        const kw = token.toLowerCase();
+        let m: RegExpMatchArray|null;
+        if (hasKey(frameTypes, kw)) {
+            step.type = frameTypes[kw];
+        } else if ((m = kw.match(/^([0-9]+(\.[0-9]*)?|\.[0-9]+)s$/)) !== null) {
+            const exposure = parseFloat(m[1]);
+            if (!(exposure > 0)) {
+                throw new Error("exposure must be positive: " + token);
+            }
+            step.exposure = exposure;
+        } else if ((m = kw.match(/^x([0-9]+)$/)) !== null) {
+            const repeat = parseInt(m[1]);
+            if (repeat < 1) {
+                throw new Error("repeat must be positive: " + token);
+            }
+            step.repeat = repeat;
+        } else if (kw === "bin") {
+            const v = next(token);
+            if (!/^[1-9][0-9]*$/.test(v)) {
+                throw new Error("invalid bin: " + v);
+            }
+            step.bin = parseInt(v);
+        } else if (kw === "iso") {
+            step.iso = next(token);
+        } else if (kw === "gain" || kw === "offset") {
+            const v = next(token);
+            if (!/^([0-9]+(\.[0-9]*)?|\.[0-9]+)$/.test(v)) {
+                throw new Error("invalid " + kw + ": " + v);
+            }
+            step[kw] = parseFloat(v);
+        } else if (kw === "roi") {
+            const v = next(token);
+            if ((m = v.match(/^([0-9]+),([0-9]+),([1-9][0-9]*),([1-9][0-9]*)$/)) === null) {
+                throw new Error("invalid roi (x,y,width,height expected): " + v);
+            }
+            step.roi = {x: parseInt(m[1]), y: parseInt(m[2]), w: parseInt(m[3]), h: parseInt(m[4])};
+        } else if (kw === "noroi") {
+            step.roi = null;
+        } else if (kw === "filter") {
+            step.filter = next(token);
+        } else if (kw === "nodither") {
+            step.dithering = null;
+        } else if (kw === "dither") {
+            const {amount, raOnly, pixels, time, timeout} = options.dithering;
+            const dithering: SequenceDitheringSettings = {amount, raOnly, pixels, time, timeout, once: false};
+            const mode = i < tokens.length ? tokens[i].toLowerCase() : undefined;
+            if (mode === "once") {
+                i++;
+                dithering.once = true;
+            } else if (mode === "every") {
+                i++;
+                const v = next("dither every");
+                if (!/^[1-9][0-9]*$/.test(v)) {
+                    throw new Error("invalid dither frequency: " + v);
+                }
+                if (parseInt(v) > 1) {
+                    dithering.every = parseInt(v);
+                }
+            }
+            step.dithering = dithering;
+        } else if (kw === "step") {
+            // Placeholder for steps without parameters
+        } else if (isPlainWord(token) && !/^x?[0-9]/i.test(token)) {
+            step.filter = token;
+        } else {
+            throw new Error("unexpected " + JSON.stringify(token));
+        }
+    }
+}
+
+// <name> [<ra> <dec>] [rotation <deg>]. Without coordinates, the name is looked up in the catalog
+function parseTarget(tokens: string[]) {
+    let rotation: number|null = null;
+    const rotationPos = tokens.findIndex(e=>e.toLowerCase() === "rotation");
+    if (rotationPos !== -1) {
+        if (rotationPos !== tokens.length - 2 || isNaN(rotation = parseFloat(tokens[rotationPos + 1]))) {
+            throw new Error("rotation must be followed by a number, at the end of the line");
+        }
+        tokens = tokens.slice(0, rotationPos);
+    }
+    if (tokens.length === 0) {
+        throw new Error("missing target name");
+    }
+    const isNumber = (s: string)=>/^[-+]?([0-9]+(\.[0-9]*)?|\.[0-9]+)$/.test(s);
+    if (tokens.length === 3 && isNumber(tokens[1]) && isNumber(tokens[2])) {
+        const ra = parseFloat(tokens[1]);
+        const dec = parseFloat(tokens[2]);
+        if (ra < 0 || ra >= 360 || dec < -90 || dec > 90) {
+            throw new Error("invalid coordinates: " + tokens[1] + " " + tokens[2]);
+        }
+        return {name: tokens[0], ra, dec, rotation};
+    }
+    const name = tokens.join(" ");
+    const object = Catalog.lookup(name);
+    if (object === null) {
+        throw new Error("unknown target " + JSON.stringify(name) + ". Give its J2000 RA and Dec (degrees)");
+    }
+    return {name: object.name, ra: object.ra, dec: object.dec, rotation};
+}
+
+export function importText(content: string, options: TextImportOptions): SequenceTemplate {
+    const template: SequenceTemplate = {
+        title: "Imported sequence",
+        camera: null,
+        root: {},
+    };
+
+    const errors: string[] = [];
+    // Steps whose childs are still open, with the indentation of their step line and of their childs
+    const stack: Array<{indent: number, childIndent?: number, step: SequenceStep}> = [{indent: -1, step: template.root}];
+    let last: {indent: number, step: SequenceStep}|undefined;
+
+    content.split(/\r?\n/).forEach((rawLine, lineId)=> {
+        const line = rawLine.replace(/\t/g, "    ");
+        if (line.trim() === "" || line.trim().startsWith("#")) {
+            return;
+        }
+        const lineName = "Line " + (lineId + 1) + " (" + line.trim() + ")";
+        try {
+            const indent = line.length - line.trimStart().length;
+            const keyword = line.trim().split(/\s+/)[0].toLowerCase();
+            const value = line.trim().substring(keyword.length).trim();
+
+            if (indent === 0 && headerKeywords.includes(keyword)) {
+                if (last !== undefined) {
+                    throw new Error(keyword + " must appear before the steps");
+                }
+                switch(keyword) {
+                    case "title":
+                        template.title = value;
+                        break;
+                    case "camera":
+                        template.camera = value === "" ? null : value;
+                        break;
+                    case "target":
+                        template.target = parseTarget(tokenize(value));
+                        break;
+                    case "defaults":
+                        parseStepTokens(tokenize(value), template.root, options);
+                        break;
+                }
+                return;
+            }
+
+            if (last !== undefined && indent > last.indent) {
+                stack.push({indent: last.indent, step: last.step});
+            } else {
+                while(stack[stack.length - 1].indent >= indent) {
+                    stack.pop();
+                }
+            }
+            const parent = stack[stack.length - 1];
+            if (parent.childIndent === undefined) {
+                parent.childIndent = indent;
+            } else if (parent.childIndent !== indent) {
+                throw new Error("inconsistent indentation");
+            }
+
+            const step: SequenceStep = {};
+            if (!parent.step.childs) {
+                parent.step.childs = {list: [], byuuid: {}};
+            }
+            const uuid = options.newUuid();
+            parent.step.childs.list.push(uuid);
+            parent.step.childs.byuuid[uuid] = step;
+            // Keep the structure even if the parameters are wrong, for the errors of the next lines
+            last = {indent, step};
+
+            parseStepTokens(tokenize(line), step, options);
+        } catch(e) {
+            errors.push(lineName + ": " + (e as Error).message);
+        }
+    });
+
+    throwErrors(errors);
+    throwErrors(validateTemplate(template));
+    return template;
+}
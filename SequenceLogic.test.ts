@@ -503,4 +503,113 @@ describe("SequenceLogic", () => {
         nextStep = logic.getNextStep();
         assert.strictEqual(nextStep, undefined);
     });
-});
\ No newline at end of file
+    it("wait step before exposures", () => {
+        const sequence: Sequence = {
+            status: "idle",
+            progress: null,
+
+            title: "Test sequence",
+            camera: "camera_id",
+            errorMessage: null,
+
+            stepStatus: {},
+            root: {
+                exposure: 10,
+                childs: {
+                    list: [ "aaaa", "bbbb" ],
+                    byuuid: {
+                        "aaaa": {
+                            wait: {kind: "darkness", sunAltitude: -18},
+                        },
+                        "bbbb": {
+                            repeat: 3,
+                        }
+                    }
+                }
+            },
+
+            // uuids of images
+            images: [],
+            imageStats: {},
+        }
+
+        const logic:SequenceLogic = new SequenceLogic(sequence, uuidMock());
+
+        assert.deepStrictEqual(logic.totalCount([sequence.root]), {totalCount: 3, totalTime: 30});
+
+        let nextStep = logic.getNextStep();
+        assert.strictEqual(nextStep![1].step, sequence.root.childs!.byuuid.aaaa);
+        assert.deepStrictEqual(logic.getParameters(nextStep!), {exposure: 10});
+        assert.deepStrictEqual(logic.getProgress(nextStep!), {
+            imagePosition: 0,
+            timeSpent: 0,
+            totalCount: 3,
+            totalTime: 30,
+            waiting: {kind: "darkness", sunAltitude: -18},
+        });
+        logic.finish(nextStep![nextStep!.length - 1]);
+
+        nextStep = logic.getNextStep();
+        assert.strictEqual(nextStep![1].step, sequence.root.childs!.byuuid.bbbb);
+        assert.deepStrictEqual(logic.getProgress(nextStep!), {
+            imagePosition: 0,
+            timeSpent: 0,
+            totalCount: 3,
+            totalTime: 30,
+        });
+    });
+    it("time left caps the estimation", () => {
+        const sequence: Sequence = {
+            status: "idle",
+            progress: null,
+
+            title: "Test sequence",
+            camera: "camera_id",
+            errorMessage: null,
+            endAt: {kind: "time", time: "05:00"},
+
+            stepStatus: {},
+            root: {
+                exposure: 60,
+                repeat: 10,
+            },
+
+            // uuids of images
+            images: [],
+            imageStats: {},
+        }
+
+        const logic:SequenceLogic = new SequenceLogic(sequence, uuidMock());
+        assert.deepStrictEqual(logic.totalCount([sequence.root]), {totalCount: 10, totalTime: 600});
+
+        logic.setTimeLeft(150);
+        // The third frame starts before the limit
+        assert.deepStrictEqual(logic.totalCount([sequence.root]), {totalCount: 3, totalTime: 180});
+
+        let nextStep = logic.getNextStep();
+        logic.finish(nextStep![nextStep!.length - 1]);
+        nextStep = logic.getNextStep();
+        assert.deepStrictEqual(logic.getProgress(nextStep!), {
+            imagePosition: 1,
+            timeSpent: 60,
+            totalCount: 4,
+            totalTime: 240,
+        });
+
+        logic.setTimeLeft(0);
+        assert.deepStrictEqual(logic.getProgress(nextStep!), {
+            imagePosition: 1,
+            timeSpent: 60,
+            totalCount: 1,
+            totalTime: 60,
+        });
+
+        logic.setTimeLeft(10000);
+        assert.deepStrictEqual(logic.getProgress(nextStep!), {
+            imagePosition: 1,
+            timeSpent: 60,
+            totalCount: 10,
+            totalTime: 600,
+        });
+    });
+});
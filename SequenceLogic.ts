@@ -1,4 +1,4 @@
-import { CameraDeviceSettings, BackofficeStatus, SequenceStatus, Sequence, SequenceStep, SequenceStepStatus, SequenceStepParameters} from './shared/BackOfficeStatus';
+import { CameraDeviceSettings, BackofficeStatus, SequenceStatus, Sequence, SequenceStep, SequenceStepStatus, SequenceStepParameters, SequenceWaitCondition} from './shared/BackOfficeStatus';
 
 import { hasKey } from './Obj';
 
@@ -17,6 +17,8 @@ export type Progress = {
     /** 0 based */
     imagePosition: number;
     timeSpent: number;
+    /** Set when the current step is waiting for a condition */
+    waiting?: SequenceWaitCondition;
 } & SequenceSize;
 
 
@@ -24,12 +26,38 @@ export type Progress = {
 export class SequenceLogic {
     private readonly sequence: Sequence;
     private readonly uuid:()=>string;
+    // Seconds before the sequence end condition is reached. null if unlimited
+    private timeLeft: number|null = null;
 
     constructor(sequence: Sequence, uuid:()=>string) {
         this.sequence = sequence;
         this.uuid = uuid;
     }
 
+    // totalCount and getProgress of the whole sequence will not go beyond that time
+    setTimeLeft(timeLeft: number|null) {
+        this.timeLeft = timeLeft;
+    }
+
+    // Limit the remaining part of a whole sequence estimation to timeLeft.
+    // A frame started before the limit is counted
+    private capToTimeLeft<T extends SequenceSize>(size: T, imagePosition: number, timeSpent: number): T {
+        const remainingTime = size.totalTime - timeSpent;
+        if (this.timeLeft === null || remainingTime <= this.timeLeft) {
+            return size;
+        }
+        const remainingCount = size.totalCount - imagePosition;
+        const averageExposure = remainingCount > 0 ? remainingTime / remainingCount : 0;
+        const fitCount = averageExposure > 0
+                    ? Math.min(remainingCount, Math.ceil(Math.max(this.timeLeft, 0) / averageExposure))
+                    : remainingCount;
+        return {
+            ...size,
+            totalCount: imagePosition + fitCount,
+            totalTime: timeSpent + fitCount * averageExposure,
+        };
+    }
+
     statusDone(current: SequenceWithStatus):boolean {
         if ((current.status.finishedLoopCount || 0) >= Math.max(current.step.repeat || 0, 1)) {
             return true;
@@ -130,6 +158,14 @@ export class SequenceLogic {
     }
 
     totalCount(steps:SequenceStep[]):SequenceSize {
+        const size = this.computeSize(steps);
+        if (steps.length === 1 && steps[0] === this.sequence.root) {
+            return this.capToTimeLeft(size, 0, 0);
+        }
+        return size;
+    }
+
+    private computeSize(steps:SequenceStep[]):SequenceSize {
         const step = steps[steps.length - 1]
         const mult = Math.max(step.repeat || 1, 1);
 
@@ -139,11 +175,11 @@ export class SequenceLogic {
         };
         if (step.childs && step.childs.list.length) {
             for(const child of step.childs.list) {
-                const childSize = this.totalCount(steps.concat([step.childs.byuuid[child]]));
+                const childSize = this.computeSize(steps.concat([step.childs.byuuid[child]]));
                 size.totalCount += childSize.totalCount;
                 size.totalTime += childSize.totalTime;
             }
-        } else {
+        } else if (!step.wait && !step.center && !step.cooling) {
             size.totalCount= 1;
             size.totalTime= this.calcExposure(steps);
         }
@@ -154,9 +190,14 @@ export class SequenceLogic {
     }
 
     getProgress(stepStack: Array<SequenceWithStatus>, start?: number):Progress {
-        if (start === undefined) {
-            start = 0;
+        const progress = this.computeProgress(stepStack, start || 0);
+        if (!start) {
+            return this.capToTimeLeft(progress, progress.imagePosition, progress.timeSpent);
         }
+        return progress;
+    }
+
+    private computeProgress(stepStack: Array<SequenceWithStatus>, start: number):Progress {
 
         const v = stepStack[start];
         const loopCount = Math.max(v.step.repeat || 0, 1);
@@ -166,6 +207,25 @@ export class SequenceLogic {
         const doneForeachCount = this.getEffectiveFinishedForeachCount(v);
 
         if (start === stepStack.length -1) {
+            if (v.step.wait) {
+                // Wait steps don't produce images
+                return {
+                    totalCount: 0,
+                    imagePosition: 0,
+                    totalTime: 0,
+                    timeSpent: 0,
+                    waiting: v.step.wait,
+                };
+            }
+            if (v.step.center || v.step.cooling) {
+                // Neither do centering or cooling steps
+                return {
+                    totalCount: 0,
+                    imagePosition: 0,
+                    totalTime: 0,
+                    timeSpent: 0,
+                };
+            }
             const expValue = this.calcExposure(stepStack.map(e=>e.step));
             return {
                 totalCount: foreachCount * loopCount,
@@ -186,15 +246,18 @@ export class SequenceLogic {
         let activeChildFound : boolean = v.status.activeChild === undefined;
         for(const childUuid of v.step.childs!.list) {
             if (childUuid === v.status.activeChild) {
-                const v = this.getProgress(stepStack, start + 1);
+                const v = this.computeProgress(stepStack, start + 1);
                 ret.imagePosition += v.imagePosition;
                 ret.timeSpent += v.timeSpent;
                 ret.totalCount += v.totalCount;
                 ret.totalTime += v.totalTime;
+                if (v.waiting) {
+                    ret.waiting = v.waiting;
+                }
 
                 activeChildFound = true;
             } else {
-                const c = this.totalCount(stepStack.slice(0, start + 1).map(e=>e.step).concat([v.step.childs!.byuuid[childUuid]]));
+                const c = this.computeSize(stepStack.slice(0, start + 1).map(e=>e.step).concat([v.step.childs!.byuuid[childUuid]]));
                 ret.totalCount += c.totalCount;
                 ret.totalTime += c.totalTime;
                 if (!activeChildFound) {
@@ -317,7 +380,7 @@ export class SequenceLogic {
 
     getStepParameters(step: {step: SequenceStep, status: SequenceStepStatus}):SequenceStepParameters
     {
-        const {foreach, childs, repeat, ...ret} = {...step.step};
+        const {foreach, childs, repeat, wait, center, cooling, ...ret} = {...step.step};
 
         if (foreach && step.status.currentForeach && hasKey(foreach.byuuid, step.status.currentForeach)) {
             const p : keyof SequenceStepParameters = foreach.param;
@@ -329,6 +392,10 @@ export class SequenceLogic {
             if (step.status.finishedLoopCount) {
                 delete ret.dithering;
             }
+        } else if (ret.dithering && ret.dithering.every !== undefined && ret.dithering.every > 1) {
+            if (step.status.finishedLoopCount % ret.dithering.every !== 0) {
+                delete ret.dithering;
+            }
         }
 
         return ret;
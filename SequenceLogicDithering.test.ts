@@ -566,4 +566,59 @@ describe("SequenceLogicDithering", () => {
         let nextStep = logic.getNextStep();
         assert.strictEqual(nextStep, undefined);
     });
+
+    it("Dither every 3 images", () => {
+        const dithering = {
+            amount: 1,
+            pixels: 2,
+            raOnly: false,
+            time: 3,
+            timeout: 60,
+            once: false,
+            every: 3,
+        };
+        const sequence: Sequence = {
+            status: "idle",
+            progress: null,
+
+            title: "Test sequence",
+            camera: "camera_id",
+            errorMessage: null,
+
+            stepStatus: {},
+            root: {
+                childs: {
+                    list: ['c1'],
+                    byuuid: {
+                        'c1': {
+                            dithering,
+                            exposure: 10,
+                            repeat: 7,
+                        }
+                    }
+                }
+            },
+
+            // uuids of images
+            images: [],
+            imageStats: {},
+        }
+
+        const logic:SequenceLogic = new SequenceLogic(sequence, uuidMock());
+
+        for(let i = 0; i < 7; ++i) {
+            let nextStep = logic.getNextStep();
+            assert.notStrictEqual(nextStep, undefined, `image ${i}`);
+
+            let nextStepParams = logic.getParameters(nextStep!);
+            assert.deepStrictEqual(nextStepParams, {
+                ...(i % 3 ? {} : {dithering}),
+                exposure: 10,
+            },
+            `image ${i}`);
+
+            logic.finish(nextStep![nextStep!.length - 1]);
+        }
+        assert.strictEqual(logic.getNextStep(), undefined);
+    });
 });
@@ -3,8 +3,10 @@ const TraceError = require('trace-error');
 
 import CancellationToken from 'cancellationtoken';
 import * as jsonpatch from 'json-patch';
+import fs from 'fs';
+import path from 'path';
 import { ExpressApplication, AppContext } from "./ModuleBase";
-import { CameraDeviceSettings, BackofficeStatus, SequenceStatus, Sequence, SequenceStep, SequenceStepStatus, SequenceStepParameters, PhdGuideStep, PhdGuideStats, ImageStats, ImageStatus} from './shared/BackOfficeStatus';
+import { CameraDeviceSettings, BackofficeStatus, SequenceStatus, Sequence, SequenceStep, SequenceStepStatus, SequenceStepParameters, PhdGuideStep, PhdGuideStats, ImageStats, ImageStatus, SequenceFocusRun, SequenceTemplate, SequenceAutoFlat} from './shared/BackOfficeStatus';
 import JsonProxy from './JsonProxy';
 import * as Algebra from './Algebra';
 import { hasKey, deepCopy } from './Obj';
@@ -16,6 +18,19 @@ import * as RequestHandler from "./RequestHandler";
 import * as BackOfficeAPI from "./shared/BackOfficeAPI";
 import ConfigStore from './ConfigStore';
 import { SequenceLogic, Progress } from './SequenceLogic';
+import { SkyEnvironment, evaluateWaitCondition, describeWaitCondition, evaluateEndCondition, describeEndCondition, nextLocalTime } from './SequenceConditions';
+import Sleep from './Sleep';
+import { FocusObservation, getFocusTrigger, getFwhmSince, newFocusState } from './FocusTriggers';
+import SkyProjection from './SkyAlgorithms/SkyProjection';
+import { templateFromSequence, sequenceFromTemplate } from './SequenceTemplates';
+import * as SequenceFormat from './SequenceFormat';
+import { getRejectionReason, isRetakeLimitReached } from './SequenceQuality';
+import { countFrame, reconcileInterruptedSequence } from './SequenceRecovery';
+import { ScopeState } from './LightBox';
+import { isCalibrationFrameType } from './CalibrationLibrary';
+import { flatExposureKey, initialFlatExposure, isFlatLevelGood, nextFlatExposure } from './FlatLogic';
+import { checkFileNamingTemplate } from './FileNaming';
+import { FitsHeaderEntry, isFitsPath } from './FitsHeader';
 
 
 
@@ -34,7 +49,6 @@ import { SequenceLogic, Progress } from './SequenceLogic';
 // }
 
 
-type ScopeState = "light"|"dark"|"flat";
 const stateByFrameType :{[id:string]:ScopeState}= {
     FRAME_BIAS:"dark",
     FRAME_DARK:"dark",
@@ -46,6 +60,9 @@ const coverMessageByFrameType = {
     "flat": "Switch scope to flat field",
 }
 
+// Delay between two evaluations of a wait condition
+const waitConditionPollInterval = 15000;
+
 export default class SequenceManager
         implements RequestHandler.APIAppProvider<BackOfficeAPI.SequenceAPI>
 {
@@ -85,7 +102,12 @@ export default class SequenceManager
                     //     }
                     //
                 }
-            }
+            },
+            templates: {},
+            configuration: {
+                autoResume: false,
+            },
+            flatExposures: {},
         }
         this.currentStatus = this.appStateManager.getTarget().sequence;
         this.context = context;
@@ -147,18 +169,44 @@ export default class SequenceManager
                 return content;
             }
         );
+
+        new ConfigStore<SequenceStatus["templates"]>(appStateManager, 'sequenceTemplates', ['sequence', 'templates'], {}, {});
+
+        new ConfigStore<SequenceStatus["configuration"]>(appStateManager, 'sequenceConfiguration', ['sequence', 'configuration'], {
+            autoResume: false,
+        }, {
+            autoResume: true,
+        });
+
+        new ConfigStore<SequenceStatus["flatExposures"]>(appStateManager, 'sequenceFlatExposures', ['sequence', 'flatExposures'], {}, {});
+
         // Ensure no sequence is running on start
 
 
         this.pauseRunningSequences();
 
+        this.appStateManager.addSynchronizer(
+            [
+                [
+                    [ 'indiManager', 'deviceTree', null, 'CONNECTION', 'childs', 'CONNECT', '$_' ],
+                    [ 'sequence', 'configuration', 'autoResume' ],
+                ]
+            ],
+            this.resumeInterruptedSequences,
+            true
+        );
     }
 
-    newSequence=async (ct: CancellationToken, message: {}):Promise<string>=>{
+    public addSequence(sequence: Sequence):string {
         const key = uuidv4();
-        const firstSeq = uuidv4();
+        this.currentStatus.sequences.byuuid[key] = sequence;
+        this.currentStatus.sequences.list.push(key);
+        return key;
+    }
+
+    newSequence=async (ct: CancellationToken, message: {}):Promise<string>=>{
         // FIXME: takes parameters from the last created sequence
-        this.currentStatus.sequences.byuuid[key] = {
+        return this.addSequence({
             status: 'idle',
             title: 'New sequence',
             progress: null,
@@ -172,9 +220,77 @@ export default class SequenceManager
 
             images: [],
             imageStats: {},
-        };
-        this.currentStatus.sequences.list.push(key);
-        return key;
+        });
+    }
+
+    cloneSequence=async (ct: CancellationToken, message: {sequenceUid: string}):Promise<string>=>{
+        const source = this.findSequenceFromRequest(message.sequenceUid);
+        const sequence = sequenceFromTemplate(templateFromSequence(source));
+        sequence.title = source.title + " (copy)";
+        return this.addSequence(sequence);
+    }
+
+    saveSequenceTemplate=async (ct: CancellationToken, message: {sequenceUid: string, name: string})=>{
+        const name = message.name.trim();
+        if (name === "") {
+            throw new Error("Template name is required");
+        }
+        const source = this.findSequenceFromRequest(message.sequenceUid);
+        this.currentStatus.templates[name] = templateFromSequence(source);
+    }
+
+    dropSequenceTemplate=async (ct: CancellationToken, message: {name: string})=>{
+        if (!hasKey(this.currentStatus.templates, message.name)) {
+            throw new Error("Template not found: " + message.name);
+        }
+        delete this.currentStatus.templates[message.name];
+    }
+
+    newSequenceFromTemplate=async (ct: CancellationToken, message: BackOfficeAPI.NewSequenceFromTemplateRequest):Promise<string>=>{
+        if (!hasKey(this.currentStatus.templates, message.template)) {
+            throw new Error("Template not found: " + message.template);
+        }
+        const sequence = sequenceFromTemplate(this.currentStatus.templates[message.template]);
+        if (message.title !== undefined) {
+            sequence.title = message.title;
+        }
+        if (message.camera !== undefined) {
+            sequence.camera = message.camera;
+        }
+        if (message.target !== undefined) {
+            sequence.target = message.target;
+        }
+        return this.addSequence(sequence);
+    }
+
+    exportSequence=async (ct: CancellationToken, message: BackOfficeAPI.ExportSequenceRequest):Promise<string>=>{
+        const template = templateFromSequence(this.findSequenceFromRequest(message.sequenceUid));
+        switch(message.format) {
+            case "json":
+                return SequenceFormat.exportJson(template);
+            case "text":
+                return SequenceFormat.exportText(template);
+            default:
+                throw new Error("Unsupported format: " + message.format);
+        }
+    }
+
+    importSequence=async (ct: CancellationToken, message: BackOfficeAPI.ImportSequenceRequest):Promise<string>=>{
+        let template: SequenceTemplate;
+        switch(message.format) {
+            case "json":
+                template = SequenceFormat.importJson(message.content);
+                break;
+            case "text":
+                template = SequenceFormat.importText(message.content, {
+                    dithering: this.context.phd.currentStatus.configuration.preferredDithering,
+                    newUuid: uuidv4,
+                });
+                break;
+            default:
+                throw new Error("Unsupported format: " + message.format);
+        }
+        return this.addSequence(sequenceFromTemplate(template));
     }
 
     findSequenceFromRequest=(sequenceUid:string): Sequence=>
@@ -255,6 +371,7 @@ export default class SequenceManager
         parentStep.childs.list = message.childs;
     }
 
+    // Sequences still running were interrupted by process shutdown. Their stored progress is checked against the files on disk
     pauseRunningSequences()
     {
         for(var k of Object.keys(this.currentStatus.sequences.byuuid))
@@ -263,8 +380,63 @@ export default class SequenceManager
             if (seq.status == "running") {
                 console.log('Sequence ' + k + ' was interrupted by process shutdown');
                 seq.status ="paused";
+                try {
+                    seq.interruption = reconcileInterruptedSequence(seq, this.context.camera.currentStatus.images.byuuid, fs.existsSync, uuidv4);
+                    seq.progress = "Interrupted, resumes at " + seq.interruption.resumePoint;
+                    console.log('Sequence ' + k + ' resume point: ' + seq.interruption.resumePoint, seq.interruption.details);
+                } catch(e) {
+                    console.log('Unable to check interrupted sequence ' + k, e);
+                }
+            }
+        }
+    }
+
+    // Devices required to resume a sequence. null if they are all connected
+    private getResumeBlocker(sequence: Sequence): string|null {
+        if (sequence.camera === null) {
+            return "no camera";
+        }
+        const devices = [sequence.camera];
+        const dynState = Obj.getOwnProp(this.context.camera.currentStatus.dynStateByDevices, sequence.camera);
+        if (dynState && dynState.filterWheelDevice) {
+            devices.push(dynState.filterWheelDevice);
+        }
+        for(const device of devices) {
+            try {
+                this.indiManager.checkDeviceConnected(device);
+            } catch(e) {
+                return "" + device + " not connected";
             }
         }
+        return null;
+    }
+
+    private resumeInterruptedSequences = ()=>{
+        if (!this.currentStatus.configuration.autoResume || this.currentSequencePromise !== null) {
+            return;
+        }
+        for(const uuid of this.currentStatus.sequences.list) {
+            const sequence = Obj.getOwnProp(this.currentStatus.sequences.byuuid, uuid);
+            if (!sequence || sequence.status !== "paused" || !sequence.interruption) {
+                continue;
+            }
+            if (this.getResumeBlocker(sequence) !== null) {
+                continue;
+            }
+            console.log('Resuming interrupted sequence ' + uuid);
+            this.doStartSequence(CancellationToken.CONTINUE, uuid).catch((e)=> {
+                console.log('Resumed sequence ' + uuid + ' stopped', e);
+            });
+            return;
+        }
+    }
+
+    updateCurrentSettings = async (ct: CancellationToken, payload: {diff: any}) => {
+        const newSettings = JsonProxy.applyDiff(this.currentStatus.configuration, payload.diff);
+        if (typeof newSettings.autoResume !== "boolean") {
+            throw new Error("Invalid autoResume");
+        }
+        this.currentStatus.configuration = newSettings;
     }
 
     public deleteSequenceStep = async(ct: CancellationToken, message:BackOfficeAPI.DeleteSequenceStepRequest)=>{
@@ -295,7 +467,29 @@ export default class SequenceManager
         const param = message.param;
         const value = message.value;
 
+        if (param === 'fileNaming' && value !== null) {
+            const error = checkFileNamingTemplate(value);
+            if (error !== null) {
+                throw new Error(error);
+            }
+        }
+
+        if (param === 'endAt' && value !== null) {
+            const error = SequenceFormat.checkEndCondition(value);
+            if (error !== null) {
+                throw new Error("End condition: " + error);
+            }
+        }
+
         (seq as any)[param] = value;
+
+        if (param === 'endAt') {
+            // A new condition is not bound to the deadline of the previous one
+            seq.endTime = null;
+            if (seq.status === 'running') {
+                seq.endTime = getEndTime(seq);
+            }
+        }
     }
 
     public patchSequenceStep = async (ct: CancellationToken, message:BackOfficeAPI.PatchSequenceStepRequest)=>{
@@ -345,6 +539,9 @@ export default class SequenceManager
                 if (s.timeout !== undefined && (s.timeout <= 0 || s.timeout > 1000)) {
                     throw new Error("invalid value for time");
                 }
+                if (s.every !== undefined && (!Number.isInteger(s.every) || s.every < 1)) {
+                    throw new Error("invalid value for every");
+                }
 
                 Object.assign(parentStep.dithering, message.settings);
 
@@ -373,7 +570,188 @@ export default class SequenceManager
         }
     }
 
-    private doStartSequence = async (ct: CancellationToken, uuid:string)=>{
+    // Read what is known of the sky from the mount used for astrometry
+    // Without sequence, the target is the mount position
+    public getSkyEnvironment(sequence: Sequence|null): SkyEnvironment {
+        const ret: SkyEnvironment = {
+            now: Date.now(),
+            geoCoords: null,
+            targetRaDec: sequence?.target
+                ? SkyProjection.raDecEpochFromJ2000([sequence.target.ra, sequence.target.dec], Date.now())
+                : null,
+        };
+
+        const scope = this.context.astrometry.currentStatus.selectedScope;
+        if (scope === null) {
+            return ret;
+        }
+
+        try {
+            const device = this.indiManager.checkDeviceConnected(scope);
+            const geoVec = device.getVector('GEOGRAPHIC_COORD');
+            if (geoVec.exists()) {
+                const lat = parseFloat(geoVec.getPropertyValue("LAT"));
+                const long = parseFloat(geoVec.getPropertyValue("LONG"));
+                if (!isNaN(lat) && !isNaN(long)) {
+                    ret.geoCoords = {lat, long};
+                }
+            }
+            const coordVec = device.getVector('EQUATORIAL_EOD_COORD');
+            if (ret.targetRaDec === null && coordVec.exists()) {
+                const ra = parseFloat(coordVec.getPropertyValue("RA"));
+                const dec = parseFloat(coordVec.getPropertyValue("DEC"));
+                if (!isNaN(ra) && !isNaN(dec)) {
+                    ret.targetRaDec = [ra * 360 / 24, dec];
+                }
+            }
+        } catch(e) {
+            console.log('Unable to read mount position', e);
+        }
+        return ret;
+    }
+
+    // Move a rejected frame to a "rejected" subfolder. Failures are not fatal for the sequence
+    private async moveRejectedImage(imageUuid: string, imagePath: string) {
+        const target = path.join(path.dirname(imagePath), "rejected", path.basename(imagePath));
+        try {
+            await fs.promises.mkdir(path.dirname(target), {recursive: true});
+            await fs.promises.rename(imagePath, target);
+        } catch(e) {
+            console.log('Unable to move rejected image ' + imagePath, e);
+            return;
+        }
+        // Sidecar of the header, for files that are not FITS
+        if (!isFitsPath(imagePath)) {
+            await fs.promises.rename(imagePath + ".json", target + ".json").catch(()=>{});
+        }
+        const images = this.context.camera.currentStatus.images.byuuid;
+        if (hasKey(images, imageUuid)) {
+            images[imageUuid].path = target;
+        }
+    }
+
+    // Mean of the channel medians, in 16 bits ADU
+    private async measureMedianAdu(ct: CancellationToken, imagePath: string): Promise<number> {
+        const histogram = await this.imageProcessor.compute(ct,
+            {
+                histogram: { source: {
+                    path: imagePath,
+                    streamId: "",
+                },
+                options: {
+                    maxBits: 16
+                }
+            },
+        });
+        if (!histogram.length) {
+            throw new Error("Empty histogram for " + imagePath);
+        }
+        return histogram.map(ch=>this.imageProcessor.getHistgramAduLevel(ch, 0.5)).reduce((a, c)=>a+c, 0) / histogram.length;
+    }
+
+    // Last exposure found for a camera and a filter/binning, or a start value
+    private getFlatExposure(camera: string, key: string, autoFlat: SequenceAutoFlat): number {
+        const byKey = this.currentStatus.flatExposures[camera];
+        const exposure = (byKey && hasKey(byKey, key)) ? byKey[key] : initialFlatExposure;
+        return Math.min(Math.max(exposure, autoFlat.minExposure), autoFlat.maxExposure);
+    }
+
+    private rememberFlatExposure(camera: string, key: string, exposure: number) {
+        if (!hasKey(this.currentStatus.flatExposures, camera)) {
+            this.currentStatus.flatExposures[camera] = {};
+        }
+        this.currentStatus.flatExposures[camera][key] = exposure;
+    }
+
+    // Shoot test frames until the median level is within the tolerance. The exposure found is remembered
+    private async calibrateFlatExposure(ct: CancellationToken, sequence: Sequence, settings: CameraDeviceSettings, autoFlat: SequenceAutoFlat, key: string) {
+        const camera = sequence.camera!;
+        let exposure = settings.exposure;
+        for(let i = 0; i < autoFlat.maxIterations; ++i) {
+            sequence.progress = "Flat exposure " + key + ": test " + (i + 1) + " at " + exposure + "s";
+            const testSettings = {...settings, exposure, prefix: sanitizePath(sequence.title) + '_flat_test_XXX'};
+            const shootResult = await this.context.camera.doShoot(ct, camera, ()=>testSettings);
+            const adu = await this.measureMedianAdu(ct, shootResult.path);
+            console.log('Flat test frame at ' + exposure + 's: ' + adu + ' ADU');
+            if (isFlatLevelGood(adu, autoFlat)) {
+                this.rememberFlatExposure(camera, key, exposure);
+                return;
+            }
+            exposure = nextFlatExposure(exposure, adu, autoFlat);
+        }
+        throw new Error("No flat exposure found for " + key + " after " + autoFlat.maxIterations + " test frames");
+    }
+
+    // Follow the light changes (sky flats) using the level of a flat. Returns false when a new calibration is required
+    private async checkFlatLevel(ct: CancellationToken, camera: string, imagePath: string, exposure: number, autoFlat: SequenceAutoFlat, key: string): Promise<boolean> {
+        const adu = await this.measureMedianAdu(ct, imagePath);
+        if (isFlatLevelGood(adu, autoFlat)) {
+            return true;
+        }
+        try {
+            this.rememberFlatExposure(camera, key, nextFlatExposure(exposure, adu, autoFlat));
+        } catch(e) {
+            // The calibration will report it
+        }
+        return false;
+    }
+
+    // Run an autofocus with the sequence camera when one of the sequence triggers fires
+    private async refocusIfRequired(ct: CancellationToken, sequence: Sequence, filter: string|null, shootTitle: string) {
+        const triggers = sequence.focusTriggers;
+        if (!triggers || sequence.camera === null) {
+            return;
+        }
+        const camera = sequence.camera;
+
+        const observe = ():FocusObservation => ({
+            // Steps without filter keep the current one
+            filter: filter !== null ? filter : (sequence.focusState ? sequence.focusState.filter : null),
+            temperature: this.context.focuser.getFocuserTemperature(camera),
+            fwhms: sequence.focusState ? getFwhmSince(sequence, sequence.focusState.firstImage) : [],
+        });
+
+        if (!sequence.focusState) {
+            // Current conditions are the reference until the first autofocus
+            sequence.focusState = newFocusState(observe(), sequence.images.length);
+            return;
+        }
+
+        const trigger = getFocusTrigger(triggers, sequence.focusState, observe());
+        if (trigger === null) {
+            return;
+        }
+
+        console.log('Autofocus triggered: ' + trigger);
+        sequence.progress = "Autofocus " + shootTitle + " (" + trigger + ")";
+        const run: SequenceFocusRun = {
+            time: Date.now(),
+            trigger,
+            status: "done",
+            position: null,
+            error: null,
+        };
+        try {
+            run.position = await this.context.focuser.focus(ct, {camera});
+        } catch(e) {
+            if (e instanceof CancellationToken.CancellationError) {
+                throw e;
+            }
+            run.status = "error";
+            run.error = "" + (e.message || e);
+            this.context.notification.error("Autofocus failed for sequence " + sequence.title, e);
+        }
+        if (!sequence.focusRuns) {
+            sequence.focusRuns = [];
+        }
+        sequence.focusRuns.push(run);
+
+        // Also restart from current conditions after a failure, not to retry on every frame
+        sequence.focusState = newFocusState(observe(), sequence.images.length);
+        ct.throwIfCancelled();
+    }
+
+    private doStartSequence = async (ct: CancellationToken, uuid:string, interrupt?: ()=>string|null)=>{
         const getSequence=()=>{
             var rslt = this.currentStatus.sequences.byuuid[uuid];
             if (!rslt) {
@@ -429,6 +807,18 @@ export default class SequenceManager
         const computeStatsWithMetrics = async (ct: CancellationToken, indiFrameType: string|undefined, shootResult: BackOfficeAPI.ShootResult, target: ImageStats, guideSteps: Array<PhdGuideStep>)=>{
             await computeStats(ct, indiFrameType, shootResult, target, guideSteps);
 
+            const header: FitsHeaderEntry[] = [];
+            if (target.fwhm !== undefined) {
+                header.push({key: 'FWHM', value: target.fwhm, comment: 'Mean FWHM of the stars (pixels)'});
+            }
+            if (target.starCount !== undefined) {
+                header.push({key: 'STARS', value: target.starCount, comment: 'Number of stars detected'});
+            }
+            if (target.guideStats && target.guideStats.RADECDistanceRMS !== null) {
+                header.push({key: 'GUIDERMS', value: target.guideStats.RADECDistanceRMS, comment: 'Guiding RMS (guide camera pixels)'});
+            }
+            await this.context.camera.addImageHeader(shootResult.path, header);
+
             this.lastImageTime = Date.now();
             this.lastGuideStats = Obj.deepCopy(target.guideStats);
             this.lastBackgroundLevel = target.backgroundLevel;
@@ -438,8 +828,15 @@ export default class SequenceManager
             console.log('Statistic updated :', target);
         }
 
+        let interrupted = false;
+        // Reason of a pause decided by the sequence itself
+        let pauseError: string|null = null;
+
         const sequenceLogic = async (ct: CancellationToken) => {
-            let scopeState: ScopeState = "light";
+            // Unknown on start: light frames are expected, but the dust cap may be closed
+            let scopeState: ScopeState|null = null;
+            // Filter/binning keys whose flat exposure was checked by test frames during this run
+            const calibratedFlats = new Set<string>();
 
             while(true) {
                 ct.throwIfCancelled();
@@ -461,11 +858,86 @@ export default class SequenceManager
                     throw new Error("No device specified");
                 }
 
+                if (sequence.endAt) {
+                    const endStatus = evaluateEndCondition(sequence.endAt, this.getSkyEnvironment(sequence),
+                                                            sequence.endTime !== undefined ? sequence.endTime : null);
+                    if (endStatus.reached) {
+                        console.log('Sequence end condition reached: ' + uuid + ' ' + endStatus.details);
+                        sequence.progress = "Ended at " + describeEndCondition(sequence.endAt);
+                        return;
+                    }
+                    sequenceLogic.setTimeLeft(endStatus.timeLeft);
+                }
+
+                const interruptReason = interrupt ? interrupt() : null;
+                if (interruptReason !== null) {
+                    console.log('Sequence interrupted: ' + uuid + ' ' + interruptReason);
+                    sequence.progress = "Interrupted: " + interruptReason;
+                    interrupted = true;
+                    return;
+                }
+
+                const waitingStep = nextStep[nextStep.length - 1];
+                if (waitingStep.step.wait) {
+                    const condition = waitingStep.step.wait;
+                    this.currentSequenceProgress = sequenceLogic.getProgress(nextStep);
+
+                    if (condition.kind === "time" && waitingStep.status.waitUntil === undefined) {
+                        waitingStep.status.waitUntil = nextLocalTime(condition.time, Date.now());
+                    }
+                    const waitUntil = waitingStep.status.waitUntil !== undefined ? waitingStep.status.waitUntil : null;
+
+                    const conditionStatus = evaluateWaitCondition(condition, this.getSkyEnvironment(sequence), waitUntil);
+                    if (!conditionStatus.satisfied) {
+                        sequence.progress = "Waiting for " + describeWaitCondition(condition) + " (" + conditionStatus.details + ")";
+                        await Sleep(ct, waitConditionPollInterval);
+                        continue;
+                    }
+                    console.log('Wait condition reached: ' + conditionStatus.details);
+                    delete waitingStep.status.waitUntil;
+                    sequenceLogic.finish(waitingStep);
+                    continue;
+                }
+
+                if (waitingStep.step.center) {
+                    const centerTarget = waitingStep.step.center;
+                    this.currentSequenceProgress = sequenceLogic.getProgress(nextStep);
+
+                    const [ra, dec] = (centerTarget.ra !== null && centerTarget.dec !== null)
+                            ? [centerTarget.ra, centerTarget.dec]
+                            : sequence.target
+                                ? [sequence.target.ra, sequence.target.dec]
+                                : this.context.astrometry.getMountJ2000Position();
+                    sequence.progress = "Centering";
+                    const distance = await this.context.astrometry.center(ct, {ra, dec, camera: sequence.camera});
+                    console.log('Centered at ' + distance + ' arcmin');
+                    sequenceLogic.finish(waitingStep);
+                    continue;
+                }
+
+                if (waitingStep.step.cooling) {
+                    const temperature = waitingStep.step.cooling.temperature;
+                    this.currentSequenceProgress = sequenceLogic.getProgress(nextStep);
+                    sequence.progress = "Cooling to " + temperature + "°C";
+                    await this.context.camera.waitCoolingStable(ct, sequence.camera, temperature);
+                    console.log('Camera temperature stable at ' + temperature);
+                    sequenceLogic.finish(waitingStep);
+                    continue;
+                }
+
                 // Check that camera is connected
                 const device = this.indiManager.checkDeviceConnected(sequence.camera);
 
                 const param : SequenceStep = sequenceLogic.getParameters(nextStep);
 
+                const flatKey = flatExposureKey(param.filter, param.bin);
+                if (param.autoFlat) {
+                    if (param.type === undefined) {
+                        param.type = 'FRAME_FLAT';
+                    }
+                    param.exposure = this.getFlatExposure(sequence.camera, flatKey, param.autoFlat);
+                }
+
                 // Get the name of frame type
                 const stepTypeLabel =
                         (param.type ? device.getVector('CCD_FRAME_TYPE').getPropertyLabelIfExists(param.type) : undefined)
@@ -486,20 +958,32 @@ export default class SequenceManager
 
                 const settings:CameraDeviceSettings = {...param, exposure: param.exposure};
 
-                settings.prefix = sanitizePath(sequence.title) + '_' + sanitizePath(stepTypeLabel);
+                const naming = this.context.camera.getImageNaming(sequence.camera, settings, {
+                    template: sequence.fileNaming,
+                    sequence: sequence.title,
+                    target: sequence.target ? sequence.target.name : null,
+                    filter: param.filter ? param.filter : undefined,
+                });
+                settings.path = naming.path;
+                settings.prefix = naming.prefix;
 
-                if (param.filter) {
-                    settings.prefix += '_' + sanitizePath(param.filter);
-                }
+                const newScopeState:ScopeState = (param.type && hasKey(stateByFrameType, param.type)) ? stateByFrameType[param.type] : 'light';
 
-                if (param.exposure < 1 || (param.exposure % 1)) {
-                    settings.prefix += '_' + Math.floor(param.exposure * 1000) + 'ms';
-                } else {
-                    settings.prefix += '_' + Math.floor(param.exposure) + 's';
+                // Only frames of the sky care about the meridian
+                if (newScopeState === "light") {
+                    const flipDecision = this.context.meridianFlip.checkFlip(param.exposure);
+                    if (flipDecision === "wait") {
+                        sequence.progress = "Waiting for meridian " + shootTitle;
+                        await Sleep(ct, waitConditionPollInterval);
+                        continue;
+                    }
+                    if (flipDecision === "flip") {
+                        sequence.progress = "Meridian flip " + shootTitle;
+                        await this.context.meridianFlip.flip(ct, sequence.camera);
+                        continue;
+                    }
                 }
 
-                settings.prefix += '_XXX';
-
                 const currentExecutionStatus = nextStep[nextStep.length - 1];
                 // Copy because it could change concurrently in case of removal/reorder
                 const currentExecutionUuid = currentExecutionStatus.status.execUuid;
@@ -518,9 +1002,12 @@ export default class SequenceManager
                 }
 
                 // Send a cover scope dialog if required
-                const newScopeState:ScopeState = (param.type && hasKey(stateByFrameType, param.type)) ? stateByFrameType[param.type] : 'light';
                 if (newScopeState !== scopeState) {
-                    if (this.needCoverScopeMessage(sequence.camera))
+                    // Use the light box and dust cap of the camera when they can do it, else ask
+                    const automated = this.context.lightBox.canSetScopeState(sequence.camera, newScopeState);
+                    if (!automated
+                        && (scopeState !== null || newScopeState !== "light")
+                        && this.needCoverScopeMessage(sequence.camera))
                     {
                         // Check that camera is connected first
                         this.indiManager.checkDeviceConnected(sequence.camera);
@@ -535,6 +1022,11 @@ export default class SequenceManager
                             this.disableCoverScopeMessage(sequence.camera);
                         }
                     }
+                    // Otherwise the user took care of the devices
+                    if (automated) {
+                        sequence.progress = coverMessageByFrameType[newScopeState] + " " + shootTitle;
+                        await this.context.lightBox.setScopeState(ct, sequence.camera, newScopeState);
+                    }
                     scopeState = newScopeState;
                 }
 
@@ -548,6 +1040,27 @@ export default class SequenceManager
                     ct.throwIfCancelled();
                 }
 
+                if (param.type === undefined || param.type === 'FRAME_LIGHT') {
+                    await this.refocusIfRequired(ct, sequence, param.filter || null, shootTitle);
+                }
+
+                if (param.autoFlat && !calibratedFlats.has(flatKey)) {
+                    await this.calibrateFlatExposure(ct, sequence, settings, param.autoFlat, flatKey);
+                    calibratedFlats.add(flatKey);
+                    // Restart with the exposure found
+                    continue;
+                }
+
+                const diskSpace = await this.context.camera.checkDiskSpace(ct, sequence.camera, settings.path!, param.bin);
+                if (diskSpace.lowSpace) {
+                    pauseError = "Low disk space: " + Math.floor(diskSpace.free! / (1024 * 1024)) + "MB free in " + diskSpace.path
+                            + ", minimum is " + this.context.camera.getMinFreeSpace() + "MB";
+                    console.log('Sequence paused: ' + uuid + ' ' + pauseError);
+                    sequence.progress = "Paused: low disk space";
+                    interrupted = true;
+                    return;
+                }
+
                 sequence.progress = (stepTypeLabel) + " " + shootTitle;
                 ct.throwIfCancelled();
 
@@ -556,7 +1069,11 @@ export default class SequenceManager
 
                 let shootResult;
                 try {
-                    shootResult = await this.context.camera.doShoot(ct, sequence.camera, ()=>(settings));
+                    shootResult = await this.context.camera.doShoot(ct, sequence.camera, ()=>(settings), {
+                        object: sequence.target ? sequence.target.name : null,
+                        sequence: uuid,
+                        step: nextStep.length > 1 ? nextStep[nextStep.length - 2].status.activeChild : undefined,
+                    });
                 } finally {
                     unregisterPhd();
                 }
@@ -565,10 +1082,70 @@ export default class SequenceManager
                 progress.timeSpent += param.exposure;
 
                 sequence.images.push(shootResult.uuid);
-                sequenceLogic.finish(currentExecutionStatus);
-
                 sequence.imageStats[shootResult.uuid] = {};
-                computeStatsWithMetrics(CancellationToken.CONTINUE, param.type, shootResult, sequence.imageStats[shootResult.uuid], guideSteps);
+
+                const isLight = param.type === undefined || param.type === 'FRAME_LIGHT';
+                if (sequence.qualityLimits && isLight) {
+                    // The frame must be checked before counting it
+                    sequence.progress = "Checking " + shootTitle;
+                    const stats = sequence.imageStats[shootResult.uuid];
+                    try {
+                        await computeStatsWithMetrics(ct, 'FRAME_LIGHT', shootResult, stats, guideSteps);
+                    } catch(e) {
+                        if (e instanceof CancellationToken.CancellationError) {
+                            throw e;
+                        }
+                        console.log('Statistics failed, frame accepted', e);
+                    }
+                    const reason = getRejectionReason(stats, sequence.qualityLimits, this.phd.currentStatus.pixelScale);
+                    if (reason !== null) {
+                        console.log('Frame rejected: ' + shootResult.path + ': ' + reason);
+                        stats.rejected = reason;
+                        if (sequence.qualityLimits.moveRejected) {
+                            await this.moveRejectedImage(shootResult.uuid, shootResult.path);
+                        }
+                        const retakes = (currentExecutionStatus.status.retakes || 0) + 1;
+                        if (isRetakeLimitReached(sequence.qualityLimits, retakes)) {
+                            // Resuming gives the step new retakes
+                            delete currentExecutionStatus.status.retakes;
+                            pauseError = "Frame rejected " + retakes + " times in a row: " + reason;
+                            console.log('Sequence paused: ' + uuid + ' ' + pauseError);
+                            sequence.progress = "Paused: too many rejected frames";
+                            interrupted = true;
+                            return;
+                        }
+                        currentExecutionStatus.status.retakes = retakes;
+                        continue;
+                    }
+                    delete currentExecutionStatus.status.retakes;
+                    countFrame(sequenceLogic, sequence, currentExecutionStatus, shootResult.uuid);
+                    if (sequence.focusState) {
+                        sequence.focusState.framesSinceFocus++;
+                    }
+                } else {
+                    countFrame(sequenceLogic, sequence, currentExecutionStatus, shootResult.uuid);
+                    // Calibration frames don't count toward the next autofocus
+                    if (sequence.focusState && isLight) {
+                        sequence.focusState.framesSinceFocus++;
+                    }
+                    computeStatsWithMetrics(CancellationToken.CONTINUE, param.type, shootResult, sequence.imageStats[shootResult.uuid], guideSteps);
+                    if (isCalibrationFrameType(param.type)) {
+                        this.context.calibrationLibrary.addFrame({
+                            camera: sequence.camera,
+                            type: param.type,
+                            exposure: param.exposure,
+                            bin: param.bin || 1,
+                            gain: param.gain !== undefined ? param.gain : null,
+                            offset: param.offset !== undefined ? param.offset : null,
+                            iso: param.iso !== undefined ? param.iso : null,
+                            temperature: this.context.camera.getSensorTemperature(sequence.camera),
+                            filter: param.filter || null,
+                        }, shootResult.path);
+                    }
+                    if (param.autoFlat && !await this.checkFlatLevel(ct, sequence.camera, shootResult.path, param.exposure, param.autoFlat, flatKey)) {
+                        calibratedFlats.delete(flatKey);
+                    }
+                }
             }
         }
 
@@ -593,7 +1170,15 @@ export default class SequenceManager
             this.currentSequenceUuid = null;
             this.currentSequencePromise = null;
 
-            if (s !== "paused") {
+            if (s === "done" && seq.warmUpAtEnd && seq.camera !== null) {
+                try {
+                    this.context.camera.startWarmUp(seq.camera);
+                } catch(e) {
+                    console.log('Unable to warm up ' + seq.camera, e);
+                }
+            }
+
+            if (s !== "paused" || e) {
                 this.context.notification.notify("Sequence " + seq.title + " " + s + (e ? ": " + e : ""));
             }
         }
@@ -615,6 +1200,8 @@ export default class SequenceManager
             this.currentSequenceUuid = uuid;
             this.currentStatus.sequences.byuuid[uuid].status = 'running';
             this.currentStatus.sequences.byuuid[uuid].errorMessage = null;
+            this.currentStatus.sequences.byuuid[uuid].interruption = null;
+            this.currentStatus.sequences.byuuid[uuid].endTime = getEndTime(this.currentStatus.sequences.byuuid[uuid]);
     
             try {
                 task.cancellation.throwIfCancelled();
@@ -627,10 +1214,15 @@ export default class SequenceManager
                 }
                 throw e;
             }
-            finishWithStatus('done');
+            finishWithStatus(interrupted ? 'paused' : 'done', pauseError);
         }));
     }
 
+    // Resolves when the sequence ends. interrupt is checked before each step: the sequence is paused as soon as it gives a reason
+    public runSequence = async (ct: CancellationToken, uuid: string, interrupt: ()=>string|null)=>{
+        await this.doStartSequence(ct, uuid, interrupt);
+    }
+
     startSequence = async (ct: CancellationToken, message:{sequenceUid: string})=>{
         this.doStartSequence(ct, message.sequenceUid);
     }
@@ -657,6 +1249,11 @@ export default class SequenceManager
         const sequence = this.currentStatus.sequences.byuuid[key];
 
         sequence.stepStatus = {};
+        sequence.focusState = null;
+        sequence.focusRuns = [];
+        sequence.lastFrame = null;
+        sequence.interruption = null;
+        sequence.endTime = null;
         sequence.status = 'idle';
         sequence.progress = null;
         sequence.errorMessage = null;
@@ -788,11 +1385,18 @@ export default class SequenceManager
             updateSequenceStepDithering: this.updateSequenceStepDithering,
             moveSequenceSteps: this.moveSequenceSteps,
             newSequence: this.newSequence,
+            cloneSequence: this.cloneSequence,
+            saveSequenceTemplate: this.saveSequenceTemplate,
+            dropSequenceTemplate: this.dropSequenceTemplate,
+            newSequenceFromTemplate: this.newSequenceFromTemplate,
+            exportSequence: this.exportSequence,
+            importSequence: this.importSequence,
             newSequenceStep: this.newSequenceStep,
             startSequence: this.startSequence,
             stopSequence: this.stopSequence,
             resetSequence: this.resetSequence,
             dropSequence: this.dropSequence,
+            updateCurrentSettings: this.updateCurrentSettings,
         }
     }
 }
@@ -810,3 +1414,20 @@ function sanitizePath(p : string) {
     // Be cool with windows
     return p.replace(/[\/\.\*\?\:\\ ]+/g, '-');
 }
+
+// How long a passed end time still applies to a resumed sequence
+const endTimeValidity = 12 * 3600 * 1000;
+
+// A "time" end condition applies to the first occurrence of that time after the sequence is started.
+// The deadline is kept when the sequence is paused: resuming it the same night after the deadline ends it at once.
+// It is computed again for a sequence resumed in a later night
+function getEndTime(sequence: Sequence): number|null {
+    if (!sequence.endAt || sequence.endAt.kind !== "time") {
+        return null;
+    }
+    const now = Date.now();
+    if (sequence.endTime !== undefined && sequence.endTime !== null && now - sequence.endTime < endTimeValidity) {
+        return sequence.endTime;
+    }
+    return nextLocalTime(sequence.endAt.time, now);
+}
@@ -0,0 +1,52 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+
+import { SequenceQualityLimits } from "./shared/BackOfficeStatus";
+import { defaultMaxRetakes, getRejectionReason, isRetakeLimitReached } from "./SequenceQuality";
+
+const limits: SequenceQualityLimits = {
+    maxFwhm: 3.5,
+    minStarCount: 30,
+    maxGuideRms: 1.2,
+    maxBackground: 0.2,
+    moveRejected: false,
+};
+
+const guideStats = (rms: number|null)=>({
+    RADistanceRMS: null,
+    DECDistanceRMS: null,
+    RADECDistanceRMS: rms,
+    RADistancePeak: null,
+    DECDistancePeak: null,
+    RADECDistancePeak: null,
+});
+
+describe("SequenceQuality", () => {
+    it("Accepts good frames", () => {
+        assert.isNull(getRejectionReason({fwhm: 2.5, starCount: 120, backgroundLevel: 0.1, guideStats: guideStats(0.4)}, limits, 2));
+    });
+
+    it("Gives every reason", () => {
+        assert.equal(getRejectionReason({fwhm: 4.25, starCount: 12, backgroundLevel: 0.35, guideStats: guideStats(0.8)}, limits, 2),
+            "12 stars < 30, FWHM 4.25 > 3.50, guiding RMS 1.60\" > 1.20\", background 0.350 > 0.200");
+        assert.equal(getRejectionReason({starCount: 0}, limits, 2), "0 stars < 30, FWHM unknown");
+    });
+
+    it("Ignores guiding without pixel scale or guide steps", () => {
+        const stats = {fwhm: 2.5, starCount: 120, guideStats: guideStats(0.8)};
+        assert.isNull(getRejectionReason(stats, limits, null));
+        assert.isNull(getRejectionReason({...stats, guideStats: guideStats(null)}, limits, 2));
+    });
+
+    it("Disabled limits", () => {
+        assert.isNull(getRejectionReason({}, {maxFwhm: null, minStarCount: null, maxGuideRms: null, maxBackground: null, moveRejected: true}, 2));
+    });
+
+    it("Limits the retakes", () => {
+        assert.isFalse(isRetakeLimitReached({...limits, maxRetakes: 2}, 2));
+        assert.isTrue(isRetakeLimitReached({...limits, maxRetakes: 2}, 3));
+        assert.isTrue(isRetakeLimitReached({...limits, maxRetakes: 0}, 1));
+        assert.isFalse(isRetakeLimitReached(limits, defaultMaxRetakes));
+        assert.isTrue(isRetakeLimitReached(limits, defaultMaxRetakes + 1));
+    });
+});
@@ -0,0 +1,41 @@
+import { ImageStats, SequenceQualityLimits } from './shared/BackOfficeStatus';
+
+// Retakes of a frame allowed when the limits don't tell
+export const defaultMaxRetakes = 5;
+
+// A step whose frames are rejected too many times in a row pauses the sequence
+export function isRetakeLimitReached(limits: SequenceQualityLimits, retakes: number): boolean {
+    const maxRetakes = limits.maxRetakes !== undefined ? limits.maxRetakes : defaultMaxRetakes;
+    return retakes > maxRetakes;
+}
+
+function format(v: number, digits: number) {
+    return v.toLocaleString("en-US", {minimumFractionDigits: digits, maximumFractionDigits: digits});
+}
+
+// Why a light frame does not pass the limits. null when it does.
+// Guiding is only checked when the frame was guided and the pixel scale (arcsec/pixel) is known
+export function getRejectionReason(stats: ImageStats, limits: SequenceQualityLimits, pixelScale: number|null): string|null {
+    const reasons: string[] = [];
+    if (limits.minStarCount !== null && (stats.starCount || 0) < limits.minStarCount) {
+        reasons.push((stats.starCount || 0) + " stars < " + limits.minStarCount);
+    }
+    if (limits.maxFwhm !== null) {
+        if (stats.fwhm === undefined) {
+            reasons.push("FWHM unknown");
+        } else if (stats.fwhm > limits.maxFwhm) {
+            reasons.push("FWHM " + format(stats.fwhm, 2) + " > " + format(limits.maxFwhm, 2));
+        }
+    }
+    const rms = stats.guideStats?.RADECDistanceRMS;
+    if (limits.maxGuideRms !== null && pixelScale !== null && rms !== null && rms !== undefined) {
+        const arcsec = rms * pixelScale;
+        if (arcsec > limits.maxGuideRms) {
+            reasons.push("guiding RMS " + format(arcsec, 2) + "\" > " + format(limits.maxGuideRms, 2) + "\"");
+        }
+    }
+    if (limits.maxBackground !== null && stats.backgroundLevel !== undefined && stats.backgroundLevel > limits.maxBackground) {
+        reasons.push("background " + format(stats.backgroundLevel, 3) + " > " + format(limits.maxBackground, 3));
+    }
+    return reasons.length ? reasons.join(", ") : null;
+}
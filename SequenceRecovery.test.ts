@@ -0,0 +1,104 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+
+import { Sequence, ImageStatus } from "./shared/BackOfficeStatus";
+import { SequenceLogic } from "./SequenceLogic";
+import { countFrame, describeResumePoint, reconcileInterruptedSequence } from "./SequenceRecovery";
+
+function uuidMock() {
+    let v = 0;
+
+    return ()=>{
+        return (v++).toString(16).padStart(8, '0');
+    }
+}
+
+function sequence(): Sequence {
+    return {
+        status: "running",
+        progress: null,
+        title: "Test sequence",
+        camera: "camera_id",
+        errorMessage: null,
+        stepStatus: {},
+        root: {
+            childs: {
+                list: ["lum", "red"],
+                byuuid: {
+                    "lum": {exposure: 60, filter: "L", repeat: 3},
+                    "red": {exposure: 120, filter: "R", repeat: 2, bin: 2},
+                },
+            },
+        },
+        images: [],
+        imageStats: {},
+    };
+}
+
+// Shoot count frames like the sequence manager does
+function shoot(seq: Sequence, images: {[uuid: string]: ImageStatus}, count: number, uuid: ()=>string) {
+    for(let i = 0; i < count; ++i) {
+        const logic = new SequenceLogic(seq, uuid);
+        const nextStep = logic.getNextStep()!;
+        const image = "image" + seq.images.length;
+        images[image] = {path: "/data/" + image + ".fits", device: "camera_id"};
+        seq.images.push(image);
+        seq.imageStats[image] = {};
+        countFrame(logic, seq, nextStep[nextStep.length - 1], image);
+    }
+}
+
+describe("SequenceRecovery", () => {
+    it("Describes the resume point", () => {
+        const uuid = uuidMock();
+        const seq = sequence();
+        const images = {};
+        assert.equal(describeResumePoint(seq, uuid), "frame 1/5: light 60s filter L");
+        assert.deepEqual(seq.stepStatus, {}, "Sequence not modified");
+        shoot(seq, images, 3, uuid);
+        assert.equal(describeResumePoint(seq, uuid), "frame 4/5: light 120s filter R bin 2");
+        shoot(seq, images, 2, uuid);
+        assert.equal(describeResumePoint(seq, uuid), "end of sequence");
+    });
+
+    it("Takes the last frame again when its file is lost", () => {
+        const uuid = uuidMock();
+        const seq = sequence();
+        const images: {[uuid: string]: ImageStatus} = {};
+        shoot(seq, images, 2, uuid);
+
+        const interruption = reconcileInterruptedSequence(seq, images, (path)=>path !== "/data/image1.fits", uuid);
+        assert.deepEqual(interruption.details, ["Missing file /data/image1.fits: will be taken again"]);
+        assert.equal(interruption.resumePoint, "frame 2/5: light 60s filter L");
+        assert.deepEqual(seq.images, ["image0"]);
+        assert.deepEqual(Object.keys(seq.imageStats), ["image0"]);
+        assert.isNull(seq.lastFrame);
+    });
+
+    it("Reports older missing files", () => {
+        const uuid = uuidMock();
+        const seq = sequence();
+        const images: {[uuid: string]: ImageStatus} = {};
+        shoot(seq, images, 4, uuid);
+
+        const interruption = reconcileInterruptedSequence(seq, images, (path)=>path !== "/data/image1.fits", uuid);
+        assert.deepEqual(interruption.details, [
+            "Missing file /data/image1.fits",
+            "Last frame on disk: /data/image3.fits",
+        ]);
+        assert.equal(interruption.resumePoint, "frame 5/5: light 120s filter R bin 2");
+        assert.equal(seq.images.length, 4);
+    });
+
+    it("Last frame of a finished step", () => {
+        const uuid = uuidMock();
+        const seq = sequence();
+        const images: {[uuid: string]: ImageStatus} = {};
+        shoot(seq, images, 3, uuid);
+
+        // The lum step is done, but not yet left
+        const interruption = reconcileInterruptedSequence(seq, images, (path)=>path !== "/data/image2.fits", uuid);
+        assert.deepEqual(interruption.details, ["Missing file /data/image2.fits: will be taken again"]);
+        assert.equal(interruption.resumePoint, "frame 3/5: light 60s filter L");
+    });
+});
@@ -0,0 +1,107 @@
+import { Sequence, ImageStatus, SequenceInterruption } from './shared/BackOfficeStatus';
+import { SequenceLogic, SequenceWithStatus } from './SequenceLogic';
+import { hasKey, deepCopy } from './Obj';
+
+const frameTypeLabels: {[id: string]: string} = {
+    FRAME_LIGHT: "light",
+    FRAME_DARK: "dark",
+    FRAME_BIAS: "bias",
+    FRAME_FLAT: "flat",
+};
+
+// Where the sequence will restart: the next frame with its parameters, or the next wait/center step
+export function describeResumePoint(sequence: Sequence, uuid: ()=>string): string {
+    // getNextStep creates the missing step status, keep the sequence as is
+    const logic = new SequenceLogic(deepCopy(sequence), uuid);
+    const nextStep = logic.getNextStep();
+    if (nextStep === undefined) {
+        return "end of sequence";
+    }
+    const current = nextStep[nextStep.length - 1].step;
+    if (current.wait) {
+        return "wait condition";
+    }
+    if (current.center) {
+        return "centering";
+    }
+    if (current.cooling) {
+        return "cooling to " + current.cooling.temperature + "°C";
+    }
+    const param = logic.getParameters(nextStep);
+    const progress = logic.getProgress(nextStep);
+    const items = [
+        (param.type && hasKey(frameTypeLabels, param.type)) ? frameTypeLabels[param.type] : "light",
+    ];
+    if (param.autoFlat) {
+        items.push("auto exposure");
+    } else if (param.exposure) {
+        items.push(param.exposure + "s");
+    }
+    if (param.filter) {
+        items.push("filter " + param.filter);
+    }
+    if (param.bin) {
+        items.push("bin " + param.bin);
+    }
+    if (param.gain !== undefined && param.gain !== null) {
+        items.push("gain " + param.gain);
+    }
+    return "frame " + (progress.imagePosition + 1) + "/" + progress.totalCount + ": " + items.join(" ");
+}
+
+// Count a new frame for the current step. Keep what is required to count it again
+export function countFrame(logic: SequenceLogic, sequence: Sequence, current: SequenceWithStatus, image: string) {
+    const previousStatus = deepCopy(current.status);
+    logic.finish(current);
+    sequence.lastFrame = {
+        image,
+        execUuid: current.status.execUuid,
+        previousStatus,
+    };
+}
+
+// Check the images of an interrupted sequence against the files on disk.
+// The last counted frame is taken again when its file is missing. The status of older frames can't be rolled back:
+// they are only reported
+export function reconcileInterruptedSequence(sequence: Sequence,
+                                            images: {[uuid: string]: ImageStatus},
+                                            fileExists: (path: string)=>boolean,
+                                            uuid: ()=>string): SequenceInterruption
+{
+    const details: string[] = [];
+    const lastFrame = sequence.lastFrame;
+    let rolledBack = false;
+
+    for(const image of [...sequence.images]) {
+        if (!hasKey(images, image)) {
+            continue;
+        }
+        const path = images[image].path;
+        if (fileExists(path)) {
+            continue;
+        }
+        if (lastFrame && lastFrame.image === image) {
+            const stepUuid = Object.keys(sequence.stepStatus).find(k=>sequence.stepStatus[k].execUuid === lastFrame.execUuid);
+            if (stepUuid !== undefined) {
+                sequence.stepStatus[stepUuid] = deepCopy(lastFrame.previousStatus);
+                sequence.images = sequence.images.filter(e=>e !== image);
+                delete sequence.imageStats[image];
+                sequence.lastFrame = null;
+                rolledBack = true;
+                details.push("Missing file " + path + ": will be taken again");
+                continue;
+            }
+        }
+        details.push("Missing file " + path);
+    }
+
+    if (!rolledBack && lastFrame && hasKey(images, lastFrame.image) && fileExists(images[lastFrame.image].path)) {
+        details.push("Last frame on disk: " + images[lastFrame.image].path);
+    }
+
+    return {
+        time: Date.now(),
+        resumePoint: describeResumePoint(sequence, uuid),
+        details,
+    };
+}
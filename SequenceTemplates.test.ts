@@ -0,0 +1,71 @@
+import "source-map-support/register";
+import { expect, assert } from 'chai';
+
+import { Sequence } from "./shared/BackOfficeStatus";
+import { templateFromSequence, sequenceFromTemplate } from "./SequenceTemplates";
+
+const sequence: Sequence = {
+    status: "paused",
+    progress: "Light 3/20",
+    title: "M31 LRGB",
+    camera: "camera_id",
+    errorMessage: null,
+    target: {name: "M31", ra: 10.675, dec: 41.267, rotation: null},
+    endAt: {kind: "dawn", sunAltitude: -18},
+
+    stepStatus: {
+        "exec1": {
+            execUuid: "exec1",
+            parentExecUuid: null,
+            finishedLoopCount: 2,
+            currentForeach: null,
+            finishedForeach: null,
+        },
+    },
+    root: {
+        exposure: 60,
+        childs: {
+            list: ["aaaa"],
+            byuuid: {
+                "aaaa": {
+                    repeat: 20,
+                    dithering: {amount: 1, raOnly: false, pixels: 0.3, time: 10, timeout: 60, once: false},
+                }
+            }
+        }
+    },
+    images: ["img1", "img2"],
+    imageStats: {},
+};
+
+describe("SequenceTemplates", () => {
+    it("Template keeps the definition only", () => {
+        const template = templateFromSequence(sequence);
+        assert.deepEqual(template, {
+            title: "M31 LRGB",
+            camera: "camera_id",
+            target: {name: "M31", ra: 10.675, dec: 41.267, rotation: null},
+            endAt: {kind: "dawn", sunAltitude: -18},
+            root: sequence.root,
+        });
+        // Not shared with the sequence
+        assert.notStrictEqual(template.root, sequence.root);
+    });
+
+    it("Sequence from template restarts from the beginning", () => {
+        const copy = sequenceFromTemplate(templateFromSequence(sequence));
+        assert.equal(copy.status, "idle");
+        assert.isNull(copy.progress);
+        assert.deepEqual(copy.stepStatus, {});
+        assert.deepEqual(copy.images, []);
+        assert.deepEqual(copy.root, sequence.root);
+        assert.isUndefined(copy.focusTriggers);
+    });
+
+    it("Sequence from template drops the progress", () => {
+        const copy = sequenceFromTemplate({...templateFromSequence(sequence), lastFrame: "img2", endTime: 0} as any);
+        assert.isUndefined(copy.lastFrame);
+        assert.isUndefined(copy.endTime);
+        assert.deepEqual(copy.target, sequence.target);
+    });
+});
@@ -0,0 +1,54 @@
+import { Sequence, SequenceTemplate } from './shared/BackOfficeStatus';
+import { deepCopy, hasKey } from './Obj';
+
+// Properties of a template. Any other property of a sequence is progress
+export const templateKeys: Array<keyof SequenceTemplate> = ["title", "camera", "target", "endAt", "focusTriggers", "qualityLimits", "warmUpAtEnd", "fileNaming", "root"];
+
+// Keep the definition, drop the progress
+export function templateFromSequence(sequence: Sequence): SequenceTemplate {
+    const ret: SequenceTemplate = {
+        title: sequence.title,
+        camera: sequence.camera,
+        root: deepCopy(sequence.root),
+    };
+    if (sequence.target !== undefined) {
+        ret.target = deepCopy(sequence.target);
+    }
+    if (sequence.endAt !== undefined) {
+        ret.endAt = deepCopy(sequence.endAt);
+    }
+    if (sequence.focusTriggers !== undefined) {
+        ret.focusTriggers = deepCopy(sequence.focusTriggers);
+    }
+    if (sequence.qualityLimits !== undefined) {
+        ret.qualityLimits = deepCopy(sequence.qualityLimits);
+    }
+    if (sequence.warmUpAtEnd !== undefined) {
+        ret.warmUpAtEnd = sequence.warmUpAtEnd;
+    }
+    if (sequence.fileNaming !== undefined) {
+        ret.fileNaming = deepCopy(sequence.fileNaming);
+    }
+    return ret;
+}
+
+// A new idle sequence, ready to start from the beginning. Progress found in the template is not kept
+export function sequenceFromTemplate(template: SequenceTemplate): Sequence {
+    const definition: {[key: string]: any} = {};
+    for(const key of templateKeys) {
+        if (hasKey(template, key)) {
+            definition[key] = deepCopy(template[key]);
+        }
+    }
+    return {
+        ...definition as SequenceTemplate,
+        status: 'idle',
+        progress: null,
+        errorMessage: null,
+
+        stepStatus: {},
+
+        images: [],
+        imageStats: {},
+    };
+}
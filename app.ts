@@ -20,6 +20,8 @@ import Phd from './Phd';
 import IndiManager from './IndiManager';
 import Camera from './Camera';
 import Focuser from './Focuser';
+import MeridianFlip from './MeridianFlip';
+import Scheduler from './Scheduler';
 import ImageProcessor from './ImageProcessor';
 
 import JsonProxy from './JsonProxy';
@@ -27,6 +29,7 @@ import TriggerExecuter from './TriggerExecuter';
 import ToolExecuter from './ToolExecuter';
 
 import Astrometry from './Astrometry';
+import Catalog from './Catalog';
 
 import { AppContext } from "./ModuleBase";
 import { BackofficeStatus } from "./shared/BackOfficeStatus";
@@ -37,6 +40,8 @@ import { createTask } from "./Task.js";
 import CancellationToken from "cancellationtoken";
 import ClientRequest from "./ClientRequest";
 import FilterWheel from "./FilterWheel";
+import LightBox from "./LightBox";
+import CalibrationLibrary from "./CalibrationLibrary";
 import SequenceManager from "./SequenceManager";
 import Notification from "./Notification";
 
@@ -145,6 +150,7 @@ function init() {
                 ...await context.indiManager!.metrics(),
                 ...await context.phd!.metrics(),
                 ...await context.sequenceManager!.metrics(),
+                ...await context.camera!.metrics(),
             ];
 
             res.send(Metrics.format(metrics));
@@ -283,6 +289,10 @@ function init() {
 
         context.filterWheel = new FilterWheel(app, appStateManager, context as AppContext);
 
+        context.lightBox = new LightBox(app, appStateManager, context as AppContext);
+
+        context.calibrationLibrary = new CalibrationLibrary(app, appStateManager, context as AppContext);
+
         context.triggerExecuter = new TriggerExecuter(appStateManager, context as AppContext);
 
         context.toolExecuter = new ToolExecuter(appStateManager, context as AppContext);
@@ -291,12 +301,23 @@ function init() {
 
         context.astrometry = new Astrometry(app, appStateManager, context as AppContext);
 
+        context.meridianFlip = new MeridianFlip(app, appStateManager, context as AppContext);
+
+        context.scheduler = new Scheduler(app, appStateManager, context as AppContext);
+
+        context.catalog = new Catalog();
+
         apiRoot = {
             notification: context.notification.getAPI(),
             focuser: context.focuser.getAPI(),
+            meridianFlip: context.meridianFlip.getAPI(),
+            scheduler: context.scheduler.getAPI(),
             filterWheel: context.filterWheel.getAPI(),
+            lightBox: context.lightBox.getAPI(),
+            calibrationLibrary: context.calibrationLibrary.getAPI(),
             toolExecuter: context.toolExecuter.getAPI(),
             astrometry: context.astrometry.getAPI(),
+            catalog: context.catalog.getAPI(),
             indi: context.indiManager.getAPI(),
             camera: context.camera.getAPI(),
             sequence: context.sequenceManager.getAPI(),
@@ -81,6 +81,7 @@ namespace SharedCache {
 			j["minStddev"] = i.minStddev;
 			j["minFwhmAngle"] = i.minFwhmAngle;
 			j["flux"] = i.flux;
+			j["hfr"] = i.hfr;
 		}
 
 		void from_json(const nlohmann::json&j, StarOccurence & i)
@@ -97,6 +98,7 @@ namespace SharedCache {
 			i.minStddev = j.at("minStddev").get<double>();
 			i.minFwhmAngle = j.at("minFwhmAngle").get<double>();
 			i.flux = j.at("flux").get<double>();
+			i.hfr = j.at("hfr").get<double>();
 		}
 
 		void to_json(nlohmann::json&j, const StarFieldResult & i)
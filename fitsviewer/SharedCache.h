@@ -108,6 +108,8 @@ namespace SharedCache {
 			double x, y;
 			double peak;
 			double fwhm, stddev, flux;
+			// Half flux radius
+			double hfr;
 			double maxFwhm, maxStddev, maxFwhmAngle;
 			double minFwhm, minStddev, minFwhmAngle;
 		};
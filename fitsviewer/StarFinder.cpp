@@ -134,6 +134,24 @@ bool StarFinder::perform(StarOccurence & result) {
     double picX = xSum * 1.0 / aduSum;
     double picY = ySum * 1.0 / aduSum;
 
+    // Flux weighted mean distance to the center
+    double distSum = 0;
+    for(BitMaskIterator it = star.iterator(); it.next();)
+    {
+        int x = it.x();
+        int y = it.y();
+
+        int adu = content->getAdu(x, y);
+        int black = blackLevelByChannel[channelMode.getChannelId(x, y)];
+
+        if (adu <= black) continue;
+        adu -= black;
+
+        double dx = (x - picX);
+        double dy = (y - picY);
+        distSum += adu * sqrt(dx * dx + dy * dy);
+    }
+
     double maxAngle = 0, minAngle = 0;
     double maxFwhm = 0, minFwhm = 0;
     double fwhmSum = 0;
@@ -210,6 +228,7 @@ bool StarFinder::perform(StarOccurence & result) {
     result.minStddev = minFwhm / 2.35;
     result.minFwhmAngle = minAngle;
     result.flux = aduSum;
+    result.hfr = distSum / aduSum;
     result.peak = maxAbsAdu / (content->bitpix == 8 ? 255.0 : 65535.0);
     return true;
 }
\ No newline at end of file
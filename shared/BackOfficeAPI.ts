@@ -1,7 +1,7 @@
 import * as jsonpatch from 'json-patch';
 
 import * as ProcessorTypes from "./ProcessorTypes";
-import { CameraDeviceSettings, SequenceStep, SequenceDitheringSettings, SequenceForeach, SequenceStepParameters } from './BackOfficeStatus';
+import { CameraDeviceSettings, SequenceStep, SequenceDitheringSettings, SequenceForeach, SequenceStepParameters, SequenceWaitCondition, SequenceCenterTarget, SequenceCoolingStep, CameraRoi, SequenceAutoFlat, SequenceTarget, CalibrationFrameParameters, CalibrationLightParameters, CalibrationMissing, FileNamingTemplate, FilterFocusOffsets, SchedulerWindow, AutoFocusRun, AutoFocusStatus } from './BackOfficeStatus';
 import { Json } from './Json';
 
 export type ToolExecuterAPI = {
@@ -20,6 +20,15 @@ export type AstrometryGotoScopeRequest = {
     dec:number;
 }
 
+export type AstrometryCenterRequest = {
+    // J2000, 0 - 360 degrees
+    ra: number;
+    // J2000, -90 - 90 degrees
+    dec: number;
+    // Use the selected camera when none is given
+    camera?: string;
+}
+
 export type UpdateIndiDriverParamRequest = {
     driver: string;
     key: string;
@@ -63,7 +72,7 @@ export type UpdateSequenceStepRequest = {
     sequenceUid: string;
     stepUidPath: string[];
     param: keyof SequenceStep;
-    value?: string|number|boolean|null|SequenceForeach<keyof SequenceStepParameters>;
+    value?: string|number|boolean|null|SequenceForeach<keyof SequenceStepParameters>|SequenceWaitCondition|SequenceCenterTarget|SequenceCoolingStep|CameraRoi|SequenceAutoFlat;
 }
 
 export type PatchSequenceStepRequest = {
@@ -91,8 +100,37 @@ export type DeleteSequenceStepRequest = {
     stepUid: string;
 }
 
+// Ids of the best masters, null when none matches
+export type CalibrationMasters = {
+    dark: string|null;
+    bias: string|null;
+    flat: string|null;
+}
+
+export type CalibrationLibraryAPI = {
+    // What the lights of a sequence lack, from its start
+    getMissingCalibration: (payload: {sequenceUid: string})=>CalibrationMissing[];
+    // Create a sequence taking the missing frames. Returns its uuid
+    createCalibrationSequence: (payload: {sequenceUid: string})=>string;
+    findMasters: (payload: {light: CalibrationLightParameters})=>CalibrationMasters;
+    registerMaster: (payload: {path: string, parameters: CalibrationFrameParameters})=>string;
+    removeEntry: (payload: {id: string})=>void;
+    purgeMissingFiles: (payload: {})=>number;
+    updateCurrentSettings: (payload: {diff: any})=>void;
+}
+
+export type LightBoxAPI = {
+    setLightBox: (payload: {cameraDeviceId: string, lightBoxDeviceId: string|null})=>void;
+    setDustCap: (payload: {cameraDeviceId: string, dustCapDeviceId: string|null})=>void;
+    switchLight: (payload: {lightBoxDeviceId: string, on: boolean})=>void;
+    setBrightness: (payload: {lightBoxDeviceId: string, brightness: number})=>void;
+    // Park (close) or unpark (open) the cap. Returns when the move is done
+    moveDustCap: (payload: {dustCapDeviceId: string, closed: boolean})=>void;
+}
+
 export type FilterWheelAPI = {
-    changeFilter: (payload: {cameraDeviceId?: string, filterWheelDeviceId?: string, filterNumber?: number, filterId?: string, force?:boolean})=>boolean;
+    // skipFocusOffset leaves the focuser where it is, instead of applying the offset between the filters
+    changeFilter: (payload: {cameraDeviceId?: string, filterWheelDeviceId?: string, filterNumber?: number, filterId?: string, force?:boolean, skipFocusOffset?: boolean})=>boolean;
     abortFilterChange: (payload: {filterWheelDeviceId: string})=>void;
     setFilterWheel: (payload: {cameraDeviceId: string, filterWheelDeviceId: string|null})=>void;
 }
@@ -103,10 +141,49 @@ export type CameraAPI = {
     abort: (payload: {})=>void;
     setCamera: (payload: {device: string})=>void;
     setShootParam: <K extends keyof CameraDeviceSettings>(payload: {camera?: string, key: K, value: CameraDeviceSettings[K]})=>void;
+    // Example path of an image, using the settings of the camera. The template of the camera when template is null
+    previewImageNaming: (payload: {camera?: string, template: FileNamingTemplate|null, sequenceUid?: string})=>string;
+    // Ramp the set-point to the temperature (°C), using the cooling settings of the camera
+    setCoolingTarget: (payload: {camera?: string, temperature: number})=>void;
+    // Ramp to the warm-up temperature, then turn the cooler off
+    warmUp: (payload: {camera?: string})=>void;
+    // Stop any ramp and turn the cooler off
+    coolerOff: (payload: {camera?: string})=>void;
+    updateCoolingSettings: (payload: {camera?: string, diff: any})=>void;
+}
+
+export type NewSequenceFromTemplateRequest = {
+    template: string;
+    // Replace the values of the template when set
+    title?: string;
+    camera?: string|null;
+    target?: SequenceTarget|null;
+}
+
+// json: documented JSON schema, text: compact human editable format (see docs/sequence-format.md)
+export type SequenceFormat = "json"|"text";
+
+export type ExportSequenceRequest = {
+    sequenceUid: string;
+    format: SequenceFormat;
+}
+
+export type ImportSequenceRequest = {
+    content: string;
+    format: SequenceFormat;
 }
 
 export type SequenceAPI = {
     newSequence: (payload: {})=>string;
+    // The copy restarts from the beginning
+    cloneSequence: (payload: {sequenceUid: string})=>string;
+    // Replace any template with the same name
+    saveSequenceTemplate: (payload: {sequenceUid: string, name: string})=>void;
+    dropSequenceTemplate: (payload: {name: string})=>void;
+    newSequenceFromTemplate: (payload: NewSequenceFromTemplateRequest)=>string;
+    exportSequence: (payload: ExportSequenceRequest)=>string;
+    // Create a new idle sequence. Fails with the list of validation errors
+    importSequence: (payload: ImportSequenceRequest)=>string;
     startSequence: (payload: {sequenceUid: string})=>void;
     stopSequence: (payload: {sequenceUid: string})=>void;
     resetSequence: (payload: {sequenceUid: string})=>void;
@@ -118,6 +195,7 @@ export type SequenceAPI = {
     updateSequenceStepDithering: (payload: UpdateSequenceStepDitheringRequest)=>void;
     moveSequenceSteps: (payload: MoveSequenceStepsRequest)=>void;
     deleteSequenceStep: (payload: DeleteSequenceStepRequest)=>void;
+    updateCurrentSettings: (payload: {diff: any})=>void;
 }
 
 export type ExposedNotificationRequest = {
@@ -145,6 +223,8 @@ export type AstrometryAPI = AstrometryWizards & {
     setScope: (payload: {deviceId: string})=>void;
     goto: (payload:AstrometryGotoScopeRequest)=>void;
     sync: (payload:{})=>void;
+    // Goto, shoot, solve and sync until within tolerance. Returns the final distance (arcmin)
+    center: (payload:AstrometryCenterRequest)=>number;
     wizardQuit: (payload:{})=>void;
     wizardInterrupt: (payload:{})=>void;
     wizardNext: (payload:{})=>void;
@@ -154,8 +234,78 @@ export type FocuserAPI = {
     setCurrentCamera:(payload: {cameraDevice: string})=>void;
     setCurrentFocuser:(payload: {focuserDevice: string, cameraDevice?: string})=>void;
     updateCurrentSettings: (payload: {diff: any})=>void;
-    focus: (payload: {})=>number;
+    // Use the selected camera when none is given
+    focus: (payload: {camera?: string})=>number;
     abort: (payload: {})=>void;
+    // null offset removes the filter from the table
+    updateFilterOffset: (payload: {focuser: string, filterWheel: string, filterId: string, offset: number|null})=>void;
+    // Autofocus through the filters of the selected camera (all when filterIds is not set) and store their offsets
+    measureFilterOffsets: (payload: {filterIds?: string[]})=>FilterFocusOffsets;
+    // Declare the current position of a focuser that only has relative moves
+    setRelativePosition: (payload: {focuser: string, position: number})=>void;
+    // Runs of the history, newest first
+    listFocusRuns: (payload: {focuser?: string, since?: number})=>FocusRunSummary[];
+    getFocusRun: (payload: {id: string})=>FocusRunReport;
+    removeFocusRun: (payload: {id: string})=>void;
+    // One line per measure. All runs when ids is not set
+    exportFocusRuns: (payload: {ids?: string[]})=>string;
+}
+
+export type FocusRunSummary = Omit<AutoFocusRun, "points"|"model"> & {
+    id: string;
+    rSquared: number|null;
+}
+
+export type FocusRunReport = AutoFocusRun & {
+    id: string;
+    // Values of the model, for display
+    predicted: AutoFocusStatus["predicted"];
+}
+
+export type MeridianFlipAPI = {
+    updateCurrentSettings: (payload: {diff: any})=>void;
+}
+
+export type AddSchedulerEntryRequest = {
+    sequenceUid: string;
+    priority?: number;
+    window?: Partial<SchedulerWindow>;
+}
+
+export type UpdateSchedulerEntryRequest = {
+    entryUid: string;
+    priority?: number;
+    window?: Partial<SchedulerWindow>;
+}
+
+export type SchedulerAPI = {
+    addSchedulerEntry: (payload: AddSchedulerEntryRequest)=>string;
+    updateSchedulerEntry: (payload: UpdateSchedulerEntryRequest)=>void;
+    removeSchedulerEntry: (payload: {entryUid: string})=>void;
+    // Position in the queue, from 0
+    moveSchedulerEntry: (payload: {entryUid: string, position: number})=>void;
+    startScheduler: (payload: {})=>void;
+    // The running sequence is paused
+    stopScheduler: (payload: {})=>void;
+}
+
+export type CatalogObject = {
+    // Main identifier (M31, NGC7000, ...)
+    name: string;
+    // Other identifiers of the same object
+    aliases: string[];
+    commonName: string|null;
+    type: string;
+    // J2000, degrees
+    ra: number;
+    dec: number;
+}
+
+export type CatalogAPI = {
+    // Match identifiers (spaces and case ignored) and common names
+    search: (payload: {query: string, limit?: number})=>CatalogObject[];
+    // Exact match on an identifier
+    lookup: (payload: {name: string})=>CatalogObject|null;
 }
 
 export type ImageProcessorAPI = {
@@ -176,11 +326,16 @@ export type PhdAPI = {
 export type BackOfficeAPI = {
     toolExecuter: ToolExecuterAPI;
     astrometry : AstrometryAPI;
+    catalog: CatalogAPI;
     focuser: FocuserAPI;
+    meridianFlip: MeridianFlipAPI;
+    scheduler: SchedulerAPI;
     indi: IndiAPI;
     camera: CameraAPI;
     sequence: SequenceAPI;
     filterWheel: FilterWheelAPI;
+    lightBox: LightBoxAPI;
+    calibrationLibrary: CalibrationLibraryAPI;
     imageProcessor: ImageProcessorAPI;
     phd: PhdAPI;
     notification: NotificationAPI;
@@ -1,20 +1,46 @@
 import { AstrometryResult } from "./ProcessorTypes";
 import { IndiMessage } from "./IndiTypes";
 
+// Subframe, in unbinned sensor pixels
+export type CameraRoi = {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+// Tokens like {date} are replaced by their value. See FileNaming.ts
+export type FileNamingTemplate = {
+    // Relative to the image path. Can contain /
+    directory: string;
+    file: string;
+}
+
 export type CameraDeviceSettings = {
     prefix?:string;
     type?:string;
     bin?: number;
     exposure: number;
     iso?: null|string;
+    // From CCD_GAIN/CCD_OFFSET or CCD_CONTROLS
+    gain?: null|number;
+    offset?: null|number;
+    // Full frame when not set
+    roi?: null|CameraRoi;
     path?: string;
+    // Naming of the images of this camera. Used by sequences without file naming
+    fileNaming?: null|FileNamingTemplate;
     preferedFocuserDevice?: null|string;
     preferedFilterWheelDevice?: null|string;
+    preferedLightBoxDevice?: null|string;
+    preferedDustCapDevice?: null|string;
 }
 
 export type CameraDeviceDynState = {
     focuserDevice?: null|string;
     filterWheelDevice?: null|string;
+    lightBoxDevice?: null|string;
+    dustCapDevice?: null|string;
     spyRecommanded?: boolean;
 };
 
@@ -29,6 +55,20 @@ export type DitheringSettings = {
 export type SequenceDitheringSettings = DitheringSettings & {
     // If set, apply the dithering only on step entrance (whatever repeat, foreach are)
     once: boolean;
+    // If set, dither only on one loop of the step out of "every" (ignored with once)
+    every?: number;
+}
+
+// Flat exposure found by test frames instead of a fixed exposure
+export type SequenceAutoFlat = {
+    // Wanted median level (ADU, 16 bits scale)
+    targetAdu: number;
+    tolerance: number;
+    // Exposure range (seconds)
+    minExposure: number;
+    maxExposure: number;
+    // Maximum number of test frames for one filter/binning
+    maxIterations: number;
 }
 
 export type SequenceStepParameters = {
@@ -37,13 +77,51 @@ export type SequenceStepParameters = {
     type?: string;
     bin?: number;
     filter?: string|null;
+    gain?: number;
+    offset?: number;
+    roi?: CameraRoi|null;
+    autoFlat?: SequenceAutoFlat|null;
 
     dithering?: null|SequenceDitheringSettings;
 }
 
+export type SequenceWaitCondition = {
+    kind: "altitude";
+    // Minimum altitude (degrees) of the mount position
+    minAltitude: number;
+} | {
+    kind: "time";
+    // Local time of the backend (HH:MM)
+    time: string;
+} | {
+    kind: "darkness";
+    // Maximum altitude of the sun (-18 for astronomical twilight)
+    sunAltitude: number;
+};
+
+export type SequenceCenterTarget = {
+    // J2000, degrees. null to center on the sequence target, or on the mount position when the step starts
+    ra: number|null;
+    dec: number|null;
+};
+
+export type SequenceCoolingStep = {
+    // Set-point of the camera (°C). The step ends when the temperature is stable
+    temperature: number;
+};
+
 export type SequenceStep = SequenceStepParameters & {
     repeat?: number;
 
+    // A step with a wait condition does not shoot. It blocks until the condition holds
+    wait?: SequenceWaitCondition;
+
+    // A step with center does not shoot. It centers the mount using plate solving
+    center?: SequenceCenterTarget;
+
+    // A step with cooling does not shoot. It ramps the camera to a temperature and waits until it is stable
+    cooling?: SequenceCoolingStep;
+
     // If both repeat and foreach are set, the foreach cycle "repeat" times
     foreach?: SequenceForeach<keyof SequenceStepParameters>;
     childs?: {
@@ -73,6 +151,10 @@ export type SequenceStepStatus = {
     finishedForeach: {[id:string]: boolean} | null;
     activeChild?: string;
     lastDitheredExecUuid?: string;
+    /** Timestamp of a "time" wait, set when the step starts waiting */
+    waitUntil?: number;
+    /** Frames rejected in a row by the quality limits */
+    retakes?: number;
 }
 
 export type ImageStats = {
@@ -80,8 +162,94 @@ export type ImageStats = {
     starCount?: number;
     guideStats?: PhdGuideStats;
     backgroundLevel?: number;
+    // Set when the frame did not pass the quality limits of the sequence, and was retaken
+    rejected?: string;
+}
+
+export type SequenceEndCondition = {
+    kind: "time";
+    // Local time of the backend (HH:MM)
+    time: string;
+} | {
+    kind: "dawn";
+    // Altitude of the sun that ends the night (-18 for astronomical twilight)
+    sunAltitude: number;
+} | {
+    kind: "altitude";
+    // Minimum altitude (degrees) of the mount position
+    minAltitude: number;
+};
+
+// Light frames beyond any of these limits are rejected and retaken. null disables a limit
+export type SequenceQualityLimits = {
+    maxFwhm: number|null;
+    minStarCount: number|null;
+    // Arcsec. Requires the pixel scale from PHD
+    maxGuideRms: number|null;
+    // Same unit as ImageStats.backgroundLevel (0-1)
+    maxBackground: number|null;
+    // Move the files of rejected frames to a "rejected" subfolder
+    moveRejected: boolean;
+    // Frames rejected in a row for a step before the sequence pauses. defaultMaxRetakes when not set
+    maxRetakes?: number;
+};
+
+// The last frame counted by a sequence, to take it again if its file is lost
+export type SequenceLastFrame = {
+    image: string;
+    // execUuid of the step status after the frame was counted
+    execUuid: string;
+    previousStatus: SequenceStepStatus;
+};
+
+// Set at startup on sequences that were running when the process stopped
+export type SequenceInterruption = {
+    time: number;
+    // The next frame or step of the sequence
+    resumePoint: string;
+    // Result of the check of the images against the files on disk
+    details: string[];
+};
+
+// What a sequence images
+export type SequenceTarget = {
+    name: string;
+    // J2000, degrees
+    ra: number;
+    dec: number;
+    // Field rotation (degrees), when it matters
+    rotation: number|null;
 }
 
+// Conditions that trigger an autofocus during a sequence. null disables a trigger
+export type SequenceFocusTriggers = {
+    // Number of light frames between two autofocus
+    everyFrames: number|null;
+    afterFilterChange: boolean;
+    // Drift of the focuser temperature since the last autofocus (°C)
+    temperatureDelta: number|null;
+    // Degradation of FWHM compared to the first frame after autofocus (percent)
+    fwhmDegradation: number|null;
+};
+
+export type SequenceFocusRun = {
+    time: number;
+    // Description of what triggered the autofocus
+    trigger: string;
+    status: "done"|"error";
+    position: number|null;
+    error: string|null;
+};
+
+// Reference values, reset on each autofocus
+export type SequenceFocusState = {
+    framesSinceFocus: number;
+    filter: string|null;
+    temperature: number|null;
+    // Images before this position in Sequence.images are not considered for the FWHM baseline
+    firstImage: number;
+};
+
 export type Sequence = {
     status: "idle"|"running"|"paused"|"done"|"error";
     progress: string | null;
@@ -91,6 +259,29 @@ export type Sequence = {
     count?:number;
     done?:boolean;
 
+    // What is imaged, if known
+    target?: SequenceTarget|null;
+
+    // The sequence ends (after the current frame) when this is reached
+    endAt?: SequenceEndCondition|null;
+    // Timestamp of a "time" end condition, computed when the sequence starts and kept while it is paused
+    endTime?: number|null;
+
+    focusTriggers?: SequenceFocusTriggers|null;
+    focusState?: SequenceFocusState|null;
+
+    qualityLimits?: SequenceQualityLimits|null;
+    focusRuns?: SequenceFocusRun[];
+
+    // Warm up the camera when the sequence is done
+    warmUpAtEnd?: boolean;
+
+    // Replace the file naming of the camera
+    fileNaming?: FileNamingTemplate|null;
+
+    lastFrame?: SequenceLastFrame|null;
+    interruption?: SequenceInterruption|null;
+
     root: SequenceStep;
     stepStatus: {[id: string]: SequenceStepStatus};
 
@@ -143,7 +334,7 @@ export type IndiVector = {
     $perm: string;
     $rule: string;
     $group: string;
-    $state: "Busy"|"Error"|"Ok"|"Idle"|"";
+    $state: "Busy"|"Alert"|"Error"|"Ok"|"Idle"|"";
     $timestamp: string;
     $message: string;
     $rev: number;
@@ -186,10 +377,51 @@ export type ImageStatus = {
 export type CameraConfiguration = {
     defaultImagePath?: string;
     defaultImagePrefix?: string;
+    // Sequences pause when the free space (MB) of the image path goes below
+    minFreeSpace?: number;
     fakeImages?: string[];
     fakeImagePath?: string;
     preferedDevice: string | null;
     deviceSettings : {[id: string] : CameraDeviceSettings};
+    coolingSettings?: {[id: string]: CameraCoolingSettings};
+};
+
+export type CameraCoolingSettings = {
+    // °C/min, for cool-down and warm-up. null to go to the set-point at once
+    rampRate: number|null;
+    // The temperature is stable when it stays within ± tolerance (°C) of the set-point for stableDuration (seconds)
+    tolerance: number;
+    stableDuration: number;
+    // Temperature reached before turning the cooler off (°C)
+    warmUpTemperature: number;
+};
+
+export type CameraDiskSpace = {
+    // Where the next image goes
+    path: string;
+    // Bytes, null when unknown
+    free: number|null;
+    // Bytes: the size of the last image, or an estimate from the sensor size
+    frameSize: number|null;
+    // Frames that fit above the minimum free space
+    framesLeft: number|null;
+    lowSpace: boolean;
+    error: string|null;
+    time: number;
+}
+
+export type CameraCoolingStatus = {
+    // ramping: the set-point moves toward the target. settling: the final set-point is applied
+    status: "off"|"ramping"|"settling"|"stable"|"warming"|"error";
+    temperature: number|null;
+    target: number|null;
+    // Set-point sent to the driver
+    setPoint: number|null;
+    // Percent, when the driver provides it
+    coolerPower: number|null;
+    // Since when the temperature is within tolerance
+    stableSince: number|null;
+    error: string|null;
 };
 
 export type StreamSize = {
@@ -230,6 +462,9 @@ export type CameraStatus = {
     currentShoots: {[deviceId:string]:CameraShoot};
     lastByDevices: {[deviceId:string]:string};
     dynStateByDevices: {[deviceId: string] : CameraDeviceDynState};
+    // For cameras with CCD_TEMPERATURE
+    cooling: {[deviceId: string]: CameraCoolingStatus};
+    diskSpace: {[deviceId: string]: CameraDiskSpace};
     images: {
         list: string[];
         byuuid: {[uuid:string]:ImageStatus}
@@ -239,11 +474,34 @@ export type CameraStatus = {
     configuration: CameraConfiguration;
 }
 
+// The definition of a sequence, without its progress
+export type SequenceTemplate = {
+    title: string;
+    camera: string|null;
+    target?: SequenceTarget|null;
+    endAt?: SequenceEndCondition|null;
+    focusTriggers?: SequenceFocusTriggers|null;
+    qualityLimits?: SequenceQualityLimits|null;
+    warmUpAtEnd?: boolean;
+    fileNaming?: FileNamingTemplate|null;
+    root: SequenceStep;
+}
+
+export type SequenceConfiguration = {
+    // Restart the sequences interrupted by a backend restart when their devices are connected
+    autoResume: boolean;
+}
+
 export type SequenceStatus = {
     sequences: {
         list: string[],
         byuuid: {[uuid: string]:Sequence}
     };
+    // Templates by name
+    templates: {[name: string]: SequenceTemplate};
+    configuration: SequenceConfiguration;
+    // Last exposure found by auto flats, by camera then by filter/binning key
+    flatExposures: {[camera: string]: {[key: string]: number}};
 }
 
 export type NotificationItem = {
@@ -266,6 +524,11 @@ export type NotificationStatus = {
     list: string[];
 }
 
+export type FocusModelType = "hyperbola"|"parabola"|"polynomial";
+
+// Measure of the star size used by autofocus
+export type FocusMetric = "fwhm"|"hfr";
+
 export type FocuserSettings = {
     range: number;
     steps: number;
@@ -273,13 +536,80 @@ export type FocuserSettings = {
     lowestFirst : boolean;
     targetCurrentPos: boolean;
     targetPos: number;
+    model: FocusModelType;
+    metric: FocusMetric;
+    // Points whose residual exceeds that many robust sigmas are excluded from the fit. 0 to keep all points
+    outlierSigma: number;
+    // The focuser is not moved to a fit with a lower R²
+    minRSquared: number;
+    // Device giving the temperature. null for the focuser itself
+    temperatureDevice: string|null;
+    // VECTOR.PROPERTY of the temperature
+    temperatureProperty: string;
+    // Steps per °C, learned from successful autofocus runs. null while unknown
+    temperatureCoefficient: number|null;
+    // Learn the coefficient after each successful autofocus. Turned off when the coefficient is edited
+    temperatureLearning: boolean;
+    // Move the focuser between frames when the temperature changes
+    temperatureCompensation: boolean;
+    // Smaller compensation moves are delayed
+    compensationMinSteps: number;
+    // Scan on a subframe around the stars of a first full frame
+    subframe: boolean;
+    // Width and height of the subframe, in sensor pixels
+    subframeSize: number;
 }
 
+// Model fitted on the focus points. Positions are scaled: u = (position - origin) / scale
+export type FocusCurveModel = {
+    type: FocusModelType;
+    metric: FocusMetric;
+    // hyperbola: [a, b, c] for a * sqrt(1 + ((u - c) / b)²)
+    // parabola and polynomial: coefficients of u, lowest degree first
+    params: number[];
+    origin: number;
+    scale: number;
+    rSquared: number;
+    bestPosition: number;
+    // Positions excluded as outliers
+    rejected: number[];
+}
+
+// Focuser steps of each filter, by filter id. Only differences between filters are used
+export type FilterFocusOffsets = {[filterId: string]: number};
+
 export type AutoFocusConfiguration = {
     preferedCamera: string|null;
 
     // By focuser settings
     settings: {[id: string]:FocuserSettings};
+
+    // By focuser, then by filter wheel
+    filterOffsets: {[focuserId: string]: {[filterWheelId: string]: FilterFocusOffsets}};
+
+    // Positions tracked for focusers without ABS_FOCUS_POSITION
+    relativePositions: {[focuserId: string]: number};
+};
+
+export type TemperatureCompensationStatus = {
+    temperature: number|null;
+    // Temperature at the last autofocus or compensation move
+    referenceTemperature: number|null;
+    // Steps moved since the last autofocus
+    totalSteps: number;
+    lastMove: number|null;
+    error: string|null;
+};
+
+export type FilterOffsetWizardStatus = {
+    status: "running"|"done"|"error"|"interrupted";
+    camera: string;
+    focuser: string;
+    filterWheel: string;
+    currentFilter: string|null;
+    // Best focus position found for each filter. null when autofocus failed
+    positions: {[filterId: string]: number|null};
+    error: string|null;
 };
 
 export type AutoFocusStatus = {
@@ -289,9 +619,34 @@ export type AutoFocusStatus = {
     error: null|string;
     firstStep: null|number;
     lastStep: null|number;
-    points: {[id:string]:{fwhm: number|null}};
-    predicted: {[id:string]:{fwhm: number}};
+    points: {[id:string]:{fwhm: number|null, hfr: number|null}};
+    // Values of the model, for display
+    predicted: {[id:string]:{value: number}};
+    model: null|FocusCurveModel;
     targetStep: null|number;
+    // Measured at the target step
+    finalFwhm: null|number;
+}
+
+// An autofocus run, kept in the history
+export type AutoFocusRun = {
+    time: number;
+    camera: string;
+    focuser: string;
+    filter: string|null;
+    // Focus offset of the filter, included in the positions
+    filterOffset: number;
+    // At the end of the run
+    temperature: number|null;
+    status: "done"|"error"|"interrupted";
+    error: string|null;
+    firstStep: number|null;
+    lastStep: number|null;
+    points: AutoFocusStatus["points"];
+    model: FocusCurveModel|null;
+    // Chosen position, null when the run failed
+    position: number|null;
+    finalFwhm: number|null;
 }
 
 export type FocuserUpdateCurrentSettingsRequest = {
@@ -303,6 +658,10 @@ export type FocuserStatus = {
     availableFocusers: string[];
     config: AutoFocusConfiguration;
     current: AutoFocusStatus;
+    filterOffsetWizard: FilterOffsetWizardStatus|null;
+    compensation: {[focuserId: string]: TemperatureCompensationStatus};
+    // Past autofocus runs, by id
+    history: {[id: string]: AutoFocusRun};
 }
 
 export type FilterWheelDynState = {
@@ -320,6 +679,93 @@ export type FilterWheelStatus = {
     dynStateByDevices: {[deviceId: string] : FilterWheelDynState};
 }
 
+export type LightBoxDynState = {
+    // null when unknown (FLAT_LIGHT_CONTROL)
+    lightOn: boolean|null;
+    // FLAT_LIGHT_INTENSITY
+    brightness: number|null;
+    brightnessMin: number|null;
+    brightnessMax: number|null;
+}
+
+export type DustCapDynState = {
+    // null when unknown (CAP_PARK). busy while moving
+    closed: boolean|null;
+    busy: boolean;
+}
+
+export type LightBoxStatus = {
+    availableLightBoxes: string[];
+    availableDustCaps: string[];
+    lightBoxes: {[deviceId: string]: LightBoxDynState};
+    dustCaps: {[deviceId: string]: DustCapDynState};
+}
+
+export type CalibrationFrameType = "FRAME_DARK"|"FRAME_BIAS"|"FRAME_FLAT";
+
+// What a calibration frame was taken with
+export type CalibrationFrameParameters = {
+    camera: string;
+    type: CalibrationFrameType;
+    exposure: number;
+    bin: number;
+    gain: number|null;
+    offset: number|null;
+    iso: string|null;
+    // Sensor temperature (°C) when known
+    temperature: number|null;
+    // For flats
+    filter: string|null;
+}
+
+export type CalibrationEntry = CalibrationFrameParameters & {
+    path: string;
+    // Epoch ms
+    date: number;
+    // Stacked frame, registered by the user. Other entries are single frames taken by sequences
+    master: boolean;
+}
+
+// A light frame, as seen by the matching
+export type CalibrationLightParameters = {
+    camera: string;
+    exposure: number;
+    bin: number;
+    gain: number|null;
+    offset: number|null;
+    iso: string|null;
+    temperature: number|null;
+    filter: string|null;
+}
+
+export type CalibrationLibrarySettings = {
+    // Max distance (°C) between the temperatures of darks/bias and lights
+    temperatureTolerance: number;
+    // Flats older than that (days) are ignored. null for no limit
+    flatMaxAge: number|null;
+    // Single frames required when no master matches
+    darkCount: number;
+    biasCount: number;
+    flatCount: number;
+}
+
+// A set of calibration frames required by lights
+export type CalibrationNeed = Omit<CalibrationFrameParameters, "exposure"> & {
+    // null for bias
+    exposure: number|null;
+}
+
+export type CalibrationMissing = CalibrationNeed & {
+    // Matching single frames available
+    available: number;
+    missing: number;
+}
+
+export type CalibrationLibraryStatus = {
+    entries: {[id: string]: CalibrationEntry};
+    settings: CalibrationLibrarySettings;
+}
+
 export type AstrometrySettings = {
     initialFieldMin: number;
     initialFieldMax: number;
@@ -335,9 +781,36 @@ export type AstrometrySettings = {
     narrowedFieldPercent: number;
 
     polarAlign: PolarAlignSettings;
+    center: AstrometryCenterSettings;
     preferedScope: string|null;
 }
 
+export type AstrometryCenterSettings = {
+    // Max distance (arcmin) between the solved center and the target
+    tolerance: number;
+    // Number of goto/solve/sync cycles after the first one
+    maxRetry: number;
+    // Exposure (seconds) of the frames
+    exposure: number;
+}
+
+export type AstrometryCenterStep = {
+    time: number;
+    phase: "goto"|"shoot"|"solve"|"sync"|"done";
+    // arcmin, once solved
+    distance: number|null;
+    error: string|null;
+}
+
+export type AstrometryCenterStatus = {
+    status: "running"|"done"|"error";
+    // J2000, degrees
+    target: {ra: number, dec: number};
+    tolerance: number;
+    steps: AstrometryCenterStep[];
+    error: string|null;
+}
+
 export type PolarAlignSettings = {
     slewRate: string;
     sampleCount: number;
@@ -423,6 +896,9 @@ export type AstrometryStatus = {
     useNarrowedSearchRadius: boolean;
 
     runningWizard: null|AstrometryWizard;
+
+    // Last or running centering loop
+    center: null|AstrometryCenterStatus;
 }
 
 export type ProcessConfiguration = {
@@ -495,6 +971,8 @@ export type PhdStatus = PhdGuideStats & {
         mount?:PhdEquipmentStatus;
     };
     calibration: null|any;
+    // Arcsec per pixel of the guide camera
+    pixelScale: null|number;
     exposureDurations: Array<number>;
     exposure: null|number;
     lockPosition: null|{x: number, y:number};
@@ -530,14 +1008,79 @@ export type UIConfig = {
     directPort: number;
 }
 
+export type MeridianFlipSettings = {
+    enabled: boolean;
+    // Minutes past the meridian before flipping
+    offset: number;
+    // Plate solve after the flip and go back to the previous position
+    recenter: boolean;
+    // Exposure (seconds) of the frame used to recenter
+    recenterExposure: number;
+    // Maximum time (seconds) for PHD to settle after the flip
+    guideTimeout: number;
+};
+
+export type MeridianFlipStatus = {
+    configuration: MeridianFlipSettings;
+    status: "idle"|"waiting"|"flipping"|"recentering"|"guiding"|"done"|"error";
+    error: string|null;
+    // Read from the mount selected for astrometry
+    pierSide: "east"|"west"|null;
+    // Hours, positive past the meridian
+    hourAngle: number|null;
+    lastFlipTime: number|null;
+};
+
+// When an entry of the scheduler queue can run. null for no limit
+export type SchedulerWindow = {
+    // Local time of the backend (HH:MM)
+    start: string|null;
+    end: string|null;
+    // Minimum altitude (degrees) of the sequence target
+    minAltitude: number|null;
+};
+
+export type SchedulerEntry = {
+    sequenceUid: string;
+    // Highest first. Queue order breaks ties
+    priority: number;
+    window: SchedulerWindow;
+};
+
+export type SchedulerPlanItem = {
+    entryUid: string;
+    sequenceUid: string;
+    start: number;
+    end: number;
+};
+
+export type SchedulerStatus = {
+    queue: {
+        list: string[];
+        byuuid: {[uuid: string]: SchedulerEntry};
+    };
+    status: "idle"|"waiting"|"running"|"done"|"error";
+    // Entry whose sequence is running
+    current: string|null;
+    // Why the scheduler is waiting, or its error
+    message: string|null;
+    // Estimated order of the night, from planTime
+    plan: SchedulerPlanItem[];
+    planTime: number|null;
+};
+
 export type BackofficeStatus = {
     apps: {[appId:string]: {enabled:boolean,position:number}};
     indiManager: IndiManagerStatus;
     camera: CameraStatus;
     sequence: SequenceStatus;
     filterWheel: FilterWheelStatus;
+    lightBox: LightBoxStatus;
+    calibrationLibrary: CalibrationLibraryStatus;
     astrometry: AstrometryStatus;
     focuser: FocuserStatus;
+    meridianFlip: MeridianFlipStatus;
+    scheduler: SchedulerStatus;
     phd: PhdStatus;
     toolExecuter: ToolExecuterStatus;
     triggerExecuter: TriggerExecuterStatus;
@@ -30,7 +30,11 @@ export type ProcessorStarFieldRequest = {
 }
 
 export type ProcessorStarFieldResult = {
-    stars: Array<{fwhm: number, peak:number}>;
+    // Size of the image
+    width: number;
+    height: number;
+    // Positions in pixels of the image
+    stars: Array<{x: number, y: number, fwhm: number, hfr: number, peak:number}>;
 }
 
 export type ProcessorAstrometryRequest = {
@@ -33,6 +33,10 @@ export default class AstrometrySettingsView extends PureComponent<Props> {
     static narrowedFieldPercentHelp = Help.key("Max field variation", "Tolerance in % from the previous field estimation. This is used on \"narrow\" astrometry search (after successfull one, if no important moves occured in between");
     static useMountPositionHelp = Help.key("Use mount position", "Use the mount coordinates to fasten astrometry search. The first astrometry will use \"wide\" settings, then use narrower settings, unless the mount is moved substantially");
 
+    static centerToleranceHelp = Help.key("Centering tolerance", "Max distance (arcmin) between the solved image center and the target to stop centering");
+    static centerMaxRetryHelp = Help.key("Centering retries", "Number of solve/sync/goto cycles after the first goto before centering fails");
+    static centerExposureHelp = Help.key("Centering exposure", "Exposure (seconds) of the frames shot during centering");
+
     accessor: BackendAccessor<AstrometrySettings>;
     
     constructor(props:Props) {
@@ -90,6 +94,18 @@ export default class AstrometrySettingsView extends PureComponent<Props> {
                         </div>
                         </Conditional>
                     </div>
+                    <div>
+                        Centering tolerance (arcmin):
+                        <Float accessor={this.accessor.child('center').child('tolerance')} min={0} helpKey={AstrometrySettingsView.centerToleranceHelp}/>
+                    </div>
+                    <div>
+                        Centering retries:
+                        <Int accessor={this.accessor.child('center').child('maxRetry')} min={0} helpKey={AstrometrySettingsView.centerMaxRetryHelp}/>
+                    </div>
+                    <div>
+                        Centering exposure (s):
+                        <Float accessor={this.accessor.child('center').child('exposure')} min={0} helpKey={AstrometrySettingsView.centerExposureHelp}/>
+                    </div>
                 </div>
             </div>
             <div className="AstrometryWizardControls">
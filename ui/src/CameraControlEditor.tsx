@@ -0,0 +1,79 @@
+import * as React from 'react';
+import * as Help from './Help';
+import { atPath } from './shared/JsonPath';
+import * as Store from './Store';
+import * as IndiManagerStore from './IndiManagerStore';
+import TextEdit from './TextEdit';
+
+export type CameraControl = "gain"|"offset";
+
+const dedicatedVectors: {[id in CameraControl]: string} = {
+    gain: 'CCD_GAIN',
+    offset: 'CCD_OFFSET',
+};
+
+// Same lookup as the backend: dedicated vector, or an entry of CCD_CONTROLS
+export function hasCameraControl(store: Store.Content, device: string, control: CameraControl) {
+    if (IndiManagerStore.getVector(store, device, dedicatedVectors[control]) !== null) {
+        return true;
+    }
+    const controls = IndiManagerStore.getVector(store, device, 'CCD_CONTROLS');
+    return controls !== null
+        && controls.childNames.some(id=>id.toLowerCase() === control || (controls.childs[id].$label || "").toLowerCase() === control);
+}
+
+type InputProps = {
+    // name of the device (indi id)
+    device: string;
+    control: CameraControl;
+    // Location of the value in the store
+    valuePath: string;
+    setValue: (e:number|null)=>Promise<void>;
+}
+
+type MappedProps = {
+    available: boolean;
+    value: number|null|undefined;
+}
+
+type Props = InputProps & MappedProps;
+
+class CameraControlEditor extends React.PureComponent<Props> {
+    static helps = {
+        gain: Help.key("Gain", "Camera gain for the next frames. Leave empty to keep the current camera setting"),
+        offset: Help.key("Offset", "Camera offset for the next frames. Leave empty to keep the current camera setting"),
+    };
+
+    private update = async(str: string)=>{
+        if (str.trim() === "") {
+            await this.props.setValue(null);
+            return;
+        }
+        const value = parseFloat(str);
+        if (isNaN(value) || value < 0) {
+            throw new Error("Invalid " + this.props.control + ": " + str);
+        }
+        await this.props.setValue(value);
+    }
+
+    render() {
+        if (!this.props.available) {
+            return null;
+        }
+        return <span className='cameraSetting'>{this.props.control === "gain" ? "Gain" : "Offset"}:
+            <TextEdit
+                value={this.props.value === null || this.props.value === undefined ? "" : "" + this.props.value}
+                helpKey={CameraControlEditor.helps[this.props.control]}
+                onChange={this.update}/>
+        </span>;
+    }
+
+    static mapStateToProps(store: Store.Content, ownProps: InputProps):MappedProps {
+        return {
+            available: hasCameraControl(store, ownProps.device, ownProps.control),
+            value: atPath(store, ownProps.valuePath),
+        };
+    }
+}
+
+export default Store.Connect<CameraControlEditor, InputProps, {}, MappedProps>(CameraControlEditor);
@@ -0,0 +1,125 @@
+import * as React from 'react';
+import CancellationToken from 'cancellationtoken';
+
+import * as BackOfficeStatus from '@bo/BackOfficeStatus';
+import * as BackendRequest from "./BackendRequest";
+import * as Help from './Help';
+import * as Store from './Store';
+import * as Utils from './Utils';
+import TextEdit from './TextEdit';
+import './CameraView.css';
+
+type InputProps = {};
+
+type MappedProps = {
+    camera: string|null;
+    status?: BackOfficeStatus.CameraCoolingStatus;
+    settings?: Partial<BackOfficeStatus.CameraCoolingSettings>;
+}
+
+type Props = InputProps & MappedProps;
+
+function formatTemperature(v: number|null) {
+    return v === null ? "N/A" : v.toLocaleString(undefined, {minimumFractionDigits: 1, maximumFractionDigits: 1}) + "°C";
+}
+
+class CameraCoolingView extends React.PureComponent<Props> {
+    static targetHelp = Help.key("Cooling target", "Temperature (°C) to reach. The set-point is ramped at the configured rate");
+    static warmUpHelp = Help.key("Warm up", "Ramp to the warm-up temperature, then turn the cooler off");
+    static offHelp = Help.key("Cooler off", "Stop the ramp and turn the cooler off immediately");
+    static rampRateHelp = Help.key("Ramp rate", "Maximum change of the set-point (°C/min), for cool-down and warm-up. Leave empty to apply the set-point at once");
+    static toleranceHelp = Help.key("Tolerance", "The temperature is stable when it stays within that distance (°C) of the set-point for the stable duration");
+    static stableDurationHelp = Help.key("Stable duration", "Duration (seconds) the temperature must stay within tolerance to be stable");
+    static warmUpTemperatureHelp = Help.key("Warm-up temperature", "Temperature (°C) reached before turning the cooler off");
+
+    private setTarget = async(str: string)=>{
+        const temperature = parseFloat(str);
+        if (isNaN(temperature)) {
+            throw new Error("Invalid temperature: " + str);
+        }
+        await BackendRequest.RootInvoker("camera")("setCoolingTarget")(CancellationToken.CONTINUE, {
+            camera: this.props.camera!,
+            temperature,
+        });
+    }
+
+    private warmUp = async()=>{
+        await BackendRequest.RootInvoker("camera")("warmUp")(CancellationToken.CONTINUE, {camera: this.props.camera!});
+    }
+
+    private off = async()=>{
+        await BackendRequest.RootInvoker("camera")("coolerOff")(CancellationToken.CONTINUE, {camera: this.props.camera!});
+    }
+
+    private updateSetting = async(field: keyof BackOfficeStatus.CameraCoolingSettings, str: string)=>{
+        let value: number|null = null;
+        if (str.trim() !== "" || field !== "rampRate") {
+            value = parseFloat(str);
+            if (isNaN(value)) {
+                throw new Error("Invalid value: " + str);
+            }
+        }
+        await BackendRequest.RootInvoker("camera")("updateCoolingSettings")(CancellationToken.CONTINUE, {
+            camera: this.props.camera!,
+            diff: {
+                update: {[field]: value}
+            }
+        });
+    }
+
+    private settingValue(field: keyof BackOfficeStatus.CameraCoolingSettings) {
+        const v = this.props.settings ? this.props.settings[field] : undefined;
+        return v === null || v === undefined ? "" : "" + v;
+    }
+
+    render() {
+        const status = this.props.status;
+        if (this.props.camera === null || status === undefined) {
+            return null;
+        }
+        return <div>
+            <div>
+                Cooling: {status.status} {formatTemperature(status.temperature)}
+                {status.setPoint !== null ? " (set-point " + formatTemperature(status.setPoint) + ")" : null}
+                {status.coolerPower !== null ? " " + Math.round(status.coolerPower) + "%" : null}
+                {status.error !== null ? <span className="CameraCoolingError"> {status.error}</span> : null}
+            </div>
+            <div>
+                Target (°C):
+                <TextEdit value={status.target === null ? "" : "" + status.target}
+                        helpKey={CameraCoolingView.targetHelp}
+                        onChange={this.setTarget}/>
+                <input type="button" value="Warm up" onClick={this.warmUp} {...CameraCoolingView.warmUpHelp.dom()}/>
+                <input type="button" value="Off" onClick={this.off} {...CameraCoolingView.offHelp.dom()}/>
+            </div>
+            <div>
+                Ramp (°C/min):
+                <TextEdit value={this.settingValue("rampRate")} helpKey={CameraCoolingView.rampRateHelp}
+                        onChange={(e: string)=>this.updateSetting("rampRate", e)}/>
+                Stable ±(°C):
+                <TextEdit value={this.settingValue("tolerance")} helpKey={CameraCoolingView.toleranceHelp}
+                        onChange={(e: string)=>this.updateSetting("tolerance", e)}/>
+                for (s):
+                <TextEdit value={this.settingValue("stableDuration")} helpKey={CameraCoolingView.stableDurationHelp}
+                        onChange={(e: string)=>this.updateSetting("stableDuration", e)}/>
+                Warm-up (°C):
+                <TextEdit value={this.settingValue("warmUpTemperature")} helpKey={CameraCoolingView.warmUpTemperatureHelp}
+                        onChange={(e: string)=>this.updateSetting("warmUpTemperature", e)}/>
+            </div>
+        </div>;
+    }
+
+    static mapStateToProps(store: Store.Content):MappedProps {
+        const camera = store.backend.camera?.selectedDevice;
+        if (camera === undefined || camera === null) {
+            return {camera: null};
+        }
+        return {
+            camera,
+            status: Utils.getOwnProp(store.backend.camera?.cooling, camera),
+            settings: Utils.getOwnProp(store.backend.camera?.configuration.coolingSettings, camera),
+        };
+    }
+}
+
+export default Store.Connect<CameraCoolingView, InputProps, {}, MappedProps>(CameraCoolingView);
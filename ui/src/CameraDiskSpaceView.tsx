@@ -0,0 +1,48 @@
+import * as React from 'react';
+
+import * as BackOfficeStatus from '@bo/BackOfficeStatus';
+import * as Store from './Store';
+import * as Utils from './Utils';
+import './CameraView.css';
+
+type InputProps = {};
+
+type MappedProps = {
+    status?: BackOfficeStatus.CameraDiskSpace;
+}
+
+type Props = InputProps & MappedProps;
+
+function formatSize(bytes: number) {
+    if (bytes >= 1024 * 1024 * 1024) {
+        return (bytes / (1024 * 1024 * 1024)).toLocaleString(undefined, {maximumFractionDigits: 1}) + "GB";
+    }
+    return Math.floor(bytes / (1024 * 1024)) + "MB";
+}
+
+class CameraDiskSpaceView extends React.PureComponent<Props> {
+    render() {
+        const status = this.props.status;
+        if (status === undefined) {
+            return null;
+        }
+        return <div title={status.path}>
+            Disk: {status.free !== null ? formatSize(status.free) + " free" : "N/A"}
+            {status.framesLeft !== null ? " (" + status.framesLeft + " frames left)" : null}
+            {status.lowSpace ? <span className="CameraDiskSpaceLow"> low space</span> : null}
+            {status.error !== null ? <span className="CameraDiskSpaceLow"> {status.error}</span> : null}
+        </div>;
+    }
+
+    static mapStateToProps(store: Store.Content):MappedProps {
+        const camera = store.backend.camera?.selectedDevice;
+        if (camera === undefined || camera === null) {
+            return {};
+        }
+        return {
+            status: Utils.getOwnProp(store.backend.camera?.diskSpace, camera),
+        };
+    }
+}
+
+export default Store.Connect<CameraDiskSpaceView, InputProps, {}, MappedProps>(CameraDiskSpaceView);
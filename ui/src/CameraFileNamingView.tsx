@@ -0,0 +1,55 @@
+import * as React from 'react';
+import CancellationToken from 'cancellationtoken';
+
+import { FileNamingTemplate } from '@bo/BackOfficeStatus';
+import * as BackendRequest from "./BackendRequest";
+import * as Store from './Store';
+import * as Utils from './Utils';
+import FileNamingEdit from './FileNamingEdit';
+
+type InputProps = {};
+
+type MappedProps = {
+    camera: string|null;
+    template: FileNamingTemplate|null;
+}
+
+type Props = InputProps & MappedProps;
+
+class CameraFileNamingView extends React.PureComponent<Props> {
+    private setTemplate = async(template: FileNamingTemplate|null)=> {
+        await BackendRequest.RootInvoker("camera")("setShootParam")(CancellationToken.CONTINUE, {
+            camera: this.props.camera!,
+            key: "fileNaming",
+            value: template,
+        });
+    }
+
+    render() {
+        if (this.props.camera === null) {
+            return null;
+        }
+        return <div>
+            File naming:
+            <FileNamingEdit
+                camera={this.props.camera}
+                template={this.props.template}
+                inheritedTitle="Default"
+                onChange={this.setTemplate}/>
+        </div>;
+    }
+
+    static mapStateToProps(store: Store.Content):MappedProps {
+        const camera = store.backend.camera?.selectedDevice;
+        if (camera === undefined || camera === null) {
+            return {camera: null, template: null};
+        }
+        const settings = Utils.getOwnProp(store.backend.camera?.configuration.deviceSettings, camera);
+        return {
+            camera,
+            template: settings?.fileNaming || null,
+        };
+    }
+}
+
+export default Store.Connect<CameraFileNamingView, InputProps, {}, MappedProps>(CameraFileNamingView);
@@ -5,6 +5,7 @@ import StatePropCond from './StatePropCond';
 import CameraBinEditor from './CameraBinEditor';
 import CameraIsoEditor from './CameraIsoEditor';
 import CameraExpEditor from './CameraExpEditor';
+import CameraControlEditor from './CameraControlEditor';
 import './CameraView.css'
 
 type InputProps = {
@@ -49,6 +50,18 @@ class CameraSettingsView extends React.PureComponent<Props> {
                     </span>
             </StatePropCond>
 
+            <CameraControlEditor
+                device={this.props.current}
+                control="gain"
+                valuePath={this.props.settingsPath + deviceId + '.gain'}
+                setValue={this.props.setValue('gain')}/>
+
+            <CameraControlEditor
+                device={this.props.current}
+                control="offset"
+                valuePath={this.props.settingsPath + deviceId + '.offset'}
+                setValue={this.props.setValue('offset')}/>
+
             <StatePropCond device={this.props.current} property="CCD_EXPOSURE">
                     <span className='cameraSetting'>Exp:
                         <CameraExpEditor
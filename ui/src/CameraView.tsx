@@ -15,6 +15,10 @@ import DeviceSettingsBton from './DeviceSettingsBton';
 
 import './CameraView.css'
 import LiveFilterSelector from './LiveFilterSelector';
+import CameraCoolingView from './CameraCoolingView';
+import LightBoxView from './LightBoxView';
+import CameraFileNamingView from './CameraFileNamingView';
+import CameraDiskSpaceView from './CameraDiskSpaceView';
 import { StreamSize } from '@bo/BackOfficeStatus';
 
 type InputProps = {
@@ -81,6 +85,10 @@ class CameraView extends React.PureComponent<Props> {
                     setValue={this.settingSetter}
                 />
                 <LiveFilterSelector.forActivePath activePath="$.backend.camera.selectedDevice"/>
+                <CameraCoolingView/>
+                <LightBoxView/>
+                <CameraFileNamingView/>
+                <CameraDiskSpaceView/>
             </div>
             <div className="CameraViewDisplay">
                 <FitsViewerWithAstrometry
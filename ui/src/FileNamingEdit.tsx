@@ -0,0 +1,111 @@
+import * as React from 'react';
+import CancellationToken from 'cancellationtoken';
+
+import { FileNamingTemplate } from '@bo/BackOfficeStatus';
+import * as BackendRequest from "./BackendRequest";
+import * as Help from './Help';
+import TextEdit from './TextEdit';
+import './Sequence/DitheringSettingEdit.css';
+
+type Props = {
+    camera: string|null;
+    // Used for the sequence and target tokens of the preview
+    sequenceUid?: string;
+    template: FileNamingTemplate|null;
+    // Title of the naming used when template is null
+    inheritedTitle: string;
+    onChange: (template: FileNamingTemplate|null)=>Promise<void>;
+}
+
+type State = {
+    preview: string|null;
+}
+
+const tokensHelp = "Tokens: {date}, {night} (date of the evening), {time}, {target}, {sequence}, {type}, {filter}, {exposure}, {gain}, {bin}, {temperature}, {frame} (frame number) and {camera}";
+
+const initialTemplate: FileNamingTemplate = {
+    directory: "{night}/{target}",
+    file: "{sequence}_{type}_{filter}_{exposure}_{frame}",
+};
+
+export default class FileNamingEdit extends React.PureComponent<Props, State> {
+    static modeHelp = Help.key("File naming", "Name the image files with a template, or use the inherited naming");
+    static directoryHelp = Help.key("Directory template", "Sub directory of the image path. Use / to create several levels. " + tokensHelp);
+    static fileHelp = Help.key("File template", "Name of the image files, without extension. A frame number is added when {frame} is missing. " + tokensHelp);
+
+    constructor(props: Props) {
+        super(props);
+        this.state = {
+            preview: null,
+        };
+    }
+
+    componentDidMount() {
+        this.refreshPreview();
+    }
+
+    componentDidUpdate(prevProps: Props) {
+        if (prevProps.template !== this.props.template
+                || prevProps.camera !== this.props.camera
+                || prevProps.sequenceUid !== this.props.sequenceUid) {
+            this.refreshPreview();
+        }
+    }
+
+    private refreshPreview = async()=> {
+        if (this.props.camera === null) {
+            this.setState({preview: null});
+            return;
+        }
+        try {
+            const preview = await BackendRequest.RootInvoker("camera")("previewImageNaming")(CancellationToken.CONTINUE, {
+                camera: this.props.camera,
+                template: this.props.template,
+                sequenceUid: this.props.sequenceUid,
+            });
+            this.setState({preview});
+        } catch(e) {
+            this.setState({preview: "" + e});
+        }
+    }
+
+    private setMode = async(custom: boolean)=> {
+        await this.props.onChange(custom ? initialTemplate : null);
+    }
+
+    private update = async(field: keyof FileNamingTemplate, value: string)=> {
+        await this.props.onChange({...this.props.template!, [field]: value.trim()});
+    }
+
+    render() {
+        return <>
+            <select value={this.props.template === null ? "inherit" : "custom"}
+                    onChange={(e)=>this.setMode(e.target.value === "custom")}
+                    {...FileNamingEdit.modeHelp.dom()}>
+                <option value="inherit">{this.props.inheritedTitle}</option>
+                <option value="custom">Custom</option>
+            </select>
+            {this.props.template !== null
+                ? <div className="DitheringSettingBlock">
+                    <div className="DitheringSettingParam">
+                        Directory:
+                        <TextEdit value={this.props.template.directory}
+                                helpKey={FileNamingEdit.directoryHelp}
+                                onChange={(e: string)=>this.update('directory', e)}/>
+                    </div>
+                    <div className="DitheringSettingParam">
+                        File:
+                        <TextEdit value={this.props.template.file}
+                                helpKey={FileNamingEdit.fileHelp}
+                                onChange={(e: string)=>this.update('file', e)}/>
+                    </div>
+                </div>
+                : null
+            }
+            {this.state.preview !== null
+                ? <div className="DitheringSettingExplain">{this.state.preview}</div>
+                : null
+            }
+        </>;
+    }
+}
@@ -0,0 +1,121 @@
+import * as React from 'react';
+import CancellationToken from 'cancellationtoken';
+
+import * as BackOfficeStatus from '@bo/BackOfficeStatus';
+import * as Help from './Help';
+import * as Store from './Store';
+import * as Utils from './Utils';
+import * as BackendRequest from "./BackendRequest";
+import TextEdit from './TextEdit';
+
+type InputProps = {
+    camera: string;
+    focuser: string;
+}
+
+type MappedProps = {
+    filterWheel: string|null;
+    filterIds: string[];
+    offsets: BackOfficeStatus.FilterFocusOffsets;
+    wizard: BackOfficeStatus.FilterOffsetWizardStatus|null;
+    focusRunning: boolean;
+}
+
+type Props = InputProps & MappedProps;
+
+class FilterOffsetsView extends React.PureComponent<Props> {
+    static offsetHelp = Help.key("Filter offset", "Focuser steps for this filter. On filter change, the focuser moves by the difference between the two filters. Leave empty to disable for that filter.");
+    static measureHelp = Help.key("Measure offsets", "Run the auto-focus through every filter of the wheel and record the difference of the best positions. The current auto-focus settings are used.");
+
+    constructor(props: Props) {
+        super(props);
+    }
+
+    updateOffset = async(filterId: string, value: string)=> {
+        const offset = value.trim() === "" ? null : parseInt(value, 10);
+        if (offset !== null && isNaN(offset)) {
+            throw new Error("Invalid offset: " + value);
+        }
+        await BackendRequest.RootInvoker("focuser")("updateFilterOffset")(
+            CancellationToken.CONTINUE,
+            {
+                focuser: this.props.focuser,
+                filterWheel: this.props.filterWheel!,
+                filterId,
+                offset,
+            }
+        );
+    }
+
+    measure = async()=> {
+        await BackendRequest.RootInvoker("focuser")("measureFilterOffsets")(
+            CancellationToken.CONTINUE,
+            {}
+        );
+    }
+
+    private renderWizardStatus(filterId: string) {
+        const wizard = this.props.wizard;
+        if (wizard === null || wizard.filterWheel !== this.props.filterWheel || wizard.focuser !== this.props.focuser) {
+            return null;
+        }
+        if (wizard.status === "running" && wizard.currentFilter === filterId) {
+            return <i>focusing...</i>;
+        }
+        if (!Utils.has(wizard.positions, filterId)) {
+            return null;
+        }
+        const position = wizard.positions[filterId];
+        return <i>{position === null ? "failed" : "best at " + Math.round(position)}</i>;
+    }
+
+    render() {
+        if (this.props.filterWheel === null) {
+            return <div>No filter wheel</div>;
+        }
+        const wizard = this.props.wizard;
+        return <div>
+            <table>
+                <tbody>
+                    {this.props.filterIds.map(filterId=>
+                        <tr key={filterId}>
+                            <td>{filterId}</td>
+                            <td>
+                                <TextEdit
+                                    value={Utils.has(this.props.offsets, filterId) ? "" + this.props.offsets[filterId] : ""}
+                                    helpKey={FilterOffsetsView.offsetHelp}
+                                    onChange={(e:string)=>this.updateOffset(filterId, e)}/>
+                            </td>
+                            <td>{this.renderWizardStatus(filterId)}</td>
+                        </tr>
+                    )}
+                </tbody>
+            </table>
+            {wizard !== null && wizard.status === "error"
+                ? <div className="FocuserState_error">{wizard.error}</div>
+                : null
+            }
+            <input type="button" value="Measure offsets" onClick={this.measure}
+                disabled={this.props.focusRunning}
+                {...FilterOffsetsView.measureHelp.dom()}/>
+        </div>;
+    }
+
+    static mapStateToProps(store: Store.Content, ownProps: InputProps):MappedProps {
+        const filterWheel = Utils.getOwnProp(store.backend.camera?.dynStateByDevices, ownProps.camera)?.filterWheelDevice || null;
+        const filterIds = filterWheel !== null
+                ? Utils.getOwnProp(store.backend.filterWheel?.dynStateByDevices, filterWheel)?.filterIds || []
+                : [];
+        const byFilterWheel = Utils.getOwnProp(store.backend.focuser?.config.filterOffsets, ownProps.focuser);
+        const offsets = filterWheel !== null ? Utils.getOwnProp(byFilterWheel, filterWheel) : undefined;
+        return {
+            filterWheel,
+            filterIds,
+            offsets: offsets || {},
+            wizard: store.backend.focuser?.filterOffsetWizard || null,
+            focusRunning: store.backend.focuser?.current.status === "running",
+        };
+    }
+}
+
+export default Store.Connect<FilterOffsetsView, InputProps, {}, MappedProps>(FilterOffsetsView);
@@ -36,6 +36,7 @@ type AstrometryProps = {
     trackScope: string|null;
     ranow: number|null;
     decnow: number|null;
+    centering: string|null;
 };
 
 type LiveProps = {
@@ -58,6 +59,7 @@ class FitsViewerWithAstrometry extends React.PureComponent<Props, State> {
     private static astrometryMenuHelp = Help.key("Astrometry", "Locate the coordinate of the center of the image using stars matching (astrometry.net), then sync the scope position. The search is done near the scope current position. The setting used are accessible in the Astrometry tab");
     private static astrometryWideMenuHelp = Help.key("Astrometry (wide)", "Locate the coordinate of the center of the image using stars matching (astrometry.net), then sync the scope position. The search is done through the whole visible sky area (using geo coords and current time). The setting used are accessible in the Astrometry tab");
     private static gotoMenuHelp = Help.key("Goto here", "Center the scope to the highlighted position");
+    private static centerMenuHelp = Help.key("Center here", "Goto the highlighted position, then shoot, plate solve and sync until the image is centered within the tolerance set in the Astrometry tab");
 
     constructor(props:Props) {
         super(props);
@@ -96,6 +98,28 @@ class FitsViewerWithAstrometry extends React.PureComponent<Props, State> {
         );
     }
 
+    private readonly center = async (pos:any) => {
+        const state = Store.getStore().getState();
+        const astrometryResult = state.backend.astrometry!.result;
+        if (pos.imageX === undefined || pos.imageY === undefined) {
+            throw new Error("Wrong image position");
+        }
+        if (astrometryResult === null) {
+            throw new Error("No astrometry result");
+        }
+
+        const skyProjection = SkyProjection.fromAstrometry(astrometryResult as SucceededAstrometryResult);
+        const [ra2000, dec2000] = skyProjection.pixToRaDec([pos.imageX, pos.imageY]);
+
+        return await BackendRequest.RootInvoker("astrometry")("center")(
+            CancellationToken.CONTINUE,
+            {
+                ra: ra2000,
+                dec: dec2000,
+            }
+        );
+    }
+
     private readonly sync = async () => {
         return await BackendRequest.RootInvoker("astrometry")("sync")(
             CancellationToken.CONTINUE,
@@ -169,6 +193,13 @@ class FitsViewerWithAstrometry extends React.PureComponent<Props, State> {
                         cb: this.move,
                         positional: true,
                     });
+                    ret.push({
+                        title: 'Center here',
+                        key: 'center',
+                        helpKey: FitsViewerWithAstrometry.centerMenuHelp,
+                        cb: this.center,
+                        positional: true,
+                    });
                 }
                 return ret;
             }
@@ -179,6 +210,17 @@ class FitsViewerWithAstrometry extends React.PureComponent<Props, State> {
         return "Astrometry " + status;
     }
 
+    static centeringTitle(center: BackOfficeStatus.AstrometryCenterStatus) {
+        let rslt = "Centering: attempt " + center.steps.length;
+        const last = center.steps.length > 1 ? center.steps[center.steps.length - 2] : null;
+        if (last !== null) {
+            rslt += last.error !== null
+                ? " (previous: " + last.error + ")"
+                : last.distance !== null ? " (previous: " + last.distance.toFixed(1) + "')" : "";
+        }
+        return rslt;
+    }
+
     static deltaTitle(dlt:number) {
         if (dlt === 0) {
             return '0"';
@@ -221,6 +263,7 @@ class FitsViewerWithAstrometry extends React.PureComponent<Props, State> {
             <span className="AstrometryImageInfoRoot">
                 {this.props.scopeDeltaRa !== null ? "Δ Ra/Dec: " + FitsViewerWithAstrometry.deltaTitle(this.props.scopeDeltaRa!) + "  " + FitsViewerWithAstrometry.deltaTitle(this.props.scopeDeltaDec!)  : null}
                 {this.props.visible && this.props.scopeDeltaRa === null ? this.titleForStatus(this.props.status) : null}
+                {this.props.centering !== null ? <div>{this.props.centering}</div> : null}
                 {this.props.cancel ? <input type='button' className='AstrometryBton' value='Abort' onClick={this.cancel}/> : null}
                 {this.props.sync && this.props.scopeDeltaRa !== 0 && this.props.scopeDeltaDec !== 0 ? <input type='button' className='AstrometryBton' value='Sync' onClick={this.sync}/> : null}
                 {this.props.error !== null
@@ -249,6 +292,7 @@ class FitsViewerWithAstrometry extends React.PureComponent<Props, State> {
                         trackScope: null,
                         ranow : null,
                         decnow: null,
+                        centering: null,
                     }
                 }
                 const computeStatus = astrometry.status;
@@ -265,6 +309,7 @@ class FitsViewerWithAstrometry extends React.PureComponent<Props, State> {
                     trackScope: null,
                     ranow: null,
                     decnow: null,
+                    centering: null,
                 };
 
                 const calcTrackScope=()=>{
@@ -324,6 +369,13 @@ class FitsViewerWithAstrometry extends React.PureComponent<Props, State> {
                     }
                 }
 
+                if (astrometry.center !== null && astrometry.center.status === "running") {
+                    result.centering = FitsViewerWithAstrometry.centeringTitle(astrometry.center);
+                } else if (astrometry.center !== null && astrometry.center.status === "error"
+                        && astrometry.image !== null && astrometry.image === path) {
+                    result.centering = "Centering failed: " + astrometry.center.error;
+                }
+
                 if (astrometry.image !== null && astrometry.image === path) {
                     if (astrometry.lastOperationError !== null) {
                         result.error = astrometry.lastOperationError;
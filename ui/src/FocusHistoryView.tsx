@@ -0,0 +1,211 @@
+import * as React from 'react';
+import CancellationToken from 'cancellationtoken';
+import { Line } from 'react-chartjs-2';
+
+import * as BackOfficeStatus from '@bo/BackOfficeStatus';
+import * as BackOfficeAPI from '@bo/BackOfficeAPI';
+import * as Help from './Help';
+import * as Store from './Store';
+import * as BackendRequest from "./BackendRequest";
+
+type InputProps = {
+    close: ()=>(void);
+}
+
+type MappedProps = {
+    history: {[id: string]: BackOfficeStatus.AutoFocusRun};
+}
+
+type Props = InputProps & MappedProps;
+
+type State = {
+    // Reports of the selected runs. null while loading
+    selected: {[id: string]: BackOfficeAPI.FocusRunReport|null};
+}
+
+const noHistory = {};
+
+const colors = ['#ff0000', '#0000ff', '#00a000', '#ff8000', '#a000a0', '#00a0a0', '#808000', '#ff00ff'];
+
+function formatNumber(n: number|null, digits: number) {
+    return n !== null ? n.toFixed(digits) : "";
+}
+
+// Compare the curves of past autofocus runs
+class FocusHistoryView extends React.PureComponent<Props, State> {
+    static exportHelp = Help.key("Export CSV", "Download the measures of the selected runs (all runs when none is selected) as CSV");
+    static removeHelp = Help.key("Remove", "Remove the run from the history. Only successful runs are used to learn the temperature coefficient");
+
+    constructor(props: Props) {
+        super(props);
+        this.state = {selected: {}};
+    }
+
+    private toggle = async(id: string)=> {
+        if (Object.prototype.hasOwnProperty.call(this.state.selected, id)) {
+            const selected = {...this.state.selected};
+            delete selected[id];
+            this.setState({selected});
+            return;
+        }
+        this.setState({selected: {...this.state.selected, [id]: null}});
+        const report = await BackendRequest.RootInvoker("focuser")("getFocusRun")(CancellationToken.CONTINUE, {id});
+        if (Object.prototype.hasOwnProperty.call(this.state.selected, id)) {
+            this.setState({selected: {...this.state.selected, [id]: report}});
+        }
+    }
+
+    private remove = async(id: string)=> {
+        await BackendRequest.RootInvoker("focuser")("removeFocusRun")(CancellationToken.CONTINUE, {id});
+        const selected = {...this.state.selected};
+        delete selected[id];
+        this.setState({selected});
+    }
+
+    private exportCsv = async()=> {
+        const ids = Object.keys(this.state.selected)
+                .filter(id=>Object.prototype.hasOwnProperty.call(this.props.history, id))
+                .sort((a, b)=>this.props.history[a].time - this.props.history[b].time);
+        const csv = await BackendRequest.RootInvoker("focuser")("exportFocusRuns")(
+            CancellationToken.CONTINUE,
+            ids.length ? {ids} : {}
+        );
+        const url = URL.createObjectURL(new Blob([csv], {type: "text/csv"}));
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = "focus-history.csv";
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+
+    private renderGraph() {
+        const datasets: Array<any> = [];
+        const ids = Object.keys(this.state.selected)
+                .filter(id=>Object.prototype.hasOwnProperty.call(this.props.history, id))
+                .sort((a, b)=>this.props.history[a].time - this.props.history[b].time);
+        ids.forEach((id, i)=> {
+            const report = this.state.selected[id];
+            if (report === null || report === undefined) {
+                return;
+            }
+            const color = colors[i % colors.length];
+            const metric = report.model !== null ? report.model.metric : 'fwhm';
+            const label = new Date(report.time).toLocaleTimeString() + (report.filter !== null ? ' ' + report.filter : '');
+            const steps = Object.keys(report.points).sort((a, b)=>parseFloat(a) - parseFloat(b));
+            datasets.push({
+                label,
+                borderColor: color,
+                backgroundColor: color,
+                borderWidth: 1.5,
+                pointRadius: 2,
+                showLine: false,
+                fill: false,
+                data: steps.filter(s=>report.points[s][metric] !== null)
+                        .map(s=>({x: parseFloat(s), y: report.points[s][metric]})),
+            });
+            const predicted = Object.keys(report.predicted).sort((a, b)=>parseFloat(a) - parseFloat(b));
+            datasets.push({
+                label: label + ' ' + (report.model !== null ? report.model.type : ''),
+                borderColor: color,
+                borderWidth: 1,
+                pointRadius: 0,
+                lineTension: 0,
+                fill: false,
+                data: predicted.map(s=>({x: parseFloat(s), y: report.predicted[s].value})),
+            });
+        });
+
+        const chartOptions = {
+            scales: {
+                yAxes: [{
+                    type: 'linear',
+                    ticks: {
+                        callback: (e:any)=>(typeof(e) == 'number') ? e.toFixed(1) : e,
+                        beginAtZero: true,
+                    }
+                }],
+                xAxes: [{
+                    type: 'linear',
+                    ticks: {
+                        maxRotation: 0
+                    },
+                }]
+            },
+            animation: {
+                duration: 0
+            },
+            maintainAspectRatio: false
+        };
+        return <Line data={{datasets}} options={chartOptions}/>;
+    }
+
+    render() {
+        const ids = Object.keys(this.props.history).sort((a, b)=>this.props.history[b].time - this.props.history[a].time);
+        return <div className="Page">
+            <div className="AstrometryWizardContent">
+                <div className="AstrometryWizardSelectTitle">Focus history</div>
+                <div className="PhdGraph_Item FocusHistoryGraph">
+                    <div className="PhdGraph_Container">
+                        {this.renderGraph()}
+                    </div>
+                </div>
+                <table className="FocusHistoryTable">
+                    <thead>
+                        <tr>
+                            <th></th>
+                            <th>Time</th>
+                            <th>Focuser</th>
+                            <th>Filter</th>
+                            <th>°C</th>
+                            <th>Status</th>
+                            <th>Position</th>
+                            <th>FWHM</th>
+                            <th>R²</th>
+                            <th></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {ids.map(id=> {
+                            const run = this.props.history[id];
+                            return <tr key={id}>
+                                <td>
+                                    <input type="checkbox"
+                                        checked={Object.prototype.hasOwnProperty.call(this.state.selected, id)}
+                                        onChange={()=>this.toggle(id)}/>
+                                </td>
+                                <td>{new Date(run.time).toLocaleString()}</td>
+                                <td>{run.focuser}</td>
+                                <td>{run.filter}</td>
+                                <td>{formatNumber(run.temperature, 1)}</td>
+                                <td title={run.error || undefined}>{run.status}</td>
+                                <td>{run.position}</td>
+                                <td>{formatNumber(run.finalFwhm, 2)}</td>
+                                <td>{run.model !== null ? run.model.rSquared.toFixed(3) : ""}</td>
+                                <td>
+                                    <input type="button" value="Remove" onClick={()=>this.remove(id)}
+                                        {...FocusHistoryView.removeHelp.dom()}/>
+                                </td>
+                            </tr>;
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            <div className="AstrometryWizardControls">
+                <input type="button" value="Export CSV" onClick={this.exportCsv}
+                    className="WizardLeftButton"
+                    disabled={ids.length === 0}
+                    {...FocusHistoryView.exportHelp.dom()}/>
+                <input type="button" value="Done" onClick={this.props.close}
+                    className="WizardRightButton"/>
+            </div>
+        </div>;
+    }
+
+    static mapStateToProps(store: Store.Content, ownProps: InputProps):MappedProps {
+        return {
+            history: store.backend.focuser?.history || noHistory,
+        };
+    }
+}
+
+export default Store.Connect<FocusHistoryView, InputProps, {}, MappedProps>(FocusHistoryView);
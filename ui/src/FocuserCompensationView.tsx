@@ -0,0 +1,48 @@
+import * as React from 'react';
+
+import * as Store from './Store';
+import * as Utils from './Utils';
+import { TemperatureCompensationStatus } from '@bo/BackOfficeStatus';
+
+type InputProps = {
+    focuser: string;
+}
+
+type MappedProps = {
+    status: TemperatureCompensationStatus|undefined;
+}
+
+type Props = InputProps & MappedProps;
+
+function formatTemperature(t: number|null) {
+    return t !== null ? t.toFixed(1) + "°C" : "N/A";
+}
+
+// Temperature followed by the backend between frames
+class FocuserCompensationView extends React.PureComponent<Props> {
+    render() {
+        const status = this.props.status;
+        if (status === undefined) {
+            return null;
+        }
+        return <div>
+            Temperature: {formatTemperature(status.temperature)}
+            {status.referenceTemperature !== null
+                ? <> (focused at {formatTemperature(status.referenceTemperature)}, compensated {status.totalSteps} steps)</>
+                : null
+            }
+            {status.error !== null
+                ? <div className="Error">{status.error}</div>
+                : null
+            }
+        </div>;
+    }
+
+    static mapStateToProps(store: Store.Content, ownProps: InputProps):MappedProps {
+        return {
+            status: Utils.getOwnProp(store.backend.focuser?.compensation, ownProps.focuser),
+        };
+    }
+}
+
+export default Store.Connect<FocuserCompensationView, InputProps, {}, MappedProps>(FocuserCompensationView);
@@ -0,0 +1,64 @@
+import * as React from 'react';
+import CancellationToken from 'cancellationtoken';
+
+import * as BackendRequest from "./BackendRequest";
+import * as Help from './Help';
+import * as IndiManagerStore from './IndiManagerStore';
+import * as Store from './Store';
+import * as Utils from './Utils';
+import TextEdit from './TextEdit';
+
+type InputProps = {
+    focuser: string;
+}
+
+type MappedProps = {
+    relative: boolean;
+    // null until the first move
+    position: number|null;
+}
+
+type Props = InputProps & MappedProps;
+
+// Position tracked by the backend for focusers without ABS_FOCUS_POSITION
+class FocuserRelativePositionView extends React.PureComponent<Props> {
+    static positionHelp = Help.key("Tracked position", "The focuser only has relative moves: its position is counted from the moves. Set it when the focuser is at a known position (e.g. fully racked in: 0)");
+
+    private setPosition = async(str: string)=>{
+        const position = parseInt(str);
+        if (isNaN(position)) {
+            throw new Error("Invalid position: " + str);
+        }
+        await BackendRequest.RootInvoker("focuser")("setRelativePosition")(CancellationToken.CONTINUE, {
+            focuser: this.props.focuser,
+            position,
+        });
+    }
+
+    render() {
+        if (!this.props.relative) {
+            return null;
+        }
+        return <div>
+            Tracked position:
+            <TextEdit value={this.props.position !== null ? "" + this.props.position : ""}
+                    helpKey={FocuserRelativePositionView.positionHelp}
+                    onChange={this.setPosition}/>
+        </div>;
+    }
+
+    static mapStateToProps(store: Store.Content, ownProps: InputProps):MappedProps {
+        if (IndiManagerStore.getVector(store, ownProps.focuser, 'ABS_FOCUS_POSITION') !== null
+            || IndiManagerStore.getVector(store, ownProps.focuser, 'REL_FOCUS_POSITION') === null)
+        {
+            return {relative: false, position: null};
+        }
+        const position = Utils.getOwnProp(store.backend.focuser?.config.relativePositions, ownProps.focuser);
+        return {
+            relative: true,
+            position: position !== undefined ? position : null,
+        };
+    }
+}
+
+export default Store.Connect<FocuserRelativePositionView, InputProps, {}, MappedProps>(FocuserRelativePositionView);
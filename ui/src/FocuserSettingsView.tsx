@@ -1,6 +1,8 @@
 import * as React from 'react';
 import Bool from './primitives/Bool';
 import Int from './primitives/Int';
+import Float from './primitives/Float';
+import Select from './primitives/Select';
 import Text from './primitives/Text';
 import Conditional from './primitives/Conditional';
 import './CameraView.css'
@@ -19,6 +21,33 @@ export default class FocuserSettingsView extends React.PureComponent<Props> {
     static lowestFirstHelp = Help.key("Lowest first", "Start the sequence from the lowest step values and grow. This logic also applies to backlash");
     static targetCurrentPosHelp = Help.key("Start from current pos", "Start the sequence from the current focuser position. Usefull to perform a focus check when already close to focus. If not set, a starting position is asked.");
     static targetPosHelp = Help.key("Target pos", "Target focuser position (center of the sequence).");
+    static modelHelp = Help.key("Model", "Curve fitted on the measures. Hyperbola matches the V-curve of a focuser, even far from focus. Parabola suits narrow ranges. Polynomial is a degree 4 fit");
+    static metricHelp = Help.key("Metric", "Measure of the stars: FWHM or HFR (half flux radius). HFR is more robust for defocused stars");
+    static outlierSigmaHelp = Help.key("Outliers", "Measures that are further from the curve than that many sigmas are excluded from the fit. 0 to keep all measures");
+    static minRSquaredHelp = Help.key("Min R²", "Quality of fit required to move the focuser to the best position. Between 0 and 1. The focuser goes back to its starting position on a worse fit");
+
+    static temperatureCompensationHelp = Help.key("Temperature compensation", "Move the focuser between frames to follow the temperature, using the coefficient. Moves are never done during an exposure");
+    static temperatureCoefficientHelp = Help.key("Steps/°C", "Focuser steps per degree. Learned from successful autofocus runs at different temperatures. Can be edited: learning is then turned off");
+    static temperatureLearningHelp = Help.key("Learn coefficient", "Learn the steps per degree again after each successful autofocus");
+    static compensationMinStepsHelp = Help.key("Min move", "Compensation moves are delayed until they reach that number of steps");
+    static temperatureDeviceHelp = Help.key("Temperature device", "Device that gives the temperature (weather station, sensor). Empty for the focuser itself");
+    static temperaturePropertyHelp = Help.key("Temperature property", "Vector and property of the temperature, like FOCUS_TEMPERATURE.TEMPERATURE or WEATHER_PARAMETERS.WEATHER_TEMPERATURE");
+
+    static subframeHelp = Help.key("Subframe", "Take a full frame, pick non-saturated stars, then scan on a subframe around them. Faster on big sensors. The frame of the camera is restored afterwards");
+    static subframeSizeHelp = Help.key("Subframe size", "Width and height of the subframe, in sensor pixels. Leave room for defocused stars");
+
+    static models = {
+        hyperbola: "Hyperbola",
+        parabola: "Parabola",
+        polynomial: "Polynomial",
+    };
+    static metrics = {
+        fwhm: "FWHM",
+        hfr: "HFR",
+    };
+
+    static deviceFromString = (s: string)=>(s.trim() || null);
+    static subframeDisabled = (subframe: boolean)=>!subframe;
 
     constructor(props:Props) {
         super(props);
@@ -48,6 +77,44 @@ export default class FocuserSettingsView extends React.PureComponent<Props> {
                     Target Pos
                 </Int>
             </Conditional>
+            <Select accessor={this.props.accessor.child("model")} options={FocuserSettingsView.models} helpKey={FocuserSettingsView.modelHelp}>
+                Model
+            </Select>
+            <Select accessor={this.props.accessor.child("metric")} options={FocuserSettingsView.metrics} helpKey={FocuserSettingsView.metricHelp}>
+                Metric
+            </Select>
+            <Float accessor={this.props.accessor.child("outlierSigma")} min={0} helpKey={FocuserSettingsView.outlierSigmaHelp}>
+                Outliers (σ)
+            </Float>
+            <Float accessor={this.props.accessor.child("minRSquared")} max={1} helpKey={FocuserSettingsView.minRSquaredHelp}>
+                Min R²
+            </Float>
+            <Bool accessor={this.props.accessor.child("subframe")} helpKey={FocuserSettingsView.subframeHelp}>
+                Subframe
+            </Bool>
+            <Conditional accessor={this.props.accessor.child("subframe")} condition={FocuserSettingsView.subframeDisabled}>
+                <Int accessor={this.props.accessor.child("subframeSize")} min={16} helpKey={FocuserSettingsView.subframeSizeHelp}>
+                    Subframe size
+                </Int>
+            </Conditional>
+            <Bool accessor={this.props.accessor.child("temperatureCompensation")} helpKey={FocuserSettingsView.temperatureCompensationHelp}>
+                Temperature compensation
+            </Bool>
+            <Float accessor={this.props.accessor.child("temperatureCoefficient")} helpKey={FocuserSettingsView.temperatureCoefficientHelp}>
+                Steps/°C
+            </Float>
+            <Bool accessor={this.props.accessor.child("temperatureLearning")} helpKey={FocuserSettingsView.temperatureLearningHelp}>
+                Learn coefficient
+            </Bool>
+            <Int accessor={this.props.accessor.child("compensationMinSteps")} min={0} helpKey={FocuserSettingsView.compensationMinStepsHelp}>
+                Min move
+            </Int>
+            <Text accessor={this.props.accessor.child("temperatureDevice")} fromString={FocuserSettingsView.deviceFromString} helpKey={FocuserSettingsView.temperatureDeviceHelp}>
+                Temperature device
+            </Text>
+            <Text accessor={this.props.accessor.child("temperatureProperty")} helpKey={FocuserSettingsView.temperaturePropertyHelp}>
+                Temperature property
+            </Text>
         </div>;
     }
 }
@@ -20,6 +20,10 @@ import * as BackendRequest from "./BackendRequest";
 import './FocuserView.css';
 import Panel from './Panel';
 import LiveFilterSelector from './LiveFilterSelector';
+import FilterOffsetsView from './FilterOffsetsView';
+import FocuserRelativePositionView from './FocuserRelativePositionView';
+import FocuserCompensationView from './FocuserCompensationView';
+import FocusHistoryView from './FocusHistoryView';
 
 class FocuserBackendAccessor extends BackendAccessor<BackOfficeStatus.FocuserSettings> {
     // public apply = async (jsonDiff:any):Promise<void>=>{
@@ -41,6 +45,7 @@ type FocuserGraphMappedProps = {
     lastStep: BackOfficeStatus.AutoFocusStatus["lastStep"];
     points: BackOfficeStatus.AutoFocusStatus["points"];
     predicted: BackOfficeStatus.AutoFocusStatus["predicted"];
+    model: BackOfficeStatus.AutoFocusStatus["model"];
     currentPosition: number|null;
     currentMoving: boolean;
 }
@@ -52,9 +57,23 @@ class UnmappedFocuserGraph extends React.PureComponent<FocuserGraphProps> {
         var chartData= {
             datasets: [] as Array<any>
         };
+        const metric = this.props.model !== null ? this.props.model.metric : 'fwhm';
+        const rejected = this.props.model !== null ? this.props.model.rejected : [];
+        const kept = {...this.props.points};
+        const outliers: typeof kept = {};
+        for(const pos of rejected) {
+            if (Utils.has(kept, "" + pos)) {
+                outliers[pos] = kept[pos];
+                delete kept[pos];
+            }
+        }
         const propDefs = [
-            {prop: 'fwhm', color:'#ff0000', source: this.props.points},
-            {prop: 'fwhm', color:'#0000ff', source: this.props.predicted, hideEmpty: true, label:'prediction'},
+            {prop: metric, color:'#ff0000', source: kept},
+            {prop: metric, color:'#808080', source: outliers, hideEmpty: true, label:'outliers'},
+            {prop: 'value', color:'#0000ff', source: this.props.predicted, hideEmpty: true,
+                    label: this.props.model !== null
+                        ? this.props.model.type + ' R²=' + this.props.model.rSquared.toFixed(3)
+                        : 'prediction'},
             {prop: 'x', color: '#808080',
                     yAxisID: 'currentPos',
                     backgroundColor: this.props.currentMoving ? 'rgb(250,210,0)' : 'rgb(110,190,1)',
@@ -98,7 +117,7 @@ class UnmappedFocuserGraph extends React.PureComponent<FocuserGraphProps> {
             {
                 const point = points[step];
 
-                if (propDef.prop in point) {
+                if (propDef.prop in point && point[propDef.prop] !== null) {
                     const x = parseFloat(step);
                     const value = point[propDef.prop];
                     if (range) {
@@ -209,22 +228,27 @@ class UnmappedFocuserGraph extends React.PureComponent<FocuserGraphProps> {
     }
 
     static mapStateToProps(store:Store.Content, ownProps: FocuserGraphInputProps) {
-        // Get property for focuser position
-        let currentPositionStr =
-            ownProps.focuser === null
-                ? null
-                : IndiManagerStore.getProperty(store, ownProps.focuser, 'ABS_FOCUS_POSITION', 'FOCUS_ABSOLUTE_POSITION');
-        let currentPosition =
-            currentPositionStr === null
-                ? null
-                : parseInt(currentPositionStr);
+        // Get property for focuser position. Relative focusers have a position tracked by the backend
+        let currentPosition: number|null = null;
+        let positionVector: string|null = null;
+        if (ownProps.focuser !== null) {
+            const currentPositionStr = IndiManagerStore.getProperty(store, ownProps.focuser, 'ABS_FOCUS_POSITION', 'FOCUS_ABSOLUTE_POSITION');
+            if (currentPositionStr !== null) {
+                currentPosition = parseInt(currentPositionStr);
+                positionVector = 'ABS_FOCUS_POSITION';
+            } else if (IndiManagerStore.getVector(store, ownProps.focuser, 'REL_FOCUS_POSITION') !== null) {
+                const tracked = Utils.getOwnProp(store.backend.focuser?.config.relativePositions, ownProps.focuser);
+                currentPosition = tracked !== undefined ? tracked : null;
+                positionVector = 'REL_FOCUS_POSITION';
+            }
+        }
         if (currentPosition !== null && isNaN(currentPosition)) {
             currentPosition = null;
         }
 
         let currentMoving: boolean = false;
         if (currentPosition !== null) {
-            const vec = IndiManagerStore.getVector(store, ownProps.focuser!, 'ABS_FOCUS_POSITION');
+            const vec = IndiManagerStore.getVector(store, ownProps.focuser!, positionVector!);
             currentMoving = vec !== null && vec.$state === "Busy";
         }
 
@@ -233,6 +257,7 @@ class UnmappedFocuserGraph extends React.PureComponent<FocuserGraphProps> {
             lastStep: store.backend.focuser!.current.lastStep,
             points: store.backend.focuser!.current.points,
             predicted: store.backend.focuser!.current.predicted,
+            model: store.backend.focuser!.current.model,
             currentPosition,
             currentMoving,
         };
@@ -252,6 +277,10 @@ type MappedProps = {
 }
 type Props = InputProps & MappedProps;
 
+type State = {
+    showHistory: boolean;
+}
+
 const CameraSelector = connect((store:Store.Content)=> ({
     active: store.backend && store.backend.focuser ? store.backend.focuser.selectedCamera : undefined,
     availables: store.backend && store.backend.camera ? store.backend.camera.availableDevices : []
@@ -269,14 +298,24 @@ const FocuserSelector = connect((store:Store.Content)=> {
 })(PromiseSelector);
 
 
-class UnmappedFocuserView extends React.PureComponent<Props> {
-    static focusBtonHelp = Help.key("Start auto-focus", "Start a sequence of focus image, scanning a range of focuser positions, then use the best one found (best FHWM)");
+class UnmappedFocuserView extends React.PureComponent<Props, State> {
+    static focusBtonHelp = Help.key("Start auto-focus", "Start a sequence of focus image, scanning a range of focuser positions, then move to the minimum of the curve fitted on the star sizes");
     static stopBtonHelp = Help.key("Stop auto-focus", "Abort the current running auto-focus");
     static cameraSelectorHelp = Help.key("Camera", "Select the camera device to use for focusing");
     static focuserSelectorHelp = Help.key("Focuser", "Select the focuser device to use for focusing");
+    static historyBtonHelp = Help.key("Focus history", "Compare the curves of past auto-focus runs, and export them as CSV");
 
     constructor(props: Props) {
         super(props);
+        this.state = {showHistory: false};
+    }
+
+    showHistory = ()=> {
+        this.setState({showHistory: true});
+    }
+
+    closeHistory = ()=> {
+        this.setState({showHistory: false});
     }
 
     start = async ()=>{
@@ -334,10 +373,15 @@ class UnmappedFocuserView extends React.PureComponent<Props> {
     }
 
     render() {
+        if (this.state.showHistory) {
+            return <FocusHistoryView close={this.closeHistory}/>;
+        }
         return (
             <div className="Page">
                 <div className="AstrometryWizardContent">
                     <div className="AstrometryWizardSelectTitle">Focus</div>
+                    <input type="button" value="History" onClick={this.showHistory}
+                        {...UnmappedFocuserView.historyBtonHelp.dom()}/>
                     <ScrollableText className={'FocuserState FocuserState_' + this.props.status}>
                         {this.props.status === 'error' ? this.props.error : this.props.status}
                     </ScrollableText>
@@ -376,11 +420,27 @@ class UnmappedFocuserView extends React.PureComponent<Props> {
                             :
                             null
                         }
+                        {this.props.focuser !== null
+                            ? <FocuserRelativePositionView focuser={this.props.focuser}/>
+                            : null
+                        }
+                        {this.props.focuser !== null
+                            ? <FocuserCompensationView focuser={this.props.focuser}/>
+                            : null
+                        }
                         {this.props.focuser !== null
                             ? <FocuserSettingsView accessor={new FocuserBackendAccessor("$.focuser.config.settings[" + JSON.stringify(this.props.focuser) + "]")}/>
                             : null
                         }
                     </Panel>
+                    {this.props.focuser !== null && this.props.camera !== null
+                        ?
+                        <Panel guid="focuser:filterOffsets">
+                            <span>Filter offsets</span>
+                            <FilterOffsetsView camera={this.props.camera} focuser={this.props.focuser}/>
+                        </Panel>
+                        : null
+                    }
                 </div>
 
                 <div className="AstrometryWizardControls">
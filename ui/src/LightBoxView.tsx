@@ -0,0 +1,169 @@
+import * as React from 'react';
+import CancellationToken from 'cancellationtoken';
+
+import * as BackOfficeStatus from '@bo/BackOfficeStatus';
+import * as BackendRequest from "./BackendRequest";
+import * as Help from './Help';
+import * as Store from './Store';
+import * as Utils from './Utils';
+import PromiseSelector from './PromiseSelector';
+import TextEdit from './TextEdit';
+import './CameraView.css';
+
+type InputProps = {};
+
+type MappedProps = {
+    camera: string|null;
+    availableLightBoxes: string[];
+    availableDustCaps: string[];
+    lightBox: string|null;
+    dustCap: string|null;
+    lightBoxStatus?: BackOfficeStatus.LightBoxDynState;
+    dustCapStatus?: BackOfficeStatus.DustCapDynState;
+}
+
+type Props = InputProps & MappedProps;
+
+class LightBoxView extends React.PureComponent<Props> {
+    static lightBoxHelp = Help.key("Light box", "Flat panel of this camera. Sequences turn it on for flats and off for other frames");
+    static dustCapHelp = Help.key("Dust cap", "Dust cap of this camera. Sequences close it for darks and flats. Without dust cap, sequences ask to cover the scope");
+    static lightOnHelp = Help.key("Light on", "Turn the flat panel on");
+    static lightOffHelp = Help.key("Light off", "Turn the flat panel off");
+    static brightnessHelp = Help.key("Brightness", "Brightness of the flat panel");
+    static openHelp = Help.key("Open", "Open (unpark) the dust cap");
+    static closeHelp = Help.key("Close", "Close (park) the dust cap");
+
+    private setLightBox = async(id: string|null)=>{
+        await BackendRequest.RootInvoker("lightBox")("setLightBox")(CancellationToken.CONTINUE, {
+            cameraDeviceId: this.props.camera!,
+            lightBoxDeviceId: id,
+        });
+    }
+
+    private setDustCap = async(id: string|null)=>{
+        await BackendRequest.RootInvoker("lightBox")("setDustCap")(CancellationToken.CONTINUE, {
+            cameraDeviceId: this.props.camera!,
+            dustCapDeviceId: id,
+        });
+    }
+
+    private switchLight = async(on: boolean)=>{
+        await BackendRequest.RootInvoker("lightBox")("switchLight")(CancellationToken.CONTINUE, {
+            lightBoxDeviceId: this.props.lightBox!,
+            on,
+        });
+    }
+
+    private setBrightness = async(str: string)=>{
+        const brightness = parseFloat(str);
+        if (isNaN(brightness)) {
+            throw new Error("Invalid brightness: " + str);
+        }
+        await BackendRequest.RootInvoker("lightBox")("setBrightness")(CancellationToken.CONTINUE, {
+            lightBoxDeviceId: this.props.lightBox!,
+            brightness,
+        });
+    }
+
+    private moveDustCap = async(closed: boolean)=>{
+        await BackendRequest.RootInvoker("lightBox")("moveDustCap")(CancellationToken.CONTINUE, {
+            dustCapDeviceId: this.props.dustCap!,
+            closed,
+        });
+    }
+
+    private renderLightBox() {
+        const status = this.props.lightBoxStatus;
+        if (this.props.lightBox === null || status === undefined) {
+            return null;
+        }
+        return <>
+            {status.lightOn === null ? "" : status.lightOn ? " on" : " off"}
+            <input type="button" value="On" onClick={()=>this.switchLight(true)} {...LightBoxView.lightOnHelp.dom()}/>
+            <input type="button" value="Off" onClick={()=>this.switchLight(false)} {...LightBoxView.lightOffHelp.dom()}/>
+            {status.brightness !== null
+                ? <>
+                    Brightness:
+                    <TextEdit value={"" + status.brightness}
+                            helpKey={LightBoxView.brightnessHelp}
+                            onChange={this.setBrightness}/>
+                    {status.brightnessMax !== null ? "/" + status.brightnessMax : null}
+                </>
+                : null
+            }
+        </>;
+    }
+
+    private renderDustCap() {
+        const status = this.props.dustCapStatus;
+        if (this.props.dustCap === null || status === undefined) {
+            return null;
+        }
+        return <>
+            {status.busy ? " moving" : status.closed === null ? "" : status.closed ? " closed" : " open"}
+            <input type="button" value="Open" onClick={()=>this.moveDustCap(false)} {...LightBoxView.openHelp.dom()}/>
+            <input type="button" value="Close" onClick={()=>this.moveDustCap(true)} {...LightBoxView.closeHelp.dom()}/>
+        </>;
+    }
+
+    render() {
+        if (this.props.camera === null
+                || (!this.props.availableLightBoxes.length && !this.props.availableDustCaps.length
+                    && this.props.lightBox === null && this.props.dustCap === null)) {
+            return null;
+        }
+        return <div>
+            <div>
+                Light box:
+                <PromiseSelector<string>
+                        active={this.props.lightBox}
+                        availablesGenerator={()=>this.props.availableLightBoxes}
+                        nullAlwaysPossible={true}
+                        placeholder="None"
+                        getId={(e)=>e}
+                        getTitle={(e)=>e}
+                        helpKey={LightBoxView.lightBoxHelp}
+                        setValue={this.setLightBox}/>
+                {this.renderLightBox()}
+            </div>
+            <div>
+                Dust cap:
+                <PromiseSelector<string>
+                        active={this.props.dustCap}
+                        availablesGenerator={()=>this.props.availableDustCaps}
+                        nullAlwaysPossible={true}
+                        placeholder="None"
+                        getId={(e)=>e}
+                        getTitle={(e)=>e}
+                        helpKey={LightBoxView.dustCapHelp}
+                        setValue={this.setDustCap}/>
+                {this.renderDustCap()}
+            </div>
+        </div>;
+    }
+
+    static mapStateToProps(store: Store.Content):MappedProps {
+        const camera = store.backend.camera?.selectedDevice;
+        const lightBoxStatus = store.backend.lightBox;
+        const base = {
+            availableLightBoxes: lightBoxStatus?.availableLightBoxes || [],
+            availableDustCaps: lightBoxStatus?.availableDustCaps || [],
+        };
+        if (camera === undefined || camera === null) {
+            return {...base, camera: null, lightBox: null, dustCap: null};
+        }
+        const dynState = Utils.getOwnProp(store.backend.camera?.dynStateByDevices, camera);
+        const lightBox = dynState?.lightBoxDevice || null;
+        const dustCap = dynState?.dustCapDevice || null;
+        return {
+            ...base,
+            camera,
+            lightBox,
+            dustCap,
+            lightBoxStatus: lightBox !== null ? Utils.getOwnProp(lightBoxStatus?.lightBoxes, lightBox) : undefined,
+            dustCapStatus: dustCap !== null ? Utils.getOwnProp(lightBoxStatus?.dustCaps, dustCap) : undefined,
+        };
+    }
+}
+
+export default Store.Connect<LightBoxView, InputProps, {}, MappedProps>(LightBoxView);
@@ -0,0 +1,85 @@
+import * as React from 'react';
+
+import { SequenceAutoFlat } from '@bo/BackOfficeStatus';
+import TextEdit from '../TextEdit';
+import * as Help from '../Help';
+import "./DitheringSettingEdit.css";
+
+type Updater<T extends keyof SequenceAutoFlat> = {field: T, value: SequenceAutoFlat[T]}
+
+type Props = {
+    settings: SequenceAutoFlat;
+    update: (e:Updater<any>)=>(void);
+}
+
+function parsePositive(e: string, parser: (s: string)=>number): number {
+    const v = parser(e);
+    if (isNaN(v) || v <= 0) {
+        throw new Error("Invalid value: " + e);
+    }
+    return v;
+}
+
+export default class AutoFlatEdit extends React.PureComponent<Props, {}> {
+    static readonly defaults: SequenceAutoFlat = {
+        targetAdu: 30000,
+        tolerance: 3000,
+        minExposure: 0.01,
+        maxExposure: 30,
+        maxIterations: 8,
+    };
+
+    static targetAduHelp = Help.key("Target ADU", "Wanted median level of the flats (16 bits scale, 0 to 65535)");
+    static toleranceHelp = Help.key("Tolerance", "Accepted distance (ADU) between the median level and the target");
+    static minExposureHelp = Help.key("Min exposure", "Shortest exposure allowed (seconds)");
+    static maxExposureHelp = Help.key("Max exposure", "Longest exposure allowed (seconds)");
+    static maxIterationsHelp = Help.key("Max test frames", "Give up after that number of test frames for one filter and binning");
+
+    constructor(props:Props) {
+        super(props);
+    }
+
+    render() {
+        return <div className="DitheringSettingBlock">
+            <div className="DitheringSettingExplain">
+                Test frames adjust the exposure until the median level is within the tolerance of the target.
+                The exposure found is remembered for each filter and binning.
+            </div>
+            <div className="DitheringSettingParam">
+                Target ADU:
+                <TextEdit
+                        value={"" + this.props.settings.targetAdu}
+                        helpKey={AutoFlatEdit.targetAduHelp}
+                        onChange={(e:string)=> this.props.update({field: 'targetAdu', value: parsePositive(e, parseFloat)})}/>
+            </div>
+            <div className="DitheringSettingParam">
+                Tolerance (ADU):
+                <TextEdit
+                        value={"" + this.props.settings.tolerance}
+                        helpKey={AutoFlatEdit.toleranceHelp}
+                        onChange={(e:string)=> this.props.update({field: 'tolerance', value: parsePositive(e, parseFloat)})}/>
+            </div>
+            <div className="DitheringSettingParam">
+                Min exposure (s):
+                <TextEdit
+                        value={"" + this.props.settings.minExposure}
+                        helpKey={AutoFlatEdit.minExposureHelp}
+                        onChange={(e:string)=> this.props.update({field: 'minExposure', value: parsePositive(e, parseFloat)})}/>
+            </div>
+            <div className="DitheringSettingParam">
+                Max exposure (s):
+                <TextEdit
+                        value={"" + this.props.settings.maxExposure}
+                        helpKey={AutoFlatEdit.maxExposureHelp}
+                        onChange={(e:string)=> this.props.update({field: 'maxExposure', value: parsePositive(e, parseFloat)})}/>
+            </div>
+            <div className="DitheringSettingParam">
+                Max test frames:
+                <TextEdit
+                        value={"" + this.props.settings.maxIterations}
+                        helpKey={AutoFlatEdit.maxIterationsHelp}
+                        onChange={(e:string)=> this.props.update({field: 'maxIterations', value: parsePositive(e, parseInt)})}/>
+            </div>
+        </div>;
+    }
+}
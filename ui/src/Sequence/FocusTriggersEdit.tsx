@@ -0,0 +1,74 @@
+import * as React from 'react';
+
+import { SequenceFocusTriggers } from '@bo/BackOfficeStatus';
+import TextEdit from '../TextEdit';
+import * as Help from '../Help';
+import "./DitheringSettingEdit.css";
+
+type Updater<T extends keyof SequenceFocusTriggers> = {field: T, value: SequenceFocusTriggers[T]}
+
+type Props = {
+    settings: SequenceFocusTriggers;
+    update: (e:Updater<any>)=>(void);
+}
+
+function parseOptional(e: string, parser: (s: string)=>number): number|null {
+    if (e.trim() === "") {
+        return null;
+    }
+    const v = parser(e);
+    if (isNaN(v) || v <= 0) {
+        throw new Error("Invalid value: " + e);
+    }
+    return v;
+}
+
+function formatOptional(v: number|null): string {
+    return v === null ? "" : "" + v;
+}
+
+export default class FocusTriggersEdit extends React.PureComponent<Props, {}> {
+    static everyFramesHelp = Help.key("Every N frames", "Run an autofocus after that number of frames. Leave empty to disable.");
+    static afterFilterChangeHelp = Help.key("After filter change", "Run an autofocus each time the sequence changes the filter.");
+    static temperatureDeltaHelp = Help.key("Temperature drift", "Run an autofocus when the temperature of the focuser moved by that amount (°C) since the last autofocus. Leave empty to disable.");
+    static fwhmDegradationHelp = Help.key("FWHM degradation", "Run an autofocus when the FWHM gets worse than the first frame after the last autofocus by that percentage. Leave empty to disable.");
+
+    constructor(props:Props) {
+        super(props);
+    }
+
+    render() {
+        return <div className="DitheringSettingBlock">
+            <div className="DitheringSettingExplain">
+                The sequence pauses to run an autofocus with its camera when one of these conditions is met.
+            </div>
+            <div className="DitheringSettingParam">
+                Every N frames:
+                <TextEdit
+                        value={formatOptional(this.props.settings.everyFrames)}
+                        helpKey={FocusTriggersEdit.everyFramesHelp}
+                        onChange={(e:string)=> this.props.update({field: 'everyFrames', value: parseOptional(e, parseInt)})}/>
+            </div>
+            <div className="DitheringSettingParam">
+                After filter change: <input type="checkbox"
+                        checked={!!this.props.settings.afterFilterChange}
+                        {...FocusTriggersEdit.afterFilterChangeHelp.dom()}
+                        onChange={(e)=>this.props.update({field: 'afterFilterChange', value: !!e.target.checked})}/>
+            </div>
+            <div className="DitheringSettingParam">
+                Temperature drift (°C):
+                <TextEdit
+                        value={formatOptional(this.props.settings.temperatureDelta)}
+                        helpKey={FocusTriggersEdit.temperatureDeltaHelp}
+                        onChange={(e:string)=> this.props.update({field: 'temperatureDelta', value: parseOptional(e, parseFloat)})}/>
+            </div>
+            <div className="DitheringSettingParam">
+                FWHM degradation (%):
+                <TextEdit
+                        value={formatOptional(this.props.settings.fwhmDegradation)}
+                        helpKey={FocusTriggersEdit.fwhmDegradationHelp}
+                        onChange={(e:string)=> this.props.update({field: 'fwhmDegradation', value: parseOptional(e, parseFloat)})}/>
+            </div>
+        </div>
+    }
+}
@@ -0,0 +1,93 @@
+import * as React from 'react';
+import CancellationToken from 'cancellationtoken';
+
+import * as BackOfficeStatus from '@bo/BackOfficeStatus';
+import * as Help from '../Help';
+import * as Store from '../Store';
+import * as BackendRequest from "../BackendRequest";
+import BackendAccessor from '../utils/BackendAccessor';
+import Bool from '../primitives/Bool';
+import Int from '../primitives/Int';
+import Float from '../primitives/Float';
+import Panel from '../Panel';
+
+class MeridianFlipBackendAccessor extends BackendAccessor<BackOfficeStatus.MeridianFlipSettings> {
+    public apply = async (jsonDiff:any):Promise<void>=>{
+        await BackendRequest.RootInvoker("meridianFlip")("updateCurrentSettings")(
+            CancellationToken.CONTINUE,
+            {diff: jsonDiff}
+        );
+    }
+}
+
+type InputProps = {};
+
+type MappedProps = {
+    status?: BackOfficeStatus.MeridianFlipStatus["status"];
+    error?: string|null;
+    pierSide?: BackOfficeStatus.MeridianFlipStatus["pierSide"];
+    hourAngle?: number|null;
+}
+
+type Props = InputProps & MappedProps;
+
+class MeridianFlipView extends React.PureComponent<Props> {
+    static enabledHelp = Help.key("Meridian flip", "Let running sequences flip the mount used for astrometry when the target crosses the meridian. Guiding is stopped during the flip and restarted after.");
+    static offsetHelp = Help.key("Offset", "Minutes past the meridian before flipping. No frame is started if it would end past that limit.");
+    static recenterHelp = Help.key("Recenter", "After the flip, plate solve a frame, sync the mount and go back to the previous position");
+    static recenterExposureHelp = Help.key("Recenter exposure", "Exposure (seconds) of the frame used to recenter after the flip");
+    static guideTimeoutHelp = Help.key("Guide timeout", "Maximum time (seconds) for PHD to settle after the flip");
+
+    private readonly accessor = new MeridianFlipBackendAccessor("$.meridianFlip.configuration");
+
+    private static formatHourAngle(ha: number) {
+        const minutes = Math.round(ha * 60);
+        return (minutes < 0 ? "-" : "+") + Math.floor(Math.abs(minutes) / 60) + "h" + ("" + (Math.abs(minutes) % 60)).padStart(2, "0");
+    }
+
+    render() {
+        if (this.props.status === undefined) {
+            return null;
+        }
+        return <Panel guid="sequence:meridianFlip">
+            <span>
+                Meridian flip: {this.props.status === "error" ? this.props.error : this.props.status}
+                {this.props.hourAngle !== null && this.props.hourAngle !== undefined
+                    ? " (HA " + MeridianFlipView.formatHourAngle(this.props.hourAngle)
+                        + (this.props.pierSide ? ", pier " + this.props.pierSide : "") + ")"
+                    : null
+                }
+            </span>
+            <div>
+                <Bool accessor={this.accessor.child('enabled')} helpKey={MeridianFlipView.enabledHelp}>Enabled</Bool>
+            </div>
+            <div>
+                Offset (min): <Int accessor={this.accessor.child('offset')} min={0} helpKey={MeridianFlipView.offsetHelp}/>
+            </div>
+            <div>
+                <Bool accessor={this.accessor.child('recenter')} helpKey={MeridianFlipView.recenterHelp}>Recenter</Bool>
+            </div>
+            <div>
+                Recenter exposure (s): <Float accessor={this.accessor.child('recenterExposure')} min={0} helpKey={MeridianFlipView.recenterExposureHelp}/>
+            </div>
+            <div>
+                Guide timeout (s): <Int accessor={this.accessor.child('guideTimeout')} min={0} helpKey={MeridianFlipView.guideTimeoutHelp}/>
+            </div>
+        </Panel>;
+    }
+
+    static mapStateToProps(store: Store.Content):MappedProps {
+        const status = store.backend.meridianFlip;
+        if (status === undefined) {
+            return {};
+        }
+        return {
+            status: status.status,
+            error: status.error,
+            pierSide: status.pierSide,
+            hourAngle: status.hourAngle,
+        };
+    }
+}
+
+export default Store.Connect<MeridianFlipView, InputProps, {}, MappedProps>(MeridianFlipView);
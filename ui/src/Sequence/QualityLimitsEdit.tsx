@@ -0,0 +1,101 @@
+import * as React from 'react';
+
+import { SequenceQualityLimits } from '@bo/BackOfficeStatus';
+import TextEdit from '../TextEdit';
+import * as Help from '../Help';
+import "./DitheringSettingEdit.css";
+
+type Updater<T extends keyof SequenceQualityLimits> = {field: T, value: SequenceQualityLimits[T]}
+
+type Props = {
+    settings: SequenceQualityLimits;
+    update: (e:Updater<any>)=>(void);
+}
+
+function parseOptional(e: string, parser: (s: string)=>number, max?: number): number|null {
+    if (e.trim() === "") {
+        return null;
+    }
+    const v = parser(e);
+    if (isNaN(v) || v <= 0 || (max !== undefined && v > max)) {
+        throw new Error("Invalid value: " + e);
+    }
+    return v;
+}
+
+// Used by the backend when the limits don't tell
+const defaultMaxRetakes = 5;
+
+function parseRetakes(e: string): number {
+    const v = parseInt(e);
+    if (isNaN(v) || v < 0) {
+        throw new Error("Invalid value: " + e);
+    }
+    return v;
+}
+
+function formatOptional(v: number|null): string {
+    return v === null ? "" : "" + v;
+}
+
+export default class QualityLimitsEdit extends React.PureComponent<Props, {}> {
+    static maxFwhmHelp = Help.key("Max FWHM", "Reject light frames with a FWHM above that value (pixels). Leave empty to disable.");
+    static minStarCountHelp = Help.key("Min star count", "Reject light frames with less stars than that. Leave empty to disable.");
+    static maxGuideRmsHelp = Help.key("Max guiding RMS", "Reject light frames when the guiding RMS error during the exposure is above that value (arcsec). Requires the pixel scale from PHD2. Leave empty to disable.");
+    static maxBackgroundHelp = Help.key("Max background", "Reject light frames with a background level above that value (0 to 1). Leave empty to disable.");
+    static moveRejectedHelp = Help.key("Move rejected frames", "Move the rejected frames to a \"rejected\" subfolder");
+    static maxRetakesHelp = Help.key("Max retakes", "Pause the sequence with an error when the frames of a step are rejected more than that many times in a row");
+
+    constructor(props:Props) {
+        super(props);
+    }
+
+    render() {
+        return <div className="DitheringSettingBlock">
+            <div className="DitheringSettingExplain">
+                Light frames beyond these limits are rejected and taken again.
+            </div>
+            <div className="DitheringSettingParam">
+                Max FWHM:
+                <TextEdit
+                        value={formatOptional(this.props.settings.maxFwhm)}
+                        helpKey={QualityLimitsEdit.maxFwhmHelp}
+                        onChange={(e:string)=> this.props.update({field: 'maxFwhm', value: parseOptional(e, parseFloat)})}/>
+            </div>
+            <div className="DitheringSettingParam">
+                Min star count:
+                <TextEdit
+                        value={formatOptional(this.props.settings.minStarCount)}
+                        helpKey={QualityLimitsEdit.minStarCountHelp}
+                        onChange={(e:string)=> this.props.update({field: 'minStarCount', value: parseOptional(e, parseInt)})}/>
+            </div>
+            <div className="DitheringSettingParam">
+                Max guiding RMS ("):
+                <TextEdit
+                        value={formatOptional(this.props.settings.maxGuideRms)}
+                        helpKey={QualityLimitsEdit.maxGuideRmsHelp}
+                        onChange={(e:string)=> this.props.update({field: 'maxGuideRms', value: parseOptional(e, parseFloat)})}/>
+            </div>
+            <div className="DitheringSettingParam">
+                Max background:
+                <TextEdit
+                        value={formatOptional(this.props.settings.maxBackground)}
+                        helpKey={QualityLimitsEdit.maxBackgroundHelp}
+                        onChange={(e:string)=> this.props.update({field: 'maxBackground', value: parseOptional(e, parseFloat, 1)})}/>
+            </div>
+            <div className="DitheringSettingParam">
+                Move rejected frames: <input type="checkbox"
+                        checked={!!this.props.settings.moveRejected}
+                        {...QualityLimitsEdit.moveRejectedHelp.dom()}
+                        onChange={(e)=>this.props.update({field: 'moveRejected', value: !!e.target.checked})}/>
+            </div>
+            <div className="DitheringSettingParam">
+                Max retakes:
+                <TextEdit
+                        value={"" + (this.props.settings.maxRetakes !== undefined ? this.props.settings.maxRetakes : defaultMaxRetakes)}
+                        helpKey={QualityLimitsEdit.maxRetakesHelp}
+                        onChange={(e:string)=> this.props.update({field: 'maxRetakes', value: parseRetakes(e)})}/>
+            </div>
+        </div>
+    }
+}
@@ -0,0 +1,163 @@
+import * as React from 'react';
+import CancellationToken from 'cancellationtoken';
+
+import * as BackOfficeStatus from '@bo/BackOfficeStatus';
+import * as Help from '../Help';
+import * as Store from '../Store';
+import * as Utils from '../Utils';
+import * as BackendRequest from "../BackendRequest";
+import TextEdit from '../TextEdit';
+import Panel from '../Panel';
+
+type InputProps = {};
+
+type MappedProps = {
+    scheduler?: BackOfficeStatus.SchedulerStatus;
+    sequences?: BackOfficeStatus.SequenceStatus["sequences"]["byuuid"];
+    currentSequence?: string;
+}
+
+type Props = InputProps & MappedProps;
+
+function formatTime(t: number) {
+    return new Date(t).toTimeString().substring(0, 5);
+}
+
+class SchedulerView extends React.PureComponent<Props> {
+    static startHelp = Help.key("Start scheduler", "Run the queued sequences for the night. The runnable sequence with the highest priority is started, and paused when its window ends. Then the next one is started.");
+    static stopHelp = Help.key("Stop scheduler", "Stop the scheduler. The running sequence is paused.");
+    static addHelp = Help.key("Add to queue", "Add the current sequence at the end of the queue");
+    static priorityHelp = Help.key("Priority", "Among runnable sequences, the highest priority starts first. Queue order breaks ties.");
+    static startTimeHelp = Help.key("Window start", "Local time (HH:MM) before which the sequence does not run. Empty for no limit.");
+    static endTimeHelp = Help.key("Window end", "Local time (HH:MM) at which the sequence is paused. Empty for no limit.");
+    static minAltitudeHelp = Help.key("Minimum altitude", "Minimum altitude (degrees) of the sequence target. Empty for no limit.");
+    static upHelp = Help.key("Move up", "Move up in the queue");
+    static removeHelp = Help.key("Remove", "Remove from the queue. The sequence itself is kept.");
+
+    private title(sequenceUid: string) {
+        const sequence = Utils.getOwnProp(this.props.sequences, sequenceUid);
+        return sequence ? sequence.title : "(removed)";
+    }
+
+    private start = async()=> {
+        await BackendRequest.RootInvoker("scheduler")("startScheduler")(CancellationToken.CONTINUE, {});
+    }
+
+    private stop = async()=> {
+        await BackendRequest.RootInvoker("scheduler")("stopScheduler")(CancellationToken.CONTINUE, {});
+    }
+
+    private add = async()=> {
+        if (this.props.currentSequence === undefined) {
+            return;
+        }
+        await BackendRequest.RootInvoker("scheduler")("addSchedulerEntry")(CancellationToken.CONTINUE, {
+            sequenceUid: this.props.currentSequence,
+        });
+    }
+
+    private remove = async(entryUid: string)=> {
+        await BackendRequest.RootInvoker("scheduler")("removeSchedulerEntry")(CancellationToken.CONTINUE, {entryUid});
+    }
+
+    private moveUp = async(entryUid: string, position: number)=> {
+        await BackendRequest.RootInvoker("scheduler")("moveSchedulerEntry")(CancellationToken.CONTINUE, {entryUid, position: position - 1});
+    }
+
+    private updatePriority = async(entryUid: string, str: string)=> {
+        const priority = parseFloat(str);
+        if (isNaN(priority)) {
+            throw new Error("Invalid priority: " + str);
+        }
+        await BackendRequest.RootInvoker("scheduler")("updateSchedulerEntry")(CancellationToken.CONTINUE, {entryUid, priority});
+    }
+
+    private updateWindow = async(entryUid: string, field: keyof BackOfficeStatus.SchedulerWindow, str: string)=> {
+        let value: string|number|null = null;
+        if (str.trim() !== "") {
+            if (field === "minAltitude") {
+                value = parseFloat(str);
+                if (isNaN(value)) {
+                    throw new Error("Invalid altitude: " + str);
+                }
+            } else {
+                value = str.trim();
+            }
+        }
+        await BackendRequest.RootInvoker("scheduler")("updateSchedulerEntry")(CancellationToken.CONTINUE, {
+            entryUid,
+            window: {[field]: value},
+        });
+    }
+
+    render() {
+        const scheduler = this.props.scheduler;
+        if (scheduler === undefined) {
+            return null;
+        }
+        const running = scheduler.status === "running" || scheduler.status === "waiting";
+        return <Panel guid="sequence:scheduler">
+            <span>
+                Scheduler: {scheduler.status}
+                {scheduler.current !== null && Utils.has(scheduler.queue.byuuid, scheduler.current)
+                    ? " (" + this.title(scheduler.queue.byuuid[scheduler.current].sequenceUid) + ")"
+                    : null
+                }
+                {scheduler.message !== null ? " - " + scheduler.message : null}
+            </span>
+            <div>
+                {running
+                    ? <input type="button" value="Stop" onClick={this.stop} {...SchedulerView.stopHelp.dom()}/>
+                    : <input type="button" value="Start" onClick={this.start} disabled={!scheduler.queue.list.length} {...SchedulerView.startHelp.dom()}/>
+                }
+                <input type="button" value="Add current sequence" onClick={this.add}
+                        disabled={this.props.currentSequence === undefined} {...SchedulerView.addHelp.dom()}/>
+            </div>
+            {scheduler.queue.list.map((uid, position)=> {
+                const entry = scheduler.queue.byuuid[uid];
+                return <div key={uid}>
+                    {position + 1}. {this.title(entry.sequenceUid)}
+                    <div>
+                        Priority:
+                        <TextEdit value={"" + entry.priority} helpKey={SchedulerView.priorityHelp}
+                                onChange={(e: string)=>this.updatePriority(uid, e)}/>
+                        From:
+                        <TextEdit value={entry.window.start || ""} helpKey={SchedulerView.startTimeHelp}
+                                onChange={(e: string)=>this.updateWindow(uid, "start", e)}/>
+                        To:
+                        <TextEdit value={entry.window.end || ""} helpKey={SchedulerView.endTimeHelp}
+                                onChange={(e: string)=>this.updateWindow(uid, "end", e)}/>
+                        Min alt (°):
+                        <TextEdit value={entry.window.minAltitude === null ? "" : "" + entry.window.minAltitude} helpKey={SchedulerView.minAltitudeHelp}
+                                onChange={(e: string)=>this.updateWindow(uid, "minAltitude", e)}/>
+                        <input type="button" value="↑" disabled={position === 0}
+                                onClick={()=>this.moveUp(uid, position)} {...SchedulerView.upHelp.dom()}/>
+                        <input type="button" value="Remove" disabled={scheduler.current === uid}
+                                onClick={()=>this.remove(uid)} {...SchedulerView.removeHelp.dom()}/>
+                    </div>
+                </div>;
+            })}
+            {scheduler.planTime !== null
+                ? <div>
+                    Plan at {formatTime(scheduler.planTime)}:
+                    {scheduler.plan.length
+                        ? scheduler.plan.map((item, i)=>
+                            <div key={i}>{formatTime(item.start)} - {formatTime(item.end)} {this.title(item.sequenceUid)}</div>)
+                        : <i> nothing can run</i>
+                    }
+                </div>
+                : null
+            }
+        </Panel>;
+    }
+
+    static mapStateToProps(store: Store.Content):MappedProps {
+        return {
+            scheduler: store.backend.scheduler,
+            sequences: store.backend.sequence?.sequences.byuuid,
+            currentSequence: store.sequence.currentSequence,
+        };
+    }
+}
+
+export default Store.Connect<SchedulerView, InputProps, {}, MappedProps>(SchedulerView);
@@ -0,0 +1,118 @@
+import * as React from 'react';
+import CancellationToken from 'cancellationtoken';
+
+import { CalibrationMissing } from '@bo/BackOfficeStatus';
+import * as Help from '../Help';
+import * as Actions from '../Actions';
+import * as BackendRequest from '../BackendRequest';
+import * as SequenceStore from '../SequenceStore';
+import Modal from '../Modal';
+import "./SequenceImportExport.css";
+
+type Props = {
+    sequenceUid: string;
+}
+
+type State = {
+    missing: CalibrationMissing[]|null;
+    error: string|null;
+}
+
+const typeTitles = {
+    FRAME_DARK: "Dark",
+    FRAME_BIAS: "Bias",
+    FRAME_FLAT: "Flat",
+};
+
+function describe(m: CalibrationMissing) {
+    let ret = typeTitles[m.type];
+    if (m.exposure !== null) {
+        ret += " " + m.exposure + "s";
+    }
+    if (m.filter !== null) {
+        ret += " " + m.filter;
+    }
+    ret += " bin" + m.bin;
+    if (m.gain !== null) {
+        ret += " gain " + m.gain;
+    }
+    if (m.offset !== null) {
+        ret += " offset " + m.offset;
+    }
+    if (m.iso !== null) {
+        ret += " iso " + m.iso;
+    }
+    if (m.temperature !== null) {
+        ret += " at " + m.temperature + "°C";
+    }
+    return ret + ": " + m.missing + " missing (" + m.available + " available)";
+}
+
+export default class SequenceCalibration extends React.PureComponent<Props, State> {
+    static checkHelp = Help.key("Calibration", "List the darks, bias and flats that the calibration library lacks for the lights of this sequence");
+    static createHelp = Help.key("Create calibration sequence", "Create a sequence that takes the missing calibration frames");
+    static closeHelp = Help.key("Close", "Close the missing calibration frames");
+
+    private readonly modal = React.createRef<Modal>();
+
+    constructor(props: Props) {
+        super(props);
+        this.state = {
+            missing: null,
+            error: null,
+        };
+    }
+
+    private check = async()=> {
+        this.setState({missing: null, error: null});
+        try {
+            const missing = await BackendRequest.RootInvoker("calibrationLibrary")("getMissingCalibration")(
+                CancellationToken.CONTINUE,
+                {
+                    sequenceUid: this.props.sequenceUid,
+                });
+            this.setState({missing});
+        } catch(e) {
+            this.setState({error: "" + e});
+        }
+        this.modal.current?.open();
+    }
+
+    private create = async()=> {
+        let sequence: string;
+        try {
+            sequence = await BackendRequest.RootInvoker("calibrationLibrary")("createCalibrationSequence")(
+                CancellationToken.CONTINUE,
+                {
+                    sequenceUid: this.props.sequenceUid,
+                });
+        } catch(e) {
+            this.setState({error: "" + e});
+            return;
+        }
+        this.modal.current?.close();
+        Actions.dispatch<SequenceStore.SequenceActions>()("setCurrentSequence", {sequence});
+    }
+
+    render() {
+        return <>
+            <input type="button" value="Calibration..." onClick={this.check} {...SequenceCalibration.checkHelp.dom()}/>
+            <Modal ref={this.modal} closeHelpKey={SequenceCalibration.closeHelp}
+                    onClose={()=>this.setState({missing: null, error: null})}>
+                {this.state.error !== null
+                    ? <div className="SequenceImportError">{this.state.error}</div>
+                    : null
+                }
+                {this.state.missing !== null
+                    ? this.state.missing.length
+                        ? <>
+                            <div className="SequenceExportContent">{this.state.missing.map(describe).join("\n")}</div>
+                            <input type="button" value="Create calibration sequence" onClick={this.create} {...SequenceCalibration.createHelp.dom()}/>
+                        </>
+                        : <div>No calibration frame missing</div>
+                    : null
+                }
+            </Modal>
+        </>;
+    }
+}
@@ -19,6 +19,7 @@ type InputProps = {
 type MappedProps = {
     uuid?: string;
     current?: BackOfficeStatus.Sequence;
+    autoResume?: boolean;
 }
 
 type Props = InputProps & MappedProps;
@@ -33,6 +34,7 @@ export class SequenceControler extends React.PureComponent<Props, State> {
     private static editBtonHelp = Help.key("edit", "Edit the definition of the sequence. Most parameter can be adjusted while sequence is running. They'll be applied after the end of the current exposure.");
     private static resetBtonHelp = Help.key("reset", "Reset the current sequence. It will restart from the begining, whatever process has already been made.");
     private static dropBtonHelp = Help.key("drop", "Remove the sequence from the list. The image files are not dropped.");
+    private static autoResumeHelp = Help.key("Auto resume", "Restart the sequences interrupted by a backend restart as soon as their camera and filter wheel are connected.");
 
     constructor(props:Props) {
         super(props);
@@ -72,6 +74,16 @@ export class SequenceControler extends React.PureComponent<Props, State> {
             });
     }
 
+    private setAutoResume = async(autoResume: boolean)=>{
+        await BackendRequest.RootInvoker("sequence")("updateCurrentSettings")(
+            CancellationToken.CONTINUE,
+            {
+                diff: {
+                    update: {autoResume}
+                }
+            });
+    }
+
     private openEditDialog = ()=>{
         this.props.editSequence(this.props.uuid!);
     }
@@ -109,7 +121,13 @@ export class SequenceControler extends React.PureComponent<Props, State> {
                 : (
                     this.props.current.status == 'error'
                     ? '' + this.props.current.errorMessage
+                    : this.props.current.status == 'paused' && this.props.current.interruption
+                    ? 'paused (interrupted)'
                     :  this.props.current.status);
+        const interruption = this.props.current?.interruption;
+        const focusRuns = this.props.current?.focusRuns;
+        const lastFocusRun = focusRuns && focusRuns.length ? focusRuns[focusRuns.length - 1] : undefined;
+
         return(<div>
             <div className='messageContainer'>
                     <div className='messageTitle' key="title">Status:</div>
@@ -120,6 +138,26 @@ export class SequenceControler extends React.PureComponent<Props, State> {
                         {this.props.current && this.props.current.progress ? <i>{this.props.current.progress}</i> : null}
                     </div>
             </div>
+            {interruption
+                ? <div className='messageContainer'>
+                    <div className='messageTitle' key="title">Interrupted:</div>
+                    <div className='messageContent' key="status">
+                        {new Date(interruption.time).toLocaleString()}, resumes at {interruption.resumePoint}
+                        {interruption.details.map((d, i)=><div key={i}>{d}</div>)}
+                    </div>
+                </div>
+                : null
+            }
+            {lastFocusRun
+                ? <div className='messageContainer'>
+                    <div className='messageTitle' key="title">Last focus:</div>
+                    <div className='messageContent' key="status">
+                        {new Date(lastFocusRun.time).toLocaleTimeString()} ({lastFocusRun.trigger}):&nbsp;
+                        {lastFocusRun.status === "done" ? "position " + lastFocusRun.position : lastFocusRun.error}
+                    </div>
+                </div>
+                : null
+            }
             <input
                 {...SequenceControler.startBtonHelp.dom()}
                 type='button'
@@ -139,18 +177,26 @@ export class SequenceControler extends React.PureComponent<Props, State> {
             <input {...SequenceControler.editBtonHelp.dom()} type='button' disabled={!clickable.edit} value='edit' onClick={this.openEditDialog}/>
             <input {...SequenceControler.resetBtonHelp.dom()} type='button' disabled={!clickable.reset} value='reset' onClick={(e)=>Utils.promiseToState(this.resetSequence, this)}/>
             <input {...SequenceControler.dropBtonHelp.dom()} type='button' disabled={!clickable.drop} value='drop' onClick={(e)=>Utils.promiseToState(this.dropSequence, this)}/>
+            <div>
+                Auto resume: <input type="checkbox"
+                    checked={!!this.props.autoResume}
+                    {...SequenceControler.autoResumeHelp.dom()}
+                    onChange={(e)=>Utils.promiseToState(()=>this.setAutoResume(!!e.target.checked), this)}/>
+            </div>
         </div>);
     }
 
     static mapStateToProps(store:Store.Content, ownProps: InputProps):MappedProps {
+        const autoResume = store.backend.sequence?.configuration?.autoResume;
         var selected = atPath(store, ownProps.currentPath);
         if (!selected) {
-            return {}
+            return {autoResume}
         }
         var currentSequence = store.backend.sequence?.sequences.byuuid[selected];
         return {
             uuid: selected,
-            current: currentSequence
+            current: currentSequence,
+            autoResume,
         };
     }
 }
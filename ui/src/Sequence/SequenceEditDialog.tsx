@@ -1,6 +1,6 @@
 import * as React from 'react';
 
-import { Sequence } from '@bo/BackOfficeStatus';
+import { Sequence, SequenceEndCondition, SequenceFocusTriggers, SequenceQualityLimits, SequenceTarget } from '@bo/BackOfficeStatus';
 
 import * as Utils from '../Utils';
 import * as Help from '../Help';
@@ -12,6 +12,13 @@ import DeviceConnectBton from '../DeviceConnectBton';
 import CameraSelector from "./CameraSelector";
 import * as SequenceStepParameter from "./SequenceStepParameter";
 import SequenceStepEdit from "./SequenceStepEdit";
+import FocusTriggersEdit from "./FocusTriggersEdit";
+import QualityLimitsEdit from "./QualityLimitsEdit";
+import TargetEdit from "./TargetEdit";
+import SequenceTemplatesEdit from "./SequenceTemplatesEdit";
+import SequenceImportExport from "./SequenceImportExport";
+import SequenceCalibration from "./SequenceCalibration";
+import FileNamingEdit from "../FileNamingEdit";
 import CancellationToken from 'cancellationtoken';
 
 
@@ -37,7 +44,20 @@ type State = {
 }
 
 class SequenceEditDialog extends React.PureComponent<Props, State> {
-    private static titleHelp = Help.key("title", "Enter the title of the sequence. File for captured frames will be named according to the title");
+    private static titleHelp = Help.key("title", "Enter the title of the sequence. File for captured frames will be named according to the title, unless the file naming says otherwise");
+    private static endAtHelp = Help.key("End at", ()=>(<span>
+        Stop the sequence after the current frame when:
+        <ul>
+            <li>Time: the given local time (HH:MM) is reached</li>
+            <li>Dawn: the rising sun gets above the given altitude (-18 for astronomical twilight)</li>
+            <li>Target altitude: the setting target (or the mount position when no target is set) gets below the given altitude</li>
+        </ul>
+        The sequence is then marked as done. Progress estimations account for the time left.
+    </span>));
+    private static endAtValueHelp = Help.key("End at value", "Set the altitude (degrees) or the local time (HH:MM) that ends the sequence");
+    private static autofocusHelp = Help.key("Autofocus", "Let the sequence run autofocus by itself, using the focuser settings of its camera");
+    private static qualityLimitsHelp = Help.key("Quality limits", "Reject light frames of bad quality and take them again");
+    private static warmUpAtEndHelp = Help.key("Warm up at end", "Warm up the camera when the sequence is done, using the cooling settings of the camera");
     private static closeBtonHelp = Help.key("Close", "Return to the sequence list. Changes are saved as they are made.");
 
     constructor(props:Props) {
@@ -59,6 +79,75 @@ class SequenceEditDialog extends React.PureComponent<Props, State> {
             });
     }
 
+    private static defaultEndCondition(kind: string):SequenceEndCondition|null {
+        switch(kind) {
+            case "":
+                return null;
+            case "time":
+                return {kind, time: "05:00"};
+            case "dawn":
+                return {kind, sunAltitude: -18};
+            case "altitude":
+                return {kind, minAltitude: 30};
+        }
+        throw new Error("Invalid end condition: " + kind);
+    }
+
+    private updateEndAtValue = async(str: string) => {
+        const val = this.props.details?.endAt;
+        if (!val) {
+            return;
+        }
+        if (val.kind === "time") {
+            if (!/^[0-9]{1,2}:[0-9]{2}$/.test(str.trim())) {
+                throw new Error("Time must be HH:MM");
+            }
+            await this.updateSequenceParam('endAt', {...val, time: str.trim()});
+            return;
+        }
+        const num = parseFloat(str);
+        if (isNaN(num) || num < -90 || num > 90) {
+            throw new Error("Altitude must be between -90 and 90");
+        }
+        if (val.kind === "dawn") {
+            await this.updateSequenceParam('endAt', {...val, sunAltitude: num});
+        } else {
+            await this.updateSequenceParam('endAt', {...val, minAltitude: num});
+        }
+    }
+
+    private static defaultFocusTriggers: SequenceFocusTriggers = {
+        everyFrames: null,
+        afterFilterChange: true,
+        temperatureDelta: 1,
+        fwhmDegradation: null,
+    };
+
+    private updateFocusTriggers = async(diff: Partial<SequenceFocusTriggers>) => {
+        const current = this.props.details?.focusTriggers;
+        if (!current) {
+            return;
+        }
+        await this.updateSequenceParam('focusTriggers', {...current, ...diff});
+    }
+
+    private static defaultQualityLimits: SequenceQualityLimits = {
+        maxFwhm: null,
+        minStarCount: 10,
+        maxGuideRms: null,
+        maxBackground: null,
+        moveRejected: true,
+        maxRetakes: 5,
+    };
+
+    private updateQualityLimits = async(diff: Partial<SequenceQualityLimits>) => {
+        const current = this.props.details?.qualityLimits;
+        if (!current) {
+            return;
+        }
+        await this.updateSequenceParam('qualityLimits', {...current, ...diff});
+    }
+
     render() {
         if (!this.props.displayable || this.props.details === undefined || this.props.uid === undefined) {
             return null;
@@ -73,6 +162,12 @@ class SequenceEditDialog extends React.PureComponent<Props, State> {
                             helpKey={SequenceEditDialog.titleHelp}
                             onChange={(e)=>this.updateSequenceParam('title', e)} />
                 </div>
+                <div className="IndiProperty">
+                        Target:
+                        <TargetEdit
+                            target={this.props.details.target || null}
+                            update={(target: SequenceTarget|null)=>this.updateSequenceParam('target', target)}/>
+                </div>
                 <div className="IndiProperty">
                         Camera:
                         <CameraSelector
@@ -87,6 +182,76 @@ class SequenceEditDialog extends React.PureComponent<Props, State> {
                         />
                 </div>
 
+                <div className="IndiProperty">
+                        End at:
+                        <select
+                            value={this.props.details.endAt ? this.props.details.endAt.kind : ""}
+                            {...SequenceEditDialog.endAtHelp.dom()}
+                            onChange={(e: React.ChangeEvent<HTMLSelectElement>)=>
+                                    this.updateSequenceParam('endAt', SequenceEditDialog.defaultEndCondition(e.target.value))}>
+                            <option value="">Never</option>
+                            <option value="time">Time</option>
+                            <option value="dawn">Dawn</option>
+                            <option value="altitude">Target altitude</option>
+                        </select>
+                        {this.props.details.endAt
+                            ? <TextEdit
+                                value={"" + (this.props.details.endAt.kind === "time"
+                                                ? this.props.details.endAt.time
+                                                : this.props.details.endAt.kind === "dawn"
+                                                    ? this.props.details.endAt.sunAltitude
+                                                    : this.props.details.endAt.minAltitude)}
+                                helpKey={SequenceEditDialog.endAtValueHelp}
+                                onChange={(e)=>this.updateEndAtValue(e)} />
+                            : null
+                        }
+                </div>
+
+                <div className="IndiProperty">
+                        Autofocus: <input type="checkbox"
+                            checked={!!this.props.details.focusTriggers}
+                            {...SequenceEditDialog.autofocusHelp.dom()}
+                            onChange={(e)=>this.updateSequenceParam('focusTriggers',
+                                        e.target.checked ? SequenceEditDialog.defaultFocusTriggers : null)}/>
+                        {this.props.details.focusTriggers
+                            ? <FocusTriggersEdit
+                                settings={this.props.details.focusTriggers}
+                                update={({field, value})=>this.updateFocusTriggers({[field]: value})}/>
+                            : null
+                        }
+                </div>
+
+                <div className="IndiProperty">
+                        Quality limits: <input type="checkbox"
+                            checked={!!this.props.details.qualityLimits}
+                            {...SequenceEditDialog.qualityLimitsHelp.dom()}
+                            onChange={(e)=>this.updateSequenceParam('qualityLimits',
+                                        e.target.checked ? SequenceEditDialog.defaultQualityLimits : null)}/>
+                        {this.props.details.qualityLimits
+                            ? <QualityLimitsEdit
+                                settings={this.props.details.qualityLimits}
+                                update={({field, value})=>this.updateQualityLimits({[field]: value})}/>
+                            : null
+                        }
+                </div>
+
+                <div className="IndiProperty">
+                        Warm up at end: <input type="checkbox"
+                            checked={!!this.props.details.warmUpAtEnd}
+                            {...SequenceEditDialog.warmUpAtEndHelp.dom()}
+                            onChange={(e)=>this.updateSequenceParam('warmUpAtEnd', !!e.target.checked)}/>
+                </div>
+
+                <div className="IndiProperty">
+                        File naming:
+                        <FileNamingEdit
+                            camera={this.props.details.camera}
+                            sequenceUid={this.props.uid}
+                            template={this.props.details.fileNaming || null}
+                            inheritedTitle="Camera"
+                            onChange={(t)=>this.updateSequenceParam('fileNaming', t)}/>
+                </div>
+
                 <SequenceStepEdit
                         allowRemove={false}
                         camera={this.props.details.camera || ""}
@@ -95,6 +260,18 @@ class SequenceEditDialog extends React.PureComponent<Props, State> {
                         sequenceStepUidPath="[]"
                     />
 
+                <div className="IndiProperty">
+                        <SequenceTemplatesEdit sequenceUid={this.props.uid}/>
+                </div>
+
+                <div className="IndiProperty">
+                        <SequenceImportExport sequenceUid={this.props.uid}/>
+                </div>
+
+                <div className="IndiProperty">
+                        <SequenceCalibration sequenceUid={this.props.uid}/>
+                </div>
+
                 <input type='button' value='Close' onClick={this.props.onClose} {...SequenceEditDialog.closeBtonHelp.dom()}/>
             </div>
         </div>;
@@ -0,0 +1,88 @@
+import * as React from 'react';
+import CancellationToken from 'cancellationtoken';
+
+import { SequenceFormat } from '@bo/BackOfficeAPI';
+import * as Help from '../Help';
+import * as Actions from '../Actions';
+import * as BackendRequest from '../BackendRequest';
+import * as SequenceStore from '../SequenceStore';
+import Modal from '../Modal';
+import TextEdit from '../TextEdit';
+import "./SequenceImportExport.css";
+
+type Props = {
+    sequenceUid: string;
+}
+
+type State = {
+    exported: string|null;
+    error: string|null;
+}
+
+export default class SequenceImportExport extends React.PureComponent<Props, State> {
+    static exportHelp = Help.key("Export", "Display the definition of this sequence, to be copied. JSON keeps every setting. The text format is compact and easy to edit (one step per line, childs indented), but does not support wait, center and foreach steps.");
+    static importHelp = Help.key("Import", "Paste a sequence definition (JSON or text format) to create a new sequence. Example of text format: \"L 60s x20 dither every 3\"");
+    static closeExportHelp = Help.key("Close", "Close the exported sequence");
+
+    private readonly exportModal = React.createRef<Modal>();
+
+    constructor(props: Props) {
+        super(props);
+        this.state = {
+            exported: null,
+            error: null,
+        };
+    }
+
+    private export = async(format: SequenceFormat)=> {
+        const exported = await BackendRequest.RootInvoker("sequence")("exportSequence")(
+            CancellationToken.CONTINUE,
+            {
+                sequenceUid: this.props.sequenceUid,
+                format,
+            });
+        this.setState({exported});
+        this.exportModal.current?.open();
+    }
+
+    private import = async(content: string)=> {
+        this.setState({error: null});
+        try {
+            const sequence = await BackendRequest.RootInvoker("sequence")("importSequence")(
+                CancellationToken.CONTINUE,
+                {
+                    content,
+                    format: content.trim().startsWith("{") ? "json" : "text",
+                });
+            Actions.dispatch<SequenceStore.SequenceActions>()("setCurrentSequence", {sequence});
+        } catch(e) {
+            this.setState({error: "" + e});
+        }
+    }
+
+    render() {
+        return <>
+            Export:
+            <select value=""
+                    {...SequenceImportExport.exportHelp.dom()}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>)=>this.export(e.target.value as SequenceFormat)}>
+                <option value="" disabled hidden>Format...</option>
+                <option value="text">Text</option>
+                <option value="json">JSON</option>
+            </select>
+            Import:
+            <TextEdit
+                value=""
+                helpKey={SequenceImportExport.importHelp}
+                onChange={(e:string)=>this.import(e)}/>
+            {this.state.error !== null
+                ? <div className="SequenceImportError">{this.state.error}</div>
+                : null
+            }
+            <Modal ref={this.exportModal} closeHelpKey={SequenceImportExport.closeExportHelp}
+                    onClose={()=>this.setState({exported: null})}>
+                <div className="SequenceExportContent">{this.state.exported}</div>
+            </Modal>
+        </>;
+    }
+}
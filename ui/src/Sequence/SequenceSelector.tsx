@@ -33,7 +33,23 @@ async function newSequence(onCreated: (uid:string)=>void) {
     onCreated(sequence);
 }
 
-const sequenceSelectorHelp = Help.key("Sequence selector", "Select the sequence to display. Choose \"New\" to create a new sequence (last position)");
+async function cloneSequence(sequenceUid: string, onCreated: (uid:string)=>void) {
+    const sequence = await BackendRequest.RootInvoker("sequence")("cloneSequence")(
+        CancellationToken.CONTINUE,
+        {sequenceUid});
+    Actions.dispatch<SequenceStore.SequenceActions>()("setCurrentSequence", {sequence});
+    onCreated(sequence);
+}
+
+async function newSequenceFromTemplate(template: string, onCreated: (uid:string)=>void) {
+    const sequence = await BackendRequest.RootInvoker("sequence")("newSequenceFromTemplate")(
+        CancellationToken.CONTINUE,
+        {template});
+    Actions.dispatch<SequenceStore.SequenceActions>()("setCurrentSequence", {sequence});
+    onCreated(sequence);
+}
+
+const sequenceSelectorHelp = Help.key("Sequence selector", "Select the sequence to display. Choose \"New\" to create a new sequence (last position), \"Clone\" to copy the current one or \"New from\" to create one from a saved template");
 
 const SequenceSelector = connect(()=>{
     const sequenceSelectorBaseProps = {
@@ -46,11 +62,27 @@ const SequenceSelector = connect(()=>{
 
     const controls = createSelector(
             (store: Store.Content, ownProps: OwnProps)=>ownProps.onCreated,
-            (onCreated)=> [{
-                id:'new',
-                title:'New',
-                run: ()=>newSequence(onCreated)
-            }]);
+            (store: Store.Content, ownProps: OwnProps)=>atPath(store, ownProps.currentPath) as string|null|undefined,
+            (store: Store.Content, ownProps: OwnProps)=>store.backend.sequence?.templates,
+            (onCreated, active, templates)=> [
+                {
+                    id:'new',
+                    title:'New',
+                    run: ()=>newSequence(onCreated)
+                },
+                ...(active
+                    ? [{
+                        id: 'clone',
+                        title: 'Clone',
+                        run: ()=>cloneSequence(active, onCreated)
+                    }]
+                    : []),
+                ...Object.keys(templates || {}).sort().map(name=>({
+                    id: 'template:' + name,
+                    title: 'New from ' + name,
+                    run: ()=>newSequenceFromTemplate(name, onCreated)
+                })),
+            ]);
 
     return (store:Store.Content, ownProps:OwnProps)=> ({
         ... sequenceSelectorBaseProps,
@@ -4,7 +4,7 @@ import {SortableContainer, SortableElement, arrayMove} from 'react-sortable-hoc'
 import uuid from 'uuid';
 
 
-import { SequenceStep, SequenceDitheringSettings, SequenceStepParameters, SequenceForeach, SequenceForeachItem } from '@bo/BackOfficeStatus';
+import { SequenceStep, SequenceDitheringSettings, SequenceStepParameters, SequenceForeach, SequenceForeachItem, SequenceWaitCondition } from '@bo/BackOfficeStatus';
 import * as Utils from '../Utils';
 import * as Store from '../Store';
 import * as Help from '../Help';
@@ -25,6 +25,7 @@ import CameraBinEditor from '../CameraBinEditor';
 import SequenceStepParameterSplitter from './SequenceStepParameterSplitter';
 import { parameters, ParamDesc, CameraCapacity } from "./SequenceStepParameter";
 import DitheringSettingEdit from './DitheringSettingEdit';
+import AutoFlatEdit from './AutoFlatEdit';
 import Modal from '@src/Modal';
 
 export type ForcedParams = {[id: string]: {param: string, uid:string}};
@@ -157,7 +158,36 @@ class SequenceStepEdit extends React.PureComponent<Props, State> {
     </span>));
 
     static readonly ditheringDetailsHelp = Help.key("Dithering parameters", "Set dithering parameters.");
+    static readonly ditheringEveryHelp = Help.key("Dithering frequency", "Dither only on one loop of this step out of the given number (1 to dither on every loop)");
 
+    static readonly waitHelp = Help.key("Wait until", ()=>(<span>
+        Make this step wait for a condition instead of shooting:
+        <ul>
+            <li>Altitude: the sequence target (or the mount position when no target is set) is above the given altitude (degrees)</li>
+            <li>Time: the given local time (HH:MM) is reached</li>
+            <li>Darkness: the sun is below the given altitude (-18 for astronomical twilight)</li>
+        </ul>
+        The geographic coordinates are read from the mount selected in astrometry.
+    </span>));
+    static readonly waitValueHelp = Help.key("Wait condition value", "Set the altitude (degrees) or the local time (HH:MM) of the condition");
+
+    static readonly centerHelp = Help.key("Center", ()=>(<span>
+        Make this step center the mount instead of shooting: goto, shoot, plate solve and sync until the image center is close enough to the target.
+        <ul>
+            <li>Target: center on the target of the sequence, or on the position of the mount when the step starts if no target is set</li>
+            <li>Coordinates: center on the given J2000 coordinates</li>
+        </ul>
+        Tolerance, retries and exposure are set in the Astrometry tab.
+    </span>));
+    static readonly centerRaHelp = Help.key("Center RA", "J2000 right ascension of the target (hours)");
+    static readonly centerDecHelp = Help.key("Center Dec", "J2000 declination of the target (degrees)");
+    static readonly coolingHelp = Help.key("Cooling", "Make this step cool the camera instead of shooting: the set-point is ramped to that temperature (°C), and the step ends when the temperature is stable. Ramp and stability settings are in the camera view.");
+
+    static readonly gainHelp = Help.key("Gain", "Camera gain for the frames of this step (CCD_GAIN or the Gain control of the camera)");
+    static readonly offsetHelp = Help.key("Offset", "Camera offset for the frames of this step (CCD_OFFSET or the Offset control of the camera)");
+    static readonly roiHelp = Help.key("ROI", "Subframe to shoot, as x,y,width,height in unbinned sensor pixels. Leave empty for the full frame");
+    static readonly autoFlatHelp = Help.key("Auto flat", "Find the flat exposure with test frames instead of using a fixed exposure. The frame type defaults to flat");
+    static readonly autoFlatDetailsHelp = Help.key("Auto flat parameters", "Set the target level and the exposure range");
     static readonly repeatHelp = Help.key("Repeat", "Repeat any number of time. For steps with no child, that really means take that ammount of exposure. For steps with childs, the whole list of childs is repeated");
     static readonly dropParameterHelp = Help.key("Remove the selected parameter");
     static readonly dropParameterFromListHelp = Help.key("Remove the value from the list for that parameter");
@@ -526,6 +556,100 @@ class SequenceStepEdit extends React.PureComponent<Props, State> {
                     />
     }
 
+    // Value of a parameter of the current step, or of one of its foreach items
+    private getIterableValue<K extends keyof SequenceStepParameters>(param: K, foreachUuid: string|null): SequenceStepParameters[K]|undefined {
+        const details = this.getCurrentDetails();
+        if (foreachUuid === null) {
+            return details[param];
+        }
+        const item = Utils.getOwnProp(details.foreach?.byuuid, foreachUuid) as SequenceForeachItem<K>|undefined;
+        return item ? item[param] : undefined;
+    }
+
+    private updateControlValue=async (param: "gain"|"offset", str: string, foreachUuid: string|null)=> {
+        const num = parseFloat(str);
+        if (isNaN(num) || num < 0) {
+            throw new Error("Invalid " + param + ": " + str);
+        }
+        await this.updateIterableSequenceStepParam(param, num, foreachUuid);
+    }
+
+    renderGain=(p:ParamDesc, settingsPath: string, foreachUuid: string|null, focusRef?: React.RefObject<any>)=> {
+        const val = this.getIterableValue("gain", foreachUuid);
+        return <TextEdit
+                        value={val === undefined || val === null ? "" : "" + val}
+                        focusRef={focusRef}
+                        helpKey={SequenceStepEdit.gainHelp}
+                        onChange={(e:string)=> Utils.promiseToState(()=>this.updateControlValue("gain", e, foreachUuid), this)}/>
+    }
+
+    renderOffset=(p:ParamDesc, settingsPath: string, foreachUuid: string|null, focusRef?: React.RefObject<any>)=> {
+        const val = this.getIterableValue("offset", foreachUuid);
+        return <TextEdit
+                        value={val === undefined || val === null ? "" : "" + val}
+                        focusRef={focusRef}
+                        helpKey={SequenceStepEdit.offsetHelp}
+                        onChange={(e:string)=> Utils.promiseToState(()=>this.updateControlValue("offset", e, foreachUuid), this)}/>
+    }
+
+    private updateRoiValue=async (str: string, foreachUuid: string|null)=> {
+        if (str.trim() === "") {
+            await this.updateIterableSequenceStepParam('roi', null, foreachUuid);
+            return;
+        }
+        const m = str.replace(/\s/g, "").match(/^([0-9]+),([0-9]+),([1-9][0-9]*),([1-9][0-9]*)$/);
+        if (m === null) {
+            throw new Error("Invalid ROI (x,y,width,height expected): " + str);
+        }
+        await this.updateIterableSequenceStepParam('roi', {x: parseInt(m[1]), y: parseInt(m[2]), w: parseInt(m[3]), h: parseInt(m[4])}, foreachUuid);
+    }
+
+    renderRoi=(p:ParamDesc, settingsPath: string, foreachUuid: string|null, focusRef?: React.RefObject<any>)=> {
+        const val = this.getIterableValue("roi", foreachUuid);
+        return <TextEdit
+                        value={val ? val.x + "," + val.y + "," + val.w + "," + val.h : ""}
+                        focusRef={focusRef}
+                        helpKey={SequenceStepEdit.roiHelp}
+                        onChange={(e:string)=> Utils.promiseToState(()=>this.updateRoiValue(e, foreachUuid), this)}/>
+    }
+
+    private autoFlatDetailsModal = React.createRef<Modal>();
+
+    renderAutoFlat=(p:ParamDesc, settingsPath: string, foreachUuid: string|null, focusRef?: React.RefObject<any>)=> {
+        const val = this.getCurrentDetails().autoFlat;
+
+        return <>
+            <select
+                        value={val === undefined ? "" : val === null ? "false" : "true"}
+                        ref={focusRef}
+                        {...SequenceStepEdit.autoFlatHelp.dom()}
+                        onChange={
+                            (e: React.ChangeEvent<HTMLSelectElement>)=> Utils.promiseToState(
+                                        ()=>this.updateSequenceStepParam('autoFlat', e.target.value === 'true' ? {...AutoFlatEdit.defaults} : null), this)
+                        }>
+                    <option value="" disabled hidden>Choose...</option>
+                    <option value="true">On</option>
+                    <option value="false">Off</option>
+            </select>
+            <input type="button" value="..." disabled={!val} {...SequenceStepEdit.autoFlatDetailsHelp.dom()} onClick={()=>{
+                const c = this.autoFlatDetailsModal.current;
+                if (c) c.open();
+            }}/>
+        </>;
+    }
+
+    renderAutoFlatDetails=(p:ParamDesc, settingsPath: string, focusRef?: React.RefObject<any>)=> {
+        const val = this.getCurrentDetails().autoFlat;
+        return !!val
+                ?<Modal ref={this.autoFlatDetailsModal} closeHelpKey={SequenceStepEdit.closeRenderingDetailsHelp}>
+                    <AutoFlatEdit settings={val} update={
+                            ({field, value})=> Utils.promiseToState(
+                                ()=>this.updateSequenceStepParam('autoFlat', {...val, [field]: value}), this)
+                        }/>
+                </Modal>
+                : null
+    }
+
     private ditheringDetailsModal = React.createRef<Modal>();
 
     renderDithering=(p:ParamDesc, settingsPath: string, foreachUuid: string|null, focusRef?: React.RefObject<any>)=> {
@@ -560,10 +684,161 @@ class SequenceStepEdit extends React.PureComponent<Props, State> {
                             ({field, value})=> Utils.promiseToState(
                                 ()=>this.updateSequenceStepDitheringParam({[field]: value}), this)
                         }/>
+                    {!val.once
+                        ? <div className="DitheringSettingBlock">
+                            <h2>Frequency</h2>
+                            <div className="DitheringSettingParam">
+                                Every:
+                                <TextEdit
+                                    value={"" + (val.every || 1)}
+                                    helpKey={SequenceStepEdit.ditheringEveryHelp}
+                                    onChange={(e:string)=> Utils.promiseToState(
+                                        ()=>this.updateSequenceStepDitheringParam({every: parseInt(e)}), this)}/>
+                                loop(s)
+                            </div>
+                        </div>
+                        : null
+                    }
                 </Modal>
                 : null
     }
 
+    private static defaultWaitCondition(kind: string):SequenceWaitCondition {
+        switch(kind) {
+            case "altitude":
+                return {kind, minAltitude: 30};
+            case "time":
+                return {kind, time: "22:00"};
+            case "darkness":
+                return {kind, sunAltitude: -18};
+        }
+        throw new Error("Invalid condition: " + kind);
+    }
+
+    private updateWaitValue=async (str: string)=> {
+        const val = this.getCurrentDetails().wait;
+        if (!val) {
+            return;
+        }
+        if (val.kind === "time") {
+            if (!/^[0-9]{1,2}:[0-9]{2}$/.test(str.trim())) {
+                throw new Error("Time must be HH:MM");
+            }
+            await this.updateSequenceStepParam('wait', {...val, time: str.trim()});
+            return;
+        }
+        const num = parseFloat(str);
+        if (isNaN(num) || num < -90 || num > 90) {
+            throw new Error("Altitude must be between -90 and 90");
+        }
+        if (val.kind === "altitude") {
+            await this.updateSequenceStepParam('wait', {...val, minAltitude: num});
+        } else {
+            await this.updateSequenceStepParam('wait', {...val, sunAltitude: num});
+        }
+    }
+
+    renderWait=(p:ParamDesc, settingsPath: string, foreachUuid: string|null, focusRef?: React.RefObject<any>)=> {
+        const val = this.getCurrentDetails().wait;
+
+        return <>
+            <select
+                        value={val ? val.kind : ""}
+                        ref={focusRef}
+                        {...SequenceStepEdit.waitHelp.dom()}
+                        onChange={
+                            (e: React.ChangeEvent<HTMLSelectElement>)=> Utils.promiseToState(
+                                        ()=>this.updateSequenceStepParam('wait', SequenceStepEdit.defaultWaitCondition(e.target.value)), this)
+                        }>
+                    <option value="" disabled hidden>Choose...</option>
+                    <option value="altitude">Altitude</option>
+                    <option value="time">Time</option>
+                    <option value="darkness">Darkness</option>
+            </select>
+            {val
+                ? <TextEdit
+                        value={"" + (val.kind === "time" ? val.time : val.kind === "altitude" ? val.minAltitude : val.sunAltitude)}
+                        helpKey={SequenceStepEdit.waitValueHelp}
+                        onChange={(e:string)=> Utils.promiseToState(()=>this.updateWaitValue(e), this)}/>
+                : null
+            }
+        </>;
+    }
+
+    private updateCenterValue=async (field: "ra"|"dec", str: string)=> {
+        const val = this.getCurrentDetails().center;
+        if (!val) {
+            return;
+        }
+        const num = parseFloat(str);
+        if (field === "ra") {
+            if (isNaN(num) || num < 0 || num >= 24) {
+                throw new Error("RA must be between 0 and 24");
+            }
+            await this.updateSequenceStepParam('center', {...val, ra: num * 15});
+        } else {
+            if (isNaN(num) || num < -90 || num > 90) {
+                throw new Error("Dec must be between -90 and 90");
+            }
+            await this.updateSequenceStepParam('center', {...val, dec: num});
+        }
+    }
+
+    renderCenter=(p:ParamDesc, settingsPath: string, foreachUuid: string|null, focusRef?: React.RefObject<any>)=> {
+        const val = this.getCurrentDetails().center;
+        const kind = val ? (val.ra === null || val.dec === null ? "mount" : "coordinates") : "";
+
+        return <>
+            <select
+                        value={kind}
+                        ref={focusRef}
+                        {...SequenceStepEdit.centerHelp.dom()}
+                        onChange={
+                            (e: React.ChangeEvent<HTMLSelectElement>)=> Utils.promiseToState(
+                                        ()=>this.updateSequenceStepParam('center',
+                                                e.target.value === "mount" ? {ra: null, dec: null} : {ra: 0, dec: 0}), this)
+                        }>
+                    <option value="" disabled hidden>Choose...</option>
+                    <option value="mount">Target</option>
+                    <option value="coordinates">Coordinates</option>
+            </select>
+            {val && val.ra !== null && val.dec !== null
+                ? <>
+                    RA (h):
+                    <TextEdit
+                        value={"" + (val.ra / 15)}
+                        helpKey={SequenceStepEdit.centerRaHelp}
+                        onChange={(e:string)=> Utils.promiseToState(()=>this.updateCenterValue("ra", e), this)}/>
+                    Dec (°):
+                    <TextEdit
+                        value={"" + val.dec}
+                        helpKey={SequenceStepEdit.centerDecHelp}
+                        onChange={(e:string)=> Utils.promiseToState(()=>this.updateCenterValue("dec", e), this)}/>
+                </>
+                : null
+            }
+        </>;
+    }
+
+    private updateCoolingValue=async (str: string)=> {
+        const num = parseFloat(str);
+        if (isNaN(num) || num < -100 || num > 50) {
+            throw new Error("Invalid temperature: " + str);
+        }
+        await this.updateSequenceStepParam('cooling', {temperature: num});
+    }
+
+    renderCooling=(p:ParamDesc, settingsPath: string, foreachUuid: string|null, focusRef?: React.RefObject<any>)=> {
+        const val = this.getCurrentDetails().cooling;
+        return <>
+            Set-point (°C):
+            <TextEdit
+                value={val ? "" + val.temperature : ""}
+                helpKey={SequenceStepEdit.coolingHelp}
+                onChange={(e:string)=> Utils.promiseToState(()=>this.updateCoolingValue(e), this)}/>
+        </>;
+    }
+
     renderRepeat=(p:ParamDesc, settingsPath: string, foreachUuid: string|null, focusRef?: React.RefObject<any>)=> {
         const valnum = this.props.detailsStack[this.props.detailsStack.length-1].repeat;
         
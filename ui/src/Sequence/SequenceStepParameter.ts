@@ -2,6 +2,7 @@ import {SequenceStepEdit} from "./SequenceStepEdit";
 import * as Store from '../Store';
 import * as IndiManagerStore from "../IndiManagerStore";
 import * as FilterWheelStore from "../FilterWheelStore";
+import { hasCameraControl, CameraControl } from "../CameraControlEditor";
 import { deepEqual } from '../shared/Obj';
 import { SequenceStep } from '@bo/BackOfficeStatus';
 
@@ -9,6 +10,10 @@ export type CameraCapacity = {
     iso?: boolean;
     bin?: boolean;
     filter?: boolean;
+    gain?: boolean;
+    offset?: boolean;
+    roi?: boolean;
+    cooling?: boolean;
 };
 
 export type ParamDesc = {
@@ -28,6 +33,12 @@ export type GroupDesc = {
     childs: ParamDesc[];
 };
 
+function cameraControlCapacity(control: CameraControl) {
+    return (camera:string, s:Store.Content):Partial<CameraCapacity> => ({
+        [control]: hasCameraControl(s, camera, control)
+    });
+}
+
 function cameraIndiVectorCapacity(vec: string, k: keyof CameraCapacity) {
     return (camera:string, s:Store.Content):Partial<CameraCapacity> => {
         const vector = IndiManagerStore.getVector(s, camera, vec);
@@ -71,6 +82,30 @@ export const parameters:GroupDesc[] = [
                 capacity: cameraIndiVectorCapacity('CCD_BINNING', 'bin'),
                 available: (cap)=>!!cap.bin,
             },
+            {
+                id: "gain",
+                title: "Gain",
+                splittable: true,
+                render: (s)=>s.renderGain,
+                capacity: cameraControlCapacity('gain'),
+                available: (cap)=>!!cap.gain,
+            },
+            {
+                id: "offset",
+                title: "Offset",
+                splittable: true,
+                render: (s)=>s.renderOffset,
+                capacity: cameraControlCapacity('offset'),
+                available: (cap)=>!!cap.offset,
+            },
+            {
+                id: "roi",
+                title: "ROI",
+                splittable: true,
+                render: (s)=>s.renderRoi,
+                capacity: cameraIndiVectorCapacity('CCD_FRAME', 'roi'),
+                available: (cap)=>!!cap.roi,
+            },
             {
                 id: "filter",
                 title: "Filter",
@@ -79,6 +114,13 @@ export const parameters:GroupDesc[] = [
                 capacity: (cam, store)=>({filter: FilterWheelStore.hasFilterWheel(store)}),
                 available: (cap)=>!!cap.filter,
             },
+            {
+                id: "autoFlat",
+                title: "Auto flat",
+                splittable: false,
+                render: (s)=>s.renderAutoFlat,
+                renderMore: (s)=>s.renderAutoFlatDetails,
+            },
         ]
     },
     {
@@ -94,6 +136,37 @@ export const parameters:GroupDesc[] = [
             },
         ]
     },
+    {
+        id: "conditions",
+        title: "Conditions",
+        childs: [
+            {
+                id: "wait",
+                title: "Wait until",
+                splittable: false,
+                render: (s)=>s.renderWait,
+                // Wait steps don't shoot, so they can't have childs
+                available: (cap, stack)=>!stack[stack.length - 1].childs && !stack[stack.length - 1].center && !stack[stack.length - 1].cooling,
+            },
+            {
+                id: "center",
+                title: "Center",
+                splittable: false,
+                render: (s)=>s.renderCenter,
+                // Centering steps don't shoot either
+                available: (cap, stack)=>!stack[stack.length - 1].childs && !stack[stack.length - 1].wait && !stack[stack.length - 1].cooling,
+            },
+            {
+                id: "cooling",
+                title: "Cooling",
+                splittable: false,
+                render: (s)=>s.renderCooling,
+                capacity: cameraIndiVectorCapacity('CCD_TEMPERATURE', 'cooling'),
+                // Nor cooling steps
+                available: (cap, stack)=>!!cap.cooling && !stack[stack.length - 1].childs && !stack[stack.length - 1].wait && !stack[stack.length - 1].center,
+            },
+        ]
+    },
     {
         id: "control",
         title: "Flow Control",
@@ -110,7 +183,7 @@ export const parameters:GroupDesc[] = [
                 title: "Add child",
                 splittable: false,
                 hidden: true,
-                available: (cap, stack)=> stack.length < 5
+                available: (cap, stack)=> stack.length < 5 && !stack[stack.length - 1].wait && !stack[stack.length - 1].center && !stack[stack.length - 1].cooling
             },
             {
                 id: "remove",
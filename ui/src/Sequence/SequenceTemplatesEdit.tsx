@@ -0,0 +1,88 @@
+import * as React from 'react';
+import CancellationToken from 'cancellationtoken';
+import { createSelector } from 'reselect';
+
+import * as Help from '../Help';
+import * as Store from '../Store';
+import * as BackendRequest from '../BackendRequest';
+import TextEdit from '../TextEdit';
+
+type InputProps = {
+    sequenceUid: string;
+}
+
+type MappedProps = {
+    names: string[];
+}
+
+type Props = InputProps & MappedProps;
+
+type State = {
+    selected: string;
+}
+
+class SequenceTemplatesEdit extends React.PureComponent<Props, State> {
+    static saveHelp = Help.key("Save as template", "Save the definition of this sequence (steps, camera, target, end and autofocus settings) under the given name. An existing template with the same name is replaced. New sequences can then be created from it with the sequence selector.");
+    static selectHelp = Help.key("Templates", "Saved templates");
+    static dropHelp = Help.key("Drop template", "Remove the selected template. Sequences created from it are kept.");
+
+    constructor(props: Props) {
+        super(props);
+        this.state = {selected: ""};
+    }
+
+    private save = async(name: string)=> {
+        await BackendRequest.RootInvoker("sequence")("saveSequenceTemplate")(
+            CancellationToken.CONTINUE,
+            {
+                sequenceUid: this.props.sequenceUid,
+                name,
+            });
+    }
+
+    private drop = async()=> {
+        await BackendRequest.RootInvoker("sequence")("dropSequenceTemplate")(
+            CancellationToken.CONTINUE,
+            {
+                name: this.state.selected,
+            });
+        this.setState({selected: ""});
+    }
+
+    render() {
+        return <>
+            Save as template:
+            <TextEdit
+                value=""
+                helpKey={SequenceTemplatesEdit.saveHelp}
+                onChange={(e:string)=>this.save(e)}/>
+            {this.props.names.length
+                ? <>
+                    <select value={this.state.selected}
+                            {...SequenceTemplatesEdit.selectHelp.dom()}
+                            onChange={(e: React.ChangeEvent<HTMLSelectElement>)=>this.setState({selected: e.target.value})}>
+                        <option value="" disabled hidden>Templates...</option>
+                        {this.props.names.map(name=><option key={name} value={name}>{name}</option>)}
+                    </select>
+                    <input type="button" value="Drop" disabled={this.state.selected === ""}
+                            {...SequenceTemplatesEdit.dropHelp.dom()}
+                            onClick={this.drop}/>
+                </>
+                : null
+            }
+        </>;
+    }
+
+    private static namesSelector = createSelector(
+        (store: Store.Content)=>store.backend.sequence?.templates,
+        (templates)=>Object.keys(templates || {}).sort()
+    );
+
+    static mapStateToProps(store: Store.Content, ownProps: InputProps):MappedProps {
+        return {
+            names: SequenceTemplatesEdit.namesSelector(store),
+        };
+    }
+}
+
+export default Store.Connect<SequenceTemplatesEdit, InputProps, {}, MappedProps>(SequenceTemplatesEdit);
@@ -18,6 +18,8 @@ import * as BackOfficeAPI from '@bo/BackOfficeAPI';
 import SequenceControler from './SequenceControler';
 import SequenceSelector from './SequenceSelector';
 import ImageDetail from "./ImageDetail";
+import MeridianFlipView from "./MeridianFlipView";
+import SchedulerView from "./SchedulerView";
 
 
 type SequenceViewDatabaseObject = {
@@ -61,6 +63,12 @@ const fieldList:Array<FieldDefinition & {id:string}> = [
                 {rms.toLocaleString(undefined, {minimumFractionDigits:3, maximumFractionDigits: 3})}
             </span>;
         }
+    },
+    {
+        id: 'rejected',
+        title: 'Rejected',
+        defaultWidth: '8em',
+        render: (o:BackOfficeStatus.ImageStats)=>(o.rejected === undefined ? null: <span className='stat-rejected' title={o.rejected}>{o.rejected}</span>),
     }
 ]
 
@@ -116,6 +124,8 @@ class SequenceView extends PureComponent<SequenceViewProps> {
                     currentPath='$.sequence.currentSequence'
                     editSequence={this.editSequence}
                 />
+                <MeridianFlipView/>
+                <SchedulerView/>
             </div>
             <div className="SequenceViewDisplay">
                 <ImageDetail
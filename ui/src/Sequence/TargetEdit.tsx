@@ -0,0 +1,196 @@
+import * as React from 'react';
+import CancellationToken from 'cancellationtoken';
+
+import { SequenceTarget } from '@bo/BackOfficeStatus';
+import { CatalogObject } from '@bo/BackOfficeAPI';
+import * as BackendRequest from '../BackendRequest';
+import * as Help from '../Help';
+import TextEdit from '../TextEdit';
+import "./TargetEdit.css";
+
+type Props = {
+    target: SequenceTarget|null;
+    update: (target: SequenceTarget|null)=>Promise<void>;
+}
+
+type State = {
+    query: string;
+    results: CatalogObject[]|null;
+    // Target entered by hand
+    manualName: string;
+    manualRa: string;
+    manualDec: string;
+}
+
+// Hours or degrees, as decimal or sexagesimal (12 34 56, 12:34:56, 12h34m56s, -5°23'28")
+function parseSexagesimalInput(str: string): number {
+    const trimmed = str.trim();
+    const neg = trimmed.startsWith('-');
+    const parts = trimmed.replace(/^[-+]/, '').split(/[\s:hmsd°'"]+/).filter(e=>e !== "");
+    if (parts.length === 0 || parts.length > 3 || parts.some(e=>!/^[0-9]+(\.[0-9]*)?$/.test(e))) {
+        throw new Error("Invalid coordinate: " + str);
+    }
+    const [a, b, c] = [...parts.map(parseFloat), 0, 0];
+    if (b >= 60 || c >= 60) {
+        throw new Error("Invalid coordinate: " + str);
+    }
+    const ret = a + b / 60 + c / 3600;
+    return neg ? -ret : ret;
+}
+
+function formatSexagesimal(v: number, withSign: boolean, units: string[]) {
+    const sign = v < 0 ? "-" : withSign ? "+" : "";
+    const seconds = Math.round(Math.abs(v) * 3600);
+    return sign + Math.floor(seconds / 3600) + units[0]
+        + ("" + (Math.floor(seconds / 60) % 60)).padStart(2, "0") + units[1]
+        + ("" + (seconds % 60)).padStart(2, "0") + units[2];
+}
+
+export default class TargetEdit extends React.PureComponent<Props, State> {
+    static searchHelp = Help.key("Search target", "Search the bundled catalog (Messier, NGC and IC objects) by identifier (M31, NGC 7000) or common name. Other targets can be entered with their coordinates");
+    static resultHelp = Help.key("Search results", "Select the target of the sequence. Its J2000 coordinates are used for centering and altitude conditions.");
+    static rotationHelp = Help.key("Rotation", "Field rotation (degrees) for this target. Leave empty when it does not matter.");
+    static clearHelp = Help.key("Clear target", "Remove the target of the sequence. The mount position is then used for altitude conditions and centering.");
+    static manualNameHelp = Help.key("Target name", "Name of a target that is not in the catalog");
+    static manualRaHelp = Help.key("Target RA", "J2000 right ascension of the target, in hours (5 35 17 or 5.588)");
+    static manualDecHelp = Help.key("Target Dec", "J2000 declination of the target, in degrees (-5 23 28 or -5.391)");
+    static manualSetHelp = Help.key("Set target", "Use these coordinates as the target of the sequence");
+
+    constructor(props: Props) {
+        super(props);
+        this.state = {
+            query: "",
+            results: null,
+            manualName: "",
+            manualRa: "",
+            manualDec: "",
+        };
+    }
+
+    private search = async(query: string)=> {
+        this.setState({query, results: null});
+        const results = await BackendRequest.RootInvoker("catalog")("search")(
+            CancellationToken.CONTINUE,
+            {query, limit: 20}
+        );
+        // Ignore results of an outdated query
+        if (this.state.query === query) {
+            this.setState({results});
+        }
+    }
+
+    private select = async(name: string)=> {
+        const object = this.state.results?.find(e=>e.name === name);
+        if (!object) {
+            return;
+        }
+        await this.props.update({
+            name: object.name,
+            ra: object.ra,
+            dec: object.dec,
+            rotation: this.props.target ? this.props.target.rotation : null,
+        });
+        this.setState({query: "", results: null});
+    }
+
+    private setManualTarget = async()=> {
+        const name = this.state.manualName.trim();
+        if (name === "") {
+            throw new Error("Target name is required");
+        }
+        const ra = parseSexagesimalInput(this.state.manualRa);
+        const dec = parseSexagesimalInput(this.state.manualDec);
+        if (ra < 0 || ra >= 24) {
+            throw new Error("RA must be between 0 and 24h");
+        }
+        if (dec < -90 || dec > 90) {
+            throw new Error("Dec must be between -90 and 90°");
+        }
+        await this.props.update({
+            name,
+            ra: ra * 15,
+            dec,
+            rotation: this.props.target ? this.props.target.rotation : null,
+        });
+        this.setState({manualName: "", manualRa: "", manualDec: ""});
+    }
+
+    private updateRotation = async(str: string)=> {
+        if (!this.props.target) {
+            return;
+        }
+        let rotation: number|null = null;
+        if (str.trim() !== "") {
+            rotation = parseFloat(str);
+            if (isNaN(rotation)) {
+                throw new Error("Invalid rotation: " + str);
+            }
+        }
+        await this.props.update({...this.props.target, rotation});
+    }
+
+    render() {
+        const target = this.props.target;
+        return <>
+            {target
+                ? <>
+                    {target.name} (RA {formatSexagesimal(target.ra / 15, false, ["h", "m", "s"])} Dec {formatSexagesimal(target.dec, true, ["°", "'", "\""])})
+                    <input type="button" value="Clear" {...TargetEdit.clearHelp.dom()}
+                            onClick={()=>this.props.update(null)}/>
+                </>
+                : null
+            }
+            <div className="TargetEditParam">
+                Search:
+                <TextEdit
+                    value={this.state.query}
+                    helpKey={TargetEdit.searchHelp}
+                    onChange={(e:string)=>this.search(e)}/>
+                {this.state.results !== null
+                    ? this.state.results.length
+                        ? <select value="" {...TargetEdit.resultHelp.dom()}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>)=>this.select(e.target.value)}>
+                            <option value="" disabled hidden>Choose...</option>
+                            {this.state.results.map(e=>
+                                <option key={e.name} value={e.name}>
+                                    {[e.name, ...e.aliases].join(" / ") + (e.commonName ? " - " + e.commonName : "")}
+                                </option>
+                            )}
+                        </select>
+                        : <i>No match: enter the coordinates below</i>
+                    : null
+                }
+            </div>
+            <div className="TargetEditParam TargetEditManual">
+                Name:
+                <TextEdit
+                    value={this.state.manualName}
+                    helpKey={TargetEdit.manualNameHelp}
+                    onChange={(e:string)=>this.setState({manualName: e})}/>
+                RA (h):
+                <TextEdit
+                    value={this.state.manualRa}
+                    helpKey={TargetEdit.manualRaHelp}
+                    onChange={(e:string)=>this.setState({manualRa: e})}/>
+                Dec (°):
+                <TextEdit
+                    value={this.state.manualDec}
+                    helpKey={TargetEdit.manualDecHelp}
+                    onChange={(e:string)=>this.setState({manualDec: e})}/>
+                <input type="button" value="Set" {...TargetEdit.manualSetHelp.dom()}
+                        disabled={this.state.manualName.trim() === "" || this.state.manualRa.trim() === "" || this.state.manualDec.trim() === ""}
+                        onClick={this.setManualTarget}/>
+            </div>
+            {target
+                ? <div className="TargetEditParam">
+                    Rotation (°):
+                    <TextEdit
+                        value={target.rotation === null ? "" : "" + target.rotation}
+                        helpKey={TargetEdit.rotationHelp}
+                        onChange={(e:string)=>this.updateRotation(e)}/>
+                </div>
+                : null
+            }
+        </>;
+    }
+}
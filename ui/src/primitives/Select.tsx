@@ -0,0 +1,43 @@
+import * as React from 'react';
+import * as Help from '../Help';
+import * as Store from '../Store';
+
+type InputProps = {
+    accessor: Store.Accessor<string>;
+    // value => title
+    options: {[value: string]: string};
+    helpKey?: Help.Key;
+}
+
+type MappedProps = {
+    value: string;
+}
+
+type Props = InputProps & MappedProps;
+
+class Select extends React.PureComponent<Props> {
+    render() {
+        return <span className='cameraSetting' {...this.props.helpKey?.dom()}>
+            {this.props.children}
+            <select
+                value={this.props.value}
+                onChange={this.update}>
+                {Object.keys(this.props.options).map(value=>
+                    <option key={value} value={value}>{this.props.options[value]}</option>
+                )}
+            </select>
+        </span>;
+    }
+
+    update=(e:React.ChangeEvent<HTMLSelectElement>)=>{
+        this.props.accessor.send(e.target.value);
+    }
+
+    static mapStateToProps(store:Store.Content, ownProps:InputProps) {
+        return ({
+            value: ownProps.accessor.fromStore(store)
+        });
+    }
+}
+
+export default Store.Connect(Select);
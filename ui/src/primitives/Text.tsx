@@ -1,4 +1,5 @@
 import * as React from 'react';
+import * as Help from '../Help';
 import * as Store from '../Store';
 import * as BaseText from './BaseText';
 
@@ -6,9 +7,10 @@ type Props = {
     accessor: Store.Accessor<string|undefined|null>;
     toString: (t:string|undefined|null)=>string;
     fromString: (s:string)=>string|undefined|null;
+    helpKey?: Help.Key;
 }
 
-const MappedText = Store.Connect<BaseText.default<string|undefined|null>, Props, {}, {}>(BaseText.default);
+const MappedText = Store.Connect<BaseText.default<string|undefined|null>, BaseText.InputProps<string|undefined|null>, {}, {}>(BaseText.default);
 
 class Text extends React.PureComponent<Props> {
     static defaultProps = {
@@ -22,6 +24,7 @@ class Text extends React.PureComponent<Props> {
                     toString={this.props.toString}
                     fromString={this.props.fromString}
                     children={this.props.children}
+                    helpKey={this.props.helpKey}
                 />
     }
 }
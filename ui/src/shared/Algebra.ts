@@ -31,4 +31,10 @@ export function kapaFilteredMean(values: number[], sigma:number, iter:number) {
 export function starFieldFwhm(stars: Array<{fwhm: number, peak:number}>) {
     stars = stars.filter(star=>star.peak < 0.9);
     return kapaFilteredMean(stars.map(star=>star.fwhm), 5, 1.5);
-}
\ No newline at end of file
+}
+
+// Same for the half flux radius
+export function starFieldHfr(stars: Array<{hfr: number, peak:number}>) {
+    stars = stars.filter(star=>star.peak < 0.9);
+    return kapaFilteredMean(stars.map(star=>star.hfr), 5, 1.5);
+}